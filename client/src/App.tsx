@@ -1,13 +1,19 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import Dashboard from '@/components/Dashboard';
 import PatientManagement from '@/components/PatientManagement';
 import MedicineManagement from '@/components/MedicineManagement';
 import CashierSystem from '@/components/CashierSystem';
 import Reports from '@/components/Reports';
 import Settings from '@/components/Settings';
+import AppointmentCalendar from '@/components/AppointmentCalendar';
+import AuditLog from '@/components/AuditLog';
+import Login from '@/components/Login';
+import { trpc, getAuthToken, clearAuthToken } from '@/utils/trpc';
+import { ROLE_LABELS, canAccessTab } from '@/lib/roles';
 import { 
   LayoutDashboard, 
   Users, 
@@ -15,11 +21,82 @@ import {
   CreditCard, 
   FileText, 
   Settings as SettingsIcon,
-  Stethoscope
+  Stethoscope,
+  LogOut,
+  History,
+  CalendarDays
 } from 'lucide-react';
+import type { User } from '../../server/src/schema';
+
+// Static class names so Tailwind keeps them in the build
+const TAB_GRID_COLS: Record<number, string> = {
+  1: 'grid-cols-1 lg:grid-cols-1',
+  2: 'grid-cols-2 lg:grid-cols-2',
+  3: 'grid-cols-3 lg:grid-cols-3',
+  4: 'grid-cols-4 lg:grid-cols-4',
+  5: 'grid-cols-5 lg:grid-cols-5',
+  6: 'grid-cols-6 lg:grid-cols-6',
+  7: 'grid-cols-7 lg:grid-cols-7',
+  8: 'grid-cols-8 lg:grid-cols-8'
+};
 
 function App() {
   const [activeTab, setActiveTab] = useState('dashboard');
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [isCheckingAuth, setIsCheckingAuth] = useState(true);
+
+  const loadCurrentUser = useCallback(async () => {
+    if (!getAuthToken()) {
+      setIsCheckingAuth(false);
+      return;
+    }
+    try {
+      const user = await trpc.getCurrentUser.query();
+      if (!user) {
+        clearAuthToken();
+      }
+      setCurrentUser(user);
+    } catch (error) {
+      console.error('Failed to load current user:', error);
+    } finally {
+      setIsCheckingAuth(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCurrentUser();
+  }, [loadCurrentUser]);
+
+  const handleLogin = (user: User) => {
+    setActiveTab('dashboard');
+    setCurrentUser(user);
+  };
+
+  const handleLogout = async () => {
+    try {
+      await trpc.logout.mutate();
+    } catch (error) {
+      console.error('Logout failed:', error);
+    } finally {
+      clearAuthToken();
+      setCurrentUser(null);
+    }
+  };
+
+  if (isCheckingAuth) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-500">Memuat...</p>
+      </div>
+    );
+  }
+
+  if (!currentUser) {
+    return <Login onLogin={handleLogin} />;
+  }
+
+  const canAccess = (tab: string) => canAccessTab(currentUser.role, tab);
+  const visibleTabCount = ['dashboard', 'patients', 'appointments', 'medicines', 'cashier', 'reports', 'audit', 'settings'].filter(canAccess).length;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-white">
@@ -38,9 +115,19 @@ function App() {
                 <p className="text-sm text-gray-600">Sistem Manajemen Klinik</p>
               </div>
             </div>
-            <Badge variant="secondary" className="bg-green-100 text-green-800">
-              🟢 Online
-            </Badge>
+            <div className="flex items-center gap-3">
+              <div className="text-right hidden sm:block">
+                <p className="text-sm font-medium text-gray-900">{currentUser.full_name}</p>
+                <p className="text-xs text-gray-500">{ROLE_LABELS[currentUser.role]}</p>
+              </div>
+              <Badge variant="secondary" className="bg-green-100 text-green-800">
+                🟢 Online
+              </Badge>
+              <Button variant="outline" size="sm" onClick={handleLogout} className="flex items-center gap-2">
+                <LogOut className="h-4 w-4" />
+                <span className="hidden sm:inline">Keluar</span>
+              </Button>
+            </div>
           </div>
         </div>
       </div>
@@ -48,57 +135,101 @@ function App() {
       {/* Main Content */}
       <div className="container mx-auto px-4 py-6">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-6 lg:w-fit lg:grid-cols-6">
+          <TabsList className={`grid w-full lg:w-fit ${TAB_GRID_COLS[visibleTabCount]}`}>
             <TabsTrigger value="dashboard" className="flex items-center gap-2">
               <LayoutDashboard className="h-4 w-4" />
               <span className="hidden sm:inline">Dashboard</span>
             </TabsTrigger>
-            <TabsTrigger value="patients" className="flex items-center gap-2">
-              <Users className="h-4 w-4" />
-              <span className="hidden sm:inline">Pasien</span>
-            </TabsTrigger>
-            <TabsTrigger value="medicines" className="flex items-center gap-2">
-              <Pill className="h-4 w-4" />
-              <span className="hidden sm:inline">Obat</span>
-            </TabsTrigger>
-            <TabsTrigger value="cashier" className="flex items-center gap-2">
-              <CreditCard className="h-4 w-4" />
-              <span className="hidden sm:inline">Kasir</span>
-            </TabsTrigger>
-            <TabsTrigger value="reports" className="flex items-center gap-2">
-              <FileText className="h-4 w-4" />
-              <span className="hidden sm:inline">Laporan</span>
-            </TabsTrigger>
-            <TabsTrigger value="settings" className="flex items-center gap-2">
-              <SettingsIcon className="h-4 w-4" />
-              <span className="hidden sm:inline">Pengaturan</span>
-            </TabsTrigger>
+            {canAccess('patients') && (
+              <TabsTrigger value="patients" className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                <span className="hidden sm:inline">Pasien</span>
+              </TabsTrigger>
+            )}
+            {canAccess('appointments') && (
+              <TabsTrigger value="appointments" className="flex items-center gap-2">
+                <CalendarDays className="h-4 w-4" />
+                <span className="hidden sm:inline">Jadwal</span>
+              </TabsTrigger>
+            )}
+            {canAccess('medicines') && (
+              <TabsTrigger value="medicines" className="flex items-center gap-2">
+                <Pill className="h-4 w-4" />
+                <span className="hidden sm:inline">Obat</span>
+              </TabsTrigger>
+            )}
+            {canAccess('cashier') && (
+              <TabsTrigger value="cashier" className="flex items-center gap-2">
+                <CreditCard className="h-4 w-4" />
+                <span className="hidden sm:inline">Kasir</span>
+              </TabsTrigger>
+            )}
+            {canAccess('reports') && (
+              <TabsTrigger value="reports" className="flex items-center gap-2">
+                <FileText className="h-4 w-4" />
+                <span className="hidden sm:inline">Laporan</span>
+              </TabsTrigger>
+            )}
+            {canAccess('audit') && (
+              <TabsTrigger value="audit" className="flex items-center gap-2">
+                <History className="h-4 w-4" />
+                <span className="hidden sm:inline">Audit</span>
+              </TabsTrigger>
+            )}
+            {canAccess('settings') && (
+              <TabsTrigger value="settings" className="flex items-center gap-2">
+                <SettingsIcon className="h-4 w-4" />
+                <span className="hidden sm:inline">Pengaturan</span>
+              </TabsTrigger>
+            )}
           </TabsList>
 
           <div className="mt-6">
             <TabsContent value="dashboard" className="space-y-4">
-              <Dashboard />
+              <Dashboard showFollowUps={canAccess('patients')} />
             </TabsContent>
 
-            <TabsContent value="patients" className="space-y-4">
-              <PatientManagement />
-            </TabsContent>
+            {canAccess('patients') && (
+              <TabsContent value="patients" className="space-y-4">
+                <PatientManagement currentUser={currentUser} />
+              </TabsContent>
+            )}
 
-            <TabsContent value="medicines" className="space-y-4">
-              <MedicineManagement />
-            </TabsContent>
+            {canAccess('appointments') && (
+              <TabsContent value="appointments" className="space-y-4">
+                <AppointmentCalendar />
+              </TabsContent>
+            )}
 
-            <TabsContent value="cashier" className="space-y-4">
-              <CashierSystem />
-            </TabsContent>
+            {canAccess('medicines') && (
+              <TabsContent value="medicines" className="space-y-4">
+                <MedicineManagement currentUser={currentUser} />
+              </TabsContent>
+            )}
 
-            <TabsContent value="reports" className="space-y-4">
-              <Reports />
-            </TabsContent>
+            {canAccess('cashier') && (
+              <TabsContent value="cashier" className="space-y-4">
+                <CashierSystem />
+              </TabsContent>
+            )}
 
-            <TabsContent value="settings" className="space-y-4">
-              <Settings />
-            </TabsContent>
+            {canAccess('reports') && (
+              <TabsContent value="reports" className="space-y-4">
+                <Reports />
+              </TabsContent>
+            )}
+
+            {canAccess('audit') && (
+              <TabsContent value="audit" className="space-y-4">
+                <AuditLog />
+              </TabsContent>
+            )}
+
+            {canAccess('settings') && (
+              <TabsContent value="settings" className="space-y-4">
+                <Settings />
+              </TabsContent>
+            )}
           </div>
         </Tabs>
       </div>
@@ -0,0 +1,469 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { CalendarDays, ChevronLeft, ChevronRight, Plus, Clock, X, UserX, CalendarClock } from 'lucide-react';
+import type {
+  Patient,
+  Service,
+  AppointmentWithDetails,
+  AppointmentSlot,
+  AppointmentStatus
+} from '../../../server/src/schema';
+
+type CalendarView = 'day' | 'week';
+
+const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: '📅 Terjadwal',
+  completed: '✅ Selesai',
+  cancelled: '❌ Dibatalkan',
+  no_show: '🚫 Tidak Datang'
+};
+
+const STATUS_VARIANTS: Record<AppointmentStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  scheduled: 'default',
+  completed: 'secondary',
+  cancelled: 'destructive',
+  no_show: 'outline'
+};
+
+// yyyy-mm-dd in local time, as used by <input type="date">
+const toDateInput = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const fromDateInput = (value: string) => new Date(`${value}T00:00:00`);
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+// Weeks start on Monday
+const startOfWeek = (date: Date) => addDays(date, -((date.getDay() + 6) % 7));
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString('id-ID', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' });
+
+const emptyBooking = {
+  patient_id: '',
+  service_id: '',
+  date: toDateInput(new Date()),
+  start_time: '',
+  notes: ''
+};
+
+export default function AppointmentCalendar() {
+  const [view, setView] = useState<CalendarView>('day');
+  const [anchorDate, setAnchorDate] = useState<Date>(() => fromDateInput(toDateInput(new Date())));
+  const [appointments, setAppointments] = useState<AppointmentWithDetails[]>([]);
+  const [daySlots, setDaySlots] = useState<AppointmentSlot[]>([]);
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [services, setServices] = useState<Service[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Booking / rescheduling dialog
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [rescheduling, setRescheduling] = useState<AppointmentWithDetails | null>(null);
+  const [booking, setBooking] = useState(emptyBooking);
+  const [bookingSlots, setBookingSlots] = useState<AppointmentSlot[]>([]);
+
+  const rangeStart = view === 'day' ? anchorDate : startOfWeek(anchorDate);
+  const rangeDays = view === 'day' ? 1 : 7;
+
+  const loadAppointments = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const start = view === 'day' ? anchorDate : startOfWeek(anchorDate);
+      const end = new Date(addDays(start, view === 'day' ? 1 : 7).getTime() - 1);
+      const [appointmentsResult, slotsResult] = await Promise.all([
+        trpc.getAppointments.query({ start_date: start, end_date: end }),
+        view === 'day' ? trpc.getAppointmentSlots.query(anchorDate) : Promise.resolve([])
+      ]);
+      setAppointments(appointmentsResult);
+      setDaySlots(slotsResult);
+    } catch (error) {
+      console.error('Failed to load appointments:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [view, anchorDate]);
+
+  useEffect(() => {
+    loadAppointments();
+  }, [loadAppointments]);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [patientsResult, servicesResult] = await Promise.all([
+          trpc.getPatients.query({ limit: 200, sort_by: 'name' }),
+          trpc.getServices.query({ limit: 200, active_only: true })
+        ]);
+        setPatients(patientsResult.items);
+        setServices(servicesResult.items);
+      } catch (error) {
+        console.error('Failed to load booking options:', error);
+      }
+    };
+    loadOptions();
+  }, []);
+
+  // Refresh the free slots whenever the dialog's date changes
+  useEffect(() => {
+    if (!isDialogOpen || !booking.date) return;
+    const loadSlots = async () => {
+      try {
+        const result = await trpc.getAppointmentSlots.query(fromDateInput(booking.date));
+        setBookingSlots(result);
+      } catch (error) {
+        console.error('Failed to load slots:', error);
+      }
+    };
+    loadSlots();
+  }, [isDialogOpen, booking.date]);
+
+  const openBookingDialog = (slot?: AppointmentSlot) => {
+    setRescheduling(null);
+    setBooking({
+      ...emptyBooking,
+      date: toDateInput(slot ? slot.start_time : anchorDate),
+      start_time: slot ? slot.start_time.toISOString() : ''
+    });
+    setIsDialogOpen(true);
+  };
+
+  const openRescheduleDialog = (appointment: AppointmentWithDetails) => {
+    setRescheduling(appointment);
+    setBooking({
+      ...emptyBooking,
+      patient_id: appointment.patient_id.toString(),
+      service_id: appointment.service_id.toString(),
+      date: toDateInput(appointment.start_time)
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!booking.start_time) {
+      alert('Pilih jam janji temu terlebih dahulu.');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      if (rescheduling) {
+        await trpc.rescheduleAppointment.mutate({ id: rescheduling.id, start_time: new Date(booking.start_time) });
+      } else {
+        await trpc.createAppointment.mutate({
+          patient_id: parseInt(booking.patient_id),
+          service_id: parseInt(booking.service_id),
+          start_time: new Date(booking.start_time),
+          notes: booking.notes || null
+        });
+      }
+      setIsDialogOpen(false);
+      await loadAppointments();
+    } catch (error) {
+      console.error('Failed to save appointment:', error);
+      alert(error instanceof Error ? error.message : 'Gagal menyimpan janji temu.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const closeAppointment = async (appointment: AppointmentWithDetails, status: 'cancelled' | 'no_show') => {
+    const question = status === 'cancelled'
+      ? `Batalkan janji temu ${appointment.patient_name}?`
+      : `Tandai ${appointment.patient_name} tidak datang?`;
+    if (!confirm(question)) return;
+
+    try {
+      if (status === 'cancelled') {
+        await trpc.cancelAppointment.mutate(appointment.id);
+      } else {
+        await trpc.markAppointmentNoShow.mutate(appointment.id);
+      }
+      await loadAppointments();
+    } catch (error) {
+      console.error('Failed to update appointment:', error);
+      alert('Gagal memperbarui janji temu.');
+    }
+  };
+
+  const appointmentsOn = (day: Date) =>
+    appointments.filter((appointment: AppointmentWithDetails) => toDateInput(appointment.start_time) === toDateInput(day));
+
+  const renderAppointment = (appointment: AppointmentWithDetails, compact = false) => (
+    <div key={appointment.id} className="p-2 border rounded-lg bg-white space-y-1">
+      <div className="flex justify-between items-start gap-2">
+        <div>
+          <p className="font-medium text-sm">{appointment.patient_name}</p>
+          <p className="text-xs text-gray-600">
+            {formatTime(appointment.start_time)} - {formatTime(appointment.end_time)} | {appointment.service_name}
+          </p>
+        </div>
+        <Badge variant={STATUS_VARIANTS[appointment.status]} className="text-xs whitespace-nowrap">
+          {STATUS_LABELS[appointment.status]}
+        </Badge>
+      </div>
+      {!compact && appointment.notes && <p className="text-xs text-gray-500">{appointment.notes}</p>}
+      {appointment.status === 'scheduled' && (
+        <div className="flex gap-1">
+          <Button size="sm" variant="outline" onClick={() => openRescheduleDialog(appointment)} title="Ubah jadwal">
+            <CalendarClock className="h-3 w-3" />
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => closeAppointment(appointment, 'no_show')} title="Tidak datang">
+            <UserX className="h-3 w-3" />
+          </Button>
+          <Button size="sm" variant="destructive" onClick={() => closeAppointment(appointment, 'cancelled')} title="Batalkan">
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-purple-600 to-purple-700 rounded-lg p-6 text-white">
+        <h2 className="text-2xl font-bold mb-2 flex items-center gap-2">
+          <CalendarDays className="h-6 w-6" />
+          📅 Jadwal Janji Temu
+        </h2>
+        <p className="text-purple-100">
+          Booking jadwal khitan dan layanan lainnya sesuai jam operasional klinik
+        </p>
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setAnchorDate(prev => addDays(prev, -rangeDays))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAnchorDate(fromDateInput(toDateInput(new Date())))}>
+            Hari Ini
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAnchorDate(prev => addDays(prev, rangeDays))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Input
+            type="date"
+            className="w-44"
+            value={toDateInput(anchorDate)}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => e.target.value && setAnchorDate(fromDateInput(e.target.value))}
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant={view === 'day' ? 'default' : 'outline'} size="sm" onClick={() => setView('day')}>
+            Harian
+          </Button>
+          <Button variant={view === 'week' ? 'default' : 'outline'} size="sm" onClick={() => setView('week')}>
+            Mingguan
+          </Button>
+          <Button size="sm" className="flex items-center gap-2" onClick={() => openBookingDialog()}>
+            <Plus className="h-4 w-4" />
+            Buat Janji Temu
+          </Button>
+        </div>
+      </div>
+
+      {view === 'day' ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{formatDay(anchorDate)}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {daySlots.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">
+                {isLoading ? 'Memuat jadwal...' : 'Tidak ada slot pada jam operasional'}
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {daySlots.map((slot: AppointmentSlot) => {
+                  const slotAppointments = appointmentsOn(anchorDate).filter((appointment: AppointmentWithDetails) =>
+                    appointment.start_time >= slot.start_time && appointment.start_time < slot.end_time
+                  );
+
+                  return (
+                    <div key={slot.start_time.toISOString()} className="flex gap-4 items-start">
+                      <div className="w-16 pt-2 text-sm text-gray-500 flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        {formatTime(slot.start_time)}
+                      </div>
+                      <div className="flex-1 space-y-2">
+                        {slotAppointments.map((appointment: AppointmentWithDetails) => renderAppointment(appointment))}
+                        {slot.available && (
+                          <button
+                            type="button"
+                            className="w-full p-2 border border-dashed rounded-lg text-sm text-gray-400 hover:bg-purple-50 hover:text-purple-700 text-left"
+                            onClick={() => openBookingDialog(slot)}
+                          >
+                            + Slot kosong
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-7 gap-2">
+          {Array.from({ length: 7 }, (_, i) => addDays(rangeStart, i)).map((day: Date) => (
+            <Card key={toDateInput(day)} className={toDateInput(day) === toDateInput(new Date()) ? 'border-purple-400' : ''}>
+              <CardHeader className="p-3">
+                <CardTitle className="text-sm">
+                  {day.toLocaleDateString('id-ID', { weekday: 'short', day: 'numeric', month: 'short' })}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-3 pt-0 space-y-2">
+                {appointmentsOn(day).length === 0 ? (
+                  <p className="text-xs text-gray-400">Kosong</p>
+                ) : (
+                  appointmentsOn(day).map((appointment: AppointmentWithDetails) => renderAppointment(appointment, true))
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Booking / Reschedule Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>{rescheduling ? 'Ubah Jadwal' : 'Buat Janji Temu'}</DialogTitle>
+              <DialogDescription>
+                {rescheduling
+                  ? `${rescheduling.patient_name} - ${rescheduling.service_name}`
+                  : 'Pilih pasien, layanan dan slot waktu yang masih kosong'}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-4">
+              {!rescheduling && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Pasien *</Label>
+                    <Select
+                      value={booking.patient_id || undefined}
+                      onValueChange={(value: string) => setBooking(prev => ({ ...prev, patient_id: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Pilih pasien" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {patients.map((patient: Patient) => (
+                          <SelectItem key={patient.id} value={patient.id.toString()}>
+                            {patient.name} {patient.phone && `(${patient.phone})`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Layanan *</Label>
+                    <Select
+                      value={booking.service_id || undefined}
+                      onValueChange={(value: string) => setBooking(prev => ({ ...prev, service_id: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Pilih layanan" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {services.map((service: Service) => (
+                          <SelectItem key={service.id} value={service.id.toString()}>
+                            {service.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Tanggal *</Label>
+                  <Input
+                    type="date"
+                    value={booking.date}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setBooking(prev => ({ ...prev, date: e.target.value, start_time: '' }))
+                    }
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Jam *</Label>
+                  <Select
+                    value={booking.start_time || undefined}
+                    onValueChange={(value: string) => setBooking(prev => ({ ...prev, start_time: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Pilih jam" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {bookingSlots
+                        .filter((slot: AppointmentSlot) => slot.available || slot.appointment_id === rescheduling?.id)
+                        .map((slot: AppointmentSlot) => (
+                          <SelectItem key={slot.start_time.toISOString()} value={slot.start_time.toISOString()}>
+                            {formatTime(slot.start_time)} - {formatTime(slot.end_time)}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {!rescheduling && (
+                <div className="space-y-2">
+                  <Label>Catatan</Label>
+                  <Textarea
+                    value={booking.notes}
+                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                      setBooking(prev => ({ ...prev, notes: e.target.value }))
+                    }
+                    placeholder="Contoh: puasa 2 jam sebelum tindakan"
+                    rows={2}
+                  />
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Batal
+              </Button>
+              <Button
+                type="submit"
+                disabled={isLoading || (!rescheduling && (!booking.patient_id || !booking.service_id))}
+              >
+                {isLoading ? 'Menyimpan...' : 'Simpan'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
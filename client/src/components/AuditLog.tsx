@@ -0,0 +1,233 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { History, Search } from 'lucide-react';
+import PaginationControls from './PaginationControls';
+import type { AuditLogEntry, AuditLogSearchInput, AuditEntityType, User } from '../../../server/src/schema';
+
+const PAGE_SIZE = 25;
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  patient: 'Pasien',
+  guardian: 'Wali',
+  medicine: 'Obat',
+  supplier: 'Supplier',
+  purchase_order: 'Pesanan Pembelian',
+  stock_take: 'Stock Opname',
+  service: 'Layanan',
+  service_package: 'Paket Layanan',
+  promotion: 'Promo',
+  transaction: 'Transaksi',
+  cashier_shift: 'Shift Kasir',
+  patient_visit: 'Kunjungan',
+  follow_up: 'Jadwal Kontrol',
+  appointment: 'Janji Temu',
+  setting: 'Pengaturan',
+  user: 'Pengguna'
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+export default function AuditLog() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [offset, setOffset] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [filters, setFilters] = useState({
+    entity_type: 'all',
+    entity_id: '',
+    user_id: 'all',
+    start_date: '',
+    end_date: ''
+  });
+
+  const loadEntries = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const params: AuditLogSearchInput = {
+        entity_type: filters.entity_type === 'all' ? undefined : filters.entity_type as AuditEntityType,
+        entity_id: filters.entity_id.trim() || undefined,
+        user_id: filters.user_id === 'all' ? undefined : parseInt(filters.user_id),
+        start_date: filters.start_date ? new Date(`${filters.start_date}T00:00:00`) : undefined,
+        end_date: filters.end_date ? new Date(`${filters.end_date}T23:59:59`) : undefined,
+        limit: PAGE_SIZE,
+        offset,
+        sort_direction: 'desc'
+      };
+      const result = await trpc.getAuditLog.query(params);
+      setEntries(result.items);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Failed to load audit log:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, offset]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useEffect(() => {
+    const loadUsers = async () => {
+      try {
+        const result = await trpc.getUsers.query();
+        setUsers(result);
+      } catch (error) {
+        console.error('Failed to load users:', error);
+      }
+    };
+    loadUsers();
+  }, []);
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setOffset(0);
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <History className="h-6 w-6" />
+          Riwayat Perubahan
+        </h2>
+        <p className="text-gray-600">Siapa mengubah apa dan kapan, untuk setiap perubahan data</p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Search className="h-5 w-5" />
+            Filter
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="space-y-2">
+              <Label>Jenis Data</Label>
+              <Select value={filters.entity_type} onValueChange={(value: string) => updateFilter('entity_type', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Semua</SelectItem>
+                  {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map((type: AuditEntityType) => (
+                    <SelectItem key={type} value={type}>{ENTITY_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>ID Data</Label>
+              <Input
+                value={filters.entity_id}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('entity_id', e.target.value)}
+                placeholder="Contoh: 12"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Pengguna</Label>
+              <Select value={filters.user_id} onValueChange={(value: string) => updateFilter('user_id', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Semua</SelectItem>
+                  {users.map((user: User) => (
+                    <SelectItem key={user.id} value={user.id.toString()}>{user.username}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Dari Tanggal</Label>
+              <Input
+                type="date"
+                value={filters.start_date}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('start_date', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Sampai Tanggal</Label>
+              <Input
+                type="date"
+                value={filters.end_date}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('end_date', e.target.value)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardContent className="p-6">
+          {isLoading ? (
+            <p className="text-gray-500 text-center py-8">Memuat riwayat...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">Tidak ada perubahan yang tercatat</p>
+          ) : (
+            <div className="space-y-3">
+              {entries.map((entry: AuditLogEntry) => {
+                const fields = Array.from(new Set([
+                  ...Object.keys(entry.before ?? {}),
+                  ...Object.keys(entry.after ?? {})
+                ]));
+
+                return (
+                  <div key={entry.id} className="p-4 border rounded-lg space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{entry.procedure}</span>
+                      {entry.entity_type && (
+                        <Badge variant="outline">
+                          {ENTITY_LABELS[entry.entity_type as AuditEntityType] ?? entry.entity_type}
+                          {entry.entity_id && ` #${entry.entity_id}`}
+                        </Badge>
+                      )}
+                      <span className="text-sm text-gray-500">
+                        oleh {entry.username ?? 'sistem'} • {entry.created_at.toLocaleString('id-ID')}
+                      </span>
+                    </div>
+                    {fields.length > 0 && (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="font-normal w-1/4">Kolom</th>
+                            <th className="font-normal">Sebelum</th>
+                            <th className="font-normal">Sesudah</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {fields.map((field: string) => (
+                            <tr key={field} className="border-t align-top">
+                              <td className="py-1 font-mono">{field}</td>
+                              <td className="py-1 text-red-700 break-all">{formatValue(entry.before?.[field])}</td>
+                              <td className="py-1 text-green-700 break-all">{formatValue(entry.after?.[field])}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="mt-4">
+            <PaginationControls offset={offset} limit={PAGE_SIZE} total={total} onOffsetChange={setOffset} disabled={isLoading} />
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { trpc } from '@/utils/trpc';
+import { downloadFile } from '@/lib/download';
+import { FileText, Lock, Unlock } from 'lucide-react';
+import type { CashierShift } from '../../../server/src/schema';
+
+// Rupiah banknotes and coins counted in the drawer
+const DENOMINATIONS = [100000, 50000, 20000, 10000, 5000, 2000, 1000, 500, 200, 100];
+
+const METHOD_LABELS: Record<CashierShift['reconciliation'][number]['payment_method'], string> = {
+  tunai: 'Tunai',
+  transfer: 'Transfer',
+  kartu: 'Kartu'
+};
+
+const formatMoney = (value: number) => `Rp ${value.toLocaleString('id-ID')}`;
+
+interface CloseForm {
+  counts: Record<number, string>;
+  transfer: string;
+  kartu: string;
+  notes: string;
+}
+
+const emptyCloseForm = (): CloseForm => ({ counts: {}, transfer: '', kartu: '', notes: '' });
+
+interface CashierShiftPanelProps {
+  shift: CashierShift | null;
+  onShiftChange: (shift: CashierShift | null) => void;
+}
+
+// Opening float, blind cash count per denomination and the Laporan Tutup Kasir
+export default function CashierShiftPanel({ shift, onShiftChange }: CashierShiftPanelProps) {
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [isCloseOpen, setIsCloseOpen] = useState(false);
+  const [closeForm, setCloseForm] = useState<CloseForm>(emptyCloseForm);
+  const [closedShift, setClosedShift] = useState<CashierShift | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const countedCash = () =>
+    DENOMINATIONS.reduce((total, denomination) => total + denomination * (parseInt(closeForm.counts[denomination] ?? '') || 0), 0);
+
+  const handleOpen = async () => {
+    setIsLoading(true);
+    try {
+      const response = await trpc.openShift.mutate({ opening_float: parseFloat(openingFloat) || 0 });
+      setOpeningFloat('');
+      setClosedShift(null);
+      onShiftChange(response);
+    } catch (error) {
+      console.error('Failed to open shift:', error);
+      alert(error instanceof Error ? error.message : 'Gagal membuka shift');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!shift) return;
+
+    setIsLoading(true);
+    try {
+      const response = await trpc.closeShift.mutate({
+        id: shift.id,
+        cash_counts: DENOMINATIONS
+          .map(denomination => ({ denomination, quantity: parseInt(closeForm.counts[denomination] ?? '') || 0 }))
+          .filter(count => count.quantity > 0),
+        non_cash_counts: [
+          { payment_method: 'transfer' as const, amount: parseFloat(closeForm.transfer) || 0 },
+          { payment_method: 'kartu' as const, amount: parseFloat(closeForm.kartu) || 0 }
+        ],
+        closing_notes: closeForm.notes || null
+      });
+      setCloseForm(emptyCloseForm());
+      setIsCloseOpen(false);
+      setClosedShift(response);
+      onShiftChange(null);
+    } catch (error) {
+      console.error('Failed to close shift:', error);
+      alert(error instanceof Error ? error.message : 'Gagal menutup shift');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const downloadReport = async (shiftId: number) => {
+    try {
+      downloadFile(await trpc.generateShiftReport.query(shiftId));
+    } catch (error) {
+      console.error('Failed to generate shift report:', error);
+      alert(error instanceof Error ? error.message : 'Gagal membuat laporan tutup kasir');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {shift ? <Unlock className="h-5 w-5" /> : <Lock className="h-5 w-5" />}
+          Shift Kasir
+          {shift ? <Badge>Shift #{shift.id} terbuka</Badge> : <Badge variant="secondary">Tutup</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {shift
+            ? `Dibuka ${shift.opened_at.toLocaleString('id-ID')} oleh ${shift.opened_by_name} · modal awal ${formatMoney(shift.opening_float)}`
+            : 'Buka shift dengan modal awal laci sebelum menerima transaksi'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {shift ? (
+          <div className="flex justify-between items-center">
+            <p className="text-sm text-gray-600">{shift.transaction_count} transaksi · {shift.refund_count} refund</p>
+            <Button variant="destructive" size="sm" onClick={() => setIsCloseOpen(true)}>
+              Tutup Shift
+            </Button>
+          </div>
+        ) : (
+          <div className="flex gap-2 items-end">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="opening_float">Modal Awal (Rp)</Label>
+              <Input
+                id="opening_float"
+                type="number"
+                min="0"
+                value={openingFloat}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setOpeningFloat(e.target.value)}
+                placeholder="0"
+              />
+            </div>
+            <Button onClick={handleOpen} disabled={isLoading}>
+              Buka Shift
+            </Button>
+          </div>
+        )}
+
+        {closedShift && (
+          <div className="border rounded-lg p-3 space-y-2">
+            <div className="flex justify-between items-center">
+              <h4 className="font-medium text-sm">Hasil Tutup Kasir Shift #{closedShift.id}</h4>
+              <Button size="sm" variant="outline" onClick={() => downloadReport(closedShift.id)}>
+                <FileText className="h-4 w-4 mr-2" />
+                Laporan Tutup Kasir
+              </Button>
+            </div>
+            {closedShift.reconciliation.map(item => (
+              <div key={item.payment_method} className="grid grid-cols-4 text-sm gap-2">
+                <span>{METHOD_LABELS[item.payment_method]}</span>
+                <span className="text-right">{formatMoney(item.expected_amount)}</span>
+                <span className="text-right">{formatMoney(item.counted_amount ?? 0)}</span>
+                <span className={`text-right font-medium ${(item.difference ?? 0) < 0 ? 'text-red-600' : (item.difference ?? 0) > 0 ? 'text-amber-600' : 'text-green-600'}`}>
+                  {formatMoney(item.difference ?? 0)}
+                </span>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">Seharusnya · Dihitung · Selisih</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isCloseOpen} onOpenChange={setIsCloseOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Tutup Shift Kasir</DialogTitle>
+            <DialogDescription>Hitung uang di laci per pecahan, lalu isi total transfer dan kartu</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-3 py-2">
+            {DENOMINATIONS.map(denomination => (
+              <div key={denomination} className="flex items-center gap-2">
+                <Label htmlFor={`count_${denomination}`} className="w-24 text-right">
+                  {denomination.toLocaleString('id-ID')}
+                </Label>
+                <Input
+                  id={`count_${denomination}`}
+                  type="number"
+                  min="0"
+                  value={closeForm.counts[denomination] ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setCloseForm((prev: CloseForm) => ({ ...prev, counts: { ...prev.counts, [denomination]: e.target.value } }))
+                  }
+                  placeholder="0"
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-sm font-medium">Total tunai dihitung: {formatMoney(countedCash())}</p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="counted_transfer">Total Transfer (Rp)</Label>
+              <Input
+                id="counted_transfer"
+                type="number"
+                min="0"
+                value={closeForm.transfer}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setCloseForm((prev: CloseForm) => ({ ...prev, transfer: e.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="counted_kartu">Total Kartu (Rp)</Label>
+              <Input
+                id="counted_kartu"
+                type="number"
+                min="0"
+                value={closeForm.kartu}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setCloseForm((prev: CloseForm) => ({ ...prev, kartu: e.target.value }))
+                }
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="closing_notes">Catatan</Label>
+            <Textarea
+              id="closing_notes"
+              value={closeForm.notes}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                setCloseForm((prev: CloseForm) => ({ ...prev, notes: e.target.value }))
+              }
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCloseOpen(false)}>
+              Batal
+            </Button>
+            <Button variant="destructive" onClick={handleClose} disabled={isLoading}>
+              {isLoading ? 'Menutup...' : 'Tutup Shift'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
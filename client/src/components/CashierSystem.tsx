@@ -19,59 +19,137 @@ import {
   User,
   Pill,
   Stethoscope,
-  Printer,
   Check,
   X,
-  Clock
+  Clock,
+  CalendarDays,
+  Wallet,
+  Undo2,
+  TicketPercent,
+  Package
 } from 'lucide-react';
+import CsvExportButton from './CsvExportButton';
+import ReceiptPrintButton from './ReceiptPrintButton';
+import RefundDialog from './RefundDialog';
+import CashierShiftPanel from './CashierShiftPanel';
 import type { 
   Patient, 
   Medicine, 
   Service, 
   Transaction,
-  CreateTransactionInput 
+  CreateTransactionInput,
+  AppointmentWithDetails,
+  PromotionPreview,
+  ServicePackage,
+  CashierShift
 } from '../../../server/src/schema';
 
+type PaymentMethod = 'tunai' | 'transfer' | 'kartu';
+
+const PAYMENT_STATUS_LABELS: Record<Transaction['payment_status'], string> = {
+  paid: '✅ Lunas',
+  partially_paid: '💸 Dibayar Sebagian',
+  pending: '⏳ Pending',
+  cancelled: '❌ Dibatalkan'
+};
+
+const PAYMENT_STATUS_VARIANTS: Record<Transaction['payment_status'], 'default' | 'secondary' | 'outline' | 'destructive'> = {
+  paid: 'default',
+  partially_paid: 'outline',
+  pending: 'secondary',
+  cancelled: 'destructive'
+};
+
+// What is still owed; transactions marked paid before payments were recorded owe nothing
+const remainingAmount = (transaction: Transaction) =>
+  transaction.payment_status === 'pending' || transaction.payment_status === 'partially_paid'
+    ? Math.max(transaction.total_amount - transaction.paid_amount, 0)
+    : 0;
+
+type CartItemType = 'service' | 'medicine' | 'package';
+
 interface CartItem {
-  type: 'service' | 'medicine';
+  type: CartItemType;
   id: number;
   name: string;
   price: number;
   quantity: number;
   unit?: string;
   max_quantity?: number;
+  // What one package expands into, listed under it in the cart
+  components?: ServicePackage['items'];
 }
 
+// The cart as the service, medicine and package lines the server prices
+const cartLines = (cart: CartItem[]) => ({
+  services: cart.filter(item => item.type === 'service').map(item => ({
+    service_id: item.id,
+    quantity: item.quantity
+  })),
+  medicines: cart.filter(item => item.type === 'medicine').map(item => ({
+    medicine_id: item.id,
+    quantity: item.quantity
+  })),
+  packages: cart.filter(item => item.type === 'package').map(item => ({
+    package_id: item.id,
+    quantity: item.quantity
+  }))
+});
+
 export default function CashierSystem() {
-  const [patients, setPatients] = useState<Patient[]>([]);
+  const [patientSuggestions, setPatientSuggestions] = useState<Patient[]>([]);
   const [medicines, setMedicines] = useState<Medicine[]>([]);
   const [services, setServices] = useState<Service[]>([]);
+  const [servicePackages, setServicePackages] = useState<ServicePackage[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [currentShift, setCurrentShift] = useState<CashierShift | null>(null);
   
   const [selectedPatient, setSelectedPatient] = useState<Patient | null>(null);
   const [cart, setCart] = useState<CartItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [paymentMethod, setPaymentMethod] = useState<'tunai' | 'transfer' | 'kartu'>('tunai');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('tunai');
+  // Amount taken at checkout; empty means the full total, less is a down payment (DP)
+  const [paidAmount, setPaidAmount] = useState('');
+  const [promoCode, setPromoCode] = useState('');
+  const [appliedPromoCode, setAppliedPromoCode] = useState<string | null>(null);
+  const [promoPreview, setPromoPreview] = useState<PromotionPreview | null>(null);
+  const [payingTransaction, setPayingTransaction] = useState<Transaction | null>(null);
+  const [refundingTransaction, setRefundingTransaction] = useState<Transaction | null>(null);
+  const [paymentForm, setPaymentForm] = useState<{ amount: string; payment_method: PaymentMethod }>({
+    amount: '',
+    payment_method: 'tunai'
+  });
   const [notes, setNotes] = useState<string>('');
   const [searchPatientQuery, setSearchPatientQuery] = useState('');
   const [searchItemQuery, setSearchItemQuery] = useState('');
   const [showReceipt, setShowReceipt] = useState(false);
   const [lastTransaction, setLastTransaction] = useState<Transaction | null>(null);
+  const [todayAppointments, setTodayAppointments] = useState<AppointmentWithDetails[]>([]);
+  const [activeAppointment, setActiveAppointment] = useState<AppointmentWithDetails | null>(null);
 
   const loadInitialData = useCallback(async () => {
     try {
       setIsLoading(true);
-      const [patientsResult, medicinesResult, servicesResult, transactionsResult] = await Promise.all([
-        trpc.getPatients.query({ limit: 100, offset: 0 }),
-        trpc.getMedicines.query({ limit: 100, offset: 0, low_stock_only: false, expired_only: false }),
-        trpc.getServices.query(true), // Only active services
-        trpc.getTodayTransactions.query()
+      const startOfToday = new Date();
+      startOfToday.setHours(0, 0, 0, 0);
+      const endOfToday = new Date();
+      endOfToday.setHours(23, 59, 59, 999);
+
+      const [medicinesResult, servicesResult, packagesResult, transactionsResult, appointmentsResult, shiftResult] = await Promise.all([
+        trpc.getMedicines.query({ limit: 200, low_stock_only: false, expired_only: false }),
+        trpc.getServices.query({ limit: 200, active_only: true }), // Only active services
+        trpc.getServicePackages.query(true),
+        trpc.getTodayTransactions.query(),
+        trpc.getAppointments.query({ start_date: startOfToday, end_date: endOfToday, status: 'scheduled' }),
+        trpc.getCurrentShift.query()
       ]);
       
-      setPatients(patientsResult);
-      setMedicines(medicinesResult);
-      setServices(servicesResult);
+      setMedicines(medicinesResult.items);
+      setServices(servicesResult.items);
+      setServicePackages(packagesResult);
       setTransactions(transactionsResult);
+      setTodayAppointments(appointmentsResult);
+      setCurrentShift(shiftResult);
     } catch (error) {
       console.error('Failed to load initial data:', error);
     } finally {
@@ -83,9 +161,41 @@ export default function CashierSystem() {
     loadInitialData();
   }, [loadInitialData]);
 
-  const filteredPatients = patients.filter(patient =>
-    patient.name.toLowerCase().includes(searchPatientQuery.toLowerCase())
-  );
+  // Re-price the applied promo code whenever the cart changes
+  useEffect(() => {
+    if (!appliedPromoCode || cart.length === 0) {
+      setPromoPreview(null);
+      return;
+    }
+
+    trpc.previewPromotion.query({ promo_code: appliedPromoCode, ...cartLines(cart) })
+      .then(setPromoPreview)
+      .catch((error: unknown) => {
+        console.error('Failed to apply promo code:', error);
+        setPromoPreview(null);
+        setAppliedPromoCode(null);
+        alert(error instanceof Error ? error.message : 'Kode promo tidak dapat digunakan');
+      });
+  }, [appliedPromoCode, cart]);
+
+  // Typeahead over the whole patient register rather than a preloaded page
+  useEffect(() => {
+    if (selectedPatient || searchPatientQuery.trim() === '') {
+      setPatientSuggestions([]);
+      return;
+    }
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const result = await trpc.suggestPatients.query({ query: searchPatientQuery.trim(), limit: 5 });
+        setPatientSuggestions(result);
+      } catch (error) {
+        console.error('Failed to search patients:', error);
+      }
+    }, 250);
+
+    return () => clearTimeout(timeoutId);
+  }, [searchPatientQuery, selectedPatient]);
 
   const filteredItems = [
     ...services
@@ -100,6 +210,18 @@ export default function CashierSystem() {
         price: service.price,
         description: service.description
       })),
+    ...servicePackages
+      .filter(servicePackage =>
+        servicePackage.name.toLowerCase().includes(searchItemQuery.toLowerCase())
+      )
+      .map(servicePackage => ({
+        type: 'package' as const,
+        id: servicePackage.id,
+        name: servicePackage.name,
+        price: servicePackage.price,
+        description: servicePackage.description,
+        components: servicePackage.items
+      })),
     ...medicines
       .filter(medicine => 
         medicine.name.toLowerCase().includes(searchItemQuery.toLowerCase()) &&
@@ -115,7 +237,15 @@ export default function CashierSystem() {
       }))
   ];
 
-  const addToCart = (item: { type: 'service' | 'medicine'; id: number; name: string; price: number; unit?: string; stock?: number }) => {
+  const addToCart = (item: {
+    type: CartItemType;
+    id: number;
+    name: string;
+    price: number;
+    unit?: string;
+    stock?: number;
+    components?: ServicePackage['items'];
+  }) => {
     const existingItem = cart.find(cartItem => 
       cartItem.type === item.type && cartItem.id === item.id
     );
@@ -134,12 +264,13 @@ export default function CashierSystem() {
         price: item.price,
         quantity: 1,
         unit: item.unit,
-        max_quantity: item.stock
+        max_quantity: item.stock,
+        components: item.components
       }]);
     }
   };
 
-  const updateCartQuantity = (type: 'service' | 'medicine', id: number, quantity: number) => {
+  const updateCartQuantity = (type: CartItemType, id: number, quantity: number) => {
     if (quantity <= 0) {
       removeFromCart(type, id);
       return;
@@ -152,32 +283,68 @@ export default function CashierSystem() {
     ));
   };
 
-  const removeFromCart = (type: 'service' | 'medicine', id: number) => {
+  const removeFromCart = (type: CartItemType, id: number) => {
     setCart(prev => prev.filter(item => !(item.type === type && item.id === id)));
   };
 
+  // Start a checkout prefilled with the patient and service of a booked appointment
+  const processAppointment = async (appointment: AppointmentWithDetails) => {
+    try {
+      const patient = await trpc.getPatientById.query(appointment.patient_id);
+      const service = services.find(s => s.id === appointment.service_id);
+      if (!patient || !service) {
+        alert('Pasien atau layanan pada janji temu ini tidak tersedia.');
+        return;
+      }
+
+      setSelectedPatient(patient);
+      setCart([{
+        type: 'service',
+        id: service.id,
+        name: service.name,
+        price: service.price,
+        quantity: 1
+      }]);
+      setActiveAppointment(appointment);
+    } catch (error) {
+      console.error('Failed to load appointment:', error);
+    }
+  };
+
+  const changePatient = () => {
+    setSelectedPatient(null);
+    setActiveAppointment(null);
+  };
+
   const calculateTotal = () => {
     return cart.reduce((total, item) => total + (item.price * item.quantity), 0);
   };
 
+  // What the patient pays after the promo discount
+  const payableTotal = () => (promoPreview ? promoPreview.total_amount : calculateTotal());
+
+  const checkoutAmount = () => (paidAmount === '' ? payableTotal() : parseFloat(paidAmount) || 0);
+
   const handleCheckout = async () => {
     if (!selectedPatient || cart.length === 0) return;
 
+    const amount = checkoutAmount();
+    if (amount > payableTotal()) {
+      alert('Jumlah dibayar melebihi total tagihan');
+      return;
+    }
+
     setIsLoading(true);
     try {
       const transactionData: CreateTransactionInput = {
         patient_id: selectedPatient.id,
         payment_method: paymentMethod,
-        payment_status: 'paid',
+        payment_status: 'pending',
+        payments: amount > 0 ? [{ amount, payment_method: paymentMethod }] : [],
         notes: notes || null,
-        services: cart.filter(item => item.type === 'service').map(item => ({
-          service_id: item.id,
-          quantity: item.quantity
-        })),
-        medicines: cart.filter(item => item.type === 'medicine').map(item => ({
-          medicine_id: item.id,
-          quantity: item.quantity
-        }))
+        promo_code: appliedPromoCode ?? undefined,
+        ...cartLines(cart),
+        appointment_id: activeAppointment?.id
       };
 
       const response = await trpc.createTransaction.mutate(transactionData);
@@ -185,6 +352,10 @@ export default function CashierSystem() {
       // Reset form
       setCart([]);
       setNotes('');
+      setPaidAmount('');
+      setPromoCode('');
+      setAppliedPromoCode(null);
+      setActiveAppointment(null);
       setLastTransaction(response);
       setShowReceipt(true);
       
@@ -192,11 +363,21 @@ export default function CashierSystem() {
       loadInitialData();
     } catch (error) {
       console.error('Failed to create transaction:', error);
+      alert(error instanceof Error ? error.message : 'Gagal memproses transaksi');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const exportTodayTransactions = (indonesian_format: boolean) => {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const endOfToday = new Date();
+    endOfToday.setHours(23, 59, 59, 999);
+
+    return trpc.exportTransactionsCsv.query({ start_date: startOfToday, end_date: endOfToday, indonesian_format });
+  };
+
   const updateTransactionStatus = async (transactionId: number, status: 'paid' | 'cancelled') => {
     try {
       await trpc.updateTransactionStatus.mutate({ id: transactionId, status });
@@ -205,84 +386,41 @@ export default function CashierSystem() {
       setTransactions(updatedTransactions);
     } catch (error) {
       console.error('Failed to update transaction status:', error);
+      alert(error instanceof Error ? error.message : 'Gagal mengubah status transaksi');
     }
   };
 
-  const printReceipt = async (transactionId: number) => {
+  const refreshTransactions = async () => {
     try {
-      // In a real application, this would integrate with a thermal printer
-      // For now, we'll open a print dialog
-      const receiptData = await trpc.generateReceiptData.query(transactionId);
-      
-      // Create a new window for printing
-      const printWindow = window.open('', '_blank');
-      if (printWindow) {
-        printWindow.document.write(`
-          <html>
-            <head>
-              <title>Struk Pembayaran</title>
-              <style>
-                body { font-family: 'Courier New', monospace; font-size: 12px; margin: 0; padding: 20px; }
-                .center { text-align: center; }
-                .left { text-align: left; }
-                .right { text-align: right; }
-                .line { border-top: 1px dashed #000; margin: 10px 0; }
-                table { width: 100%; }
-                .total { font-weight: bold; font-size: 14px; }
-              </style>
-            </head>
-            <body>
-              <div class="center">
-                <h2>RUMAH KHITAN SUPER MODERN PAK NOPI</h2>
-                <p>Sistem Klinik Modern</p>
-                <div class="line"></div>
-              </div>
-              
-              <div class="left">
-                <p>Struk: #${receiptData.transaction_id}</p>
-                <p>Tanggal: ${new Date(receiptData.date).toLocaleDateString('id-ID')}</p>
-                <p>Pasien: ${receiptData.patient_name}</p>
-                <p>Kasir: Admin</p>
-              </div>
-              
-              <div class="line"></div>
-              
-              <table>
-                ${receiptData.items.map((item: any) => `
-                  <tr>
-                    <td>${item.name}</td>
-                    <td class="right">${item.quantity}x</td>
-                    <td class="right">Rp ${item.total.toLocaleString('id-ID')}</td>
-                  </tr>
-                `).join('')}
-              </table>
-              
-              <div class="line"></div>
-              
-              <table class="total">
-                <tr>
-                  <td>TOTAL:</td>
-                  <td class="right">Rp ${receiptData.total.toLocaleString('id-ID')}</td>
-                </tr>
-                <tr>
-                  <td>Pembayaran:</td>
-                  <td class="right">${receiptData.payment_method.toUpperCase()}</td>
-                </tr>
-              </table>
-              
-              <div class="line"></div>
-              <div class="center">
-                <p>Terima kasih atas kunjungan Anda!</p>
-                <p>Semoga lekas sembuh</p>
-              </div>
-            </body>
-          </html>
-        `);
-        printWindow.document.close();
-        printWindow.print();
-      }
+      setTransactions(await trpc.getTodayTransactions.query());
+    } catch (error) {
+      console.error('Failed to load transactions:', error);
+    }
+  };
+
+  const openPaymentDialog = (transaction: Transaction) => {
+    setPaymentForm({ amount: String(remainingAmount(transaction)), payment_method: transaction.payment_method });
+    setPayingTransaction(transaction);
+  };
+
+  const handleAddPayment = async () => {
+    if (!payingTransaction) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.addPayment.mutate({
+        transaction_id: payingTransaction.id,
+        amount: parseFloat(paymentForm.amount) || 0,
+        payment_method: paymentForm.payment_method
+      });
+      setPayingTransaction(null);
+      const updatedTransactions = await trpc.getTodayTransactions.query();
+      setTransactions(updatedTransactions);
     } catch (error) {
-      console.error('Failed to generate receipt:', error);
+      console.error('Failed to add payment:', error);
+      alert(error instanceof Error ? error.message : 'Gagal mencatat pembayaran');
+    } finally {
+      setIsLoading(false);
     }
   };
 
@@ -302,6 +440,43 @@ export default function CashierSystem() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Left Column - Patient & Items Selection */}
         <div className="lg:col-span-2 space-y-6">
+          <CashierShiftPanel shift={currentShift} onShiftChange={setCurrentShift} />
+
+          {/* Today's Appointments */}
+          {todayAppointments.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarDays className="h-5 w-5" />
+                  Janji Temu Hari Ini
+                </CardTitle>
+                <CardDescription>Proses janji temu menjadi transaksi kasir</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="max-h-48 overflow-y-auto space-y-2">
+                  {todayAppointments.map((appointment: AppointmentWithDetails) => (
+                    <div key={appointment.id} className="flex justify-between items-center p-3 border rounded-lg">
+                      <div>
+                        <h3 className="font-medium">{appointment.patient_name}</h3>
+                        <p className="text-sm text-gray-600 flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          {appointment.start_time.toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })} | {appointment.service_name}
+                        </p>
+                      </div>
+                      {activeAppointment?.id === appointment.id ? (
+                        <Badge>Sedang diproses</Badge>
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => processAppointment(appointment)}>
+                          Proses
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Patient Selection */}
           <Card>
             <CardHeader>
@@ -313,7 +488,7 @@ export default function CashierSystem() {
             <CardContent>
               <div className="space-y-4">
                 <Input
-                  placeholder="Cari nama pasien..."
+                  placeholder="Cari nama, telepon, atau alamat pasien..."
                   value={searchPatientQuery}
                   onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchPatientQuery(e.target.value)}
                   className="mb-2"
@@ -325,13 +500,13 @@ export default function CashierSystem() {
                       <div>
                         <h3 className="font-semibold text-green-800">{selectedPatient.name}</h3>
                         <p className="text-sm text-green-600">
-                          {selectedPatient.gender} | {selectedPatient.phone || 'No phone'}
+                          {selectedPatient.medical_record_number && `${selectedPatient.medical_record_number} | `}{selectedPatient.gender} | {selectedPatient.phone || 'No phone'}
                         </p>
                       </div>
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => setSelectedPatient(null)}
+                        onClick={changePatient}
                       >
                         Ganti
                       </Button>
@@ -341,7 +516,10 @@ export default function CashierSystem() {
                 
                 {!selectedPatient && (
                   <div className="max-h-48 overflow-y-auto space-y-2">
-                    {filteredPatients.slice(0, 5).map((patient: Patient) => (
+                    {searchPatientQuery.trim() !== '' && patientSuggestions.length === 0 && (
+                      <p className="text-sm text-gray-500">Pasien tidak ditemukan</p>
+                    )}
+                    {patientSuggestions.map((patient: Patient) => (
                       <div
                         key={patient.id}
                         className="p-3 border rounded-lg hover:bg-gray-50 cursor-pointer"
@@ -349,7 +527,7 @@ export default function CashierSystem() {
                       >
                         <h3 className="font-medium">{patient.name}</h3>
                         <p className="text-sm text-gray-600">
-                          {patient.gender} | {patient.phone || 'No phone'}
+                          {patient.medical_record_number && `${patient.medical_record_number} | `}{patient.gender} | {patient.phone || 'No phone'}
                         </p>
                       </div>
                     ))}
@@ -385,6 +563,8 @@ export default function CashierSystem() {
                       <div className="flex items-center gap-2">
                         {item.type === 'service' ? (
                           <Stethoscope className="h-4 w-4 text-blue-600" />
+                        ) : item.type === 'package' ? (
+                          <Package className="h-4 w-4 text-purple-600" />
                         ) : (
                           <Pill className="h-4 w-4 text-green-600" />
                         )}
@@ -394,11 +574,21 @@ export default function CashierSystem() {
                             Stok: {item.stock}
                           </Badge>
                         )}
+                        {item.type === 'package' && (
+                          <Badge variant="secondary" className="text-xs">Paket</Badge>
+                        )}
                       </div>
                       <p className="text-sm text-gray-600">
                         Rp {item.price.toLocaleString('id-ID')}
                         {item.unit && ` per ${item.unit}`}
                       </p>
+                      {item.type === 'package' && (
+                        <p className="text-xs text-gray-500">
+                          {item.components.map((component: ServicePackage['items'][number]) =>
+                            `${component.name} x${component.quantity}`
+                          ).join(', ')}
+                        </p>
+                      )}
                     </div>
                     <Button
                       size="sm"
@@ -437,6 +627,11 @@ export default function CashierSystem() {
                           Rp {item.price.toLocaleString('id-ID')}
                           {item.unit && ` per ${item.unit}`}
                         </p>
+                        {item.components?.map(component => (
+                          <p key={`${component.item_type}-${component.item_id}`} className="text-xs text-gray-500">
+                            · {component.name} x{component.quantity * item.quantity}
+                          </p>
+                        ))}
                       </div>
                       <div className="flex items-center gap-2">
                         <Button
@@ -468,10 +663,22 @@ export default function CashierSystem() {
                     </div>
                   ))}
                   
-                  <div className="pt-3 border-t">
+                  <div className="pt-3 border-t space-y-1">
+                    {promoPreview && (
+                      <>
+                        <div className="flex justify-between items-center text-sm">
+                          <span>Subtotal:</span>
+                          <span>Rp {promoPreview.subtotal.toLocaleString('id-ID')}</span>
+                        </div>
+                        <div className="flex justify-between items-center text-sm text-green-600">
+                          <span>Diskon ({promoPreview.promotion.code}):</span>
+                          <span>-Rp {promoPreview.discount_amount.toLocaleString('id-ID')}</span>
+                        </div>
+                      </>
+                    )}
                     <div className="flex justify-between items-center text-lg font-bold">
                       <span>Total:</span>
-                      <span>Rp {calculateTotal().toLocaleString('id-ID')}</span>
+                      <span>Rp {payableTotal().toLocaleString('id-ID')}</span>
                     </div>
                   </div>
                 </div>
@@ -488,7 +695,7 @@ export default function CashierSystem() {
               <CardContent className="space-y-4">
                 <div className="space-y-2">
                   <Label>Metode Pembayaran</Label>
-                  <Select value={paymentMethod} onValueChange={(value: 'tunai' | 'transfer' | 'kartu') => setPaymentMethod(value)}>
+                  <Select value={paymentMethod} onValueChange={(value: PaymentMethod) => setPaymentMethod(value)}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
@@ -500,6 +707,59 @@ export default function CashierSystem() {
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Kode Promo</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      value={promoCode}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPromoCode(e.target.value.toUpperCase())}
+                      placeholder="Opsional"
+                    />
+                    {appliedPromoCode ? (
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          setPromoCode('');
+                          setAppliedPromoCode(null);
+                        }}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        className="flex items-center gap-1"
+                        onClick={() => setAppliedPromoCode(promoCode.trim())}
+                        disabled={!promoCode.trim()}
+                      >
+                        <TicketPercent className="h-4 w-4" />
+                        Terapkan
+                      </Button>
+                    )}
+                  </div>
+                  {promoPreview && (
+                    <p className="text-sm text-green-600">
+                      {promoPreview.promotion.name}: hemat Rp {promoPreview.discount_amount.toLocaleString('id-ID')}
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Jumlah Dibayar (Rp)</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={paidAmount}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPaidAmount(e.target.value)}
+                    placeholder={payableTotal().toString()}
+                  />
+                  {checkoutAmount() < payableTotal() && (
+                    <p className="text-sm text-orange-600">
+                      Sisa tagihan: Rp {(payableTotal() - checkoutAmount()).toLocaleString('id-ID')}
+                    </p>
+                  )}
+                </div>
+
                 <div className="space-y-2">
                   <Label>Catatan (opsional)</Label>
                   <Textarea
@@ -513,9 +773,13 @@ export default function CashierSystem() {
                 <Button
                   className="w-full bg-green-600 hover:bg-green-700"
                   onClick={handleCheckout}
-                  disabled={isLoading}
+                  disabled={isLoading || !currentShift}
                 >
-                  {isLoading ? 'Memproses...' : `Bayar Rp ${calculateTotal().toLocaleString('id-ID')}`}
+                  {isLoading
+                    ? 'Memproses...'
+                    : checkoutAmount() < payableTotal()
+                      ? `Bayar DP Rp ${checkoutAmount().toLocaleString('id-ID')}`
+                      : `Bayar Rp ${payableTotal().toLocaleString('id-ID')}`}
                 </Button>
               </CardContent>
             </Card>
@@ -525,11 +789,12 @@ export default function CashierSystem() {
 
       {/* Today's Transactions */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle className="flex items-center gap-2">
             <Receipt className="h-5 w-5" />
             Transaksi Hari Ini
           </CardTitle>
+          <CsvExportButton onExport={exportTodayTransactions} />
         </CardHeader>
         <CardContent>
           {transactions.length === 0 ? (
@@ -544,27 +809,43 @@ export default function CashierSystem() {
                       {new Date(transaction.created_at).toLocaleTimeString('id-ID')} | 
                       Rp {transaction.total_amount.toLocaleString('id-ID')}
                     </p>
-                    <Badge 
-                      variant={
-                        transaction.payment_status === 'paid' ? 'default' : 
-                        transaction.payment_status === 'pending' ? 'secondary' : 'destructive'
-                      }
-                      className="mt-1"
-                    >
-                      {transaction.payment_status === 'paid' ? '✅ Lunas' :
-                       transaction.payment_status === 'pending' ? '⏳ Pending' : '❌ Dibatalkan'}
+                    {transaction.refunded_amount > 0 && (
+                      <p className="text-sm text-red-600">
+                        Refund Rp {transaction.refunded_amount.toLocaleString('id-ID')}
+                      </p>
+                    )}
+                    {transaction.payment_status === 'partially_paid' && (
+                      <p className="text-sm text-orange-600">
+                        Dibayar Rp {transaction.paid_amount.toLocaleString('id-ID')} | 
+                        Sisa Rp {remainingAmount(transaction).toLocaleString('id-ID')}
+                      </p>
+                    )}
+                    <Badge variant={PAYMENT_STATUS_VARIANTS[transaction.payment_status]} className="mt-1">
+                      {PAYMENT_STATUS_LABELS[transaction.payment_status]}
                     </Badge>
                   </div>
                   <div className="flex gap-2">
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => printReceipt(transaction.id)}
-                    >
-                      <Printer className="h-4 w-4" />
-                    </Button>
-                    {transaction.payment_status === 'pending' && (
+                    <ReceiptPrintButton transactionId={transaction.id} size="sm" />
+                    {(transaction.payment_status === 'paid' || transaction.payment_status === 'partially_paid') && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setRefundingTransaction(transaction)}
+                        title="Refund"
+                      >
+                        <Undo2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {(transaction.payment_status === 'pending' || transaction.payment_status === 'partially_paid') && (
                       <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => openPaymentDialog(transaction)}
+                          title="Catat pembayaran"
+                        >
+                          <Wallet className="h-4 w-4" />
+                        </Button>
                         <Button
                           size="sm"
                           onClick={() => updateTransactionStatus(transaction.id, 'paid')}
@@ -609,6 +890,17 @@ export default function CashierSystem() {
                 <p className="text-gray-600">
                   Transaksi #{lastTransaction.id} - {selectedPatient?.name}
                 </p>
+                {lastTransaction.discount_amount > 0 && (
+                  <p className="text-green-600 mt-1">
+                    Diskon Rp {lastTransaction.discount_amount.toLocaleString('id-ID')}
+                  </p>
+                )}
+                {remainingAmount(lastTransaction) > 0 && (
+                  <p className="text-orange-600 mt-1">
+                    Dibayar Rp {lastTransaction.paid_amount.toLocaleString('id-ID')}, 
+                    sisa Rp {remainingAmount(lastTransaction).toLocaleString('id-ID')}
+                  </p>
+                )}
               </div>
             )}
           </div>
@@ -616,12 +908,74 @@ export default function CashierSystem() {
             <Button variant="outline" onClick={() => setShowReceipt(false)}>
               Tutup
             </Button>
-            <Button onClick={() => {
-              if (lastTransaction) printReceipt(lastTransaction.id);
-              setShowReceipt(false);
-            }}>
-              <Printer className="h-4 w-4 mr-2" />
-              Cetak Struk
+            {lastTransaction && (
+              <ReceiptPrintButton
+                transactionId={lastTransaction.id}
+                label="Cetak Struk"
+                onPrinted={() => setShowReceipt(false)}
+              />
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <RefundDialog
+        transaction={refundingTransaction}
+        onClose={() => setRefundingTransaction(null)}
+        onRefunded={refreshTransactions}
+      />
+
+      {/* Payment Dialog */}
+      <Dialog open={payingTransaction !== null} onOpenChange={(open: boolean) => !open && setPayingTransaction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Wallet className="h-5 w-5" />
+              Catat Pembayaran
+            </DialogTitle>
+            <DialogDescription>
+              {payingTransaction && (
+                <>
+                  Transaksi #{payingTransaction.id} - sisa tagihan Rp {remainingAmount(payingTransaction).toLocaleString('id-ID')}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Jumlah (Rp)</Label>
+              <Input
+                type="number"
+                min="0"
+                value={paymentForm.amount}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setPaymentForm(prev => ({ ...prev, amount: e.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Metode Pembayaran</Label>
+              <Select
+                value={paymentForm.payment_method || 'tunai'}
+                onValueChange={(value: PaymentMethod) => setPaymentForm(prev => ({ ...prev, payment_method: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="tunai">💵 Tunai</SelectItem>
+                  <SelectItem value="transfer">🏦 Transfer</SelectItem>
+                  <SelectItem value="kartu">💳 Kartu</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPayingTransaction(null)}>
+              Batal
+            </Button>
+            <Button onClick={handleAddPayment} disabled={isLoading || !(parseFloat(paymentForm.amount) > 0)}>
+              {isLoading ? 'Menyimpan...' : 'Simpan Pembayaran'}
             </Button>
           </DialogFooter>
         </DialogContent>
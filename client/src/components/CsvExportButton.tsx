@@ -0,0 +1,51 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { downloadFile } from '@/lib/download';
+import { FileDown } from 'lucide-react';
+import type { ReportFile } from '../../../server/src/schema';
+
+interface CsvExportButtonProps {
+  label?: string;
+  onExport: (indonesianFormat: boolean) => Promise<ReportFile>;
+}
+
+export default function CsvExportButton({ label = 'Ekspor CSV', onExport }: CsvExportButtonProps) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const exportCsv = async (indonesianFormat: boolean) => {
+    setIsExporting(true);
+    try {
+      downloadFile(await onExport(indonesianFormat));
+    } catch (error) {
+      console.error('Failed to export CSV:', error);
+      alert('Gagal mengekspor data. Silakan coba lagi.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2" disabled={isExporting}>
+          <FileDown className="h-4 w-4" />
+          {isExporting ? 'Mengekspor...' : label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => exportCsv(false)}>
+          Format standar (1234.5, 2024-03-31)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportCsv(true)}>
+          Format Indonesia (1.234,5, 31/03/2024)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -2,11 +2,17 @@ import { useEffect, useState, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { trpc } from '@/utils/trpc';
-import { Users, Pill, DollarSign, AlertTriangle, Calendar, TrendingUp, CreditCard } from 'lucide-react';
-import type { DashboardStats } from '../../../server/src/schema';
+import { Button } from '@/components/ui/button';
+import { Users, Pill, DollarSign, AlertTriangle, Calendar, TrendingUp, CreditCard, Stethoscope, Phone } from 'lucide-react';
+import type { DashboardStats, FollowUpWithDetails } from '../../../server/src/schema';
 
-export default function Dashboard() {
+interface DashboardProps {
+  showFollowUps: boolean;
+}
+
+export default function Dashboard({ showFollowUps }: DashboardProps) {
   const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [followUps, setFollowUps] = useState<FollowUpWithDetails[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   const loadDashboardStats = useCallback(async () => {
@@ -21,6 +27,34 @@ export default function Dashboard() {
     }
   }, []);
 
+  const loadFollowUps = useCallback(async () => {
+    if (!showFollowUps) return;
+    try {
+      const result = await trpc.getDueFollowUps.query({ include_upcoming: false });
+      setFollowUps(result);
+    } catch (error) {
+      console.error('Failed to load follow-ups:', error);
+    }
+  }, [showFollowUps]);
+
+  useEffect(() => {
+    loadFollowUps();
+  }, [loadFollowUps]);
+
+  const handleCancelFollowUp = async (followUp: FollowUpWithDetails) => {
+    if (!confirm(`Batalkan kontrol hari ke-${followUp.day_offset} untuk ${followUp.patient_name}?`)) return;
+    try {
+      await trpc.cancelFollowUp.mutate(followUp.id);
+      setFollowUps(prev => prev.filter(item => item.id !== followUp.id));
+    } catch (error) {
+      console.error('Failed to cancel follow-up:', error);
+      alert('Gagal membatalkan jadwal kontrol.');
+    }
+  };
+
+  const missedFollowUps = followUps.filter(followUp => followUp.is_missed);
+  const todayFollowUps = followUps.filter(followUp => !followUp.is_missed);
+
   useEffect(() => {
     loadDashboardStats();
     
@@ -198,6 +232,52 @@ export default function Dashboard() {
         </Card>
       )}
 
+      {/* Post-operative control visits */}
+      {showFollowUps && followUps.length > 0 && (
+        <Card className={missedFollowUps.length > 0 ? 'border-red-200' : undefined}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Stethoscope className="h-5 w-5 text-blue-600" />
+              Kontrol Pasca Khitan
+            </CardTitle>
+            <CardDescription>
+              {todayFollowUps.length} jadwal kontrol hari ini, {missedFollowUps.length} terlewat
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {[...missedFollowUps, ...todayFollowUps].map((followUp: FollowUpWithDetails) => (
+              <div
+                key={followUp.id}
+                className={`flex justify-between items-center p-3 rounded-lg ${followUp.is_missed ? 'bg-red-50' : 'bg-blue-50'}`}
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{followUp.patient_name}</span>
+                    {followUp.is_missed ? (
+                      <Badge variant="destructive">Terlewat</Badge>
+                    ) : (
+                      <Badge variant="secondary">Hari ini</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-600">
+                    Kontrol hari ke-{followUp.day_offset} {followUp.service_name} • jatuh tempo {followUp.due_date.toLocaleDateString('id-ID')}
+                  </p>
+                  {followUp.patient_phone && (
+                    <p className="text-xs text-gray-500 flex items-center gap-1">
+                      <Phone className="h-3 w-3" />
+                      {followUp.patient_phone}
+                    </p>
+                  )}
+                </div>
+                <Button size="sm" variant="outline" onClick={() => handleCancelFollowUp(followUp)}>
+                  Batalkan
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Actions */}
       <Card>
         <CardHeader>
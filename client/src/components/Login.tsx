@@ -0,0 +1,131 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { trpc, setAuthToken } from '@/utils/trpc';
+import { Stethoscope, LogIn, AlertCircle } from 'lucide-react';
+import type { User } from '../../../server/src/schema';
+
+interface LoginProps {
+  onLogin: (user: User) => void;
+}
+
+export default function Login({ onLogin }: LoginProps) {
+  const [needsSetup, setNeedsSetup] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    username: '',
+    full_name: '',
+    password: ''
+  });
+
+  useEffect(() => {
+    const loadAuthStatus = async () => {
+      try {
+        const status = await trpc.getAuthStatus.query();
+        setNeedsSetup(status.needs_setup);
+      } catch (error) {
+        console.error('Failed to load auth status:', error);
+      }
+    };
+    loadAuthStatus();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setErrorMessage(null);
+    try {
+      const session = needsSetup
+        ? await trpc.setupOwner.mutate(formData)
+        : await trpc.login.mutate({ username: formData.username, password: formData.password });
+
+      setAuthToken(session.token);
+      onLogin(session.user);
+    } catch (error) {
+      console.error('Login failed:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Login gagal. Silakan coba lagi.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-white flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="bg-blue-600 p-3 rounded-lg w-fit mx-auto mb-2">
+            <Stethoscope className="h-8 w-8 text-white" />
+          </div>
+          <CardTitle className="text-xl">
+            {needsSetup ? 'Buat Akun Pemilik' : 'Masuk ke Sistem'}
+          </CardTitle>
+          <CardDescription>
+            {needsSetup
+              ? 'Belum ada pengguna terdaftar. Buat akun pemilik klinik terlebih dahulu.'
+              : 'Rumah Khitan Super Modern Pak Nopi'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <Input
+                id="username"
+                value={formData.username}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, username: e.target.value }))
+                }
+                autoComplete="username"
+                required
+              />
+            </div>
+
+            {needsSetup && (
+              <div className="space-y-2">
+                <Label htmlFor="full_name">Nama Lengkap</Label>
+                <Input
+                  id="full_name"
+                  value={formData.full_name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setFormData(prev => ({ ...prev, full_name: e.target.value }))
+                  }
+                  required
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={formData.password}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData(prev => ({ ...prev, password: e.target.value }))
+                }
+                autoComplete={needsSetup ? 'new-password' : 'current-password'}
+                minLength={needsSetup ? 8 : undefined}
+                required
+              />
+            </div>
+
+            {errorMessage && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-sm text-red-700">
+                <AlertCircle className="h-4 w-4" />
+                {errorMessage}
+              </div>
+            )}
+
+            <Button type="submit" className="w-full flex items-center gap-2" disabled={isLoading}>
+              <LogIn className="h-4 w-4" />
+              {isLoading ? 'Memproses...' : needsSetup ? 'Buat Akun & Masuk' : 'Masuk'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
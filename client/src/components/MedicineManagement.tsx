@@ -6,8 +6,15 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { trpc } from '@/utils/trpc';
+import CsvExportButton from './CsvExportButton';
+import PaginationControls from './PaginationControls';
+import PurchasingPanel from './PurchasingPanel';
+import StockTakePanel from './StockTakePanel';
+import { STOCK_APPROVER_ROLES } from '@/lib/roles';
+import { deleteResultMessage } from '@/lib/archive';
 import { 
   Plus, 
   Search, 
@@ -17,20 +24,46 @@ import {
   Calendar,
   TrendingUp,
   TrendingDown,
-  DollarSign
+  DollarSign,
+  Archive,
+  ArchiveRestore,
+  Trash2
 } from 'lucide-react';
-import type { Medicine, CreateMedicineInput, MedicineSearchInput, CreateStockMovementInput } from '../../../server/src/schema';
+import type { Medicine, MedicineBatch, CreateMedicineInput, MedicineSearchInput, CreateStockMovementInput, SortDirection, User } from '../../../server/src/schema';
 
-export default function MedicineManagement() {
+const PAGE_SIZE = 20;
+
+// Sort choices as "column:direction"
+const SORT_OPTIONS: Record<string, string> = {
+  'name:asc': 'Nama (A–Z)',
+  'stock_quantity:asc': 'Stok paling sedikit',
+  'expiry_date:asc': 'Kedaluwarsa terdekat',
+  'price_per_unit:desc': 'Harga tertinggi'
+};
+
+interface MedicineManagementProps {
+  currentUser: User;
+}
+
+export default function MedicineManagement({ currentUser }: MedicineManagementProps) {
   const [medicines, setMedicines] = useState<Medicine[]>([]);
   const [lowStockMedicines, setLowStockMedicines] = useState<Medicine[]>([]);
   const [expiredMedicines, setExpiredMedicines] = useState<Medicine[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [appliedQuery, setAppliedQuery] = useState('');
+  const [sort, setSort] = useState('name:asc');
+  const [showArchived, setShowArchived] = useState(false);
+  const [offset, setOffset] = useState(0);
+  const [total, setTotal] = useState(0);
+  // Every medicine by name, for the purchase order picker rather than the paged list
+  const [medicineOptions, setMedicineOptions] = useState<Medicine[]>([]);
+  const [activeTab, setActiveTab] = useState('all');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isStockDialogOpen, setIsStockDialogOpen] = useState(false);
   const [editingMedicine, setEditingMedicine] = useState<Medicine | null>(null);
   const [selectedMedicine, setSelectedMedicine] = useState<Medicine | null>(null);
+  const [batches, setBatches] = useState<MedicineBatch[]>([]);
 
   const [formData, setFormData] = useState<CreateMedicineInput>({
     name: '',
@@ -48,20 +81,42 @@ export default function MedicineManagement() {
     movement_type: 'masuk',
     quantity: 0,
     reference_id: null,
-    notes: null
+    notes: null,
+    lot_number: null,
+    expiry_date: null,
+    purchase_price: null
   });
 
-  const loadMedicines = useCallback(async (searchParams?: MedicineSearchInput) => {
+  const loadMedicines = useCallback(async () => {
     try {
       setIsLoading(true);
-      const params = searchParams || { limit: 50, offset: 0, low_stock_only: false, expired_only: false };
-      const result = await trpc.getMedicines.query(params);
-      setMedicines(result);
+      const [sortBy, sortDirection] = sort.split(':') as [MedicineSearchInput['sort_by'], SortDirection];
+      const result = await trpc.getMedicines.query({
+        query: appliedQuery || undefined,
+        low_stock_only: false,
+        expired_only: false,
+        include_archived: showArchived || undefined,
+        limit: PAGE_SIZE,
+        offset,
+        sort_by: sortBy,
+        sort_direction: sortDirection
+      });
+      setMedicines(result.items);
+      setTotal(result.total);
     } catch (error) {
       console.error('Failed to load medicines:', error);
     } finally {
       setIsLoading(false);
     }
+  }, [appliedQuery, offset, showArchived, sort]);
+
+  const loadMedicineOptions = useCallback(async () => {
+    try {
+      const result = await trpc.getMedicines.query({ low_stock_only: false, expired_only: false, limit: 200 });
+      setMedicineOptions(result.items);
+    } catch (error) {
+      console.error('Failed to load medicine options:', error);
+    }
   }, []);
 
   const loadLowStockMedicines = useCallback(async () => {
@@ -84,25 +139,39 @@ export default function MedicineManagement() {
 
   useEffect(() => {
     loadMedicines();
+  }, [loadMedicines]);
+
+  useEffect(() => {
+    loadMedicineOptions();
     loadLowStockMedicines();
     loadExpiredMedicines();
-  }, [loadMedicines, loadLowStockMedicines, loadExpiredMedicines]);
+  }, [loadMedicineOptions, loadLowStockMedicines, loadExpiredMedicines]);
 
-  const handleSearch = useCallback(async () => {
-    if (searchQuery.trim()) {
-      await loadMedicines({ query: searchQuery.trim(), limit: 50, offset: 0, low_stock_only: false, expired_only: false });
-    } else {
-      await loadMedicines();
-    }
-  }, [searchQuery, loadMedicines]);
+  // After purchasing or a stock opname changes the stock outside this screen
+  const reloadStock = () => {
+    loadMedicines();
+    loadMedicineOptions();
+    loadLowStockMedicines();
+    loadExpiredMedicines();
+  };
 
+  // A new search starts again from the first page
   useEffect(() => {
     const timeoutId = setTimeout(() => {
-      handleSearch();
+      setAppliedQuery(searchQuery.trim());
+      setOffset(0);
     }, 300);
 
     return () => clearTimeout(timeoutId);
-  }, [searchQuery, handleSearch]);
+  }, [searchQuery]);
+
+  // The medicine export follows the open tab; the stock alert tabs ignore the search text
+  const exportFilters = () => ({
+    query: activeTab === 'all' || activeTab === 'search' ? searchQuery.trim() || undefined : undefined,
+    low_stock_only: activeTab === 'low-stock',
+    expired_only: activeTab === 'expired',
+    include_archived: activeTab === 'all' && showArchived ? true : undefined
+  });
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -119,7 +188,9 @@ export default function MedicineManagement() {
       } else {
         const response = await trpc.createMedicine.mutate(formData);
         setMedicines((prev: Medicine[]) => [response, ...prev]);
+        setTotal((prev: number) => prev + 1);
       }
+      loadMedicineOptions();
       
       // Reset form and close dialog
       setFormData({
@@ -158,18 +229,23 @@ export default function MedicineManagement() {
       // Reload medicines and related data
       await loadMedicines();
       await loadLowStockMedicines();
+      await loadExpiredMedicines();
       
       setStockMovementData({
         medicine_id: 0,
         movement_type: 'masuk',
         quantity: 0,
         reference_id: null,
-        notes: null
+        notes: null,
+        lot_number: null,
+        expiry_date: null,
+        purchase_price: null
       });
       setSelectedMedicine(null);
       setIsStockDialogOpen(false);
     } catch (error) {
       console.error('Failed to create stock movement:', error);
+      alert(error instanceof Error ? error.message : 'Gagal menyimpan pergerakan stok');
     } finally {
       setIsLoading(false);
     }
@@ -190,18 +266,69 @@ export default function MedicineManagement() {
     setIsDialogOpen(true);
   };
 
-  const openStockDialog = (medicine: Medicine) => {
+  // Archived medicines leave the lists, stock alerts and cashier; their stock history stays
+  const archiveMedicine = async (medicine: Medicine) => {
+    if (!confirm(`Arsipkan ${medicine.name}? Obat tidak muncul lagi di daftar, peringatan stok dan kasir.`)) return;
+    try {
+      await trpc.archiveMedicine.mutate(medicine.id);
+      reloadStock();
+    } catch (error) {
+      console.error('Failed to archive medicine:', error);
+      alert(error instanceof Error ? error.message : 'Gagal mengarsipkan obat');
+    }
+  };
+
+  const restoreMedicine = async (medicine: Medicine) => {
+    try {
+      await trpc.restoreMedicine.mutate(medicine.id);
+      reloadStock();
+    } catch (error) {
+      console.error('Failed to restore medicine:', error);
+      alert(error instanceof Error ? error.message : 'Gagal memulihkan obat');
+    }
+  };
+
+  const deleteMedicine = async (medicine: Medicine) => {
+    if (!confirm(`Hapus ${medicine.name} secara permanen? Tindakan ini tidak dapat dibatalkan.`)) return;
+    try {
+      const result = await trpc.deleteMedicine.mutate(medicine.id);
+      alert(deleteResultMessage(medicine.name, result));
+      if (result.deleted) {
+        reloadStock();
+      }
+    } catch (error) {
+      console.error('Failed to delete medicine:', error);
+      alert(error instanceof Error ? error.message : 'Gagal menghapus obat');
+    }
+  };
+
+  const openStockDialog = async (medicine: Medicine) => {
     setSelectedMedicine(medicine);
     setStockMovementData(prev => ({
       ...prev,
       medicine_id: medicine.id,
       movement_type: 'masuk',
       quantity: 0,
-      notes: null
+      notes: null,
+      lot_number: null,
+      expiry_date: null,
+      purchase_price: null
     }));
+    setBatches([]);
     setIsStockDialogOpen(true);
+
+    try {
+      setBatches(await trpc.getMedicineBatches.query(medicine.id));
+    } catch (error) {
+      console.error('Failed to load medicine batches:', error);
+    }
   };
 
+  // Stock recorded before batches were tracked, not yet assigned to a batch
+  const untrackedStock = selectedMedicine
+    ? selectedMedicine.stock_quantity - batches.reduce((sum, batch) => sum + batch.quantity, 0)
+    : 0;
+
   const isExpiringSoon = (expiryDate: Date | null) => {
     if (!expiryDate) return false;
     const today = new Date();
@@ -224,180 +351,195 @@ export default function MedicineManagement() {
           <p className="text-gray-600">Kelola inventori obat dan pergerakan stok</p>
         </div>
         
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700">
-              <Plus className="h-4 w-4" />
-              Tambah Obat
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[600px]">
-            <form onSubmit={handleSubmit}>
-              <DialogHeader>
-                <DialogTitle>
-                  {editingMedicine ? 'Edit Obat' : 'Tambah Obat Baru'}
-                </DialogTitle>
-                <DialogDescription>
-                  {editingMedicine ? 'Edit informasi obat' : 'Masukkan informasi obat baru'}
-                </DialogDescription>
-              </DialogHeader>
-              
-              <div className="grid gap-4 py-4">
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="name">Nama Obat *</Label>
-                    <Input
-                      id="name"
-                      value={formData.name}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                        setFormData((prev: CreateMedicineInput) => ({ ...prev, name: e.target.value }))
-                      }
-                      placeholder="Nama obat"
-                      required
-                    />
-                  </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="unit">Satuan *</Label>
-                    <Input
-                      id="unit"
-                      value={formData.unit}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                        setFormData((prev: CreateMedicineInput) => ({ ...prev, unit: e.target.value }))
-                      }
-                      placeholder="tablet, botol, strip, dll"
-                      required
-                    />
-                  </div>
-                </div>
+        <div className="flex gap-2">
+          <CsvExportButton
+            label="Ekspor Obat"
+            onExport={(indonesian_format: boolean) =>
+              trpc.exportMedicinesCsv.query({ ...exportFilters(), indonesian_format })
+            }
+          />
+          <CsvExportButton
+            label="Ekspor Pergerakan Stok"
+            onExport={(indonesian_format: boolean) =>
+              trpc.exportStockMovementsCsv.query({ indonesian_format })
+            }
+          />
 
-                <div className="space-y-2">
-                  <Label htmlFor="description">Deskripsi</Label>
-                  <Textarea
-                    id="description"
-                    value={formData.description || ''}
-                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                      setFormData((prev: CreateMedicineInput) => ({ 
-                        ...prev, 
-                        description: e.target.value || null 
-                      }))
-                    }
-                    placeholder="Deskripsi obat, kegunaan, dll"
-                    rows={2}
-                  />
-                </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700">
+                <Plus className="h-4 w-4" />
+                Tambah Obat
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[600px]">
+              <form onSubmit={handleSubmit}>
+                <DialogHeader>
+                  <DialogTitle>
+                    {editingMedicine ? 'Edit Obat' : 'Tambah Obat Baru'}
+                  </DialogTitle>
+                  <DialogDescription>
+                    {editingMedicine ? 'Edit informasi obat' : 'Masukkan informasi obat baru'}
+                  </DialogDescription>
+                </DialogHeader>
+                
+                <div className="grid gap-4 py-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="name">Nama Obat *</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateMedicineInput) => ({ ...prev, name: e.target.value }))
+                        }
+                        placeholder="Nama obat"
+                        required
+                      />
+                    </div>
+                    
+                    <div className="space-y-2">
+                      <Label htmlFor="unit">Satuan *</Label>
+                      <Input
+                        id="unit"
+                        value={formData.unit}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateMedicineInput) => ({ ...prev, unit: e.target.value }))
+                        }
+                        placeholder="tablet, botol, strip, dll"
+                        required
+                      />
+                    </div>
+                  </div>
 
-                <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="price">Harga per Unit *</Label>
-                    <Input
-                      id="price"
-                      type="number"
-                      step="0.01"
-                      min="0"
-                      value={formData.price_per_unit}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    <Label htmlFor="description">Deskripsi</Label>
+                    <Textarea
+                      id="description"
+                      value={formData.description || ''}
+                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
                         setFormData((prev: CreateMedicineInput) => ({ 
                           ...prev, 
-                          price_per_unit: parseFloat(e.target.value) || 0 
+                          description: e.target.value || null 
                         }))
                       }
-                      placeholder="0"
-                      required
+                      placeholder="Deskripsi obat, kegunaan, dll"
+                      rows={2}
                     />
                   </div>
-                  
-                  <div className="space-y-2">
-                    <Label htmlFor="stock">Jumlah Stok *</Label>
-                    <Input
-                      id="stock"
-                      type="number"
-                      min="0"
-                      value={formData.stock_quantity}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                        setFormData((prev: CreateMedicineInput) => ({ 
-                          ...prev, 
-                          stock_quantity: parseInt(e.target.value) || 0 
-                        }))
-                      }
-                      placeholder="0"
-                      required
-                    />
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="price">Harga per Unit *</Label>
+                      <Input
+                        id="price"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formData.price_per_unit}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateMedicineInput) => ({ 
+                            ...prev, 
+                            price_per_unit: parseFloat(e.target.value) || 0 
+                          }))
+                        }
+                        placeholder="0"
+                        required
+                      />
+                    </div>
+                    
+                    <div className="space-y-2">
+                      <Label htmlFor="stock">Jumlah Stok *</Label>
+                      <Input
+                        id="stock"
+                        type="number"
+                        min="0"
+                        value={formData.stock_quantity}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateMedicineInput) => ({ 
+                            ...prev, 
+                            stock_quantity: parseInt(e.target.value) || 0 
+                          }))
+                        }
+                        placeholder="0"
+                        required
+                      />
+                    </div>
                   </div>
-                </div>
 
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="min_stock">Minimum Stok *</Label>
-                    <Input
-                      id="min_stock"
-                      type="number"
-                      min="0"
-                      value={formData.minimum_stock}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                        setFormData((prev: CreateMedicineInput) => ({ 
-                          ...prev, 
-                          minimum_stock: parseInt(e.target.value) || 0 
-                        }))
-                      }
-                      placeholder="5"
-                      required
-                    />
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="min_stock">Minimum Stok *</Label>
+                      <Input
+                        id="min_stock"
+                        type="number"
+                        min="0"
+                        value={formData.minimum_stock}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateMedicineInput) => ({ 
+                            ...prev, 
+                            minimum_stock: parseInt(e.target.value) || 0 
+                          }))
+                        }
+                        placeholder="5"
+                        required
+                      />
+                    </div>
+                    
+                    <div className="space-y-2">
+                      <Label htmlFor="expiry">Tanggal Kadaluarsa</Label>
+                      <Input
+                        id="expiry"
+                        type="date"
+                        value={formData.expiry_date instanceof Date ? 
+                          formData.expiry_date.toISOString().split('T')[0] : 
+                          formData.expiry_date || ''
+                        }
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateMedicineInput) => ({ 
+                            ...prev, 
+                            expiry_date: e.target.value ? new Date(e.target.value) : null 
+                          }))
+                        }
+                      />
+                    </div>
                   </div>
-                  
+
                   <div className="space-y-2">
-                    <Label htmlFor="expiry">Tanggal Kadaluarsa</Label>
+                    <Label htmlFor="supplier">Supplier</Label>
                     <Input
-                      id="expiry"
-                      type="date"
-                      value={formData.expiry_date instanceof Date ? 
-                        formData.expiry_date.toISOString().split('T')[0] : 
-                        formData.expiry_date || ''
-                      }
+                      id="supplier"
+                      value={formData.supplier || ''}
                       onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
                         setFormData((prev: CreateMedicineInput) => ({ 
                           ...prev, 
-                          expiry_date: e.target.value ? new Date(e.target.value) : null 
+                          supplier: e.target.value || null 
                         }))
                       }
+                      placeholder="Nama supplier"
                     />
                   </div>
                 </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="supplier">Supplier</Label>
-                  <Input
-                    id="supplier"
-                    value={formData.supplier || ''}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                      setFormData((prev: CreateMedicineInput) => ({ 
-                        ...prev, 
-                        supplier: e.target.value || null 
-                      }))
-                    }
-                    placeholder="Nama supplier"
-                  />
-                </div>
-              </div>
-              
-              <DialogFooter>
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  onClick={() => {
-                    setIsDialogOpen(false);
-                    setEditingMedicine(null);
-                  }}
-                >
-                  Batal
-                </Button>
-                <Button type="submit" disabled={isLoading}>
-                  {isLoading ? 'Menyimpan...' : editingMedicine ? 'Update' : 'Simpan'}
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                
+                <DialogFooter>
+                  <Button 
+                    type="button" 
+                    variant="outline" 
+                    onClick={() => {
+                      setIsDialogOpen(false);
+                      setEditingMedicine(null);
+                    }}
+                  >
+                    Batal
+                  </Button>
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? 'Menyimpan...' : editingMedicine ? 'Update' : 'Simpan'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Stock Movement Dialog */}
@@ -460,6 +602,81 @@ export default function MedicineManagement() {
                 />
               </div>
 
+              {stockMovementData.movement_type === 'masuk' ? (
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="lot_number">No. Batch/Lot</Label>
+                    <Input
+                      id="lot_number"
+                      value={stockMovementData.lot_number || ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setStockMovementData(prev => ({ ...prev, lot_number: e.target.value || null }))
+                      }
+                      placeholder="LOT-001"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="batch_expiry">Kadaluarsa</Label>
+                    <Input
+                      id="batch_expiry"
+                      type="date"
+                      value={stockMovementData.expiry_date ? stockMovementData.expiry_date.toISOString().split('T')[0] : ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setStockMovementData(prev => ({
+                          ...prev,
+                          expiry_date: e.target.value ? new Date(e.target.value) : null
+                        }))
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="purchase_price">Harga Beli</Label>
+                    <Input
+                      id="purchase_price"
+                      type="number"
+                      min="0"
+                      value={stockMovementData.purchase_price ?? ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setStockMovementData(prev => ({
+                          ...prev,
+                          purchase_price: e.target.value ? parseFloat(e.target.value) : null
+                        }))
+                      }
+                      placeholder="0"
+                    />
+                  </div>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  Stok keluar diambil dari batch dengan tanggal kadaluarsa terdekat.
+                </p>
+              )}
+
+              <div className="space-y-2">
+                <Label>Batch Tersedia</Label>
+                {batches.length === 0 && untrackedStock <= 0 ? (
+                  <p className="text-sm text-gray-500">Belum ada stok</p>
+                ) : (
+                  <div className="max-h-40 overflow-y-auto rounded-md border divide-y text-sm">
+                    {batches.map((batch: MedicineBatch) => (
+                      <div key={batch.id} className="flex justify-between p-2">
+                        <span>{batch.lot_number || 'Tanpa nomor lot'}</span>
+                        <span className="text-gray-500">
+                          {batch.expiry_date ? `Exp: ${batch.expiry_date.toLocaleDateString('id-ID')}` : 'Tanpa kadaluarsa'}
+                          {' · '}{batch.quantity} {selectedMedicine?.unit}
+                        </span>
+                      </div>
+                    ))}
+                    {untrackedStock > 0 && (
+                      <div className="flex justify-between p-2 text-gray-500">
+                        <span>Stok awal (belum tercatat per batch)</span>
+                        <span>{untrackedStock} {selectedMedicine?.unit}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="notes">Catatan</Label>
                 <Textarea
@@ -493,8 +710,8 @@ export default function MedicineManagement() {
         </DialogContent>
       </Dialog>
 
-      <Tabs defaultValue="all" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="all">Semua Obat</TabsTrigger>
           <TabsTrigger value="low-stock" className="flex items-center gap-2">
             Stok Menipis
@@ -513,6 +730,8 @@ export default function MedicineManagement() {
             )}
           </TabsTrigger>
           <TabsTrigger value="search">Pencarian</TabsTrigger>
+          <TabsTrigger value="purchasing">Pembelian</TabsTrigger>
+          <TabsTrigger value="stock-take">Stock Opname</TabsTrigger>
         </TabsList>
 
         <TabsContent value="search" className="space-y-4">
@@ -534,12 +753,36 @@ export default function MedicineManagement() {
         </TabsContent>
 
         <TabsContent value="all" className="space-y-4">
+          <div className="flex justify-end items-center gap-4">
+            {currentUser.role === 'owner' && (
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={showArchived}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => { setShowArchived(e.target.checked); setOffset(0); }}
+                />
+                Tampilkan arsip
+              </label>
+            )}
+            <Select value={sort} onValueChange={(value: string) => { setSort(value); setOffset(0); }}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SORT_OPTIONS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <MedicineList 
             medicines={medicines} 
             isLoading={isLoading} 
             onEdit={handleEdit}
             onStockMovement={openStockDialog}
+            archiveActions={currentUser.role === 'owner' ? { onArchive: archiveMedicine, onRestore: restoreMedicine, onDelete: deleteMedicine } : undefined}
           />
+          <PaginationControls offset={offset} limit={PAGE_SIZE} total={total} onOffsetChange={setOffset} disabled={isLoading} />
         </TabsContent>
 
         <TabsContent value="low-stock" className="space-y-4">
@@ -561,6 +804,14 @@ export default function MedicineManagement() {
             showAlert="expired"
           />
         </TabsContent>
+
+        <TabsContent value="purchasing" className="space-y-4">
+          <PurchasingPanel medicines={medicineOptions} onGoodsReceived={reloadStock} />
+        </TabsContent>
+
+        <TabsContent value="stock-take" className="space-y-4">
+          <StockTakePanel canApprove={STOCK_APPROVER_ROLES.includes(currentUser.role)} onStockChange={reloadStock} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -572,9 +823,15 @@ interface MedicineListProps {
   onEdit: (medicine: Medicine) => void;
   onStockMovement: (medicine: Medicine) => void;
   showAlert?: 'low-stock' | 'expired';
+  // Owner only
+  archiveActions?: {
+    onArchive: (medicine: Medicine) => void;
+    onRestore: (medicine: Medicine) => void;
+    onDelete: (medicine: Medicine) => void;
+  };
 }
 
-function MedicineList({ medicines, isLoading, onEdit, onStockMovement, showAlert }: MedicineListProps) {
+function MedicineList({ medicines, isLoading, onEdit, onStockMovement, showAlert, archiveActions }: MedicineListProps) {
   const isExpiringSoon = (expiryDate: Date | null) => {
     if (!expiryDate) return false;
     const today = new Date();
@@ -647,6 +904,10 @@ function MedicineList({ medicines, isLoading, onEdit, onStockMovement, showAlert
                   <Badge variant="outline">
                     {medicine.unit}
                   </Badge>
+
+                  {medicine.archived_at && (
+                    <Badge variant="destructive">Diarsipkan</Badge>
+                  )}
                   
                   {medicine.stock_quantity <= medicine.minimum_stock && (
                     <Badge variant="destructive" className="flex items-center gap-1">
@@ -728,6 +989,38 @@ function MedicineList({ medicines, isLoading, onEdit, onStockMovement, showAlert
                   <TrendingUp className="h-4 w-4" />
                   Stok
                 </Button>
+                {archiveActions && (medicine.archived_at ? (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => archiveActions.onRestore(medicine)}
+                      className="flex items-center gap-2"
+                    >
+                      <ArchiveRestore className="h-4 w-4" />
+                      Pulihkan
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => archiveActions.onDelete(medicine)}
+                      className="flex items-center gap-2 text-red-600"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Hapus
+                    </Button>
+                  </>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => archiveActions.onArchive(medicine)}
+                    className="flex items-center gap-2"
+                  >
+                    <Archive className="h-4 w-4" />
+                    Arsipkan
+                  </Button>
+                ))}
               </div>
             </div>
           </CardContent>
@@ -0,0 +1,47 @@
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PaginationControlsProps {
+  offset: number;
+  limit: number;
+  total: number;
+  onOffsetChange: (offset: number) => void;
+  disabled?: boolean;
+}
+
+// "Halaman 3 dari 12" with previous/next buttons, for lists returned as a paginated envelope
+export default function PaginationControls({ offset, limit, total, onOffsetChange, disabled = false }: PaginationControlsProps) {
+  const pageCount = Math.max(1, Math.ceil(total / limit));
+  const page = Math.min(pageCount, Math.floor(offset / limit) + 1);
+
+  return (
+    <div className="flex items-center justify-between text-sm text-gray-600">
+      <span>
+        {total === 0
+          ? 'Tidak ada data'
+          : `${offset + 1}–${Math.min(offset + limit, total)} dari ${total} data`}
+      </span>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onOffsetChange(Math.max(0, offset - limit))}
+          disabled={disabled || page <= 1}
+        >
+          <ChevronLeft className="h-4 w-4" />
+          Sebelumnya
+        </Button>
+        <span>Halaman {page} dari {pageCount}</span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onOffsetChange(offset + limit)}
+          disabled={disabled || page >= pageCount}
+        >
+          Berikutnya
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { GitMerge } from 'lucide-react';
+import type { Patient, DuplicatePatientPair } from '../../../server/src/schema';
+
+interface PatientDuplicatesProps {
+  onMerged: () => void;
+}
+
+function PatientSummary({ patient }: { patient: Patient }) {
+  return (
+    <div className="space-y-1 text-sm">
+      <p className="font-semibold text-gray-900">{patient.name}</p>
+      <p className="font-mono text-gray-600">No. RM: {patient.medical_record_number ?? '—'}</p>
+      <p className="text-gray-600">Lahir: {new Date(patient.date_of_birth).toLocaleDateString('id-ID')}</p>
+      <p className="text-gray-600">Telepon: {patient.phone || '—'}</p>
+      <p className="text-xs text-gray-400">Terdaftar: {patient.created_at.toLocaleDateString('id-ID')}</p>
+    </div>
+  );
+}
+
+// Likely duplicate registrations, each pair merged into whichever record the user keeps
+export default function PatientDuplicates({ onMerged }: PatientDuplicatesProps) {
+  const [pairs, setPairs] = useState<DuplicatePatientPair[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadPairs = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await trpc.findDuplicatePatients.query({});
+      setPairs(result);
+    } catch (error) {
+      console.error('Failed to find duplicate patients:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPairs();
+  }, [loadPairs]);
+
+  const merge = async (survivor: Patient, duplicate: Patient) => {
+    if (!confirm(`Gabungkan ${duplicate.name} ke ${survivor.name}? Semua transaksi, kunjungan dan janji temu dipindahkan, lalu data ${duplicate.name} dihapus.`)) {
+      return;
+    }
+    try {
+      setIsLoading(true);
+      const result = await trpc.mergePatients.mutate({ survivor_id: survivor.id, duplicate_id: duplicate.id });
+      const moved = result.moved_records;
+      alert(`Data digabung: ${moved.transactions} transaksi, ${moved.visits} kunjungan, ${moved.appointments} janji temu dipindahkan`);
+      onMerged();
+      await loadPairs();
+    } catch (error) {
+      console.error('Failed to merge patients:', error);
+      alert(error instanceof Error ? error.message : 'Gagal menggabungkan pasien');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (isLoading && pairs.length === 0) {
+    return <p className="text-sm text-gray-500">Mencari data ganda...</p>;
+  }
+
+  if (pairs.length === 0) {
+    return <p className="text-sm text-gray-500">Tidak ada data pasien yang terlihat ganda</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {pairs.map((pair: DuplicatePatientPair) => (
+        <div key={`${pair.patient.id}-${pair.duplicate.id}`} className="border rounded-lg p-4 space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">Kemiripan nama {Math.round(pair.name_similarity * 100)}%</Badge>
+            {pair.same_date_of_birth && <Badge variant="secondary">Tanggal lahir sama</Badge>}
+            {pair.same_phone && <Badge variant="secondary">Telepon sama</Badge>}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {[[pair.patient, pair.duplicate], [pair.duplicate, pair.patient]].map(([keep, remove]) => (
+              <div key={keep.id} className="space-y-3">
+                <PatientSummary patient={keep} />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => merge(keep, remove)}
+                  disabled={isLoading}
+                  className="flex items-center gap-2"
+                >
+                  <GitMerge className="h-4 w-4" />
+                  Pertahankan data ini
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
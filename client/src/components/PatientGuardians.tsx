@@ -0,0 +1,252 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { Plus, Star, Unlink, Phone, IdCard } from 'lucide-react';
+import type { Patient, Guardian, PatientGuardian, CreateGuardianInput } from '../../../server/src/schema';
+
+interface PatientGuardiansProps {
+  patient: Patient;
+}
+
+const emptyGuardian: CreateGuardianInput = {
+  name: '',
+  relationship: 'Ayah',
+  nik: null,
+  phone: null,
+  address: null
+};
+
+export default function PatientGuardians({ patient }: PatientGuardiansProps) {
+  const [guardians, setGuardians] = useState<PatientGuardian[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<Guardian[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [formData, setFormData] = useState<CreateGuardianInput>(emptyGuardian);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadGuardians = useCallback(async () => {
+    try {
+      const result = await trpc.getPatientGuardians.query(patient.id);
+      setGuardians(result);
+    } catch (error) {
+      console.error('Failed to load guardians:', error);
+    }
+  }, [patient.id]);
+
+  useEffect(() => {
+    loadGuardians();
+  }, [loadGuardians]);
+
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults([]);
+      return;
+    }
+
+    const timeoutId = setTimeout(async () => {
+      try {
+        const result = await trpc.getGuardians.query({ query: searchQuery.trim(), limit: 5, offset: 0 });
+        setSearchResults(result.items);
+      } catch (error) {
+        console.error('Failed to search guardians:', error);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery]);
+
+  const linkGuardian = async (guardianId: number, isPrimary: boolean) => {
+    try {
+      const result = await trpc.linkGuardianToPatient.mutate({
+        patient_id: patient.id,
+        guardian_id: guardianId,
+        is_primary: isPrimary
+      });
+      setGuardians(result);
+      setSearchQuery('');
+    } catch (error) {
+      console.error('Failed to link guardian:', error);
+      alert('Gagal menghubungkan wali.');
+    }
+  };
+
+  const unlinkGuardian = async (guardian: PatientGuardian) => {
+    if (!confirm(`Lepaskan ${guardian.name} dari ${patient.name}?`)) return;
+    try {
+      const result = await trpc.unlinkGuardianFromPatient.mutate({ patient_id: patient.id, guardian_id: guardian.id });
+      setGuardians(result);
+    } catch (error) {
+      console.error('Failed to unlink guardian:', error);
+      alert('Gagal melepaskan wali.');
+    }
+  };
+
+  const handleCreate = async () => {
+    setIsLoading(true);
+    try {
+      const guardian = await trpc.createGuardian.mutate(formData);
+      await linkGuardian(guardian.id, guardians.length === 0);
+      setFormData(emptyGuardian);
+      setIsCreating(false);
+    } catch (error) {
+      console.error('Failed to create guardian:', error);
+      alert('Gagal menyimpan wali. Pastikan NIK terdiri dari 16 digit angka.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const linkedIds = new Set(guardians.map(g => g.id));
+
+  return (
+    <div className="space-y-4">
+      {/* Linked guardians */}
+      {guardians.length === 0 ? (
+        <p className="text-sm text-gray-500">Belum ada orang tua/wali yang terhubung</p>
+      ) : (
+        <div className="space-y-2">
+          {guardians.map((guardian: PatientGuardian) => (
+            <div key={guardian.id} className="flex justify-between items-start p-3 border rounded-lg">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{guardian.name}</span>
+                  <Badge variant="outline">{guardian.relationship}</Badge>
+                  {guardian.is_primary && <Badge>Utama</Badge>}
+                </div>
+                <div className="text-xs text-gray-600 flex flex-wrap gap-3">
+                  {guardian.phone && (
+                    <span className="flex items-center gap-1"><Phone className="h-3 w-3" />{guardian.phone}</span>
+                  )}
+                  {guardian.nik && (
+                    <span className="flex items-center gap-1"><IdCard className="h-3 w-3" />{guardian.nik}</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-1">
+                {!guardian.is_primary && (
+                  <Button size="sm" variant="outline" onClick={() => linkGuardian(guardian.id, true)} title="Jadikan wali utama">
+                    <Star className="h-3 w-3" />
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" onClick={() => unlinkGuardian(guardian)} title="Lepaskan">
+                  <Unlink className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Link an existing guardian, e.g. the parent of a sibling */}
+      <div className="space-y-2">
+        <Label>Hubungkan Wali yang Sudah Terdaftar</Label>
+        <Input
+          placeholder="Cari nama, NIK atau nomor telepon wali..."
+          value={searchQuery}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchQuery(e.target.value)}
+        />
+        {searchResults.filter(g => !linkedIds.has(g.id)).map((guardian: Guardian) => (
+          <div key={guardian.id} className="flex justify-between items-center p-2 border rounded-lg">
+            <div>
+              <p className="text-sm font-medium">{guardian.name} ({guardian.relationship})</p>
+              <p className="text-xs text-gray-500">{guardian.phone || guardian.nik || '-'}</p>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => linkGuardian(guardian.id, guardians.length === 0)}>
+              Hubungkan
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {/* New guardian */}
+      {isCreating ? (
+        <div className="p-3 border rounded-lg space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="guardian_name">Nama *</Label>
+              <Input
+                id="guardian_name"
+                value={formData.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: CreateGuardianInput) => ({ ...prev, name: e.target.value }))
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="guardian_relationship">Hubungan *</Label>
+              <Input
+                id="guardian_relationship"
+                list="guardian-relationships"
+                value={formData.relationship}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: CreateGuardianInput) => ({ ...prev, relationship: e.target.value }))
+                }
+              />
+              <datalist id="guardian-relationships">
+                <option value="Ayah" />
+                <option value="Ibu" />
+                <option value="Kakek" />
+                <option value="Nenek" />
+                <option value="Wali" />
+              </datalist>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="guardian_nik">NIK</Label>
+              <Input
+                id="guardian_nik"
+                inputMode="numeric"
+                maxLength={16}
+                value={formData.nik || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: CreateGuardianInput) => ({ ...prev, nik: e.target.value || null }))
+                }
+                placeholder="16 digit"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="guardian_phone">Nomor Telepon</Label>
+              <Input
+                id="guardian_phone"
+                value={formData.phone || ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: CreateGuardianInput) => ({ ...prev, phone: e.target.value || null }))
+                }
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="guardian_address">Alamat</Label>
+            <Input
+              id="guardian_address"
+              value={formData.address || ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setFormData((prev: CreateGuardianInput) => ({ ...prev, address: e.target.value || null }))
+              }
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setIsCreating(false)}>
+              Batal
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              onClick={handleCreate}
+              disabled={isLoading || !formData.name || !formData.relationship}
+            >
+              {isLoading ? 'Menyimpan...' : 'Simpan Wali'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button type="button" variant="outline" size="sm" className="flex items-center gap-2" onClick={() => setIsCreating(true)}>
+          <Plus className="h-4 w-4" />
+          Tambah Wali Baru
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { Upload, CheckCircle, AlertCircle, Copy } from 'lucide-react';
+import type { PatientImportInput, PatientImportResult, PatientImportRowStatus } from '../../../server/src/schema';
+
+interface PatientImportWizardProps {
+  onImported: () => void;
+}
+
+const STATUS_LABELS: Record<PatientImportRowStatus, string> = {
+  valid: 'Siap diimpor',
+  invalid: 'Tidak valid',
+  duplicate: 'Duplikat'
+};
+
+const STATUS_VARIANTS: Record<PatientImportRowStatus, 'default' | 'destructive' | 'secondary'> = {
+  valid: 'default',
+  invalid: 'destructive',
+  duplicate: 'secondary'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Nama',
+  date_of_birth: 'Tanggal Lahir',
+  gender: 'Jenis Kelamin',
+  phone: 'Telepon',
+  address: 'Alamat',
+  emergency_contact: 'Kontak Darurat',
+  medical_notes: 'Catatan Medis'
+};
+
+// File contents as base64, without the data: URL prefix
+const readFileAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export default function PatientImportWizard({ onImported }: PatientImportWizardProps) {
+  const [file, setFile] = useState<PatientImportInput | null>(null);
+  const [preview, setPreview] = useState<PatientImportResult | null>(null);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showAllRows, setShowAllRows] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    setPreview(null);
+    setImportedCount(null);
+    if (!selected) {
+      setFile(null);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const input = { filename: selected.name, content_base64: await readFileAsBase64(selected) };
+      setFile(input);
+      setPreview(await trpc.previewPatientImport.mutate(input));
+    } catch (error) {
+      console.error('Failed to preview patient import:', error);
+      alert(error instanceof Error ? error.message : 'Gagal membaca file');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file || !preview) return;
+    setIsLoading(true);
+    try {
+      const result = await trpc.importPatients.mutate(file);
+      setImportedCount(result.imported_count);
+      setPreview(null);
+      setFile(null);
+      onImported();
+    } catch (error) {
+      console.error('Failed to import patients:', error);
+      alert(error instanceof Error ? error.message : 'Gagal mengimpor pasien');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const visibleRows = preview
+    ? preview.rows.filter(row => showAllRows || row.status !== 'valid')
+    : [];
+
+  return (
+    <div className="space-y-4">
+      {/* Step 1: choose a file */}
+      <div className="space-y-2">
+        <Label htmlFor="import-file">1. Pilih file CSV atau XLSX</Label>
+        <Input id="import-file" type="file" accept=".csv,.xlsx" onChange={handleFileChange} disabled={isLoading} />
+        <p className="text-xs text-gray-500">
+          Baris pertama berisi judul kolom. Wajib: Nama, Tanggal Lahir (DD/MM/YYYY atau YYYY-MM-DD), Jenis Kelamin (L/P).
+          Opsional: Telepon, Alamat, Kontak Darurat, Catatan Medis.
+        </p>
+      </div>
+
+      {isLoading && <p className="text-sm text-gray-500">Memproses...</p>}
+
+      {importedCount !== null && (
+        <div className="flex items-center gap-2 rounded-md bg-green-50 p-3 text-sm text-green-800">
+          <CheckCircle className="h-4 w-4" />
+          {importedCount} pasien berhasil diimpor
+        </div>
+      )}
+
+      {/* Step 2: review the preview */}
+      {preview && (
+        <div className="space-y-3">
+          <Label>2. Periksa hasil validasi</Label>
+          <p className="text-xs text-gray-500">
+            Kolom dikenali: {preview.columns.map(column => FIELD_LABELS[column] ?? column).join(', ')}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="default" className="flex items-center gap-1">
+              <CheckCircle className="h-3 w-3" />
+              {preview.valid_count} siap diimpor
+            </Badge>
+            <Badge variant="destructive" className="flex items-center gap-1">
+              <AlertCircle className="h-3 w-3" />
+              {preview.invalid_count} tidak valid
+            </Badge>
+            <Badge variant="secondary" className="flex items-center gap-1">
+              <Copy className="h-3 w-3" />
+              {preview.duplicate_count} duplikat
+            </Badge>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={showAllRows}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setShowAllRows(e.target.checked)}
+            />
+            Tampilkan juga baris yang valid
+          </label>
+
+          <div className="max-h-72 overflow-y-auto rounded-md border divide-y">
+            {visibleRows.length === 0 ? (
+              <p className="p-3 text-sm text-gray-500">Semua baris valid</p>
+            ) : (
+              visibleRows.map(row => (
+                <div key={row.row_number} className="p-2 text-sm">
+                  <div className="flex items-center justify-between gap-2">
+                    <span>
+                      <span className="text-gray-500">Baris {row.row_number}:</span> {row.name || '(tanpa nama)'}
+                    </span>
+                    <Badge variant={STATUS_VARIANTS[row.status]}>{STATUS_LABELS[row.status]}</Badge>
+                  </div>
+                  {row.errors.length > 0 && (
+                    <ul className="mt-1 list-disc pl-5 text-xs text-red-600">
+                      {row.errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Step 3: commit */}
+          <Button
+            onClick={handleImport}
+            disabled={isLoading || preview.valid_count === 0}
+            className="w-full flex items-center gap-2 bg-blue-600 hover:bg-blue-700"
+          >
+            <Upload className="h-4 w-4" />
+            3. Impor {preview.valid_count} pasien
+            {preview.invalid_count + preview.duplicate_count > 0 &&
+              ` (${preview.invalid_count + preview.duplicate_count} baris dilewati)`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
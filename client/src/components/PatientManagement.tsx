@@ -8,15 +8,48 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { trpc } from '@/utils/trpc';
-import { Plus, Search, Edit, Calendar, Phone, MapPin, AlertCircle } from 'lucide-react';
-import type { Patient, CreatePatientInput, PatientSearchInput } from '../../../server/src/schema';
+import { Plus, Search, Edit, Calendar, Phone, MapPin, AlertCircle, Users, ClipboardList, Upload, IdCard, Hash, GitMerge, Archive, ArchiveRestore, Trash2 } from 'lucide-react';
+import { downloadFile } from '@/lib/download';
+import PatientGuardians from './PatientGuardians';
+import PatientVisits from './PatientVisits';
+import PatientImportWizard from './PatientImportWizard';
+import PatientDuplicates from './PatientDuplicates';
+import CsvExportButton from './CsvExportButton';
+import PaginationControls from './PaginationControls';
+import { CLINICAL_ROLES } from '@/lib/roles';
+import { deleteResultMessage } from '@/lib/archive';
+import type { Patient, CreatePatientInput, PatientSearchInput, SortDirection, User } from '../../../server/src/schema';
 
-export default function PatientManagement() {
+const PAGE_SIZE = 20;
+
+// Sort choices as "column:direction"
+const SORT_OPTIONS: Record<string, string> = {
+  'relevance:desc': 'Paling cocok',
+  'created_at:desc': 'Terbaru didaftarkan',
+  'name:asc': 'Nama (A–Z)',
+  'date_of_birth:desc': 'Usia termuda'
+};
+
+interface PatientManagementProps {
+  currentUser: User;
+}
+
+export default function PatientManagement({ currentUser }: PatientManagementProps) {
   const [patients, setPatients] = useState<Patient[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [appliedQuery, setAppliedQuery] = useState('');
+  const [sort, setSort] = useState('relevance:desc');
+  const [filters, setFilters] = useState({ gender: 'all', age_min: '', age_max: '' });
+  const [showArchived, setShowArchived] = useState(false);
+  const [offset, setOffset] = useState(0);
+  const [total, setTotal] = useState(0);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingPatient, setEditingPatient] = useState<Patient | null>(null);
+  const [guardianPatient, setGuardianPatient] = useState<Patient | null>(null);
+  const [visitsPatient, setVisitsPatient] = useState<Patient | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
 
   const [formData, setFormData] = useState<CreatePatientInput>({
     name: '',
@@ -28,38 +61,53 @@ export default function PatientManagement() {
     medical_notes: null
   });
 
-  const loadPatients = useCallback(async (searchParams?: PatientSearchInput) => {
+  // Shared by the list and the CSV export
+  const listFilters = useCallback((query: string) => ({
+    query: query || undefined,
+    gender: filters.gender === 'all' ? undefined : filters.gender as Patient['gender'],
+    age_min: filters.age_min ? parseInt(filters.age_min) : undefined,
+    age_max: filters.age_max ? parseInt(filters.age_max) : undefined,
+    include_archived: showArchived || undefined
+  }), [filters, showArchived]);
+
+  const loadPatients = useCallback(async () => {
     try {
       setIsLoading(true);
-      const params = searchParams || { limit: 50, offset: 0 };
-      const result = await trpc.getPatients.query(params);
-      setPatients(result);
+      const [sortBy, sortDirection] = sort.split(':') as [PatientSearchInput['sort_by'], SortDirection];
+      const result = await trpc.getPatients.query({
+        ...listFilters(appliedQuery),
+        limit: PAGE_SIZE,
+        offset,
+        sort_by: sortBy,
+        sort_direction: sortDirection
+      });
+      setPatients(result.items);
+      setTotal(result.total);
     } catch (error) {
       console.error('Failed to load patients:', error);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [appliedQuery, listFilters, offset, sort]);
 
   useEffect(() => {
     loadPatients();
   }, [loadPatients]);
 
-  const handleSearch = useCallback(async () => {
-    if (searchQuery.trim()) {
-      await loadPatients({ query: searchQuery.trim(), limit: 50, offset: 0 });
-    } else {
-      await loadPatients();
-    }
-  }, [searchQuery, loadPatients]);
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setOffset(0);
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
 
+  // A new search starts again from the first page
   useEffect(() => {
     const timeoutId = setTimeout(() => {
-      handleSearch();
+      setAppliedQuery(searchQuery.trim());
+      setOffset(0);
     }, 300);
 
     return () => clearTimeout(timeoutId);
-  }, [searchQuery, handleSearch]);
+  }, [searchQuery]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -76,6 +124,7 @@ export default function PatientManagement() {
       } else {
         const response = await trpc.createPatient.mutate(formData);
         setPatients((prev: Patient[]) => [response, ...prev]);
+        setTotal((prev: number) => prev + 1);
       }
       
       // Reset form and close dialog
@@ -111,6 +160,64 @@ export default function PatientManagement() {
     setIsDialogOpen(true);
   };
 
+  const printPatientCard = async (patient: Patient) => {
+    try {
+      downloadFile(await trpc.generatePatientCard.query(patient.id));
+    } catch (error) {
+      console.error('Failed to generate patient card:', error);
+      alert(error instanceof Error ? error.message : 'Gagal membuat kartu pasien');
+    }
+  };
+
+  // Numbers patients registered before No. RM existed, once
+  const backfillMedicalRecordNumbers = async () => {
+    if (!confirm('Beri No. RM untuk semua pasien yang belum memilikinya?')) return;
+    try {
+      const result = await trpc.backfillMedicalRecordNumbers.mutate();
+      alert(`${result.assigned_count} pasien diberi No. RM`);
+      await loadPatients();
+    } catch (error) {
+      console.error('Failed to backfill medical record numbers:', error);
+      alert(error instanceof Error ? error.message : 'Gagal mengisi No. RM');
+    }
+  };
+
+  // Archived patients drop out of the list and pickers; their history stays
+  const archivePatient = async (patient: Patient) => {
+    if (!confirm(`Arsipkan ${patient.name}? Pasien tidak muncul lagi di daftar dan kasir, riwayatnya tetap tersimpan.`)) return;
+    try {
+      await trpc.archivePatient.mutate(patient.id);
+      await loadPatients();
+    } catch (error) {
+      console.error('Failed to archive patient:', error);
+      alert(error instanceof Error ? error.message : 'Gagal mengarsipkan pasien');
+    }
+  };
+
+  const restorePatient = async (patient: Patient) => {
+    try {
+      await trpc.restorePatient.mutate(patient.id);
+      await loadPatients();
+    } catch (error) {
+      console.error('Failed to restore patient:', error);
+      alert(error instanceof Error ? error.message : 'Gagal memulihkan pasien');
+    }
+  };
+
+  const deletePatient = async (patient: Patient) => {
+    if (!confirm(`Hapus ${patient.name} secara permanen? Tindakan ini tidak dapat dibatalkan.`)) return;
+    try {
+      const result = await trpc.deletePatient.mutate(patient.id);
+      alert(deleteResultMessage(patient.name, result));
+      if (result.deleted) {
+        await loadPatients();
+      }
+    } catch (error) {
+      console.error('Failed to delete patient:', error);
+      alert(error instanceof Error ? error.message : 'Gagal menghapus pasien');
+    }
+  };
+
   const calculateAge = (birthDate: Date) => {
     const today = new Date();
     const birth = new Date(birthDate);
@@ -133,167 +240,191 @@ export default function PatientManagement() {
           <p className="text-gray-600">Kelola data pasien dan riwayat kunjungan</p>
         </div>
         
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700">
-              <Plus className="h-4 w-4" />
-              Tambah Pasien
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[600px]">
-            <form onSubmit={handleSubmit}>
-              <DialogHeader>
-                <DialogTitle>
-                  {editingPatient ? 'Edit Pasien' : 'Tambah Pasien Baru'}
-                </DialogTitle>
-                <DialogDescription>
-                  {editingPatient ? 'Edit informasi pasien' : 'Masukkan informasi pasien baru'}
-                </DialogDescription>
-              </DialogHeader>
-              
-              <div className="grid gap-4 py-4">
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="flex gap-2">
+          {currentUser.role === 'owner' && (
+            <>
+              <Button variant="outline" className="flex items-center gap-2" onClick={() => setIsDuplicatesOpen(true)}>
+                <GitMerge className="h-4 w-4" />
+                Data Ganda
+              </Button>
+              <Button variant="outline" className="flex items-center gap-2" onClick={backfillMedicalRecordNumbers}>
+                <Hash className="h-4 w-4" />
+                Isi No. RM
+              </Button>
+            </>
+          )}
+          <Button variant="outline" className="flex items-center gap-2" onClick={() => setIsImportOpen(true)}>
+            <Upload className="h-4 w-4" />
+            Impor
+          </Button>
+          <CsvExportButton
+            onExport={(indonesian_format: boolean) =>
+              trpc.exportPatientsCsv.query({ ...listFilters(searchQuery.trim()), indonesian_format })
+            }
+          />
+
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700">
+                <Plus className="h-4 w-4" />
+                Tambah Pasien
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-[600px]">
+              <form onSubmit={handleSubmit}>
+                <DialogHeader>
+                  <DialogTitle>
+                    {editingPatient ? 'Edit Pasien' : 'Tambah Pasien Baru'}
+                  </DialogTitle>
+                  <DialogDescription>
+                    {editingPatient ? 'Edit informasi pasien' : 'Masukkan informasi pasien baru'}
+                  </DialogDescription>
+                </DialogHeader>
+                
+                <div className="grid gap-4 py-4">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="name">Nama Lengkap *</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreatePatientInput) => ({ ...prev, name: e.target.value }))
+                        }
+                        placeholder="Masukkan nama lengkap"
+                        required
+                      />
+                    </div>
+                    
+                    <div className="space-y-2">
+                      <Label htmlFor="gender">Jenis Kelamin *</Label>
+                      <Select 
+                        value={formData.gender} 
+                        onValueChange={(value: 'Laki-laki' | 'Perempuan') =>
+                          setFormData((prev: CreatePatientInput) => ({ ...prev, gender: value }))
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="Laki-laki">Laki-laki</SelectItem>
+                          <SelectItem value="Perempuan">Perempuan</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
                   <div className="space-y-2">
-                    <Label htmlFor="name">Nama Lengkap *</Label>
+                    <Label htmlFor="birth_date">Tanggal Lahir *</Label>
                     <Input
-                      id="name"
-                      value={formData.name}
+                      id="birth_date"
+                      type="date"
+                      value={formData.date_of_birth instanceof Date ? 
+                        formData.date_of_birth.toISOString().split('T')[0] : 
+                        formData.date_of_birth
+                      }
                       onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                        setFormData((prev: CreatePatientInput) => ({ ...prev, name: e.target.value }))
+                        setFormData((prev: CreatePatientInput) => ({ 
+                          ...prev, 
+                          date_of_birth: new Date(e.target.value) 
+                        }))
                       }
-                      placeholder="Masukkan nama lengkap"
                       required
                     />
                   </div>
-                  
+
                   <div className="space-y-2">
-                    <Label htmlFor="gender">Jenis Kelamin *</Label>
-                    <Select 
-                      value={formData.gender} 
-                      onValueChange={(value: 'Laki-laki' | 'Perempuan') =>
-                        setFormData((prev: CreatePatientInput) => ({ ...prev, gender: value }))
+                    <Label htmlFor="phone">Nomor Telepon</Label>
+                    <Input
+                      id="phone"
+                      value={formData.phone || ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData((prev: CreatePatientInput) => ({ 
+                          ...prev, 
+                          phone: e.target.value || null 
+                        }))
                       }
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="Laki-laki">Laki-laki</SelectItem>
-                        <SelectItem value="Perempuan">Perempuan</SelectItem>
-                      </SelectContent>
-                    </Select>
+                      placeholder="Contoh: 081234567890"
+                    />
                   </div>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="birth_date">Tanggal Lahir *</Label>
-                  <Input
-                    id="birth_date"
-                    type="date"
-                    value={formData.date_of_birth instanceof Date ? 
-                      formData.date_of_birth.toISOString().split('T')[0] : 
-                      formData.date_of_birth
-                    }
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                      setFormData((prev: CreatePatientInput) => ({ 
-                        ...prev, 
-                        date_of_birth: new Date(e.target.value) 
-                      }))
-                    }
-                    required
-                  />
-                </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="phone">Nomor Telepon</Label>
-                  <Input
-                    id="phone"
-                    value={formData.phone || ''}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                      setFormData((prev: CreatePatientInput) => ({ 
-                        ...prev, 
-                        phone: e.target.value || null 
-                      }))
-                    }
-                    placeholder="Contoh: 081234567890"
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="address">Alamat</Label>
-                  <Textarea
-                    id="address"
-                    value={formData.address || ''}
-                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                      setFormData((prev: CreatePatientInput) => ({ 
-                        ...prev, 
-                        address: e.target.value || null 
-                      }))
-                    }
-                    placeholder="Masukkan alamat lengkap"
-                    rows={2}
-                  />
-                </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="address">Alamat</Label>
+                    <Textarea
+                      id="address"
+                      value={formData.address || ''}
+                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                        setFormData((prev: CreatePatientInput) => ({ 
+                          ...prev, 
+                          address: e.target.value || null 
+                        }))
+                      }
+                      placeholder="Masukkan alamat lengkap"
+                      rows={2}
+                    />
+                  </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="emergency_contact">Kontak Darurat</Label>
-                  <Input
-                    id="emergency_contact"
-                    value={formData.emergency_contact || ''}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                      setFormData((prev: CreatePatientInput) => ({ 
-                        ...prev, 
-                        emergency_contact: e.target.value || null 
-                      }))
-                    }
-                    placeholder="Nama dan nomor kontak darurat"
-                  />
-                </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="emergency_contact">Kontak Darurat</Label>
+                    <Input
+                      id="emergency_contact"
+                      value={formData.emergency_contact || ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData((prev: CreatePatientInput) => ({ 
+                          ...prev, 
+                          emergency_contact: e.target.value || null 
+                        }))
+                      }
+                      placeholder="Nama dan nomor kontak darurat"
+                    />
+                  </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="medical_notes">Catatan Medis</Label>
-                  <Textarea
-                    id="medical_notes"
-                    value={formData.medical_notes || ''}
-                    onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
-                      setFormData((prev: CreatePatientInput) => ({ 
-                        ...prev, 
-                        medical_notes: e.target.value || null 
-                      }))
-                    }
-                    placeholder="Alergi, riwayat penyakit, dll."
-                    rows={3}
-                  />
+                  <div className="space-y-2">
+                    <Label htmlFor="medical_notes">Catatan Medis</Label>
+                    <Textarea
+                      id="medical_notes"
+                      value={formData.medical_notes || ''}
+                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) =>
+                        setFormData((prev: CreatePatientInput) => ({ 
+                          ...prev, 
+                          medical_notes: e.target.value || null 
+                        }))
+                      }
+                      placeholder="Alergi, riwayat penyakit, dll."
+                      rows={3}
+                    />
+                  </div>
                 </div>
-              </div>
-              
-              <DialogFooter>
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  onClick={() => {
-                    setIsDialogOpen(false);
-                    setEditingPatient(null);
-                    setFormData({
-                      name: '',
-                      date_of_birth: new Date(),
-                      gender: 'Laki-laki',
-                      phone: null,
-                      address: null,
-                      emergency_contact: null,
-                      medical_notes: null
-                    });
-                  }}
-                >
-                  Batal
-                </Button>
-                <Button type="submit" disabled={isLoading}>
-                  {isLoading ? 'Menyimpan...' : editingPatient ? 'Update' : 'Simpan'}
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                
+                <DialogFooter>
+                  <Button 
+                    type="button" 
+                    variant="outline" 
+                    onClick={() => {
+                      setIsDialogOpen(false);
+                      setEditingPatient(null);
+                      setFormData({
+                        name: '',
+                        date_of_birth: new Date(),
+                        gender: 'Laki-laki',
+                        phone: null,
+                        address: null,
+                        emergency_contact: null,
+                        medical_notes: null
+                      });
+                    }}
+                  >
+                    Batal
+                  </Button>
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? 'Menyimpan...' : editingPatient ? 'Update' : 'Simpan'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Search */}
@@ -307,11 +438,62 @@ export default function PatientManagement() {
         <CardContent>
           <div className="flex gap-2">
             <Input
-              placeholder="Cari berdasarkan nama..."
+              placeholder="Cari No. RM, nama, telepon, alamat pasien atau wali (nama/NIK/telepon)..."
               value={searchQuery}
               onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchQuery(e.target.value)}
               className="flex-1"
             />
+            <Select value={sort} onValueChange={(value: string) => { setSort(value); setOffset(0); }}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SORT_OPTIONS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 mt-3">
+            <Select value={filters.gender || 'all'} onValueChange={(value: string) => updateFilter('gender', value)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Semua jenis kelamin</SelectItem>
+                <SelectItem value="Laki-laki">Laki-laki</SelectItem>
+                <SelectItem value="Perempuan">Perempuan</SelectItem>
+              </SelectContent>
+            </Select>
+            <Label className="text-sm text-gray-600">Usia</Label>
+            <Input
+              type="number"
+              min="0"
+              placeholder="dari"
+              value={filters.age_min}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('age_min', e.target.value)}
+              className="w-20"
+            />
+            <span className="text-gray-500">–</span>
+            <Input
+              type="number"
+              min="0"
+              placeholder="sampai"
+              value={filters.age_max}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateFilter('age_max', e.target.value)}
+              className="w-20"
+            />
+            <span className="text-sm text-gray-600">tahun</span>
+            {currentUser.role === 'owner' && (
+              <label className="flex items-center gap-2 text-sm text-gray-600 ml-auto">
+                <input
+                  type="checkbox"
+                  checked={showArchived}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => { setShowArchived(e.target.checked); setOffset(0); }}
+                />
+                Tampilkan arsip
+              </label>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -358,6 +540,13 @@ export default function PatientManagement() {
                       <Badge variant="outline">
                         {calculateAge(patient.date_of_birth)} tahun
                       </Badge>
+                      {patient.archived_at && (
+                        <Badge variant="destructive">Diarsipkan</Badge>
+                      )}
+                    </div>
+
+                    <div className="text-sm font-mono text-gray-700">
+                      No. RM: {patient.medical_record_number ?? '—'}
                     </div>
                     
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-gray-600">
@@ -401,21 +590,137 @@ export default function PatientManagement() {
                     </div>
                   </div>
                   
-                  <Button 
-                    variant="outline" 
-                    size="sm"
-                    onClick={() => handleEdit(patient)}
-                    className="flex items-center gap-2"
-                  >
-                    <Edit className="h-4 w-4" />
-                    Edit
-                  </Button>
+                  <div className="flex flex-col gap-2">
+                    <Button 
+                      variant="outline" 
+                      size="sm"
+                      onClick={() => handleEdit(patient)}
+                      className="flex items-center gap-2"
+                    >
+                      <Edit className="h-4 w-4" />
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setGuardianPatient(patient)}
+                      className="flex items-center gap-2"
+                    >
+                      <Users className="h-4 w-4" />
+                      Wali
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setVisitsPatient(patient)}
+                      className="flex items-center gap-2"
+                    >
+                      <ClipboardList className="h-4 w-4" />
+                      Riwayat
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => printPatientCard(patient)}
+                      disabled={!patient.medical_record_number}
+                      className="flex items-center gap-2"
+                    >
+                      <IdCard className="h-4 w-4" />
+                      Kartu
+                    </Button>
+                    {currentUser.role === 'owner' && (patient.archived_at ? (
+                      <>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => restorePatient(patient)}
+                          className="flex items-center gap-2"
+                        >
+                          <ArchiveRestore className="h-4 w-4" />
+                          Pulihkan
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => deletePatient(patient)}
+                          className="flex items-center gap-2 text-red-600"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          Hapus
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => archivePatient(patient)}
+                        className="flex items-center gap-2"
+                      >
+                        <Archive className="h-4 w-4" />
+                        Arsipkan
+                      </Button>
+                    ))}
+                  </div>
                 </div>
               </CardContent>
             </Card>
           ))
         )}
       </div>
+
+      <PaginationControls offset={offset} limit={PAGE_SIZE} total={total} onOffsetChange={setOffset} disabled={isLoading} />
+
+      <Dialog open={guardianPatient !== null} onOpenChange={(open: boolean) => !open && setGuardianPatient(null)}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Orang Tua / Wali</DialogTitle>
+            <DialogDescription>
+              {guardianPatient?.name} — wali yang sama dapat dihubungkan ke beberapa pasien (saudara kandung)
+            </DialogDescription>
+          </DialogHeader>
+          {guardianPatient && <PatientGuardians patient={guardianPatient} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={visitsPatient !== null} onOpenChange={(open: boolean) => !open && setVisitsPatient(null)}>
+        <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Riwayat Kunjungan & Tindakan</DialogTitle>
+            <DialogDescription>{visitsPatient?.name}</DialogDescription>
+          </DialogHeader>
+          {visitsPatient && (
+            <PatientVisits
+              patient={visitsPatient}
+              currentUser={currentUser}
+              canEdit={CLINICAL_ROLES.includes(currentUser.role)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isDuplicatesOpen} onOpenChange={setIsDuplicatesOpen}>
+        <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Data Pasien Ganda</DialogTitle>
+            <DialogDescription>
+              Nama mirip dengan tanggal lahir atau nomor telepon yang sama; pilih data yang dipertahankan
+            </DialogDescription>
+          </DialogHeader>
+          {isDuplicatesOpen && <PatientDuplicates onMerged={() => loadPatients()} />}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isImportOpen} onOpenChange={setIsImportOpen}>
+        <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Impor Data Pasien</DialogTitle>
+            <DialogDescription>
+              Pindahkan data kartu pasien dari spreadsheet. Baris yang tidak valid atau duplikat (nama, tanggal lahir dan telepon sama) dilewati.
+            </DialogDescription>
+          </DialogHeader>
+          {isImportOpen && <PatientImportWizard onImported={() => loadPatients()} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,471 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { trpc } from '@/utils/trpc';
+import { Plus, Scissors, Edit, Clock, AlertTriangle } from 'lucide-react';
+import type {
+  Patient,
+  User,
+  PatientVisitWithProcedure,
+  CircumcisionMethod,
+  AnesthesiaType,
+  WoundHealingStatus,
+  FollowUpWithDetails
+} from '../../../server/src/schema';
+
+interface PatientVisitsProps {
+  patient: Patient;
+  currentUser: User;
+  canEdit: boolean;
+}
+
+const METHOD_LABELS: Record<CircumcisionMethod, string> = {
+  konvensional: 'Konvensional',
+  klamp: 'Klamp',
+  laser_electrocautery: 'Laser / Electrocautery',
+  stapler: 'Stapler'
+};
+
+const ANESTHESIA_LABELS: Record<AnesthesiaType, string> = {
+  lokal: 'Lokal (infiltrasi)',
+  blok_penis: 'Blok saraf dorsal penis',
+  topikal: 'Topikal (krim)',
+  umum: 'Umum'
+};
+
+const WOUND_HEALING_LABELS: Record<WoundHealingStatus, string> = {
+  baik: 'Baik',
+  bengkak: 'Bengkak',
+  infeksi: 'Infeksi',
+  perdarahan: 'Perdarahan',
+  jahitan_terbuka: 'Jahitan terbuka'
+};
+
+// Sentinel for "no selection" in the follow-up and wound-status selects
+const NONE = 'none';
+
+// yyyy-mm-ddThh:mm in local time, as used by <input type="datetime-local">
+const toDateTimeInput = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString('id-ID', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const durationMinutes = (start: Date, end: Date) => Math.round((end.getTime() - start.getTime()) / 60000);
+
+interface ProcedureForm {
+  method: CircumcisionMethod;
+  anesthesia_type: AnesthesiaType;
+  anesthesia_dose: string;
+  operator_name: string;
+  assistant_name: string;
+  start_time: string;
+  end_time: string;
+  blood_loss_ml: string;
+  complications: string;
+  post_op_instructions: string;
+}
+
+const emptyVisit = { diagnosis: '', treatment: '', notes: '', follow_up_id: NONE, wound_healing_status: NONE };
+
+export default function PatientVisits({ patient, currentUser, canEdit }: PatientVisitsProps) {
+  const [visits, setVisits] = useState<PatientVisitWithProcedure[]>([]);
+  const [editingVisitId, setEditingVisitId] = useState<number | null>(null);
+  const [procedureForm, setProcedureForm] = useState<ProcedureForm | null>(null);
+  const [isAddingVisit, setIsAddingVisit] = useState(false);
+  const [visitForm, setVisitForm] = useState(emptyVisit);
+  const [pendingFollowUps, setPendingFollowUps] = useState<FollowUpWithDetails[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadVisits = useCallback(async () => {
+    try {
+      const result = await trpc.getPatientVisits.query(patient.id);
+      setVisits(result);
+    } catch (error) {
+      console.error('Failed to load visits:', error);
+    }
+  }, [patient.id]);
+
+  useEffect(() => {
+    loadVisits();
+  }, [loadVisits]);
+
+  const loadFollowUps = useCallback(async () => {
+    try {
+      const result = await trpc.getDueFollowUps.query({ patient_id: patient.id, include_upcoming: true });
+      setPendingFollowUps(result);
+    } catch (error) {
+      console.error('Failed to load follow-ups:', error);
+    }
+  }, [patient.id]);
+
+  useEffect(() => {
+    if (canEdit) loadFollowUps();
+  }, [canEdit, loadFollowUps]);
+
+  const openProcedureForm = (visit: PatientVisitWithProcedure) => {
+    const procedure = visit.procedure;
+    const start = procedure?.start_time ?? new Date(visit.visit_date);
+    const end = procedure?.end_time ?? new Date(start.getTime() + 30 * 60000);
+
+    setEditingVisitId(visit.id);
+    setProcedureForm({
+      method: procedure?.method ?? 'konvensional',
+      anesthesia_type: procedure?.anesthesia_type ?? 'lokal',
+      anesthesia_dose: procedure?.anesthesia_dose ?? '',
+      operator_name: procedure?.operator_name ?? currentUser.full_name,
+      assistant_name: procedure?.assistant_name ?? '',
+      start_time: toDateTimeInput(start),
+      end_time: toDateTimeInput(end),
+      blood_loss_ml: procedure?.blood_loss_ml?.toString() ?? '',
+      complications: procedure?.complications ?? '',
+      post_op_instructions: procedure?.post_op_instructions ?? ''
+    });
+  };
+
+  const closeProcedureForm = () => {
+    setEditingVisitId(null);
+    setProcedureForm(null);
+  };
+
+  const handleSaveProcedure = async () => {
+    if (!procedureForm || editingVisitId === null) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.saveProcedureRecord.mutate({
+        visit_id: editingVisitId,
+        method: procedureForm.method,
+        anesthesia_type: procedureForm.anesthesia_type,
+        anesthesia_dose: procedureForm.anesthesia_dose || null,
+        operator_name: procedureForm.operator_name,
+        assistant_name: procedureForm.assistant_name || null,
+        start_time: new Date(procedureForm.start_time),
+        end_time: new Date(procedureForm.end_time),
+        blood_loss_ml: procedureForm.blood_loss_ml === '' ? null : parseInt(procedureForm.blood_loss_ml),
+        complications: procedureForm.complications || null,
+        post_op_instructions: procedureForm.post_op_instructions || null
+      });
+      closeProcedureForm();
+      await loadVisits();
+    } catch (error) {
+      console.error('Failed to save procedure record:', error);
+      alert('Gagal menyimpan catatan tindakan. Periksa kembali waktu mulai dan selesai.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddVisit = async () => {
+    setIsLoading(true);
+    try {
+      const visit = await trpc.createPatientVisit.mutate({
+        patient_id: patient.id,
+        transaction_id: null,
+        visit_date: new Date(),
+        diagnosis: visitForm.diagnosis || null,
+        treatment: visitForm.treatment || null,
+        notes: visitForm.notes || null,
+        wound_healing_status: visitForm.wound_healing_status === NONE ? null : visitForm.wound_healing_status as WoundHealingStatus,
+        follow_up_id: visitForm.follow_up_id === NONE ? undefined : parseInt(visitForm.follow_up_id)
+      });
+      const isControlVisit = visitForm.follow_up_id !== NONE;
+      setVisitForm(emptyVisit);
+      setIsAddingVisit(false);
+      await loadVisits();
+      if (isControlVisit) {
+        await loadFollowUps();
+      } else {
+        openProcedureForm({ ...visit, procedure: null });
+      }
+    } catch (error) {
+      console.error('Failed to create visit:', error);
+      alert('Gagal menambahkan kunjungan.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateProcedureForm = (changes: Partial<ProcedureForm>) =>
+    setProcedureForm((prev: ProcedureForm | null) => prev && { ...prev, ...changes });
+
+  return (
+    <div className="space-y-4">
+      {canEdit && (
+        isAddingVisit ? (
+          <div className="p-3 border rounded-lg space-y-3">
+            {pendingFollowUps.length > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>Kontrol Pasca Tindakan</Label>
+                  <Select
+                    value={visitForm.follow_up_id}
+                    onValueChange={(value: string) => setVisitForm(prev => ({ ...prev, follow_up_id: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Bukan kunjungan kontrol</SelectItem>
+                      {pendingFollowUps.map((followUp: FollowUpWithDetails) => (
+                        <SelectItem key={followUp.id} value={followUp.id.toString()}>
+                          Hari ke-{followUp.day_offset} ({followUp.due_date.toLocaleDateString('id-ID')})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Kondisi Luka</Label>
+                  <Select
+                    value={visitForm.wound_healing_status}
+                    onValueChange={(value: string) => setVisitForm(prev => ({ ...prev, wound_healing_status: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Tidak dinilai</SelectItem>
+                      {(Object.keys(WOUND_HEALING_LABELS) as WoundHealingStatus[]).map((status: WoundHealingStatus) => (
+                        <SelectItem key={status} value={status}>{WOUND_HEALING_LABELS[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="visit_diagnosis">Diagnosis</Label>
+              <Input
+                id="visit_diagnosis"
+                value={visitForm.diagnosis}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setVisitForm(prev => ({ ...prev, diagnosis: e.target.value }))}
+                placeholder="Contoh: Fimosis"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="visit_treatment">Tindakan</Label>
+              <Input
+                id="visit_treatment"
+                value={visitForm.treatment}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setVisitForm(prev => ({ ...prev, treatment: e.target.value }))}
+                placeholder="Contoh: Sirkumsisi"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="visit_notes">Catatan</Label>
+              <Textarea
+                id="visit_notes"
+                value={visitForm.notes}
+                onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setVisitForm(prev => ({ ...prev, notes: e.target.value }))}
+                rows={2}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setIsAddingVisit(false)}>
+                Batal
+              </Button>
+              <Button type="button" size="sm" onClick={handleAddVisit} disabled={isLoading}>
+                {isLoading ? 'Menyimpan...' : 'Simpan Kunjungan'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button type="button" variant="outline" size="sm" className="flex items-center gap-2" onClick={() => setIsAddingVisit(true)}>
+            <Plus className="h-4 w-4" />
+            Tambah Kunjungan
+          </Button>
+        )
+      )}
+
+      {visits.length === 0 ? (
+        <p className="text-sm text-gray-500">Belum ada riwayat kunjungan</p>
+      ) : (
+        <div className="space-y-3">
+          {visits.map((visit: PatientVisitWithProcedure) => (
+            <div key={visit.id} className="p-3 border rounded-lg space-y-2">
+              <div className="flex justify-between items-start">
+                <div>
+                  <p className="font-medium">{formatDateTime(visit.visit_date)}</p>
+                  {visit.diagnosis && <p className="text-sm text-gray-600">Diagnosis: {visit.diagnosis}</p>}
+                  {visit.treatment && <p className="text-sm text-gray-600">Tindakan: {visit.treatment}</p>}
+                  {visit.wound_healing_status && (
+                    <Badge variant={visit.wound_healing_status === 'baik' ? 'secondary' : 'destructive'} className="mt-1">
+                      Luka: {WOUND_HEALING_LABELS[visit.wound_healing_status]}
+                    </Badge>
+                  )}
+                  {visit.notes && <p className="text-xs text-gray-500">{visit.notes}</p>}
+                </div>
+                {canEdit && editingVisitId !== visit.id && (
+                  <Button size="sm" variant="outline" className="flex items-center gap-1" onClick={() => openProcedureForm(visit)}>
+                    {visit.procedure ? <Edit className="h-3 w-3" /> : <Scissors className="h-3 w-3" />}
+                    {visit.procedure ? 'Edit Tindakan' : 'Catat Tindakan'}
+                  </Button>
+                )}
+              </div>
+
+              {visit.procedure && editingVisitId !== visit.id && (
+                <div className="bg-gray-50 rounded p-2 text-sm space-y-1">
+                  <div className="flex flex-wrap gap-2">
+                    <Badge>{METHOD_LABELS[visit.procedure.method]}</Badge>
+                    <Badge variant="outline">{ANESTHESIA_LABELS[visit.procedure.anesthesia_type]}</Badge>
+                    {visit.procedure.complications && (
+                      <Badge variant="destructive" className="flex items-center gap-1">
+                        <AlertTriangle className="h-3 w-3" />
+                        Komplikasi
+                      </Badge>
+                    )}
+                  </div>
+                  <p>
+                    Operator: {visit.procedure.operator_name}
+                    {visit.procedure.assistant_name && ` • Asisten: ${visit.procedure.assistant_name}`}
+                  </p>
+                  <p className="flex items-center gap-1 text-gray-600">
+                    <Clock className="h-3 w-3" />
+                    {formatDateTime(visit.procedure.start_time)} ({durationMinutes(visit.procedure.start_time, visit.procedure.end_time)} menit)
+                    {visit.procedure.blood_loss_ml !== null && ` • Perdarahan ${visit.procedure.blood_loss_ml} ml`}
+                  </p>
+                  {visit.procedure.anesthesia_dose && <p className="text-gray-600">Dosis anestesi: {visit.procedure.anesthesia_dose}</p>}
+                  {visit.procedure.complications && <p className="text-red-600">Komplikasi: {visit.procedure.complications}</p>}
+                  {visit.procedure.post_op_instructions && (
+                    <p className="text-gray-600">Instruksi pasca tindakan: {visit.procedure.post_op_instructions}</p>
+                  )}
+                </div>
+              )}
+
+              {editingVisitId === visit.id && procedureForm && (
+                <div className="bg-gray-50 rounded p-3 space-y-3">
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label>Metode *</Label>
+                      <Select
+                        value={procedureForm.method}
+                        onValueChange={(value: CircumcisionMethod) => updateProcedureForm({ method: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(METHOD_LABELS) as CircumcisionMethod[]).map((method: CircumcisionMethod) => (
+                            <SelectItem key={method} value={method}>{METHOD_LABELS[method]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Anestesi *</Label>
+                      <Select
+                        value={procedureForm.anesthesia_type}
+                        onValueChange={(value: AnesthesiaType) => updateProcedureForm({ anesthesia_type: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(ANESTHESIA_LABELS) as AnesthesiaType[]).map((type: AnesthesiaType) => (
+                            <SelectItem key={type} value={type}>{ANESTHESIA_LABELS[type]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="anesthesia_dose">Obat & Dosis Anestesi</Label>
+                      <Input
+                        id="anesthesia_dose"
+                        value={procedureForm.anesthesia_dose}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateProcedureForm({ anesthesia_dose: e.target.value })}
+                        placeholder="Contoh: Lidocaine 2% 4 ml"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="blood_loss_ml">Perdarahan (ml)</Label>
+                      <Input
+                        id="blood_loss_ml"
+                        type="number"
+                        min="0"
+                        value={procedureForm.blood_loss_ml}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateProcedureForm({ blood_loss_ml: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="operator_name">Operator *</Label>
+                      <Input
+                        id="operator_name"
+                        value={procedureForm.operator_name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateProcedureForm({ operator_name: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="assistant_name">Asisten</Label>
+                      <Input
+                        id="assistant_name"
+                        value={procedureForm.assistant_name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateProcedureForm({ assistant_name: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="start_time">Mulai *</Label>
+                      <Input
+                        id="start_time"
+                        type="datetime-local"
+                        value={procedureForm.start_time}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateProcedureForm({ start_time: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="end_time">Selesai *</Label>
+                      <Input
+                        id="end_time"
+                        type="datetime-local"
+                        value={procedureForm.end_time}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateProcedureForm({ end_time: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="complications">Komplikasi</Label>
+                    <Textarea
+                      id="complications"
+                      value={procedureForm.complications}
+                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateProcedureForm({ complications: e.target.value })}
+                      placeholder="Kosongkan jika tidak ada komplikasi"
+                      rows={2}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="post_op_instructions">Instruksi Pasca Tindakan</Label>
+                    <Textarea
+                      id="post_op_instructions"
+                      value={procedureForm.post_op_instructions}
+                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => updateProcedureForm({ post_op_instructions: e.target.value })}
+                      rows={2}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button type="button" variant="outline" size="sm" onClick={closeProcedureForm}>
+                      Batal
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={handleSaveProcedure}
+                      disabled={isLoading || !procedureForm.operator_name || !procedureForm.start_time || !procedureForm.end_time}
+                    >
+                      {isLoading ? 'Menyimpan...' : 'Simpan Tindakan'}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { Plus, TicketPercent } from 'lucide-react';
+import type { Promotion, PromotionDiscountType, PromotionScope, Service } from '../../../server/src/schema';
+
+interface PromotionForm {
+  code: string;
+  name: string;
+  discount_type: PromotionDiscountType;
+  discount_value: string;
+  scope: PromotionScope;
+  service_id: string;
+  valid_from: string;
+  valid_until: string;
+  usage_limit: string;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyForm = (): PromotionForm => ({
+  code: '',
+  name: '',
+  discount_type: 'percentage',
+  discount_value: '',
+  scope: 'bill',
+  service_id: '',
+  valid_from: today(),
+  valid_until: today(),
+  usage_limit: ''
+});
+
+const formatDate = (date: Date) => date.toLocaleDateString('id-ID');
+
+const formatDiscount = (promotion: Pick<Promotion, 'discount_type' | 'discount_value'>) =>
+  promotion.discount_type === 'percentage'
+    ? `${promotion.discount_value}%`
+    : `Rp ${promotion.discount_value.toLocaleString('id-ID')}`;
+
+// Promo codes redeemed at the cashier, e.g. for school holidays or mass-circumcision days
+export default function PromotionManagement() {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [services, setServices] = useState<Service[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<PromotionForm>(emptyForm);
+
+  const loadPromotions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [promotionList, serviceList] = await Promise.all([
+        trpc.getPromotions.query({ limit: 200 }),
+        trpc.getServices.query({ limit: 200, active_only: true })
+      ]);
+      setPromotions(promotionList.items);
+      setServices(serviceList.items);
+    } catch (error) {
+      console.error('Failed to load promotions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPromotions();
+  }, [loadPromotions]);
+
+  const serviceName = (serviceId: number | null) =>
+    services.find((service: Service) => service.id === serviceId)?.name ?? `Layanan #${serviceId}`;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const response = await trpc.createPromotion.mutate({
+        code: formData.code,
+        name: formData.name,
+        discount_type: formData.discount_type,
+        discount_value: parseFloat(formData.discount_value) || 0,
+        scope: formData.scope,
+        service_id: formData.scope === 'service' && formData.service_id ? parseInt(formData.service_id) : null,
+        valid_from: new Date(formData.valid_from),
+        valid_until: new Date(formData.valid_until),
+        usage_limit: formData.usage_limit ? parseInt(formData.usage_limit) : null,
+        is_active: true
+      });
+      setPromotions((prev: Promotion[]) => [response, ...prev]);
+      setFormData(emptyForm());
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Failed to create promotion:', error);
+      alert(error instanceof Error ? error.message : 'Gagal membuat promo');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleActive = async (promotion: Promotion) => {
+    try {
+      const response = await trpc.updatePromotion.mutate({ id: promotion.id, is_active: !promotion.is_active });
+      setPromotions((prev: Promotion[]) => prev.map(item => item.id === response.id ? response : item));
+    } catch (error) {
+      console.error('Failed to update promotion:', error);
+      alert('Gagal memperbarui promo.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <TicketPercent className="h-5 w-5" />
+              Promo & Diskon
+            </CardTitle>
+            <CardDescription>
+              Kode promo yang dimasukkan kasir saat transaksi, dengan masa berlaku dan kuota pemakaian
+            </CardDescription>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" className="flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                Tambah Promo
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <form onSubmit={handleSubmit}>
+                <DialogHeader>
+                  <DialogTitle>Tambah Promo</DialogTitle>
+                  <DialogDescription>Diskon persentase atau nominal, untuk satu layanan atau seluruh tagihan</DialogDescription>
+                </DialogHeader>
+
+                <div className="grid gap-4 py-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="promo_code">Kode *</Label>
+                      <Input
+                        id="promo_code"
+                        value={formData.code}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: PromotionForm) => ({ ...prev, code: e.target.value.toUpperCase() }))
+                        }
+                        placeholder="LIBURSEKOLAH"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="promo_name">Nama *</Label>
+                      <Input
+                        id="promo_name"
+                        value={formData.name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: PromotionForm) => ({ ...prev, name: e.target.value }))
+                        }
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Jenis Diskon</Label>
+                      <Select
+                        value={formData.discount_type || 'percentage'}
+                        onValueChange={(value: PromotionDiscountType) =>
+                          setFormData((prev: PromotionForm) => ({ ...prev, discount_type: value }))
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="percentage">Persentase (%)</SelectItem>
+                          <SelectItem value="fixed">Nominal (Rp)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="promo_value">Nilai *</Label>
+                      <Input
+                        id="promo_value"
+                        type="number"
+                        min="0"
+                        max={formData.discount_type === 'percentage' ? 100 : undefined}
+                        value={formData.discount_value}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: PromotionForm) => ({ ...prev, discount_value: e.target.value }))
+                        }
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Berlaku Untuk</Label>
+                      <Select
+                        value={formData.scope || 'bill'}
+                        onValueChange={(value: PromotionScope) =>
+                          setFormData((prev: PromotionForm) => ({ ...prev, scope: value }))
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="bill">Seluruh tagihan</SelectItem>
+                          <SelectItem value="service">Satu layanan</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {formData.scope === 'service' && (
+                      <div className="space-y-2">
+                        <Label>Layanan *</Label>
+                        <Select
+                          value={formData.service_id || 'none'}
+                          onValueChange={(value: string) =>
+                            setFormData((prev: PromotionForm) => ({ ...prev, service_id: value === 'none' ? '' : value }))
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">Pilih layanan</SelectItem>
+                            {services.map((service: Service) => (
+                              <SelectItem key={service.id} value={service.id.toString()}>{service.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="promo_from">Mulai *</Label>
+                      <Input
+                        id="promo_from"
+                        type="date"
+                        value={formData.valid_from}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: PromotionForm) => ({ ...prev, valid_from: e.target.value }))
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="promo_until">Berakhir *</Label>
+                      <Input
+                        id="promo_until"
+                        type="date"
+                        value={formData.valid_until}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: PromotionForm) => ({ ...prev, valid_until: e.target.value }))
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="promo_limit">Kuota</Label>
+                      <Input
+                        id="promo_limit"
+                        type="number"
+                        min="1"
+                        value={formData.usage_limit}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: PromotionForm) => ({ ...prev, usage_limit: e.target.value }))
+                        }
+                        placeholder="Tanpa batas"
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Batal
+                  </Button>
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? 'Menyimpan...' : 'Simpan'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {promotions.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">
+            {isLoading ? 'Memuat promo...' : 'Belum ada promo'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {promotions.map((promotion: Promotion) => (
+              <div key={promotion.id} className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 p-3 border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono font-medium">{promotion.code}</span>
+                    <Badge variant="secondary">{formatDiscount(promotion)}</Badge>
+                    {!promotion.is_active && <Badge variant="destructive">Nonaktif</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {promotion.name} · {promotion.scope === 'bill' ? 'Seluruh tagihan' : serviceName(promotion.service_id)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDate(promotion.valid_from)} - {formatDate(promotion.valid_until)} · Dipakai {promotion.usage_count}
+                    {promotion.usage_limit !== null && ` / ${promotion.usage_limit}`} kali
+                  </p>
+                </div>
+                <Button
+                  variant={promotion.is_active ? 'destructive' : 'secondary'}
+                  size="sm"
+                  onClick={() => toggleActive(promotion)}
+                >
+                  {promotion.is_active ? 'Nonaktifkan' : 'Aktifkan'}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,738 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { ClipboardList, PackageCheck, Plus, ShoppingCart, Truck, X } from 'lucide-react';
+import type {
+  Medicine,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  ReorderSuggestionGroup,
+  ReorderSuggestionItem,
+  ReorderSuggestions,
+  Supplier
+} from '../../../server/src/schema';
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  ordered: 'Dipesan',
+  partially_received: 'Diterima Sebagian',
+  received: 'Diterima',
+  cancelled: 'Dibatalkan'
+};
+
+const STATUS_VARIANTS: Record<PurchaseOrderStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  ordered: 'outline',
+  partially_received: 'secondary',
+  received: 'default',
+  cancelled: 'destructive'
+};
+
+const formatMoney = (value: number) => `Rp ${value.toLocaleString('id-ID')}`;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+interface SupplierForm {
+  name: string;
+  contact_person: string;
+  phone: string;
+  address: string;
+}
+
+const emptySupplierForm = (): SupplierForm => ({ name: '', contact_person: '', phone: '', address: '' });
+
+interface OrderLineForm {
+  medicine_id: string;
+  quantity: string;
+  expected_price: string;
+}
+
+interface OrderForm {
+  supplier_id: string;
+  order_date: string;
+  expected_date: string;
+  notes: string;
+  items: OrderLineForm[];
+}
+
+const emptyOrderLine = (): OrderLineForm => ({ medicine_id: '', quantity: '', expected_price: '' });
+
+const emptyOrderForm = (): OrderForm => ({
+  supplier_id: '',
+  order_date: today(),
+  expected_date: '',
+  notes: '',
+  items: [emptyOrderLine()]
+});
+
+interface ReceiveLineForm {
+  purchase_order_item_id: number;
+  medicine_name: string;
+  outstanding: number;
+  quantity: string;
+  unit_cost: string;
+  lot_number: string;
+  expiry_date: string;
+}
+
+interface ReceiveForm {
+  invoice_number: string;
+  items: ReceiveLineForm[];
+}
+
+interface PurchasingPanelProps {
+  medicines: Medicine[];
+  onGoodsReceived: () => void;
+}
+
+// Suppliers, purchase orders and the goods receipts that bring ordered medicines into stock
+export default function PurchasingPanel({ medicines, onGoodsReceived }: PurchasingPanelProps) {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suggestions, setSuggestions] = useState<ReorderSuggestions | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSupplierDialogOpen, setIsSupplierDialogOpen] = useState(false);
+  const [supplierForm, setSupplierForm] = useState<SupplierForm>(emptySupplierForm);
+  const [isOrderDialogOpen, setIsOrderDialogOpen] = useState(false);
+  const [orderForm, setOrderForm] = useState<OrderForm>(emptyOrderForm);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [receiveForm, setReceiveForm] = useState<ReceiveForm>({ invoice_number: '', items: [] });
+
+  const loadPurchasing = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [supplierList, orderList, suggestionList] = await Promise.all([
+        trpc.getSuppliers.query({ limit: 200 }),
+        trpc.getPurchaseOrders.query({ limit: 50, offset: 0 }),
+        trpc.getReorderSuggestions.query({})
+      ]);
+      setSuppliers(supplierList.items);
+      setOrders(orderList.items);
+      setSuggestions(suggestionList);
+    } catch (error) {
+      console.error('Failed to load purchasing:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPurchasing();
+  }, [loadPurchasing]);
+
+  const loadSuggestions = async () => {
+    try {
+      setSuggestions(await trpc.getReorderSuggestions.query({}));
+    } catch (error) {
+      console.error('Failed to load reorder suggestions:', error);
+    }
+  };
+
+  const replaceOrder = (order: PurchaseOrder) =>
+    setOrders((prev: PurchaseOrder[]) => prev.map(item => item.id === order.id ? order : item));
+
+  const handleCreateSupplier = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const response = await trpc.createSupplier.mutate({
+        name: supplierForm.name,
+        contact_person: supplierForm.contact_person || null,
+        phone: supplierForm.phone || null,
+        address: supplierForm.address || null,
+        notes: null,
+        is_active: true
+      });
+      setSuppliers((prev: Supplier[]) => [...prev, response].sort((a, b) => a.name.localeCompare(b.name)));
+      setSupplierForm(emptySupplierForm());
+      setIsSupplierDialogOpen(false);
+    } catch (error) {
+      console.error('Failed to create supplier:', error);
+      alert(error instanceof Error ? error.message : 'Gagal menambah supplier');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleSupplier = async (supplier: Supplier) => {
+    try {
+      const response = await trpc.updateSupplier.mutate({ id: supplier.id, is_active: !supplier.is_active });
+      setSuppliers((prev: Supplier[]) => prev.map(item => item.id === response.id ? response : item));
+    } catch (error) {
+      console.error('Failed to update supplier:', error);
+      alert('Gagal memperbarui supplier.');
+    }
+  };
+
+  const updateOrderLine = (index: number, changes: Partial<OrderLineForm>) =>
+    setOrderForm((prev: OrderForm) => ({
+      ...prev,
+      items: prev.items.map((item, itemIndex) => itemIndex === index ? { ...item, ...changes } : item)
+    }));
+
+  const handleCreateOrder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!orderForm.supplier_id) {
+      alert('Pilih supplier terlebih dahulu');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await trpc.createPurchaseOrder.mutate({
+        supplier_id: parseInt(orderForm.supplier_id),
+        order_date: new Date(orderForm.order_date),
+        expected_date: orderForm.expected_date ? new Date(orderForm.expected_date) : null,
+        notes: orderForm.notes || null,
+        items: orderForm.items
+          .filter(item => item.medicine_id)
+          .map(item => ({
+            medicine_id: parseInt(item.medicine_id),
+            quantity: parseInt(item.quantity) || 0,
+            expected_price: parseFloat(item.expected_price) || 0
+          }))
+      });
+      setOrders((prev: PurchaseOrder[]) => [response, ...prev]);
+      setOrderForm(emptyOrderForm());
+      setIsOrderDialogOpen(false);
+      loadSuggestions();
+    } catch (error) {
+      console.error('Failed to create purchase order:', error);
+      alert(error instanceof Error ? error.message : 'Gagal membuat pesanan');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelOrder = async (order: PurchaseOrder) => {
+    if (!confirm(`Batalkan pesanan #${order.id}?`)) return;
+
+    try {
+      replaceOrder(await trpc.cancelPurchaseOrder.mutate(order.id));
+      loadSuggestions();
+    } catch (error) {
+      console.error('Failed to cancel purchase order:', error);
+      alert(error instanceof Error ? error.message : 'Gagal membatalkan pesanan');
+    }
+  };
+
+  const openReceiveDialog = (order: PurchaseOrder) => {
+    setReceivingOrder(order);
+    setReceiveForm({
+      invoice_number: '',
+      items: order.items
+        .filter(item => item.quantity_received < item.quantity_ordered)
+        .map(item => ({
+          purchase_order_item_id: item.id,
+          medicine_name: item.medicine_name,
+          outstanding: item.quantity_ordered - item.quantity_received,
+          quantity: (item.quantity_ordered - item.quantity_received).toString(),
+          unit_cost: item.expected_price.toString(),
+          lot_number: '',
+          expiry_date: ''
+        }))
+    });
+  };
+
+  const updateReceiveLine = (index: number, changes: Partial<ReceiveLineForm>) =>
+    setReceiveForm((prev: ReceiveForm) => ({
+      ...prev,
+      items: prev.items.map((item, itemIndex) => itemIndex === index ? { ...item, ...changes } : item)
+    }));
+
+  const handleReceive = async () => {
+    if (!receivingOrder) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.receiveGoods.mutate({
+        purchase_order_id: receivingOrder.id,
+        invoice_number: receiveForm.invoice_number || null,
+        items: receiveForm.items
+          .filter(item => (parseInt(item.quantity) || 0) > 0)
+          .map(item => ({
+            purchase_order_item_id: item.purchase_order_item_id,
+            quantity: parseInt(item.quantity),
+            unit_cost: parseFloat(item.unit_cost) || 0,
+            lot_number: item.lot_number || null,
+            expiry_date: item.expiry_date ? new Date(item.expiry_date) : null
+          }))
+      });
+      replaceOrder(await trpc.getPurchaseOrderById.query(receivingOrder.id));
+      setReceivingOrder(null);
+      onGoodsReceived();
+      loadSuggestions();
+    } catch (error) {
+      console.error('Failed to receive goods:', error);
+      alert(error instanceof Error ? error.message : 'Gagal menerima barang');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Open the order dialog filled in with a supplier's suggestions, to review before sending
+  const orderFromSuggestions = (group: ReorderSuggestionGroup) => {
+    setOrderForm({
+      ...emptyOrderForm(),
+      supplier_id: group.supplier_id?.toString() ?? '',
+      notes: 'Dari saran pemesanan ulang',
+      items: group.items.map(item => ({
+        medicine_id: item.medicine_id.toString(),
+        quantity: item.suggested_quantity.toString(),
+        expected_price: item.expected_price?.toString() ?? ''
+      }))
+    });
+    setIsOrderDialogOpen(true);
+  };
+
+  const activeSuppliers = suppliers.filter(supplier => supplier.is_active);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Truck className="h-5 w-5" />
+                Supplier
+              </CardTitle>
+              <CardDescription>Pemasok obat untuk pesanan pembelian</CardDescription>
+            </div>
+            <Button size="sm" className="flex items-center gap-2" onClick={() => setIsSupplierDialogOpen(true)}>
+              <Plus className="h-4 w-4" />
+              Tambah Supplier
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {suppliers.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">
+              {isLoading ? 'Memuat supplier...' : 'Belum ada supplier'}
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {suppliers.map((supplier: Supplier) => (
+                <div key={supplier.id} className="flex justify-between items-center p-3 border rounded-lg">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{supplier.name}</span>
+                      {!supplier.is_active && <Badge variant="destructive">Nonaktif</Badge>}
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {[supplier.contact_person, supplier.phone].filter(Boolean).join(' · ') || '-'}
+                    </p>
+                  </div>
+                  <Button
+                    variant={supplier.is_active ? 'destructive' : 'secondary'}
+                    size="sm"
+                    onClick={() => toggleSupplier(supplier)}
+                  >
+                    {supplier.is_active ? 'Nonaktifkan' : 'Aktifkan'}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Saran Pemesanan Ulang
+          </CardTitle>
+          <CardDescription>
+            {suggestions
+              ? `Obat yang habis dalam ${suggestions.threshold_days} hari menurut pemakaian ${suggestions.lookback_days} hari terakhir, dipesan untuk ${suggestions.cover_days} hari`
+              : 'Menghitung pemakaian obat...'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!suggestions || suggestions.groups.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">
+              {suggestions ? 'Stok semua obat masih mencukupi' : 'Memuat saran...'}
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {suggestions.groups.map((group: ReorderSuggestionGroup) => (
+                <div key={group.supplier_id ?? 'none'} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <p className="font-medium">{group.supplier_name ?? 'Supplier belum diketahui'}</p>
+                      <p className="text-sm text-gray-500">
+                        {group.items.length} obat · perkiraan {formatMoney(group.estimated_total)}
+                      </p>
+                    </div>
+                    <Button size="sm" onClick={() => orderFromSuggestions(group)} disabled={activeSuppliers.length === 0}>
+                      Jadikan Pesanan
+                    </Button>
+                  </div>
+                  {group.items.map((item: ReorderSuggestionItem) => (
+                    <div key={item.medicine_id} className="flex justify-between text-sm">
+                      <span>
+                        {item.medicine_name}
+                        <span className="text-gray-500">
+                          {' '}· stok {item.stock_quantity} {item.unit}
+                          {item.on_order > 0 && ` · dipesan ${item.on_order}`}
+                          {' '}· {item.days_of_cover !== null ? `cukup ${item.days_of_cover} hari` : 'tidak ada pemakaian'}
+                        </span>
+                      </span>
+                      <span className="font-medium">Pesan {item.suggested_quantity} {item.unit}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <ShoppingCart className="h-5 w-5" />
+                Pesanan Pembelian
+              </CardTitle>
+              <CardDescription>Barang yang diterima langsung masuk ke stok dengan harga belinya</CardDescription>
+            </div>
+            <Button
+              size="sm"
+              className="flex items-center gap-2"
+              onClick={() => setIsOrderDialogOpen(true)}
+              disabled={activeSuppliers.length === 0}
+            >
+              <Plus className="h-4 w-4" />
+              Buat Pesanan
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {orders.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">
+              {isLoading ? 'Memuat pesanan...' : 'Belum ada pesanan pembelian'}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {orders.map((order: PurchaseOrder) => (
+                <div key={order.id} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">#{order.id} · {order.supplier_name}</span>
+                        <Badge variant={STATUS_VARIANTS[order.status]}>{STATUS_LABELS[order.status]}</Badge>
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        Dipesan {order.order_date.toLocaleDateString('id-ID')}
+                        {order.expected_date && ` · estimasi tiba ${order.expected_date.toLocaleDateString('id-ID')}`}
+                        {` · ${formatMoney(order.expected_total)}`}
+                        {order.received_cost > 0 && ` · dibayar ${formatMoney(order.received_cost)}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      {(order.status === 'ordered' || order.status === 'partially_received') && (
+                        <Button size="sm" onClick={() => openReceiveDialog(order)}>
+                          <PackageCheck className="h-4 w-4 mr-1" />
+                          Terima Barang
+                        </Button>
+                      )}
+                      {order.status === 'ordered' && (
+                        <Button size="sm" variant="outline" onClick={() => handleCancelOrder(order)}>
+                          Batalkan
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="text-sm space-y-1">
+                    {order.items.map(item => (
+                      <div key={item.id} className="flex justify-between">
+                        <span>{item.medicine_name}</span>
+                        <span className="text-gray-600">
+                          {item.quantity_received}/{item.quantity_ordered} {item.unit} @ {formatMoney(item.expected_price)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isSupplierDialogOpen} onOpenChange={setIsSupplierDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleCreateSupplier}>
+            <DialogHeader>
+              <DialogTitle>Tambah Supplier</DialogTitle>
+              <DialogDescription>Data pemasok untuk pesanan pembelian obat</DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="supplier_name">Nama *</Label>
+                <Input
+                  id="supplier_name"
+                  value={supplierForm.name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setSupplierForm((prev: SupplierForm) => ({ ...prev, name: e.target.value }))
+                  }
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="supplier_contact">Kontak</Label>
+                  <Input
+                    id="supplier_contact"
+                    value={supplierForm.contact_person}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setSupplierForm((prev: SupplierForm) => ({ ...prev, contact_person: e.target.value }))
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="supplier_phone">Telepon</Label>
+                  <Input
+                    id="supplier_phone"
+                    value={supplierForm.phone}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setSupplierForm((prev: SupplierForm) => ({ ...prev, phone: e.target.value }))
+                    }
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier_address">Alamat</Label>
+                <Input
+                  id="supplier_address"
+                  value={supplierForm.address}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setSupplierForm((prev: SupplierForm) => ({ ...prev, address: e.target.value }))
+                  }
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsSupplierDialogOpen(false)}>
+                Batal
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Menyimpan...' : 'Simpan'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isOrderDialogOpen} onOpenChange={setIsOrderDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <form onSubmit={handleCreateOrder}>
+            <DialogHeader>
+              <DialogTitle>Buat Pesanan Pembelian</DialogTitle>
+              <DialogDescription>Harga perkiraan dipakai sebagai harga beli bila tidak diubah saat penerimaan</DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Supplier *</Label>
+                  <Select
+                    value={orderForm.supplier_id || 'none'}
+                    onValueChange={(value: string) =>
+                      setOrderForm((prev: OrderForm) => ({ ...prev, supplier_id: value === 'none' ? '' : value }))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Pilih supplier</SelectItem>
+                      {activeSuppliers.map((supplier: Supplier) => (
+                        <SelectItem key={supplier.id} value={supplier.id.toString()}>{supplier.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="order_date">Tanggal Pesan *</Label>
+                  <Input
+                    id="order_date"
+                    type="date"
+                    value={orderForm.order_date}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setOrderForm((prev: OrderForm) => ({ ...prev, order_date: e.target.value }))
+                    }
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expected_date">Estimasi Tiba</Label>
+                  <Input
+                    id="expected_date"
+                    type="date"
+                    value={orderForm.expected_date}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setOrderForm((prev: OrderForm) => ({ ...prev, expected_date: e.target.value }))
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Obat Dipesan *</Label>
+                {orderForm.items.map((item: OrderLineForm, index: number) => (
+                  <div key={index} className="flex gap-2">
+                    <Select
+                      value={item.medicine_id || 'none'}
+                      onValueChange={(value: string) => updateOrderLine(index, { medicine_id: value === 'none' ? '' : value })}
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Pilih obat</SelectItem>
+                        {medicines.map((medicine: Medicine) => (
+                          <SelectItem key={medicine.id} value={medicine.id.toString()}>{medicine.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="1"
+                      className="w-24"
+                      placeholder="Jumlah"
+                      value={item.quantity}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateOrderLine(index, { quantity: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      className="w-32"
+                      placeholder="Harga/unit"
+                      value={item.expected_price}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateOrderLine(index, { expected_price: e.target.value })}
+                    />
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setOrderForm((prev: OrderForm) => ({
+                        ...prev,
+                        items: prev.items.filter((_, itemIndex) => itemIndex !== index)
+                      }))}
+                      disabled={orderForm.items.length === 1}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setOrderForm((prev: OrderForm) => ({ ...prev, items: [...prev.items, emptyOrderLine()] }))}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Tambah Obat
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="order_notes">Catatan</Label>
+                <Input
+                  id="order_notes"
+                  value={orderForm.notes}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setOrderForm((prev: OrderForm) => ({ ...prev, notes: e.target.value }))
+                  }
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsOrderDialogOpen(false)}>
+                Batal
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? 'Menyimpan...' : 'Simpan Pesanan'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={receivingOrder !== null} onOpenChange={(open: boolean) => { if (!open) setReceivingOrder(null); }}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Terima Barang Pesanan #{receivingOrder?.id}</DialogTitle>
+            <DialogDescription>Isi jumlah yang benar-benar datang; sisanya tetap menunggu pengiriman berikutnya</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="invoice_number">No. Faktur</Label>
+            <Input
+              id="invoice_number"
+              value={receiveForm.invoice_number}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setReceiveForm((prev: ReceiveForm) => ({ ...prev, invoice_number: e.target.value }))
+              }
+            />
+          </div>
+
+          <div className="space-y-3">
+            {receiveForm.items.map((item: ReceiveLineForm, index: number) => (
+              <div key={item.purchase_order_item_id} className="border rounded-lg p-3 space-y-2">
+                <p className="font-medium text-sm">{item.medicine_name} <span className="text-gray-500">(sisa {item.outstanding})</span></p>
+                <div className="grid grid-cols-4 gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    max={item.outstanding}
+                    placeholder="Jumlah"
+                    value={item.quantity}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateReceiveLine(index, { quantity: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    placeholder="Harga beli/unit"
+                    value={item.unit_cost}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateReceiveLine(index, { unit_cost: e.target.value })}
+                  />
+                  <Input
+                    placeholder="No. Lot"
+                    value={item.lot_number}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateReceiveLine(index, { lot_number: e.target.value })}
+                  />
+                  <Input
+                    type="date"
+                    value={item.expiry_date}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateReceiveLine(index, { expiry_date: e.target.value })}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReceivingOrder(null)}>
+              Batal
+            </Button>
+            <Button onClick={handleReceive} disabled={isLoading}>
+              {isLoading ? 'Menyimpan...' : 'Terima Barang'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
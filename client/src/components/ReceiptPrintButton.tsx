@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { trpc } from '@/utils/trpc';
+import { downloadFile, printHtmlFile } from '@/lib/download';
+import { Printer } from 'lucide-react';
+import type { ReceiptFileInput } from '../../../server/src/schema';
+
+interface ReceiptPrintButtonProps {
+  transactionId: number;
+  label?: string;
+  size?: 'sm' | 'default';
+  onPrinted?: () => void;
+}
+
+// Receipt in the paper width from settings: printed from the browser, or downloaded for a thermal printer
+export default function ReceiptPrintButton({ transactionId, label, size = 'default', onPrinted }: ReceiptPrintButtonProps) {
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  const printReceipt = async (format: ReceiptFileInput['format']) => {
+    setIsPrinting(true);
+    try {
+      const file = await trpc.generateReceiptFile.query({ transaction_id: transactionId, format });
+      if (format === 'html') {
+        printHtmlFile(file);
+      } else {
+        downloadFile(file);
+      }
+      onPrinted?.();
+    } catch (error) {
+      console.error('Failed to generate receipt:', error);
+      alert(error instanceof Error ? error.message : 'Gagal membuat struk');
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size={size} variant={label ? 'default' : 'outline'} disabled={isPrinting}>
+          <Printer className={label ? 'h-4 w-4 mr-2' : 'h-4 w-4'} />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => printReceipt('html')}>
+          Cetak dari browser
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => printReceipt('pdf')}>
+          Unduh PDF
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => printReceipt('escpos')}>
+          Unduh ESC/POS (printer thermal)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { Undo2 } from 'lucide-react';
+import type { CreateRefundInput, RefundableItem, Transaction } from '../../../server/src/schema';
+
+interface RefundDialogProps {
+  transaction: Transaction | null;
+  onClose: () => void;
+  onRefunded: () => void;
+}
+
+type RefundMethod = CreateRefundInput['refund_method'];
+
+const itemKey = (item: RefundableItem) => `${item.item_type}-${item.transaction_item_id}`;
+
+// Credit note for a transaction: a full refund, or selected quantities of its lines
+export default function RefundDialog({ transaction, onClose, onRefunded }: RefundDialogProps) {
+  const [items, setItems] = useState<RefundableItem[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [isFullRefund, setIsFullRefund] = useState(true);
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>('tunai');
+  const [reason, setReason] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!transaction) return;
+    setQuantities({});
+    setIsFullRefund(true);
+    setRefundMethod(transaction.payment_method);
+    setReason('');
+    trpc.getRefundableItems.query(transaction.id)
+      .then(setItems)
+      .catch((error: unknown) => console.error('Failed to load refundable items:', error));
+  }, [transaction]);
+
+  const selectedItems = items
+    .map(item => ({ item, quantity: parseInt(quantities[itemKey(item)] || '0') || 0 }))
+    .filter(({ quantity }) => quantity > 0);
+
+  const refundAmount = isFullRefund && transaction
+    ? (transaction.payment_status === 'paid' ? transaction.total_amount : transaction.paid_amount) - transaction.refunded_amount
+    : selectedItems.reduce((total, { item, quantity }) => total + Math.round(item.total_price * 100 * quantity / item.quantity) / 100, 0);
+
+  const handleSubmit = async () => {
+    if (!transaction) return;
+
+    setIsLoading(true);
+    try {
+      await trpc.createRefund.mutate({
+        transaction_id: transaction.id,
+        refund_method: refundMethod,
+        reason,
+        items: isFullRefund
+          ? undefined
+          : selectedItems.map(({ item, quantity }) => ({
+              item_type: item.item_type,
+              transaction_item_id: item.transaction_item_id,
+              quantity
+            }))
+      });
+      onRefunded();
+      onClose();
+    } catch (error) {
+      console.error('Failed to create refund:', error);
+      alert(error instanceof Error ? error.message : 'Gagal memproses refund');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={transaction !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            Refund / Nota Kredit
+          </DialogTitle>
+          <DialogDescription>
+            {transaction && `Transaksi #${transaction.id} - Rp ${transaction.total_amount.toLocaleString('id-ID')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={isFullRefund}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setIsFullRefund(e.target.checked)}
+            />
+            Refund penuh (semua item dan seluruh pembayaran)
+          </label>
+
+          {!isFullRefund && (
+            <div className="space-y-2">
+              <Label>Item yang dikembalikan</Label>
+              {items.map(item => {
+                const remaining = item.quantity - item.refunded_quantity;
+                return (
+                  <div key={itemKey(item)} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="flex-1">
+                      {item.name}
+                      <span className="text-gray-500">
+                        {' '}(sisa {remaining} x Rp {(item.total_price / item.quantity).toLocaleString('id-ID', { maximumFractionDigits: 2 })})
+                      </span>
+                    </span>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={remaining}
+                      className="w-20"
+                      disabled={remaining === 0}
+                      value={quantities[itemKey(item)] ?? ''}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setQuantities(prev => ({ ...prev, [itemKey(item)]: e.target.value }))
+                      }
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Metode Pengembalian</Label>
+            <Select value={refundMethod || 'tunai'} onValueChange={(value: RefundMethod) => setRefundMethod(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="tunai">💵 Tunai</SelectItem>
+                <SelectItem value="transfer">🏦 Transfer</SelectItem>
+                <SelectItem value="kartu">💳 Kartu</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Alasan *</Label>
+            <Textarea
+              value={reason}
+              onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setReason(e.target.value)}
+              placeholder="Alasan refund..."
+              rows={2}
+            />
+          </div>
+
+          <p className="text-lg font-bold text-red-600">
+            Dikembalikan: Rp {Math.max(refundAmount, 0).toLocaleString('id-ID')}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Batal
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={isLoading || !reason.trim() || (!isFullRefund && selectedItems.length === 0)}
+          >
+            {isLoading ? 'Memproses...' : 'Proses Refund'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { trpc } from '@/utils/trpc';
+import { downloadFile } from '@/lib/download';
 import { 
   FileText, 
   Download, 
@@ -17,15 +18,17 @@ import {
   Package,
   BarChart3,
   FileSpreadsheet,
-  Printer
+  Printer,
+  Percent
 } from 'lucide-react';
-import type { ReportInput } from '../../../server/src/schema';
+import type { GrossMargin, ReportInput } from '../../../server/src/schema';
 
 export default function Reports() {
   const [isLoading, setIsLoading] = useState(false);
   const [dailyRevenue, setDailyRevenue] = useState<any[]>([]);
   const [monthlyRevenue, setMonthlyRevenue] = useState<any[]>([]);
   const [topServices, setTopServices] = useState<any[]>([]);
+  const [grossMargin, setGrossMargin] = useState<GrossMargin | null>(null);
   
   const [reportData, setReportData] = useState<ReportInput>({
     type: 'sales',
@@ -66,6 +69,15 @@ export default function Reports() {
       // Get top services
       const topServicesResult = await trpc.getTopServices.query(10);
       setTopServices(topServicesResult);
+
+      // Get gross margin over the same 30 days
+      const marginStart = new Date();
+      marginStart.setHours(0, 0, 0, 0);
+      marginStart.setDate(marginStart.getDate() - 29);
+      const marginEnd = new Date();
+      marginEnd.setHours(0, 0, 0, 0);
+      marginEnd.setDate(marginEnd.getDate() + 1);
+      setGrossMargin(await trpc.getGrossMargin.query({ start_date: marginStart, end_date: marginEnd }));
       
     } catch (error) {
       console.error('Failed to load analytics:', error);
@@ -78,28 +90,27 @@ export default function Reports() {
     loadAnalytics();
   }, [loadAnalytics]);
 
-  const generateReport = async () => {
+  // Quick reports pass their own input; state updates would not be visible yet in this call
+  const generateReport = async (input: ReportInput = reportData) => {
     setIsLoading(true);
     try {
-      let reportResult;
+      let reportFile;
       
-      switch (reportData.type) {
+      switch (input.type) {
         case 'sales':
-          reportResult = await trpc.generateSalesReport.mutate(reportData);
+          reportFile = await trpc.generateSalesReport.mutate(input);
           break;
         case 'inventory':
-          reportResult = await trpc.generateInventoryReport.mutate(reportData);
+          reportFile = await trpc.generateInventoryReport.mutate(input);
           break;
         case 'patients':
-          reportResult = await trpc.generatePatientReport.mutate(reportData);
+          reportFile = await trpc.generatePatientReport.mutate(input);
           break;
         default:
           throw new Error('Invalid report type');
       }
       
-      // In a real application, this would download or display the generated report
-      console.log('Report generated:', reportResult);
-      alert(`Laporan ${reportData.type} berhasil dibuat! (Fitur download sedang dalam pengembangan)`);
+      downloadFile(reportFile);
       
     } catch (error) {
       console.error('Failed to generate report:', error);
@@ -135,7 +146,7 @@ export default function Reports() {
 
         <TabsContent value="analytics" className="space-y-6">
           {/* Revenue Analytics */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                 <CardTitle className="text-sm font-medium text-gray-600">
@@ -203,6 +214,24 @@ export default function Reports() {
                 </p>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-gray-600">
+                  Laba Kotor (30 hari)
+                </CardTitle>
+                <Percent className="h-4 w-4 text-purple-600" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-gray-900">
+                  Rp {(grossMargin?.gross_margin ?? 0).toLocaleString('id-ID')}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {grossMargin?.margin_percent != null ? `Margin ${grossMargin.margin_percent}%` : 'Belum ada pendapatan'}
+                  {' · '}HPP obat Rp {(grossMargin?.cost_of_goods ?? 0).toLocaleString('id-ID')}
+                </p>
+              </CardContent>
+            </Card>
           </div>
 
           {/* Daily Revenue Chart */}
@@ -268,15 +297,18 @@ export default function Reports() {
               ) : (
                 <div className="space-y-3">
                   {topServices.map((service: any, index: number) => (
-                    <div key={service.service_id} className="flex justify-between items-center p-3 border rounded-lg">
+                    <div key={`${service.type}-${service.service_name}`} className="flex justify-between items-center p-3 border rounded-lg">
                       <div className="flex items-center gap-3">
                         <Badge variant="secondary" className="min-w-[2rem] text-center">
                           #{index + 1}
                         </Badge>
                         <div>
-                          <h3 className="font-medium">{service.name}</h3>
+                          <h3 className="font-medium flex items-center gap-2">
+                            {service.service_name}
+                            {service.type === 'package' && <Badge variant="outline">Paket</Badge>}
+                          </h3>
                           <p className="text-sm text-gray-600">
-                            {service.total_quantity} kali digunakan
+                            {service.total_usage} kali {service.type === 'package' ? 'terjual' : 'digunakan'}
                           </p>
                         </div>
                       </div>
@@ -410,7 +442,7 @@ export default function Reports() {
               </div>
 
               <Button
-                onClick={generateReport}
+                onClick={() => generateReport()}
                 disabled={isLoading}
                 className="w-full bg-purple-600 hover:bg-purple-700 flex items-center gap-2"
               >
@@ -448,13 +480,14 @@ export default function Reports() {
                     const yesterday = new Date(today);
                     yesterday.setDate(yesterday.getDate() - 1);
                     
-                    setReportData({
+                    const input: ReportInput = {
                       type: 'sales',
                       start_date: yesterday,
                       end_date: today,
                       format: 'pdf'
-                    });
-                    generateReport();
+                    };
+                    setReportData(input);
+                    generateReport(input);
                   }}
                   disabled={isLoading}
                 >
@@ -470,13 +503,14 @@ export default function Reports() {
                     const weekAgo = new Date(today);
                     weekAgo.setDate(weekAgo.getDate() - 7);
                     
-                    setReportData({
+                    const input: ReportInput = {
                       type: 'sales',
                       start_date: weekAgo,
                       end_date: today,
                       format: 'pdf'
-                    });
-                    generateReport();
+                    };
+                    setReportData(input);
+                    generateReport(input);
                   }}
                   disabled={isLoading}
                 >
@@ -492,13 +526,14 @@ export default function Reports() {
                     const monthAgo = new Date(today);
                     monthAgo.setMonth(monthAgo.getMonth() - 1);
                     
-                    setReportData({
+                    const input: ReportInput = {
                       type: 'inventory',
                       start_date: monthAgo,
                       end_date: today,
                       format: 'excel'
-                    });
-                    generateReport();
+                    };
+                    setReportData(input);
+                    generateReport(input);
                   }}
                   disabled={isLoading}
                 >
@@ -0,0 +1,94 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { trpc } from '@/utils/trpc';
+import { Stethoscope, Save } from 'lucide-react';
+import type { Service } from '../../../server/src/schema';
+
+// "3, 7" <-> [3, 7]
+const formatDays = (days: number[]) => days.join(', ');
+
+const parseDays = (value: string) =>
+  value
+    .split(',')
+    .map(part => parseInt(part.trim()))
+    .filter(day => !isNaN(day));
+
+export default function ServiceFollowUpRules() {
+  const [services, setServices] = useState<Service[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const [savingId, setSavingId] = useState<number | null>(null);
+
+  const loadServices = useCallback(async () => {
+    try {
+      const { items } = await trpc.getServices.query({ limit: 200, active_only: true });
+      setServices(items);
+      setDrafts(Object.fromEntries(items.map((service: Service) => [service.id, formatDays(service.follow_up_days)])));
+    } catch (error) {
+      console.error('Failed to load services:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadServices();
+  }, [loadServices]);
+
+  const saveRule = async (service: Service) => {
+    setSavingId(service.id);
+    try {
+      const updated = await trpc.updateService.mutate({
+        id: service.id,
+        follow_up_days: parseDays(drafts[service.id] ?? '')
+      });
+      setServices(prev => prev.map(item => item.id === updated.id ? updated : item));
+      setDrafts(prev => ({ ...prev, [updated.id]: formatDays(updated.follow_up_days) }));
+    } catch (error) {
+      console.error('Failed to save follow-up rule:', error);
+      alert('Gagal menyimpan jadwal kontrol. Gunakan angka hari yang dipisah koma, misalnya 3, 7.');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Stethoscope className="h-5 w-5" />
+          Jadwal Kontrol per Layanan
+        </CardTitle>
+        <CardDescription>
+          Hari kontrol setelah tindakan, dipisah koma (misalnya 3, 7). Jadwal dibuat otomatis saat transaksi disimpan.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {services.length === 0 ? (
+          <p className="text-sm text-gray-500">Belum ada layanan aktif</p>
+        ) : (
+          services.map((service: Service) => (
+            <div key={service.id} className="flex items-center gap-3">
+              <span className="flex-1 text-sm font-medium">{service.name}</span>
+              <Input
+                className="w-40"
+                value={drafts[service.id] ?? ''}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setDrafts(prev => ({ ...prev, [service.id]: e.target.value }))
+                }
+                placeholder="Tanpa kontrol"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => saveRule(service)}
+                disabled={savingId === service.id || drafts[service.id] === formatDays(service.follow_up_days)}
+              >
+                <Save className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,304 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { Package, Plus, X } from 'lucide-react';
+import type { Medicine, PackageItemType, Service, ServicePackage } from '../../../server/src/schema';
+
+interface PackageItemForm {
+  item_type: PackageItemType;
+  item_id: string;
+  quantity: string;
+}
+
+interface ServicePackageForm {
+  name: string;
+  description: string;
+  price: string;
+  items: PackageItemForm[];
+}
+
+const emptyItem = (): PackageItemForm => ({ item_type: 'service', item_id: '', quantity: '1' });
+
+const emptyForm = (): ServicePackageForm => ({
+  name: '',
+  description: '',
+  price: '',
+  items: [emptyItem()]
+});
+
+// Value of the package contents at their own prices
+const listValue = (servicePackage: ServicePackage) =>
+  servicePackage.items.reduce((total, item) => total + item.price * item.quantity, 0);
+
+// Bundles such as "Paket Klamp + obat + kontrol 2x", sold at the cashier for one price
+export default function ServicePackageManagement() {
+  const [packages, setPackages] = useState<ServicePackage[]>([]);
+  const [services, setServices] = useState<Service[]>([]);
+  const [medicines, setMedicines] = useState<Medicine[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<ServicePackageForm>(emptyForm);
+
+  const loadPackages = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [packageList, serviceList, medicineList] = await Promise.all([
+        trpc.getServicePackages.query(false),
+        trpc.getServices.query({ limit: 200, active_only: true }),
+        trpc.getMedicines.query({ limit: 200, low_stock_only: false, expired_only: false })
+      ]);
+      setPackages(packageList);
+      setServices(serviceList.items);
+      setMedicines(medicineList.items);
+    } catch (error) {
+      console.error('Failed to load service packages:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPackages();
+  }, [loadPackages]);
+
+  const updateItem = (index: number, changes: Partial<PackageItemForm>) =>
+    setFormData((prev: ServicePackageForm) => ({
+      ...prev,
+      items: prev.items.map((item, itemIndex) => itemIndex === index ? { ...item, ...changes } : item)
+    }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const response = await trpc.createServicePackage.mutate({
+        name: formData.name,
+        description: formData.description || null,
+        price: parseFloat(formData.price) || 0,
+        is_active: true,
+        items: formData.items
+          .filter(item => item.item_id)
+          .map(item => ({
+            item_type: item.item_type,
+            item_id: parseInt(item.item_id),
+            quantity: parseInt(item.quantity) || 1
+          }))
+      });
+      setPackages((prev: ServicePackage[]) =>
+        [...prev, response].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setFormData(emptyForm());
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Failed to create service package:', error);
+      alert(error instanceof Error ? error.message : 'Gagal membuat paket');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleActive = async (servicePackage: ServicePackage) => {
+    try {
+      const response = await trpc.updateServicePackage.mutate({ id: servicePackage.id, is_active: !servicePackage.is_active });
+      setPackages((prev: ServicePackage[]) => prev.map(item => item.id === response.id ? response : item));
+    } catch (error) {
+      console.error('Failed to update service package:', error);
+      alert('Gagal memperbarui paket.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              Paket Layanan
+            </CardTitle>
+            <CardDescription>
+              Gabungan tindakan dan obat bawa pulang dengan satu harga paket
+            </CardDescription>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" className="flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                Tambah Paket
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <form onSubmit={handleSubmit}>
+                <DialogHeader>
+                  <DialogTitle>Tambah Paket</DialogTitle>
+                  <DialogDescription>Stok obat dalam paket dikurangi saat paket dijual</DialogDescription>
+                </DialogHeader>
+
+                <div className="grid gap-4 py-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="package_name">Nama *</Label>
+                      <Input
+                        id="package_name"
+                        value={formData.name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: ServicePackageForm) => ({ ...prev, name: e.target.value }))
+                        }
+                        placeholder="Paket Klamp + obat + kontrol 2x"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="package_price">Harga Paket (Rp) *</Label>
+                      <Input
+                        id="package_price"
+                        type="number"
+                        min="0"
+                        value={formData.price}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: ServicePackageForm) => ({ ...prev, price: e.target.value }))
+                        }
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="package_description">Keterangan</Label>
+                    <Input
+                      id="package_description"
+                      value={formData.description}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData((prev: ServicePackageForm) => ({ ...prev, description: e.target.value }))
+                      }
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Isi Paket *</Label>
+                    {formData.items.map((item: PackageItemForm, index: number) => (
+                      <div key={index} className="flex gap-2">
+                        <Select
+                          value={item.item_type || 'service'}
+                          onValueChange={(value: PackageItemType) => updateItem(index, { item_type: value, item_id: '' })}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="service">Layanan</SelectItem>
+                            <SelectItem value="medicine">Obat</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={item.item_id || 'none'}
+                          onValueChange={(value: string) => updateItem(index, { item_id: value === 'none' ? '' : value })}
+                        >
+                          <SelectTrigger className="flex-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">{item.item_type === 'service' ? 'Pilih layanan' : 'Pilih obat'}</SelectItem>
+                            {item.item_type === 'service'
+                              ? services.map((service: Service) => (
+                                  <SelectItem key={service.id} value={service.id.toString()}>{service.name}</SelectItem>
+                                ))
+                              : medicines.map((medicine: Medicine) => (
+                                  <SelectItem key={medicine.id} value={medicine.id.toString()}>{medicine.name}</SelectItem>
+                                ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="number"
+                          min="1"
+                          className="w-20"
+                          value={item.quantity}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateItem(index, { quantity: e.target.value })}
+                        />
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setFormData((prev: ServicePackageForm) => ({
+                            ...prev,
+                            items: prev.items.filter((_, itemIndex) => itemIndex !== index)
+                          }))}
+                          disabled={formData.items.length === 1}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setFormData((prev: ServicePackageForm) => ({ ...prev, items: [...prev.items, emptyItem()] }))}
+                    >
+                      <Plus className="h-3 w-3 mr-1" />
+                      Tambah Isi
+                    </Button>
+                  </div>
+                </div>
+
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Batal
+                  </Button>
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? 'Menyimpan...' : 'Simpan'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {packages.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">
+            {isLoading ? 'Memuat paket...' : 'Belum ada paket'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {packages.map((servicePackage: ServicePackage) => (
+              <div key={servicePackage.id} className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 p-3 border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{servicePackage.name}</span>
+                    <Badge variant="secondary">Rp {servicePackage.price.toLocaleString('id-ID')}</Badge>
+                    {!servicePackage.is_active && <Badge variant="destructive">Nonaktif</Badge>}
+                    {servicePackage.items.some(item => !item.available) && (
+                      <Badge variant="outline">Tidak dijual: isi tidak tersedia</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {servicePackage.items.map(item =>
+                      `${item.name} x${item.quantity}${item.available ? '' : ' (tidak tersedia)'}`
+                    ).join(', ')}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Harga satuan Rp {listValue(servicePackage).toLocaleString('id-ID')}
+                  </p>
+                </div>
+                <Button
+                  variant={servicePackage.is_active ? 'destructive' : 'secondary'}
+                  size="sm"
+                  onClick={() => toggleActive(servicePackage)}
+                >
+                  {servicePackage.is_active ? 'Nonaktifkan' : 'Aktifkan'}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,11 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import UserManagement from '@/components/UserManagement';
+import ServiceFollowUpRules from '@/components/ServiceFollowUpRules';
+import PromotionManagement from '@/components/PromotionManagement';
+import ServicePackageManagement from '@/components/ServicePackageManagement';
 import { trpc } from '@/utils/trpc';
 import { 
   Settings as SettingsIcon, 
@@ -19,9 +24,11 @@ import {
   Globe,
   Printer,
   Database,
-  Shield
+  Shield,
+  Clock,
+  Hash
 } from 'lucide-react';
-import type { Settings as SettingsType, UpdateSettingsInput } from '../../../server/src/schema';
+import type { Settings as SettingsType, UpdateSettingsInput, ReceiptPaperWidth } from '../../../server/src/schema';
 
 export default function Settings() {
   const [settings, setSettings] = useState<SettingsType[]>([]);
@@ -41,9 +48,18 @@ export default function Settings() {
     currency: 'IDR',
     timezone: 'Asia/Jakarta',
     date_format: 'DD/MM/YYYY',
-    receipt_footer: 'Terima kasih atas kunjungan Anda!'
+    receipt_footer: 'Terima kasih atas kunjungan Anda!',
+    receipt_paper_width: '80' as ReceiptPaperWidth
   });
 
+  const [scheduleSettings, setScheduleSettings] = useState({
+    opening_time: '08:00',
+    closing_time: '17:00',
+    appointment_slot_minutes: '30'
+  });
+
+  const [medicalRecordFormat, setMedicalRecordFormat] = useState('RK-{YYYY}-{seq:5}');
+
   const loadSettings = useCallback(async () => {
     try {
       setIsLoading(true);
@@ -58,8 +74,9 @@ export default function Settings() {
 
       setClinicInfo({
         clinic_name: settingsMap.clinic_name || 'Rumah Khitan Super Modern Pak Nopi',
-        clinic_address: settingsMap.clinic_address || '',
-        clinic_phone: settingsMap.clinic_phone || '',
+        // Stored under the keys the reports and receipts read; older versions used clinic_address/clinic_phone
+        clinic_address: settingsMap.address || settingsMap.clinic_address || '',
+        clinic_phone: settingsMap.phone || settingsMap.clinic_phone || '',
         clinic_email: settingsMap.clinic_email || '',
         clinic_website: settingsMap.clinic_website || ''
       });
@@ -68,8 +85,17 @@ export default function Settings() {
         currency: settingsMap.currency || 'IDR',
         timezone: settingsMap.timezone || 'Asia/Jakarta',
         date_format: settingsMap.date_format || 'DD/MM/YYYY',
-        receipt_footer: settingsMap.receipt_footer || 'Terima kasih atas kunjungan Anda!'
+        receipt_footer: settingsMap.receipt_footer || 'Terima kasih atas kunjungan Anda!',
+        receipt_paper_width: settingsMap.receipt_paper_width === '58' ? '58' : '80'
       });
+
+      setScheduleSettings({
+        opening_time: settingsMap.opening_time || '08:00',
+        closing_time: settingsMap.closing_time || '17:00',
+        appointment_slot_minutes: settingsMap.appointment_slot_minutes || '30'
+      });
+
+      setMedicalRecordFormat(settingsMap.medical_record_format || 'RK-{YYYY}-{seq:5}');
     } catch (error) {
       console.error('Failed to load settings:', error);
     } finally {
@@ -100,8 +126,8 @@ export default function Settings() {
     try {
       await Promise.all([
         saveSetting('clinic_name', clinicInfo.clinic_name, 'Nama klinik/rumah sakit'),
-        saveSetting('clinic_address', clinicInfo.clinic_address, 'Alamat lengkap klinik'),
-        saveSetting('clinic_phone', clinicInfo.clinic_phone, 'Nomor telepon klinik'),
+        saveSetting('address', clinicInfo.clinic_address, 'Alamat klinik'),
+        saveSetting('phone', clinicInfo.clinic_phone, 'Nomor telepon klinik'),
         saveSetting('clinic_email', clinicInfo.clinic_email, 'Email klinik'),
         saveSetting('clinic_website', clinicInfo.clinic_website, 'Website klinik')
       ]);
@@ -122,7 +148,8 @@ export default function Settings() {
         saveSetting('currency', systemSettings.currency, 'Mata uang default'),
         saveSetting('timezone', systemSettings.timezone, 'Zona waktu sistem'),
         saveSetting('date_format', systemSettings.date_format, 'Format tanggal'),
-        saveSetting('receipt_footer', systemSettings.receipt_footer, 'Footer pada struk pembayaran')
+        saveSetting('receipt_footer', systemSettings.receipt_footer, 'Footer pada struk pembayaran'),
+        saveSetting('receipt_paper_width', systemSettings.receipt_paper_width, 'Lebar kertas printer struk (58 atau 80 mm)')
       ]);
       
       alert('Pengaturan sistem berhasil disimpan!');
@@ -134,6 +161,39 @@ export default function Settings() {
     }
   };
 
+  const saveScheduleSettings = async () => {
+    setIsSaving(true);
+    try {
+      await Promise.all([
+        saveSetting('opening_time', scheduleSettings.opening_time, 'Jam buka klinik (HH:MM)'),
+        saveSetting('closing_time', scheduleSettings.closing_time, 'Jam tutup klinik (HH:MM)'),
+        saveSetting('appointment_slot_minutes', scheduleSettings.appointment_slot_minutes, 'Durasi satu slot janji temu (menit)')
+      ]);
+
+      alert('Jam operasional berhasil disimpan!');
+      await loadSettings();
+    } catch (error) {
+      console.error('Failed to save schedule settings:', error);
+      alert('Gagal menyimpan jam operasional. Silakan coba lagi.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveMedicalRecordFormat = async () => {
+    setIsSaving(true);
+    try {
+      await saveSetting('medical_record_format', medicalRecordFormat.trim(), 'Format No. Rekam Medis ({YYYY}, {YY}, {MM}, {seq:5})');
+      alert('Format No. RM berhasil disimpan!');
+      await loadSettings();
+    } catch (error) {
+      // The server explains what is wrong with the format
+      alert(error instanceof Error ? error.message : 'Gagal menyimpan format No. RM. Silakan coba lagi.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const initializeDefaultSettings = async () => {
     setIsSaving(true);
     try {
@@ -392,6 +452,106 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Opening Hours & Appointments */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5" />
+            Jam Operasional & Janji Temu
+          </CardTitle>
+          <CardDescription>
+            Menentukan slot yang dapat dipesan pada kalender janji temu
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="opening_time">Jam Buka</Label>
+              <Input
+                id="opening_time"
+                type="time"
+                value={scheduleSettings.opening_time}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setScheduleSettings(prev => ({ ...prev, opening_time: e.target.value }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="closing_time">Jam Tutup</Label>
+              <Input
+                id="closing_time"
+                type="time"
+                value={scheduleSettings.closing_time}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setScheduleSettings(prev => ({ ...prev, closing_time: e.target.value }))
+                }
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="appointment_slot_minutes">Durasi Slot (menit)</Label>
+              <Input
+                id="appointment_slot_minutes"
+                type="number"
+                min="5"
+                step="5"
+                value={scheduleSettings.appointment_slot_minutes}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setScheduleSettings(prev => ({ ...prev, appointment_slot_minutes: e.target.value }))
+                }
+              />
+            </div>
+          </div>
+
+          <Button 
+            onClick={saveScheduleSettings} 
+            disabled={isSaving}
+            className="flex items-center gap-2"
+          >
+            <Save className="h-4 w-4" />
+            {isSaving ? 'Menyimpan...' : 'Simpan Jam Operasional'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Medical Record Numbers */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Hash className="h-5 w-5" />
+            Nomor Rekam Medis
+          </CardTitle>
+          <CardDescription>
+            Format No. RM yang diberikan otomatis kepada pasien baru
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="medical_record_format">Format No. RM</Label>
+            <Input
+              id="medical_record_format"
+              value={medicalRecordFormat}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setMedicalRecordFormat(e.target.value)}
+              placeholder="RK-{YYYY}-{seq:5}"
+              className="font-mono"
+            />
+            <p className="text-xs text-gray-500">
+              {'{YYYY}'}, {'{YY}'} dan {'{MM}'} diisi tahun/bulan pendaftaran; {'{seq:5}'} adalah nomor urut 5 digit yang dimulai lagi dari 1 setiap periode
+            </p>
+          </div>
+
+          <Button
+            onClick={saveMedicalRecordFormat}
+            disabled={isSaving}
+            className="flex items-center gap-2"
+          >
+            <Save className="h-4 w-4" />
+            {isSaving ? 'Menyimpan...' : 'Simpan Format No. RM'}
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Receipt Settings */}
       <Card>
         <CardHeader>
@@ -420,9 +580,34 @@ export default function Settings() {
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="receipt_paper_width">Lebar Kertas Printer</Label>
+            <Select
+              value={systemSettings.receipt_paper_width || '80'}
+              onValueChange={(value: ReceiptPaperWidth) =>
+                setSystemSettings(prev => ({ ...prev, receipt_paper_width: value }))
+              }
+            >
+              <SelectTrigger id="receipt_paper_width" className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="58">58 mm (32 karakter)</SelectItem>
+                <SelectItem value="80">80 mm (48 karakter)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              Dipakai untuk struk ESC/POS printer thermal maupun cetak dari browser
+            </p>
+          </div>
+
           <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
             <h4 className="font-medium text-blue-800 mb-2">Preview Struk:</h4>
-            <div className="bg-white p-4 border rounded font-mono text-sm">
+            <div
+              className={`bg-white p-4 border rounded font-mono text-sm ${
+                systemSettings.receipt_paper_width === '58' ? 'max-w-[220px]' : 'max-w-[300px]'
+              }`}
+            >
               <div className="text-center mb-2">
                 <strong>{clinicInfo.clinic_name}</strong><br />
                 {clinicInfo.clinic_address && <span>{clinicInfo.clinic_address}<br /></span>}
@@ -460,6 +645,18 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Post-operative follow-up rules */}
+      <ServiceFollowUpRules />
+
+      {/* Promo codes */}
+      <PromotionManagement />
+
+      {/* Service packages */}
+      <ServicePackageManagement />
+
+      {/* Users & Roles */}
+      <UserManagement />
+
       {/* System Maintenance */}
       <Card>
         <CardHeader>
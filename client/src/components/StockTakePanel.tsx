@@ -0,0 +1,298 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { trpc } from '@/utils/trpc';
+import { downloadFile } from '@/lib/download';
+import { ClipboardCheck, FileText, Search } from 'lucide-react';
+import type { StockTake, StockTakeItem, StockTakeStatus } from '../../../server/src/schema';
+
+const STATUS_LABELS: Record<StockTakeStatus, string> = {
+  counting: 'Sedang Dihitung',
+  approved: 'Disetujui',
+  cancelled: 'Dibatalkan'
+};
+
+const formatMoney = (value: number) => `Rp ${value.toLocaleString('id-ID')}`;
+
+// Unsaved edits per stock take item
+interface CountDraft {
+  counted_quantity: string;
+  location: string;
+}
+
+interface StockTakePanelProps {
+  canApprove: boolean;
+  onStockChange: () => void;
+}
+
+// Stock opname: freeze the stock, count every shelf, review the variances and post them in one go
+export default function StockTakePanel({ canApprove, onStockChange }: StockTakePanelProps) {
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, CountDraft>>({});
+  const [filter, setFilter] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const current = stockTakes.find(stockTake => stockTake.status === 'counting') ?? null;
+  const history = stockTakes.filter(stockTake => stockTake.status !== 'counting');
+
+  const loadStockTakes = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setStockTakes((await trpc.getStockTakes.query({ limit: 20 })).items);
+    } catch (error) {
+      console.error('Failed to load stock takes:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStockTakes();
+  }, [loadStockTakes]);
+
+  const replaceStockTake = (stockTake: StockTake) =>
+    setStockTakes((prev: StockTake[]) => prev.map(item => item.id === stockTake.id ? stockTake : item));
+
+  const draftFor = (item: StockTakeItem): CountDraft => drafts[item.id] ?? {
+    counted_quantity: item.counted_quantity === null ? '' : item.counted_quantity.toString(),
+    location: item.location ?? ''
+  };
+
+  const updateDraft = (item: StockTakeItem, changes: Partial<CountDraft>) =>
+    setDrafts((prev: Record<number, CountDraft>) => ({ ...prev, [item.id]: { ...draftFor(item), ...changes } }));
+
+  const handleStart = async () => {
+    setIsLoading(true);
+    try {
+      const response = await trpc.startStockTake.mutate({ notes: notes || null });
+      setStockTakes((prev: StockTake[]) => [response, ...prev]);
+      setNotes('');
+      setDrafts({});
+    } catch (error) {
+      console.error('Failed to start stock take:', error);
+      alert(error instanceof Error ? error.message : 'Gagal memulai stock opname');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!current) return;
+
+    const counts = Object.entries(drafts).map(([itemId, draft]) => ({
+      item_id: parseInt(itemId),
+      counted_quantity: draft.counted_quantity === '' ? null : parseInt(draft.counted_quantity) || 0,
+      location: draft.location || null
+    }));
+    if (counts.length === 0) return;
+
+    setIsLoading(true);
+    try {
+      replaceStockTake(await trpc.saveStockTakeCounts.mutate({ stock_take_id: current.id, counts }));
+      setDrafts({});
+    } catch (error) {
+      console.error('Failed to save stock take counts:', error);
+      alert(error instanceof Error ? error.message : 'Gagal menyimpan hasil hitung');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!current) return;
+    if (Object.keys(drafts).length > 0) {
+      alert('Simpan hasil hitung terlebih dahulu');
+      return;
+    }
+    if (!confirm(`Setujui stock opname #${current.id}? Selisih akan langsung dibukukan ke stok.`)) return;
+
+    setIsLoading(true);
+    try {
+      replaceStockTake(await trpc.approveStockTake.mutate(current.id));
+      onStockChange();
+    } catch (error) {
+      console.error('Failed to approve stock take:', error);
+      alert(error instanceof Error ? error.message : 'Gagal menyetujui stock opname');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!current || !confirm(`Batalkan stock opname #${current.id}?`)) return;
+
+    try {
+      replaceStockTake(await trpc.cancelStockTake.mutate(current.id));
+      setDrafts({});
+    } catch (error) {
+      console.error('Failed to cancel stock take:', error);
+      alert(error instanceof Error ? error.message : 'Gagal membatalkan stock opname');
+    }
+  };
+
+  const downloadReport = async (stockTakeId: number) => {
+    try {
+      downloadFile(await trpc.generateStockTakeReport.query(stockTakeId));
+    } catch (error) {
+      console.error('Failed to generate stock take report:', error);
+      alert(error instanceof Error ? error.message : 'Gagal membuat laporan selisih');
+    }
+  };
+
+  const visibleItems = current
+    ? current.items.filter(item => {
+        const query = filter.trim().toLowerCase();
+        return !query
+          || item.medicine_name.toLowerCase().includes(query)
+          || (item.location ?? '').toLowerCase().includes(query);
+      })
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Stock Opname
+            {current && <Badge>#{current.id} {STATUS_LABELS[current.status]}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            {current
+              ? `Dimulai ${current.started_at.toLocaleString('id-ID')} oleh ${current.started_by_name} · ${current.counted_items} dari ${current.total_items} obat dihitung`
+              : 'Mulai sesi untuk membekukan stok sistem, lalu hitung stok fisik setiap obat'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!current ? (
+            <div className="flex gap-2">
+              <Input
+                placeholder="Catatan, mis. Opname akhir bulan"
+                value={notes}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNotes(e.target.value)}
+              />
+              <Button onClick={handleStart} disabled={isLoading}>
+                Mulai Stock Opname
+              </Button>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div className="p-3 border rounded-lg">
+                  <p className="text-gray-500">Obat dengan selisih</p>
+                  <p className="text-lg font-semibold">{current.items_with_variance}</p>
+                </div>
+                <div className="p-3 border rounded-lg">
+                  <p className="text-gray-500">Nilai kekurangan</p>
+                  <p className="text-lg font-semibold text-red-600">{formatMoney(current.shortage_value)}</p>
+                </div>
+                <div className="p-3 border rounded-lg">
+                  <p className="text-gray-500">Nilai kelebihan</p>
+                  <p className="text-lg font-semibold text-amber-600">{formatMoney(current.surplus_value)}</p>
+                </div>
+              </div>
+
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <Input
+                  className="pl-10"
+                  placeholder="Cari obat atau lokasi rak..."
+                  value={filter}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFilter(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                {visibleItems.map((item: StockTakeItem) => {
+                  const draft = draftFor(item);
+                  return (
+                    <div key={item.id} className="grid grid-cols-12 gap-2 items-center p-2 border rounded-lg text-sm">
+                      <div className="col-span-4">
+                        <p className="font-medium">{item.medicine_name}</p>
+                        <p className="text-gray-500">Sistem: {item.expected_quantity} {item.unit}</p>
+                      </div>
+                      <Input
+                        className="col-span-3"
+                        placeholder="Lokasi"
+                        value={draft.location}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateDraft(item, { location: e.target.value })}
+                      />
+                      <Input
+                        className="col-span-2"
+                        type="number"
+                        min="0"
+                        placeholder="Fisik"
+                        value={draft.counted_quantity}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateDraft(item, { counted_quantity: e.target.value })}
+                      />
+                      <div className="col-span-3 text-right">
+                        {item.variance === null ? (
+                          <span className="text-gray-400">Belum dihitung</span>
+                        ) : (
+                          <span className={item.variance < 0 ? 'text-red-600' : item.variance > 0 ? 'text-amber-600' : 'text-green-600'}>
+                            {item.variance > 0 ? '+' : ''}{item.variance} · {formatMoney(item.variance_value ?? 0)}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button variant="outline" onClick={() => downloadReport(current.id)}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  Laporan Selisih
+                </Button>
+                <Button variant="outline" onClick={handleCancel} disabled={isLoading}>
+                  Batalkan
+                </Button>
+                <Button variant="secondary" onClick={handleSave} disabled={isLoading || Object.keys(drafts).length === 0}>
+                  Simpan Hitungan
+                </Button>
+                {canApprove && (
+                  <Button onClick={handleApprove} disabled={isLoading || current.counted_items < current.total_items}>
+                    Setujui & Bukukan
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {history.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Riwayat Stock Opname</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {history.map((stockTake: StockTake) => (
+              <div key={stockTake.id} className="flex justify-between items-center p-3 border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">#{stockTake.id}</span>
+                    <Badge variant={stockTake.status === 'approved' ? 'default' : 'destructive'}>
+                      {STATUS_LABELS[stockTake.status]}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {stockTake.started_at.toLocaleDateString('id-ID')} · {stockTake.items_with_variance} selisih ·
+                    kurang {formatMoney(stockTake.shortage_value)} · lebih {formatMoney(stockTake.surplus_value)}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => downloadReport(stockTake.id)}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  Laporan
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
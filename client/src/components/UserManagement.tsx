@@ -0,0 +1,219 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { trpc } from '@/utils/trpc';
+import { ROLE_LABELS } from '@/lib/roles';
+import { Plus, UserCog, KeyRound } from 'lucide-react';
+import type { User, UserRole, CreateUserInput } from '../../../server/src/schema';
+
+const emptyForm: CreateUserInput = {
+  username: '',
+  full_name: '',
+  password: '',
+  role: 'kasir'
+};
+
+export default function UserManagement() {
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<CreateUserInput>(emptyForm);
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await trpc.getUsers.query();
+      setUsers(result);
+    } catch (error) {
+      console.error('Failed to load users:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const response = await trpc.createUser.mutate(formData);
+      setUsers((prev: User[]) => [...prev, response]);
+      setFormData(emptyForm);
+      setIsDialogOpen(false);
+    } catch (error) {
+      console.error('Failed to create user:', error);
+      alert('Gagal membuat pengguna. Pastikan username belum digunakan dan password minimal 8 karakter.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateUser = async (input: { id: number; role?: UserRole; is_active?: boolean; password?: string }) => {
+    try {
+      const response = await trpc.updateUser.mutate(input);
+      setUsers((prev: User[]) => prev.map(u => u.id === response.id ? response : u));
+    } catch (error) {
+      console.error('Failed to update user:', error);
+      alert('Gagal memperbarui pengguna.');
+    }
+  };
+
+  const resetPassword = async (user: User) => {
+    const password = prompt(`Password baru untuk ${user.username} (minimal 8 karakter):`);
+    if (!password) return;
+    await updateUser({ id: user.id, password });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <UserCog className="h-5 w-5" />
+              Pengguna & Hak Akses
+            </CardTitle>
+            <CardDescription>
+              Kelola akun staf dan perannya (pemilik, dokter, kasir, gudang)
+            </CardDescription>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" className="flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                Tambah Pengguna
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <form onSubmit={handleSubmit}>
+                <DialogHeader>
+                  <DialogTitle>Tambah Pengguna</DialogTitle>
+                  <DialogDescription>Buat akun login untuk staf klinik</DialogDescription>
+                </DialogHeader>
+
+                <div className="grid gap-4 py-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="new_username">Username *</Label>
+                    <Input
+                      id="new_username"
+                      value={formData.username}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData((prev: CreateUserInput) => ({ ...prev, username: e.target.value.toLowerCase() }))
+                      }
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="new_full_name">Nama Lengkap *</Label>
+                    <Input
+                      id="new_full_name"
+                      value={formData.full_name}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData((prev: CreateUserInput) => ({ ...prev, full_name: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="new_password">Password *</Label>
+                    <Input
+                      id="new_password"
+                      type="password"
+                      minLength={8}
+                      value={formData.password}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setFormData((prev: CreateUserInput) => ({ ...prev, password: e.target.value }))
+                      }
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Peran *</Label>
+                    <Select
+                      value={formData.role}
+                      onValueChange={(value: UserRole) =>
+                        setFormData((prev: CreateUserInput) => ({ ...prev, role: value }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ROLE_LABELS) as UserRole[]).map((role: UserRole) => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Batal
+                  </Button>
+                  <Button type="submit" disabled={isLoading}>
+                    {isLoading ? 'Menyimpan...' : 'Simpan'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {users.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">
+            {isLoading ? 'Memuat pengguna...' : 'Belum ada pengguna'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {users.map((user: User) => (
+              <div key={user.id} className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-2 p-3 border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{user.full_name}</span>
+                    {!user.is_active && <Badge variant="destructive">Nonaktif</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-500">@{user.username}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={user.role}
+                    onValueChange={(value: UserRole) => updateUser({ id: user.id, role: value })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ROLE_LABELS) as UserRole[]).map((role: UserRole) => (
+                        <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="sm" onClick={() => resetPassword(user)}>
+                    <KeyRound className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant={user.is_active ? 'destructive' : 'secondary'}
+                    size="sm"
+                    onClick={() => updateUser({ id: user.id, is_active: !user.is_active })}
+                  >
+                    {user.is_active ? 'Nonaktifkan' : 'Aktifkan'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,24 @@
+import type { DeleteBlockReason, DeleteResult } from '../../../server/src/schema';
+
+// Why the server refused a permanent delete, in words for the user
+export const DELETE_BLOCK_MESSAGES: Record<DeleteBlockReason, string> = {
+  NOT_FOUND: 'Data sudah tidak ada',
+  HAS_TRANSACTIONS: 'sudah tercatat dalam transaksi',
+  HAS_VISITS: 'sudah memiliki riwayat kunjungan',
+  HAS_APPOINTMENTS: 'sudah memiliki janji temu',
+  HAS_PURCHASE_ORDERS: 'sudah tercatat dalam pesanan pembelian',
+  HAS_STOCK_TAKES: 'sudah tercatat dalam stock opname',
+  HAS_SERVICE_PACKAGES: 'masih dipakai dalam paket layanan',
+  HAS_PROMOTIONS: 'masih dipakai dalam promosi',
+  HAS_PAYMENTS: 'sudah menerima pembayaran'
+};
+
+export function deleteResultMessage(name: string, result: DeleteResult): string {
+  if (result.deleted) {
+    return `${name} dihapus permanen`;
+  }
+  if (result.reason === 'NOT_FOUND' || result.reason === null) {
+    return DELETE_BLOCK_MESSAGES.NOT_FOUND;
+  }
+  return `${name} tidak dapat dihapus permanen karena ${DELETE_BLOCK_MESSAGES[result.reason]}. Data tetap diarsipkan agar riwayatnya tersimpan.`;
+}
@@ -0,0 +1,27 @@
+import type { ReportFile } from '../../../server/src/schema';
+
+// Save a base64-encoded file returned by the server through the browser's download flow
+export function downloadFile(file: ReportFile) {
+  const bytes = Uint8Array.from(atob(file.content_base64), char => char.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: file.mime_type }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  URL.revokeObjectURL(url);
+}
+
+// Open an HTML document returned by the server in a new window and send it to the printer
+export function printHtmlFile(file: ReportFile) {
+  const bytes = Uint8Array.from(atob(file.content_base64), char => char.charCodeAt(0));
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return;
+
+  printWindow.document.write(new TextDecoder().decode(bytes));
+  printWindow.document.close();
+  printWindow.print();
+}
@@ -0,0 +1,29 @@
+import type { UserRole } from '../../../server/src/schema';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Pemilik',
+  dokter: 'Dokter',
+  kasir: 'Kasir',
+  gudang: 'Gudang'
+};
+
+// Which roles may open each main tab; mirrors the procedure roles on the server
+export const TAB_ACCESS: Record<string, UserRole[]> = {
+  dashboard: ['owner', 'dokter', 'kasir', 'gudang'],
+  patients: ['owner', 'dokter', 'kasir'],
+  appointments: ['owner', 'dokter', 'kasir'],
+  medicines: ['owner', 'gudang'],
+  cashier: ['owner', 'kasir'],
+  reports: ['owner'],
+  audit: ['owner'],
+  settings: ['owner']
+};
+
+export const canAccessTab = (role: UserRole, tab: string) =>
+  TAB_ACCESS[tab]?.includes(role) ?? false;
+
+// Roles that may write clinical records (visits and procedure records)
+export const CLINICAL_ROLES: UserRole[] = ['owner', 'dokter'];
+
+// Roles that may approve a stock opname and post its variances to stock
+export const STOCK_APPROVER_ROLES: UserRole[] = ['owner'];
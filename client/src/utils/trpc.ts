@@ -2,9 +2,22 @@ import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+const AUTH_TOKEN_KEY = 'rumah_khitan_auth_token';
+
+export const getAuthToken = () => localStorage.getItem(AUTH_TOKEN_KEY);
+export const setAuthToken = (token: string) => localStorage.setItem(AUTH_TOKEN_KEY, token);
+export const clearAuthToken = () => localStorage.removeItem(AUTH_TOKEN_KEY);
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      headers() {
+        const token = getAuthToken();
+        return token ? { Authorization: `Bearer ${token}` } : {};
+      }
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
@@ -0,0 +1,11 @@
+import { sql } from 'drizzle-orm';
+import { db } from '.';
+
+// Extensions the schema relies on; drizzle-kit push does not create them, so this runs first
+export const ensureExtensions = async () => {
+  await db.execute(sql`create extension if not exists pg_trgm`);
+};
+
+if (import.meta.main) {
+  ensureExtensions().then(() => console.log('DB extensions ready'));
+}
@@ -7,19 +7,38 @@ import {
   integer, 
   boolean,
   pgEnum,
-  date
+  date,
+  jsonb,
+  unique,
+  uniqueIndex,
+  index
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
 
 // Enums
 export const genderEnum = pgEnum('gender', ['Laki-laki', 'Perempuan']);
 export const movementTypeEnum = pgEnum('movement_type', ['masuk', 'keluar']);
 export const paymentMethodEnum = pgEnum('payment_method', ['tunai', 'transfer', 'kartu']);
-export const paymentStatusEnum = pgEnum('payment_status', ['pending', 'paid', 'cancelled']);
+export const paymentStatusEnum = pgEnum('payment_status', ['pending', 'partially_paid', 'paid', 'cancelled']);
+export const userRoleEnum = pgEnum('user_role', ['owner', 'dokter', 'kasir', 'gudang']);
+export const appointmentStatusEnum = pgEnum('appointment_status', ['scheduled', 'completed', 'cancelled', 'no_show']);
+export const circumcisionMethodEnum = pgEnum('circumcision_method', ['konvensional', 'klamp', 'laser_electrocautery', 'stapler']);
+export const anesthesiaTypeEnum = pgEnum('anesthesia_type', ['lokal', 'blok_penis', 'topikal', 'umum']);
+export const followUpStatusEnum = pgEnum('follow_up_status', ['pending', 'completed', 'cancelled']);
+export const promotionDiscountTypeEnum = pgEnum('promotion_discount_type', ['percentage', 'fixed']);
+export const promotionScopeEnum = pgEnum('promotion_scope', ['service', 'bill']);
+export const refundItemTypeEnum = pgEnum('refund_item_type', ['service', 'medicine']);
+export const packageItemTypeEnum = pgEnum('package_item_type', ['service', 'medicine']);
+export const shiftStatusEnum = pgEnum('shift_status', ['open', 'closed']);
+export const stockReferenceTypeEnum = pgEnum('stock_reference_type', ['transaction', 'goods_receipt', 'stock_take']);
+export const stockTakeStatusEnum = pgEnum('stock_take_status', ['counting', 'approved', 'cancelled']);
+export const purchaseOrderStatusEnum = pgEnum('purchase_order_status', ['ordered', 'partially_received', 'received', 'cancelled']);
+export const woundHealingStatusEnum = pgEnum('wound_healing_status', ['baik', 'bengkak', 'infeksi', 'perdarahan', 'jahitan_terbuka']);
 
 // Patients table
 export const patientsTable = pgTable('patients', {
   id: serial('id').primaryKey(),
+  medical_record_number: text('medical_record_number').unique(), // No. RM from the medical_record_format setting; null until backfilled for patients registered before it
   name: text('name').notNull(),
   date_of_birth: date('date_of_birth').notNull(),
   gender: genderEnum('gender').notNull(),
@@ -27,8 +46,55 @@ export const patientsTable = pgTable('patients', {
   address: text('address'),
   emergency_contact: text('emergency_contact'),
   medical_notes: text('medical_notes'),
+  archived_at: timestamp('archived_at'), // Soft delete: hidden from lists and pickers, history kept
+  archived_by: integer('archived_by'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  // Trigram indexes for the fuzzy patient search (pg_trgm, see db/extensions.ts)
+  index('patients_name_trgm_idx').using('gin', table.name.op('gin_trgm_ops')),
+  index('patients_address_trgm_idx').using('gin', table.address.op('gin_trgm_ops')),
+  index('patients_emergency_contact_trgm_idx').using('gin', table.emergency_contact.op('gin_trgm_ops'))
+]);
+
+// Last sequence number handed out per medical record number period, keyed by the format with its date filled in ('RK-2026-{seq:5}')
+export const medicalRecordCountersTable = pgTable('medical_record_counters', {
+  scope: text('scope').primaryKey(),
+  last_value: integer('last_value').notNull()
+});
+
+// Parents/guardians; one guardian can be linked to several (sibling) patients
+export const guardiansTable = pgTable('guardians', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  relationship: text('relationship').notNull(), // Ayah, Ibu, Wali, etc.
+  nik: text('nik'), // 16-digit national ID number
+  phone: text('phone'),
+  address: text('address'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Patient-guardian junction table
+export const patientGuardiansTable = pgTable('patient_guardians', {
+  id: serial('id').primaryKey(),
+  patient_id: integer('patient_id').notNull(),
+  guardian_id: integer('guardian_id').notNull(),
+  is_primary: boolean('is_primary').default(false).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+}, (table) => [
+  unique().on(table.patient_id, table.guardian_id)
+]);
+
+// Duplicate patient records merged into another: the duplicate row is deleted and its last state kept here
+export const patientMergesTable = pgTable('patient_merges', {
+  id: serial('id').primaryKey(),
+  survivor_id: integer('survivor_id').notNull(),
+  merged_patient_id: integer('merged_patient_id').notNull(),
+  merged_patient: jsonb('merged_patient').$type<Record<string, unknown>>().notNull(),
+  moved_records: jsonb('moved_records').$type<Record<string, number>>().notNull(), // How many transactions, visits, etc. moved over
+  merged_by: integer('merged_by'),
+  created_at: timestamp('created_at').defaultNow().notNull()
 });
 
 // Medicines table
@@ -38,10 +104,25 @@ export const medicinesTable = pgTable('medicines', {
   description: text('description'),
   unit: text('unit').notNull(), // tablet, botol, strip, etc.
   price_per_unit: numeric('price_per_unit', { precision: 10, scale: 2 }).notNull(),
+  average_cost: numeric('average_cost', { precision: 10, scale: 2 }), // Moving-average purchase cost per unit; null until stock comes in at a known cost
   stock_quantity: integer('stock_quantity').notNull(),
   minimum_stock: integer('minimum_stock').notNull(),
   expiry_date: date('expiry_date'),
   supplier: text('supplier'),
+  archived_at: timestamp('archived_at'),
+  archived_by: integer('archived_by'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Delivered lots of a medicine; medicines.stock_quantity and expiry_date mirror the batches with stock left
+export const medicineBatchesTable = pgTable('medicine_batches', {
+  id: serial('id').primaryKey(),
+  medicine_id: integer('medicine_id').notNull(),
+  lot_number: text('lot_number'),
+  expiry_date: date('expiry_date'),
+  quantity: integer('quantity').notNull(), // Remaining units
+  purchase_price: numeric('purchase_price', { precision: 10, scale: 2 }),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -52,11 +133,102 @@ export const stockMovementsTable = pgTable('stock_movements', {
   medicine_id: integer('medicine_id').notNull(),
   movement_type: movementTypeEnum('movement_type').notNull(),
   quantity: integer('quantity').notNull(),
-  reference_id: integer('reference_id'), // reference to transaction if outgoing
+  reference_id: integer('reference_id'), // The transaction, goods receipt or stock take that moved the stock, by reference_type
+  reference_type: stockReferenceTypeEnum('reference_type'), // Null on older rows, whose reference is always a transaction
+  unit_cost: numeric('unit_cost', { precision: 10, scale: 2 }), // Purchase cost per unit of a stock-in, when known
   notes: text('notes'),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+// Companies medicines are bought from
+export const suppliersTable = pgTable('suppliers', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  contact_person: text('contact_person'),
+  phone: text('phone'),
+  address: text('address'),
+  notes: text('notes'),
+  is_active: boolean('is_active').default(true).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Orders placed with a supplier; the status follows what has been received against the lines
+export const purchaseOrdersTable = pgTable('purchase_orders', {
+  id: serial('id').primaryKey(),
+  supplier_id: integer('supplier_id').notNull(),
+  status: purchaseOrderStatusEnum('status').default('ordered').notNull(),
+  order_date: date('order_date').notNull(),
+  expected_date: date('expected_date'),
+  notes: text('notes'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+export const purchaseOrderItemsTable = pgTable('purchase_order_items', {
+  id: serial('id').primaryKey(),
+  purchase_order_id: integer('purchase_order_id').notNull(),
+  medicine_id: integer('medicine_id').notNull(),
+  quantity_ordered: integer('quantity_ordered').notNull(),
+  quantity_received: integer('quantity_received').default(0).notNull(),
+  expected_price: numeric('expected_price', { precision: 10, scale: 2 }).notNull() // Per unit, as quoted by the supplier
+});
+
+// A delivery against a purchase order; its lines put the units into stock
+export const goodsReceiptsTable = pgTable('goods_receipts', {
+  id: serial('id').primaryKey(),
+  purchase_order_id: integer('purchase_order_id').notNull(),
+  invoice_number: text('invoice_number'), // The supplier's invoice (faktur)
+  total_cost: numeric('total_cost', { precision: 12, scale: 2 }).notNull(),
+  notes: text('notes'),
+  received_at: timestamp('received_at').defaultNow().notNull()
+});
+
+export const goodsReceiptItemsTable = pgTable('goods_receipt_items', {
+  id: serial('id').primaryKey(),
+  goods_receipt_id: integer('goods_receipt_id').notNull(),
+  purchase_order_item_id: integer('purchase_order_item_id').notNull(),
+  medicine_id: integer('medicine_id').notNull(),
+  quantity: integer('quantity').notNull(),
+  unit_cost: numeric('unit_cost', { precision: 10, scale: 2 }).notNull(), // What was actually paid per unit
+  lot_number: text('lot_number'),
+  expiry_date: date('expiry_date'),
+  stock_movement_id: integer('stock_movement_id').notNull()
+});
+
+// A stock opname session; one is being counted at a time
+export const stockTakesTable = pgTable('stock_takes', {
+  id: serial('id').primaryKey(),
+  status: stockTakeStatusEnum('status').default('counting').notNull(),
+  notes: text('notes'),
+  started_by: integer('started_by').notNull(),
+  started_at: timestamp('started_at').defaultNow().notNull(),
+  approved_by: integer('approved_by'),
+  approved_at: timestamp('approved_at')
+}, (table) => [
+  uniqueIndex('stock_takes_one_counting').on(table.status).where(sql`${table.status} = 'counting'`)
+]);
+
+// Every medicine's stock frozen when the session started, next to what was counted on the shelf
+export const stockTakeItemsTable = pgTable('stock_take_items', {
+  id: serial('id').primaryKey(),
+  stock_take_id: integer('stock_take_id').notNull(),
+  medicine_id: integer('medicine_id').notNull(),
+  expected_quantity: integer('expected_quantity').notNull(),
+  counted_quantity: integer('counted_quantity'), // Null until counted
+  location: text('location'), // Shelf or cabinet where it was counted
+  unit_value: numeric('unit_value', { precision: 10, scale: 2 }).notNull(), // Cost per unit at the snapshot, to value the variance
+  stock_movement_id: integer('stock_movement_id') // The adjustment posted on approval, if there was a variance
+});
+
+// How many units of each batch a stock movement took or returned
+export const stockMovementBatchesTable = pgTable('stock_movement_batches', {
+  id: serial('id').primaryKey(),
+  movement_id: integer('movement_id').notNull(),
+  batch_id: integer('batch_id').notNull(),
+  quantity: integer('quantity').notNull()
+});
+
 // Services table
 export const servicesTable = pgTable('services', {
   id: serial('id').primaryKey(),
@@ -64,6 +236,47 @@ export const servicesTable = pgTable('services', {
   description: text('description'),
   price: numeric('price', { precision: 10, scale: 2 }).notNull(),
   is_active: boolean('is_active').default(true).notNull(),
+  follow_up_days: integer('follow_up_days').array().default([]).notNull(), // Control visits, in days after the procedure
+  archived_at: timestamp('archived_at'),
+  archived_by: integer('archived_by'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Service packages sold at one bundle price, e.g. "Paket Klamp + obat + kontrol 2x"
+export const servicePackagesTable = pgTable('service_packages', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  description: text('description'),
+  price: numeric('price', { precision: 10, scale: 2 }).notNull(), // Bundle price
+  is_active: boolean('is_active').default(true).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Services and medicines in a package; item_id points at services or medicines by item_type
+export const servicePackageItemsTable = pgTable('service_package_items', {
+  id: serial('id').primaryKey(),
+  package_id: integer('package_id').notNull(),
+  item_type: packageItemTypeEnum('item_type').notNull(),
+  item_id: integer('item_id').notNull(),
+  quantity: integer('quantity').notNull() // Per package
+});
+
+// Promotions redeemed with a code at the cashier: school holidays, Muharram, mass-circumcision days
+export const promotionsTable = pgTable('promotions', {
+  id: serial('id').primaryKey(),
+  code: text('code').notNull().unique(), // Stored in upper case
+  name: text('name').notNull(),
+  discount_type: promotionDiscountTypeEnum('discount_type').notNull(),
+  discount_value: numeric('discount_value', { precision: 10, scale: 2 }).notNull(), // Percent, or rupiah (per unit for a service promotion)
+  scope: promotionScopeEnum('scope').notNull(),
+  service_id: integer('service_id'), // Only for scope 'service'
+  valid_from: date('valid_from').notNull(),
+  valid_until: date('valid_until').notNull(),
+  usage_limit: integer('usage_limit'), // Null for unlimited
+  usage_count: integer('usage_count').default(0).notNull(),
+  is_active: boolean('is_active').default(true).notNull(),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
@@ -72,22 +285,104 @@ export const servicesTable = pgTable('services', {
 export const transactionsTable = pgTable('transactions', {
   id: serial('id').primaryKey(),
   patient_id: integer('patient_id').notNull(),
-  total_amount: numeric('total_amount', { precision: 10, scale: 2 }).notNull(),
+  total_amount: numeric('total_amount', { precision: 10, scale: 2 }).notNull(), // After discounts
+  discount_amount: numeric('discount_amount', { precision: 10, scale: 2 }).default('0').notNull(), // Sum of the line discounts
+  promotion_id: integer('promotion_id'),
   payment_method: paymentMethodEnum('payment_method').notNull(),
-  payment_status: paymentStatusEnum('payment_status').default('pending').notNull(),
+  payment_status: paymentStatusEnum('payment_status').default('pending').notNull(), // Follows paid_amount unless cancelled
+  paid_amount: numeric('paid_amount', { precision: 10, scale: 2 }).default('0').notNull(), // Sum of the payments
+  refunded_amount: numeric('refunded_amount', { precision: 10, scale: 2 }).default('0').notNull(), // Sum of the refunds
+  shift_id: integer('shift_id'), // Cashier shift the sale was made in
   notes: text('notes'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Payments received for a transaction: a down payment (DP) and later installments, each with its own method
+export const paymentsTable = pgTable('payments', {
+  id: serial('id').primaryKey(),
+  transaction_id: integer('transaction_id').notNull(),
+  amount: numeric('amount', { precision: 10, scale: 2 }).notNull(),
+  payment_method: paymentMethodEnum('payment_method').notNull(),
+  shift_id: integer('shift_id'), // Cashier shift whose drawer took the money; null when none was open
+  notes: text('notes'),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Refunds (credit notes) against a transaction: money paid back and the line items returned
+export const refundsTable = pgTable('refunds', {
+  id: serial('id').primaryKey(),
+  transaction_id: integer('transaction_id').notNull(),
+  amount: numeric('amount', { precision: 10, scale: 2 }).notNull(),
+  refund_method: paymentMethodEnum('refund_method').notNull(),
+  reason: text('reason').notNull(),
+  shift_id: integer('shift_id'), // Cashier shift whose drawer paid it back; null when none was open
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Line items of a refund; transaction_item_id points at transaction_services or transaction_medicines by item_type
+export const refundItemsTable = pgTable('refund_items', {
+  id: serial('id').primaryKey(),
+  refund_id: integer('refund_id').notNull(),
+  item_type: refundItemTypeEnum('item_type').notNull(),
+  transaction_item_id: integer('transaction_item_id').notNull(),
+  quantity: integer('quantity').notNull(),
+  amount: numeric('amount', { precision: 10, scale: 2 }).notNull()
+});
+
+// A turn at the cash drawer, from the opening float to the counted close; one shift is open at a time
+export const cashierShiftsTable = pgTable('cashier_shifts', {
+  id: serial('id').primaryKey(),
+  status: shiftStatusEnum('status').default('open').notNull(),
+  opening_float: numeric('opening_float', { precision: 10, scale: 2 }).notNull(), // Change in the drawer at the start
+  opened_by: integer('opened_by').notNull(),
+  opened_at: timestamp('opened_at').defaultNow().notNull(),
+  closed_by: integer('closed_by'),
+  closed_at: timestamp('closed_at'),
+  closing_notes: text('closing_notes')
+}, (table) => [
+  uniqueIndex('cashier_shifts_one_open').on(table.status).where(sql`${table.status} = 'open'`)
+]);
+
+// Cash in the drawer at closing, per banknote or coin value
+export const shiftCashCountsTable = pgTable('shift_cash_counts', {
+  id: serial('id').primaryKey(),
+  shift_id: integer('shift_id').notNull(),
+  denomination: integer('denomination').notNull(),
+  quantity: integer('quantity').notNull()
+});
+
+// Expected against counted money per payment method, fixed when the shift is closed
+export const shiftReconciliationsTable = pgTable('shift_reconciliations', {
+  id: serial('id').primaryKey(),
+  shift_id: integer('shift_id').notNull(),
+  payment_method: paymentMethodEnum('payment_method').notNull(),
+  expected_amount: numeric('expected_amount', { precision: 10, scale: 2 }).notNull(),
+  counted_amount: numeric('counted_amount', { precision: 10, scale: 2 }).notNull()
+});
+
+// Packages sold in a transaction; their services and medicines are expanded into the line tables
+export const transactionPackagesTable = pgTable('transaction_packages', {
+  id: serial('id').primaryKey(),
+  transaction_id: integer('transaction_id').notNull(),
+  package_id: integer('package_id').notNull(),
+  quantity: integer('quantity').notNull(),
+  price_per_unit: numeric('price_per_unit', { precision: 10, scale: 2 }).notNull(), // Bundle price at the time of sale
+  total_price: numeric('total_price', { precision: 10, scale: 2 }).notNull(), // Sum of the component lines after discounts
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
 // Transaction services junction table
 export const transactionServicesTable = pgTable('transaction_services', {
   id: serial('id').primaryKey(),
   transaction_id: integer('transaction_id').notNull(),
+  transaction_package_id: integer('transaction_package_id'), // Set when the line is part of a package
   service_id: integer('service_id').notNull(),
   quantity: integer('quantity').notNull(),
+  refunded_quantity: integer('refunded_quantity').default(0).notNull(),
   price_per_unit: numeric('price_per_unit', { precision: 10, scale: 2 }).notNull(),
-  total_price: numeric('total_price', { precision: 10, scale: 2 }).notNull(),
+  discount_amount: numeric('discount_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+  total_price: numeric('total_price', { precision: 10, scale: 2 }).notNull(), // price_per_unit x quantity less the discount
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
@@ -95,10 +390,14 @@ export const transactionServicesTable = pgTable('transaction_services', {
 export const transactionMedicinesTable = pgTable('transaction_medicines', {
   id: serial('id').primaryKey(),
   transaction_id: integer('transaction_id').notNull(),
+  transaction_package_id: integer('transaction_package_id'), // Set when the line is part of a package
   medicine_id: integer('medicine_id').notNull(),
   quantity: integer('quantity').notNull(),
+  refunded_quantity: integer('refunded_quantity').default(0).notNull(),
   price_per_unit: numeric('price_per_unit', { precision: 10, scale: 2 }).notNull(),
-  total_price: numeric('total_price', { precision: 10, scale: 2 }).notNull(),
+  discount_amount: numeric('discount_amount', { precision: 10, scale: 2 }).default('0').notNull(),
+  total_price: numeric('total_price', { precision: 10, scale: 2 }).notNull(), // price_per_unit x quantity less the discount
+  unit_cost: numeric('unit_cost', { precision: 10, scale: 2 }), // Cost of goods per unit at the moment of sale; null when the cost was unknown
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
@@ -111,9 +410,42 @@ export const patientVisitsTable = pgTable('patient_visits', {
   diagnosis: text('diagnosis'),
   treatment: text('treatment'),
   notes: text('notes'),
+  wound_healing_status: woundHealingStatusEnum('wound_healing_status'),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+// Structured circumcision procedure record, at most one per visit
+export const procedureRecordsTable = pgTable('procedure_records', {
+  id: serial('id').primaryKey(),
+  visit_id: integer('visit_id').notNull().unique(),
+  method: circumcisionMethodEnum('method').notNull(),
+  anesthesia_type: anesthesiaTypeEnum('anesthesia_type').notNull(),
+  anesthesia_dose: text('anesthesia_dose'),
+  operator_name: text('operator_name').notNull(),
+  assistant_name: text('assistant_name'),
+  start_time: timestamp('start_time').notNull(),
+  end_time: timestamp('end_time').notNull(),
+  blood_loss_ml: integer('blood_loss_ml'),
+  complications: text('complications'),
+  post_op_instructions: text('post_op_instructions'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Post-operative control visits generated from the follow-up rules of the services in a transaction
+export const followUpsTable = pgTable('follow_ups', {
+  id: serial('id').primaryKey(),
+  patient_id: integer('patient_id').notNull(),
+  transaction_id: integer('transaction_id').notNull(),
+  service_id: integer('service_id').notNull(),
+  day_offset: integer('day_offset').notNull(),
+  due_date: date('due_date').notNull(),
+  status: followUpStatusEnum('status').default('pending').notNull(),
+  visit_id: integer('visit_id'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
 // Settings table for customizable branding
 export const settingsTable = pgTable('settings', {
   id: serial('id').primaryKey(),
@@ -123,18 +455,92 @@ export const settingsTable = pgTable('settings', {
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Booked appointments; a completed appointment points at the transaction it was converted into
+export const appointmentsTable = pgTable('appointments', {
+  id: serial('id').primaryKey(),
+  patient_id: integer('patient_id').notNull(),
+  service_id: integer('service_id').notNull(),
+  start_time: timestamp('start_time').notNull(),
+  end_time: timestamp('end_time').notNull(),
+  status: appointmentStatusEnum('status').default('scheduled').notNull(),
+  notes: text('notes'),
+  transaction_id: integer('transaction_id'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Staff user accounts
+export const usersTable = pgTable('users', {
+  id: serial('id').primaryKey(),
+  username: text('username').notNull().unique(),
+  full_name: text('full_name').notNull(),
+  password_hash: text('password_hash').notNull(),
+  role: userRoleEnum('role').notNull(),
+  is_active: boolean('is_active').default(true).notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Login sessions (only a hash of the bearer token is stored)
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Audit trail of every mutation made through the API
+export const auditLogTable = pgTable('audit_log', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id'),
+  procedure: text('procedure').notNull(),
+  entity_type: text('entity_type'),
+  entity_id: text('entity_id'), // text so that settings can be keyed by their key
+  before: jsonb('before').$type<Record<string, unknown>>(),
+  after: jsonb('after').$type<Record<string, unknown>>(),
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
 // Define relations
 export const patientsRelations = relations(patientsTable, ({ many }) => ({
   transactions: many(transactionsTable),
-  visits: many(patientVisitsTable)
+  visits: many(patientVisitsTable),
+  appointments: many(appointmentsTable),
+  guardians: many(patientGuardiansTable),
+  followUps: many(followUpsTable)
+}));
+
+export const guardiansRelations = relations(guardiansTable, ({ many }) => ({
+  patients: many(patientGuardiansTable)
+}));
+
+export const patientGuardiansRelations = relations(patientGuardiansTable, ({ one }) => ({
+  patient: one(patientsTable, {
+    fields: [patientGuardiansTable.patient_id],
+    references: [patientsTable.id]
+  }),
+  guardian: one(guardiansTable, {
+    fields: [patientGuardiansTable.guardian_id],
+    references: [guardiansTable.id]
+  })
 }));
 
 export const medicinesRelations = relations(medicinesTable, ({ many }) => ({
+  batches: many(medicineBatchesTable),
   stockMovements: many(stockMovementsTable),
   transactionMedicines: many(transactionMedicinesTable)
 }));
 
-export const stockMovementsRelations = relations(stockMovementsTable, ({ one }) => ({
+export const medicineBatchesRelations = relations(medicineBatchesTable, ({ one, many }) => ({
+  medicine: one(medicinesTable, {
+    fields: [medicineBatchesTable.medicine_id],
+    references: [medicinesTable.id]
+  }),
+  movements: many(stockMovementBatchesTable)
+}));
+
+export const stockMovementsRelations = relations(stockMovementsTable, ({ one, many }) => ({
   medicine: one(medicinesTable, {
     fields: [stockMovementsTable.medicine_id],
     references: [medicinesTable.id]
@@ -142,11 +548,114 @@ export const stockMovementsRelations = relations(stockMovementsTable, ({ one })
   transaction: one(transactionsTable, {
     fields: [stockMovementsTable.reference_id],
     references: [transactionsTable.id]
+  }),
+  goodsReceipt: one(goodsReceiptsTable, {
+    fields: [stockMovementsTable.reference_id],
+    references: [goodsReceiptsTable.id]
+  }),
+  stockTake: one(stockTakesTable, {
+    fields: [stockMovementsTable.reference_id],
+    references: [stockTakesTable.id]
+  }),
+  batches: many(stockMovementBatchesTable)
+}));
+
+export const suppliersRelations = relations(suppliersTable, ({ many }) => ({
+  purchaseOrders: many(purchaseOrdersTable)
+}));
+
+export const purchaseOrdersRelations = relations(purchaseOrdersTable, ({ one, many }) => ({
+  supplier: one(suppliersTable, {
+    fields: [purchaseOrdersTable.supplier_id],
+    references: [suppliersTable.id]
+  }),
+  items: many(purchaseOrderItemsTable),
+  receipts: many(goodsReceiptsTable)
+}));
+
+export const purchaseOrderItemsRelations = relations(purchaseOrderItemsTable, ({ one }) => ({
+  purchaseOrder: one(purchaseOrdersTable, {
+    fields: [purchaseOrderItemsTable.purchase_order_id],
+    references: [purchaseOrdersTable.id]
+  }),
+  medicine: one(medicinesTable, {
+    fields: [purchaseOrderItemsTable.medicine_id],
+    references: [medicinesTable.id]
+  })
+}));
+
+export const goodsReceiptsRelations = relations(goodsReceiptsTable, ({ one, many }) => ({
+  purchaseOrder: one(purchaseOrdersTable, {
+    fields: [goodsReceiptsTable.purchase_order_id],
+    references: [purchaseOrdersTable.id]
+  }),
+  items: many(goodsReceiptItemsTable)
+}));
+
+export const goodsReceiptItemsRelations = relations(goodsReceiptItemsTable, ({ one }) => ({
+  goodsReceipt: one(goodsReceiptsTable, {
+    fields: [goodsReceiptItemsTable.goods_receipt_id],
+    references: [goodsReceiptsTable.id]
+  }),
+  purchaseOrderItem: one(purchaseOrderItemsTable, {
+    fields: [goodsReceiptItemsTable.purchase_order_item_id],
+    references: [purchaseOrderItemsTable.id]
+  }),
+  medicine: one(medicinesTable, {
+    fields: [goodsReceiptItemsTable.medicine_id],
+    references: [medicinesTable.id]
+  })
+}));
+
+export const stockTakesRelations = relations(stockTakesTable, ({ many }) => ({
+  items: many(stockTakeItemsTable)
+}));
+
+export const stockTakeItemsRelations = relations(stockTakeItemsTable, ({ one }) => ({
+  stockTake: one(stockTakesTable, {
+    fields: [stockTakeItemsTable.stock_take_id],
+    references: [stockTakesTable.id]
+  }),
+  medicine: one(medicinesTable, {
+    fields: [stockTakeItemsTable.medicine_id],
+    references: [medicinesTable.id]
+  })
+}));
+
+export const stockMovementBatchesRelations = relations(stockMovementBatchesTable, ({ one }) => ({
+  movement: one(stockMovementsTable, {
+    fields: [stockMovementBatchesTable.movement_id],
+    references: [stockMovementsTable.id]
+  }),
+  batch: one(medicineBatchesTable, {
+    fields: [stockMovementBatchesTable.batch_id],
+    references: [medicineBatchesTable.id]
   })
 }));
 
 export const servicesRelations = relations(servicesTable, ({ many }) => ({
-  transactionServices: many(transactionServicesTable)
+  transactionServices: many(transactionServicesTable),
+  appointments: many(appointmentsTable)
+}));
+
+export const servicePackagesRelations = relations(servicePackagesTable, ({ many }) => ({
+  items: many(servicePackageItemsTable),
+  transactionPackages: many(transactionPackagesTable)
+}));
+
+export const servicePackageItemsRelations = relations(servicePackageItemsTable, ({ one }) => ({
+  package: one(servicePackagesTable, {
+    fields: [servicePackageItemsTable.package_id],
+    references: [servicePackagesTable.id]
+  })
+}));
+
+export const promotionsRelations = relations(promotionsTable, ({ one, many }) => ({
+  service: one(servicesTable, {
+    fields: [promotionsTable.service_id],
+    references: [servicesTable.id]
+  }),
+  transactions: many(transactionsTable)
 }));
 
 export const transactionsRelations = relations(transactionsTable, ({ one, many }) => ({
@@ -154,8 +663,19 @@ export const transactionsRelations = relations(transactionsTable, ({ one, many }
     fields: [transactionsTable.patient_id],
     references: [patientsTable.id]
   }),
+  promotion: one(promotionsTable, {
+    fields: [transactionsTable.promotion_id],
+    references: [promotionsTable.id]
+  }),
+  packages: many(transactionPackagesTable),
   services: many(transactionServicesTable),
   medicines: many(transactionMedicinesTable),
+  payments: many(paymentsTable),
+  refunds: many(refundsTable),
+  shift: one(cashierShiftsTable, {
+    fields: [transactionsTable.shift_id],
+    references: [cashierShiftsTable.id]
+  }),
   stockMovements: many(stockMovementsTable),
   visit: one(patientVisitsTable, {
     fields: [transactionsTable.id],
@@ -163,11 +683,80 @@ export const transactionsRelations = relations(transactionsTable, ({ one, many }
   })
 }));
 
+export const paymentsRelations = relations(paymentsTable, ({ one }) => ({
+  transaction: one(transactionsTable, {
+    fields: [paymentsTable.transaction_id],
+    references: [transactionsTable.id]
+  })
+}));
+
+export const refundsRelations = relations(refundsTable, ({ one, many }) => ({
+  transaction: one(transactionsTable, {
+    fields: [refundsTable.transaction_id],
+    references: [transactionsTable.id]
+  }),
+  items: many(refundItemsTable)
+}));
+
+export const refundItemsRelations = relations(refundItemsTable, ({ one }) => ({
+  refund: one(refundsTable, {
+    fields: [refundItemsTable.refund_id],
+    references: [refundsTable.id]
+  })
+}));
+
+export const cashierShiftsRelations = relations(cashierShiftsTable, ({ one, many }) => ({
+  openedBy: one(usersTable, {
+    fields: [cashierShiftsTable.opened_by],
+    references: [usersTable.id],
+    relationName: 'shift_opened_by'
+  }),
+  closedBy: one(usersTable, {
+    fields: [cashierShiftsTable.closed_by],
+    references: [usersTable.id],
+    relationName: 'shift_closed_by'
+  }),
+  transactions: many(transactionsTable),
+  cashCounts: many(shiftCashCountsTable),
+  reconciliations: many(shiftReconciliationsTable)
+}));
+
+export const shiftCashCountsRelations = relations(shiftCashCountsTable, ({ one }) => ({
+  shift: one(cashierShiftsTable, {
+    fields: [shiftCashCountsTable.shift_id],
+    references: [cashierShiftsTable.id]
+  })
+}));
+
+export const shiftReconciliationsRelations = relations(shiftReconciliationsTable, ({ one }) => ({
+  shift: one(cashierShiftsTable, {
+    fields: [shiftReconciliationsTable.shift_id],
+    references: [cashierShiftsTable.id]
+  })
+}));
+
+export const transactionPackagesRelations = relations(transactionPackagesTable, ({ one, many }) => ({
+  transaction: one(transactionsTable, {
+    fields: [transactionPackagesTable.transaction_id],
+    references: [transactionsTable.id]
+  }),
+  package: one(servicePackagesTable, {
+    fields: [transactionPackagesTable.package_id],
+    references: [servicePackagesTable.id]
+  }),
+  services: many(transactionServicesTable),
+  medicines: many(transactionMedicinesTable)
+}));
+
 export const transactionServicesRelations = relations(transactionServicesTable, ({ one }) => ({
   transaction: one(transactionsTable, {
     fields: [transactionServicesTable.transaction_id],
     references: [transactionsTable.id]
   }),
+  transactionPackage: one(transactionPackagesTable, {
+    fields: [transactionServicesTable.transaction_package_id],
+    references: [transactionPackagesTable.id]
+  }),
   service: one(servicesTable, {
     fields: [transactionServicesTable.service_id],
     references: [servicesTable.id]
@@ -179,6 +768,10 @@ export const transactionMedicinesRelations = relations(transactionMedicinesTable
     fields: [transactionMedicinesTable.transaction_id],
     references: [transactionsTable.id]
   }),
+  transactionPackage: one(transactionPackagesTable, {
+    fields: [transactionMedicinesTable.transaction_package_id],
+    references: [transactionPackagesTable.id]
+  }),
   medicine: one(medicinesTable, {
     fields: [transactionMedicinesTable.medicine_id],
     references: [medicinesTable.id]
@@ -193,6 +786,66 @@ export const patientVisitsRelations = relations(patientVisitsTable, ({ one }) =>
   transaction: one(transactionsTable, {
     fields: [patientVisitsTable.transaction_id],
     references: [transactionsTable.id]
+  }),
+  procedure: one(procedureRecordsTable)
+}));
+
+export const followUpsRelations = relations(followUpsTable, ({ one }) => ({
+  patient: one(patientsTable, {
+    fields: [followUpsTable.patient_id],
+    references: [patientsTable.id]
+  }),
+  transaction: one(transactionsTable, {
+    fields: [followUpsTable.transaction_id],
+    references: [transactionsTable.id]
+  }),
+  service: one(servicesTable, {
+    fields: [followUpsTable.service_id],
+    references: [servicesTable.id]
+  }),
+  visit: one(patientVisitsTable, {
+    fields: [followUpsTable.visit_id],
+    references: [patientVisitsTable.id]
+  })
+}));
+
+export const procedureRecordsRelations = relations(procedureRecordsTable, ({ one }) => ({
+  visit: one(patientVisitsTable, {
+    fields: [procedureRecordsTable.visit_id],
+    references: [patientVisitsTable.id]
+  })
+}));
+
+export const appointmentsRelations = relations(appointmentsTable, ({ one }) => ({
+  patient: one(patientsTable, {
+    fields: [appointmentsTable.patient_id],
+    references: [patientsTable.id]
+  }),
+  service: one(servicesTable, {
+    fields: [appointmentsTable.service_id],
+    references: [servicesTable.id]
+  }),
+  transaction: one(transactionsTable, {
+    fields: [appointmentsTable.transaction_id],
+    references: [transactionsTable.id]
+  })
+}));
+
+export const usersRelations = relations(usersTable, ({ many }) => ({
+  sessions: many(sessionsTable)
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id]
+  })
+}));
+
+export const auditLogRelations = relations(auditLogTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [auditLogTable.user_id],
+    references: [usersTable.id]
   })
 }));
 
@@ -200,18 +853,81 @@ export const patientVisitsRelations = relations(patientVisitsTable, ({ one }) =>
 export type Patient = typeof patientsTable.$inferSelect;
 export type NewPatient = typeof patientsTable.$inferInsert;
 
+export type Guardian = typeof guardiansTable.$inferSelect;
+export type NewGuardian = typeof guardiansTable.$inferInsert;
+
+export type PatientGuardian = typeof patientGuardiansTable.$inferSelect;
+export type NewPatientGuardian = typeof patientGuardiansTable.$inferInsert;
+
 export type Medicine = typeof medicinesTable.$inferSelect;
 export type NewMedicine = typeof medicinesTable.$inferInsert;
 
+export type MedicineBatch = typeof medicineBatchesTable.$inferSelect;
+export type NewMedicineBatch = typeof medicineBatchesTable.$inferInsert;
+
 export type StockMovement = typeof stockMovementsTable.$inferSelect;
 export type NewStockMovement = typeof stockMovementsTable.$inferInsert;
 
+export type StockMovementBatch = typeof stockMovementBatchesTable.$inferSelect;
+export type NewStockMovementBatch = typeof stockMovementBatchesTable.$inferInsert;
+
+export type Supplier = typeof suppliersTable.$inferSelect;
+export type NewSupplier = typeof suppliersTable.$inferInsert;
+
+export type PurchaseOrder = typeof purchaseOrdersTable.$inferSelect;
+export type NewPurchaseOrder = typeof purchaseOrdersTable.$inferInsert;
+
+export type PurchaseOrderItem = typeof purchaseOrderItemsTable.$inferSelect;
+export type NewPurchaseOrderItem = typeof purchaseOrderItemsTable.$inferInsert;
+
+export type GoodsReceipt = typeof goodsReceiptsTable.$inferSelect;
+export type NewGoodsReceipt = typeof goodsReceiptsTable.$inferInsert;
+
+export type GoodsReceiptItem = typeof goodsReceiptItemsTable.$inferSelect;
+export type NewGoodsReceiptItem = typeof goodsReceiptItemsTable.$inferInsert;
+
+export type StockTake = typeof stockTakesTable.$inferSelect;
+export type NewStockTake = typeof stockTakesTable.$inferInsert;
+
+export type StockTakeItem = typeof stockTakeItemsTable.$inferSelect;
+export type NewStockTakeItem = typeof stockTakeItemsTable.$inferInsert;
+
 export type Service = typeof servicesTable.$inferSelect;
 export type NewService = typeof servicesTable.$inferInsert;
 
+export type ServicePackage = typeof servicePackagesTable.$inferSelect;
+export type NewServicePackage = typeof servicePackagesTable.$inferInsert;
+
+export type ServicePackageItem = typeof servicePackageItemsTable.$inferSelect;
+export type NewServicePackageItem = typeof servicePackageItemsTable.$inferInsert;
+
+export type Promotion = typeof promotionsTable.$inferSelect;
+export type NewPromotion = typeof promotionsTable.$inferInsert;
+
 export type Transaction = typeof transactionsTable.$inferSelect;
 export type NewTransaction = typeof transactionsTable.$inferInsert;
 
+export type Payment = typeof paymentsTable.$inferSelect;
+export type NewPayment = typeof paymentsTable.$inferInsert;
+
+export type Refund = typeof refundsTable.$inferSelect;
+export type NewRefund = typeof refundsTable.$inferInsert;
+
+export type RefundItem = typeof refundItemsTable.$inferSelect;
+export type NewRefundItem = typeof refundItemsTable.$inferInsert;
+
+export type CashierShift = typeof cashierShiftsTable.$inferSelect;
+export type NewCashierShift = typeof cashierShiftsTable.$inferInsert;
+
+export type ShiftCashCount = typeof shiftCashCountsTable.$inferSelect;
+export type NewShiftCashCount = typeof shiftCashCountsTable.$inferInsert;
+
+export type ShiftReconciliation = typeof shiftReconciliationsTable.$inferSelect;
+export type NewShiftReconciliation = typeof shiftReconciliationsTable.$inferInsert;
+
+export type TransactionPackage = typeof transactionPackagesTable.$inferSelect;
+export type NewTransactionPackage = typeof transactionPackagesTable.$inferInsert;
+
 export type TransactionService = typeof transactionServicesTable.$inferSelect;
 export type NewTransactionService = typeof transactionServicesTable.$inferInsert;
 
@@ -221,29 +937,101 @@ export type NewTransactionMedicine = typeof transactionMedicinesTable.$inferInse
 export type PatientVisit = typeof patientVisitsTable.$inferSelect;
 export type NewPatientVisit = typeof patientVisitsTable.$inferInsert;
 
+export type ProcedureRecord = typeof procedureRecordsTable.$inferSelect;
+export type NewProcedureRecord = typeof procedureRecordsTable.$inferInsert;
+
+export type FollowUp = typeof followUpsTable.$inferSelect;
+export type NewFollowUp = typeof followUpsTable.$inferInsert;
+
 export type Settings = typeof settingsTable.$inferSelect;
 export type NewSettings = typeof settingsTable.$inferInsert;
 
+export type Appointment = typeof appointmentsTable.$inferSelect;
+export type NewAppointment = typeof appointmentsTable.$inferInsert;
+
+export type User = typeof usersTable.$inferSelect;
+export type NewUser = typeof usersTable.$inferInsert;
+
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type AuditLog = typeof auditLogTable.$inferSelect;
+export type NewAuditLog = typeof auditLogTable.$inferInsert;
+
 // Export all tables and relations for proper query building
 export const tables = {
   patients: patientsTable,
+  guardians: guardiansTable,
+  patientGuardians: patientGuardiansTable,
   medicines: medicinesTable,
+  medicineBatches: medicineBatchesTable,
   stockMovements: stockMovementsTable,
+  stockMovementBatches: stockMovementBatchesTable,
+  suppliers: suppliersTable,
+  purchaseOrders: purchaseOrdersTable,
+  purchaseOrderItems: purchaseOrderItemsTable,
+  goodsReceipts: goodsReceiptsTable,
+  goodsReceiptItems: goodsReceiptItemsTable,
+  stockTakes: stockTakesTable,
+  stockTakeItems: stockTakeItemsTable,
   services: servicesTable,
+  servicePackages: servicePackagesTable,
+  servicePackageItems: servicePackageItemsTable,
+  promotions: promotionsTable,
   transactions: transactionsTable,
+  payments: paymentsTable,
+  refunds: refundsTable,
+  refundItems: refundItemsTable,
+  cashierShifts: cashierShiftsTable,
+  shiftCashCounts: shiftCashCountsTable,
+  shiftReconciliations: shiftReconciliationsTable,
+  transactionPackages: transactionPackagesTable,
   transactionServices: transactionServicesTable,
   transactionMedicines: transactionMedicinesTable,
   patientVisits: patientVisitsTable,
-  settings: settingsTable
+  procedureRecords: procedureRecordsTable,
+  followUps: followUpsTable,
+  settings: settingsTable,
+  appointments: appointmentsTable,
+  users: usersTable,
+  sessions: sessionsTable,
+  auditLog: auditLogTable
 };
 
 export const tableRelations = {
   patientsRelations,
+  guardiansRelations,
+  patientGuardiansRelations,
   medicinesRelations,
+  medicineBatchesRelations,
   stockMovementsRelations,
+  stockMovementBatchesRelations,
+  suppliersRelations,
+  purchaseOrdersRelations,
+  purchaseOrderItemsRelations,
+  goodsReceiptsRelations,
+  goodsReceiptItemsRelations,
+  stockTakesRelations,
+  stockTakeItemsRelations,
   servicesRelations,
+  servicePackagesRelations,
+  servicePackageItemsRelations,
+  promotionsRelations,
   transactionsRelations,
+  paymentsRelations,
+  refundsRelations,
+  refundItemsRelations,
+  cashierShiftsRelations,
+  shiftCashCountsRelations,
+  shiftReconciliationsRelations,
+  transactionPackagesRelations,
   transactionServicesRelations,
   transactionMedicinesRelations,
-  patientVisitsRelations
+  patientVisitsRelations,
+  procedureRecordsRelations,
+  followUpsRelations,
+  appointmentsRelations,
+  usersRelations,
+  sessionsRelations,
+  auditLogRelations
 };
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { type ReportFile } from '../schema';
+import { type CellValue, type ReportColumn } from './types';
+
+// Spreadsheet apps in Indonesian locale expect ';' between fields since ',' is the decimal separator
+const DELIMITERS = { standard: ',', indonesian: ';' } as const;
+
+// Local calendar day as YYYY-MM-DD
+function localDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function formatValue(value: CellValue, column: ReportColumn, indonesianFormat: boolean): string {
+  if (value === null || value === undefined) return '';
+
+  if (value instanceof Date) {
+    if (column.type === 'date') {
+      return indonesianFormat ? value.toLocaleDateString('id-ID') : localDateString(value);
+    }
+    return indonesianFormat ? value.toLocaleString('id-ID') : value.toISOString();
+  }
+
+  if (typeof value === 'number') {
+    return indonesianFormat ? value.toLocaleString('id-ID', { maximumFractionDigits: 2 }) : String(value);
+  }
+
+  // Date-only columns carry YYYY-MM-DD strings
+  if (column.type === 'date' && indonesianFormat && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-');
+    return `${day}/${month}/${year}`;
+  }
+
+  // Keep spreadsheet apps from evaluating text as a formula; phone numbers like +62 812-34 are left alone
+  const isFormula = /^[=@]/.test(value) || /^[+-](?![\d\s()-]*$)/.test(value);
+  return isFormula ? `'${value}` : value;
+}
+
+function escapeField(field: string, delimiter: string): string {
+  return field.includes(delimiter) || /["\r\n]/.test(field)
+    ? `"${field.replace(/"/g, '""')}"`
+    : field;
+}
+
+export function renderCsv(columns: ReportColumn[], rows: CellValue[][], indonesianFormat = false): Buffer {
+  const delimiter = indonesianFormat ? DELIMITERS.indonesian : DELIMITERS.standard;
+  const lines = [
+    columns.map(column => escapeField(column.header, delimiter)).join(delimiter),
+    ...rows.map(row =>
+      row.map((value, index) => escapeField(formatValue(value, columns[index], indonesianFormat), delimiter)).join(delimiter)
+    )
+  ];
+
+  // The byte order mark makes Excel read the file as UTF-8
+  return Buffer.from(`\uFEFF${lines.join('\r\n')}\r\n`, 'utf8');
+}
+
+// CSV export named after the data set and the day it was taken, e.g. transaksi-2024-03-31.csv
+export function csvFile(name: string, columns: ReportColumn[], rows: CellValue[][], indonesianFormat = false): ReportFile {
+  return {
+    filename: `${name}-${localDateString(new Date())}.csv`,
+    mime_type: 'text/csv',
+    content_base64: renderCsv(columns, rows, indonesianFormat).toString('base64')
+  };
+}
+
+// Guess the field separator from the header line: ',' or the ';' used by Indonesian-locale spreadsheets
+function detectDelimiter(text: string): string {
+  const headerLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: headerLine.split(delimiter).length }));
+  return counts.reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).delimiter;
+}
+
+// Parse CSV text (RFC 4180 quoting) into rows of fields; blank lines are skipped
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
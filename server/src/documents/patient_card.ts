@@ -0,0 +1,31 @@
+import { type Patient } from '../schema';
+import { type Letterhead, type TextLine } from './types';
+import { renderTextPdf } from './pdf';
+import { wrap } from './receipt';
+
+// Credit-card size (ID-1, 85.6 x 54 mm), in the receipt font at 32 characters per line
+const CARD_WIDTH_MM = 86;
+const COLUMNS = 32;
+
+const labelled = (label: string, value: string) =>
+  wrap(`${label.padEnd(10)}: ${value}`, COLUMNS).map(text => ({ text }));
+
+// Kartu Pasien: the clinic, the patient's medical record number in large type and who it belongs to
+export function patientCardLines(patient: Patient, letterhead: Letterhead): TextLine[] {
+  const [year, month, day] = patient.date_of_birth.toISOString().split('T')[0].split('-');
+
+  return [
+    ...wrap(letterhead.name, COLUMNS).map(text => ({ text, align: 'center' as const, bold: true })),
+    { text: 'KARTU PASIEN', align: 'center' },
+    { text: '-'.repeat(COLUMNS) },
+    { text: patient.medical_record_number ?? '', align: 'center', bold: true, large: true },
+    ...labelled('Nama', patient.name),
+    ...labelled('Tgl. Lahir', `${day}-${month}-${year}`),
+    ...labelled('Kelamin', patient.gender),
+    ...(letterhead.phone ? [{ text: '' }, { text: `Telp. klinik ${letterhead.phone}`, align: 'center' as const }] : [])
+  ];
+}
+
+export function renderPatientCardPdf(patient: Patient, letterhead: Letterhead): Buffer {
+  return renderTextPdf(patientCardLines(patient, letterhead), CARD_WIDTH_MM, COLUMNS);
+}
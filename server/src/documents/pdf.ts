@@ -0,0 +1,254 @@
+import { type CellValue, type ReportColumn, type ReportDocument, type ReportSection, type TextLine } from './types';
+
+// A4 portrait, in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 30;
+
+const TABLE_FONT_SIZE = 9;
+const ROW_HEIGHT = 16;
+const CELL_PADDING = 4;
+
+type Font = 'F1' | 'F2' | 'F3' | 'F4'; // Helvetica, Helvetica-Bold, Courier, Courier-Bold
+
+// Approximate Helvetica glyph widths (per 1pt of font size), good enough for alignment and truncation
+function charWidth(char: string): number {
+  if (/[0-9]/.test(char)) return 0.556;
+  if (/[.,:;'|!il ]/.test(char)) return 0.278;
+  if (/[A-Z]/.test(char)) return 0.667;
+  if (/[a-z]/.test(char)) return 0.5;
+  return 0.556;
+}
+
+export function textWidth(text: string, size: number): number {
+  let width = 0;
+  for (const char of text) {
+    width += charWidth(char) * size;
+  }
+  return width;
+}
+
+function truncate(text: string, maxWidth: number, size: number): string {
+  if (textWidth(text, size) <= maxWidth) return text;
+  let result = text;
+  while (result.length > 0 && textWidth(`${result}...`, size) > maxWidth) {
+    result = result.slice(0, -1);
+  }
+  return `${result}...`;
+}
+
+// PDF string literal in WinAnsi; characters outside Latin-1 become '?'
+function pdfString(text: string): string {
+  const latin1 = Array.from(text.replace(/[\r\n\t]+/g, ' '))
+    .map(char => (char.charCodeAt(0) <= 0xff ? char : '?'))
+    .join('');
+  return `(${latin1.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)')})`;
+}
+
+const formatNumber = (value: number) => value.toLocaleString('id-ID', { maximumFractionDigits: 2 });
+
+function formatCell(value: CellValue, column: ReportColumn): string {
+  if (value === null || value === undefined) return '-';
+  if (value instanceof Date) return value.toLocaleString('id-ID');
+  if (typeof value === 'number') {
+    return column.type === 'money' ? `Rp ${formatNumber(value)}` : formatNumber(value);
+  }
+  return value;
+}
+
+// Lays the document out on pages as PDF content-stream operators
+class PageWriter {
+  pages: string[][] = [[]];
+  y = MARGIN; // Distance from the top of the page
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  newPage(): void {
+    this.pages.push([]);
+    this.y = MARGIN;
+  }
+
+  ensureSpace(height: number): boolean {
+    if (this.y + height > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+      this.newPage();
+      return true;
+    }
+    return false;
+  }
+
+  text(x: number, top: number, text: string, size: number, font: Font = 'F1', gray = 0): void {
+    const baseline = PAGE_HEIGHT - top - size;
+    this.ops.push(`BT ${gray} g /${font} ${size} Tf ${x.toFixed(2)} ${baseline.toFixed(2)} Td ${pdfString(text)} Tj ET`);
+  }
+
+  line(x1: number, top1: number, x2: number, top2: number, width = 0.5): void {
+    this.ops.push(`${width} w ${x1.toFixed(2)} ${(PAGE_HEIGHT - top1).toFixed(2)} m ${x2.toFixed(2)} ${(PAGE_HEIGHT - top2).toFixed(2)} l S`);
+  }
+
+  fill(x: number, top: number, width: number, height: number, gray: number): void {
+    this.ops.push(`${gray} g ${x.toFixed(2)} ${(PAGE_HEIGHT - top - height).toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re f 0 g`);
+  }
+}
+
+function columnWidths(columns: ReportColumn[]): number[] {
+  // Text columns get twice the room of numeric ones
+  const weights = columns.map(column => (column.type === 'number' || column.type === 'money' ? 1 : 2));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map(weight => (CONTENT_WIDTH * weight) / total);
+}
+
+function writeRow(writer: PageWriter, cells: string[], columns: ReportColumn[], widths: number[], font: Font): void {
+  let x = MARGIN;
+  cells.forEach((cell, index) => {
+    const available = widths[index] - CELL_PADDING * 2;
+    const text = truncate(cell, available, TABLE_FONT_SIZE);
+    const isNumeric = columns[index].type === 'number' || columns[index].type === 'money';
+    const textX = isNumeric
+      ? x + widths[index] - CELL_PADDING - textWidth(text, TABLE_FONT_SIZE)
+      : x + CELL_PADDING;
+    writer.text(textX, writer.y + (ROW_HEIGHT - TABLE_FONT_SIZE) / 2, text, TABLE_FONT_SIZE, font);
+    x += widths[index];
+  });
+  writer.y += ROW_HEIGHT;
+  writer.line(MARGIN, writer.y, MARGIN + CONTENT_WIDTH, writer.y, 0.25);
+}
+
+function writeSection(writer: PageWriter, section: ReportSection): void {
+  const widths = columnWidths(section.columns);
+  const headers = section.columns.map(column => column.header);
+
+  const writeHeader = () => {
+    writer.fill(MARGIN, writer.y, CONTENT_WIDTH, ROW_HEIGHT, 0.9);
+    writeRow(writer, headers, section.columns, widths, 'F2');
+  };
+
+  // Keep the section title together with its header and first row
+  writer.ensureSpace(24 + ROW_HEIGHT * 2);
+  writer.text(MARGIN, writer.y, section.title, 12, 'F2');
+  writer.y += 20;
+  writeHeader();
+
+  if (section.rows.length === 0) {
+    writer.text(MARGIN + CELL_PADDING, writer.y + 4, 'Tidak ada data', TABLE_FONT_SIZE, 'F1', 0.5);
+    writer.y += ROW_HEIGHT;
+  }
+
+  for (const row of section.rows) {
+    if (writer.ensureSpace(ROW_HEIGHT)) {
+      writeHeader();
+    }
+    writeRow(writer, row.map((value, index) => formatCell(value, section.columns[index])), section.columns, widths, 'F1');
+  }
+
+  writer.y += 18;
+}
+
+function assemble(pages: string[][], pageWidth = PAGE_WIDTH, pageHeight = PAGE_HEIGHT): Buffer {
+  const objects: string[] = [];
+  const pageObjectIds: number[] = [];
+
+  // 1: catalog, 2: page tree, 3-6: fonts, then a page object and a content stream per page
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>';
+  objects[6] = '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((ops, index) => {
+    const pageId = 7 + index * 2;
+    const contentId = pageId + 1;
+    const stream = ops.join('\n');
+    pageObjectIds.push(pageId);
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth.toFixed(2)} ${pageHeight.toFixed(2)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R /F3 5 0 R /F4 6 0 R >> >> /Contents ${contentId} 0 R >>`;
+    objects[contentId] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageObjectIds.length} >>`;
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, 'latin1');
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
+
+// Render a report as a PDF with the clinic letterhead on the first page and page numbers in the footer
+export function renderPdf(document: ReportDocument, generatedAt: Date = new Date()): Buffer {
+  const writer = new PageWriter();
+  const { letterhead } = document;
+
+  writer.text(MARGIN, writer.y, letterhead.name, 16, 'F2');
+  writer.y += 20;
+  const contact = [letterhead.address, letterhead.phone ? `Telp. ${letterhead.phone}` : ''].filter(Boolean).join(' - ');
+  if (contact) {
+    writer.text(MARGIN, writer.y, contact, 9, 'F1', 0.3);
+    writer.y += 13;
+  }
+  writer.line(MARGIN, writer.y + 2, MARGIN + CONTENT_WIDTH, writer.y + 2, 1.5);
+  writer.y += 16;
+
+  writer.text(MARGIN, writer.y, document.title, 14, 'F2');
+  writer.y += 18;
+  writer.text(MARGIN, writer.y, document.subtitle, 10, 'F1', 0.3);
+  writer.y += 24;
+
+  for (const section of document.sections) {
+    writeSection(writer, section);
+  }
+
+  const printed = generatedAt.toLocaleString('id-ID');
+  writer.pages.forEach((ops, index) => {
+    const footerTop = PAGE_HEIGHT - MARGIN - 10;
+    const pageLabel = `Halaman ${index + 1} dari ${writer.pages.length}`;
+    ops.push(`BT 0.5 g /F1 8 Tf ${MARGIN} ${(PAGE_HEIGHT - footerTop - 8).toFixed(2)} Td ${pdfString(`Dicetak ${printed}`)} Tj ET`);
+    ops.push(`BT 0.5 g /F1 8 Tf ${(MARGIN + CONTENT_WIDTH - textWidth(pageLabel, 8)).toFixed(2)} ${(PAGE_HEIGHT - footerTop - 8).toFixed(2)} Td ${pdfString(pageLabel)} Tj ET`);
+  });
+
+  return assemble(writer.pages);
+}
+
+const MM_TO_POINTS = 72 / 25.4;
+const TEXT_MARGIN = 8;
+const COURIER_CHAR_WIDTH = 0.6; // Per 1pt of font size
+
+/**
+ * Render fixed-width text lines (a thermal receipt) on a single page as wide as
+ * the paper roll and as tall as the text, in Courier sized to fit `columns` characters.
+ */
+export function renderTextPdf(lines: TextLine[], paperWidthMm: number, columns: number): Buffer {
+  const pageWidth = paperWidthMm * MM_TO_POINTS;
+  const size = (pageWidth - TEXT_MARGIN * 2) / (columns * COURIER_CHAR_WIDTH);
+  const leading = size * 1.25;
+  const pageHeight = TEXT_MARGIN * 2 + lines.reduce((height, line) => height + leading * (line.large ? 2 : 1), 0);
+
+  const ops: string[] = [];
+  let top = TEXT_MARGIN;
+  for (const line of lines) {
+    const lineHeight = leading * (line.large ? 2 : 1);
+    const width = line.text.length * size * COURIER_CHAR_WIDTH;
+    const x = line.align === 'center' ? (pageWidth - width) / 2 : TEXT_MARGIN;
+    const baseline = pageHeight - top - lineHeight + (leading - size) / 2;
+    // Large lines: double the font size and halve the horizontal scale to keep the width
+    const font = line.bold || line.large ? 'F4' : 'F3';
+    const fontSize = line.large ? size * 2 : size;
+    ops.push(`BT /${font} ${fontSize.toFixed(2)} Tf ${line.large ? 50 : 100} Tz ${x.toFixed(2)} ${baseline.toFixed(2)} Td ${pdfString(line.text)} Tj ET`);
+    top += lineHeight;
+  }
+
+  return assemble([ops], pageWidth, pageHeight);
+}
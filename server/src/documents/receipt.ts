@@ -0,0 +1,206 @@
+import { type Receipt, type ReceiptPaperWidth } from '../schema';
+import { type TextLine } from './types';
+import { renderTextPdf } from './pdf';
+
+// Characters per line in the printers' default font (12x24 dots)
+const COLUMNS: Record<ReceiptPaperWidth, number> = {
+  '58': 32,
+  '80': 48
+};
+
+const PAYMENT_METHOD_LABELS: Record<Receipt['transaction']['payment_method'], string> = {
+  tunai: 'Tunai',
+  transfer: 'Transfer',
+  kartu: 'Kartu'
+};
+
+const PAYMENT_STATUS_LABELS: Record<Receipt['transaction']['payment_status'], string> = {
+  pending: 'Belum Lunas',
+  partially_paid: 'Dibayar Sebagian',
+  paid: 'Lunas',
+  cancelled: 'Dibatalkan'
+};
+
+const formatMoney = (value: number) => `Rp ${value.toLocaleString('id-ID', { maximumFractionDigits: 2 })}`;
+
+// Break text on spaces into lines of at most `width` characters; longer words are split
+export function wrap(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.replace(/\s+/g, ' ').trim().split(' ')) {
+    if (!word) continue;
+    let rest = word;
+    while (rest.length > width) {
+      if (current) {
+        lines.push(current);
+        current = '';
+      }
+      lines.push(rest.slice(0, width));
+      rest = rest.slice(width);
+    }
+    if (!current) {
+      current = rest;
+    } else if (current.length + 1 + rest.length <= width) {
+      current += ` ${rest}`;
+    } else {
+      lines.push(current);
+      current = rest;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+// Left text and right-aligned value on one line, or on two when they do not fit
+function spread(left: string, right: string, width: number): string[] {
+  if (left.length + 1 + right.length <= width) {
+    return [left + ' '.repeat(width - left.length - right.length) + right];
+  }
+  return [...(left.length <= width ? [left] : wrap(left, width)), right.padStart(width)];
+}
+
+/**
+ * Lay a receipt out as fixed-width lines; the ESC/POS, HTML and PDF outputs all
+ * print these same lines so a receipt looks alike on every printer.
+ */
+export function receiptLines(receipt: Receipt, paperWidth: ReceiptPaperWidth): TextLine[] {
+  const width = COLUMNS[paperWidth];
+  const lines: TextLine[] = [];
+  const center = (text: string, options: Omit<TextLine, 'text' | 'align'> = {}) =>
+    wrap(text, width).forEach(part => lines.push({ text: part, align: 'center', ...options }));
+  const left = (texts: string[], options: Omit<TextLine, 'text' | 'align'> = {}) =>
+    texts.forEach(text => lines.push({ text, ...options }));
+  const rule = (char: string) => lines.push({ text: char.repeat(width) });
+
+  const { clinic_info, transaction, patient, guardian } = receipt;
+
+  center(clinic_info.name, { bold: true, large: true });
+  if (clinic_info.address) center(clinic_info.address);
+  if (clinic_info.phone) center(`Telp. ${clinic_info.phone}`);
+  rule('=');
+
+  left(spread('No. Struk', `#${transaction.id}`, width));
+  left(spread('Tanggal', transaction.created_at.toLocaleString('id-ID', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  }), width));
+  left(spread('Pasien', patient.name, width));
+  if (patient.medical_record_number) {
+    left(spread('No. RM', patient.medical_record_number, width));
+  }
+  if (guardian) {
+    left(spread('Wali', `${guardian.name} (${guardian.relationship})`, width));
+  }
+  rule('-');
+
+  for (const item of receipt.items) {
+    left(wrap(item.name, width));
+    left(spread(
+      `  ${item.quantity} ${item.unit} x ${formatMoney(item.price_per_unit)}`,
+      formatMoney(item.total_price + item.discount_amount),
+      width
+    ));
+    if (item.discount_amount > 0) {
+      left(spread('  Diskon', `-${formatMoney(item.discount_amount)}`, width));
+    }
+  }
+  if (receipt.items.length > 0) rule('-');
+
+  if (transaction.discount_amount > 0) {
+    left(spread('Subtotal', formatMoney(transaction.total_amount + transaction.discount_amount), width));
+    const label = transaction.promo_code ? `Diskon (${transaction.promo_code})` : 'Diskon';
+    left(spread(label, `-${formatMoney(transaction.discount_amount)}`, width));
+  }
+
+  left(spread('TOTAL', formatMoney(transaction.total_amount), width), { bold: true });
+  if (receipt.payments.length > 0) {
+    for (const payment of receipt.payments) {
+      left(spread(`Bayar (${PAYMENT_METHOD_LABELS[payment.payment_method]})`, formatMoney(payment.amount), width));
+    }
+  } else {
+    left(spread('Pembayaran', PAYMENT_METHOD_LABELS[transaction.payment_method], width));
+  }
+  if (transaction.remaining_amount > 0) {
+    left(spread('Sisa', formatMoney(transaction.remaining_amount), width), { bold: true });
+  }
+  left(spread('Status', PAYMENT_STATUS_LABELS[transaction.payment_status], width));
+  if (transaction.notes) {
+    left(wrap(`Catatan: ${transaction.notes}`, width));
+  }
+  rule('=');
+
+  if (receipt.footer_message) center(receipt.footer_message);
+  return lines;
+}
+
+// ESC/POS printers take single-byte text; drop accents and replace anything else outside ASCII
+const toPrinterText = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]/g, '?');
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+/**
+ * ESC/POS byte stream for a thermal printer: initialize, print the lines with
+ * alignment, bold and double height, feed past the tear bar and cut.
+ */
+export function renderEscPos(receipt: Receipt, paperWidth: ReceiptPaperWidth): Buffer {
+  const bytes: number[] = [ESC, 0x40]; // ESC @: reset to defaults
+
+  for (const line of receiptLines(receipt, paperWidth)) {
+    bytes.push(ESC, 0x61, line.align === 'center' ? 1 : 0); // ESC a: justification
+    bytes.push(ESC, 0x45, line.bold ? 1 : 0); // ESC E: emphasis
+    bytes.push(GS, 0x21, line.large ? 0x01 : 0x00); // GS !: double height
+    bytes.push(...Buffer.from(toPrinterText(line.text), 'ascii'), LF);
+  }
+
+  bytes.push(ESC, 0x64, 4); // ESC d: feed 4 lines
+  bytes.push(GS, 0x56, 0x42, 0); // GS V: feed to the cutter and partial cut
+  return Buffer.from(bytes);
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Printable page for browsers without a thermal printer driver, sized to the paper roll
+export function renderReceiptHtml(receipt: Receipt, paperWidth: ReceiptPaperWidth): string {
+  // Monospace glyphs are 0.6em wide: size the font so a full line spans the printable width
+  const printableWidth = Number(paperWidth) - 6;
+  const fontSize = printableWidth / (COLUMNS[paperWidth] * 0.6);
+  const body = receiptLines(receipt, paperWidth)
+    .map(line => {
+      const classes = [line.align === 'center' ? 'center' : '', line.bold ? 'bold' : '', line.large ? 'large' : '']
+        .filter(Boolean)
+        .join(' ');
+      return `<div${classes ? ` class="${classes}"` : ''}>${escapeHtml(line.text) || '&nbsp;'}</div>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="id">
+<head>
+<meta charset="utf-8">
+<title>Struk #${receipt.transaction.id}</title>
+<style>
+  @page { size: ${paperWidth}mm auto; margin: 0; }
+  body { margin: 0; padding: 3mm; width: ${printableWidth}mm; font-family: 'Courier New', monospace; }
+  div { white-space: pre; font-size: ${fontSize.toFixed(2)}mm; line-height: 1.25; }
+  .center { text-align: center; white-space: pre-wrap; }
+  .bold { font-weight: bold; }
+  .large { font-size: ${(fontSize * 1.4).toFixed(2)}mm; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+export function renderReceiptPdf(receipt: Receipt, paperWidth: ReceiptPaperWidth): Buffer {
+  return renderTextPdf(receiptLines(receipt, paperWidth), Number(paperWidth), COLUMNS[paperWidth]);
+}
@@ -0,0 +1,36 @@
+// Format-independent description of a tabular report, rendered by pdf.ts, xlsx.ts and csv.ts
+
+// Date-only values are 'YYYY-MM-DD' strings; timestamps are Dates
+export type CellValue = string | number | Date | null;
+
+export interface ReportColumn {
+  header: string;
+  type?: 'text' | 'number' | 'money' | 'date' | 'datetime'; // Numbers are right-aligned; money is printed as rupiah in PDFs
+}
+
+export interface ReportSection {
+  title: string;
+  columns: ReportColumn[];
+  rows: CellValue[][];
+}
+
+export interface Letterhead {
+  name: string;
+  address: string;
+  phone: string;
+}
+
+export interface ReportDocument {
+  letterhead: Letterhead;
+  title: string;
+  subtitle: string;
+  sections: ReportSection[];
+}
+
+// One line of a fixed-width text document such as a thermal receipt, at most the paper's column count long
+export interface TextLine {
+  text: string;
+  align?: 'left' | 'center';
+  bold?: boolean;
+  large?: boolean; // Double height, same width
+}
@@ -0,0 +1,351 @@
+import { deflateRawSync, inflateRawSync } from 'node:zlib';
+import { type CellValue, type ReportDocument, type ReportSection } from './types';
+
+// CRC-32 as required by the zip container
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Minimal zip writer (deflate, no zip64) for the handful of small XML parts in a workbook
+function zip(files: { name: string; content: string }[], modifiedAt: Date): Buffer {
+  const dosTime = (modifiedAt.getHours() << 11) | (modifiedAt.getMinutes() << 5) | Math.floor(modifiedAt.getSeconds() / 2);
+  const dosDate = ((modifiedAt.getFullYear() - 1980) << 9) | ((modifiedAt.getMonth() + 1) << 5) | modifiedAt.getDate();
+
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const data = Buffer.from(file.content, 'utf8');
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // Version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // Deflate
+    local.writeUInt16LE(dosTime, 10);
+    local.writeUInt16LE(dosDate, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+    localParts.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(dosTime, 12);
+    central.writeUInt16LE(dosDate, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+// A1-style column letters: 0 -> A, 26 -> AA
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Style ids from styles.xml: 0 default, 1 bold, 2 thousands-separated number
+const STYLE_BOLD = 1;
+const STYLE_NUMBER = 2;
+
+function cellXml(value: CellValue, ref: string, style?: number): string {
+  const styleAttr = style ? ` s="${style}"` : '';
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number') {
+    return `<c r="${ref}"${styleAttr}><v>${Number.isFinite(value) ? value : 0}</v></c>`;
+  }
+  const text = value instanceof Date ? value.toLocaleString('id-ID') : value;
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+function rowXml(index: number, cells: string[]): string {
+  return `<row r="${index}">${cells.join('')}</row>`;
+}
+
+function sheetXml(section: ReportSection): string {
+  const rows: string[] = [];
+  rows.push(rowXml(1, section.columns.map((column, i) => cellXml(column.header, `${columnName(i)}1`, STYLE_BOLD))));
+
+  section.rows.forEach((row, rowIndex) => {
+    const rowNumber = rowIndex + 2;
+    rows.push(rowXml(rowNumber, row.map((value, i) => {
+      const type = section.columns[i]?.type;
+      const style = type === 'money' || type === 'number' ? STYLE_NUMBER : undefined;
+      return cellXml(value, `${columnName(i)}${rowNumber}`, style);
+    })));
+  });
+
+  const cols = section.columns
+    .map((column, i) => `<col min="${i + 1}" max="${i + 1}" width="${column.type === 'number' || column.type === 'money' ? 16 : 28}" customWidth="1"/>`)
+    .join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<cols>${cols}</cols>` +
+    `<sheetData>${rows.join('')}</sheetData>` +
+    '</worksheet>';
+}
+
+// The cover sheet repeats the letterhead and report title above the first section
+function coverSection(document: ReportDocument): ReportSection {
+  const { letterhead } = document;
+  return {
+    title: 'Info',
+    columns: [{ header: letterhead.name }],
+    rows: [
+      [letterhead.address || null],
+      [letterhead.phone ? `Telp. ${letterhead.phone}` : null],
+      [null],
+      [document.title],
+      [document.subtitle]
+    ]
+  };
+}
+
+// Sheet names: at most 31 characters, unique, without []:*?/\
+function sheetNames(sections: ReportSection[]): string[] {
+  const used = new Set<string>();
+  return sections.map(section => {
+    const base = section.title.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+// Render a report as an XLSX workbook: a cover sheet with the letterhead, then one sheet per section
+export function renderXlsx(document: ReportDocument, generatedAt: Date = new Date()): Buffer {
+  return renderWorkbook([coverSection(document), ...document.sections], generatedAt);
+}
+
+// One worksheet per section, named after its title
+export function renderWorkbook(sections: ReportSection[], generatedAt: Date = new Date()): Buffer {
+  const names = sheetNames(sections);
+
+  const files = [
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sections.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>` +
+        '</workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sections.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+        `<Relationship Id="rId${sections.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/styles.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="3">' +
+        '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+        '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+        '</cellXfs>' +
+        '</styleSheet>'
+    },
+    ...sections.map((section, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content: sheetXml(section) }))
+  ];
+
+  return zip(files, generatedAt);
+}
+
+// Read every entry of a zip archive (stored or deflated) through its central directory
+function unzip(archive: Buffer): Map<string, Buffer> {
+  let endOffset = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === 0x06054b50) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('File XLSX tidak valid');
+  }
+
+  const entries = new Map<string, Buffer>();
+  const entryCount = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    entries.set(name, method === 8 ? inflateRawSync(data) : data);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Concatenated text of all <t> runs, as used by shared and inline rich strings
+const textRuns = (xml: string) =>
+  Array.from(xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match => unescapeXml(match[1])).join('');
+
+function columnIndex(name: string): number {
+  let index = 0;
+  for (const char of name) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+// Path of the first sheet in workbook order, resolved through the workbook relationships
+function firstSheetPath(entries: Map<string, Buffer>): string {
+  const workbook = entries.get('xl/workbook.xml')?.toString('utf8') ?? '';
+  const rels = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf8') ?? '';
+  const relationshipId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const target = Array.from(rels.matchAll(/<Relationship\b[^>]*>/g), match => match[0])
+    .find(relationship => relationship.includes(`Id="${relationshipId}"`))
+    ?.match(/Target="([^"]+)"/)?.[1];
+
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+// Read the first worksheet of an XLSX file as rows of cell values; numbers (including dates) stay numeric
+export function readXlsx(file: Buffer): CellValue[][] {
+  const entries = unzip(file);
+  const sheet = entries.get(firstSheetPath(entries))?.toString('utf8');
+  if (!sheet) {
+    throw new Error('File XLSX tidak memiliki sheet');
+  }
+
+  const sharedStrings = Array.from(
+    (entries.get('xl/sharedStrings.xml')?.toString('utf8') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g),
+    match => textRuns(match[1])
+  );
+
+  const rows: CellValue[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = parseInt(rowMatch[1].match(/\br="(\d+)"/)?.[1] ?? String(rows.length + 1), 10);
+    const row: CellValue[] = [];
+
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] ?? '';
+      const ref = attributes.match(/\br="([A-Z]+)\d+"/)?.[1];
+      const type = attributes.match(/\bt="(\w+)"/)?.[1];
+      const rawValue = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value: CellValue = null;
+      if (type === 'inlineStr') {
+        value = textRuns(content);
+      } else if (type === 's' && rawValue !== undefined) {
+        value = sharedStrings[parseInt(rawValue, 10)] ?? null;
+      } else if ((type === 'str' || type === 'e') && rawValue !== undefined) {
+        value = unescapeXml(rawValue);
+      } else if (type === 'b' && rawValue !== undefined) {
+        value = rawValue === '1' ? 'TRUE' : 'FALSE';
+      } else if (rawValue !== undefined) {
+        value = parseFloat(rawValue);
+      }
+
+      row[ref ? columnIndex(ref) : row.length] = value;
+    }
+
+    rows[rowNumber - 1] = Array.from(row, value => value ?? null);
+  }
+
+  // Drop gaps left by missing rows and rows without any value
+  return Array.from(rows, row => row ?? []).filter(row => row.some(value => value !== null && value !== ''));
+}
@@ -0,0 +1,345 @@
+import { db } from '../db';
+import { appointmentsTable, patientsTable, servicesTable, settingsTable } from '../db/schema';
+import {
+  type Appointment,
+  type AppointmentStatus,
+  type AppointmentWithDetails,
+  type AppointmentSearchInput,
+  type AppointmentSlot,
+  type CreateAppointmentInput,
+  type RescheduleAppointmentInput
+} from '../schema';
+import { eq, and, gt, lt, gte, lte, ne, inArray, asc, sql, type SQL } from 'drizzle-orm';
+import { type Tx } from './money';
+
+// Fallbacks for installations whose settings predate appointment scheduling
+const DEFAULT_SCHEDULE = {
+  opening_time: '08:00',
+  closing_time: '17:00',
+  appointment_slot_minutes: '30'
+};
+
+// Opening and closing times are saved as zero-padded 24-hour "HH:MM", so they compare as strings
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Cancelled and no-show appointments free their slot again
+const OCCUPYING_STATUSES: AppointmentStatus[] = ['scheduled', 'completed'];
+
+// Advisory lock key serialising bookings, so two requests cannot both see a slot free and take it
+const BOOKING_LOCK_KEY = 7301;
+
+interface Schedule {
+  opening_time: string;
+  closing_time: string;
+  slot_minutes: number;
+}
+
+async function getSchedule(): Promise<Schedule> {
+  const rows = await db.select()
+    .from(settingsTable)
+    .where(inArray(settingsTable.key, Object.keys(DEFAULT_SCHEDULE)))
+    .execute();
+
+  const values: Record<string, string> = { ...DEFAULT_SCHEDULE };
+  for (const row of rows) {
+    values[row.key] = row.value;
+  }
+
+  // Values saved before they were validated fall back to the defaults rather than an Invalid Date
+  const hours = TIME_OF_DAY.test(values['opening_time']) && TIME_OF_DAY.test(values['closing_time'])
+    && values['opening_time'] < values['closing_time']
+    ? values
+    : DEFAULT_SCHEDULE;
+
+  const slotMinutes = parseInt(values['appointment_slot_minutes']);
+  return {
+    opening_time: hours.opening_time,
+    closing_time: hours.closing_time,
+    slot_minutes: slotMinutes > 0 ? slotMinutes : parseInt(DEFAULT_SCHEDULE.appointment_slot_minutes)
+  };
+}
+
+// Opening hours must be "HH:MM" with closing after opening, and a slot a positive number of minutes
+export async function validateScheduleSetting(key: string, value: string): Promise<void> {
+  if (key === 'appointment_slot_minutes') {
+    if (!/^\d+$/.test(value) || parseInt(value) <= 0) {
+      throw new Error('Durasi slot janji temu harus berupa bilangan bulat menit lebih dari 0');
+    }
+    return;
+  }
+
+  if (key !== 'opening_time' && key !== 'closing_time') {
+    return;
+  }
+
+  if (!TIME_OF_DAY.test(value)) {
+    throw new Error('Jam buka dan jam tutup harus berformat HH:MM, misalnya 08:00');
+  }
+
+  const schedule = await getSchedule();
+  const opening = key === 'opening_time' ? value : schedule.opening_time;
+  const closing = key === 'closing_time' ? value : schedule.closing_time;
+  if (closing <= opening) {
+    throw new Error(`Jam tutup (${closing}) harus setelah jam buka (${opening})`);
+  }
+}
+
+// Combine the calendar day of `day` with an "HH:MM" time of day
+function atTimeOfDay(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part));
+  const result = new Date(day);
+  result.setHours(hours, minutes || 0, 0, 0);
+  return result;
+}
+
+function assertWithinOpeningHours(start: Date, end: Date, schedule: Schedule): void {
+  const opening = atTimeOfDay(start, schedule.opening_time);
+  const closing = atTimeOfDay(start, schedule.closing_time);
+
+  if (start < opening || end > closing) {
+    throw new Error(`Di luar jam buka klinik (${schedule.opening_time} - ${schedule.closing_time})`);
+  }
+}
+
+// Must run inside the transaction that writes the booking: the lock is held until it commits
+async function assertNoConflict(tx: Tx, start: Date, end: Date, excludeId?: number): Promise<void> {
+  await tx.execute(sql`select pg_advisory_xact_lock(${BOOKING_LOCK_KEY})`);
+
+  const conditions: SQL<unknown>[] = [
+    inArray(appointmentsTable.status, OCCUPYING_STATUSES),
+    lt(appointmentsTable.start_time, end),
+    gt(appointmentsTable.end_time, start)
+  ];
+
+  if (excludeId !== undefined) {
+    conditions.push(ne(appointmentsTable.id, excludeId));
+  }
+
+  const conflicts = await tx.select()
+    .from(appointmentsTable)
+    .where(and(...conditions))
+    .execute();
+
+  if (conflicts.length > 0) {
+    throw new Error('Jadwal bentrok dengan janji temu lain pada jam tersebut');
+  }
+}
+
+async function getAppointmentOrThrow(id: number): Promise<Appointment> {
+  const appointments = await db.select()
+    .from(appointmentsTable)
+    .where(eq(appointmentsTable.id, id))
+    .execute();
+
+  if (appointments.length === 0) {
+    throw new Error(`Appointment with ID ${id} not found`);
+  }
+
+  return appointments[0];
+}
+
+export async function getAppointmentSlots(date: Date): Promise<AppointmentSlot[]> {
+  try {
+    const schedule = await getSchedule();
+    const opening = atTimeOfDay(date, schedule.opening_time);
+    const closing = atTimeOfDay(date, schedule.closing_time);
+
+    const booked = await db.select()
+      .from(appointmentsTable)
+      .where(and(
+        inArray(appointmentsTable.status, OCCUPYING_STATUSES),
+        lt(appointmentsTable.start_time, closing),
+        gt(appointmentsTable.end_time, opening)
+      ))
+      .execute();
+
+    const slots: AppointmentSlot[] = [];
+    const slotMs = schedule.slot_minutes * 60 * 1000;
+
+    for (let time = opening.getTime(); time + slotMs <= closing.getTime(); time += slotMs) {
+      const start = new Date(time);
+      const end = new Date(time + slotMs);
+      const occupant = booked.find(appointment => appointment.start_time < end && appointment.end_time > start);
+
+      slots.push({
+        start_time: start,
+        end_time: end,
+        available: !occupant,
+        appointment_id: occupant?.id ?? null
+      });
+    }
+
+    return slots;
+  } catch (error) {
+    console.error('Failed to build appointment slots:', error);
+    throw error;
+  }
+}
+
+export async function getAppointments(input: AppointmentSearchInput): Promise<AppointmentWithDetails[]> {
+  try {
+    const conditions: SQL<unknown>[] = [
+      gte(appointmentsTable.start_time, input.start_date),
+      lte(appointmentsTable.start_time, input.end_date)
+    ];
+
+    if (input.status !== undefined) {
+      conditions.push(eq(appointmentsTable.status, input.status));
+    }
+
+    if (input.patient_id !== undefined) {
+      conditions.push(eq(appointmentsTable.patient_id, input.patient_id));
+    }
+
+    const results = await db.select()
+      .from(appointmentsTable)
+      .innerJoin(patientsTable, eq(appointmentsTable.patient_id, patientsTable.id))
+      .innerJoin(servicesTable, eq(appointmentsTable.service_id, servicesTable.id))
+      .where(and(...conditions))
+      .orderBy(asc(appointmentsTable.start_time))
+      .execute();
+
+    return results.map(result => ({
+      ...result.appointments,
+      patient_name: result.patients.name,
+      patient_phone: result.patients.phone,
+      service_name: result.services.name
+    }));
+  } catch (error) {
+    console.error('Failed to fetch appointments:', error);
+    throw error;
+  }
+}
+
+export async function createAppointment(input: CreateAppointmentInput): Promise<Appointment> {
+  try {
+    const patient = await db.select()
+      .from(patientsTable)
+      .where(eq(patientsTable.id, input.patient_id))
+      .execute();
+
+    if (patient.length === 0) {
+      throw new Error(`Patient with ID ${input.patient_id} not found`);
+    }
+
+    if (patient[0].archived_at) {
+      throw new Error(`Pasien ${patient[0].name} sudah diarsipkan`);
+    }
+
+    const service = await db.select()
+      .from(servicesTable)
+      .where(eq(servicesTable.id, input.service_id))
+      .execute();
+
+    if (service.length === 0) {
+      throw new Error(`Service with ID ${input.service_id} not found`);
+    }
+
+    if (!service[0].is_active) {
+      throw new Error(`Service ${service[0].name} is not active`);
+    }
+
+    if (service[0].archived_at) {
+      throw new Error(`Layanan ${service[0].name} sudah diarsipkan`);
+    }
+
+    const schedule = await getSchedule();
+    const endTime = new Date(input.start_time.getTime() + schedule.slot_minutes * 60 * 1000);
+
+    assertWithinOpeningHours(input.start_time, endTime, schedule);
+
+    return await db.transaction(async (tx) => {
+      await assertNoConflict(tx, input.start_time, endTime);
+
+      const result = await tx.insert(appointmentsTable)
+        .values({
+          patient_id: input.patient_id,
+          service_id: input.service_id,
+          start_time: input.start_time,
+          end_time: endTime,
+          notes: input.notes
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Appointment creation failed:', error);
+    throw error;
+  }
+}
+
+export async function rescheduleAppointment(input: RescheduleAppointmentInput): Promise<Appointment> {
+  try {
+    const appointment = await getAppointmentOrThrow(input.id);
+
+    if (appointment.status !== 'scheduled') {
+      throw new Error('Hanya janji temu yang masih terjadwal yang dapat diubah');
+    }
+
+    // Keep the original length of the booking
+    const duration = appointment.end_time.getTime() - appointment.start_time.getTime();
+    const endTime = new Date(input.start_time.getTime() + duration);
+
+    assertWithinOpeningHours(input.start_time, endTime, await getSchedule());
+
+    return await db.transaction(async (tx) => {
+      await assertNoConflict(tx, input.start_time, endTime, appointment.id);
+
+      // Only move the booking if nobody cancelled or closed it in the meantime
+      const result = await tx.update(appointmentsTable)
+        .set({
+          start_time: input.start_time,
+          end_time: endTime,
+          updated_at: new Date()
+        })
+        .where(and(eq(appointmentsTable.id, input.id), eq(appointmentsTable.status, 'scheduled')))
+        .returning()
+        .execute();
+
+      if (result.length === 0) {
+        throw new Error('Hanya janji temu yang masih terjadwal yang dapat diubah');
+      }
+
+      return result[0];
+    });
+  } catch (error) {
+    console.error('Appointment reschedule failed:', error);
+    throw error;
+  }
+}
+
+async function closeAppointment(id: number, status: 'cancelled' | 'no_show'): Promise<Appointment> {
+  const appointment = await getAppointmentOrThrow(id);
+
+  if (appointment.status !== 'scheduled') {
+    throw new Error('Hanya janji temu yang masih terjadwal yang dapat diubah');
+  }
+
+  const result = await db.update(appointmentsTable)
+    .set({ status, updated_at: new Date() })
+    .where(eq(appointmentsTable.id, id))
+    .returning()
+    .execute();
+
+  return result[0];
+}
+
+export async function cancelAppointment(id: number): Promise<Appointment> {
+  try {
+    return await closeAppointment(id, 'cancelled');
+  } catch (error) {
+    console.error('Appointment cancellation failed:', error);
+    throw error;
+  }
+}
+
+export async function markAppointmentNoShow(id: number): Promise<Appointment> {
+  try {
+    return await closeAppointment(id, 'no_show');
+  } catch (error) {
+    console.error('Marking appointment as no-show failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,253 @@
+import { db } from '../db';
+import {
+  auditLogTable,
+  usersTable,
+  patientsTable,
+  guardiansTable,
+  patientGuardiansTable,
+  patientMergesTable,
+  medicinesTable,
+  suppliersTable,
+  purchaseOrdersTable,
+  purchaseOrderItemsTable,
+  stockTakesTable,
+  stockTakeItemsTable,
+  servicesTable,
+  servicePackagesTable,
+  servicePackageItemsTable,
+  promotionsTable,
+  transactionsTable,
+  cashierShiftsTable,
+  shiftReconciliationsTable,
+  patientVisitsTable,
+  procedureRecordsTable,
+  followUpsTable,
+  appointmentsTable,
+  settingsTable
+} from '../db/schema';
+import { type AuditEntityType, type AuditLogEntry, type AuditLogSearchInput, type Paginated } from '../schema';
+import { toPublicUser } from './auth';
+import { pageQuery, toPage } from './pagination';
+import { eq, and, gte, lte, desc, count, type SQL } from 'drizzle-orm';
+
+type Snapshot = Record<string, unknown>;
+
+// Fields that change on every write and would only add noise to a diff
+const IGNORED_DIFF_FIELDS = ['updated_at'];
+
+const snapshotLoaders: Record<AuditEntityType, (id: string) => Promise<object | undefined>> = {
+  patient: async (id) => {
+    const patients = await db.select().from(patientsTable).where(eq(patientsTable.id, Number(id))).execute();
+    if (!patients[0]) return undefined;
+
+    // Guardian links and the records merged into it are part of the patient record as far as the audit trail is concerned
+    const links = await db.select().from(patientGuardiansTable).where(eq(patientGuardiansTable.patient_id, Number(id))).execute();
+    const merges = await db.select().from(patientMergesTable).where(eq(patientMergesTable.survivor_id, Number(id))).execute();
+    return {
+      ...patients[0],
+      guardian_ids: links.map(link => link.guardian_id).sort((a, b) => a - b),
+      primary_guardian_id: links.find(link => link.is_primary)?.guardian_id ?? null,
+      merged_patient_ids: merges.map(merge => merge.merged_patient_id).sort((a, b) => a - b)
+    };
+  },
+  guardian: async (id) => (await db.select().from(guardiansTable).where(eq(guardiansTable.id, Number(id))).execute())[0],
+  medicine: async (id) => (await db.select().from(medicinesTable).where(eq(medicinesTable.id, Number(id))).execute())[0],
+  supplier: async (id) => (await db.select().from(suppliersTable).where(eq(suppliersTable.id, Number(id))).execute())[0],
+  purchase_order: async (id) => {
+    const orders = await db.select().from(purchaseOrdersTable).where(eq(purchaseOrdersTable.id, Number(id))).execute();
+    if (!orders[0]) return undefined;
+
+    // Received quantities show what each goods receipt changed on the order
+    const items = await db.select().from(purchaseOrderItemsTable).where(eq(purchaseOrderItemsTable.purchase_order_id, Number(id))).execute();
+    return {
+      ...orders[0],
+      items: items
+        .sort((a, b) => a.id - b.id)
+        .map(item => ({
+          medicine_id: item.medicine_id,
+          quantity_ordered: item.quantity_ordered,
+          quantity_received: item.quantity_received,
+          expected_price: item.expected_price
+        }))
+    };
+  },
+  stock_take: async (id) => {
+    const stockTakes = await db.select().from(stockTakesTable).where(eq(stockTakesTable.id, Number(id))).execute();
+    if (!stockTakes[0]) return undefined;
+
+    // Only counted lines, so saving a shelf shows up as the counts it changed
+    const items = await db.select().from(stockTakeItemsTable).where(eq(stockTakeItemsTable.stock_take_id, Number(id))).execute();
+    return {
+      ...stockTakes[0],
+      counts: items
+        .filter(item => item.counted_quantity !== null)
+        .sort((a, b) => a.id - b.id)
+        .map(item => ({
+          medicine_id: item.medicine_id,
+          expected_quantity: item.expected_quantity,
+          counted_quantity: item.counted_quantity,
+          location: item.location
+        }))
+    };
+  },
+  service: async (id) => (await db.select().from(servicesTable).where(eq(servicesTable.id, Number(id))).execute())[0],
+  service_package: async (id) => {
+    const packages = await db.select().from(servicePackagesTable).where(eq(servicePackagesTable.id, Number(id))).execute();
+    if (!packages[0]) return undefined;
+
+    const items = await db.select().from(servicePackageItemsTable).where(eq(servicePackageItemsTable.package_id, Number(id))).execute();
+    return {
+      ...packages[0],
+      items: items
+        .sort((a, b) => a.id - b.id)
+        .map(item => ({ item_type: item.item_type, item_id: item.item_id, quantity: item.quantity }))
+    };
+  },
+  promotion: async (id) => (await db.select().from(promotionsTable).where(eq(promotionsTable.id, Number(id))).execute())[0],
+  transaction: async (id) => (await db.select().from(transactionsTable).where(eq(transactionsTable.id, Number(id))).execute())[0],
+  cashier_shift: async (id) => {
+    const shifts = await db.select().from(cashierShiftsTable).where(eq(cashierShiftsTable.id, Number(id))).execute();
+    if (!shifts[0]) return undefined;
+
+    // The closing count is what a reviewer of a drawer shortage wants to see
+    const reconciliation = await db.select().from(shiftReconciliationsTable).where(eq(shiftReconciliationsTable.shift_id, Number(id))).execute();
+    return {
+      ...shifts[0],
+      reconciliation: reconciliation
+        .sort((a, b) => a.id - b.id)
+        .map(row => ({ payment_method: row.payment_method, expected_amount: row.expected_amount, counted_amount: row.counted_amount }))
+    };
+  },
+  patient_visit: async (id) => {
+    const visits = await db.select().from(patientVisitsTable).where(eq(patientVisitsTable.id, Number(id))).execute();
+    if (!visits[0]) return undefined;
+
+    // The procedure record is edited through its visit, so it is audited as part of it
+    const records = await db.select().from(procedureRecordsTable).where(eq(procedureRecordsTable.visit_id, Number(id))).execute();
+    if (!records[0]) return { ...visits[0], procedure: null };
+
+    const { id: _recordId, created_at: _createdAt, updated_at: _updatedAt, ...procedure } = records[0];
+    return { ...visits[0], procedure };
+  },
+  follow_up: async (id) => (await db.select().from(followUpsTable).where(eq(followUpsTable.id, Number(id))).execute())[0],
+  appointment: async (id) => (await db.select().from(appointmentsTable).where(eq(appointmentsTable.id, Number(id))).execute())[0],
+  setting: async (key) => (await db.select().from(settingsTable).where(eq(settingsTable.key, key)).execute())[0],
+  user: async (id) => {
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, Number(id))).execute();
+    return users[0] ? toPublicUser(users[0]) : undefined;
+  }
+};
+
+// Load the current state of an entity as plain JSON, or null if it does not exist
+export async function loadAuditSnapshot(entityType: AuditEntityType, entityId: number | string): Promise<Snapshot | null> {
+  try {
+    const row = await snapshotLoaders[entityType](String(entityId));
+    return row ? JSON.parse(JSON.stringify(row)) : null;
+  } catch (error) {
+    console.error('Audit snapshot failed:', error);
+    throw error;
+  }
+}
+
+// Reduce two snapshots to the fields that actually changed
+export function diffSnapshots(before: Snapshot | null, after: Snapshot | null): { before: Snapshot | null; after: Snapshot | null } {
+  if (!before || !after) {
+    return { before, after };
+  }
+
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (IGNORED_DIFF_FIELDS.includes(key)) continue;
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+export async function recordAuditLog(entry: {
+  user_id: number | null;
+  procedure: string;
+  entity_type: AuditEntityType | null;
+  entity_id: number | string | null;
+  before: Snapshot | null;
+  after: Snapshot | null;
+}): Promise<void> {
+  try {
+    const diff = diffSnapshots(entry.before, entry.after);
+
+    await db.insert(auditLogTable)
+      .values({
+        user_id: entry.user_id,
+        procedure: entry.procedure,
+        entity_type: entry.entity_type,
+        entity_id: entry.entity_id === null ? null : String(entry.entity_id),
+        before: diff.before,
+        after: diff.after
+      })
+      .execute();
+  } catch (error) {
+    console.error('Audit log recording failed:', error);
+    throw error;
+  }
+}
+
+export async function getAuditLog(input?: AuditLogSearchInput): Promise<Paginated<AuditLogEntry>> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input?.entity_type !== undefined) {
+      conditions.push(eq(auditLogTable.entity_type, input.entity_type));
+    }
+
+    if (input?.entity_id !== undefined) {
+      conditions.push(eq(auditLogTable.entity_id, input.entity_id));
+    }
+
+    if (input?.user_id !== undefined) {
+      conditions.push(eq(auditLogTable.user_id, input.user_id));
+    }
+
+    if (input?.start_date !== undefined) {
+      conditions.push(gte(auditLogTable.created_at, input.start_date));
+    }
+
+    if (input?.end_date !== undefined) {
+      conditions.push(lte(auditLogTable.created_at, input.end_date));
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const page = pageQuery(input, {
+      column: auditLogTable.created_at,
+      id: auditLogTable.id,
+      direction: input?.sort_direction ?? 'desc'
+    }, 50);
+
+    const results = await db.select()
+      .from(auditLogTable)
+      .leftJoin(usersTable, eq(auditLogTable.user_id, usersTable.id))
+      .where(and(where, page.after))
+      .orderBy(...page.orderBy)
+      .limit(page.limit)
+      .offset(page.offset)
+      .execute();
+
+    const total = await db.select({ count: count() })
+      .from(auditLogTable)
+      .where(where)
+      .execute();
+
+    return await toPage(results.map(result => ({
+      ...result.audit_log,
+      username: result.users?.username ?? null
+    })), total[0].count, page);
+  } catch (error) {
+    console.error('Failed to fetch audit log:', error);
+    throw error;
+  }
+}
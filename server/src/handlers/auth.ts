@@ -0,0 +1,206 @@
+import { db } from '../db';
+import { usersTable, sessionsTable, auditLogTable } from '../db/schema';
+import { type LoginInput, type CreateUserInput, type AuthSession, type AuthStatus, type User } from '../schema';
+import { eq, and, gt, count, sql } from 'drizzle-orm';
+import { randomBytes, scrypt, timingSafeEqual, createHash } from 'crypto';
+
+const SESSION_DURATION_HOURS = 12;
+const PASSWORD_KEY_LENGTH = 64;
+
+// Advisory lock key serialising owner setup, so two requests cannot both see no users and each create an owner
+const OWNER_SETUP_LOCK_KEY = 7302;
+
+const deriveKey = (password: string, salt: string): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, PASSWORD_KEY_LENGTH, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+
+const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+// Sign-ins happen before there is a session, so the audit middleware never sees them.
+// A failed attempt has no actor; it names the account tried, if any, and never the password.
+async function auditSignIn(procedure: string, actorId: number | null, accountId: number | null, details: Record<string, unknown>): Promise<void> {
+  try {
+    await db.insert(auditLogTable)
+      .values({
+        user_id: actorId,
+        procedure,
+        entity_type: accountId === null ? null : 'user',
+        entity_id: accountId === null ? null : String(accountId),
+        before: null,
+        after: details
+      })
+      .execute();
+  } catch (error) {
+    // The sign-in itself is decided already; a failed audit write must not change its outcome
+    console.error('Failed to audit sign-in:', procedure, error);
+  }
+}
+
+// Strip the password hash before a user leaves the server
+export const toPublicUser = (user: typeof usersTable.$inferSelect): User => ({
+  id: user.id,
+  username: user.username,
+  full_name: user.full_name,
+  role: user.role,
+  is_active: user.is_active,
+  created_at: user.created_at,
+  updated_at: user.updated_at
+});
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const derivedKey = await deriveKey(password, salt);
+  return `scrypt:${salt}:${derivedKey.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [algorithm, salt, keyHex] = storedHash.split(':');
+  if (algorithm !== 'scrypt' || !salt || !keyHex) {
+    return false;
+  }
+
+  const storedKey = Buffer.from(keyHex, 'hex');
+  const derivedKey = await deriveKey(password, salt);
+  return storedKey.length === derivedKey.length && timingSafeEqual(storedKey, derivedKey);
+}
+
+export async function login(input: LoginInput): Promise<AuthSession> {
+  let accountId: number | null = null;
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.username, input.username))
+      .execute();
+
+    // Same message for unknown user and wrong password to avoid leaking usernames
+    const user = users[0];
+    accountId = user?.id ?? null;
+    if (!user || !(await verifyPassword(input.password, user.password_hash))) {
+      throw new Error('Username atau password salah');
+    }
+
+    if (!user.is_active) {
+      throw new Error('Akun pengguna tidak aktif');
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + SESSION_DURATION_HOURS * 60 * 60 * 1000);
+
+    await db.insert(sessionsTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashToken(token),
+        expires_at: expiresAt
+      })
+      .execute();
+
+    await auditSignIn('login', user.id, user.id, { username: user.username, success: true });
+
+    return {
+      token,
+      expires_at: expiresAt,
+      user: toPublicUser(user)
+    };
+  } catch (error) {
+    console.error('Login failed:', error);
+    await auditSignIn('login', null, accountId, { username: input.username, success: false, reason: errorMessage(error) });
+    throw error;
+  }
+}
+
+export async function logout(token: string): Promise<boolean> {
+  try {
+    const result = await db.delete(sessionsTable)
+      .where(eq(sessionsTable.token_hash, hashToken(token)))
+      .returning()
+      .execute();
+
+    return result.length > 0;
+  } catch (error) {
+    console.error('Logout failed:', error);
+    throw error;
+  }
+}
+
+export async function getSessionUser(token: string): Promise<User | null> {
+  try {
+    const results = await db.select()
+      .from(sessionsTable)
+      .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+      .where(and(
+        eq(sessionsTable.token_hash, hashToken(token)),
+        gt(sessionsTable.expires_at, new Date()),
+        eq(usersTable.is_active, true)
+      ))
+      .execute();
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    return toPublicUser(results[0].users);
+  } catch (error) {
+    console.error('Session lookup failed:', error);
+    throw error;
+  }
+}
+
+export async function getAuthStatus(): Promise<AuthStatus> {
+  try {
+    const result = await db.select({ count: count() })
+      .from(usersTable)
+      .execute();
+
+    return { needs_setup: (result[0]?.count || 0) === 0 };
+  } catch (error) {
+    console.error('Auth status check failed:', error);
+    throw error;
+  }
+}
+
+// Creates the first owner account; only allowed while no users exist yet
+export async function setupOwner(input: Omit<CreateUserInput, 'role'>): Promise<AuthSession> {
+  try {
+    const passwordHash = await hashPassword(input.password);
+
+    const owner = await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${OWNER_SETUP_LOCK_KEY})`);
+
+      const users = await tx.select({ count: count() })
+        .from(usersTable)
+        .execute();
+
+      if ((users[0]?.count || 0) > 0) {
+        throw new Error('Akun pemilik sudah dibuat');
+      }
+
+      const created = await tx.insert(usersTable)
+        .values({
+          username: input.username,
+          full_name: input.full_name,
+          password_hash: passwordHash,
+          role: 'owner'
+        })
+        .returning()
+        .execute();
+
+      return created[0];
+    });
+
+    await auditSignIn('setupOwner', owner.id, owner.id, { username: owner.username, success: true });
+
+    return await login({ username: input.username, password: input.password });
+  } catch (error) {
+    console.error('Owner setup failed:', error);
+    await auditSignIn('setupOwner', null, null, { username: input.username, success: false, reason: errorMessage(error) });
+    throw error;
+  }
+}
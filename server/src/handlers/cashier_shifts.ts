@@ -0,0 +1,310 @@
+import { db } from '../db';
+import {
+  cashierShiftsTable,
+  paymentsTable,
+  refundsTable,
+  shiftCashCountsTable,
+  shiftReconciliationsTable,
+  transactionsTable,
+  usersTable
+} from '../db/schema';
+import {
+  type CashierShift,
+  type CloseShiftInput,
+  type OpenShiftInput,
+  type Paginated,
+  type Payment,
+  type ShiftReconciliation,
+  type ShiftSearchInput
+} from '../schema';
+import { count, desc, eq, inArray, sql } from 'drizzle-orm';
+import { pageQuery, toPage } from './pagination';
+import { toCents, type Tx } from './money';
+
+type ShiftRow = typeof cashierShiftsTable.$inferSelect;
+type PaymentMethod = Payment['payment_method'];
+
+const PAYMENT_METHODS: PaymentMethod[] = ['tunai', 'transfer', 'kartu'];
+
+/**
+ * The shift currently open at the cash drawer, if any. The row is share-locked
+ * so the shift cannot be closed while a sale or refund is being booked into it.
+ */
+export async function getOpenShift(tx: Tx | typeof db): Promise<ShiftRow | null> {
+  const shifts = await tx.select()
+    .from(cashierShiftsTable)
+    .where(eq(cashierShiftsTable.status, 'open'))
+    .for('share')
+    .execute();
+
+  return shifts[0] ?? null;
+}
+
+export async function requireOpenShift(tx: Tx | typeof db): Promise<ShiftRow> {
+  const shift = await getOpenShift(tx);
+  if (!shift) {
+    throw new Error('Shift kasir belum dibuka. Buka shift terlebih dahulu sebelum menerima atau mengembalikan uang');
+  }
+  return shift;
+}
+
+// Money the drawer should hold per payment method: the float plus payments taken, less refunds paid back
+async function expectedAmounts(tx: Tx | typeof db, shift: ShiftRow): Promise<Map<PaymentMethod, number>> {
+  const received = await tx.select({
+    payment_method: paymentsTable.payment_method,
+    total: sql<string>`coalesce(sum(${paymentsTable.amount}), 0)`
+  })
+    .from(paymentsTable)
+    .where(eq(paymentsTable.shift_id, shift.id))
+    .groupBy(paymentsTable.payment_method)
+    .execute();
+
+  const refunded = await tx.select({
+    payment_method: refundsTable.refund_method,
+    total: sql<string>`coalesce(sum(${refundsTable.amount}), 0)`
+  })
+    .from(refundsTable)
+    .where(eq(refundsTable.shift_id, shift.id))
+    .groupBy(refundsTable.refund_method)
+    .execute();
+
+  const cents = new Map<PaymentMethod, number>(PAYMENT_METHODS.map(method => [method, 0]));
+  cents.set('tunai', toCents(parseFloat(shift.opening_float)));
+  for (const row of received) {
+    cents.set(row.payment_method, cents.get(row.payment_method)! + toCents(parseFloat(row.total)));
+  }
+  for (const row of refunded) {
+    cents.set(row.payment_method, cents.get(row.payment_method)! - toCents(parseFloat(row.total)));
+  }
+
+  return new Map([...cents].map(([method, amount]) => [method, amount / 100]));
+}
+
+async function toCashierShifts(tx: Tx | typeof db, shifts: ShiftRow[]): Promise<CashierShift[]> {
+  if (shifts.length === 0) {
+    return [];
+  }
+
+  const shiftIds = shifts.map(shift => shift.id);
+  const userIds = [...new Set(shifts.flatMap(shift => [shift.opened_by, shift.closed_by ?? shift.opened_by]))];
+
+  const users = await tx.select({ id: usersTable.id, full_name: usersTable.full_name })
+    .from(usersTable)
+    .where(inArray(usersTable.id, userIds))
+    .execute();
+  const userNames = new Map(users.map(user => [user.id, user.full_name]));
+
+  const transactionCounts = await tx.select({ shift_id: transactionsTable.shift_id, total: count() })
+    .from(transactionsTable)
+    .where(inArray(transactionsTable.shift_id, shiftIds))
+    .groupBy(transactionsTable.shift_id)
+    .execute();
+
+  const refundCounts = await tx.select({ shift_id: refundsTable.shift_id, total: count() })
+    .from(refundsTable)
+    .where(inArray(refundsTable.shift_id, shiftIds))
+    .groupBy(refundsTable.shift_id)
+    .execute();
+
+  const cashCounts = await tx.select()
+    .from(shiftCashCountsTable)
+    .where(inArray(shiftCashCountsTable.shift_id, shiftIds))
+    .orderBy(desc(shiftCashCountsTable.denomination))
+    .execute();
+
+  const reconciliations = await tx.select()
+    .from(shiftReconciliationsTable)
+    .where(inArray(shiftReconciliationsTable.shift_id, shiftIds))
+    .orderBy(shiftReconciliationsTable.id)
+    .execute();
+
+  const result: CashierShift[] = [];
+  for (const shift of shifts) {
+    // A closed shift reports what was fixed at closing; an open one what it should hold so far
+    let reconciliation: ShiftReconciliation[];
+    if (shift.status === 'closed') {
+      reconciliation = reconciliations
+        .filter(row => row.shift_id === shift.id)
+        .map(row => ({
+          payment_method: row.payment_method,
+          expected_amount: parseFloat(row.expected_amount),
+          counted_amount: parseFloat(row.counted_amount),
+          difference: (toCents(parseFloat(row.counted_amount)) - toCents(parseFloat(row.expected_amount))) / 100
+        }));
+    } else {
+      const expected = await expectedAmounts(tx, shift);
+      reconciliation = PAYMENT_METHODS.map(method => ({
+        payment_method: method,
+        expected_amount: expected.get(method)!,
+        counted_amount: null,
+        difference: null
+      }));
+    }
+
+    result.push({
+      ...shift,
+      opening_float: parseFloat(shift.opening_float),
+      opened_by_name: userNames.get(shift.opened_by) ?? `User #${shift.opened_by}`,
+      closed_by_name: shift.closed_by === null ? null : userNames.get(shift.closed_by) ?? `User #${shift.closed_by}`,
+      transaction_count: transactionCounts.find(row => row.shift_id === shift.id)?.total ?? 0,
+      refund_count: refundCounts.find(row => row.shift_id === shift.id)?.total ?? 0,
+      cash_counts: cashCounts
+        .filter(row => row.shift_id === shift.id)
+        .map(row => ({ denomination: row.denomination, quantity: row.quantity })),
+      reconciliation
+    });
+  }
+
+  return result;
+}
+
+export async function openShift(input: OpenShiftInput, userId: number): Promise<CashierShift> {
+  try {
+    return await db.transaction(async (tx) => {
+      const open = await getOpenShift(tx);
+      if (open) {
+        throw new Error(`Shift kasir #${open.id} masih terbuka, tutup shift tersebut terlebih dahulu`);
+      }
+
+      const result = await tx.insert(cashierShiftsTable)
+        .values({
+          opening_float: input.opening_float.toString(),
+          opened_by: userId
+        })
+        .returning()
+        .execute();
+
+      return (await toCashierShifts(tx, result))[0];
+    });
+  } catch (error) {
+    console.error('Shift opening failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Close a shift with the cash counted per denomination. The expected and
+ * counted amounts per payment method are stored so the closing report does
+ * not change afterwards.
+ */
+export async function closeShift(input: CloseShiftInput, userId: number): Promise<CashierShift> {
+  try {
+    return await db.transaction(async (tx) => {
+      const shifts = await tx.select()
+        .from(cashierShiftsTable)
+        .where(eq(cashierShiftsTable.id, input.id))
+        .for('update')
+        .execute();
+
+      if (shifts.length === 0) {
+        throw new Error(`Cashier shift with ID ${input.id} not found`);
+      }
+
+      const shift = shifts[0];
+      if (shift.status === 'closed') {
+        throw new Error(`Shift kasir #${shift.id} sudah ditutup`);
+      }
+
+      // Repeated denominations are added up
+      const cashCounts = new Map<number, number>();
+      for (const item of input.cash_counts) {
+        cashCounts.set(item.denomination, (cashCounts.get(item.denomination) ?? 0) + item.quantity);
+      }
+
+      const counted = new Map<PaymentMethod, number>(PAYMENT_METHODS.map(method => [method, 0]));
+      counted.set('tunai', [...cashCounts].reduce((total, [denomination, quantity]) => total + denomination * quantity, 0));
+      for (const item of input.non_cash_counts) {
+        counted.set(item.payment_method, (toCents(counted.get(item.payment_method)!) + toCents(item.amount)) / 100);
+      }
+
+      const expected = await expectedAmounts(tx, shift);
+
+      const countRows = [...cashCounts]
+        .filter(([, quantity]) => quantity > 0)
+        .map(([denomination, quantity]) => ({ shift_id: shift.id, denomination, quantity }));
+      if (countRows.length > 0) {
+        await tx.insert(shiftCashCountsTable).values(countRows).execute();
+      }
+
+      await tx.insert(shiftReconciliationsTable)
+        .values(PAYMENT_METHODS.map(method => ({
+          shift_id: shift.id,
+          payment_method: method,
+          expected_amount: expected.get(method)!.toString(),
+          counted_amount: counted.get(method)!.toString()
+        })))
+        .execute();
+
+      const result = await tx.update(cashierShiftsTable)
+        .set({
+          status: 'closed',
+          closed_by: userId,
+          closed_at: new Date(),
+          closing_notes: input.closing_notes ?? null
+        })
+        .where(eq(cashierShiftsTable.id, shift.id))
+        .returning()
+        .execute();
+
+      return (await toCashierShifts(tx, result))[0];
+    });
+  } catch (error) {
+    console.error('Shift closing failed:', error);
+    throw error;
+  }
+}
+
+export async function getCurrentShift(): Promise<CashierShift | null> {
+  try {
+    const shift = await db.select()
+      .from(cashierShiftsTable)
+      .where(eq(cashierShiftsTable.status, 'open'))
+      .execute();
+
+    return (await toCashierShifts(db, shift))[0] ?? null;
+  } catch (error) {
+    console.error('Failed to fetch current shift:', error);
+    throw error;
+  }
+}
+
+export async function getShifts(input?: ShiftSearchInput): Promise<Paginated<CashierShift>> {
+  try {
+    const page = pageQuery(input, { column: cashierShiftsTable.opened_at, id: cashierShiftsTable.id, direction: 'desc' }, 20);
+
+    const shifts = await db.select()
+      .from(cashierShiftsTable)
+      .where(page.after)
+      .orderBy(...page.orderBy)
+      .limit(page.limit)
+      .offset(page.offset)
+      .execute();
+
+    const total = await db.select({ count: count() })
+      .from(cashierShiftsTable)
+      .execute();
+
+    return await toPage(await toCashierShifts(db, shifts), total[0].count, page);
+  } catch (error) {
+    console.error('Failed to fetch shifts:', error);
+    throw error;
+  }
+}
+
+export async function getShiftById(id: number): Promise<CashierShift> {
+  try {
+    const shift = await db.select()
+      .from(cashierShiftsTable)
+      .where(eq(cashierShiftsTable.id, id))
+      .execute();
+
+    if (shift.length === 0) {
+      throw new Error(`Cashier shift with ID ${id} not found`);
+    }
+
+    return (await toCashierShifts(db, shift))[0];
+  } catch (error) {
+    console.error('Failed to fetch shift:', error);
+    throw error;
+  }
+}
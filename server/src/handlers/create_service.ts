@@ -10,7 +10,8 @@ export const createService = async (input: CreateServiceInput): Promise<Service>
         name: input.name,
         description: input.description,
         price: input.price.toString(), // Convert number to string for numeric column
-        is_active: input.is_active
+        is_active: input.is_active,
+        follow_up_days: input.follow_up_days
       })
       .returning()
       .execute();
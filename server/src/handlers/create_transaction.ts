@@ -7,15 +7,40 @@ import {
   medicinesTable,
   servicesTable,
   patientsTable,
-  patientVisitsTable
+  patientVisitsTable,
+  appointmentsTable,
+  followUpsTable,
+  promotionsTable,
+  transactionPackagesTable
 } from '../db/schema';
 import { type CreateTransactionInput, type Transaction } from '../schema';
 import { eq, sql } from 'drizzle-orm';
+import { followUpDueDate } from './follow_ups';
+import { consumeBatches, dispensableStock } from './medicine_batches';
+import { recordPayment } from './payments';
+import { applyPromotion, type DiscountLine } from './promotions';
+import { expandPackage } from './service_packages';
+import { requireOpenShift } from './cashier_shifts';
+import { toCents } from './money';
+
+// A service or medicine line to be sold; package_index points into input.packages
+interface SaleLine {
+  item_id: number;
+  quantity: number;
+  gross: number;
+  package_index: number | null;
+}
+
+// Price per unit of a line; package contents carry their share of the bundle price
+const unitPrice = (line: SaleLine) => Math.round(toCents(line.gross) / line.quantity) / 100;
 
 export const createTransaction = async (input: CreateTransactionInput): Promise<Transaction> => {
   try {
     // Use database transaction to ensure atomicity
     return await db.transaction(async (tx) => {
+      // Sales are only made with the cash drawer open
+      const shift = await requireOpenShift(tx);
+
       // 1. Verify patient exists
       const patient = await tx.select()
         .from(patientsTable)
@@ -26,8 +51,33 @@ export const createTransaction = async (input: CreateTransactionInput): Promise<
         throw new Error(`Patient with ID ${input.patient_id} not found`);
       }
 
-      // 2. Fetch service details and calculate service total
-      let serviceTotal = 0;
+      if (patient[0].archived_at) {
+        throw new Error(`Pasien ${patient[0].name} sudah diarsipkan`);
+      }
+
+      // Verify the appointment being settled, if any
+      if (input.appointment_id !== undefined) {
+        const appointment = await tx.select()
+          .from(appointmentsTable)
+          .where(eq(appointmentsTable.id, input.appointment_id))
+          .execute();
+
+        if (appointment.length === 0) {
+          throw new Error(`Appointment with ID ${input.appointment_id} not found`);
+        }
+
+        if (appointment[0].patient_id !== input.patient_id) {
+          throw new Error('Janji temu bukan milik pasien ini');
+        }
+
+        if (appointment[0].status !== 'scheduled') {
+          throw new Error('Janji temu sudah diproses atau dibatalkan');
+        }
+      }
+
+      // 2. Fetch service details; `serviceLines` and `medicineLines` collect
+      // what is sold on its own and what packages expand into
+      const serviceLines: SaleLine[] = [];
       for (const serviceItem of input.services) {
         const service = await tx.select()
           .from(servicesTable)
@@ -42,112 +92,204 @@ export const createTransaction = async (input: CreateTransactionInput): Promise<
           throw new Error(`Service ${service[0].name} is not active`);
         }
 
+        if (service[0].archived_at) {
+          throw new Error(`Layanan ${service[0].name} sudah diarsipkan`);
+        }
+
         const servicePrice = parseFloat(service[0].price);
-        serviceTotal += servicePrice * serviceItem.quantity;
+        serviceLines.push({
+          item_id: serviceItem.service_id,
+          quantity: serviceItem.quantity,
+          gross: servicePrice * serviceItem.quantity,
+          package_index: null
+        });
       }
 
-      // 3. Fetch medicine details and calculate medicine total
-      let medicineTotal = 0;
-      if (input.medicines && input.medicines.length > 0) {
-        for (const medicineItem of input.medicines) {
-          const medicine = await tx.select()
-            .from(medicinesTable)
-            .where(eq(medicinesTable.id, medicineItem.medicine_id))
-            .execute();
-          
-          if (medicine.length === 0) {
-            throw new Error(`Medicine with ID ${medicineItem.medicine_id} not found`);
-          }
+      // 3. Fetch medicine details
+      const medicineLines: SaleLine[] = [];
+      for (const medicineItem of input.medicines ?? []) {
+        const medicine = await tx.select()
+          .from(medicinesTable)
+          .where(eq(medicinesTable.id, medicineItem.medicine_id))
+          .execute();
+
+        if (medicine.length === 0) {
+          throw new Error(`Medicine with ID ${medicineItem.medicine_id} not found`);
+        }
+
+        if (medicine[0].archived_at) {
+          throw new Error(`Obat ${medicine[0].name} sudah diarsipkan`);
+        }
+
+        const medicinePrice = parseFloat(medicine[0].price_per_unit);
+        medicineLines.push({
+          item_id: medicineItem.medicine_id,
+          quantity: medicineItem.quantity,
+          gross: medicinePrice * medicineItem.quantity,
+          package_index: null
+        });
+      }
 
-          if (medicine[0].stock_quantity < medicineItem.quantity) {
-            throw new Error(`Insufficient stock for ${medicine[0].name}. Available: ${medicine[0].stock_quantity}, Required: ${medicineItem.quantity}`);
-          }
+      // Expand the packages into their services and medicines at the bundle price
+      const packages = [];
+      for (const [packageIndex, packageItem] of (input.packages ?? []).entries()) {
+        const { servicePackage, lines } = await expandPackage(tx, packageItem.package_id, packageItem.quantity);
+        packages.push({ servicePackage, quantity: packageItem.quantity });
 
-          const medicinePrice = parseFloat(medicine[0].price_per_unit);
-          medicineTotal += medicinePrice * medicineItem.quantity;
+        for (const line of lines) {
+          const saleLine = { item_id: line.item_id, quantity: line.quantity, gross: line.gross, package_index: packageIndex };
+          (line.item_type === 'service' ? serviceLines : medicineLines).push(saleLine);
         }
       }
 
-      // 4. Calculate total amount
-      const totalAmount = serviceTotal + medicineTotal;
+      // Check stock for all units of a medicine, sold alone or in packages; expired batches are not sold
+      const requiredUnits = new Map<number, number>();
+      for (const line of medicineLines) {
+        requiredUnits.set(line.item_id, (requiredUnits.get(line.item_id) ?? 0) + line.quantity);
+      }
+      for (const [medicineId, required] of requiredUnits) {
+        const medicine = await tx.select()
+          .from(medicinesTable)
+          .where(eq(medicinesTable.id, medicineId))
+          .execute();
+
+        const available = await dispensableStock(tx, medicine[0]);
+        if (available < required) {
+          throw new Error(`Insufficient stock for ${medicine[0].name}. Available: ${available}, Required: ${required}`);
+        }
+      }
+
+      // 4. Apply the promo code and calculate the total amount; services come
+      // first, then medicines, each with its share of the discount. Package
+      // contents are already discounted by the bundle, so service promotions skip them.
+      const saleLines = [...serviceLines, ...medicineLines];
+      const discountLines: DiscountLine[] = [
+        ...serviceLines.map(line => ({
+          service_id: line.package_index === null ? line.item_id : null,
+          quantity: line.quantity,
+          gross: line.gross
+        })),
+        ...medicineLines.map(line => ({ service_id: null, quantity: line.quantity, gross: line.gross }))
+      ];
+      const promo = input.promo_code ? await applyPromotion(tx, input.promo_code, discountLines) : null;
+      const lineDiscounts = promo?.discounts ?? saleLines.map(() => 0);
+      const grossAmount = saleLines.reduce((total, line) => total + toCents(line.gross), 0) / 100;
+      const discountAmount = lineDiscounts.reduce((total, discount) => total + toCents(discount), 0) / 100;
+      const totalAmount = (toCents(grossAmount) - toCents(discountAmount)) / 100;
+      const lineTotal = (index: number) => (toCents(saleLines[index].gross) - toCents(lineDiscounts[index])) / 100;
+
+      // 5. Create main transaction record. A transaction created as paid is
+      // settled with one payment of the full amount in its payment method.
+      const payments = input.payments ?? (
+        input.payment_status === 'paid' && totalAmount > 0
+          ? [{ amount: totalAmount, payment_method: input.payment_method }]
+          : []
+      );
 
-      // 5. Create main transaction record
       const transactionResult = await tx.insert(transactionsTable)
         .values({
           patient_id: input.patient_id,
           total_amount: totalAmount.toString(),
+          discount_amount: discountAmount.toString(),
+          promotion_id: promo?.promotion.id ?? null,
           payment_method: input.payment_method,
-          payment_status: input.payment_status,
+          payment_status: input.payments || payments.length > 0 ? 'pending' : input.payment_status,
+          shift_id: shift.id,
           notes: input.notes
         })
         .returning()
         .execute();
 
-      const transaction = transactionResult[0];
+      let transaction = transactionResult[0];
 
-      // 6. Create transaction services records
-      for (const serviceItem of input.services) {
-        const service = await tx.select()
-          .from(servicesTable)
-          .where(eq(servicesTable.id, serviceItem.service_id))
+      if (promo) {
+        await tx.update(promotionsTable)
+          .set({ usage_count: sql`${promotionsTable.usage_count} + 1`, updated_at: new Date() })
+          .where(eq(promotionsTable.id, promo.promotion.id))
           .execute();
+      }
 
-        const servicePrice = parseFloat(service[0].price);
-        const totalPrice = servicePrice * serviceItem.quantity;
+      // Record the payments taken at checkout; the status follows the amount paid
+      for (const payment of payments) {
+        transaction = await recordPayment(tx, transaction, payment.amount, payment.payment_method);
+      }
+
+      // 6. Create transaction packages records; their total is what their lines sell for
+      const transactionPackageIds: number[] = [];
+      for (const [packageIndex, { servicePackage, quantity }] of packages.entries()) {
+        const packageTotal = saleLines.reduce(
+          (total, line, index) => line.package_index === packageIndex ? total + toCents(lineTotal(index)) : total,
+          0
+        ) / 100;
 
+        const transactionPackage = await tx.insert(transactionPackagesTable)
+          .values({
+            transaction_id: transaction.id,
+            package_id: servicePackage.id,
+            quantity,
+            price_per_unit: servicePackage.price,
+            total_price: packageTotal.toString()
+          })
+          .returning()
+          .execute();
+        transactionPackageIds.push(transactionPackage[0].id);
+      }
+
+      const transactionPackageId = (line: SaleLine) =>
+        line.package_index === null ? null : transactionPackageIds[line.package_index];
+
+      // Create transaction services records; total_price is after the line's discount
+      for (const [index, serviceLine] of serviceLines.entries()) {
         await tx.insert(transactionServicesTable)
           .values({
             transaction_id: transaction.id,
-            service_id: serviceItem.service_id,
-            quantity: serviceItem.quantity,
-            price_per_unit: servicePrice.toString(),
-            total_price: totalPrice.toString()
+            transaction_package_id: transactionPackageId(serviceLine),
+            service_id: serviceLine.item_id,
+            quantity: serviceLine.quantity,
+            price_per_unit: unitPrice(serviceLine).toString(),
+            discount_amount: lineDiscounts[index].toString(),
+            total_price: lineTotal(index).toString()
           })
           .execute();
       }
 
       // 7. Create transaction medicines records and update stock
-      if (input.medicines && input.medicines.length > 0) {
-        for (const medicineItem of input.medicines) {
-          const medicine = await tx.select()
-            .from(medicinesTable)
-            .where(eq(medicinesTable.id, medicineItem.medicine_id))
-            .execute();
-
-          const medicinePrice = parseFloat(medicine[0].price_per_unit);
-          const totalPrice = medicinePrice * medicineItem.quantity;
+      for (const [medicineIndex, medicineLine] of medicineLines.entries()) {
+        const index = serviceLines.length + medicineIndex;
+        const medicine = await tx.select()
+          .from(medicinesTable)
+          .where(eq(medicinesTable.id, medicineLine.item_id))
+          .execute();
 
-          // Create transaction medicine record
-          await tx.insert(transactionMedicinesTable)
-            .values({
-              transaction_id: transaction.id,
-              medicine_id: medicineItem.medicine_id,
-              quantity: medicineItem.quantity,
-              price_per_unit: medicinePrice.toString(),
-              total_price: totalPrice.toString()
-            })
-            .execute();
+        // Create transaction medicine record
+        await tx.insert(transactionMedicinesTable)
+          .values({
+            transaction_id: transaction.id,
+            transaction_package_id: transactionPackageId(medicineLine),
+            medicine_id: medicineLine.item_id,
+            quantity: medicineLine.quantity,
+            price_per_unit: unitPrice(medicineLine).toString(),
+            discount_amount: lineDiscounts[index].toString(),
+            total_price: lineTotal(index).toString(),
+            unit_cost: medicine[0].average_cost // Cost of goods as it stands before this sale
+          })
+          .execute();
 
-          // Update medicine stock
-          await tx.update(medicinesTable)
-            .set({
-              stock_quantity: sql`${medicinesTable.stock_quantity} - ${medicineItem.quantity}`,
-              updated_at: new Date()
-            })
-            .where(eq(medicinesTable.id, medicineItem.medicine_id))
-            .execute();
+        // Create stock movement record
+        const movement = await tx.insert(stockMovementsTable)
+          .values({
+            medicine_id: medicineLine.item_id,
+            movement_type: 'keluar',
+            quantity: medicineLine.quantity,
+            reference_id: transaction.id,
+            reference_type: 'transaction',
+            notes: `Medicine used in transaction #${transaction.id}`
+          })
+          .returning()
+          .execute();
 
-          // Create stock movement record
-          await tx.insert(stockMovementsTable)
-            .values({
-              medicine_id: medicineItem.medicine_id,
-              movement_type: 'keluar',
-              quantity: medicineItem.quantity,
-              reference_id: transaction.id,
-              notes: `Medicine used in transaction #${transaction.id}`
-            })
-            .execute();
-        }
+        // Dispense from the batches that expire first
+        await consumeBatches(tx, medicine[0], medicineLine.quantity, movement[0].id, { skipExpired: true });
       }
 
       // 8. Create patient visit record
@@ -155,14 +297,53 @@ export const createTransaction = async (input: CreateTransactionInput): Promise<
         .values({
           patient_id: input.patient_id,
           transaction_id: transaction.id,
-          notes: `Transaction #${transaction.id} - ${input.services.length} service(s)${input.medicines ? `, ${input.medicines.length} medicine(s)` : ''}`
+          notes: `Transaction #${transaction.id} - ${input.services.length} service(s)${input.medicines ? `, ${input.medicines.length} medicine(s)` : ''}${input.packages?.length ? `, ${input.packages.length} package(s)` : ''}`
         })
         .execute();
 
+      // 9. Mark the appointment as completed by this transaction
+      if (input.appointment_id !== undefined) {
+        await tx.update(appointmentsTable)
+          .set({
+            status: 'completed',
+            transaction_id: transaction.id,
+            updated_at: new Date()
+          })
+          .where(eq(appointmentsTable.id, input.appointment_id))
+          .execute();
+      }
+
+      // 10. Schedule post-operative control visits from the follow-up rules of each service
+      const scheduledServiceIds = new Set<number>();
+      for (const serviceLine of serviceLines) {
+        if (scheduledServiceIds.has(serviceLine.item_id)) continue;
+        scheduledServiceIds.add(serviceLine.item_id);
+
+        const service = await tx.select()
+          .from(servicesTable)
+          .where(eq(servicesTable.id, serviceLine.item_id))
+          .execute();
+
+        for (const days of service[0].follow_up_days) {
+          await tx.insert(followUpsTable)
+            .values({
+              patient_id: input.patient_id,
+              transaction_id: transaction.id,
+              service_id: serviceLine.item_id,
+              day_offset: days,
+              due_date: followUpDueDate(transaction.created_at, days)
+            })
+            .execute();
+        }
+      }
+
       // Return the transaction with converted numeric fields
       return {
         ...transaction,
-        total_amount: parseFloat(transaction.total_amount)
+        total_amount: parseFloat(transaction.total_amount),
+        discount_amount: parseFloat(transaction.discount_amount),
+        paid_amount: parseFloat(transaction.paid_amount),
+        refunded_amount: parseFloat(transaction.refunded_amount)
       };
     });
   } catch (error) {
@@ -4,10 +4,71 @@ import {
   transactionsTable, 
   medicinesTable,
   transactionServicesTable,
-  servicesTable
+  servicesTable,
+  servicePackagesTable,
+  transactionPackagesTable,
+  transactionMedicinesTable,
+  refundsTable,
+  refundItemsTable
 } from '../db/schema';
-import { type DashboardStats } from '../schema';
-import { sql, count, eq, and, gte, lte, lt, desc, sum } from 'drizzle-orm';
+import { type DashboardStats, type GrossMargin, type GrossMarginInput } from '../schema';
+import { expiredStockCondition } from './medicine_batches';
+import { sql, count, eq, and, gte, lte, lt, desc, sum, inArray, isNull } from 'drizzle-orm';
+
+/**
+ * Money refunded in [start, end): refunds count against the revenue of the day they are paid out.
+ * Revenue only counts paid transactions, so a down payment handed back on a bill that was never
+ * settled was never revenue and is left out here too.
+ */
+async function refundTotal(start: Date, end: Date): Promise<number> {
+  const result = await db.select({ total: sum(refundsTable.amount) })
+    .from(refundsTable)
+    .innerJoin(transactionsTable, eq(refundsTable.transaction_id, transactionsTable.id))
+    .where(and(
+      gte(refundsTable.created_at, start),
+      lt(refundsTable.created_at, end),
+      eq(transactionsTable.payment_status, 'paid')
+    ))
+    .execute();
+
+  return parseFloat(result[0]?.total || '0');
+}
+
+/**
+ * Cost of the medicines sold in [start, end), at the moving-average cost stored
+ * on each line when it was sold. Units refunded in the period from paid sales go
+ * back on the shelf, so their cost comes off; lines sold without a known cost count as zero.
+ */
+async function costOfGoodsSold(start: Date, end: Date): Promise<number> {
+  const sold = await db.select({
+    total: sql<string>`coalesce(sum(${transactionMedicinesTable.unit_cost} * ${transactionMedicinesTable.quantity}), 0)`
+  })
+    .from(transactionMedicinesTable)
+    .innerJoin(transactionsTable, eq(transactionMedicinesTable.transaction_id, transactionsTable.id))
+    .where(and(
+      gte(transactionsTable.created_at, start),
+      lt(transactionsTable.created_at, end),
+      eq(transactionsTable.payment_status, 'paid')
+    ))
+    .execute();
+
+  const refunded = await db.select({
+    total: sql<string>`coalesce(sum(${transactionMedicinesTable.unit_cost} * ${refundItemsTable.quantity}), 0)`
+  })
+    .from(refundItemsTable)
+    .innerJoin(refundsTable, eq(refundItemsTable.refund_id, refundsTable.id))
+    .innerJoin(transactionMedicinesTable, eq(refundItemsTable.transaction_item_id, transactionMedicinesTable.id))
+    .innerJoin(transactionsTable, eq(transactionMedicinesTable.transaction_id, transactionsTable.id))
+    .where(and(
+      eq(refundItemsTable.item_type, 'medicine'),
+      gte(refundsTable.created_at, start),
+      lt(refundsTable.created_at, end),
+      eq(transactionsTable.payment_status, 'paid')
+    ))
+    .execute();
+
+  return Math.round((parseFloat(sold[0]?.total || '0') - parseFloat(refunded[0]?.total || '0')) * 100) / 100;
+}
 
 export async function getDashboardStats(): Promise<DashboardStats> {
   try {
@@ -19,6 +80,7 @@ export async function getDashboardStats(): Promise<DashboardStats> {
     // Get total patients count
     const totalPatientsResult = await db.select({ count: count() })
       .from(patientsTable)
+      .where(isNull(patientsTable.archived_at))
       .execute();
 
     // Get today's transactions count
@@ -43,25 +105,31 @@ export async function getDashboardStats(): Promise<DashboardStats> {
     // Get low stock medicines count
     const lowStockResult = await db.select({ count: count() })
       .from(medicinesTable)
-      .where(sql`${medicinesTable.stock_quantity} <= ${medicinesTable.minimum_stock}`)
+      .where(and(
+        sql`${medicinesTable.stock_quantity} <= ${medicinesTable.minimum_stock}`,
+        isNull(medicinesTable.archived_at)
+      ))
       .execute();
 
-    // Get expired medicines count
+    // Get expired medicines count (medicines with an expired batch still in stock)
     const expiredResult = await db.select({ count: count() })
       .from(medicinesTable)
-      .where(lt(medicinesTable.expiry_date, today.toISOString().split('T')[0]))
+      .where(and(
+        expiredStockCondition(),
+        isNull(medicinesTable.archived_at)
+      ))
       .execute();
 
     // Get pending transactions count
     const pendingTransactionsResult = await db.select({ count: count() })
       .from(transactionsTable)
-      .where(eq(transactionsTable.payment_status, 'pending'))
+      .where(inArray(transactionsTable.payment_status, ['pending', 'partially_paid']))
       .execute();
 
     return {
       total_patients: totalPatientsResult[0]?.count || 0,
       total_transactions_today: todayTransactionsResult[0]?.count || 0,
-      total_revenue_today: parseFloat(todayRevenueResult[0]?.total || '0'),
+      total_revenue_today: parseFloat(todayRevenueResult[0]?.total || '0') - await refundTotal(today, tomorrow),
       low_stock_medicines: lowStockResult[0]?.count || 0,
       expired_medicines: expiredResult[0]?.count || 0,
       pending_transactions: pendingTransactionsResult[0]?.count || 0
@@ -92,7 +160,7 @@ export async function getDailyRevenue(date?: Date): Promise<number> {
       )
       .execute();
 
-    return parseFloat(result[0]?.total || '0');
+    return parseFloat(result[0]?.total || '0') - await refundTotal(targetDate, nextDay);
   } catch (error) {
     console.error('Daily revenue calculation failed:', error);
     throw error;
@@ -117,16 +185,49 @@ export async function getMonthlyRevenue(year: number, month: number): Promise<nu
       )
       .execute();
 
-    return parseFloat(result[0]?.total || '0');
+    return parseFloat(result[0]?.total || '0') - await refundTotal(startDate, endDate);
   } catch (error) {
     console.error('Monthly revenue calculation failed:', error);
     throw error;
   }
 }
 
-export async function getTopServices(limit: number = 5): Promise<Array<{ service_name: string; total_usage: number; total_revenue: number }>> {
+// Revenue of paid transactions in [start_date, end_date) net of refunds, less the cost of the medicines sold
+export async function getGrossMargin(input: GrossMarginInput): Promise<GrossMargin> {
   try {
     const result = await db.select({
+      total: sum(transactionsTable.total_amount)
+    })
+      .from(transactionsTable)
+      .where(
+        and(
+          gte(transactionsTable.created_at, input.start_date),
+          lt(transactionsTable.created_at, input.end_date),
+          eq(transactionsTable.payment_status, 'paid')
+        )
+      )
+      .execute();
+
+    const revenue = Math.round((parseFloat(result[0]?.total || '0') - await refundTotal(input.start_date, input.end_date)) * 100) / 100;
+    const costOfGoods = await costOfGoodsSold(input.start_date, input.end_date);
+    const grossMargin = Math.round((revenue - costOfGoods) * 100) / 100;
+
+    return {
+      revenue,
+      cost_of_goods: costOfGoods,
+      gross_margin: grossMargin,
+      margin_percent: revenue > 0 ? Math.round(grossMargin / revenue * 1000) / 10 : null
+    };
+  } catch (error) {
+    console.error('Gross margin calculation failed:', error);
+    throw error;
+  }
+}
+
+// Best sellers by units sold: services sold on their own, and each package as one entry
+export async function getTopServices(limit: number = 5): Promise<Array<{ type: 'service' | 'package'; service_name: string; total_usage: number; total_revenue: number }>> {
+  try {
+    const services = await db.select({
       service_name: servicesTable.name,
       total_usage: sum(transactionServicesTable.quantity),
       total_revenue: sum(transactionServicesTable.total_price)
@@ -134,17 +235,41 @@ export async function getTopServices(limit: number = 5): Promise<Array<{ service
       .from(transactionServicesTable)
       .innerJoin(servicesTable, eq(transactionServicesTable.service_id, servicesTable.id))
       .innerJoin(transactionsTable, eq(transactionServicesTable.transaction_id, transactionsTable.id))
-      .where(eq(transactionsTable.payment_status, 'paid'))
+      .where(and(
+        eq(transactionsTable.payment_status, 'paid'),
+        isNull(transactionServicesTable.transaction_package_id)
+      ))
       .groupBy(servicesTable.id, servicesTable.name)
       .orderBy(desc(sum(transactionServicesTable.quantity)))
       .limit(limit)
       .execute();
 
-    return result.map(row => ({
-      service_name: row.service_name,
-      total_usage: parseInt(row.total_usage || '0'),
-      total_revenue: parseFloat(row.total_revenue || '0')
-    }));
+    const packages = await db.select({
+      service_name: servicePackagesTable.name,
+      total_usage: sum(transactionPackagesTable.quantity),
+      total_revenue: sum(transactionPackagesTable.total_price)
+    })
+      .from(transactionPackagesTable)
+      .innerJoin(servicePackagesTable, eq(transactionPackagesTable.package_id, servicePackagesTable.id))
+      .innerJoin(transactionsTable, eq(transactionPackagesTable.transaction_id, transactionsTable.id))
+      .where(eq(transactionsTable.payment_status, 'paid'))
+      .groupBy(servicePackagesTable.id, servicePackagesTable.name)
+      .orderBy(desc(sum(transactionPackagesTable.quantity)))
+      .limit(limit)
+      .execute();
+
+    return [
+      ...services.map(row => ({ ...row, type: 'service' as const })),
+      ...packages.map(row => ({ ...row, type: 'package' as const }))
+    ]
+      .map(row => ({
+        type: row.type,
+        service_name: row.service_name,
+        total_usage: parseInt(row.total_usage || '0'),
+        total_revenue: parseFloat(row.total_revenue || '0')
+      }))
+      .sort((a, b) => b.total_usage - a.total_usage)
+      .slice(0, limit);
   } catch (error) {
     console.error('Top services calculation failed:', error);
     throw error;
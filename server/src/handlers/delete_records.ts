@@ -6,12 +6,103 @@ import {
   transactionsTable,
   transactionServicesTable,
   transactionMedicinesTable,
+  transactionPackagesTable,
   patientVisitsTable,
-  stockMovementsTable
+  stockMovementsTable,
+  stockMovementBatchesTable,
+  medicineBatchesTable,
+  appointmentsTable,
+  patientGuardiansTable,
+  followUpsTable,
+  purchaseOrderItemsTable,
+  stockTakeItemsTable,
+  servicePackageItemsTable,
+  promotionsTable
 } from '../db/schema';
-import { eq, and } from 'drizzle-orm';
+import { type DeleteBlockReason, type DeleteResult, type Patient, type Medicine, type Service } from '../schema';
+import { transactionMovementCondition } from './medicine_batches';
+import { toPatient } from './get_patients';
+import { releasePromotion } from './promotions';
+import { eq, and, inArray } from 'drizzle-orm';
+
+const deleted: DeleteResult = { deleted: true, reason: null };
+const blocked = (reason: DeleteBlockReason): DeleteResult => ({ deleted: false, reason });
+
+const toMedicine = (medicine: typeof medicinesTable.$inferSelect): Medicine => ({
+  ...medicine,
+  price_per_unit: parseFloat(medicine.price_per_unit),
+  average_cost: medicine.average_cost !== null ? parseFloat(medicine.average_cost) : null,
+  expiry_date: medicine.expiry_date ? new Date(medicine.expiry_date) : null
+});
+
+const toService = (service: typeof servicesTable.$inferSelect): Service => ({
+  ...service,
+  price: parseFloat(service.price)
+});
+
+/*
+ * Archiving is the everyday way to remove a patient, medicine or service: the record drops out of
+ * lists, pickers and new sales but keeps every transaction pointing at it. Hard deletion is only for
+ * records created by mistake and reports why it is blocked once history exists.
+ */
+
+export async function archivePatient(id: number, userId: number | null = null): Promise<Patient> {
+  try {
+    const patients = await db.select()
+      .from(patientsTable)
+      .where(eq(patientsTable.id, id))
+      .execute();
+
+    if (patients.length === 0) {
+      throw new Error(`Patient with ID ${id} not found`);
+    }
+
+    if (patients[0].archived_at) {
+      throw new Error(`Pasien ${patients[0].name} sudah diarsipkan`);
+    }
+
+    const result = await db.update(patientsTable)
+      .set({ archived_at: new Date(), archived_by: userId, updated_at: new Date() })
+      .where(eq(patientsTable.id, id))
+      .returning()
+      .execute();
+
+    return toPatient(result[0]);
+  } catch (error) {
+    console.error('Patient archiving failed:', error);
+    throw error;
+  }
+}
 
-export async function deletePatient(id: number): Promise<boolean> {
+export async function restorePatient(id: number): Promise<Patient> {
+  try {
+    const patients = await db.select()
+      .from(patientsTable)
+      .where(eq(patientsTable.id, id))
+      .execute();
+
+    if (patients.length === 0) {
+      throw new Error(`Patient with ID ${id} not found`);
+    }
+
+    if (!patients[0].archived_at) {
+      throw new Error(`Pasien ${patients[0].name} tidak sedang diarsipkan`);
+    }
+
+    const result = await db.update(patientsTable)
+      .set({ archived_at: null, archived_by: null, updated_at: new Date() })
+      .where(eq(patientsTable.id, id))
+      .returning()
+      .execute();
+
+    return toPatient(result[0]);
+  } catch (error) {
+    console.error('Patient restore failed:', error);
+    throw error;
+  }
+}
+
+export async function deletePatient(id: number): Promise<DeleteResult> {
   try {
     // Check if patient exists
     const patient = await db.select()
@@ -20,44 +111,113 @@ export async function deletePatient(id: number): Promise<boolean> {
       .execute();
 
     if (patient.length === 0) {
-      return false;
+      return blocked('NOT_FOUND');
     }
 
-    // Check for associated transactions
-    const transactions = await db.select()
+    // Patients with a billing, visit or booking history are archived instead
+    const transactions = await db.select({ id: transactionsTable.id })
       .from(transactionsTable)
       .where(eq(transactionsTable.patient_id, id))
+      .limit(1)
       .execute();
 
     if (transactions.length > 0) {
-      // Prevent deletion if patient has transactions
-      return false;
+      return blocked('HAS_TRANSACTIONS');
     }
 
-    // Check for associated visits
-    const visits = await db.select()
+    const visits = await db.select({ id: patientVisitsTable.id })
       .from(patientVisitsTable)
       .where(eq(patientVisitsTable.patient_id, id))
+      .limit(1)
       .execute();
 
     if (visits.length > 0) {
-      // Prevent deletion if patient has visits
-      return false;
+      return blocked('HAS_VISITS');
     }
 
-    // Safe to delete patient
+    const appointments = await db.select({ id: appointmentsTable.id })
+      .from(appointmentsTable)
+      .where(eq(appointmentsTable.patient_id, id))
+      .limit(1)
+      .execute();
+
+    if (appointments.length > 0) {
+      return blocked('HAS_APPOINTMENTS');
+    }
+
+    // Safe to delete patient; guardians stay, only the links go
+    await db.delete(patientGuardiansTable)
+      .where(eq(patientGuardiansTable.patient_id, id))
+      .execute();
+
     await db.delete(patientsTable)
       .where(eq(patientsTable.id, id))
       .execute();
 
-    return true;
+    return deleted;
   } catch (error) {
     console.error('Patient deletion failed:', error);
     throw error;
   }
 }
 
-export async function deleteMedicine(id: number): Promise<boolean> {
+export async function archiveMedicine(id: number, userId: number | null = null): Promise<Medicine> {
+  try {
+    const medicines = await db.select()
+      .from(medicinesTable)
+      .where(eq(medicinesTable.id, id))
+      .execute();
+
+    if (medicines.length === 0) {
+      throw new Error(`Medicine with ID ${id} not found`);
+    }
+
+    if (medicines[0].archived_at) {
+      throw new Error(`Obat ${medicines[0].name} sudah diarsipkan`);
+    }
+
+    const result = await db.update(medicinesTable)
+      .set({ archived_at: new Date(), archived_by: userId, updated_at: new Date() })
+      .where(eq(medicinesTable.id, id))
+      .returning()
+      .execute();
+
+    return toMedicine(result[0]);
+  } catch (error) {
+    console.error('Medicine archiving failed:', error);
+    throw error;
+  }
+}
+
+export async function restoreMedicine(id: number): Promise<Medicine> {
+  try {
+    const medicines = await db.select()
+      .from(medicinesTable)
+      .where(eq(medicinesTable.id, id))
+      .execute();
+
+    if (medicines.length === 0) {
+      throw new Error(`Medicine with ID ${id} not found`);
+    }
+
+    if (!medicines[0].archived_at) {
+      throw new Error(`Obat ${medicines[0].name} tidak sedang diarsipkan`);
+    }
+
+    const result = await db.update(medicinesTable)
+      .set({ archived_at: null, archived_by: null, updated_at: new Date() })
+      .where(eq(medicinesTable.id, id))
+      .returning()
+      .execute();
+
+    return toMedicine(result[0]);
+  } catch (error) {
+    console.error('Medicine restore failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteMedicine(id: number): Promise<DeleteResult> {
   try {
     // Check if medicine exists
     const medicine = await db.select()
@@ -66,18 +226,48 @@ export async function deleteMedicine(id: number): Promise<boolean> {
       .execute();
 
     if (medicine.length === 0) {
-      return false;
+      return blocked('NOT_FOUND');
     }
 
-    // Check if medicine has been used in transactions
-    const transactionMedicines = await db.select()
+    // Medicines sold, ordered from a supplier, counted in a stock opname or bundled in a package keep that history
+    const transactionMedicines = await db.select({ id: transactionMedicinesTable.id })
       .from(transactionMedicinesTable)
       .where(eq(transactionMedicinesTable.medicine_id, id))
+      .limit(1)
       .execute();
 
     if (transactionMedicines.length > 0) {
-      // Prevent deletion if medicine has been used in transactions
-      return false;
+      return blocked('HAS_TRANSACTIONS');
+    }
+
+    const orderItems = await db.select({ id: purchaseOrderItemsTable.id })
+      .from(purchaseOrderItemsTable)
+      .where(eq(purchaseOrderItemsTable.medicine_id, id))
+      .limit(1)
+      .execute();
+
+    if (orderItems.length > 0) {
+      return blocked('HAS_PURCHASE_ORDERS');
+    }
+
+    const stockTakeItems = await db.select({ id: stockTakeItemsTable.id })
+      .from(stockTakeItemsTable)
+      .where(eq(stockTakeItemsTable.medicine_id, id))
+      .limit(1)
+      .execute();
+
+    if (stockTakeItems.length > 0) {
+      return blocked('HAS_STOCK_TAKES');
+    }
+
+    const packageItems = await db.select({ id: servicePackageItemsTable.id })
+      .from(servicePackageItemsTable)
+      .where(and(eq(servicePackageItemsTable.item_type, 'medicine'), eq(servicePackageItemsTable.item_id, id)))
+      .limit(1)
+      .execute();
+
+    if (packageItems.length > 0) {
+      return blocked('HAS_SERVICE_PACKAGES');
     }
 
     // Check for stock movements
@@ -87,25 +277,89 @@ export async function deleteMedicine(id: number): Promise<boolean> {
       .execute();
 
     if (stockMovements.length > 0) {
-      // Delete stock movements first
+      // Delete stock movements first, with their batch allocations
+      await db.delete(stockMovementBatchesTable)
+        .where(inArray(stockMovementBatchesTable.movement_id, stockMovements.map(movement => movement.id)))
+        .execute();
+
       await db.delete(stockMovementsTable)
         .where(eq(stockMovementsTable.medicine_id, id))
         .execute();
     }
 
+    await db.delete(medicineBatchesTable)
+      .where(eq(medicineBatchesTable.medicine_id, id))
+      .execute();
+
     // Safe to delete medicine
     await db.delete(medicinesTable)
       .where(eq(medicinesTable.id, id))
       .execute();
 
-    return true;
+    return deleted;
   } catch (error) {
     console.error('Medicine deletion failed:', error);
     throw error;
   }
 }
 
-export async function deleteService(id: number): Promise<boolean> {
+export async function archiveService(id: number, userId: number | null = null): Promise<Service> {
+  try {
+    const services = await db.select()
+      .from(servicesTable)
+      .where(eq(servicesTable.id, id))
+      .execute();
+
+    if (services.length === 0) {
+      throw new Error(`Service with ID ${id} not found`);
+    }
+
+    if (services[0].archived_at) {
+      throw new Error(`Layanan ${services[0].name} sudah diarsipkan`);
+    }
+
+    const result = await db.update(servicesTable)
+      .set({ archived_at: new Date(), archived_by: userId, updated_at: new Date() })
+      .where(eq(servicesTable.id, id))
+      .returning()
+      .execute();
+
+    return toService(result[0]);
+  } catch (error) {
+    console.error('Service archiving failed:', error);
+    throw error;
+  }
+}
+
+export async function restoreService(id: number): Promise<Service> {
+  try {
+    const services = await db.select()
+      .from(servicesTable)
+      .where(eq(servicesTable.id, id))
+      .execute();
+
+    if (services.length === 0) {
+      throw new Error(`Service with ID ${id} not found`);
+    }
+
+    if (!services[0].archived_at) {
+      throw new Error(`Layanan ${services[0].name} tidak sedang diarsipkan`);
+    }
+
+    const result = await db.update(servicesTable)
+      .set({ archived_at: null, archived_by: null, updated_at: new Date() })
+      .where(eq(servicesTable.id, id))
+      .returning()
+      .execute();
+
+    return toService(result[0]);
+  } catch (error) {
+    console.error('Service restore failed:', error);
+    throw error;
+  }
+}
+
+export async function deleteService(id: number): Promise<DeleteResult> {
   try {
     // Check if service exists
     const service = await db.select()
@@ -114,26 +368,48 @@ export async function deleteService(id: number): Promise<boolean> {
       .execute();
 
     if (service.length === 0) {
-      return false;
+      return blocked('NOT_FOUND');
     }
 
-    // Check if service has been used in transactions
-    const transactionServices = await db.select()
+    // Services sold, booked, bundled in a package or promoted keep that history
+    const transactionServices = await db.select({ id: transactionServicesTable.id })
       .from(transactionServicesTable)
       .where(eq(transactionServicesTable.service_id, id))
+      .limit(1)
       .execute();
 
     if (transactionServices.length > 0) {
-      // If service has been used, deactivate instead of deleting
-      await db.update(servicesTable)
-        .set({ 
-          is_active: false,
-          updated_at: new Date()
-        })
-        .where(eq(servicesTable.id, id))
-        .execute();
+      return blocked('HAS_TRANSACTIONS');
+    }
+
+    const appointments = await db.select({ id: appointmentsTable.id })
+      .from(appointmentsTable)
+      .where(eq(appointmentsTable.service_id, id))
+      .limit(1)
+      .execute();
+
+    if (appointments.length > 0) {
+      return blocked('HAS_APPOINTMENTS');
+    }
+
+    const packageItems = await db.select({ id: servicePackageItemsTable.id })
+      .from(servicePackageItemsTable)
+      .where(and(eq(servicePackageItemsTable.item_type, 'service'), eq(servicePackageItemsTable.item_id, id)))
+      .limit(1)
+      .execute();
+
+    if (packageItems.length > 0) {
+      return blocked('HAS_SERVICE_PACKAGES');
+    }
+
+    const promotions = await db.select({ id: promotionsTable.id })
+      .from(promotionsTable)
+      .where(eq(promotionsTable.service_id, id))
+      .limit(1)
+      .execute();
 
-      return true;
+    if (promotions.length > 0) {
+      return blocked('HAS_PROMOTIONS');
     }
 
     // Safe to delete service (no transaction history)
@@ -141,14 +417,14 @@ export async function deleteService(id: number): Promise<boolean> {
       .where(eq(servicesTable.id, id))
       .execute();
 
-    return true;
+    return deleted;
   } catch (error) {
     console.error('Service deletion failed:', error);
     throw error;
   }
 }
 
-export async function deleteTransaction(id: number): Promise<boolean> {
+export async function deleteTransaction(id: number): Promise<DeleteResult> {
   try {
     // Check if transaction exists
     const transactions = await db.select()
@@ -157,46 +433,73 @@ export async function deleteTransaction(id: number): Promise<boolean> {
       .execute();
 
     if (transactions.length === 0) {
-      return false;
+      return blocked('NOT_FOUND');
     }
 
     const transaction = transactions[0];
 
-    // Only allow deletion of cancelled or pending transactions
-    if (transaction.payment_status === 'paid') {
-      return false;
+    // Only allow deletion of cancelled or pending transactions that never received money
+    if (transaction.payment_status === 'paid' || parseFloat(transaction.paid_amount) > 0) {
+      return blocked('HAS_PAYMENTS');
     }
 
     // If transaction has medicines and was paid, we would restore stock
     // But since we only delete cancelled/pending, no stock restoration needed
-    
-    // Delete related transaction services
-    await db.delete(transactionServicesTable)
-      .where(eq(transactionServicesTable.transaction_id, id))
-      .execute();
+    await db.transaction(async (tx) => {
+      // A cancelled sale gave its promo code's use back already
+      if (transaction.payment_status !== 'cancelled') {
+        await releasePromotion(tx, transaction.promotion_id);
+      }
+
+      // Delete related transaction services, medicines and the packages they were sold in
+      await tx.delete(transactionServicesTable)
+        .where(eq(transactionServicesTable.transaction_id, id))
+        .execute();
 
-    // Delete related transaction medicines
-    await db.delete(transactionMedicinesTable)
-      .where(eq(transactionMedicinesTable.transaction_id, id))
-      .execute();
+      await tx.delete(transactionMedicinesTable)
+        .where(eq(transactionMedicinesTable.transaction_id, id))
+        .execute();
 
-    // Delete related stock movements (if any reference this transaction)
-    await db.delete(stockMovementsTable)
-      .where(eq(stockMovementsTable.reference_id, id))
-      .execute();
+      await tx.delete(transactionPackagesTable)
+        .where(eq(transactionPackagesTable.transaction_id, id))
+        .execute();
 
-    // Delete related patient visits (if any reference this transaction)
-    await db.update(patientVisitsTable)
-      .set({ transaction_id: null })
-      .where(eq(patientVisitsTable.transaction_id, id))
-      .execute();
+      // Delete related stock movements (if any reference this transaction) and their batch allocations
+      await tx.delete(stockMovementBatchesTable)
+        .where(inArray(
+          stockMovementBatchesTable.movement_id,
+          tx.select({ id: stockMovementsTable.id }).from(stockMovementsTable).where(transactionMovementCondition(id))
+        ))
+        .execute();
 
-    // Finally delete the transaction
-    await db.delete(transactionsTable)
-      .where(eq(transactionsTable.id, id))
-      .execute();
+      await tx.delete(stockMovementsTable)
+        .where(transactionMovementCondition(id))
+        .execute();
+
+      // Delete the control visits scheduled for this transaction
+      await tx.delete(followUpsTable)
+        .where(eq(followUpsTable.transaction_id, id))
+        .execute();
+
+      // Delete related patient visits (if any reference this transaction)
+      await tx.update(patientVisitsTable)
+        .set({ transaction_id: null })
+        .where(eq(patientVisitsTable.transaction_id, id))
+        .execute();
+
+      // Reopen an appointment that was settled by this transaction
+      await tx.update(appointmentsTable)
+        .set({ status: 'scheduled', transaction_id: null, updated_at: new Date() })
+        .where(eq(appointmentsTable.transaction_id, id))
+        .execute();
+
+      // Finally delete the transaction
+      await tx.delete(transactionsTable)
+        .where(eq(transactionsTable.id, id))
+        .execute();
+    });
 
-    return true;
+    return deleted;
   } catch (error) {
     console.error('Transaction deletion failed:', error);
     throw error;
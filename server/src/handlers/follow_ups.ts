@@ -0,0 +1,84 @@
+import { db } from '../db';
+import { followUpsTable, patientsTable, servicesTable } from '../db/schema';
+import {
+  type FollowUp,
+  type FollowUpWithDetails,
+  type DueFollowUpsInput
+} from '../schema';
+import { eq, and, lte, asc, type SQL } from 'drizzle-orm';
+import { localDateString } from './money';
+
+// Due date of a control visit `days` days after the procedure day
+export function followUpDueDate(procedureDate: Date, days: number): string {
+  const due = new Date(procedureDate);
+  due.setDate(due.getDate() + days);
+  return localDateString(due);
+}
+
+const toFollowUp = (row: typeof followUpsTable.$inferSelect): FollowUp => ({
+  ...row,
+  due_date: new Date(row.due_date)
+});
+
+// Pending control visits due on or before `as_of`; those already past their due date are missed
+export async function getDueFollowUps(input?: DueFollowUpsInput): Promise<FollowUpWithDetails[]> {
+  try {
+    const today = localDateString(input?.as_of ?? new Date());
+    const conditions: SQL<unknown>[] = [eq(followUpsTable.status, 'pending')];
+
+    if (!input?.include_upcoming) {
+      conditions.push(lte(followUpsTable.due_date, today));
+    }
+
+    if (input?.patient_id !== undefined) {
+      conditions.push(eq(followUpsTable.patient_id, input.patient_id));
+    }
+
+    const results = await db.select()
+      .from(followUpsTable)
+      .innerJoin(patientsTable, eq(followUpsTable.patient_id, patientsTable.id))
+      .innerJoin(servicesTable, eq(followUpsTable.service_id, servicesTable.id))
+      .where(and(...conditions))
+      .orderBy(asc(followUpsTable.due_date), asc(followUpsTable.id))
+      .execute();
+
+    return results.map(result => ({
+      ...toFollowUp(result.follow_ups),
+      patient_name: result.patients.name,
+      patient_phone: result.patients.phone,
+      service_name: result.services.name,
+      is_missed: result.follow_ups.due_date < today
+    }));
+  } catch (error) {
+    console.error('Failed to fetch due follow-ups:', error);
+    throw error;
+  }
+}
+
+export async function cancelFollowUp(id: number): Promise<FollowUp> {
+  try {
+    const existing = await db.select()
+      .from(followUpsTable)
+      .where(eq(followUpsTable.id, id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Follow-up with ID ${id} not found`);
+    }
+
+    if (existing[0].status !== 'pending') {
+      throw new Error('Hanya jadwal kontrol yang belum dilakukan yang dapat dibatalkan');
+    }
+
+    const result = await db.update(followUpsTable)
+      .set({ status: 'cancelled', updated_at: new Date() })
+      .where(eq(followUpsTable.id, id))
+      .returning()
+      .execute();
+
+    return toFollowUp(result[0]);
+  } catch (error) {
+    console.error('Follow-up cancellation failed:', error);
+    throw error;
+  }
+}
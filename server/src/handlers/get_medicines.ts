@@ -1,56 +1,75 @@
 import { db } from '../db';
 import { medicinesTable } from '../db/schema';
-import { type Medicine, type MedicineSearchInput } from '../schema';
-import { eq, lte, ilike, and, desc, SQL } from 'drizzle-orm';
+import { type Medicine, type MedicineSearchInput, type MedicineExportInput, type Paginated, type ReportFile } from '../schema';
+import { csvFile } from '../documents/csv';
+import { expiredStockCondition } from './medicine_batches';
+import { pageQuery, toPage } from './pagination';
+import { eq, lte, ilike, and, desc, count, isNull, SQL } from 'drizzle-orm';
 
-export async function getMedicines(input?: MedicineSearchInput): Promise<Medicine[]> {
-  try {
-    const conditions: SQL<unknown>[] = [];
-
-    // Apply filters if input is provided
-    if (input) {
-      // Search by name (case-insensitive)
-      if (input.query) {
-        conditions.push(ilike(medicinesTable.name, `%${input.query}%`));
-      }
-
-      // Filter for low stock medicines
-      if (input.low_stock_only) {
-        conditions.push(lte(medicinesTable.stock_quantity, medicinesTable.minimum_stock));
-      }
-
-      // Filter for expired medicines
-      if (input.expired_only) {
-        const today = new Date().toISOString().split('T')[0]; // Format as YYYY-MM-DD
-        conditions.push(lte(medicinesTable.expiry_date, today));
-      }
-    }
+type MedicineFilters = Partial<Pick<MedicineSearchInput, 'query' | 'low_stock_only' | 'expired_only' | 'include_archived'>>;
+
+function medicineConditions(filters: MedicineFilters): SQL<unknown>[] {
+  const conditions: SQL<unknown>[] = [];
+
+  if (!filters.include_archived) {
+    conditions.push(isNull(medicinesTable.archived_at));
+  }
+
+  // Search by name (case-insensitive)
+  if (filters.query) {
+    conditions.push(ilike(medicinesTable.name, `%${filters.query}%`));
+  }
+
+  // Filter for low stock medicines
+  if (filters.low_stock_only) {
+    conditions.push(lte(medicinesTable.stock_quantity, medicinesTable.minimum_stock));
+  }
 
-    // Build query in one step
-    const baseQuery = db.select().from(medicinesTable);
-    
-    const whereQuery = conditions.length > 0 
-      ? baseQuery.where(conditions.length === 1 ? conditions[0] : and(...conditions))
-      : baseQuery;
+  // Filter for expired medicines
+  if (filters.expired_only) {
+    conditions.push(expiredStockCondition());
+  }
 
-    const orderedQuery = whereQuery.orderBy(medicinesTable.name);
+  return conditions;
+}
 
-    const limitQuery = input?.limit 
-      ? orderedQuery.limit(input.limit)
-      : orderedQuery;
+const MEDICINE_SORT_COLUMNS = {
+  name: medicinesTable.name,
+  stock_quantity: medicinesTable.stock_quantity,
+  price_per_unit: medicinesTable.price_per_unit,
+  expiry_date: medicinesTable.expiry_date,
+  created_at: medicinesTable.created_at
+};
 
-    const finalQuery = input?.offset 
-      ? limitQuery.offset(input.offset)
-      : limitQuery;
+export async function getMedicines(input?: MedicineSearchInput): Promise<Paginated<Medicine>> {
+  try {
+    const where = and(...medicineConditions(input ?? {}));
+    const page = pageQuery(input, {
+      column: MEDICINE_SORT_COLUMNS[input?.sort_by ?? 'name'],
+      id: medicinesTable.id,
+      direction: input?.sort_direction ?? 'asc'
+    });
 
-    const results = await finalQuery.execute();
+    const results = await db.select()
+      .from(medicinesTable)
+      .where(and(where, page.after))
+      .orderBy(...page.orderBy)
+      .limit(page.limit)
+      .offset(page.offset)
+      .execute();
+
+    const total = await db.select({ count: count() })
+      .from(medicinesTable)
+      .where(where)
+      .execute();
 
     // Convert fields to proper types
-    return results.map(medicine => ({
+    return await toPage(results.map(medicine => ({
       ...medicine,
       price_per_unit: parseFloat(medicine.price_per_unit),
+      average_cost: medicine.average_cost !== null ? parseFloat(medicine.average_cost) : null,
       expiry_date: medicine.expiry_date ? new Date(medicine.expiry_date) : null
-    }));
+    })), total[0].count, page);
   } catch (error) {
     console.error('Failed to get medicines:', error);
     throw error;
@@ -72,6 +91,7 @@ export async function getMedicineById(id: number): Promise<Medicine | null> {
     return {
       ...medicine,
       price_per_unit: parseFloat(medicine.price_per_unit),
+      average_cost: medicine.average_cost !== null ? parseFloat(medicine.average_cost) : null,
       expiry_date: medicine.expiry_date ? new Date(medicine.expiry_date) : null
     };
   } catch (error) {
@@ -84,7 +104,10 @@ export async function getLowStockMedicines(): Promise<Medicine[]> {
   try {
     const results = await db.select()
       .from(medicinesTable)
-      .where(lte(medicinesTable.stock_quantity, medicinesTable.minimum_stock))
+      .where(and(
+        lte(medicinesTable.stock_quantity, medicinesTable.minimum_stock),
+        isNull(medicinesTable.archived_at)
+      ))
       .orderBy(desc(medicinesTable.minimum_stock), medicinesTable.name)
       .execute();
 
@@ -92,6 +115,7 @@ export async function getLowStockMedicines(): Promise<Medicine[]> {
     return results.map(medicine => ({
       ...medicine,
       price_per_unit: parseFloat(medicine.price_per_unit),
+      average_cost: medicine.average_cost !== null ? parseFloat(medicine.average_cost) : null,
       expiry_date: medicine.expiry_date ? new Date(medicine.expiry_date) : null
     }));
   } catch (error) {
@@ -100,12 +124,12 @@ export async function getLowStockMedicines(): Promise<Medicine[]> {
   }
 }
 
+// Medicines with stock in a batch that has passed its expiry date
 export async function getExpiredMedicines(): Promise<Medicine[]> {
   try {
-    const today = new Date().toISOString().split('T')[0]; // Format as YYYY-MM-DD
     const results = await db.select()
       .from(medicinesTable)
-      .where(lte(medicinesTable.expiry_date, today))
+      .where(and(expiredStockCondition(), isNull(medicinesTable.archived_at)))
       .orderBy(medicinesTable.expiry_date, medicinesTable.name)
       .execute();
 
@@ -113,10 +137,47 @@ export async function getExpiredMedicines(): Promise<Medicine[]> {
     return results.map(medicine => ({
       ...medicine,
       price_per_unit: parseFloat(medicine.price_per_unit),
+      average_cost: medicine.average_cost !== null ? parseFloat(medicine.average_cost) : null,
       expiry_date: medicine.expiry_date ? new Date(medicine.expiry_date) : null
     }));
   } catch (error) {
     console.error('Failed to get expired medicines:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// All matching medicines as CSV, without the list's pagination
+export async function exportMedicinesCsv(input: MedicineExportInput): Promise<ReportFile> {
+  try {
+    const results = await db.select()
+      .from(medicinesTable)
+      .where(and(...medicineConditions(input)))
+      .orderBy(medicinesTable.name, medicinesTable.id)
+      .execute();
+
+    return csvFile('obat', [
+      { header: 'ID', type: 'number' },
+      { header: 'Nama' },
+      { header: 'Satuan' },
+      { header: 'Stok', type: 'number' },
+      { header: 'Stok Minimum', type: 'number' },
+      { header: 'Harga per Satuan', type: 'money' },
+      { header: 'Kedaluwarsa', type: 'date' },
+      { header: 'Supplier' },
+      { header: 'Deskripsi' }
+    ], results.map(medicine => [
+      medicine.id,
+      medicine.name,
+      medicine.unit,
+      medicine.stock_quantity,
+      medicine.minimum_stock,
+      parseFloat(medicine.price_per_unit),
+      medicine.expiry_date,
+      medicine.supplier,
+      medicine.description
+    ]), input.indonesian_format);
+  } catch (error) {
+    console.error('Failed to export medicines:', error);
+    throw error;
+  }
+}
@@ -1,50 +1,179 @@
 import { db } from '../db';
-import { patientsTable } from '../db/schema';
-import { type Patient, type PatientSearchInput } from '../schema';
-import { eq, ilike, and, type SQL } from 'drizzle-orm';
+import { patientsTable, patientGuardiansTable, guardiansTable } from '../db/schema';
+import { type Paginated, type Patient, type PatientSearchInput, type PatientSuggestionInput, type PatientExportInput, type ReportFile } from '../schema';
+import { csvFile } from '../documents/csv';
+import { pageQuery, toPage, type PageSort } from './pagination';
+import { eq, ilike, and, or, inArray, count, lte, gt, asc, desc, isNull, sql, type AnyColumn, type SQL } from 'drizzle-orm';
 
-export async function getPatients(input?: PatientSearchInput): Promise<Patient[]> {
-  try {
-    // Build conditions array for filtering
-    const conditions: SQL<unknown>[] = [];
+// Trigram matching only pays off from three characters; shorter queries stay substring matches
+const FUZZY_MIN_LENGTH = 3;
+
+// A query written like a phone number, as digits with the +62 country code turned into a leading 0
+function phoneDigits(query: string): string | null {
+  if (!/^[+\d\s().-]+$/.test(query)) {
+    return null;
+  }
+  const digits = query.replace(/\D/g, '').replace(/^62/, '0');
+  return digits.length >= 4 ? digits : null;
+}
+
+export const normalizedPhone = (column: AnyColumn) =>
+  sql`regexp_replace(regexp_replace(coalesce(${column}, ''), '[^0-9]', '', 'g'), '^62', '0')`;
+
+// The date of birth of someone turning the given age today
+function birthDateYearsAgo(years: number): string {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - years);
+  return date.toISOString().split('T')[0];
+}
+
+type PatientFilters = Pick<PatientSearchInput, 'query' | 'gender' | 'age_min' | 'age_max' | 'include_archived'>;
+
+// Matches the medical record number, or the query fuzzily against the patient's name, phone, address and emergency contact, or a linked
+// guardian's name, NIK or phone; the rank scores the best of those matches between 0 and 1
+function patientSearch(filters: PatientFilters): { where: SQL | undefined; rank: SQL<number> | null } {
+  const conditions: SQL[] = [];
+  let rank: SQL<number> | null = null;
+  const query = filters.query?.trim();
 
-    // Apply search filter if query is provided
-    if (input?.query && input.query.trim() !== '') {
-      const searchTerm = `%${input.query.trim()}%`;
-      conditions.push(ilike(patientsTable.name, searchTerm));
+  if (query) {
+    const searchTerm = `%${query}%`;
+
+    // Patients whose guardian matches by name, NIK or phone
+    const guardianMatches = inArray(patientsTable.id, db.select({ patient_id: patientGuardiansTable.patient_id })
+      .from(patientGuardiansTable)
+      .innerJoin(guardiansTable, eq(patientGuardiansTable.guardian_id, guardiansTable.id))
+      .where(or(
+        ilike(guardiansTable.name, searchTerm),
+        ilike(guardiansTable.nik, searchTerm),
+        ilike(guardiansTable.phone, searchTerm)
+      )));
+
+    const matches: SQL[] = [
+      ilike(patientsTable.medical_record_number, searchTerm),
+      ilike(patientsTable.name, searchTerm),
+      ilike(patientsTable.address, searchTerm),
+      ilike(patientsTable.emergency_contact, searchTerm),
+      guardianMatches
+    ];
+    const scores: SQL[] = [
+      sql`case when ${patientsTable.medical_record_number} ilike ${query} then 1 when ${patientsTable.medical_record_number} ilike ${searchTerm} then 0.9 else 0 end`,
+      sql`case when ${patientsTable.name} ilike ${`${query}%`} then 1 when ${patientsTable.name} ilike ${searchTerm} then 0.9 else 0 end`,
+      sql`case when ${guardianMatches} then 0.7 else 0 end`
+    ];
+
+    if (query.length >= FUZZY_MIN_LENGTH) {
+      matches.push(
+        sql`${query} <% ${patientsTable.name}`,
+        sql`${query} <% ${patientsTable.address}`,
+        sql`${query} <% ${patientsTable.emergency_contact}`
+      );
+      // A typo in the name outranks a match on where the patient lives
+      scores.push(
+        sql`word_similarity(${query}, ${patientsTable.name})`,
+        sql`word_similarity(${query}, coalesce(${patientsTable.address}, '')) * 0.6`,
+        sql`word_similarity(${query}, coalesce(${patientsTable.emergency_contact}, '')) * 0.6`
+      );
     }
 
-    // Apply pagination - limit and offset are guaranteed to exist due to Zod defaults
-    const limit = input?.limit ?? 10;
-    const offset = input?.offset ?? 0;
-
-    // Build the complete query in one go to avoid type issues
-    const baseQuery = db.select().from(patientsTable);
-    
-    const results = conditions.length > 0
-      ? await baseQuery
-          .where(and(...conditions))
-          .limit(limit)
-          .offset(offset)
-          .execute()
-      : await baseQuery
-          .limit(limit)
-          .offset(offset)
-          .execute();
+    const digits = phoneDigits(query);
+    if (digits) {
+      const phoneMatch = or(
+        sql`${normalizedPhone(patientsTable.phone)} like ${`%${digits}%`}`,
+        sql`${normalizedPhone(patientsTable.emergency_contact)} like ${`%${digits}%`}`
+      )!;
+      matches.push(phoneMatch);
+      scores.push(sql`case when ${phoneMatch} then 0.95 else 0 end`);
+    }
 
-    // Convert date strings to Date objects to match schema
-    return results.map(patient => ({
-      ...patient,
-      date_of_birth: new Date(patient.date_of_birth),
-      created_at: new Date(patient.created_at),
-      updated_at: new Date(patient.updated_at)
-    }));
+    conditions.push(or(...matches)!);
+    rank = sql<number>`greatest(${sql.join(scores, sql`, `)})`;
+  }
+
+  if (!filters.include_archived) {
+    conditions.push(isNull(patientsTable.archived_at));
+  }
+
+  if (filters.gender) {
+    conditions.push(eq(patientsTable.gender, filters.gender));
+  }
+
+  if (filters.age_min !== undefined) {
+    conditions.push(lte(patientsTable.date_of_birth, birthDateYearsAgo(filters.age_min)));
+  }
+
+  if (filters.age_max !== undefined) {
+    conditions.push(gt(patientsTable.date_of_birth, birthDateYearsAgo(filters.age_max + 1)));
+  }
+
+  return { where: conditions.length > 0 ? and(...conditions) : undefined, rank };
+}
+
+const PATIENT_SORT_COLUMNS = {
+  name: patientsTable.name,
+  date_of_birth: patientsTable.date_of_birth,
+  created_at: patientsTable.created_at
+};
+
+// Convert date strings to Date objects to match schema
+export const toPatient = (patient: typeof patientsTable.$inferSelect): Patient => ({
+  ...patient,
+  date_of_birth: new Date(patient.date_of_birth),
+  created_at: new Date(patient.created_at),
+  updated_at: new Date(patient.updated_at)
+});
+
+export async function getPatients(input?: PatientSearchInput): Promise<Paginated<Patient>> {
+  try {
+    const { where, rank } = patientSearch(input ?? {});
+    const sortBy = input?.sort_by ?? 'relevance';
+
+    const sort: PageSort = sortBy === 'relevance'
+      ? rank
+        ? { column: rank, id: patientsTable.id, direction: 'desc' }
+        : { column: patientsTable.created_at, id: patientsTable.id, direction: input?.sort_direction ?? 'asc' }
+      : { column: PATIENT_SORT_COLUMNS[sortBy], id: patientsTable.id, direction: input?.sort_direction ?? 'asc' };
+    const page = pageQuery(input, sort);
+
+    const results = await db.select()
+      .from(patientsTable)
+      .where(and(where, page.after))
+      .orderBy(...page.orderBy)
+      .limit(page.limit)
+      .offset(page.offset)
+      .execute();
+
+    const total = await db.select({ count: count() })
+      .from(patientsTable)
+      .where(where)
+      .execute();
+
+    return await toPage(results.map(toPatient), total[0].count, page);
   } catch (error) {
     console.error('Failed to fetch patients:', error);
     throw error;
   }
 }
 
+// The best few matches for a patient picker, skipping the count a full page needs
+export async function suggestPatients(input: PatientSuggestionInput): Promise<Patient[]> {
+  try {
+    const { where, rank } = patientSearch({ query: input.query });
+
+    const results = await db.select()
+      .from(patientsTable)
+      .where(where)
+      .orderBy(desc(rank!), asc(patientsTable.name), asc(patientsTable.id))
+      .limit(input.limit)
+      .execute();
+
+    return results.map(toPatient);
+  } catch (error) {
+    console.error('Failed to suggest patients:', error);
+    throw error;
+  }
+}
+
 export async function getPatientById(id: number): Promise<Patient | null> {
   try {
     const results = await db.select()
@@ -69,4 +198,44 @@ export async function getPatientById(id: number): Promise<Patient | null> {
     console.error('Failed to fetch patient by ID:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// All matching patients as CSV, without the list's pagination
+export async function exportPatientsCsv(input: PatientExportInput): Promise<ReportFile> {
+  try {
+    const { where } = patientSearch(input);
+
+    const results = await db.select()
+      .from(patientsTable)
+      .where(where)
+      .orderBy(patientsTable.name, patientsTable.id)
+      .execute();
+
+    return csvFile('pasien', [
+      { header: 'ID', type: 'number' },
+      { header: 'No. RM' },
+      { header: 'Nama' },
+      { header: 'Tanggal Lahir', type: 'date' },
+      { header: 'Jenis Kelamin' },
+      { header: 'Telepon' },
+      { header: 'Alamat' },
+      { header: 'Kontak Darurat' },
+      { header: 'Catatan Medis' },
+      { header: 'Terdaftar', type: 'datetime' }
+    ], results.map(patient => [
+      patient.id,
+      patient.medical_record_number,
+      patient.name,
+      patient.date_of_birth,
+      patient.gender,
+      patient.phone,
+      patient.address,
+      patient.emergency_contact,
+      patient.medical_notes,
+      patient.created_at
+    ]), input.indonesian_format);
+  } catch (error) {
+    console.error('Failed to export patients:', error);
+    throw error;
+  }
+}
@@ -1,24 +1,35 @@
 import { db } from '../db';
 import { servicesTable } from '../db/schema';
-import { type Service } from '../schema';
-import { eq } from 'drizzle-orm';
+import { type Paginated, type Service, type ServiceListInput } from '../schema';
+import { pageQuery, toPage } from './pagination';
+import { and, count, eq, isNull } from 'drizzle-orm';
 
-export async function getServices(activeOnly: boolean = false): Promise<Service[]> {
+export async function getServices(input?: ServiceListInput): Promise<Paginated<Service>> {
   try {
-    const results = activeOnly
-      ? await db.select()
-          .from(servicesTable)
-          .where(eq(servicesTable.is_active, true))
-          .execute()
-      : await db.select()
-          .from(servicesTable)
-          .execute();
+    const where = and(
+      input?.active_only ? eq(servicesTable.is_active, true) : undefined,
+      input?.include_archived ? undefined : isNull(servicesTable.archived_at)
+    );
+    const page = pageQuery(input, { column: servicesTable.name, id: servicesTable.id, direction: 'asc' }, 50);
+
+    const results = await db.select()
+      .from(servicesTable)
+      .where(and(where, page.after))
+      .orderBy(...page.orderBy)
+      .limit(page.limit)
+      .offset(page.offset)
+      .execute();
+
+    const total = await db.select({ count: count() })
+      .from(servicesTable)
+      .where(where)
+      .execute();
 
     // Convert numeric fields back to numbers
-    return results.map(service => ({
+    return await toPage(results.map(service => ({
       ...service,
       price: parseFloat(service.price)
-    }));
+    })), total[0].count, page);
   } catch (error) {
     console.error('Get services failed:', error);
     throw error;
@@ -1,61 +1,70 @@
 import { db } from '../db';
-import { transactionsTable } from '../db/schema';
-import { type Transaction, type TransactionSearchInput } from '../schema';
-import { eq, and, gte, lte, desc, SQL } from 'drizzle-orm';
+import { transactionsTable, patientsTable } from '../db/schema';
+import { type Paginated, type Transaction, type TransactionSearchInput, type TransactionExportInput, type ReportFile } from '../schema';
+import { csvFile } from '../documents/csv';
+import { pageQuery, toPage } from './pagination';
+import { eq, and, gte, lte, desc, inArray, count, SQL } from 'drizzle-orm';
 
-export async function getTransactions(input?: TransactionSearchInput): Promise<Transaction[]> {
-  try {
-    // Apply default values if input is provided but fields are undefined
-    const filters = input ? {
-      patient_id: input.patient_id,
-      payment_status: input.payment_status,
-      start_date: input.start_date,
-      end_date: input.end_date,
-      limit: input.limit,
-      offset: input.offset
-    } : {
-      limit: 10,
-      offset: 0
-    };
+type TransactionFilters = Pick<TransactionSearchInput, 'patient_id' | 'payment_status' | 'start_date' | 'end_date'>;
 
-    // Build conditions array
-    const conditions: SQL<unknown>[] = [];
+function transactionConditions(filters: TransactionFilters): SQL<unknown>[] {
+  const conditions: SQL<unknown>[] = [];
 
-    if (filters.patient_id !== undefined) {
-      conditions.push(eq(transactionsTable.patient_id, filters.patient_id));
-    }
+  if (filters.patient_id !== undefined) {
+    conditions.push(eq(transactionsTable.patient_id, filters.patient_id));
+  }
 
-    if (filters.payment_status !== undefined) {
-      conditions.push(eq(transactionsTable.payment_status, filters.payment_status));
-    }
+  if (filters.payment_status !== undefined) {
+    conditions.push(eq(transactionsTable.payment_status, filters.payment_status));
+  }
 
-    if (filters.start_date !== undefined) {
-      conditions.push(gte(transactionsTable.created_at, filters.start_date));
-    }
+  if (filters.start_date !== undefined) {
+    conditions.push(gte(transactionsTable.created_at, filters.start_date));
+  }
 
-    if (filters.end_date !== undefined) {
-      conditions.push(lte(transactionsTable.created_at, filters.end_date));
-    }
+  if (filters.end_date !== undefined) {
+    conditions.push(lte(transactionsTable.created_at, filters.end_date));
+  }
 
-    // Build the query step by step
-    const baseQuery = db.select().from(transactionsTable);
-    
-    const queryWithConditions = conditions.length > 0
-      ? baseQuery.where(conditions.length === 1 ? conditions[0] : and(...conditions))
-      : baseQuery;
+  return conditions;
+}
 
-    // Apply ordering and pagination
-    const results = await queryWithConditions
-      .orderBy(desc(transactionsTable.created_at))
-      .limit(filters.limit)
-      .offset(filters.offset)
+const TRANSACTION_SORT_COLUMNS = {
+  created_at: transactionsTable.created_at,
+  total_amount: transactionsTable.total_amount
+};
+
+export async function getTransactions(input?: TransactionSearchInput): Promise<Paginated<Transaction>> {
+  try {
+    const conditions = input ? transactionConditions(input) : [];
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const page = pageQuery(input, {
+      column: TRANSACTION_SORT_COLUMNS[input?.sort_by ?? 'created_at'],
+      id: transactionsTable.id,
+      direction: input?.sort_direction ?? 'desc'
+    });
+
+    const results = await db.select()
+      .from(transactionsTable)
+      .where(and(where, page.after))
+      .orderBy(...page.orderBy)
+      .limit(page.limit)
+      .offset(page.offset)
+      .execute();
+
+    const total = await db.select({ count: count() })
+      .from(transactionsTable)
+      .where(where)
       .execute();
 
     // Convert numeric fields back to numbers
-    return results.map(transaction => ({
+    return await toPage(results.map(transaction => ({
       ...transaction,
-      total_amount: parseFloat(transaction.total_amount)
-    }));
+      total_amount: parseFloat(transaction.total_amount),
+      discount_amount: parseFloat(transaction.discount_amount),
+      paid_amount: parseFloat(transaction.paid_amount),
+      refunded_amount: parseFloat(transaction.refunded_amount)
+    })), total[0].count, page);
   } catch (error) {
     console.error('Failed to get transactions:', error);
     throw error;
@@ -76,7 +85,10 @@ export async function getTransactionById(id: number): Promise<Transaction | null
     const transaction = results[0];
     return {
       ...transaction,
-      total_amount: parseFloat(transaction.total_amount)
+      total_amount: parseFloat(transaction.total_amount),
+      discount_amount: parseFloat(transaction.discount_amount),
+      paid_amount: parseFloat(transaction.paid_amount),
+      refunded_amount: parseFloat(transaction.refunded_amount)
     };
   } catch (error) {
     console.error('Failed to get transaction by ID:', error);
@@ -104,7 +116,10 @@ export async function getTodayTransactions(): Promise<Transaction[]> {
     // Convert numeric fields back to numbers
     return results.map(transaction => ({
       ...transaction,
-      total_amount: parseFloat(transaction.total_amount)
+      total_amount: parseFloat(transaction.total_amount),
+      discount_amount: parseFloat(transaction.discount_amount),
+      paid_amount: parseFloat(transaction.paid_amount),
+      refunded_amount: parseFloat(transaction.refunded_amount)
     }));
   } catch (error) {
     console.error('Failed to get today transactions:', error);
@@ -116,17 +131,63 @@ export async function getPendingTransactions(): Promise<Transaction[]> {
   try {
     const results = await db.select()
       .from(transactionsTable)
-      .where(eq(transactionsTable.payment_status, 'pending'))
+      .where(inArray(transactionsTable.payment_status, ['pending', 'partially_paid']))
       .orderBy(desc(transactionsTable.created_at))
       .execute();
 
     // Convert numeric fields back to numbers
     return results.map(transaction => ({
       ...transaction,
-      total_amount: parseFloat(transaction.total_amount)
+      total_amount: parseFloat(transaction.total_amount),
+      discount_amount: parseFloat(transaction.discount_amount),
+      paid_amount: parseFloat(transaction.paid_amount),
+      refunded_amount: parseFloat(transaction.refunded_amount)
     }));
   } catch (error) {
     console.error('Failed to get pending transactions:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// All matching transactions as CSV, without the list's pagination
+export async function exportTransactionsCsv(input: TransactionExportInput): Promise<ReportFile> {
+  try {
+    const conditions = transactionConditions(input);
+
+    const results = await db.select({
+      id: transactionsTable.id,
+      created_at: transactionsTable.created_at,
+      patient_name: patientsTable.name,
+      total_amount: transactionsTable.total_amount,
+      payment_method: transactionsTable.payment_method,
+      payment_status: transactionsTable.payment_status,
+      notes: transactionsTable.notes
+    })
+      .from(transactionsTable)
+      .innerJoin(patientsTable, eq(transactionsTable.patient_id, patientsTable.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(transactionsTable.created_at), desc(transactionsTable.id))
+      .execute();
+
+    return csvFile('transaksi', [
+      { header: 'ID', type: 'number' },
+      { header: 'Tanggal', type: 'datetime' },
+      { header: 'Pasien' },
+      { header: 'Total', type: 'money' },
+      { header: 'Metode Pembayaran' },
+      { header: 'Status' },
+      { header: 'Catatan' }
+    ], results.map(transaction => [
+      transaction.id,
+      transaction.created_at,
+      transaction.patient_name,
+      parseFloat(transaction.total_amount),
+      transaction.payment_method,
+      transaction.payment_status,
+      transaction.notes
+    ]), input.indonesian_format);
+  } catch (error) {
+    console.error('Failed to export transactions:', error);
+    throw error;
+  }
+}
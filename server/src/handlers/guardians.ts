@@ -0,0 +1,180 @@
+import { db } from '../db';
+import { guardiansTable, patientGuardiansTable, patientsTable } from '../db/schema';
+import {
+  type Guardian,
+  type PatientGuardian,
+  type CreateGuardianInput,
+  type UpdateGuardianInput,
+  type GuardianSearchInput,
+  type LinkGuardianInput,
+  type Paginated
+} from '../schema';
+import { pageQuery, toPage } from './pagination';
+import { eq, and, or, ilike, asc, desc, count } from 'drizzle-orm';
+
+export async function createGuardian(input: CreateGuardianInput): Promise<Guardian> {
+  try {
+    const result = await db.insert(guardiansTable)
+      .values({
+        name: input.name,
+        relationship: input.relationship,
+        nik: input.nik,
+        phone: input.phone,
+        address: input.address
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Guardian creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateGuardian(input: UpdateGuardianInput): Promise<Guardian> {
+  try {
+    const { id, ...updates } = input;
+
+    const result = await db.update(guardiansTable)
+      .set({ ...updates, updated_at: new Date() })
+      .where(eq(guardiansTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Guardian with ID ${id} not found`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Guardian update failed:', error);
+    throw error;
+  }
+}
+
+const GUARDIAN_SORT_COLUMNS = {
+  name: guardiansTable.name,
+  created_at: guardiansTable.created_at
+};
+
+export async function getGuardians(input?: GuardianSearchInput): Promise<Paginated<Guardian>> {
+  try {
+    const query = input?.query?.trim();
+    const where = query
+      ? or(
+          ilike(guardiansTable.name, `%${query}%`),
+          ilike(guardiansTable.nik, `%${query}%`),
+          ilike(guardiansTable.phone, `%${query}%`)
+        )
+      : undefined;
+    const page = pageQuery(input, {
+      column: GUARDIAN_SORT_COLUMNS[input?.sort_by ?? 'name'],
+      id: guardiansTable.id,
+      direction: input?.sort_direction ?? 'asc'
+    });
+
+    const results = await db.select()
+      .from(guardiansTable)
+      .where(and(where, page.after))
+      .orderBy(...page.orderBy)
+      .limit(page.limit)
+      .offset(page.offset)
+      .execute();
+
+    const total = await db.select({ count: count() })
+      .from(guardiansTable)
+      .where(where)
+      .execute();
+
+    return await toPage(results, total[0].count, page);
+  } catch (error) {
+    console.error('Failed to fetch guardians:', error);
+    throw error;
+  }
+}
+
+// Guardians of a patient, primary guardian first
+export async function getPatientGuardians(patientId: number): Promise<PatientGuardian[]> {
+  try {
+    const results = await db.select()
+      .from(patientGuardiansTable)
+      .innerJoin(guardiansTable, eq(patientGuardiansTable.guardian_id, guardiansTable.id))
+      .where(eq(patientGuardiansTable.patient_id, patientId))
+      .orderBy(desc(patientGuardiansTable.is_primary), asc(patientGuardiansTable.id))
+      .execute();
+
+    return results.map(result => ({
+      ...result.guardians,
+      is_primary: result.patient_guardians.is_primary
+    }));
+  } catch (error) {
+    console.error('Failed to fetch patient guardians:', error);
+    throw error;
+  }
+}
+
+export async function linkGuardianToPatient(input: LinkGuardianInput): Promise<PatientGuardian[]> {
+  try {
+    await db.transaction(async (tx) => {
+      const patient = await tx.select()
+        .from(patientsTable)
+        .where(eq(patientsTable.id, input.patient_id))
+        .execute();
+
+      if (patient.length === 0) {
+        throw new Error(`Patient with ID ${input.patient_id} not found`);
+      }
+
+      const guardian = await tx.select()
+        .from(guardiansTable)
+        .where(eq(guardiansTable.id, input.guardian_id))
+        .execute();
+
+      if (guardian.length === 0) {
+        throw new Error(`Guardian with ID ${input.guardian_id} not found`);
+      }
+
+      // A patient has at most one primary guardian
+      if (input.is_primary) {
+        await tx.update(patientGuardiansTable)
+          .set({ is_primary: false })
+          .where(eq(patientGuardiansTable.patient_id, input.patient_id))
+          .execute();
+      }
+
+      await tx.insert(patientGuardiansTable)
+        .values({
+          patient_id: input.patient_id,
+          guardian_id: input.guardian_id,
+          is_primary: input.is_primary
+        })
+        .onConflictDoUpdate({
+          target: [patientGuardiansTable.patient_id, patientGuardiansTable.guardian_id],
+          set: { is_primary: input.is_primary }
+        })
+        .execute();
+    });
+
+    return await getPatientGuardians(input.patient_id);
+  } catch (error) {
+    console.error('Linking guardian failed:', error);
+    throw error;
+  }
+}
+
+export async function unlinkGuardianFromPatient(patientId: number, guardianId: number): Promise<PatientGuardian[]> {
+  try {
+    await db.delete(patientGuardiansTable)
+      .where(and(
+        eq(patientGuardiansTable.patient_id, patientId),
+        eq(patientGuardiansTable.guardian_id, guardianId)
+      ))
+      .execute();
+
+    return await getPatientGuardians(patientId);
+  } catch (error) {
+    console.error('Unlinking guardian failed:', error);
+    throw error;
+  }
+}
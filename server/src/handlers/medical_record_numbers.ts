@@ -0,0 +1,122 @@
+import { db } from '../db';
+import { medicalRecordCountersTable, patientsTable, settingsTable } from '../db/schema';
+import { type MedicalRecordBackfillResult } from '../schema';
+import { asc, eq, inArray, isNull, sql } from 'drizzle-orm';
+import { type Tx } from './money';
+
+export const DEFAULT_MEDICAL_RECORD_FORMAT = 'RK-{YYYY}-{seq:5}';
+
+const SEQUENCE_TOKEN = /^\{seq(?::(\d{1,2}))?\}$/;
+
+// Date parts a format can include, taken from the registration date
+const DATE_TOKENS: Record<string, (date: Date) => string> = {
+  YYYY: date => String(date.getFullYear()),
+  YY: date => String(date.getFullYear()).slice(-2),
+  MM: date => String(date.getMonth() + 1).padStart(2, '0')
+};
+
+// A format needs exactly one {seq} (optionally zero-padded, {seq:5}) and no tokens other than the date parts
+export function validateMedicalRecordFormat(format: string): void {
+  const tokens = format.match(/\{[^}]*\}/g) ?? [];
+
+  if (tokens.filter(token => SEQUENCE_TOKEN.test(token)).length !== 1) {
+    throw new Error('Format No. RM harus memuat tepat satu {seq}, misalnya RK-{YYYY}-{seq:5}');
+  }
+
+  const unknown = tokens.find(token => !SEQUENCE_TOKEN.test(token) && !(token.slice(1, -1) in DATE_TOKENS));
+  if (unknown) {
+    throw new Error(`Format No. RM tidak mengenal ${unknown}; gunakan {YYYY}, {YY}, {MM} dan {seq}`);
+  }
+}
+
+async function getMedicalRecordFormat(tx: Tx): Promise<string> {
+  const setting = await tx.select()
+    .from(settingsTable)
+    .where(eq(settingsTable.key, 'medical_record_format'))
+    .execute();
+
+  return setting[0]?.value.trim() || DEFAULT_MEDICAL_RECORD_FORMAT;
+}
+
+// The format with its date parts filled in; each scope numbers its patients from 1
+const medicalRecordScope = (format: string, date: Date) =>
+  format.replace(/\{(YYYY|YY|MM)\}/g, (_, token: string) => DATE_TOKENS[token](date));
+
+const withSequence = (scope: string, sequence: number) =>
+  scope.replace(/\{seq(?::(\d{1,2}))?\}/, (_, width?: string) => String(sequence).padStart(Number(width ?? 1), '0'));
+
+// Reserves `count` consecutive numbers in a scope; the counter row stays locked until the transaction ends
+async function reserveNumbers(tx: Tx, scope: string, count: number): Promise<string[]> {
+  const counter = await tx.insert(medicalRecordCountersTable)
+    .values({ scope, last_value: count })
+    .onConflictDoUpdate({
+      target: medicalRecordCountersTable.scope,
+      set: { last_value: sql`${medicalRecordCountersTable.last_value} + ${count}` }
+    })
+    .returning()
+    .execute();
+
+  const first = counter[0].last_value - count + 1;
+  return Array.from({ length: count }, (_, index) => withSequence(scope, first + index));
+}
+
+async function numbersForScope(tx: Tx, scope: string, count: number): Promise<string[]> {
+  const numbers: string[] = [];
+
+  // Numbers can already be taken when the format was changed and changed back; reserve past them
+  while (numbers.length < count) {
+    const candidates = await reserveNumbers(tx, scope, count - numbers.length);
+    const taken = await tx.select({ number: patientsTable.medical_record_number })
+      .from(patientsTable)
+      .where(inArray(patientsTable.medical_record_number, candidates))
+      .execute();
+    const takenNumbers = new Set(taken.map(row => row.number));
+    numbers.push(...candidates.filter(candidate => !takenNumbers.has(candidate)));
+  }
+
+  return numbers;
+}
+
+// The next `count` medical record numbers for patients registered on `date`, in order
+export async function nextMedicalRecordNumbers(tx: Tx, count: number, date: Date = new Date()): Promise<string[]> {
+  const format = await getMedicalRecordFormat(tx);
+  return numbersForScope(tx, medicalRecordScope(format, date), count);
+}
+
+/**
+ * Numbers the patients registered before medical record numbers existed, oldest first, each in the
+ * period of its own registration date. They follow any numbers already handed out in that period.
+ */
+export async function backfillMedicalRecordNumbers(): Promise<MedicalRecordBackfillResult> {
+  try {
+    return await db.transaction(async (tx) => {
+      const format = await getMedicalRecordFormat(tx);
+      const patients = await tx.select({ id: patientsTable.id, created_at: patientsTable.created_at })
+        .from(patientsTable)
+        .where(isNull(patientsTable.medical_record_number))
+        .orderBy(asc(patientsTable.created_at), asc(patientsTable.id))
+        .execute();
+
+      const patientIdsByScope = new Map<string, number[]>();
+      for (const patient of patients) {
+        const scope = medicalRecordScope(format, patient.created_at);
+        patientIdsByScope.set(scope, [...(patientIdsByScope.get(scope) ?? []), patient.id]);
+      }
+
+      for (const [scope, patientIds] of patientIdsByScope) {
+        const numbers = await numbersForScope(tx, scope, patientIds.length);
+        for (const [index, patientId] of patientIds.entries()) {
+          await tx.update(patientsTable)
+            .set({ medical_record_number: numbers[index] })
+            .where(eq(patientsTable.id, patientId))
+            .execute();
+        }
+      }
+
+      return { assigned_count: patients.length };
+    });
+  } catch (error) {
+    console.error('Medical record number backfill failed:', error);
+    throw error;
+  }
+}
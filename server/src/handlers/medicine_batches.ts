@@ -0,0 +1,328 @@
+import { db } from '../db';
+import { medicineBatchesTable, medicinesTable, stockMovementBatchesTable, stockMovementsTable } from '../db/schema';
+import { type MedicineBatch } from '../schema';
+import { and, asc, desc, eq, gt, isNull, or, sql, SQL } from 'drizzle-orm';
+import { localDateString, toDateString, type Tx } from './money';
+
+type MedicineRow = typeof medicinesTable.$inferSelect;
+
+export interface BatchDetails {
+  lot_number?: string | null;
+  expiry_date?: Date | null;
+  purchase_price?: number | null;
+}
+
+// First expired, first out: dated batches by expiry, undated ones last, oldest delivery first
+const fefoOrder = [
+  sql`${medicineBatchesTable.expiry_date} asc nulls last`,
+  asc(medicineBatchesTable.id)
+];
+
+/**
+ * The latest expiry date that counts as expired, as YYYY-MM-DD: the clinic's local today.
+ * Stock expires on its expiry date, so it is dispensed up to the day before and reported
+ * as expired from that day on.
+ */
+export const expiryCutoff = (asOf: Date = new Date()) => localDateString(asOf);
+
+// Batches that may still be given to patients: undated, or expiring after the cutoff
+const unexpiredBatch = () => or(
+  isNull(medicineBatchesTable.expiry_date),
+  gt(medicineBatchesTable.expiry_date, expiryCutoff())
+);
+
+/**
+ * Stock recorded before batches were tracked (or set directly on the medicine)
+ * becomes one opening batch with the medicine's expiry date, so it can be
+ * consumed and reported like any other batch.
+ */
+async function materializeUntrackedStock(tx: Tx, medicine: MedicineRow): Promise<void> {
+  const tracked = await tx.select({ total: sql<string | null>`sum(${medicineBatchesTable.quantity})` })
+    .from(medicineBatchesTable)
+    .where(eq(medicineBatchesTable.medicine_id, medicine.id))
+    .execute();
+
+  const untracked = medicine.stock_quantity - parseInt(tracked[0]?.total ?? '0');
+  if (untracked > 0) {
+    await tx.insert(medicineBatchesTable)
+      .values({
+        medicine_id: medicine.id,
+        lot_number: null,
+        expiry_date: medicine.expiry_date,
+        quantity: untracked
+      })
+      .execute();
+  }
+}
+
+// medicines.stock_quantity and expiry_date mirror the batches: total left and the earliest expiry still in stock
+async function syncMedicineStock(tx: Tx, medicineId: number): Promise<void> {
+  const totals = await tx.select({
+    quantity: sql<string | null>`sum(${medicineBatchesTable.quantity})`,
+    expiry_date: sql<string | null>`min(${medicineBatchesTable.expiry_date})`
+  })
+    .from(medicineBatchesTable)
+    .where(and(eq(medicineBatchesTable.medicine_id, medicineId), gt(medicineBatchesTable.quantity, 0)))
+    .execute();
+
+  await tx.update(medicinesTable)
+    .set({
+      stock_quantity: parseInt(totals[0]?.quantity ?? '0'),
+      expiry_date: totals[0]?.expiry_date ?? null,
+      updated_at: new Date()
+    })
+    .where(eq(medicinesTable.id, medicineId))
+    .execute();
+}
+
+/**
+ * Fold a stock-in at a known cost into the medicine's moving-average cost:
+ * the units already in stock at the old average plus the new ones at their
+ * cost. Stock with no known cost yet takes the cost of the first delivery.
+ */
+async function updateAverageCost(tx: Tx, medicineId: number, quantity: number, unitCost: number): Promise<void> {
+  const medicines = await tx.select({ stock_quantity: medicinesTable.stock_quantity, average_cost: medicinesTable.average_cost })
+    .from(medicinesTable)
+    .where(eq(medicinesTable.id, medicineId))
+    .execute();
+
+  const { stock_quantity: onHand, average_cost: averageCost } = medicines[0];
+  const costCents = Math.round(unitCost * 100);
+  const averageCents = averageCost === null || onHand <= 0
+    ? costCents
+    : Math.round((onHand * Math.round(parseFloat(averageCost) * 100) + quantity * costCents) / (onHand + quantity));
+
+  await tx.update(medicinesTable)
+    .set({ average_cost: (averageCents / 100).toString() })
+    .where(eq(medicinesTable.id, medicineId))
+    .execute();
+}
+
+async function recordAllocation(tx: Tx, movementId: number, batchId: number, quantity: number): Promise<void> {
+  await tx.insert(stockMovementBatchesTable)
+    .values({ movement_id: movementId, batch_id: batchId, quantity })
+    .execute();
+}
+
+/**
+ * Units of a medicine that can be dispensed to a patient: everything in stock
+ * except batches past their expiry date.
+ */
+export async function dispensableStock(tx: Tx, medicine: MedicineRow): Promise<number> {
+  await materializeUntrackedStock(tx, medicine);
+
+  const totals = await tx.select({ total: sql<string | null>`sum(${medicineBatchesTable.quantity})` })
+    .from(medicineBatchesTable)
+    .where(and(eq(medicineBatchesTable.medicine_id, medicine.id), gt(medicineBatchesTable.quantity, 0), unexpiredBatch()))
+    .execute();
+
+  return parseInt(totals[0]?.total ?? '0');
+}
+
+/**
+ * Take `quantity` units out of the medicine's batches, earliest expiry first,
+ * and record which batches the outgoing movement used. Callers check the total
+ * stock first so they can report shortages in their own words. Dispensing to a
+ * patient (`skipExpired`) never touches expired batches; stock corrections do,
+ * so expired units can be written off.
+ */
+export async function consumeBatches(
+  tx: Tx,
+  medicine: MedicineRow,
+  quantity: number,
+  movementId: number,
+  options: { skipExpired?: boolean } = {}
+): Promise<void> {
+  await materializeUntrackedStock(tx, medicine);
+
+  const batches = await tx.select()
+    .from(medicineBatchesTable)
+    .where(and(
+      eq(medicineBatchesTable.medicine_id, medicine.id),
+      gt(medicineBatchesTable.quantity, 0),
+      options.skipExpired ? unexpiredBatch() : undefined
+    ))
+    .orderBy(...fefoOrder)
+    .for('update')
+    .execute();
+
+  let remaining = quantity;
+  for (const batch of batches) {
+    if (remaining === 0) break;
+    const taken = Math.min(batch.quantity, remaining);
+
+    await tx.update(medicineBatchesTable)
+      .set({ quantity: batch.quantity - taken, updated_at: new Date() })
+      .where(eq(medicineBatchesTable.id, batch.id))
+      .execute();
+    await recordAllocation(tx, movementId, batch.id, taken);
+    remaining -= taken;
+  }
+
+  if (remaining > 0) {
+    throw new Error(`Insufficient stock for ${medicine.name}. Available: ${quantity - remaining}, Required: ${quantity}`);
+  }
+
+  await syncMedicineStock(tx, medicine.id);
+}
+
+/**
+ * Put `quantity` units into stock. A delivery with a lot number tops up the
+ * batch with the same lot and expiry; without any batch details (manual
+ * corrections) the units go to the most recently received batch.
+ */
+export async function receiveBatch(
+  tx: Tx,
+  medicine: MedicineRow,
+  quantity: number,
+  movementId: number,
+  details: BatchDetails = {}
+): Promise<void> {
+  await materializeUntrackedStock(tx, medicine);
+
+  const expiryDate = details.expiry_date ? toDateString(details.expiry_date) : null;
+  const hasDetails = !!details.lot_number || expiryDate !== null || details.purchase_price != null;
+
+  const matchingBatch = details.lot_number
+    ? await tx.select()
+        .from(medicineBatchesTable)
+        .where(and(
+          eq(medicineBatchesTable.medicine_id, medicine.id),
+          eq(medicineBatchesTable.lot_number, details.lot_number),
+          expiryDate !== null
+            ? eq(medicineBatchesTable.expiry_date, expiryDate)
+            : sql`${medicineBatchesTable.expiry_date} is null`
+        ))
+        .execute()
+    : hasDetails
+      ? []
+      : await tx.select()
+          .from(medicineBatchesTable)
+          .where(eq(medicineBatchesTable.medicine_id, medicine.id))
+          .orderBy(desc(medicineBatchesTable.id))
+          .limit(1)
+          .execute();
+
+  let batchId: number;
+  if (matchingBatch.length > 0) {
+    batchId = matchingBatch[0].id;
+    await tx.update(medicineBatchesTable)
+      .set({ quantity: sql`${medicineBatchesTable.quantity} + ${quantity}`, updated_at: new Date() })
+      .where(eq(medicineBatchesTable.id, batchId))
+      .execute();
+  } else {
+    const inserted = await tx.insert(medicineBatchesTable)
+      .values({
+        medicine_id: medicine.id,
+        lot_number: details.lot_number ?? null,
+        expiry_date: hasDetails ? expiryDate : medicine.expiry_date,
+        quantity,
+        purchase_price: details.purchase_price != null ? details.purchase_price.toString() : null
+      })
+      .returning()
+      .execute();
+    batchId = inserted[0].id;
+  }
+
+  // Runs before the stock is synced, while stock_quantity still holds what was on hand
+  if (details.purchase_price != null) {
+    await updateAverageCost(tx, medicine.id, quantity, details.purchase_price);
+  }
+
+  await recordAllocation(tx, movementId, batchId, quantity);
+  await syncMedicineStock(tx, medicine.id);
+}
+
+/**
+ * Put units a transaction dispensed back into the batches they came from, the
+ * most recently dispensed first. Units already returned by earlier refunds or
+ * cancellations are netted out so the same units are never restored twice.
+ */
+export async function returnDispensedUnits(
+  tx: Tx,
+  medicine: MedicineRow,
+  transactionId: number,
+  quantity: number,
+  movementId: number
+): Promise<void> {
+  const dispensed = await tx.select({
+    batch_id: stockMovementBatchesTable.batch_id,
+    quantity: sql<string>`sum(case when ${stockMovementsTable.movement_type} = 'keluar' then ${stockMovementBatchesTable.quantity} else -${stockMovementBatchesTable.quantity} end)`
+  })
+    .from(stockMovementBatchesTable)
+    .innerJoin(stockMovementsTable, eq(stockMovementBatchesTable.movement_id, stockMovementsTable.id))
+    .where(and(transactionMovementCondition(transactionId), eq(stockMovementsTable.medicine_id, medicine.id)))
+    .groupBy(stockMovementBatchesTable.batch_id)
+    .orderBy(sql`max(${stockMovementBatchesTable.id}) desc`)
+    .execute();
+
+  await materializeUntrackedStock(tx, medicine);
+
+  let remaining = quantity;
+  for (const allocation of dispensed) {
+    const returned = Math.min(parseInt(allocation.quantity), remaining);
+    if (returned <= 0) continue;
+
+    await tx.update(medicineBatchesTable)
+      .set({ quantity: sql`${medicineBatchesTable.quantity} + ${returned}`, updated_at: new Date() })
+      .where(eq(medicineBatchesTable.id, allocation.batch_id))
+      .execute();
+    await recordAllocation(tx, movementId, allocation.batch_id, returned);
+    remaining -= returned;
+  }
+
+  // Units dispensed before batch tracking have no allocations to follow
+  if (remaining > 0) {
+    await receiveBatch(tx, medicine, remaining, movementId);
+    return;
+  }
+
+  await syncMedicineStock(tx, medicine.id);
+}
+
+/**
+ * Medicines with expired stock as of `cutoff` (see expiryCutoff): a batch with units left,
+ * or untracked stock carrying the medicine's own expiry date.
+ */
+export function expiredStockCondition(cutoff: string = expiryCutoff()): SQL {
+  return sql`(exists (
+    select 1 from ${medicineBatchesTable}
+    where ${medicineBatchesTable.medicine_id} = ${medicinesTable.id}
+      and ${medicineBatchesTable.quantity} > 0
+      and ${medicineBatchesTable.expiry_date} <= ${cutoff}
+  ) or (
+    ${medicinesTable.expiry_date} <= ${cutoff}
+    and ${medicinesTable.stock_quantity} > (
+      select coalesce(sum(${medicineBatchesTable.quantity}), 0) from ${medicineBatchesTable}
+      where ${medicineBatchesTable.medicine_id} = ${medicinesTable.id}
+    )
+  ))`;
+}
+
+// Stock movements booked by a transaction; rows written before reference_type existed are all transaction movements
+export function transactionMovementCondition(transactionId: number): SQL {
+  return and(
+    eq(stockMovementsTable.reference_id, transactionId),
+    or(isNull(stockMovementsTable.reference_type), eq(stockMovementsTable.reference_type, 'transaction'))
+  )!;
+}
+
+// Batches of a medicine that still have stock, in the order they will be dispensed
+export async function getMedicineBatches(medicineId: number): Promise<MedicineBatch[]> {
+  try {
+    const results = await db.select()
+      .from(medicineBatchesTable)
+      .where(and(eq(medicineBatchesTable.medicine_id, medicineId), gt(medicineBatchesTable.quantity, 0)))
+      .orderBy(...fefoOrder)
+      .execute();
+
+    return results.map(batch => ({
+      ...batch,
+      expiry_date: batch.expiry_date ? new Date(batch.expiry_date) : null,
+      purchase_price: batch.purchase_price !== null ? parseFloat(batch.purchase_price) : null
+    }));
+  } catch (error) {
+    console.error('Failed to fetch medicine batches:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,17 @@
+import { db } from '../db';
+
+// The handle a db.transaction callback receives, for helpers that must run inside one
+export type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Money is compared in whole cents to keep float sums like 0.1 + 0.2 exact
+export const toCents = (amount: number) => Math.round(amount * 100);
+
+// YYYY-MM-DD of the UTC day, for date columns; dates from the API arrive as UTC midnight
+export const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+// YYYY-MM-DD of the clinic's local calendar day, for "today" and for times of day such as a procedure
+export function localDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -0,0 +1,108 @@
+import { db } from '../db';
+import { type Paginated, type SortDirection } from '../schema';
+import { TRPCError } from '@trpc/server';
+import { asc, desc, eq, sql, type AnyColumn, type SQL } from 'drizzle-orm';
+
+interface PageInput {
+  limit: number;
+  offset: number;
+  cursor?: string | null;
+}
+
+// What a list is ordered by: a whitelisted column (or expression of the row), then the ID
+export interface PageSort {
+  column: AnyColumn | SQL;
+  id: AnyColumn;
+  direction: SortDirection;
+}
+
+export interface PageQuery {
+  limit: number; // One row more than the page holds, to tell whether another page follows
+  offset: number;
+  after: SQL | undefined; // Rows past the cursor, for the where clause
+  orderBy: SQL[];
+  size: number;
+  sort: PageSort;
+}
+
+// The sort key as Postgres prints it, so timestamps keep their microseconds across pages
+interface Cursor {
+  key: string | null;
+  id: number;
+}
+
+// Cursors are opaque to clients: the sort key and ID of the last row served, base64url-encoded
+const encodeCursor = (cursor: Cursor) => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+function decodeCursor(cursor: string): Cursor {
+  try {
+    const { key, id } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(id) && (key === null || typeof key === 'string')) {
+      return { key, id };
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new TRPCError({ code: 'BAD_REQUEST', message: 'Cursor halaman tidak valid' });
+}
+
+// Order by the sort column, then by ID in the same direction so every row has one place
+function sortOrder({ column, id, direction }: PageSort): SQL[] {
+  const order = direction === 'asc' ? asc : desc;
+  return column === id ? [order(id)] : [order(column), order(id)];
+}
+
+// Rows that sort after the cursor row. Postgres puts nulls last going up and first going down.
+function afterCursor({ column, id, direction }: PageSort, cursor: Cursor): SQL {
+  const beyond = sql.raw(direction === 'asc' ? '>' : '<');
+  const pastId = sql`${id} ${beyond} ${cursor.id}`;
+
+  if (column === id) {
+    return pastId;
+  }
+
+  if (cursor.key === null) {
+    return direction === 'asc'
+      ? sql`(${column} is null and ${pastId})`
+      : sql`(${column} is not null or ${pastId})`;
+  }
+
+  const pastKey = sql`(${column} ${beyond} ${cursor.key} or (${column} = ${cursor.key} and ${pastId}))`;
+  return direction === 'asc' ? sql`(${pastKey} or ${column} is null)` : pastKey;
+}
+
+// The rows a list request asks for: past the cursor when given, else from the offset
+export function pageQuery(input: Partial<PageInput> | undefined, sort: PageSort, defaultLimit: number = 10): PageQuery {
+  const size = input?.limit ?? defaultLimit;
+  const cursor = input?.cursor ? decodeCursor(input.cursor) : null;
+
+  return {
+    limit: size + 1,
+    offset: cursor ? 0 : input?.offset ?? 0,
+    after: cursor ? afterCursor(sort, cursor) : undefined,
+    orderBy: sortOrder(sort),
+    size,
+    sort
+  };
+}
+
+export async function toPage<T extends { id: number }>(rows: T[], total: number, page: PageQuery): Promise<Paginated<T>> {
+  const items = rows.slice(0, page.size);
+  const hasMore = rows.length > page.size;
+  if (!hasMore) {
+    return { items, total, hasMore, nextCursor: null };
+  }
+
+  const last = items[items.length - 1];
+  const { column, id } = page.sort;
+  if (column === id) {
+    return { items, total, hasMore, nextCursor: encodeCursor({ key: null, id: last.id }) };
+  }
+
+  const key = await db.select({ key: sql<string | null>`(${column})::text` })
+    .from(id.table)
+    .where(eq(id, last.id))
+    .execute();
+
+  return { items, total, hasMore, nextCursor: encodeCursor({ key: key[0]?.key ?? null, id: last.id }) };
+}
@@ -0,0 +1,277 @@
+import { db } from '../db';
+import { patientsTable } from '../db/schema';
+import {
+  createPatientInputSchema,
+  type CreatePatientInput,
+  type PatientImportInput,
+  type PatientImportResult,
+  type PatientImportRow
+} from '../schema';
+import { inArray, sql } from 'drizzle-orm';
+import { parseCsv } from '../documents/csv';
+import { readXlsx } from '../documents/xlsx';
+import { type CellValue } from '../documents/types';
+import { nextMedicalRecordNumbers } from './medical_record_numbers';
+
+const MAX_IMPORT_ROWS = 5000;
+const INSERT_BATCH_SIZE = 500;
+
+type PatientField = keyof CreatePatientInput;
+
+// Accepted header names per field, after normalizeHeader; includes the headers of our own CSV export
+const COLUMN_ALIASES: Record<PatientField, string[]> = {
+  name: ['name', 'nama', 'nama_pasien', 'nama_lengkap'],
+  date_of_birth: ['date_of_birth', 'tanggal_lahir', 'tgl_lahir', 'dob'],
+  gender: ['gender', 'jenis_kelamin', 'jk', 'kelamin'],
+  phone: ['phone', 'telepon', 'no_telepon', 'no_telp', 'telp', 'no_hp', 'hp'],
+  address: ['address', 'alamat'],
+  emergency_contact: ['emergency_contact', 'kontak_darurat'],
+  medical_notes: ['medical_notes', 'catatan_medis', 'catatan']
+};
+
+const REQUIRED_COLUMNS: Record<string, string> = {
+  name: 'nama',
+  date_of_birth: 'tanggal lahir',
+  gender: 'jenis kelamin'
+};
+
+const GENDER_ALIASES: Record<string, CreatePatientInput['gender']> = {
+  'l': 'Laki-laki',
+  'lk': 'Laki-laki',
+  'laki': 'Laki-laki',
+  'laki-laki': 'Laki-laki',
+  'laki laki': 'Laki-laki',
+  'pria': 'Laki-laki',
+  'male': 'Laki-laki',
+  'p': 'Perempuan',
+  'pr': 'Perempuan',
+  'perempuan': 'Perempuan',
+  'wanita': 'Perempuan',
+  'female': 'Perempuan'
+};
+
+const normalizeHeader = (header: CellValue) =>
+  String(header ?? '').trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+const cellText = (value: CellValue | undefined): string | null => {
+  if (value === null || value === undefined) return null;
+  const text = (value instanceof Date ? value.toISOString() : String(value)).trim();
+  return text === '' ? null : text;
+};
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+// Accepts YYYY-MM-DD, DD/MM/YYYY (also with - or .) and Excel date serial numbers
+function parseDateOfBirth(value: CellValue | undefined): string | null {
+  if (typeof value === 'number') {
+    // Excel serial: days since 1899-12-30
+    const date = new Date(Math.round((value - 25569) * 86400000));
+    return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+  }
+
+  const text = cellText(value);
+  if (!text) return null;
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const local = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (local) return toIsoDate(Number(local[3]), Number(local[2]), Number(local[1]));
+
+  return null;
+}
+
+const duplicateKey = (name: string, dateOfBirth: string, phone: string | null) =>
+  `${name.trim().toLowerCase()}|${dateOfBirth}|${(phone ?? '').replace(/\D/g, '')}`;
+
+function readTable(input: PatientImportInput): CellValue[][] {
+  const content = Buffer.from(input.content_base64, 'base64');
+  const extension = input.filename.toLowerCase().split('.').pop();
+
+  if (extension === 'csv') {
+    return parseCsv(content.toString('utf8'));
+  }
+  if (extension === 'xlsx') {
+    return readXlsx(content);
+  }
+  throw new Error('Format file harus CSV atau XLSX');
+}
+
+// Map, validate and de-duplicate every row of the file without writing anything
+async function analyzeImport(input: PatientImportInput): Promise<PatientImportResult> {
+  const [header, ...dataRows] = readTable(input);
+  if (!header || dataRows.length === 0) {
+    throw new Error('File tidak berisi data pasien');
+  }
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Maksimal ${MAX_IMPORT_ROWS} baris per impor`);
+  }
+
+  // Column index per patient field
+  const headers = header.map(normalizeHeader);
+  const columnMap = new Map<PatientField, number>();
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES) as [PatientField, string[]][]) {
+    const index = headers.findIndex(name => aliases.includes(name));
+    if (index >= 0) columnMap.set(field, index);
+  }
+
+  const missing = Object.keys(REQUIRED_COLUMNS).filter(field => !columnMap.has(field as PatientField));
+  if (missing.length > 0) {
+    throw new Error(`Kolom wajib tidak ditemukan: ${missing.map(field => REQUIRED_COLUMNS[field]).join(', ')}`);
+  }
+
+  const cell = (row: CellValue[], field: PatientField) => {
+    const index = columnMap.get(field);
+    return index === undefined ? undefined : row[index];
+  };
+
+  const rows: PatientImportRow[] = dataRows.map((row, index) => {
+    const errors: string[] = [];
+    const name = cellText(cell(row, 'name')) ?? '';
+
+    const dateOfBirth = parseDateOfBirth(cell(row, 'date_of_birth'));
+    if (!dateOfBirth) {
+      errors.push('Tanggal lahir tidak valid (gunakan DD/MM/YYYY atau YYYY-MM-DD)');
+    } else if (dateOfBirth > new Date().toISOString().split('T')[0]) {
+      errors.push('Tanggal lahir tidak boleh di masa depan');
+    }
+
+    const genderText = cellText(cell(row, 'gender'));
+    const gender = genderText ? GENDER_ALIASES[genderText.toLowerCase()] : undefined;
+    if (!gender) {
+      errors.push('Jenis kelamin harus Laki-laki atau Perempuan');
+    }
+
+    const parsed = createPatientInputSchema.safeParse({
+      name,
+      date_of_birth: dateOfBirth ?? undefined,
+      gender,
+      phone: cellText(cell(row, 'phone')),
+      address: cellText(cell(row, 'address')),
+      emergency_contact: cellText(cell(row, 'emergency_contact')),
+      medical_notes: cellText(cell(row, 'medical_notes'))
+    });
+
+    if (!parsed.success) {
+      // Date and gender problems are already reported above in plainer words
+      for (const issue of parsed.error.issues) {
+        if (issue.path[0] !== 'date_of_birth' && issue.path[0] !== 'gender') {
+          errors.push(issue.message);
+        }
+      }
+    }
+
+    const valid = parsed.success && errors.length === 0;
+    return {
+      row_number: index + 2,
+      name,
+      status: valid ? 'valid' : 'invalid',
+      errors,
+      patient: valid ? parsed.data : null,
+      duplicate_of: null
+    };
+  });
+
+  // Duplicates: same name, date of birth and phone, against registered patients and earlier rows
+  const validRows = rows.filter(row => row.patient);
+  const names = [...new Set(validRows.map(row => row.patient!.name.trim().toLowerCase()))];
+  const existing = names.length > 0
+    ? await db.select({
+        id: patientsTable.id,
+        name: patientsTable.name,
+        date_of_birth: patientsTable.date_of_birth,
+        phone: patientsTable.phone
+      })
+        .from(patientsTable)
+        .where(inArray(sql`lower(trim(${patientsTable.name}))`, names))
+        .execute()
+    : [];
+
+  const existingByKey = new Map(existing.map(patient => [
+    duplicateKey(patient.name, patient.date_of_birth, patient.phone),
+    patient.id
+  ]));
+  const firstRowByKey = new Map<string, number>();
+
+  for (const row of validRows) {
+    const patient = row.patient!;
+    const key = duplicateKey(patient.name, patient.date_of_birth.toISOString().split('T')[0], patient.phone);
+    const existingId = existingByKey.get(key);
+    const firstRow = firstRowByKey.get(key);
+
+    if (existingId !== undefined) {
+      row.status = 'duplicate';
+      row.duplicate_of = existingId;
+      row.errors.push(`Sudah terdaftar sebagai pasien #${existingId}`);
+    } else if (firstRow !== undefined) {
+      row.status = 'duplicate';
+      row.errors.push(`Sama dengan baris ${firstRow}`);
+    } else {
+      firstRowByKey.set(key, row.row_number);
+    }
+  }
+
+  return {
+    columns: [...columnMap.keys()],
+    rows,
+    valid_count: rows.filter(row => row.status === 'valid').length,
+    invalid_count: rows.filter(row => row.status === 'invalid').length,
+    duplicate_count: rows.filter(row => row.status === 'duplicate').length,
+    imported_count: 0
+  };
+}
+
+export async function previewPatientImport(input: PatientImportInput): Promise<PatientImportResult> {
+  try {
+    return await analyzeImport(input);
+  } catch (error) {
+    console.error('Patient import preview failed:', error);
+    throw error;
+  }
+}
+
+// Insert the valid rows of the file in one transaction; invalid and duplicate rows are skipped
+export async function importPatients(input: PatientImportInput): Promise<PatientImportResult> {
+  try {
+    const result = await analyzeImport(input);
+    const patients = result.rows
+      .filter(row => row.status === 'valid')
+      .map(row => row.patient!);
+
+    if (patients.length === 0) {
+      throw new Error('Tidak ada baris valid untuk diimpor');
+    }
+
+    // All or nothing: a failing batch rolls back the ones before it
+    await db.transaction(async (tx) => {
+      // Numbered in file order
+      const medicalRecordNumbers = await nextMedicalRecordNumbers(tx, patients.length);
+
+      for (let start = 0; start < patients.length; start += INSERT_BATCH_SIZE) {
+        await tx.insert(patientsTable)
+          .values(patients.slice(start, start + INSERT_BATCH_SIZE).map((patient, index) => ({
+            medical_record_number: medicalRecordNumbers[start + index],
+            name: patient.name,
+            date_of_birth: patient.date_of_birth.toISOString().split('T')[0],
+            gender: patient.gender,
+            phone: patient.phone,
+            address: patient.address,
+            emergency_contact: patient.emergency_contact,
+            medical_notes: patient.medical_notes
+          })))
+          .execute();
+      }
+    });
+
+    return { ...result, imported_count: patients.length };
+  } catch (error) {
+    console.error('Patient import failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,198 @@
+import { db } from '../db';
+import {
+  patientsTable,
+  patientGuardiansTable,
+  patientMergesTable,
+  transactionsTable,
+  patientVisitsTable,
+  followUpsTable,
+  appointmentsTable
+} from '../db/schema';
+import {
+  type DuplicatePatientSearchInput,
+  type DuplicatePatientPair,
+  type MergePatientsInput,
+  type PatientMergeResult
+} from '../schema';
+import { normalizedPhone, toPatient } from './get_patients';
+import { alias } from 'drizzle-orm/pg-core';
+import { and, asc, desc, eq, gte, inArray, isNull, lt, notInArray, or, sql } from 'drizzle-orm';
+
+/**
+ * Pairs of patients with similar names who also share a date of birth or a phone number,
+ * most alike first. Walk-in registrations that missed the existing record show up here.
+ */
+export async function findDuplicatePatients(input: DuplicatePatientSearchInput): Promise<DuplicatePatientPair[]> {
+  try {
+    const duplicate = alias(patientsTable, 'duplicate');
+    const nameSimilarity = sql<number>`similarity(${patientsTable.name}, ${duplicate.name})`;
+    const sameDateOfBirth = sql<boolean>`${patientsTable.date_of_birth} = ${duplicate.date_of_birth}`;
+    const samePhone = sql<boolean>`(${normalizedPhone(patientsTable.phone)} <> '' and ${normalizedPhone(patientsTable.phone)} = ${normalizedPhone(duplicate.phone)})`;
+
+    const pairs = await db.select({
+      patient: patientsTable,
+      duplicate,
+      name_similarity: nameSimilarity,
+      same_date_of_birth: sameDateOfBirth,
+      same_phone: samePhone
+    })
+      .from(patientsTable)
+      // The % operator narrows the pairs with the trigram index before the exact similarity is checked
+      .innerJoin(duplicate, and(
+        lt(patientsTable.id, duplicate.id),
+        sql`${patientsTable.name} % ${duplicate.name}`
+      ))
+      .where(and(
+        gte(nameSimilarity, input.min_similarity),
+        or(sameDateOfBirth, samePhone),
+        isNull(patientsTable.archived_at),
+        isNull(duplicate.archived_at)
+      ))
+      .orderBy(desc(nameSimilarity), asc(patientsTable.id), asc(duplicate.id))
+      .limit(input.limit)
+      .execute();
+
+    return pairs.map(pair => ({
+      patient: toPatient(pair.patient),
+      duplicate: toPatient(pair.duplicate),
+      name_similarity: Math.round(Number(pair.name_similarity) * 100) / 100,
+      same_date_of_birth: pair.same_date_of_birth,
+      same_phone: pair.same_phone
+    }));
+  } catch (error) {
+    console.error('Duplicate patient search failed:', error);
+    throw error;
+  }
+}
+
+// Both records' medical notes, survivor's first; a note written on both is kept once
+function mergedMedicalNotes(survivorNotes: string | null, duplicateNotes: string | null): string | null {
+  const notes = [survivorNotes, duplicateNotes]
+    .map(note => note?.trim() ?? '')
+    .filter(note => note !== '');
+
+  return notes.length > 0 ? [...new Set(notes)].join('\n\n') : null;
+}
+
+/**
+ * Fold a duplicate record into the surviving one: its transactions, visits, follow-ups, appointments
+ * and guardians move over, blank contact details on the survivor are filled from it, medical notes
+ * of both are kept, and the duplicate is deleted with its last state kept in patient_merges.
+ * All or nothing.
+ */
+export async function mergePatients(input: MergePatientsInput, userId: number | null = null): Promise<PatientMergeResult> {
+  try {
+    if (input.survivor_id === input.duplicate_id) {
+      throw new Error('Pasien tidak dapat digabung dengan dirinya sendiri');
+    }
+
+    return await db.transaction(async (tx) => {
+      const patients = await tx.select()
+        .from(patientsTable)
+        .where(inArray(patientsTable.id, [input.survivor_id, input.duplicate_id]))
+        .for('update')
+        .execute();
+
+      const survivor = patients.find(patient => patient.id === input.survivor_id);
+      if (!survivor) {
+        throw new Error(`Patient with ID ${input.survivor_id} not found`);
+      }
+      const duplicate = patients.find(patient => patient.id === input.duplicate_id);
+      if (!duplicate) {
+        throw new Error(`Patient with ID ${input.duplicate_id} not found`);
+      }
+
+      // Everything merged would be hidden from lists along with an archived survivor
+      if (survivor.archived_at) {
+        throw new Error(`Pasien ${survivor.name} sudah diarsipkan, pulihkan terlebih dahulu sebelum digabung`);
+      }
+
+      const transactions = await tx.update(transactionsTable)
+        .set({ patient_id: survivor.id })
+        .where(eq(transactionsTable.patient_id, duplicate.id))
+        .returning({ id: transactionsTable.id })
+        .execute();
+
+      const visits = await tx.update(patientVisitsTable)
+        .set({ patient_id: survivor.id })
+        .where(eq(patientVisitsTable.patient_id, duplicate.id))
+        .returning({ id: patientVisitsTable.id })
+        .execute();
+
+      const followUps = await tx.update(followUpsTable)
+        .set({ patient_id: survivor.id })
+        .where(eq(followUpsTable.patient_id, duplicate.id))
+        .returning({ id: followUpsTable.id })
+        .execute();
+
+      // Past appointments move too, so the booking history stays with the patient
+      const appointments = await tx.update(appointmentsTable)
+        .set({ patient_id: survivor.id })
+        .where(eq(appointmentsTable.patient_id, duplicate.id))
+        .returning({ id: appointmentsTable.id })
+        .execute();
+
+      // Guardians the survivor does not have yet move over; the survivor's primary guardian stays primary
+      const survivorLinks = await tx.select()
+        .from(patientGuardiansTable)
+        .where(eq(patientGuardiansTable.patient_id, survivor.id))
+        .execute();
+      const survivorGuardianIds = survivorLinks.map(link => link.guardian_id);
+      const guardians = await tx.update(patientGuardiansTable)
+        .set({
+          patient_id: survivor.id,
+          ...(survivorLinks.some(link => link.is_primary) ? { is_primary: false } : {})
+        })
+        .where(and(
+          eq(patientGuardiansTable.patient_id, duplicate.id),
+          survivorGuardianIds.length > 0 ? notInArray(patientGuardiansTable.guardian_id, survivorGuardianIds) : undefined
+        ))
+        .returning({ id: patientGuardiansTable.id })
+        .execute();
+      await tx.delete(patientGuardiansTable)
+        .where(eq(patientGuardiansTable.patient_id, duplicate.id))
+        .execute();
+
+      const movedRecords = {
+        transactions: transactions.length,
+        visits: visits.length,
+        follow_ups: followUps.length,
+        appointments: appointments.length,
+        guardians: guardians.length
+      };
+
+      await tx.insert(patientMergesTable)
+        .values({
+          survivor_id: survivor.id,
+          merged_patient_id: duplicate.id,
+          merged_patient: JSON.parse(JSON.stringify(duplicate)),
+          moved_records: movedRecords,
+          merged_by: userId
+        })
+        .execute();
+
+      // Deleted before the survivor may take over its medical record number, which is unique
+      await tx.delete(patientsTable)
+        .where(eq(patientsTable.id, duplicate.id))
+        .execute();
+
+      const merged = await tx.update(patientsTable)
+        .set({
+          medical_record_number: survivor.medical_record_number ?? duplicate.medical_record_number,
+          phone: survivor.phone ?? duplicate.phone,
+          address: survivor.address ?? duplicate.address,
+          emergency_contact: survivor.emergency_contact ?? duplicate.emergency_contact,
+          medical_notes: mergedMedicalNotes(survivor.medical_notes, duplicate.medical_notes),
+          updated_at: new Date()
+        })
+        .where(eq(patientsTable.id, survivor.id))
+        .returning()
+        .execute();
+
+      return { patient: toPatient(merged[0]), moved_records: movedRecords };
+    });
+  } catch (error) {
+    console.error('Patient merge failed:', error);
+    throw error;
+  }
+}
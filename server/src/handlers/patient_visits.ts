@@ -1,6 +1,12 @@
 import { db } from '../db';
-import { patientVisitsTable, patientsTable, transactionsTable } from '../db/schema';
-import { type CreatePatientVisitInput, type PatientVisit } from '../schema';
+import { patientVisitsTable, patientsTable, transactionsTable, procedureRecordsTable, followUpsTable } from '../db/schema';
+import {
+  type CreatePatientVisitInput,
+  type PatientVisit,
+  type PatientVisitWithProcedure,
+  type ProcedureRecord,
+  type SaveProcedureRecordInput
+} from '../schema';
 import { eq, desc } from 'drizzle-orm';
 
 export async function createPatientVisit(input: CreatePatientVisitInput): Promise<PatientVisit> {
@@ -27,27 +33,58 @@ export async function createPatientVisit(input: CreatePatientVisitInput): Promis
       }
     }
 
-    // Create patient visit record
-    const result = await db.insert(patientVisitsTable)
-      .values({
-        patient_id: input.patient_id,
-        transaction_id: input.transaction_id,
-        visit_date: input.visit_date,
-        diagnosis: input.diagnosis,
-        treatment: input.treatment,
-        notes: input.notes
-      })
-      .returning()
-      .execute();
+    // Verify the control visit being fulfilled, if any
+    if (input.follow_up_id !== undefined) {
+      const followUp = await db.select()
+        .from(followUpsTable)
+        .where(eq(followUpsTable.id, input.follow_up_id))
+        .execute();
 
-    return result[0];
+      if (followUp.length === 0) {
+        throw new Error(`Follow-up with ID ${input.follow_up_id} not found`);
+      }
+
+      if (followUp[0].patient_id !== input.patient_id) {
+        throw new Error('Jadwal kontrol bukan milik pasien ini');
+      }
+
+      if (followUp[0].status !== 'pending') {
+        throw new Error('Jadwal kontrol sudah dilakukan atau dibatalkan');
+      }
+    }
+
+    return await db.transaction(async (tx) => {
+      // Create patient visit record
+      const result = await tx.insert(patientVisitsTable)
+        .values({
+          patient_id: input.patient_id,
+          transaction_id: input.transaction_id,
+          visit_date: input.visit_date,
+          diagnosis: input.diagnosis,
+          treatment: input.treatment,
+          notes: input.notes,
+          wound_healing_status: input.wound_healing_status ?? null
+        })
+        .returning()
+        .execute();
+
+      // Mark the control visit as done by this visit
+      if (input.follow_up_id !== undefined) {
+        await tx.update(followUpsTable)
+          .set({ status: 'completed', visit_id: result[0].id, updated_at: new Date() })
+          .where(eq(followUpsTable.id, input.follow_up_id))
+          .execute();
+      }
+
+      return result[0];
+    });
   } catch (error) {
     console.error('Patient visit creation failed:', error);
     throw error;
   }
 }
 
-export async function getPatientVisits(patientId: number): Promise<PatientVisit[]> {
+export async function getPatientVisits(patientId: number): Promise<PatientVisitWithProcedure[]> {
   try {
     // Verify patient exists
     const patient = await db.select()
@@ -62,11 +99,15 @@ export async function getPatientVisits(patientId: number): Promise<PatientVisit[
     // Fetch patient visits ordered by visit date (newest first)
     const visits = await db.select()
       .from(patientVisitsTable)
+      .leftJoin(procedureRecordsTable, eq(patientVisitsTable.id, procedureRecordsTable.visit_id))
       .where(eq(patientVisitsTable.patient_id, patientId))
       .orderBy(desc(patientVisitsTable.visit_date))
       .execute();
 
-    return visits;
+    return visits.map(visit => ({
+      ...visit.patient_visits,
+      procedure: visit.procedure_records
+    }));
   } catch (error) {
     console.error('Failed to fetch patient visits:', error);
     throw error;
@@ -118,4 +159,55 @@ export async function updatePatientVisit(id: number, diagnosis?: string | null,
     console.error('Patient visit update failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+export async function getProcedureRecord(visitId: number): Promise<ProcedureRecord | null> {
+  try {
+    const records = await db.select()
+      .from(procedureRecordsTable)
+      .where(eq(procedureRecordsTable.visit_id, visitId))
+      .execute();
+
+    return records.length > 0 ? records[0] : null;
+  } catch (error) {
+    console.error('Failed to fetch procedure record:', error);
+    throw error;
+  }
+}
+
+// Create the procedure record of a visit, or replace it when one was already written
+export async function saveProcedureRecord(input: SaveProcedureRecordInput): Promise<ProcedureRecord> {
+  try {
+    const existingVisit = await getVisitById(input.visit_id);
+    if (!existingVisit) {
+      throw new Error(`Patient visit with ID ${input.visit_id} not found`);
+    }
+
+    const values = {
+      method: input.method,
+      anesthesia_type: input.anesthesia_type,
+      anesthesia_dose: input.anesthesia_dose,
+      operator_name: input.operator_name,
+      assistant_name: input.assistant_name,
+      start_time: input.start_time,
+      end_time: input.end_time,
+      blood_loss_ml: input.blood_loss_ml,
+      complications: input.complications,
+      post_op_instructions: input.post_op_instructions
+    };
+
+    const result = await db.insert(procedureRecordsTable)
+      .values({ visit_id: input.visit_id, ...values })
+      .onConflictDoUpdate({
+        target: procedureRecordsTable.visit_id,
+        set: { ...values, updated_at: new Date() }
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Procedure record save failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,149 @@
+import { db } from '../db';
+import { paymentsTable, transactionsTable } from '../db/schema';
+import { type CreatePaymentInput, type Payment, type Transaction } from '../schema';
+import { eq } from 'drizzle-orm';
+import { requireOpenShift } from './cashier_shifts';
+import { toCents, type Tx } from './money';
+
+type TransactionRow = typeof transactionsTable.$inferSelect;
+type PaymentStatus = TransactionRow['payment_status'];
+
+/**
+ * Split an amount in cents over weights in proportion, the last share taking
+ * the rounding remainder so the shares add up exactly. Equal weights when all are zero.
+ */
+export function spreadCents(amountCents: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+  const shares = totalWeight > 0 ? weights : weights.map(() => 1);
+  const totalShares = totalWeight > 0 ? totalWeight : weights.length;
+
+  let allocated = 0;
+  return shares.map((weight, index) => {
+    const share = index === shares.length - 1
+      ? amountCents - allocated
+      : Math.round(amountCents * weight / totalShares);
+    allocated += share;
+    return share;
+  });
+}
+
+// Settled when the payments cover the total, partially paid after a down payment
+export function paymentStatusFor(totalAmount: number, paidAmount: number): PaymentStatus {
+  if (toCents(paidAmount) >= toCents(totalAmount)) return 'paid';
+  return toCents(paidAmount) > 0 ? 'partially_paid' : 'pending';
+}
+
+/**
+ * What the patient still owes. Settled and cancelled transactions owe nothing,
+ * including ones marked paid before payments were recorded.
+ */
+export function remainingAmount(transaction: Pick<TransactionRow, 'payment_status' | 'total_amount' | 'paid_amount'>): number {
+  if (transaction.payment_status === 'paid' || transaction.payment_status === 'cancelled') return 0;
+  const remaining = toCents(parseFloat(transaction.total_amount)) - toCents(parseFloat(transaction.paid_amount));
+  return Math.max(remaining, 0) / 100;
+}
+
+// Money taken in so far; transactions marked paid before payments were recorded count in full
+export function receivedAmount(transaction: Pick<TransactionRow, 'payment_status' | 'total_amount' | 'paid_amount'>): number {
+  const paidAmount = parseFloat(transaction.paid_amount);
+  return transaction.payment_status === 'paid'
+    ? Math.max(parseFloat(transaction.total_amount), paidAmount)
+    : paidAmount;
+}
+
+/**
+ * Record a payment inside an open database transaction and move the
+ * transaction's paid amount and status along. Rejects more than the remaining balance.
+ */
+export async function recordPayment(
+  tx: Tx,
+  transaction: TransactionRow,
+  amount: number,
+  paymentMethod: Payment['payment_method'],
+  notes: string | null = null
+): Promise<TransactionRow> {
+  if (transaction.payment_status === 'cancelled') {
+    throw new Error('Transaksi sudah dibatalkan');
+  }
+
+  const remaining = remainingAmount(transaction);
+  if (toCents(amount) > toCents(remaining)) {
+    throw new Error(`Jumlah pembayaran melebihi sisa tagihan (Rp ${remaining.toLocaleString('id-ID')})`);
+  }
+
+  // Money goes into the open shift's drawer, so closing the shift counts it
+  const shift = await requireOpenShift(tx);
+  await tx.insert(paymentsTable)
+    .values({
+      transaction_id: transaction.id,
+      amount: amount.toString(),
+      payment_method: paymentMethod,
+      shift_id: shift.id,
+      notes
+    })
+    .execute();
+
+  const paidAmount = (toCents(parseFloat(transaction.paid_amount)) + toCents(amount)) / 100;
+  const updated = await tx.update(transactionsTable)
+    .set({
+      paid_amount: paidAmount.toString(),
+      payment_status: paymentStatusFor(parseFloat(transaction.total_amount), paidAmount),
+      updated_at: new Date()
+    })
+    .where(eq(transactionsTable.id, transaction.id))
+    .returning()
+    .execute();
+
+  return updated[0];
+}
+
+export async function addPayment(input: CreatePaymentInput): Promise<Transaction> {
+  try {
+    const result = await db.transaction(async (tx) => {
+      const transactions = await tx.select()
+        .from(transactionsTable)
+        .where(eq(transactionsTable.id, input.transaction_id))
+        .for('update')
+        .execute();
+
+      if (transactions.length === 0) {
+        throw new Error(`Transaction with ID ${input.transaction_id} not found`);
+      }
+
+      if (transactions[0].payment_status === 'paid') {
+        throw new Error('Transaksi sudah lunas');
+      }
+
+      return recordPayment(tx, transactions[0], input.amount, input.payment_method, input.notes ?? null);
+    });
+
+    return {
+      ...result,
+      total_amount: parseFloat(result.total_amount),
+      discount_amount: parseFloat(result.discount_amount),
+      paid_amount: parseFloat(result.paid_amount),
+      refunded_amount: parseFloat(result.refunded_amount)
+    };
+  } catch (error) {
+    console.error('Payment recording failed:', error);
+    throw error;
+  }
+}
+
+export async function getPayments(transactionId: number): Promise<Payment[]> {
+  try {
+    const results = await db.select()
+      .from(paymentsTable)
+      .where(eq(paymentsTable.transaction_id, transactionId))
+      .orderBy(paymentsTable.created_at, paymentsTable.id)
+      .execute();
+
+    return results.map(payment => ({
+      ...payment,
+      amount: parseFloat(payment.amount)
+    }));
+  } catch (error) {
+    console.error('Failed to fetch payments:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,297 @@
+import { db } from '../db';
+import { medicinesTable, promotionsTable, servicesTable } from '../db/schema';
+import {
+  type CreatePromotionInput,
+  type Paginated,
+  type Promotion,
+  type PromotionPreview,
+  type PromotionPreviewInput,
+  type PromotionSearchInput,
+  type UpdatePromotionInput
+} from '../schema';
+import { count, desc, eq, sql } from 'drizzle-orm';
+import { expandPackage } from './service_packages';
+import { spreadCents } from './payments';
+import { pageQuery, toPage } from './pagination';
+import { toCents, toDateString, type Tx } from './money';
+
+type PromotionRow = typeof promotionsTable.$inferSelect;
+
+// A priced line of a cart; lines a service promotion cannot cover (medicines, package contents) have no service_id
+export interface DiscountLine {
+  service_id: number | null;
+  quantity: number;
+  gross: number; // price_per_unit x quantity
+}
+
+const toPromotion = (promotion: PromotionRow): Promotion => ({
+  ...promotion,
+  discount_value: parseFloat(promotion.discount_value),
+  valid_from: new Date(promotion.valid_from),
+  valid_until: new Date(promotion.valid_until)
+});
+
+const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+export async function createPromotion(input: CreatePromotionInput): Promise<Promotion> {
+  try {
+    const code = normalizeCode(input.code);
+    const existing = await db.select()
+      .from(promotionsTable)
+      .where(eq(promotionsTable.code, code))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Kode promo ${code} sudah digunakan`);
+    }
+
+    if (input.scope === 'service' && input.service_id !== null) {
+      const service = await db.select()
+        .from(servicesTable)
+        .where(eq(servicesTable.id, input.service_id))
+        .execute();
+
+      if (service.length === 0) {
+        throw new Error(`Service with ID ${input.service_id} not found`);
+      }
+    }
+
+    const result = await db.insert(promotionsTable)
+      .values({
+        code,
+        name: input.name,
+        discount_type: input.discount_type,
+        discount_value: input.discount_value.toString(),
+        scope: input.scope,
+        service_id: input.scope === 'service' ? input.service_id : null,
+        valid_from: toDateString(input.valid_from),
+        valid_until: toDateString(input.valid_until),
+        usage_limit: input.usage_limit,
+        is_active: input.is_active
+      })
+      .returning()
+      .execute();
+
+    return toPromotion(result[0]);
+  } catch (error) {
+    console.error('Promotion creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updatePromotion(input: UpdatePromotionInput): Promise<Promotion> {
+  try {
+    const existing = await db.select()
+      .from(promotionsTable)
+      .where(eq(promotionsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Promotion with ID ${input.id} not found`);
+    }
+
+    const promotion = existing[0];
+    const discountValue = input.discount_value ?? parseFloat(promotion.discount_value);
+    if (promotion.discount_type === 'percentage' && discountValue > 100) {
+      throw new Error('Diskon persentase maksimal 100%');
+    }
+
+    const validFrom = input.valid_from ? toDateString(input.valid_from) : promotion.valid_from;
+    const validUntil = input.valid_until ? toDateString(input.valid_until) : promotion.valid_until;
+    if (validUntil < validFrom) {
+      throw new Error('Tanggal berakhir tidak boleh sebelum tanggal mulai');
+    }
+
+    const result = await db.update(promotionsTable)
+      .set({
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.usage_limit !== undefined ? { usage_limit: input.usage_limit } : {}),
+        ...(input.is_active !== undefined ? { is_active: input.is_active } : {}),
+        discount_value: discountValue.toString(),
+        valid_from: validFrom,
+        valid_until: validUntil,
+        updated_at: new Date()
+      })
+      .where(eq(promotionsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toPromotion(result[0]);
+  } catch (error) {
+    console.error('Promotion update failed:', error);
+    throw error;
+  }
+}
+
+export async function getPromotions(input?: PromotionSearchInput): Promise<Paginated<Promotion>> {
+  try {
+    const page = pageQuery(input, { column: promotionsTable.created_at, id: promotionsTable.id, direction: 'desc' }, 50);
+
+    const results = await db.select()
+      .from(promotionsTable)
+      .where(page.after)
+      .orderBy(...page.orderBy)
+      .limit(page.limit)
+      .offset(page.offset)
+      .execute();
+
+    const total = await db.select({ count: count() })
+      .from(promotionsTable)
+      .execute();
+
+    return await toPage(results.map(toPromotion), total[0].count, page);
+  } catch (error) {
+    console.error('Failed to fetch promotions:', error);
+    throw error;
+  }
+}
+
+/**
+ * Discount per line for a promotion, in the order of the lines. Percentages
+ * apply to each covered line; a fixed service discount is per unit; a fixed
+ * bill discount is spread over the lines by their share of the bill. No line
+ * is discounted below zero.
+ */
+export function computeLineDiscounts(
+  promotion: Pick<PromotionRow, 'discount_type' | 'discount_value' | 'scope' | 'service_id'>,
+  lines: DiscountLine[]
+): number[] {
+  const value = parseFloat(promotion.discount_value);
+  const covers = (line: DiscountLine) => promotion.scope === 'bill' || line.service_id === promotion.service_id;
+
+  if (promotion.discount_type === 'percentage') {
+    return lines.map(line => covers(line) ? Math.round(toCents(line.gross) * value / 100) / 100 : 0);
+  }
+
+  if (promotion.scope === 'service') {
+    return lines.map(line => covers(line) ? Math.min(toCents(value) * line.quantity, toCents(line.gross)) / 100 : 0);
+  }
+
+  const billCents = lines.reduce((total, line) => total + toCents(line.gross), 0);
+  if (billCents === 0) {
+    return lines.map(() => 0);
+  }
+
+  return spreadCents(Math.min(toCents(value), billCents), lines.map(line => toCents(line.gross)))
+    .map(share => share / 100);
+}
+
+/**
+ * Look up a promo code for redemption, locking the promotion so concurrent
+ * checkouts cannot exceed its usage limit, and work out the line discounts.
+ */
+export async function applyPromotion(
+  tx: Tx | typeof db,
+  code: string,
+  lines: DiscountLine[]
+): Promise<{ promotion: PromotionRow; discounts: number[] }> {
+  const promotions = await tx.select()
+    .from(promotionsTable)
+    .where(eq(promotionsTable.code, normalizeCode(code)))
+    .for('update')
+    .execute();
+
+  if (promotions.length === 0) {
+    throw new Error(`Kode promo ${normalizeCode(code)} tidak ditemukan`);
+  }
+
+  const promotion = promotions[0];
+  const today = toDateString(new Date());
+  if (!promotion.is_active || today < promotion.valid_from || today > promotion.valid_until) {
+    throw new Error(`Kode promo ${promotion.code} sudah tidak berlaku`);
+  }
+
+  if (promotion.usage_limit !== null && promotion.usage_count >= promotion.usage_limit) {
+    throw new Error(`Kuota kode promo ${promotion.code} sudah habis`);
+  }
+
+  if (promotion.scope === 'service' && !lines.some(line => line.service_id === promotion.service_id)) {
+    throw new Error(`Kode promo ${promotion.code} tidak berlaku untuk layanan yang dipilih`);
+  }
+
+  return { promotion, discounts: computeLineDiscounts(promotion, lines) };
+}
+
+// Give a promo code's use back when the sale that redeemed it is cancelled, deleted or fully refunded
+export async function releasePromotion(tx: Tx | typeof db, promotionId: number | null): Promise<void> {
+  if (promotionId === null) return;
+
+  await tx.update(promotionsTable)
+    .set({ usage_count: sql`greatest(${promotionsTable.usage_count} - 1, 0)`, updated_at: new Date() })
+    .where(eq(promotionsTable.id, promotionId))
+    .execute();
+}
+
+// Take the use again when a cancelled sale is reactivated, as long as the quota still allows it
+export async function reclaimPromotion(tx: Tx | typeof db, promotionId: number | null): Promise<void> {
+  if (promotionId === null) return;
+
+  const promotions = await tx.select()
+    .from(promotionsTable)
+    .where(eq(promotionsTable.id, promotionId))
+    .for('update')
+    .execute();
+
+  const promotion = promotions[0];
+  if (!promotion) return;
+
+  if (promotion.usage_limit !== null && promotion.usage_count >= promotion.usage_limit) {
+    throw new Error(`Kuota kode promo ${promotion.code} sudah habis`);
+  }
+
+  await tx.update(promotionsTable)
+    .set({ usage_count: sql`${promotionsTable.usage_count} + 1`, updated_at: new Date() })
+    .where(eq(promotionsTable.id, promotionId))
+    .execute();
+}
+
+// The discount a promo code would give on a cart, without redeeming it
+export async function previewPromotion(input: PromotionPreviewInput): Promise<PromotionPreview> {
+  try {
+    const lines: DiscountLine[] = [];
+    for (const item of input.services) {
+      const service = await db.select()
+        .from(servicesTable)
+        .where(eq(servicesTable.id, item.service_id))
+        .execute();
+
+      if (service.length === 0) {
+        throw new Error(`Service with ID ${item.service_id} not found`);
+      }
+
+      lines.push({ service_id: item.service_id, quantity: item.quantity, gross: parseFloat(service[0].price) * item.quantity });
+    }
+
+    for (const item of input.medicines ?? []) {
+      const medicine = await db.select()
+        .from(medicinesTable)
+        .where(eq(medicinesTable.id, item.medicine_id))
+        .execute();
+
+      if (medicine.length === 0) {
+        throw new Error(`Medicine with ID ${item.medicine_id} not found`);
+      }
+
+      lines.push({ service_id: null, quantity: item.quantity, gross: parseFloat(medicine[0].price_per_unit) * item.quantity });
+    }
+
+    for (const item of input.packages ?? []) {
+      const { lines: packageLines } = await expandPackage(db, item.package_id, item.quantity);
+      lines.push(...packageLines.map(line => ({ service_id: null, quantity: line.quantity, gross: line.gross })));
+    }
+
+    const { promotion, discounts } = await applyPromotion(db, input.promo_code, lines);
+    const subtotalCents = lines.reduce((total, line) => total + toCents(line.gross), 0);
+    const discountCents = discounts.reduce((total, discount) => total + toCents(discount), 0);
+
+    return {
+      promotion: toPromotion(promotion),
+      subtotal: subtotalCents / 100,
+      discount_amount: discountCents / 100,
+      total_amount: (subtotalCents - discountCents) / 100
+    };
+  } catch (error) {
+    console.error('Promotion preview failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,402 @@
+import { db } from '../db';
+import {
+  goodsReceiptItemsTable,
+  goodsReceiptsTable,
+  medicinesTable,
+  purchaseOrderItemsTable,
+  purchaseOrdersTable,
+  stockMovementsTable,
+  suppliersTable
+} from '../db/schema';
+import {
+  type CreatePurchaseOrderInput,
+  type GoodsReceipt,
+  type Paginated,
+  type PurchaseOrder,
+  type PurchaseOrderSearchInput,
+  type ReceiveGoodsInput
+} from '../schema';
+import { receiveBatch } from './medicine_batches';
+import { pageQuery, toPage } from './pagination';
+import { and, count, desc, eq, inArray, sql, type SQL } from 'drizzle-orm';
+import { toCents, toDateString, type Tx } from './money';
+
+type PurchaseOrderRow = typeof purchaseOrdersTable.$inferSelect;
+
+async function toPurchaseOrders(tx: Tx | typeof db, orders: PurchaseOrderRow[]): Promise<PurchaseOrder[]> {
+  if (orders.length === 0) {
+    return [];
+  }
+
+  const orderIds = orders.map(order => order.id);
+
+  const suppliers = await tx.select({ id: suppliersTable.id, name: suppliersTable.name })
+    .from(suppliersTable)
+    .where(inArray(suppliersTable.id, [...new Set(orders.map(order => order.supplier_id))]))
+    .execute();
+
+  const items = await tx.select({
+    id: purchaseOrderItemsTable.id,
+    purchase_order_id: purchaseOrderItemsTable.purchase_order_id,
+    medicine_id: purchaseOrderItemsTable.medicine_id,
+    medicine_name: medicinesTable.name,
+    unit: medicinesTable.unit,
+    quantity_ordered: purchaseOrderItemsTable.quantity_ordered,
+    quantity_received: purchaseOrderItemsTable.quantity_received,
+    expected_price: purchaseOrderItemsTable.expected_price
+  })
+    .from(purchaseOrderItemsTable)
+    .innerJoin(medicinesTable, eq(purchaseOrderItemsTable.medicine_id, medicinesTable.id))
+    .where(inArray(purchaseOrderItemsTable.purchase_order_id, orderIds))
+    .orderBy(purchaseOrderItemsTable.id)
+    .execute();
+
+  const receivedCosts = await tx.select({
+    purchase_order_id: goodsReceiptsTable.purchase_order_id,
+    total: sql<string>`coalesce(sum(${goodsReceiptsTable.total_cost}), 0)`
+  })
+    .from(goodsReceiptsTable)
+    .where(inArray(goodsReceiptsTable.purchase_order_id, orderIds))
+    .groupBy(goodsReceiptsTable.purchase_order_id)
+    .execute();
+
+  return orders.map(order => {
+    const orderItems = items
+      .filter(item => item.purchase_order_id === order.id)
+      .map(({ purchase_order_id: _orderId, ...item }) => ({ ...item, expected_price: parseFloat(item.expected_price) }));
+
+    return {
+      ...order,
+      supplier_name: suppliers.find(supplier => supplier.id === order.supplier_id)?.name ?? `Supplier #${order.supplier_id}`,
+      order_date: new Date(order.order_date),
+      expected_date: order.expected_date ? new Date(order.expected_date) : null,
+      expected_total: orderItems.reduce((total, item) => total + toCents(item.expected_price) * item.quantity_ordered, 0) / 100,
+      received_cost: parseFloat(receivedCosts.find(row => row.purchase_order_id === order.id)?.total ?? '0'),
+      items: orderItems
+    };
+  });
+}
+
+export async function createPurchaseOrder(input: CreatePurchaseOrderInput): Promise<PurchaseOrder> {
+  try {
+    return await db.transaction(async (tx) => {
+      const suppliers = await tx.select()
+        .from(suppliersTable)
+        .where(eq(suppliersTable.id, input.supplier_id))
+        .execute();
+
+      if (suppliers.length === 0) {
+        throw new Error(`Supplier with ID ${input.supplier_id} not found`);
+      }
+      if (!suppliers[0].is_active) {
+        throw new Error(`Supplier ${suppliers[0].name} tidak aktif`);
+      }
+
+      const medicineIds = [...new Set(input.items.map(item => item.medicine_id))];
+      if (medicineIds.length !== input.items.length) {
+        throw new Error('Setiap obat hanya boleh muncul sekali dalam satu pesanan');
+      }
+
+      const medicines = await tx.select({ id: medicinesTable.id })
+        .from(medicinesTable)
+        .where(inArray(medicinesTable.id, medicineIds))
+        .execute();
+      const missing = medicineIds.find(id => !medicines.some(medicine => medicine.id === id));
+      if (missing !== undefined) {
+        throw new Error(`Medicine with ID ${missing} not found`);
+      }
+
+      const result = await tx.insert(purchaseOrdersTable)
+        .values({
+          supplier_id: input.supplier_id,
+          order_date: toDateString(input.order_date),
+          expected_date: input.expected_date ? toDateString(input.expected_date) : null,
+          notes: input.notes
+        })
+        .returning()
+        .execute();
+
+      await tx.insert(purchaseOrderItemsTable)
+        .values(input.items.map(item => ({
+          purchase_order_id: result[0].id,
+          medicine_id: item.medicine_id,
+          quantity_ordered: item.quantity,
+          expected_price: item.expected_price.toString()
+        })))
+        .execute();
+
+      return (await toPurchaseOrders(tx, result))[0];
+    });
+  } catch (error) {
+    console.error('Purchase order creation failed:', error);
+    throw error;
+  }
+}
+
+const PURCHASE_ORDER_SORT_COLUMNS = {
+  order_date: purchaseOrdersTable.order_date,
+  created_at: purchaseOrdersTable.created_at
+};
+
+export async function getPurchaseOrders(input: PurchaseOrderSearchInput): Promise<Paginated<PurchaseOrder>> {
+  try {
+    const conditions: SQL[] = [];
+    if (input.supplier_id !== undefined) {
+      conditions.push(eq(purchaseOrdersTable.supplier_id, input.supplier_id));
+    }
+    if (input.status !== undefined) {
+      conditions.push(eq(purchaseOrdersTable.status, input.status));
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const page = pageQuery(input, {
+      column: PURCHASE_ORDER_SORT_COLUMNS[input.sort_by],
+      id: purchaseOrdersTable.id,
+      direction: input.sort_direction
+    });
+
+    const orders = await db.select()
+      .from(purchaseOrdersTable)
+      .where(and(where, page.after))
+      .orderBy(...page.orderBy)
+      .limit(page.limit)
+      .offset(page.offset)
+      .execute();
+
+    const total = await db.select({ count: count() })
+      .from(purchaseOrdersTable)
+      .where(where)
+      .execute();
+
+    return await toPage(await toPurchaseOrders(db, orders), total[0].count, page);
+  } catch (error) {
+    console.error('Get purchase orders failed:', error);
+    throw error;
+  }
+}
+
+export async function getPurchaseOrderById(id: number): Promise<PurchaseOrder> {
+  try {
+    const orders = await db.select()
+      .from(purchaseOrdersTable)
+      .where(eq(purchaseOrdersTable.id, id))
+      .execute();
+
+    if (orders.length === 0) {
+      throw new Error(`Purchase order with ID ${id} not found`);
+    }
+
+    return (await toPurchaseOrders(db, orders))[0];
+  } catch (error) {
+    console.error('Get purchase order failed:', error);
+    throw error;
+  }
+}
+
+// Only an order nothing has been received against can be cancelled; a partial delivery closes it instead
+export async function cancelPurchaseOrder(id: number): Promise<PurchaseOrder> {
+  try {
+    return await db.transaction(async (tx) => {
+      const orders = await tx.select()
+        .from(purchaseOrdersTable)
+        .where(eq(purchaseOrdersTable.id, id))
+        .for('update')
+        .execute();
+
+      if (orders.length === 0) {
+        throw new Error(`Purchase order with ID ${id} not found`);
+      }
+      if (orders[0].status !== 'ordered') {
+        throw new Error(`Pesanan #${id} sudah menerima barang atau sudah dibatalkan`);
+      }
+
+      const result = await tx.update(purchaseOrdersTable)
+        .set({ status: 'cancelled', updated_at: new Date() })
+        .where(eq(purchaseOrdersTable.id, id))
+        .returning()
+        .execute();
+
+      return (await toPurchaseOrders(tx, result))[0];
+    });
+  } catch (error) {
+    console.error('Purchase order cancellation failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Book a delivery against a purchase order. Every line puts its units into
+ * stock through a 'masuk' movement that references the goods receipt, with the
+ * price actually paid as the batch's purchase price. The order stays
+ * partially received until every line has been delivered in full.
+ */
+export async function receiveGoods(input: ReceiveGoodsInput): Promise<GoodsReceipt> {
+  try {
+    const receiptId = await db.transaction(async (tx) => {
+      const orders = await tx.select()
+        .from(purchaseOrdersTable)
+        .where(eq(purchaseOrdersTable.id, input.purchase_order_id))
+        .for('update')
+        .execute();
+
+      if (orders.length === 0) {
+        throw new Error(`Purchase order with ID ${input.purchase_order_id} not found`);
+      }
+
+      const order = orders[0];
+      if (order.status === 'cancelled') {
+        throw new Error(`Pesanan #${order.id} sudah dibatalkan`);
+      }
+      if (order.status === 'received') {
+        throw new Error(`Pesanan #${order.id} sudah diterima seluruhnya`);
+      }
+
+      const orderItems = await tx.select()
+        .from(purchaseOrderItemsTable)
+        .where(eq(purchaseOrderItemsTable.purchase_order_id, order.id))
+        .execute();
+
+      // Lines for the same order line are checked together against what is still outstanding
+      const receiving = new Map<number, number>();
+      for (const line of input.items) {
+        const orderItem = orderItems.find(item => item.id === line.purchase_order_item_id);
+        if (!orderItem) {
+          throw new Error(`Purchase order item with ID ${line.purchase_order_item_id} not found on order #${order.id}`);
+        }
+
+        const quantity = (receiving.get(orderItem.id) ?? 0) + line.quantity;
+        const outstanding = orderItem.quantity_ordered - orderItem.quantity_received;
+        if (quantity > outstanding) {
+          throw new Error(`Jumlah diterima melebihi sisa pesanan (sisa ${outstanding})`);
+        }
+        receiving.set(orderItem.id, quantity);
+      }
+
+      const lines = input.items.map(line => {
+        const orderItem = orderItems.find(item => item.id === line.purchase_order_item_id)!;
+        return { ...line, orderItem, unit_cost: line.unit_cost ?? parseFloat(orderItem.expected_price) };
+      });
+
+      const receipt = await tx.insert(goodsReceiptsTable)
+        .values({
+          purchase_order_id: order.id,
+          invoice_number: input.invoice_number ?? null,
+          total_cost: (lines.reduce((total, line) => total + toCents(line.unit_cost) * line.quantity, 0) / 100).toString(),
+          notes: input.notes ?? null
+        })
+        .returning()
+        .execute();
+
+      for (const line of lines) {
+        const medicines = await tx.select()
+          .from(medicinesTable)
+          .where(eq(medicinesTable.id, line.orderItem.medicine_id))
+          .execute();
+
+        if (medicines.length === 0) {
+          throw new Error(`Medicine with ID ${line.orderItem.medicine_id} not found`);
+        }
+
+        const movement = await tx.insert(stockMovementsTable)
+          .values({
+            medicine_id: line.orderItem.medicine_id,
+            movement_type: 'masuk',
+            quantity: line.quantity,
+            reference_id: receipt[0].id,
+            reference_type: 'goods_receipt',
+            unit_cost: line.unit_cost.toString(),
+            notes: `Penerimaan barang pesanan #${order.id}`
+          })
+          .returning()
+          .execute();
+
+        await receiveBatch(tx, medicines[0], line.quantity, movement[0].id, {
+          lot_number: line.lot_number,
+          expiry_date: line.expiry_date,
+          purchase_price: line.unit_cost
+        });
+
+        await tx.insert(goodsReceiptItemsTable)
+          .values({
+            goods_receipt_id: receipt[0].id,
+            purchase_order_item_id: line.orderItem.id,
+            medicine_id: line.orderItem.medicine_id,
+            quantity: line.quantity,
+            unit_cost: line.unit_cost.toString(),
+            lot_number: line.lot_number ?? null,
+            expiry_date: line.expiry_date ? toDateString(line.expiry_date) : null,
+            stock_movement_id: movement[0].id
+          })
+          .execute();
+      }
+
+      for (const [orderItemId, quantity] of receiving) {
+        await tx.update(purchaseOrderItemsTable)
+          .set({ quantity_received: sql`${purchaseOrderItemsTable.quantity_received} + ${quantity}` })
+          .where(eq(purchaseOrderItemsTable.id, orderItemId))
+          .execute();
+      }
+
+      const complete = orderItems.every(item => item.quantity_received + (receiving.get(item.id) ?? 0) >= item.quantity_ordered);
+      await tx.update(purchaseOrdersTable)
+        .set({ status: complete ? 'received' : 'partially_received', updated_at: new Date() })
+        .where(eq(purchaseOrdersTable.id, order.id))
+        .execute();
+
+      return receipt[0].id;
+    });
+
+    return (await getGoodsReceipts(input.purchase_order_id)).find(receipt => receipt.id === receiptId)!;
+  } catch (error) {
+    console.error('Goods receipt failed:', error);
+    throw error;
+  }
+}
+
+// Deliveries booked against a purchase order, oldest first
+export async function getGoodsReceipts(purchaseOrderId: number): Promise<GoodsReceipt[]> {
+  try {
+    const receipts = await db.select()
+      .from(goodsReceiptsTable)
+      .where(eq(goodsReceiptsTable.purchase_order_id, purchaseOrderId))
+      .orderBy(goodsReceiptsTable.received_at, goodsReceiptsTable.id)
+      .execute();
+
+    if (receipts.length === 0) {
+      return [];
+    }
+
+    const items = await db.select({
+      id: goodsReceiptItemsTable.id,
+      goods_receipt_id: goodsReceiptItemsTable.goods_receipt_id,
+      purchase_order_item_id: goodsReceiptItemsTable.purchase_order_item_id,
+      medicine_id: goodsReceiptItemsTable.medicine_id,
+      medicine_name: medicinesTable.name,
+      quantity: goodsReceiptItemsTable.quantity,
+      unit_cost: goodsReceiptItemsTable.unit_cost,
+      lot_number: goodsReceiptItemsTable.lot_number,
+      expiry_date: goodsReceiptItemsTable.expiry_date,
+      stock_movement_id: goodsReceiptItemsTable.stock_movement_id
+    })
+      .from(goodsReceiptItemsTable)
+      .innerJoin(medicinesTable, eq(goodsReceiptItemsTable.medicine_id, medicinesTable.id))
+      .where(inArray(goodsReceiptItemsTable.goods_receipt_id, receipts.map(receipt => receipt.id)))
+      .orderBy(goodsReceiptItemsTable.id)
+      .execute();
+
+    return receipts.map(receipt => ({
+      ...receipt,
+      total_cost: parseFloat(receipt.total_cost),
+      items: items
+        .filter(item => item.goods_receipt_id === receipt.id)
+        .map(({ goods_receipt_id: _receiptId, ...item }) => ({
+          ...item,
+          unit_cost: parseFloat(item.unit_cost),
+          expiry_date: item.expiry_date ? new Date(item.expiry_date) : null
+        }))
+    }));
+  } catch (error) {
+    console.error('Get goods receipts failed:', error);
+    throw error;
+  }
+}
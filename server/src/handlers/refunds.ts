@@ -0,0 +1,304 @@
+import { db } from '../db';
+import {
+  followUpsTable,
+  medicinesTable,
+  refundItemsTable,
+  refundsTable,
+  servicesTable,
+  stockMovementsTable,
+  transactionMedicinesTable,
+  transactionServicesTable,
+  transactionsTable
+} from '../db/schema';
+import {
+  type CreateRefundInput,
+  type Refund,
+  type RefundableItem,
+  type RefundItemType
+} from '../schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { receivedAmount } from './payments';
+import { returnDispensedUnits } from './medicine_batches';
+import { requireOpenShift } from './cashier_shifts';
+import { releasePromotion } from './promotions';
+import { toCents, type Tx } from './money';
+
+interface TransactionLine extends RefundableItem {
+  item_id: number; // service_id or medicine_id
+}
+
+async function getTransactionLines(tx: Tx | typeof db, transactionId: number): Promise<TransactionLine[]> {
+  const services = await tx.select({
+    transaction_item_id: transactionServicesTable.id,
+    item_id: transactionServicesTable.service_id,
+    name: servicesTable.name,
+    quantity: transactionServicesTable.quantity,
+    refunded_quantity: transactionServicesTable.refunded_quantity,
+    price_per_unit: transactionServicesTable.price_per_unit,
+    total_price: transactionServicesTable.total_price
+  })
+    .from(transactionServicesTable)
+    .innerJoin(servicesTable, eq(transactionServicesTable.service_id, servicesTable.id))
+    .where(eq(transactionServicesTable.transaction_id, transactionId))
+    .orderBy(transactionServicesTable.id)
+    .execute();
+
+  const medicines = await tx.select({
+    transaction_item_id: transactionMedicinesTable.id,
+    item_id: transactionMedicinesTable.medicine_id,
+    name: medicinesTable.name,
+    quantity: transactionMedicinesTable.quantity,
+    refunded_quantity: transactionMedicinesTable.refunded_quantity,
+    price_per_unit: transactionMedicinesTable.price_per_unit,
+    total_price: transactionMedicinesTable.total_price
+  })
+    .from(transactionMedicinesTable)
+    .innerJoin(medicinesTable, eq(transactionMedicinesTable.medicine_id, medicinesTable.id))
+    .where(eq(transactionMedicinesTable.transaction_id, transactionId))
+    .orderBy(transactionMedicinesTable.id)
+    .execute();
+
+  return [
+    ...services.map(line => ({
+      ...line,
+      item_type: 'service' as const,
+      price_per_unit: parseFloat(line.price_per_unit),
+      total_price: parseFloat(line.total_price)
+    })),
+    ...medicines.map(line => ({
+      ...line,
+      item_type: 'medicine' as const,
+      price_per_unit: parseFloat(line.price_per_unit),
+      total_price: parseFloat(line.total_price)
+    }))
+  ];
+}
+
+// Value of part of a line in cents, at the price paid after any discount
+const lineCents = (line: TransactionLine, quantity: number) => Math.round(toCents(line.total_price) * quantity / line.quantity);
+
+const lineKey = (itemType: RefundItemType, transactionItemId: number) => `${itemType}-${transactionItemId}`;
+
+/**
+ * Refund a transaction as a credit note: the money paid back, the line items
+ * returned and the reason. Returned medicines go back into stock; services no
+ * longer owed drop their pending control visits. Without items everything not
+ * yet refunded is returned together with all money received.
+ */
+export async function createRefund(input: CreateRefundInput): Promise<Refund> {
+  try {
+    return await db.transaction(async (tx) => {
+      const transactions = await tx.select()
+        .from(transactionsTable)
+        .where(eq(transactionsTable.id, input.transaction_id))
+        .for('update')
+        .execute();
+
+      if (transactions.length === 0) {
+        throw new Error(`Transaction with ID ${input.transaction_id} not found`);
+      }
+
+      const transaction = transactions[0];
+      if (transaction.payment_status === 'cancelled') {
+        throw new Error('Transaksi sudah dibatalkan');
+      }
+
+      const refundable = (toCents(receivedAmount(transaction)) - toCents(parseFloat(transaction.refunded_amount))) / 100;
+      if (refundable <= 0) {
+        throw new Error('Tidak ada pembayaran yang dapat direfund');
+      }
+
+      const lines = await getTransactionLines(tx, transaction.id);
+      const linesByKey = new Map(lines.map(line => [lineKey(line.item_type, line.transaction_item_id), line]));
+
+      // Quantity to refund per line, merging repeated lines of the request
+      const requested = new Map<string, number>();
+      if (input.items) {
+        for (const item of input.items) {
+          const key = lineKey(item.item_type, item.transaction_item_id);
+          const line = linesByKey.get(key);
+          if (!line) {
+            throw new Error(`Item transaksi ${item.item_type} #${item.transaction_item_id} tidak ditemukan pada transaksi ini`);
+          }
+
+          const quantity = (requested.get(key) ?? 0) + item.quantity;
+          if (quantity > line.quantity - line.refunded_quantity) {
+            throw new Error(`Jumlah refund ${line.name} melebihi jumlah yang belum direfund (${line.quantity - line.refunded_quantity})`);
+          }
+          requested.set(key, quantity);
+        }
+      } else {
+        for (const line of lines) {
+          const quantity = line.quantity - line.refunded_quantity;
+          if (quantity > 0) requested.set(lineKey(line.item_type, line.transaction_item_id), quantity);
+        }
+      }
+
+      // A full refund pays back everything received; line refunds pay back the value of the lines
+      const itemsAmount = [...requested].reduce(
+        (total, [key, quantity]) => total + lineCents(linesByKey.get(key)!, quantity),
+        0
+      ) / 100;
+      const amount = input.items ? itemsAmount : refundable;
+      if (toCents(amount) > toCents(refundable)) {
+        throw new Error(`Jumlah refund melebihi pembayaran yang diterima (Rp ${refundable.toLocaleString('id-ID')})`);
+      }
+
+      // Paid back from the drawer of the open shift, so closing the shift counts it
+      const shift = await requireOpenShift(tx);
+      const refund = await tx.insert(refundsTable)
+        .values({
+          transaction_id: transaction.id,
+          amount: amount.toString(),
+          refund_method: input.refund_method,
+          reason: input.reason,
+          shift_id: shift.id
+        })
+        .returning()
+        .execute();
+
+      const items = [];
+      for (const [key, quantity] of requested) {
+        const line = linesByKey.get(key)!;
+        const item = await tx.insert(refundItemsTable)
+          .values({
+            refund_id: refund[0].id,
+            item_type: line.item_type,
+            transaction_item_id: line.transaction_item_id,
+            quantity,
+            amount: (lineCents(line, quantity) / 100).toString()
+          })
+          .returning()
+          .execute();
+        items.push(item[0]);
+
+        if (line.item_type === 'service') {
+          await tx.update(transactionServicesTable)
+            .set({ refunded_quantity: line.refunded_quantity + quantity })
+            .where(eq(transactionServicesTable.id, line.transaction_item_id))
+            .execute();
+          continue;
+        }
+
+        await tx.update(transactionMedicinesTable)
+          .set({ refunded_quantity: line.refunded_quantity + quantity })
+          .where(eq(transactionMedicinesTable.id, line.transaction_item_id))
+          .execute();
+
+        // Returned medicines go back into the batches they were dispensed from
+        const medicine = await tx.select()
+          .from(medicinesTable)
+          .where(eq(medicinesTable.id, line.item_id))
+          .execute();
+
+        const movement = await tx.insert(stockMovementsTable)
+          .values({
+            medicine_id: line.item_id,
+            movement_type: 'masuk',
+            quantity,
+            reference_id: transaction.id,
+            reference_type: 'transaction',
+            notes: `Refund #${refund[0].id} transaksi #${transaction.id} - pemulihan stok`
+          })
+          .returning()
+          .execute();
+
+        await returnDispensedUnits(tx, medicine[0], transaction.id, quantity, movement[0].id);
+      }
+
+      // Services refunded in full no longer need their control visits
+      const remainingLines = await getTransactionLines(tx, transaction.id);
+      const refundedServiceIds = remainingLines
+        .filter(line => line.item_type === 'service')
+        .filter((line, _, services) => services
+          .filter(other => other.item_id === line.item_id)
+          .every(other => other.refunded_quantity >= other.quantity))
+        .map(line => line.item_id);
+
+      if (refundedServiceIds.length > 0) {
+        await tx.update(followUpsTable)
+          .set({ status: 'cancelled', updated_at: new Date() })
+          .where(and(
+            eq(followUpsTable.transaction_id, transaction.id),
+            inArray(followUpsTable.service_id, refundedServiceIds),
+            eq(followUpsTable.status, 'pending')
+          ))
+          .execute();
+      }
+
+      // An unsettled transaction with nothing left to refund has nothing left to collect either,
+      // and a sale refunded in full no longer counts toward its promo code's quota
+      const fullyRefunded = remainingLines.every(line => line.refunded_quantity >= line.quantity);
+      if (fullyRefunded) {
+        await releasePromotion(tx, transaction.promotion_id);
+      }
+      await tx.update(transactionsTable)
+        .set({
+          refunded_amount: sql`${transactionsTable.refunded_amount} + ${amount.toString()}`,
+          ...(fullyRefunded && transaction.payment_status !== 'paid' ? { payment_status: 'cancelled' as const } : {}),
+          updated_at: new Date()
+        })
+        .where(eq(transactionsTable.id, transaction.id))
+        .execute();
+
+      return {
+        ...refund[0],
+        amount: parseFloat(refund[0].amount),
+        items: items.map(item => ({ ...item, amount: parseFloat(item.amount) }))
+      };
+    });
+  } catch (error) {
+    console.error('Refund creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getRefunds(transactionId: number): Promise<Refund[]> {
+  try {
+    const refunds = await db.select()
+      .from(refundsTable)
+      .where(eq(refundsTable.transaction_id, transactionId))
+      .orderBy(refundsTable.created_at, refundsTable.id)
+      .execute();
+
+    if (refunds.length === 0) {
+      return [];
+    }
+
+    const items = await db.select()
+      .from(refundItemsTable)
+      .where(inArray(refundItemsTable.refund_id, refunds.map(refund => refund.id)))
+      .orderBy(refundItemsTable.id)
+      .execute();
+
+    return refunds.map(refund => ({
+      ...refund,
+      amount: parseFloat(refund.amount),
+      items: items
+        .filter(item => item.refund_id === refund.id)
+        .map(item => ({ ...item, amount: parseFloat(item.amount) }))
+    }));
+  } catch (error) {
+    console.error('Failed to fetch refunds:', error);
+    throw error;
+  }
+}
+
+// The lines of a transaction with how much of each was already refunded
+export async function getRefundableItems(transactionId: number): Promise<RefundableItem[]> {
+  try {
+    const lines = await getTransactionLines(db, transactionId);
+    return lines.map(line => ({
+      item_type: line.item_type,
+      transaction_item_id: line.transaction_item_id,
+      name: line.name,
+      quantity: line.quantity,
+      refunded_quantity: line.refunded_quantity,
+      price_per_unit: line.price_per_unit,
+      total_price: line.total_price
+    }));
+  } catch (error) {
+    console.error('Failed to fetch refundable items:', error);
+    throw error;
+  }
+}
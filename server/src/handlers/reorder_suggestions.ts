@@ -0,0 +1,162 @@
+import { db } from '../db';
+import {
+  medicinesTable,
+  purchaseOrderItemsTable,
+  purchaseOrdersTable,
+  settingsTable,
+  stockMovementsTable,
+  suppliersTable,
+  transactionsTable
+} from '../db/schema';
+import {
+  type ReorderSuggestionGroup,
+  type ReorderSuggestionInput,
+  type ReorderSuggestionItem,
+  type ReorderSuggestions
+} from '../schema';
+import { and, desc, eq, gte, inArray, isNull, ne, sql } from 'drizzle-orm';
+import { toCents } from './money';
+
+const DEFAULT_THRESHOLD_DAYS = 7;
+
+async function getThresholdDays(): Promise<number> {
+  const rows = await db.select()
+    .from(settingsTable)
+    .where(eq(settingsTable.key, 'low_stock_threshold_days'))
+    .execute();
+
+  const days = rows.length > 0 ? parseInt(rows[0].value) : NaN;
+  return days > 0 ? days : DEFAULT_THRESHOLD_DAYS;
+}
+
+/**
+ * Suggest what to reorder from how fast each medicine has been leaving the
+ * shelf. A medicine is flagged when it is at or under its minimum stock or
+ * when its days of cover fall within the `low_stock_threshold_days` setting;
+ * the suggestion tops it up to `cover_days` of consumption on top of the
+ * minimum stock, less what is already on order. Suggestions are grouped by
+ * the supplier the medicine was last ordered from, so each group can go out
+ * as one purchase order.
+ */
+export async function getReorderSuggestions(input: ReorderSuggestionInput): Promise<ReorderSuggestions> {
+  try {
+    const thresholdDays = await getThresholdDays();
+    const since = new Date();
+    since.setDate(since.getDate() - input.lookback_days);
+
+    const medicines = await db.select()
+      .from(medicinesTable)
+      .where(isNull(medicinesTable.archived_at))
+      .orderBy(medicinesTable.name)
+      .execute();
+
+    // Usage is what patients took home: units dispensed by transactions that still stand,
+    // less units refunded back onto the shelf. Write-offs and opname corrections are not demand.
+    const usage = await db.select({
+      medicine_id: stockMovementsTable.medicine_id,
+      quantity: sql<number>`sum(case when ${stockMovementsTable.movement_type} = 'keluar' then ${stockMovementsTable.quantity} else -${stockMovementsTable.quantity} end)::integer`
+    })
+      .from(stockMovementsTable)
+      .innerJoin(transactionsTable, eq(stockMovementsTable.reference_id, transactionsTable.id))
+      .where(and(
+        eq(stockMovementsTable.reference_type, 'transaction'),
+        ne(transactionsTable.payment_status, 'cancelled'),
+        gte(stockMovementsTable.created_at, since)
+      ))
+      .groupBy(stockMovementsTable.medicine_id)
+      .execute();
+
+    const onOrder = await db.select({
+      medicine_id: purchaseOrderItemsTable.medicine_id,
+      quantity: sql<number>`sum(${purchaseOrderItemsTable.quantity_ordered} - ${purchaseOrderItemsTable.quantity_received})::integer`
+    })
+      .from(purchaseOrderItemsTable)
+      .innerJoin(purchaseOrdersTable, eq(purchaseOrderItemsTable.purchase_order_id, purchaseOrdersTable.id))
+      .where(inArray(purchaseOrdersTable.status, ['ordered', 'partially_received']))
+      .groupBy(purchaseOrderItemsTable.medicine_id)
+      .execute();
+
+    const lastOrders = await db.selectDistinctOn([purchaseOrderItemsTable.medicine_id], {
+      medicine_id: purchaseOrderItemsTable.medicine_id,
+      supplier_id: purchaseOrdersTable.supplier_id,
+      expected_price: purchaseOrderItemsTable.expected_price
+    })
+      .from(purchaseOrderItemsTable)
+      .innerJoin(purchaseOrdersTable, eq(purchaseOrderItemsTable.purchase_order_id, purchaseOrdersTable.id))
+      .where(ne(purchaseOrdersTable.status, 'cancelled'))
+      .orderBy(purchaseOrderItemsTable.medicine_id, desc(purchaseOrdersTable.order_date), desc(purchaseOrdersTable.id))
+      .execute();
+
+    const suppliers = await db.select()
+      .from(suppliersTable)
+      .where(eq(suppliersTable.is_active, true))
+      .orderBy(suppliersTable.name)
+      .execute();
+
+    const groups = new Map<number | null, ReorderSuggestionGroup>();
+
+    for (const medicine of medicines) {
+      const used = usage.find(row => row.medicine_id === medicine.id)?.quantity ?? 0;
+      const ordered = onOrder.find(row => row.medicine_id === medicine.id)?.quantity ?? 0;
+      const averageDailyUsage = used / input.lookback_days;
+      const daysOfCover = averageDailyUsage > 0 ? medicine.stock_quantity / averageDailyUsage : null;
+
+      const runningOut = medicine.stock_quantity <= medicine.minimum_stock
+        || (daysOfCover !== null && daysOfCover <= thresholdDays);
+      if (!runningOut) continue;
+
+      const targetStock = Math.ceil(averageDailyUsage * input.cover_days) + medicine.minimum_stock;
+      const suggestedQuantity = targetStock - medicine.stock_quantity - ordered;
+      if (suggestedQuantity <= 0) continue;
+
+      // The supplier last ordered from, else one whose name matches the medicine's supplier field
+      const lastOrder = lastOrders.find(row => row.medicine_id === medicine.id);
+      const supplier = suppliers.find(row => row.id === lastOrder?.supplier_id)
+        ?? suppliers.find(row => row.name.toLowerCase() === medicine.supplier?.trim().toLowerCase())
+        ?? null;
+
+      const expectedPrice = lastOrder
+        ? parseFloat(lastOrder.expected_price)
+        : medicine.average_cost !== null ? parseFloat(medicine.average_cost) : null;
+
+      const item: ReorderSuggestionItem = {
+        medicine_id: medicine.id,
+        medicine_name: medicine.name,
+        unit: medicine.unit,
+        stock_quantity: medicine.stock_quantity,
+        minimum_stock: medicine.minimum_stock,
+        on_order: ordered,
+        average_daily_usage: Math.round(averageDailyUsage * 100) / 100,
+        days_of_cover: daysOfCover !== null ? Math.round(daysOfCover * 10) / 10 : null,
+        suggested_quantity: suggestedQuantity,
+        expected_price: expectedPrice
+      };
+
+      const key = supplier?.id ?? null;
+      const group = groups.get(key) ?? { supplier_id: key, supplier_name: supplier?.name ?? null, estimated_total: 0, items: [] };
+      group.items.push(item);
+      groups.set(key, group);
+    }
+
+    // Suppliers in name order with the unmatched medicines last; the most urgent medicine first within each
+    const ordered = [
+      ...suppliers.flatMap(supplier => groups.get(supplier.id) ?? []),
+      ...(groups.get(null) ? [groups.get(null)!] : [])
+    ];
+
+    return {
+      threshold_days: thresholdDays,
+      lookback_days: input.lookback_days,
+      cover_days: input.cover_days,
+      groups: ordered.map(group => ({
+        ...group,
+        estimated_total: group.items.reduce((total, item) => total + toCents(item.expected_price ?? 0) * item.suggested_quantity, 0) / 100,
+        items: [...group.items].sort((a, b) =>
+          (a.days_of_cover ?? Infinity) - (b.days_of_cover ?? Infinity) || a.medicine_name.localeCompare(b.medicine_name))
+      }))
+    };
+  } catch (error) {
+    console.error('Reorder suggestions failed:', error);
+    throw error;
+  }
+}
@@ -8,18 +8,46 @@ import {
   medicinesTable,
   patientVisitsTable,
   stockMovementsTable,
-  settingsTable
+  settingsTable,
+  guardiansTable,
+  patientGuardiansTable,
+  paymentsTable,
+  refundsTable,
+  refundItemsTable,
+  promotionsTable,
+  servicePackagesTable,
+  transactionPackagesTable
 } from '../db/schema';
-import { type ReportInput } from '../schema';
-import { eq, and, gte, lte, sql, desc } from 'drizzle-orm';
+import {
+  receiptSchema,
+  receiptPaperWidthSchema,
+  type ReportInput,
+  type ReportFile,
+  type Receipt,
+  type ReceiptFileInput,
+  type ReceiptPaperWidth
+} from '../schema';
+import { eq, and, gte, lte, sql, desc, inArray, isNull } from 'drizzle-orm';
+import { type Letterhead, type ReportDocument, type ReportSection } from '../documents/types';
+import { renderPdf } from '../documents/pdf';
+import { renderXlsx } from '../documents/xlsx';
+import { renderEscPos, renderReceiptHtml, renderReceiptPdf } from '../documents/receipt';
+import { renderPatientCardPdf } from '../documents/patient_card';
+import { getPatientById } from './get_patients';
+import { remainingAmount } from './payments';
+import { getShiftById } from './cashier_shifts';
+import { getStockTakeById } from './stock_takes';
+import { localDateString } from './money';
+import { expiryCutoff } from './medicine_batches';
 
-export async function generateSalesReport(input: ReportInput): Promise<Buffer | string> {
+export async function getSalesReportData(input: ReportInput) {
   try {
     // Get transaction summary for date range
     const transactionSummary = await db
       .select({
         total_transactions: sql<number>`count(*)::integer`,
         total_revenue: sql<string>`coalesce(sum(${transactionsTable.total_amount}), 0)`,
+        total_discount: sql<string>`coalesce(sum(${transactionsTable.discount_amount}), 0)`,
         avg_transaction_value: sql<string>`coalesce(avg(${transactionsTable.total_amount}), 0)`
       })
       .from(transactionsTable)
@@ -58,7 +86,8 @@ export async function generateSalesReport(input: ReportInput): Promise<Buffer |
       .select({
         medicine_name: medicinesTable.name,
         total_quantity: sql<number>`sum(${transactionMedicinesTable.quantity})::integer`,
-        total_revenue: sql<string>`sum(${transactionMedicinesTable.total_price})`
+        total_revenue: sql<string>`sum(${transactionMedicinesTable.total_price})`,
+        cost_of_goods: sql<string>`coalesce(sum(${transactionMedicinesTable.unit_cost} * ${transactionMedicinesTable.quantity}), 0)`
       })
       .from(transactionMedicinesTable)
       .innerJoin(medicinesTable, eq(transactionMedicinesTable.medicine_id, medicinesTable.id))
@@ -74,22 +103,23 @@ export async function generateSalesReport(input: ReportInput): Promise<Buffer |
       .orderBy(desc(sql`sum(${transactionMedicinesTable.total_price})`))
       .execute();
 
-    // Get payment method distribution
+    // Get money received in the period per payment method; a bill settled in cash and
+    // transfer counts under both, down payments under the day they were taken
     const paymentMethods = await db
       .select({
-        payment_method: transactionsTable.payment_method,
+        payment_method: paymentsTable.payment_method,
         count: sql<number>`count(*)::integer`,
-        total_amount: sql<string>`sum(${transactionsTable.total_amount})`
+        total_amount: sql<string>`sum(${paymentsTable.amount})`
       })
-      .from(transactionsTable)
+      .from(paymentsTable)
       .where(
         and(
-          gte(transactionsTable.created_at, input.start_date),
-          lte(transactionsTable.created_at, input.end_date),
-          eq(transactionsTable.payment_status, 'paid')
+          gte(paymentsTable.created_at, input.start_date),
+          lte(paymentsTable.created_at, input.end_date)
         )
       )
-      .groupBy(transactionsTable.payment_method)
+      .groupBy(paymentsTable.payment_method)
+      .orderBy(paymentsTable.payment_method)
       .execute();
 
     // Get daily trends
@@ -111,6 +141,114 @@ export async function generateSalesReport(input: ReportInput): Promise<Buffer |
       .orderBy(sql`date(${transactionsTable.created_at})`)
       .execute();
 
+    // Get discounts given per promotion
+    const promotionDiscounts = await db
+      .select({
+        code: promotionsTable.code,
+        name: promotionsTable.name,
+        transaction_count: sql<number>`count(*)::integer`,
+        total_discount: sql<string>`sum(${transactionsTable.discount_amount})`
+      })
+      .from(transactionsTable)
+      .innerJoin(promotionsTable, eq(transactionsTable.promotion_id, promotionsTable.id))
+      .where(
+        and(
+          gte(transactionsTable.created_at, input.start_date),
+          lte(transactionsTable.created_at, input.end_date),
+          eq(transactionsTable.payment_status, 'paid')
+        )
+      )
+      .groupBy(promotionsTable.id, promotionsTable.code, promotionsTable.name)
+      .orderBy(desc(sql`sum(${transactionsTable.discount_amount})`))
+      .execute();
+
+    // Get outstanding receivables: unsettled transactions of the period and what is still owed
+    const receivables = await db
+      .select({
+        transaction_id: transactionsTable.id,
+        created_at: transactionsTable.created_at,
+        patient_name: patientsTable.name,
+        total_amount: transactionsTable.total_amount,
+        paid_amount: transactionsTable.paid_amount
+      })
+      .from(transactionsTable)
+      .innerJoin(patientsTable, eq(transactionsTable.patient_id, patientsTable.id))
+      .where(
+        and(
+          gte(transactionsTable.created_at, input.start_date),
+          lte(transactionsTable.created_at, input.end_date),
+          inArray(transactionsTable.payment_status, ['pending', 'partially_paid'])
+        )
+      )
+      .orderBy(transactionsTable.created_at, transactionsTable.id)
+      .execute();
+
+    const outstanding = receivables.map(item => {
+      const totalAmount = parseFloat(item.total_amount);
+      const paidAmount = parseFloat(item.paid_amount);
+      return {
+        transaction_id: item.transaction_id,
+        created_at: item.created_at,
+        patient_name: item.patient_name,
+        total_amount: totalAmount,
+        paid_amount: paidAmount,
+        outstanding_amount: Math.round((totalAmount - paidAmount) * 100) / 100
+      };
+    });
+
+    // Get refunds paid out in the period on paid transactions; they count against revenue as negative entries.
+    // Down payments handed back on unsettled bills were never counted as revenue.
+    const refunds = await db
+      .select({
+        refund_id: refundsTable.id,
+        transaction_id: refundsTable.transaction_id,
+        created_at: refundsTable.created_at,
+        patient_name: patientsTable.name,
+        amount: refundsTable.amount,
+        refund_method: refundsTable.refund_method,
+        reason: refundsTable.reason
+      })
+      .from(refundsTable)
+      .innerJoin(transactionsTable, eq(refundsTable.transaction_id, transactionsTable.id))
+      .innerJoin(patientsTable, eq(transactionsTable.patient_id, patientsTable.id))
+      .where(
+        and(
+          gte(refundsTable.created_at, input.start_date),
+          lte(refundsTable.created_at, input.end_date),
+          eq(transactionsTable.payment_status, 'paid')
+        )
+      )
+      .orderBy(refundsTable.created_at, refundsTable.id)
+      .execute();
+
+    // Get the cost of medicine units refunded from paid sales in the period; they go back on the shelf
+    const refundedCost = await db
+      .select({
+        total: sql<string>`coalesce(sum(${transactionMedicinesTable.unit_cost} * ${refundItemsTable.quantity}), 0)`
+      })
+      .from(refundItemsTable)
+      .innerJoin(refundsTable, eq(refundItemsTable.refund_id, refundsTable.id))
+      .innerJoin(transactionMedicinesTable, eq(refundItemsTable.transaction_item_id, transactionMedicinesTable.id))
+      .innerJoin(transactionsTable, eq(transactionMedicinesTable.transaction_id, transactionsTable.id))
+      .where(
+        and(
+          eq(refundItemsTable.item_type, 'medicine'),
+          gte(refundsTable.created_at, input.start_date),
+          lte(refundsTable.created_at, input.end_date),
+          eq(transactionsTable.payment_status, 'paid')
+        )
+      )
+      .execute();
+
+    const refundEntries = refunds.map(item => ({ ...item, amount: -parseFloat(item.amount) }));
+    const totalRevenue = parseFloat(transactionSummary[0]?.total_revenue || '0');
+    const totalRefunds = Math.round(refundEntries.reduce((sum, item) => sum + item.amount, 0) * 100) / 100;
+    const netRevenue = Math.round((totalRevenue + totalRefunds) * 100) / 100;
+    const costOfGoods = Math.round(
+      (medicineRevenue.reduce((sum, item) => sum + parseFloat(item.cost_of_goods), 0) - parseFloat(refundedCost[0]?.total || '0')) * 100
+    ) / 100;
+    const grossMargin = Math.round((netRevenue - costOfGoods) * 100) / 100;
+
     const reportData = {
       period: {
         start_date: input.start_date,
@@ -118,8 +256,15 @@ export async function generateSalesReport(input: ReportInput): Promise<Buffer |
       },
       summary: {
         total_transactions: transactionSummary[0]?.total_transactions || 0,
-        total_revenue: parseFloat(transactionSummary[0]?.total_revenue || '0'),
-        avg_transaction_value: parseFloat(transactionSummary[0]?.avg_transaction_value || '0')
+        total_revenue: totalRevenue,
+        total_discount: parseFloat(transactionSummary[0]?.total_discount || '0'),
+        total_refunds: totalRefunds,
+        net_revenue: netRevenue,
+        cost_of_goods: costOfGoods,
+        gross_margin: grossMargin,
+        gross_margin_percent: netRevenue > 0 ? Math.round(grossMargin / netRevenue * 1000) / 10 : null,
+        avg_transaction_value: parseFloat(transactionSummary[0]?.avg_transaction_value || '0'),
+        total_outstanding: Math.round(outstanding.reduce((sum, item) => sum + item.outstanding_amount, 0) * 100) / 100
       },
       service_revenue: serviceRevenue.map(item => ({
         service_name: item.service_name,
@@ -129,7 +274,9 @@ export async function generateSalesReport(input: ReportInput): Promise<Buffer |
       medicine_revenue: medicineRevenue.map(item => ({
         medicine_name: item.medicine_name,
         total_quantity: item.total_quantity,
-        total_revenue: parseFloat(item.total_revenue)
+        total_revenue: parseFloat(item.total_revenue),
+        cost_of_goods: parseFloat(item.cost_of_goods),
+        gross_margin: Math.round((parseFloat(item.total_revenue) - parseFloat(item.cost_of_goods)) * 100) / 100
       })),
       payment_methods: paymentMethods.map(item => ({
         payment_method: item.payment_method,
@@ -140,23 +287,25 @@ export async function generateSalesReport(input: ReportInput): Promise<Buffer |
         date: item.date,
         transaction_count: item.transaction_count,
         daily_revenue: parseFloat(item.daily_revenue)
-      }))
+      })),
+      discounts: promotionDiscounts.map(item => ({
+        code: item.code,
+        name: item.name,
+        transaction_count: item.transaction_count,
+        total_discount: parseFloat(item.total_discount)
+      })),
+      receivables: outstanding,
+      refunds: refundEntries
     };
 
-    // For this implementation, return JSON data as string
-    // In production, this would generate actual PDF/Excel files
-    if (input.format === 'excel') {
-      return JSON.stringify(reportData, null, 2);
-    } else {
-      return Buffer.from(JSON.stringify(reportData, null, 2));
-    }
+    return reportData;
   } catch (error) {
-    console.error('Sales report generation failed:', error);
+    console.error('Sales report data query failed:', error);
     throw error;
   }
 }
 
-export async function generateInventoryReport(input: ReportInput): Promise<Buffer | string> {
+export async function getInventoryReportData(input: ReportInput) {
   try {
     // Get current stock levels for all medicines
     const currentStock = await db
@@ -167,6 +316,7 @@ export async function generateInventoryReport(input: ReportInput): Promise<Buffe
         current_stock: medicinesTable.stock_quantity,
         minimum_stock: medicinesTable.minimum_stock,
         price_per_unit: medicinesTable.price_per_unit,
+        average_cost: medicinesTable.average_cost,
         expiry_date: medicinesTable.expiry_date,
         supplier: medicinesTable.supplier
       })
@@ -197,7 +347,8 @@ export async function generateInventoryReport(input: ReportInput): Promise<Buffe
     // Calculate stock value
     const stockValue = await db
       .select({
-        total_stock_value: sql<string>`sum(${medicinesTable.stock_quantity} * ${medicinesTable.price_per_unit})`
+        total_stock_value: sql<string>`sum(${medicinesTable.stock_quantity} * ${medicinesTable.price_per_unit})`,
+        total_stock_cost_value: sql<string>`sum(${medicinesTable.stock_quantity} * ${medicinesTable.average_cost})`
       })
       .from(medicinesTable)
       .execute();
@@ -208,9 +359,9 @@ export async function generateInventoryReport(input: ReportInput): Promise<Buffe
     );
 
     // Get expired medicines
-    const now = new Date();
+    const cutoff = expiryCutoff();
     const expiredMedicines = currentStock.filter(
-      medicine => medicine.expiry_date && new Date(medicine.expiry_date) < now
+      medicine => medicine.expiry_date !== null && medicine.expiry_date <= cutoff
     );
 
     const reportData = {
@@ -221,22 +372,33 @@ export async function generateInventoryReport(input: ReportInput): Promise<Buffe
       summary: {
         total_medicines: currentStock.length,
         total_stock_value: parseFloat(stockValue[0]?.total_stock_value || '0'),
+        total_stock_cost_value: parseFloat(stockValue[0]?.total_stock_cost_value || '0'),
         low_stock_count: lowStockMedicines.length,
         expired_count: expiredMedicines.length
       },
-      current_stock: currentStock.map(item => ({
-        id: item.id,
-        name: item.name,
-        unit: item.unit,
-        current_stock: item.current_stock,
-        minimum_stock: item.minimum_stock,
-        price_per_unit: parseFloat(item.price_per_unit),
-        expiry_date: item.expiry_date,
-        supplier: item.supplier,
-        stock_value: item.current_stock * parseFloat(item.price_per_unit),
-        is_low_stock: item.current_stock <= item.minimum_stock,
-        is_expired: item.expiry_date ? new Date(item.expiry_date) < now : false
-      })),
+      current_stock: currentStock.map(item => {
+        const price = parseFloat(item.price_per_unit);
+        const averageCost = item.average_cost !== null ? parseFloat(item.average_cost) : null;
+        // Margins stay empty until the medicine has been bought in at a known cost
+        const unitMargin = averageCost !== null ? Math.round((price - averageCost) * 100) / 100 : null;
+        return {
+          id: item.id,
+          name: item.name,
+          unit: item.unit,
+          current_stock: item.current_stock,
+          minimum_stock: item.minimum_stock,
+          price_per_unit: price,
+          average_cost: averageCost,
+          expiry_date: item.expiry_date,
+          supplier: item.supplier,
+          stock_value: item.current_stock * price,
+          stock_cost_value: averageCost !== null ? Math.round(item.current_stock * averageCost * 100) / 100 : null,
+          unit_margin: unitMargin,
+          margin_percent: unitMargin !== null && price > 0 ? Math.round(unitMargin / price * 1000) / 10 : null,
+          is_low_stock: item.current_stock <= item.minimum_stock,
+          is_expired: item.expiry_date !== null && item.expiry_date <= cutoff
+        };
+      }),
       stock_movements: stockMovements.map(item => ({
         medicine_name: item.medicine_name,
         movement_type: item.movement_type,
@@ -258,20 +420,14 @@ export async function generateInventoryReport(input: ReportInput): Promise<Buffe
       }
     };
 
-    // For this implementation, return JSON data as string
-    // In production, this would generate actual PDF/Excel files
-    if (input.format === 'excel') {
-      return JSON.stringify(reportData, null, 2);
-    } else {
-      return Buffer.from(JSON.stringify(reportData, null, 2));
-    }
+    return reportData;
   } catch (error) {
-    console.error('Inventory report generation failed:', error);
+    console.error('Inventory report data query failed:', error);
     throw error;
   }
 }
 
-export async function generatePatientReport(input: ReportInput): Promise<Buffer | string> {
+export async function getPatientReportData(input: ReportInput) {
   try {
     // Get new patient registrations in date range
     const newPatients = await db
@@ -391,47 +547,319 @@ export async function generatePatientReport(input: ReportInput): Promise<Buffer
       }
     };
 
-    // For this implementation, return JSON data as string
-    // In production, this would generate actual PDF/Excel files
-    if (input.format === 'excel') {
-      return JSON.stringify(reportData, null, 2);
-    } else {
-      return Buffer.from(JSON.stringify(reportData, null, 2));
-    }
+    return reportData;
+  } catch (error) {
+    console.error('Patient report data query failed:', error);
+    throw error;
+  }
+}
+
+const MIME_TYPES = {
+  pdf: 'application/pdf',
+  excel: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+} as const;
+
+const FILE_EXTENSIONS = { pdf: 'pdf', excel: 'xlsx' } as const;
+
+const formatDate = (value: Date | string | null) =>
+  value ? new Date(value).toLocaleDateString('id-ID') : null;
+
+// Clinic identity printed at the top of every report
+async function getLetterhead(): Promise<Letterhead> {
+  const settings = await db
+    .select()
+    .from(settingsTable)
+    .where(inArray(settingsTable.key, ['clinic_name', 'address', 'phone']))
+    .execute();
+
+  const settingsMap = Object.fromEntries(settings.map(setting => [setting.key, setting.value]));
+
+  return {
+    name: settingsMap['clinic_name'] || 'Rumah Khitan Super Modern Pak Nopi',
+    address: settingsMap['address'] || '',
+    phone: settingsMap['phone'] || ''
+  };
+}
+
+async function renderReport(
+  input: ReportInput,
+  slug: string,
+  title: string,
+  sections: ReportSection[]
+): Promise<ReportFile> {
+  const document: ReportDocument = {
+    letterhead: await getLetterhead(),
+    title,
+    subtitle: `Periode ${formatDate(input.start_date)} - ${formatDate(input.end_date)}`,
+    sections
+  };
+
+  const content = input.format === 'excel' ? renderXlsx(document) : renderPdf(document);
+
+  return {
+    filename: `laporan-${slug}-${localDateString(input.start_date)}_${localDateString(input.end_date)}.${FILE_EXTENSIONS[input.format]}`,
+    mime_type: MIME_TYPES[input.format],
+    content_base64: content.toString('base64')
+  };
+}
+
+export async function generateSalesReport(input: ReportInput): Promise<ReportFile> {
+  try {
+    const data = await getSalesReportData(input);
+
+    return await renderReport(input, 'penjualan', 'Laporan Penjualan', [
+      {
+        title: 'Ringkasan',
+        columns: [{ header: 'Keterangan' }, { header: 'Nilai', type: 'number' }],
+        rows: [
+          ['Jumlah transaksi', data.summary.total_transactions],
+          ['Total pendapatan (Rp)', data.summary.total_revenue],
+          ['Total diskon (Rp)', data.summary.total_discount],
+          ['Refund (Rp)', data.summary.total_refunds],
+          ['Pendapatan bersih (Rp)', data.summary.net_revenue],
+          ['Harga pokok obat terjual (Rp)', data.summary.cost_of_goods],
+          ['Laba kotor (Rp)', data.summary.gross_margin],
+          ['Margin kotor (%)', data.summary.gross_margin_percent],
+          ['Rata-rata per transaksi (Rp)', data.summary.avg_transaction_value],
+          ['Piutang belum dibayar (Rp)', data.summary.total_outstanding]
+        ]
+      },
+      {
+        title: 'Pendapatan per Layanan',
+        columns: [{ header: 'Layanan' }, { header: 'Jumlah', type: 'number' }, { header: 'Pendapatan', type: 'money' }],
+        rows: data.service_revenue.map(item => [item.service_name, item.total_quantity, item.total_revenue])
+      },
+      {
+        title: 'Pendapatan per Obat',
+        columns: [
+          { header: 'Obat' },
+          { header: 'Jumlah', type: 'number' },
+          { header: 'Pendapatan', type: 'money' },
+          { header: 'Harga Pokok', type: 'money' },
+          { header: 'Laba Kotor', type: 'money' }
+        ],
+        rows: data.medicine_revenue.map(item => [
+          item.medicine_name,
+          item.total_quantity,
+          item.total_revenue,
+          item.cost_of_goods,
+          item.gross_margin
+        ])
+      },
+      {
+        title: 'Metode Pembayaran',
+        columns: [{ header: 'Metode' }, { header: 'Pembayaran', type: 'number' }, { header: 'Total', type: 'money' }],
+        rows: data.payment_methods.map(item => [item.payment_method, item.count, item.total_amount])
+      },
+      {
+        title: 'Tren Harian',
+        columns: [{ header: 'Tanggal' }, { header: 'Transaksi', type: 'number' }, { header: 'Pendapatan', type: 'money' }],
+        rows: data.daily_trends.map(item => [formatDate(item.date), item.transaction_count, item.daily_revenue])
+      },
+      {
+        title: 'Diskon per Promo',
+        columns: [
+          { header: 'Kode' },
+          { header: 'Promo' },
+          { header: 'Transaksi', type: 'number' },
+          { header: 'Total Diskon', type: 'money' }
+        ],
+        rows: data.discounts.map(item => [item.code, item.name, item.transaction_count, item.total_discount])
+      },
+      {
+        title: 'Piutang',
+        columns: [
+          { header: 'No. Transaksi', type: 'number' },
+          { header: 'Tanggal' },
+          { header: 'Pasien' },
+          { header: 'Total', type: 'money' },
+          { header: 'Dibayar', type: 'money' },
+          { header: 'Sisa', type: 'money' }
+        ],
+        rows: data.receivables.map(item => [
+          item.transaction_id,
+          formatDate(item.created_at),
+          item.patient_name,
+          item.total_amount,
+          item.paid_amount,
+          item.outstanding_amount
+        ])
+      },
+      {
+        title: 'Refund',
+        columns: [
+          { header: 'No. Refund', type: 'number' },
+          { header: 'No. Transaksi', type: 'number' },
+          { header: 'Tanggal' },
+          { header: 'Pasien' },
+          { header: 'Metode' },
+          { header: 'Alasan' },
+          { header: 'Jumlah', type: 'money' }
+        ],
+        rows: data.refunds.map(item => [
+          item.refund_id,
+          item.transaction_id,
+          formatDate(item.created_at),
+          item.patient_name,
+          item.refund_method,
+          item.reason,
+          item.amount
+        ])
+      }
+    ]);
+  } catch (error) {
+    console.error('Sales report generation failed:', error);
+    throw error;
+  }
+}
+
+export async function generateInventoryReport(input: ReportInput): Promise<ReportFile> {
+  try {
+    const data = await getInventoryReportData(input);
+
+    return await renderReport(input, 'inventori', 'Laporan Inventori', [
+      {
+        title: 'Ringkasan',
+        columns: [{ header: 'Keterangan' }, { header: 'Nilai', type: 'number' }],
+        rows: [
+          ['Jumlah obat', data.summary.total_medicines],
+          ['Nilai stok (Rp)', data.summary.total_stock_value],
+          ['Nilai stok harga pokok (Rp)', data.summary.total_stock_cost_value],
+          ['Stok menipis', data.summary.low_stock_count],
+          ['Kedaluwarsa', data.summary.expired_count]
+        ]
+      },
+      {
+        title: 'Stok Saat Ini',
+        columns: [
+          { header: 'Obat' },
+          { header: 'Satuan' },
+          { header: 'Stok', type: 'number' },
+          { header: 'Minimum', type: 'number' },
+          { header: 'Harga', type: 'money' },
+          { header: 'Harga Pokok', type: 'money' },
+          { header: 'Margin (%)', type: 'number' },
+          { header: 'Nilai Stok', type: 'money' },
+          { header: 'Nilai Pokok', type: 'money' },
+          { header: 'Kedaluwarsa' },
+          { header: 'Supplier' }
+        ],
+        rows: data.current_stock.map(item => [
+          item.name,
+          item.unit,
+          item.current_stock,
+          item.minimum_stock,
+          item.price_per_unit,
+          item.average_cost,
+          item.margin_percent,
+          item.stock_value,
+          item.stock_cost_value,
+          formatDate(item.expiry_date),
+          item.supplier
+        ])
+      },
+      {
+        title: 'Pergerakan Stok',
+        columns: [{ header: 'Tanggal' }, { header: 'Obat' }, { header: 'Jenis' }, { header: 'Jumlah', type: 'number' }, { header: 'Catatan' }],
+        rows: data.stock_movements.map(item => [
+          formatDate(item.created_at),
+          item.medicine_name,
+          item.movement_type,
+          item.quantity,
+          item.notes
+        ])
+      },
+      {
+        title: 'Stok Menipis',
+        columns: [{ header: 'Obat' }, { header: 'Stok', type: 'number' }, { header: 'Minimum', type: 'number' }],
+        rows: data.alerts.low_stock_medicines.map(item => [item.name, item.current_stock, item.minimum_stock])
+      },
+      {
+        title: 'Kedaluwarsa',
+        columns: [{ header: 'Obat' }, { header: 'Tanggal Kedaluwarsa' }, { header: 'Stok', type: 'number' }],
+        rows: data.alerts.expired_medicines.map(item => [item.name, formatDate(item.expiry_date), item.current_stock])
+      }
+    ]);
+  } catch (error) {
+    console.error('Inventory report generation failed:', error);
+    throw error;
+  }
+}
+
+const AGE_GROUP_LABELS: Record<string, string> = {
+  'Under 18': 'Di bawah 18'
+};
+
+export async function generatePatientReport(input: ReportInput): Promise<ReportFile> {
+  try {
+    const data = await getPatientReportData(input);
+
+    return await renderReport(input, 'pasien', 'Laporan Pasien', [
+      {
+        title: 'Ringkasan',
+        columns: [{ header: 'Keterangan' }, { header: 'Nilai', type: 'number' }],
+        rows: [
+          ['Pasien baru', data.summary.new_patients],
+          ['Total kunjungan', data.summary.total_visits]
+        ]
+      },
+      {
+        title: 'Frekuensi Kunjungan',
+        columns: [{ header: 'Pasien' }, { header: 'Kunjungan', type: 'number' }, { header: 'Kunjungan Terakhir' }],
+        rows: data.visit_frequency.map(item => [item.patient_name, item.visit_count, formatDate(item.last_visit)])
+      },
+      {
+        title: 'Diagnosis Terbanyak',
+        columns: [{ header: 'Diagnosis' }, { header: 'Jumlah', type: 'number' }],
+        rows: data.common_diagnoses.map(item => [item.diagnosis, item.count])
+      },
+      {
+        title: 'Jenis Kelamin',
+        columns: [{ header: 'Jenis Kelamin' }, { header: 'Jumlah', type: 'number' }],
+        rows: data.demographics.gender_distribution.map(item => [item.gender, item.count])
+      },
+      {
+        title: 'Kelompok Usia',
+        columns: [{ header: 'Kelompok Usia' }, { header: 'Jumlah', type: 'number' }],
+        rows: data.demographics.age_distribution.map(item => [AGE_GROUP_LABELS[item.age_group] ?? item.age_group, item.count])
+      }
+    ]);
   } catch (error) {
     console.error('Patient report generation failed:', error);
     throw error;
   }
 }
 
-export async function generateReceiptData(transactionId: number): Promise<any> {
+export async function generateReceiptData(transactionId: number): Promise<Receipt> {
   try {
-    // Get clinic information from settings
-    const clinicSettings = await db
+    // Clinic identity as on the report letterhead, plus the receipt footer from settings
+    const clinicInfo = await getLetterhead();
+    const footerSetting = await db
       .select()
       .from(settingsTable)
-      .where(sql`${settingsTable.key} IN ('clinic_name', 'clinic_address', 'clinic_phone')`)
+      .where(eq(settingsTable.key, 'receipt_footer'))
       .execute();
 
-    const settingsMap = clinicSettings.reduce((acc, setting) => {
-      acc[setting.key] = setting.value;
-      return acc;
-    }, {} as Record<string, string>);
-
     // Get transaction details with patient information
     const transactionDetails = await db
       .select({
         transaction_id: transactionsTable.id,
         total_amount: transactionsTable.total_amount,
+        discount_amount: transactionsTable.discount_amount,
+        promo_code: promotionsTable.code,
         payment_method: transactionsTable.payment_method,
         payment_status: transactionsTable.payment_status,
+        paid_amount: transactionsTable.paid_amount,
         notes: transactionsTable.notes,
         created_at: transactionsTable.created_at,
+        patient_id: patientsTable.id,
+        patient_medical_record_number: patientsTable.medical_record_number,
         patient_name: patientsTable.name,
         patient_phone: patientsTable.phone
       })
       .from(transactionsTable)
       .innerJoin(patientsTable, eq(transactionsTable.patient_id, patientsTable.id))
+      .leftJoin(promotionsTable, eq(transactionsTable.promotion_id, promotionsTable.id))
       .where(eq(transactionsTable.id, transactionId))
       .execute();
 
@@ -441,17 +869,35 @@ export async function generateReceiptData(transactionId: number): Promise<any> {
 
     const transaction = transactionDetails[0];
 
+    // The guardian who signs for the child: the primary one, else the first linked
+    const guardians = await db
+      .select({
+        name: guardiansTable.name,
+        relationship: guardiansTable.relationship,
+        phone: guardiansTable.phone
+      })
+      .from(patientGuardiansTable)
+      .innerJoin(guardiansTable, eq(patientGuardiansTable.guardian_id, guardiansTable.id))
+      .where(eq(patientGuardiansTable.patient_id, transaction.patient_id))
+      .orderBy(desc(patientGuardiansTable.is_primary), patientGuardiansTable.id)
+      .limit(1)
+      .execute();
+
     // Get service items
     const serviceItems = await db
       .select({
         name: servicesTable.name,
         quantity: transactionServicesTable.quantity,
         price_per_unit: transactionServicesTable.price_per_unit,
+        discount_amount: transactionServicesTable.discount_amount,
         total_price: transactionServicesTable.total_price
       })
       .from(transactionServicesTable)
       .innerJoin(servicesTable, eq(transactionServicesTable.service_id, servicesTable.id))
-      .where(eq(transactionServicesTable.transaction_id, transactionId))
+      .where(and(
+        eq(transactionServicesTable.transaction_id, transactionId),
+        isNull(transactionServicesTable.transaction_package_id)
+      ))
       .execute();
 
     // Get medicine items
@@ -461,21 +907,64 @@ export async function generateReceiptData(transactionId: number): Promise<any> {
         unit: medicinesTable.unit,
         quantity: transactionMedicinesTable.quantity,
         price_per_unit: transactionMedicinesTable.price_per_unit,
+        discount_amount: transactionMedicinesTable.discount_amount,
         total_price: transactionMedicinesTable.total_price
       })
       .from(transactionMedicinesTable)
       .innerJoin(medicinesTable, eq(transactionMedicinesTable.medicine_id, medicinesTable.id))
-      .where(eq(transactionMedicinesTable.transaction_id, transactionId))
+      .where(and(
+        eq(transactionMedicinesTable.transaction_id, transactionId),
+        isNull(transactionMedicinesTable.transaction_package_id)
+      ))
+      .execute();
+
+    // Packages print as one line at the bundle price; their contents are not itemized
+    const packageItems = await db
+      .select({
+        name: servicePackagesTable.name,
+        quantity: transactionPackagesTable.quantity,
+        price_per_unit: transactionPackagesTable.price_per_unit,
+        total_price: transactionPackagesTable.total_price
+      })
+      .from(transactionPackagesTable)
+      .innerJoin(servicePackagesTable, eq(transactionPackagesTable.package_id, servicePackagesTable.id))
+      .where(eq(transactionPackagesTable.transaction_id, transactionId))
+      .orderBy(transactionPackagesTable.id)
+      .execute();
+
+    // Get payments received so far
+    const payments = await db
+      .select({
+        amount: paymentsTable.amount,
+        payment_method: paymentsTable.payment_method,
+        created_at: paymentsTable.created_at
+      })
+      .from(paymentsTable)
+      .where(eq(paymentsTable.transaction_id, transactionId))
+      .orderBy(paymentsTable.created_at, paymentsTable.id)
       .execute();
 
     // Format items for receipt
     const items = [
+      ...packageItems.map(item => {
+        const grossCents = Math.round(parseFloat(item.price_per_unit) * 100) * item.quantity;
+        return {
+          type: 'package',
+          name: item.name,
+          quantity: item.quantity,
+          unit: 'paket',
+          price_per_unit: parseFloat(item.price_per_unit),
+          discount_amount: (grossCents - Math.round(parseFloat(item.total_price) * 100)) / 100,
+          total_price: parseFloat(item.total_price)
+        };
+      }),
       ...serviceItems.map(item => ({
         type: 'service',
         name: item.name,
         quantity: item.quantity,
         unit: 'layanan',
         price_per_unit: parseFloat(item.price_per_unit),
+        discount_amount: parseFloat(item.discount_amount),
         total_price: parseFloat(item.total_price)
       })),
       ...medicineItems.map(item => ({
@@ -484,33 +973,284 @@ export async function generateReceiptData(transactionId: number): Promise<any> {
         quantity: item.quantity,
         unit: item.unit,
         price_per_unit: parseFloat(item.price_per_unit),
+        discount_amount: parseFloat(item.discount_amount),
         total_price: parseFloat(item.total_price)
       }))
     ];
 
-    return {
-      clinic_info: {
-        name: settingsMap['clinic_name'] || 'Rumah Khitan Super Modern Pak Nopi',
-        address: settingsMap['clinic_address'] || '',
-        phone: settingsMap['clinic_phone'] || ''
-      },
+    return receiptSchema.parse({
+      clinic_info: clinicInfo,
       transaction: {
         id: transaction.transaction_id,
         total_amount: parseFloat(transaction.total_amount),
         payment_method: transaction.payment_method,
         payment_status: transaction.payment_status,
+        paid_amount: parseFloat(transaction.paid_amount),
+        remaining_amount: remainingAmount(transaction),
+        discount_amount: parseFloat(transaction.discount_amount),
+        promo_code: transaction.promo_code,
         notes: transaction.notes,
         created_at: transaction.created_at
       },
       patient: {
+        medical_record_number: transaction.patient_medical_record_number,
         name: transaction.patient_name,
         phone: transaction.patient_phone
       },
+      guardian: guardians[0] ?? null,
       items,
-      footer_message: 'Terima kasih atas kepercayaan Anda!'
-    };
+      payments: payments.map(payment => ({ ...payment, amount: parseFloat(payment.amount) })),
+      footer_message: footerSetting[0]?.value || 'Terima kasih atas kepercayaan Anda!'
+    });
   } catch (error) {
     console.error('Receipt data generation failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+const RECEIPT_FILE_TYPES: Record<ReceiptFileInput['format'], { extension: string; mime_type: string }> = {
+  escpos: { extension: 'bin', mime_type: 'application/octet-stream' },
+  html: { extension: 'html', mime_type: 'text/html' },
+  pdf: { extension: 'pdf', mime_type: 'application/pdf' }
+};
+
+// Paper roll width from settings; 80 mm unless set to 58
+async function getReceiptPaperWidth(): Promise<ReceiptPaperWidth> {
+  const setting = await db
+    .select()
+    .from(settingsTable)
+    .where(eq(settingsTable.key, 'receipt_paper_width'))
+    .execute();
+
+  const parsed = receiptPaperWidthSchema.safeParse(setting[0]?.value);
+  return parsed.success ? parsed.data : '80';
+}
+
+// A transaction's receipt as ESC/POS bytes for a thermal printer, or as HTML/PDF to print from the browser
+export async function generateReceiptFile(input: ReceiptFileInput): Promise<ReportFile> {
+  try {
+    const receipt = await generateReceiptData(input.transaction_id);
+    const paperWidth = input.paper_width ?? await getReceiptPaperWidth();
+
+    const content = input.format === 'escpos'
+      ? renderEscPos(receipt, paperWidth)
+      : input.format === 'html'
+        ? Buffer.from(renderReceiptHtml(receipt, paperWidth), 'utf8')
+        : renderReceiptPdf(receipt, paperWidth);
+
+    const fileType = RECEIPT_FILE_TYPES[input.format];
+    return {
+      filename: `struk-${receipt.transaction.id}-${paperWidth}mm.${fileType.extension}`,
+      mime_type: fileType.mime_type,
+      content_base64: content.toString('base64')
+    };
+  } catch (error) {
+    console.error('Receipt file generation failed:', error);
+    throw error;
+  }
+}
+
+// Kartu Pasien: the medical record number to bring to every visit, as a card-sized PDF
+export async function generatePatientCard(patientId: number): Promise<ReportFile> {
+  try {
+    const patient = await getPatientById(patientId);
+    if (!patient) {
+      throw new Error(`Patient with ID ${patientId} not found`);
+    }
+    if (!patient.medical_record_number) {
+      throw new Error('Pasien belum memiliki No. RM; isi No. RM pasien lama terlebih dahulu');
+    }
+
+    return {
+      filename: `kartu-pasien-${patient.medical_record_number}.pdf`,
+      mime_type: 'application/pdf',
+      content_base64: renderPatientCardPdf(patient, await getLetterhead()).toString('base64')
+    };
+  } catch (error) {
+    console.error('Patient card generation failed:', error);
+    throw error;
+  }
+}
+
+// Laporan Tutup Kasir: what a shift took in and paid back, and the counted drawer against what it should hold
+export async function generateShiftReport(shiftId: number): Promise<ReportFile> {
+  try {
+    const shift = await getShiftById(shiftId);
+
+    const transactions = await db.select({
+      id: transactionsTable.id,
+      created_at: transactionsTable.created_at,
+      patient_name: patientsTable.name,
+      total_amount: transactionsTable.total_amount,
+      payment_status: transactionsTable.payment_status
+    })
+      .from(transactionsTable)
+      .innerJoin(patientsTable, eq(transactionsTable.patient_id, patientsTable.id))
+      .where(eq(transactionsTable.shift_id, shiftId))
+      .orderBy(transactionsTable.created_at, transactionsTable.id)
+      .execute();
+
+    const payments = await db.select()
+      .from(paymentsTable)
+      .where(eq(paymentsTable.shift_id, shiftId))
+      .orderBy(paymentsTable.created_at, paymentsTable.id)
+      .execute();
+
+    const refunds = await db.select()
+      .from(refundsTable)
+      .where(eq(refundsTable.shift_id, shiftId))
+      .orderBy(refundsTable.created_at, refundsTable.id)
+      .execute();
+
+    const document: ReportDocument = {
+      letterhead: await getLetterhead(),
+      title: 'Laporan Tutup Kasir',
+      subtitle: `Shift #${shift.id} - ${shift.opened_at.toLocaleString('id-ID')} s/d ${shift.closed_at ? shift.closed_at.toLocaleString('id-ID') : 'masih terbuka'}`,
+      sections: [
+        {
+          title: 'Ringkasan',
+          columns: [{ header: 'Keterangan' }, { header: 'Nilai' }],
+          rows: [
+            ['Dibuka oleh', shift.opened_by_name],
+            ['Ditutup oleh', shift.closed_by_name],
+            ['Modal awal (Rp)', shift.opening_float.toLocaleString('id-ID')],
+            ['Jumlah transaksi', shift.transaction_count.toString()],
+            ['Jumlah refund', shift.refund_count.toString()],
+            ['Catatan', shift.closing_notes]
+          ]
+        },
+        {
+          title: 'Rekonsiliasi per Metode Pembayaran',
+          columns: [
+            { header: 'Metode' },
+            { header: 'Seharusnya', type: 'money' },
+            { header: 'Dihitung', type: 'money' },
+            { header: 'Selisih', type: 'money' }
+          ],
+          rows: shift.reconciliation.map(item => [item.payment_method, item.expected_amount, item.counted_amount, item.difference])
+        },
+        {
+          title: 'Hitungan Uang Tunai',
+          columns: [{ header: 'Pecahan', type: 'money' }, { header: 'Jumlah', type: 'number' }, { header: 'Nilai', type: 'money' }],
+          rows: shift.cash_counts.map(item => [item.denomination, item.quantity, item.denomination * item.quantity])
+        },
+        {
+          title: 'Transaksi',
+          columns: [
+            { header: 'No. Transaksi', type: 'number' },
+            { header: 'Waktu', type: 'datetime' },
+            { header: 'Pasien' },
+            { header: 'Status' },
+            { header: 'Total', type: 'money' }
+          ],
+          rows: transactions.map(item => [item.id, item.created_at, item.patient_name, item.payment_status, parseFloat(item.total_amount)])
+        },
+        {
+          title: 'Penerimaan',
+          columns: [
+            { header: 'No. Transaksi', type: 'number' },
+            { header: 'Waktu', type: 'datetime' },
+            { header: 'Metode' },
+            { header: 'Jumlah', type: 'money' }
+          ],
+          rows: payments.map(item => [item.transaction_id, item.created_at, item.payment_method, parseFloat(item.amount)])
+        },
+        {
+          title: 'Refund',
+          columns: [
+            { header: 'No. Refund', type: 'number' },
+            { header: 'No. Transaksi', type: 'number' },
+            { header: 'Metode' },
+            { header: 'Alasan' },
+            { header: 'Jumlah', type: 'money' }
+          ],
+          rows: refunds.map(item => [item.id, item.transaction_id, item.refund_method, item.reason, parseFloat(item.amount)])
+        }
+      ]
+    };
+
+    return {
+      filename: `tutup-kasir-${shift.id}-${localDateString(shift.opened_at)}.pdf`,
+      mime_type: MIME_TYPES.pdf,
+      content_base64: renderPdf(document).toString('base64')
+    };
+  } catch (error) {
+    console.error('Shift report generation failed:', error);
+    throw error;
+  }
+}
+
+// Laporan Selisih Stock Opname: counted against frozen stock per medicine, with the value of each variance
+export async function generateStockTakeReport(stockTakeId: number): Promise<ReportFile> {
+  try {
+    const stockTake = await getStockTakeById(stockTakeId);
+    const variances = stockTake.items.filter(item => item.variance !== null && item.variance !== 0);
+
+    const document: ReportDocument = {
+      letterhead: await getLetterhead(),
+      title: 'Laporan Selisih Stock Opname',
+      subtitle: `Stock Opname #${stockTake.id} - ${stockTake.started_at.toLocaleString('id-ID')}`,
+      sections: [
+        {
+          title: 'Ringkasan',
+          columns: [{ header: 'Keterangan' }, { header: 'Nilai' }],
+          rows: [
+            ['Status', stockTake.status],
+            ['Dimulai oleh', stockTake.started_by_name],
+            ['Disetujui oleh', stockTake.approved_by_name],
+            ['Obat dihitung', `${stockTake.counted_items} dari ${stockTake.total_items}`],
+            ['Obat dengan selisih', stockTake.items_with_variance.toString()],
+            ['Nilai kekurangan (Rp)', stockTake.shortage_value.toLocaleString('id-ID')],
+            ['Nilai kelebihan (Rp)', stockTake.surplus_value.toLocaleString('id-ID')],
+            ['Catatan', stockTake.notes]
+          ]
+        },
+        {
+          title: 'Selisih per Obat',
+          columns: [
+            { header: 'Obat' },
+            { header: 'Lokasi' },
+            { header: 'Sistem', type: 'number' },
+            { header: 'Fisik', type: 'number' },
+            { header: 'Selisih', type: 'number' },
+            { header: 'Nilai Selisih', type: 'money' }
+          ],
+          rows: variances.map(item => [
+            item.medicine_name,
+            item.location,
+            item.expected_quantity,
+            item.counted_quantity,
+            item.variance,
+            item.variance_value
+          ])
+        },
+        {
+          title: 'Hasil Hitung',
+          columns: [
+            { header: 'Obat' },
+            { header: 'Satuan' },
+            { header: 'Lokasi' },
+            { header: 'Sistem', type: 'number' },
+            { header: 'Fisik', type: 'number' }
+          ],
+          rows: stockTake.items.map(item => [
+            item.medicine_name,
+            item.unit,
+            item.location,
+            item.expected_quantity,
+            item.counted_quantity
+          ])
+        }
+      ]
+    };
+
+    return {
+      filename: `stock-opname-${stockTake.id}-${localDateString(stockTake.started_at)}.pdf`,
+      mime_type: MIME_TYPES.pdf,
+      content_base64: renderPdf(document).toString('base64')
+    };
+  } catch (error) {
+    console.error('Stock take report generation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,254 @@
+import { db } from '../db';
+import { medicinesTable, servicePackageItemsTable, servicePackagesTable, servicesTable } from '../db/schema';
+import {
+  type CreateServicePackageInput,
+  type PackageItemType,
+  type ServicePackage,
+  type ServicePackageItem,
+  type UpdateServicePackageInput
+} from '../schema';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { spreadCents } from './payments';
+import { toCents, type Tx } from './money';
+
+type ServicePackageRow = typeof servicePackagesTable.$inferSelect;
+
+// A package component as sold: the quantity for all packages bought and its share of the bundle price
+export interface PackageLine {
+  item_type: PackageItemType;
+  item_id: number;
+  name: string;
+  quantity: number;
+  gross: number;
+}
+
+async function getPackageItems(
+  tx: Tx | typeof db,
+  packageIds: number[]
+): Promise<(ServicePackageItem & { package_id: number })[]> {
+  if (packageIds.length === 0) {
+    return [];
+  }
+
+  const services = await tx.select({
+    id: servicePackageItemsTable.id,
+    package_id: servicePackageItemsTable.package_id,
+    item_id: servicePackageItemsTable.item_id,
+    quantity: servicePackageItemsTable.quantity,
+    name: servicesTable.name,
+    price: servicesTable.price,
+    available: sql<boolean>`${servicesTable.is_active} and ${servicesTable.archived_at} is null`
+  })
+    .from(servicePackageItemsTable)
+    .innerJoin(servicesTable, eq(servicePackageItemsTable.item_id, servicesTable.id))
+    .where(and(
+      inArray(servicePackageItemsTable.package_id, packageIds),
+      eq(servicePackageItemsTable.item_type, 'service')
+    ))
+    .execute();
+
+  const medicines = await tx.select({
+    id: servicePackageItemsTable.id,
+    package_id: servicePackageItemsTable.package_id,
+    item_id: servicePackageItemsTable.item_id,
+    quantity: servicePackageItemsTable.quantity,
+    name: medicinesTable.name,
+    price: medicinesTable.price_per_unit,
+    available: sql<boolean>`${medicinesTable.archived_at} is null`
+  })
+    .from(servicePackageItemsTable)
+    .innerJoin(medicinesTable, eq(servicePackageItemsTable.item_id, medicinesTable.id))
+    .where(and(
+      inArray(servicePackageItemsTable.package_id, packageIds),
+      eq(servicePackageItemsTable.item_type, 'medicine')
+    ))
+    .execute();
+
+  // Services first, then medicines, each in the order they were added to the package
+  return [
+    ...services.map(item => ({ ...item, item_type: 'service' as const })),
+    ...medicines.map(item => ({ ...item, item_type: 'medicine' as const }))
+  ]
+    .sort((a, b) => a.item_type === b.item_type ? a.id - b.id : a.item_type === 'service' ? -1 : 1)
+    .map(item => ({
+      package_id: item.package_id,
+      item_type: item.item_type,
+      item_id: item.item_id,
+      name: item.name,
+      quantity: item.quantity,
+      price: parseFloat(item.price),
+      available: item.available
+    }));
+}
+
+async function toServicePackages(tx: Tx | typeof db, packages: ServicePackageRow[]): Promise<ServicePackage[]> {
+  const items = await getPackageItems(tx, packages.map(servicePackage => servicePackage.id));
+  return packages.map(servicePackage => ({
+    ...servicePackage,
+    price: parseFloat(servicePackage.price),
+    items: items
+      .filter(item => item.package_id === servicePackage.id)
+      .map(({ package_id: _packageId, ...item }) => item)
+  }));
+}
+
+async function assertItemsExist(tx: Tx, items: CreateServicePackageInput['items']): Promise<void> {
+  for (const item of items) {
+    const table = item.item_type === 'service' ? servicesTable : medicinesTable;
+    const rows = await tx.select({ id: table.id })
+      .from(table)
+      .where(eq(table.id, item.item_id))
+      .execute();
+
+    if (rows.length === 0) {
+      throw new Error(`${item.item_type === 'service' ? 'Service' : 'Medicine'} with ID ${item.item_id} not found`);
+    }
+  }
+}
+
+async function replaceItems(tx: Tx, packageId: number, items: CreateServicePackageInput['items']): Promise<void> {
+  await tx.delete(servicePackageItemsTable)
+    .where(eq(servicePackageItemsTable.package_id, packageId))
+    .execute();
+
+  await tx.insert(servicePackageItemsTable)
+    .values(items.map(item => ({ package_id: packageId, ...item })))
+    .execute();
+}
+
+export async function createServicePackage(input: CreateServicePackageInput): Promise<ServicePackage> {
+  try {
+    return await db.transaction(async (tx) => {
+      await assertItemsExist(tx, input.items);
+
+      const result = await tx.insert(servicePackagesTable)
+        .values({
+          name: input.name,
+          description: input.description,
+          price: input.price.toString(),
+          is_active: input.is_active
+        })
+        .returning()
+        .execute();
+
+      await replaceItems(tx, result[0].id, input.items);
+      return (await toServicePackages(tx, result))[0];
+    });
+  } catch (error) {
+    console.error('Service package creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateServicePackage(input: UpdateServicePackageInput): Promise<ServicePackage> {
+  try {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(servicePackagesTable)
+        .where(eq(servicePackagesTable.id, input.id))
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error(`Service package with ID ${input.id} not found`);
+      }
+
+      if (input.items) {
+        await assertItemsExist(tx, input.items);
+        await replaceItems(tx, input.id, input.items);
+      }
+
+      const result = await tx.update(servicePackagesTable)
+        .set({
+          ...(input.name !== undefined ? { name: input.name } : {}),
+          ...(input.description !== undefined ? { description: input.description } : {}),
+          ...(input.price !== undefined ? { price: input.price.toString() } : {}),
+          ...(input.is_active !== undefined ? { is_active: input.is_active } : {}),
+          updated_at: new Date()
+        })
+        .where(eq(servicePackagesTable.id, input.id))
+        .returning()
+        .execute();
+
+      return (await toServicePackages(tx, result))[0];
+    });
+  } catch (error) {
+    console.error('Service package update failed:', error);
+    throw error;
+  }
+}
+
+export async function getServicePackages(activeOnly: boolean = false): Promise<ServicePackage[]> {
+  try {
+    const packages = activeOnly
+      ? await db.select()
+          .from(servicePackagesTable)
+          .where(eq(servicePackagesTable.is_active, true))
+          .orderBy(servicePackagesTable.name)
+          .execute()
+      : await db.select()
+          .from(servicePackagesTable)
+          .orderBy(servicePackagesTable.name)
+          .execute();
+
+    const servicePackages = await toServicePackages(db, packages);
+
+    // A package that can no longer be sold in full is not offered at the cashier
+    return activeOnly
+      ? servicePackages.filter(servicePackage => servicePackage.items.every(item => item.available))
+      : servicePackages;
+  } catch (error) {
+    console.error('Get service packages failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * The services and medicines a sold package expands into. The bundle price is
+ * shared over the components by their list value, so each line carries its
+ * part of the package revenue and can be refunded on its own.
+ */
+export async function expandPackage(
+  tx: Tx | typeof db,
+  packageId: number,
+  quantity: number
+): Promise<{ servicePackage: ServicePackageRow; lines: PackageLine[] }> {
+  const packages = await tx.select()
+    .from(servicePackagesTable)
+    .where(eq(servicePackagesTable.id, packageId))
+    .execute();
+
+  if (packages.length === 0) {
+    throw new Error(`Service package with ID ${packageId} not found`);
+  }
+
+  const servicePackage = packages[0];
+  if (!servicePackage.is_active) {
+    throw new Error(`${servicePackage.name} tidak aktif`);
+  }
+
+  const items = await getPackageItems(tx, [packageId]);
+  if (items.length === 0) {
+    throw new Error(`${servicePackage.name} tidak berisi layanan atau obat`);
+  }
+
+  const unavailable = items.find(item => !item.available);
+  if (unavailable) {
+    throw new Error(`${servicePackage.name} berisi ${unavailable.name} yang sudah tidak aktif atau diarsipkan`);
+  }
+
+  const shares = spreadCents(
+    toCents(parseFloat(servicePackage.price)) * quantity,
+    items.map(item => toCents(item.price) * item.quantity)
+  );
+
+  return {
+    servicePackage,
+    lines: items.map((item, index) => ({
+      item_type: item.item_type,
+      item_id: item.item_id,
+      name: item.name,
+      quantity: item.quantity * quantity,
+      gross: shares[index] / 100
+    }))
+  };
+}
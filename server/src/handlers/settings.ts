@@ -2,6 +2,8 @@ import { db } from '../db';
 import { settingsTable } from '../db/schema';
 import { type UpdateSettingsInput, type Settings } from '../schema';
 import { eq } from 'drizzle-orm';
+import { DEFAULT_MEDICAL_RECORD_FORMAT, validateMedicalRecordFormat } from './medical_record_numbers';
+import { validateScheduleSetting } from './appointments';
 
 export async function getSettings(): Promise<Settings[]> {
   try {
@@ -43,6 +45,11 @@ export async function getSettingByKey(key: string): Promise<Settings | null> {
 
 export async function updateSetting(input: UpdateSettingsInput): Promise<Settings> {
   try {
+    if (input.key === 'medical_record_format') {
+      validateMedicalRecordFormat(input.value);
+    }
+    await validateScheduleSetting(input.key, input.value);
+
     // Check if setting already exists
     const existing = await getSettingByKey(input.key);
     
@@ -89,30 +96,29 @@ export async function updateSetting(input: UpdateSettingsInput): Promise<Setting
 
 export async function initializeDefaultSettings(): Promise<void> {
   try {
-    // Check if any settings exist
-    const existingSettings = await getSettings();
-    
-    if (existingSettings.length > 0) {
-      // Settings already exist, don't initialize
-      return;
-    }
-
     const defaultSettings = [
       { key: 'clinic_name', value: 'Rumah Khitan Super Modern Pak Nopi', description: 'Nama klinik' },
       { key: 'address', value: '', description: 'Alamat klinik' },
       { key: 'phone', value: '', description: 'Nomor telepon klinik' },
       { key: 'logo_url', value: '', description: 'URL logo klinik' },
       { key: 'receipt_footer', value: 'Terima kasih atas kepercayaan Anda', description: 'Footer struk pembayaran' },
+      { key: 'receipt_paper_width', value: '80', description: 'Lebar kertas printer struk (58 atau 80 mm)' },
       { key: 'low_stock_threshold_days', value: '7', description: 'Peringatan stok menipis (hari)' },
-      { key: 'expiry_warning_days', value: '30', description: 'Peringatan obat kedaluwarsa (hari)' }
+      { key: 'expiry_warning_days', value: '30', description: 'Peringatan obat kedaluwarsa (hari)' },
+      { key: 'opening_time', value: '08:00', description: 'Jam buka klinik (HH:MM)' },
+      { key: 'closing_time', value: '17:00', description: 'Jam tutup klinik (HH:MM)' },
+      { key: 'appointment_slot_minutes', value: '30', description: 'Durasi satu slot janji temu (menit)' },
+      { key: 'medical_record_format', value: DEFAULT_MEDICAL_RECORD_FORMAT, description: 'Format No. Rekam Medis ({YYYY}, {YY}, {MM}, {seq:5})' }
     ];
 
-    // Insert all default settings
+    // Add only the keys an installation is missing, so settings introduced later reach it too
+    // without overwriting what the clinic has already configured
     await db.insert(settingsTable)
       .values(defaultSettings.map(setting => ({
         ...setting,
         updated_at: new Date()
       })))
+      .onConflictDoNothing({ target: settingsTable.key })
       .execute();
   } catch (error) {
     console.error('Initialize default settings failed:', error);
@@ -1,7 +1,22 @@
 import { db } from '../db';
 import { stockMovementsTable, medicinesTable } from '../db/schema';
-import { type CreateStockMovementInput, type StockMovement } from '../schema';
-import { eq, desc, sql } from 'drizzle-orm';
+import {
+  type CreateStockMovementInput,
+  type Paginated,
+  type StockMovement,
+  type StockMovementExportInput,
+  type StockMovementSearchInput,
+  type ReportFile
+} from '../schema';
+import { csvFile } from '../documents/csv';
+import { consumeBatches, receiveBatch } from './medicine_batches';
+import { pageQuery, toPage } from './pagination';
+import { and, count, eq, desc } from 'drizzle-orm';
+
+const toStockMovement = (movement: typeof stockMovementsTable.$inferSelect): StockMovement => ({
+  ...movement,
+  unit_cost: movement.unit_cost !== null ? parseFloat(movement.unit_cost) : null
+});
 
 export async function createStockMovement(input: CreateStockMovementInput): Promise<StockMovement> {
   try {
@@ -19,28 +34,11 @@ export async function createStockMovement(input: CreateStockMovementInput): Prom
 
       const currentMedicine = medicine[0];
 
-      // Calculate new stock quantity
-      let newStockQuantity: number;
-      if (input.movement_type === 'masuk') {
-        newStockQuantity = currentMedicine.stock_quantity + input.quantity;
-      } else { // 'keluar'
-        newStockQuantity = currentMedicine.stock_quantity - input.quantity;
-        
-        // Check if there's enough stock for outgoing movement
-        if (newStockQuantity < 0) {
-          throw new Error('Insufficient stock for this operation');
-        }
+      // Check if there's enough stock for outgoing movement
+      if (input.movement_type === 'keluar' && currentMedicine.stock_quantity < input.quantity) {
+        throw new Error('Insufficient stock for this operation');
       }
 
-      // Update medicine stock quantity
-      await tx.update(medicinesTable)
-        .set({ 
-          stock_quantity: newStockQuantity,
-          updated_at: new Date()
-        })
-        .where(eq(medicinesTable.id, input.medicine_id))
-        .execute();
-
       // Create stock movement record
       const stockMovementResult = await tx.insert(stockMovementsTable)
         .values({
@@ -48,41 +46,100 @@ export async function createStockMovement(input: CreateStockMovementInput): Prom
           movement_type: input.movement_type,
           quantity: input.quantity,
           reference_id: input.reference_id,
+          reference_type: input.reference_id !== null ? 'transaction' : null,
+          unit_cost: input.movement_type === 'masuk' && input.purchase_price != null ? input.purchase_price.toString() : null,
           notes: input.notes
         })
         .returning()
         .execute();
 
+      // Move the units in or out of the batches; the medicine's stock follows
+      if (input.movement_type === 'masuk') {
+        await receiveBatch(tx, currentMedicine, input.quantity, stockMovementResult[0].id, {
+          lot_number: input.lot_number,
+          expiry_date: input.expiry_date,
+          purchase_price: input.purchase_price
+        });
+      } else {
+        await consumeBatches(tx, currentMedicine, input.quantity, stockMovementResult[0].id);
+      }
+
       return stockMovementResult[0];
     });
 
-    return result;
+    return toStockMovement(result);
   } catch (error) {
     console.error('Stock movement creation failed:', error);
     throw error;
   }
 }
 
-export async function getStockMovements(medicineId?: number): Promise<StockMovement[]> {
+export async function getStockMovements(input?: StockMovementSearchInput): Promise<Paginated<StockMovement>> {
   try {
-    // Build the complete query at once to avoid type issues
-    const query = medicineId !== undefined
-      ? db.select()
-          .from(stockMovementsTable)
-          .where(eq(stockMovementsTable.medicine_id, medicineId))
-          .orderBy(desc(stockMovementsTable.created_at))
-      : db.select()
-          .from(stockMovementsTable)
-          .orderBy(desc(stockMovementsTable.created_at));
-
-    const results = await query.execute();
-    return results;
+    const where = input?.medicine_id !== undefined ? eq(stockMovementsTable.medicine_id, input.medicine_id) : undefined;
+    const page = pageQuery(input, { column: stockMovementsTable.created_at, id: stockMovementsTable.id, direction: 'desc' }, 50);
+
+    const results = await db.select()
+      .from(stockMovementsTable)
+      .where(and(where, page.after))
+      .orderBy(...page.orderBy)
+      .limit(page.limit)
+      .offset(page.offset)
+      .execute();
+
+    const total = await db.select({ count: count() })
+      .from(stockMovementsTable)
+      .where(where)
+      .execute();
+
+    return await toPage(results.map(toStockMovement), total[0].count, page);
   } catch (error) {
     console.error('Failed to fetch stock movements:', error);
     throw error;
   }
 }
 
+// Stock movements as CSV with the medicine name, optionally for one medicine
+export async function exportStockMovementsCsv(input: StockMovementExportInput): Promise<ReportFile> {
+  try {
+    const results = await db.select({
+      created_at: stockMovementsTable.created_at,
+      medicine_name: medicinesTable.name,
+      unit: medicinesTable.unit,
+      movement_type: stockMovementsTable.movement_type,
+      quantity: stockMovementsTable.quantity,
+      reference_id: stockMovementsTable.reference_id,
+      notes: stockMovementsTable.notes
+    })
+      .from(stockMovementsTable)
+      .innerJoin(medicinesTable, eq(stockMovementsTable.medicine_id, medicinesTable.id))
+      .where(input.medicine_id !== undefined ? eq(stockMovementsTable.medicine_id, input.medicine_id) : undefined)
+      .orderBy(desc(stockMovementsTable.created_at), desc(stockMovementsTable.id))
+      .execute();
+
+    return csvFile('pergerakan-stok', [
+      { header: 'Tanggal', type: 'datetime' },
+      { header: 'Obat' },
+      { header: 'Satuan' },
+      { header: 'Jenis' },
+      { header: 'Jumlah', type: 'number' },
+      { header: 'Referensi', type: 'number' },
+      { header: 'Catatan' }
+    ], results.map(movement => [
+      movement.created_at,
+      movement.medicine_name,
+      movement.unit,
+      movement.movement_type,
+      movement.quantity,
+      movement.reference_id,
+      movement.notes
+    ]), input.indonesian_format);
+  } catch (error) {
+    console.error('Failed to export stock movements:', error);
+    throw error;
+  }
+}
+
 export async function adjustStock(medicineId: number, newQuantity: number, notes?: string): Promise<void> {
   try {
     // Start a transaction to ensure data consistency
@@ -114,17 +171,8 @@ export async function adjustStock(medicineId: number, newQuantity: number, notes
         const movementType = difference > 0 ? 'masuk' : 'keluar';
         const quantity = Math.abs(difference);
 
-        // Update medicine stock quantity
-        await tx.update(medicinesTable)
-          .set({ 
-            stock_quantity: newQuantity,
-            updated_at: new Date()
-          })
-          .where(eq(medicinesTable.id, medicineId))
-          .execute();
-
         // Create stock movement record for the adjustment
-        await tx.insert(stockMovementsTable)
+        const movement = await tx.insert(stockMovementsTable)
           .values({
             medicine_id: medicineId,
             movement_type: movementType,
@@ -132,7 +180,15 @@ export async function adjustStock(medicineId: number, newQuantity: number, notes
             reference_id: null, // No reference for manual adjustments
             notes: notes || `Stock adjustment: ${currentStock} → ${newQuantity}`
           })
+          .returning()
           .execute();
+
+        // Shortfalls come out of the first-expiring batches, surpluses go to the latest one
+        if (movementType === 'masuk') {
+          await receiveBatch(tx, currentMedicine, quantity, movement[0].id);
+        } else {
+          await consumeBatches(tx, currentMedicine, quantity, movement[0].id);
+        }
       }
     });
   } catch (error) {
@@ -0,0 +1,322 @@
+import { db } from '../db';
+import { medicineBatchesTable, medicinesTable, stockMovementsTable, stockTakeItemsTable, stockTakesTable, usersTable } from '../db/schema';
+import {
+  type SaveStockTakeCountsInput,
+  type Paginated,
+  type StartStockTakeInput,
+  type StockTake,
+  type StockTakeItem,
+  type StockTakeSearchInput
+} from '../schema';
+import { consumeBatches, receiveBatch } from './medicine_batches';
+import { pageQuery, toPage } from './pagination';
+import { and, count, desc, eq, inArray, isNotNull, isNull } from 'drizzle-orm';
+import { toCents, type Tx } from './money';
+
+type StockTakeRow = typeof stockTakesTable.$inferSelect;
+
+async function toStockTakes(tx: Tx | typeof db, stockTakes: StockTakeRow[]): Promise<StockTake[]> {
+  if (stockTakes.length === 0) {
+    return [];
+  }
+
+  const userIds = [...new Set(stockTakes.flatMap(stockTake => [stockTake.started_by, stockTake.approved_by ?? stockTake.started_by]))];
+  const users = await tx.select({ id: usersTable.id, full_name: usersTable.full_name })
+    .from(usersTable)
+    .where(inArray(usersTable.id, userIds))
+    .execute();
+  const userNames = new Map(users.map(user => [user.id, user.full_name]));
+
+  const rows = await tx.select({
+    id: stockTakeItemsTable.id,
+    stock_take_id: stockTakeItemsTable.stock_take_id,
+    medicine_id: stockTakeItemsTable.medicine_id,
+    medicine_name: medicinesTable.name,
+    unit: medicinesTable.unit,
+    location: stockTakeItemsTable.location,
+    expected_quantity: stockTakeItemsTable.expected_quantity,
+    counted_quantity: stockTakeItemsTable.counted_quantity,
+    unit_value: stockTakeItemsTable.unit_value
+  })
+    .from(stockTakeItemsTable)
+    .innerJoin(medicinesTable, eq(stockTakeItemsTable.medicine_id, medicinesTable.id))
+    .where(inArray(stockTakeItemsTable.stock_take_id, stockTakes.map(stockTake => stockTake.id)))
+    .orderBy(medicinesTable.name, stockTakeItemsTable.id)
+    .execute();
+
+  return stockTakes.map(stockTake => {
+    const items: StockTakeItem[] = rows
+      .filter(row => row.stock_take_id === stockTake.id)
+      .map(({ stock_take_id: _stockTakeId, ...row }) => {
+        const unitValue = parseFloat(row.unit_value);
+        const variance = row.counted_quantity === null ? null : row.counted_quantity - row.expected_quantity;
+        return {
+          ...row,
+          unit_value: unitValue,
+          variance,
+          variance_value: variance === null ? null : toCents(unitValue) * variance / 100
+        };
+      });
+
+    const varianceCents = items.map(item => toCents(item.variance_value ?? 0));
+    return {
+      ...stockTake,
+      started_by_name: userNames.get(stockTake.started_by) ?? `User #${stockTake.started_by}`,
+      approved_by_name: stockTake.approved_by === null ? null : userNames.get(stockTake.approved_by) ?? `User #${stockTake.approved_by}`,
+      total_items: items.length,
+      counted_items: items.filter(item => item.counted_quantity !== null).length,
+      items_with_variance: items.filter(item => item.variance !== null && item.variance !== 0).length,
+      shortage_value: -varianceCents.filter(cents => cents < 0).reduce((total, cents) => total + cents, 0) / 100,
+      surplus_value: varianceCents.filter(cents => cents > 0).reduce((total, cents) => total + cents, 0) / 100,
+      items
+    };
+  });
+}
+
+async function lockCountingStockTake(tx: Tx, id: number): Promise<StockTakeRow> {
+  const stockTakes = await tx.select()
+    .from(stockTakesTable)
+    .where(eq(stockTakesTable.id, id))
+    .for('update')
+    .execute();
+
+  if (stockTakes.length === 0) {
+    throw new Error(`Stock take with ID ${id} not found`);
+  }
+  if (stockTakes[0].status !== 'counting') {
+    throw new Error(`Stock opname #${id} sudah ${stockTakes[0].status === 'approved' ? 'disetujui' : 'dibatalkan'}`);
+  }
+
+  return stockTakes[0];
+}
+
+/**
+ * Start a stock opname by freezing every stocked medicine's current stock and cost.
+ * Sales and deliveries may go on while the shelves are counted; the variance
+ * is measured against this snapshot.
+ */
+export async function startStockTake(input: StartStockTakeInput, userId: number): Promise<StockTake> {
+  try {
+    return await db.transaction(async (tx) => {
+      const counting = await tx.select({ id: stockTakesTable.id })
+        .from(stockTakesTable)
+        .where(eq(stockTakesTable.status, 'counting'))
+        .execute();
+
+      if (counting.length > 0) {
+        throw new Error(`Stock opname #${counting[0].id} masih berjalan, selesaikan atau batalkan terlebih dahulu`);
+      }
+
+      const result = await tx.insert(stockTakesTable)
+        .values({ notes: input.notes ?? null, started_by: userId })
+        .returning()
+        .execute();
+
+      // Archived medicines are no longer stocked, so there is nothing to count
+      const medicines = await tx.select()
+        .from(medicinesTable)
+        .where(isNull(medicinesTable.archived_at))
+        .execute();
+
+      // Variances are valued at cost: the average purchase cost, else the latest purchase price
+      const latestPrices = await tx.selectDistinctOn([medicineBatchesTable.medicine_id], {
+        medicine_id: medicineBatchesTable.medicine_id,
+        purchase_price: medicineBatchesTable.purchase_price
+      })
+        .from(medicineBatchesTable)
+        .where(isNotNull(medicineBatchesTable.purchase_price))
+        .orderBy(medicineBatchesTable.medicine_id, desc(medicineBatchesTable.created_at), desc(medicineBatchesTable.id))
+        .execute();
+      const latestPrice = new Map(latestPrices.map(batch => [batch.medicine_id, batch.purchase_price]));
+
+      if (medicines.length > 0) {
+        await tx.insert(stockTakeItemsTable)
+          .values(medicines.map(medicine => ({
+            stock_take_id: result[0].id,
+            medicine_id: medicine.id,
+            expected_quantity: medicine.stock_quantity,
+            unit_value: medicine.average_cost ?? latestPrice.get(medicine.id) ?? '0' // Never bought in at a known cost
+          })))
+          .execute();
+      }
+
+      return (await toStockTakes(tx, result))[0];
+    });
+  } catch (error) {
+    console.error('Stock take start failed:', error);
+    throw error;
+  }
+}
+
+export async function saveStockTakeCounts(input: SaveStockTakeCountsInput): Promise<StockTake> {
+  try {
+    return await db.transaction(async (tx) => {
+      const stockTake = await lockCountingStockTake(tx, input.stock_take_id);
+
+      const itemIds = input.counts.map(count => count.item_id);
+      const items = await tx.select({ id: stockTakeItemsTable.id })
+        .from(stockTakeItemsTable)
+        .where(and(eq(stockTakeItemsTable.stock_take_id, stockTake.id), inArray(stockTakeItemsTable.id, itemIds)))
+        .execute();
+
+      const missing = itemIds.find(id => !items.some(item => item.id === id));
+      if (missing !== undefined) {
+        throw new Error(`Stock take item with ID ${missing} not found on stock take #${stockTake.id}`);
+      }
+
+      for (const count of input.counts) {
+        await tx.update(stockTakeItemsTable)
+          .set({
+            counted_quantity: count.counted_quantity,
+            ...(count.location !== undefined ? { location: count.location || null } : {})
+          })
+          .where(eq(stockTakeItemsTable.id, count.item_id))
+          .execute();
+      }
+
+      return (await toStockTakes(tx, [stockTake]))[0];
+    });
+  } catch (error) {
+    console.error('Stock take count failed:', error);
+    throw error;
+  }
+}
+
+/**
+ * Post the counted variances as stock adjustments, all or nothing. Each
+ * medicine that differs from its snapshot gets one movement referencing the
+ * stock take; the variance is applied to the current stock so sales made
+ * during counting are kept.
+ */
+export async function approveStockTake(id: number, userId: number): Promise<StockTake> {
+  try {
+    return await db.transaction(async (tx) => {
+      const stockTake = await lockCountingStockTake(tx, id);
+
+      const items = await tx.select()
+        .from(stockTakeItemsTable)
+        .where(eq(stockTakeItemsTable.stock_take_id, stockTake.id))
+        .execute();
+
+      const uncounted = items.filter(item => item.counted_quantity === null).length;
+      if (uncounted > 0) {
+        throw new Error(`Masih ada ${uncounted} obat yang belum dihitung`);
+      }
+
+      for (const item of items) {
+        const variance = item.counted_quantity! - item.expected_quantity;
+        if (variance === 0) continue;
+
+        const medicines = await tx.select()
+          .from(medicinesTable)
+          .where(eq(medicinesTable.id, item.medicine_id))
+          .for('update')
+          .execute();
+
+        if (medicines.length === 0) {
+          throw new Error(`Medicine with ID ${item.medicine_id} not found`);
+        }
+
+        const medicine = medicines[0];
+        const quantity = Math.abs(variance);
+        if (variance < 0 && medicine.stock_quantity < quantity) {
+          throw new Error(`Stok ${medicine.name} saat ini (${medicine.stock_quantity}) lebih kecil dari selisih opname (${quantity})`);
+        }
+
+        const movement = await tx.insert(stockMovementsTable)
+          .values({
+            medicine_id: medicine.id,
+            movement_type: variance > 0 ? 'masuk' : 'keluar',
+            quantity,
+            reference_id: stockTake.id,
+            reference_type: 'stock_take',
+            notes: `Stock opname #${stockTake.id}: ${item.expected_quantity} → ${item.counted_quantity}`
+          })
+          .returning()
+          .execute();
+
+        if (variance > 0) {
+          await receiveBatch(tx, medicine, quantity, movement[0].id);
+        } else {
+          await consumeBatches(tx, medicine, quantity, movement[0].id);
+        }
+
+        await tx.update(stockTakeItemsTable)
+          .set({ stock_movement_id: movement[0].id })
+          .where(eq(stockTakeItemsTable.id, item.id))
+          .execute();
+      }
+
+      const result = await tx.update(stockTakesTable)
+        .set({ status: 'approved', approved_by: userId, approved_at: new Date() })
+        .where(eq(stockTakesTable.id, stockTake.id))
+        .returning()
+        .execute();
+
+      return (await toStockTakes(tx, result))[0];
+    });
+  } catch (error) {
+    console.error('Stock take approval failed:', error);
+    throw error;
+  }
+}
+
+export async function cancelStockTake(id: number): Promise<StockTake> {
+  try {
+    return await db.transaction(async (tx) => {
+      await lockCountingStockTake(tx, id);
+
+      const result = await tx.update(stockTakesTable)
+        .set({ status: 'cancelled' })
+        .where(eq(stockTakesTable.id, id))
+        .returning()
+        .execute();
+
+      return (await toStockTakes(tx, result))[0];
+    });
+  } catch (error) {
+    console.error('Stock take cancellation failed:', error);
+    throw error;
+  }
+}
+
+export async function getStockTakes(input?: StockTakeSearchInput): Promise<Paginated<StockTake>> {
+  try {
+    const page = pageQuery(input, { column: stockTakesTable.started_at, id: stockTakesTable.id, direction: 'desc' }, 20);
+
+    const stockTakes = await db.select()
+      .from(stockTakesTable)
+      .where(page.after)
+      .orderBy(...page.orderBy)
+      .limit(page.limit)
+      .offset(page.offset)
+      .execute();
+
+    const total = await db.select({ count: count() })
+      .from(stockTakesTable)
+      .execute();
+
+    return await toPage(await toStockTakes(db, stockTakes), total[0].count, page);
+  } catch (error) {
+    console.error('Failed to fetch stock takes:', error);
+    throw error;
+  }
+}
+
+export async function getStockTakeById(id: number): Promise<StockTake> {
+  try {
+    const stockTakes = await db.select()
+      .from(stockTakesTable)
+      .where(eq(stockTakesTable.id, id))
+      .execute();
+
+    if (stockTakes.length === 0) {
+      throw new Error(`Stock take with ID ${id} not found`);
+    }
+
+    return (await toStockTakes(db, stockTakes))[0];
+  } catch (error) {
+    console.error('Failed to fetch stock take:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,71 @@
+import { db } from '../db';
+import { suppliersTable } from '../db/schema';
+import { type CreateSupplierInput, type Paginated, type Supplier, type SupplierSearchInput, type UpdateSupplierInput } from '../schema';
+import { pageQuery, toPage } from './pagination';
+import { and, count, eq } from 'drizzle-orm';
+
+export async function createSupplier(input: CreateSupplierInput): Promise<Supplier> {
+  try {
+    const result = await db.insert(suppliersTable)
+      .values({
+        name: input.name,
+        contact_person: input.contact_person,
+        phone: input.phone,
+        address: input.address,
+        notes: input.notes,
+        is_active: input.is_active
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Supplier creation failed:', error);
+    throw error;
+  }
+}
+
+export async function updateSupplier(input: UpdateSupplierInput): Promise<Supplier> {
+  try {
+    const { id, ...changes } = input;
+    const result = await db.update(suppliersTable)
+      .set({ ...changes, updated_at: new Date() })
+      .where(eq(suppliersTable.id, id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Supplier with ID ${id} not found`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Supplier update failed:', error);
+    throw error;
+  }
+}
+
+export async function getSuppliers(input?: SupplierSearchInput): Promise<Paginated<Supplier>> {
+  try {
+    const where = input?.active_only ? eq(suppliersTable.is_active, true) : undefined;
+    const page = pageQuery(input, { column: suppliersTable.name, id: suppliersTable.id, direction: 'asc' }, 50);
+
+    const results = await db.select()
+      .from(suppliersTable)
+      .where(and(where, page.after))
+      .orderBy(...page.orderBy)
+      .limit(page.limit)
+      .offset(page.offset)
+      .execute();
+
+    const total = await db.select({ count: count() })
+      .from(suppliersTable)
+      .where(where)
+      .execute();
+
+    return await toPage(results, total[0].count, page);
+  } catch (error) {
+    console.error('Get suppliers failed:', error);
+    throw error;
+  }
+}
@@ -2,6 +2,7 @@ import { db } from '../db';
 import { medicinesTable, stockMovementsTable } from '../db/schema';
 import { type UpdateMedicineInput, type Medicine } from '../schema';
 import { eq } from 'drizzle-orm';
+import { consumeBatches, receiveBatch } from './medicine_batches';
 
 export async function updateMedicine(input: UpdateMedicineInput): Promise<Medicine> {
   try {
@@ -27,7 +28,6 @@ export async function updateMedicine(input: UpdateMedicineInput): Promise<Medici
     if (input.description !== undefined) updateData.description = input.description;
     if (input.unit !== undefined) updateData.unit = input.unit;
     if (input.price_per_unit !== undefined) updateData.price_per_unit = input.price_per_unit.toString();
-    if (input.stock_quantity !== undefined) updateData.stock_quantity = input.stock_quantity;
     if (input.minimum_stock !== undefined) updateData.minimum_stock = input.minimum_stock;
     if (input.expiry_date !== undefined) {
       // Convert Date to string for database storage (date column expects string)
@@ -35,22 +35,24 @@ export async function updateMedicine(input: UpdateMedicineInput): Promise<Medici
     }
     if (input.supplier !== undefined) updateData.supplier = input.supplier;
 
-    // Update the medicine record
-    const result = await db.update(medicinesTable)
-      .set(updateData)
-      .where(eq(medicinesTable.id, input.id))
-      .returning()
-      .execute();
+    const updatedMedicine = await db.transaction(async (tx) => {
+      // Update the medicine record
+      const result = await tx.update(medicinesTable)
+        .set(updateData)
+        .where(eq(medicinesTable.id, input.id))
+        .returning()
+        .execute();
 
-    const updatedMedicine = result[0];
+      // If stock quantity was updated, create a stock movement record and apply it to the batches
+      if (input.stock_quantity === undefined || input.stock_quantity === currentStock) {
+        return result[0];
+      }
 
-    // If stock quantity was updated, create a stock movement record
-    if (input.stock_quantity !== undefined && input.stock_quantity !== currentStock) {
       const stockDifference = input.stock_quantity - currentStock;
       const movementType = stockDifference > 0 ? 'masuk' : 'keluar';
       const quantity = Math.abs(stockDifference);
 
-      await db.insert(stockMovementsTable)
+      const movement = await tx.insert(stockMovementsTable)
         .values({
           medicine_id: input.id,
           movement_type: movementType,
@@ -58,13 +60,27 @@ export async function updateMedicine(input: UpdateMedicineInput): Promise<Medici
           reference_id: null,
           notes: 'Stock adjustment via medicine update'
         })
+        .returning()
         .execute();
-    }
+
+      if (movementType === 'masuk') {
+        await receiveBatch(tx, result[0], quantity, movement[0].id);
+      } else {
+        await consumeBatches(tx, result[0], quantity, movement[0].id);
+      }
+
+      const synced = await tx.select()
+        .from(medicinesTable)
+        .where(eq(medicinesTable.id, input.id))
+        .execute();
+      return synced[0];
+    });
 
     // Convert fields back to proper types before returning
     return {
       ...updatedMedicine,
       price_per_unit: parseFloat(updatedMedicine.price_per_unit),
+      average_cost: updatedMedicine.average_cost !== null ? parseFloat(updatedMedicine.average_cost) : null,
       expiry_date: updatedMedicine.expiry_date ? new Date(updatedMedicine.expiry_date) : null
     };
   } catch (error) {
@@ -34,6 +34,10 @@ export const updateService = async (input: UpdateServiceInput): Promise<Service>
       updateData.is_active = input.is_active;
     }
 
+    if (input.follow_up_days !== undefined) {
+      updateData.follow_up_days = input.follow_up_days;
+    }
+
     // Always update the updated_at timestamp
     updateData.updated_at = new Date();
 
@@ -3,10 +3,14 @@ import {
   transactionsTable, 
   stockMovementsTable, 
   medicinesTable,
-  transactionMedicinesTable 
+  transactionMedicinesTable,
+  followUpsTable
 } from '../db/schema';
 import { type Transaction } from '../schema';
 import { eq, and, sql } from 'drizzle-orm';
+import { consumeBatches, dispensableStock, returnDispensedUnits, transactionMovementCondition } from './medicine_batches';
+import { paymentStatusFor, recordPayment, remainingAmount } from './payments';
+import { reclaimPromotion, releasePromotion } from './promotions';
 
 export async function updateTransactionStatus(
   id: number, 
@@ -27,36 +31,56 @@ export async function updateTransactionStatus(
 
       const transaction = currentTransaction[0];
 
-      // If changing from any status to 'cancelled', we need to reverse stock movements
+      // Money that changed hands is returned through a refund, never by a status change
+      if (transaction.payment_status === 'paid' && paymentStatus !== 'paid') {
+        throw new Error('Transaksi yang sudah lunas tidak dapat dibatalkan atau dikembalikan ke pending, gunakan refund');
+      }
+
+      if (paymentStatus === 'cancelled' && parseFloat(transaction.paid_amount) > parseFloat(transaction.refunded_amount)) {
+        throw new Error('Kembalikan pembayaran melalui refund sebelum membatalkan transaksi');
+      }
+
+      if (transaction.payment_status === 'cancelled' && paymentStatus !== 'cancelled' && parseFloat(transaction.refunded_amount) > 0) {
+        throw new Error('Transaksi yang sudah direfund tidak dapat diaktifkan kembali');
+      }
+
+      // If changing from any status to 'cancelled', we need to return the medicines still dispensed
       if (paymentStatus === 'cancelled' && transaction.payment_status !== 'cancelled') {
-        // Get all stock movements associated with this transaction
-        const stockMovements = await tx.select()
+        // Units dispensed per medicine, less what earlier reversals already returned
+        const dispensed = await tx.select({
+          medicine_id: stockMovementsTable.medicine_id,
+          quantity: sql<string>`sum(case when ${stockMovementsTable.movement_type} = 'keluar' then ${stockMovementsTable.quantity} else -${stockMovementsTable.quantity} end)`
+        })
           .from(stockMovementsTable)
-          .where(eq(stockMovementsTable.reference_id, id))
+          .where(transactionMovementCondition(id))
+          .groupBy(stockMovementsTable.medicine_id)
           .execute();
 
-        // Reverse each stock movement by adding back the quantities
-        for (const movement of stockMovements) {
-          if (movement.movement_type === 'keluar') {
-            // For outgoing movements, add the quantity back to stock
-            await tx.update(medicinesTable)
-              .set({
-                stock_quantity: sql`${medicinesTable.stock_quantity} + ${movement.quantity}`,
-                updated_at: new Date()
-              })
-              .where(eq(medicinesTable.id, movement.medicine_id))
-              .execute();
-
-            // Create a reverse stock movement record for audit trail
-            await tx.insert(stockMovementsTable)
-              .values({
-                medicine_id: movement.medicine_id,
-                movement_type: 'masuk',
-                quantity: movement.quantity,
-                reference_id: id,
-                notes: `Pembatalan transaksi #${id} - pemulihan stok`
-              })
-              .execute();
+        for (const item of dispensed) {
+          const quantity = parseInt(item.quantity);
+          if (quantity <= 0) continue;
+
+          const medicine = await tx.select()
+            .from(medicinesTable)
+            .where(eq(medicinesTable.id, item.medicine_id))
+            .execute();
+
+          // Create a reverse stock movement record for audit trail
+          const reversal = await tx.insert(stockMovementsTable)
+            .values({
+              medicine_id: item.medicine_id,
+              movement_type: 'masuk',
+              quantity,
+              reference_id: id,
+              reference_type: 'transaction',
+              notes: `Pembatalan transaksi #${id} - pemulihan stok`
+            })
+            .returning()
+            .execute();
+
+          // Put the units back into the batches they were taken from
+          if (medicine.length > 0) {
+            await returnDispensedUnits(tx, medicine[0], id, quantity, reversal[0].id);
           }
         }
       }
@@ -81,49 +105,75 @@ export async function updateTransactionStatus(
             throw new Error(`Medicine with ID ${item.medicine_id} not found`);
           }
 
-          if (medicine[0].stock_quantity < item.quantity) {
+          if (await dispensableStock(tx, medicine[0]) < item.quantity) {
             throw new Error(`Insufficient stock for medicine ID ${item.medicine_id}`);
           }
 
-          // Deduct stock
-          await tx.update(medicinesTable)
-            .set({
-              stock_quantity: sql`${medicinesTable.stock_quantity} - ${item.quantity}`,
-              updated_at: new Date()
-            })
-            .where(eq(medicinesTable.id, item.medicine_id))
-            .execute();
-
           // Create stock movement record
-          await tx.insert(stockMovementsTable)
+          const movement = await tx.insert(stockMovementsTable)
             .values({
               medicine_id: item.medicine_id,
               movement_type: 'keluar',
               quantity: item.quantity,
               reference_id: id,
+              reference_type: 'transaction',
               notes: `Reaktivasi transaksi #${id} - pengurangan stok`
             })
+            .returning()
             .execute();
+
+          // Deduct stock from the batches that expire first
+          await consumeBatches(tx, medicine[0], item.quantity, movement[0].id, { skipExpired: true });
         }
       }
 
-      // Update the transaction status
+      // Control visits and the promo code's use follow the transaction: dropped on cancellation, taken again on reactivation
+      if (paymentStatus === 'cancelled' && transaction.payment_status !== 'cancelled') {
+        await releasePromotion(tx, transaction.promotion_id);
+        await tx.update(followUpsTable)
+          .set({ status: 'cancelled', updated_at: new Date() })
+          .where(and(eq(followUpsTable.transaction_id, id), eq(followUpsTable.status, 'pending')))
+          .execute();
+      }
+
+      if (transaction.payment_status === 'cancelled' && paymentStatus !== 'cancelled') {
+        await reclaimPromotion(tx, transaction.promotion_id);
+        await tx.update(followUpsTable)
+          .set({ status: 'pending', updated_at: new Date() })
+          .where(and(eq(followUpsTable.transaction_id, id), eq(followUpsTable.status, 'cancelled')))
+          .execute();
+      }
+
+      // Update the transaction status. Outside cancellation the status follows
+      // the payments recorded so far, so a transaction with a down payment
+      // goes back to partially paid rather than pending.
       const updatedTransactions = await tx.update(transactionsTable)
         .set({
-          payment_status: paymentStatus,
+          payment_status: paymentStatus === 'cancelled'
+            ? 'cancelled'
+            : paymentStatusFor(parseFloat(transaction.total_amount), parseFloat(transaction.paid_amount)),
           updated_at: new Date()
         })
         .where(eq(transactionsTable.id, id))
         .returning()
         .execute();
 
-      return updatedTransactions[0];
+      // Marking as paid settles the remaining balance in the transaction's payment method
+      const updated = updatedTransactions[0];
+      if (paymentStatus === 'paid' && updated.payment_status !== 'paid') {
+        return recordPayment(tx, updated, remainingAmount(updated), updated.payment_method);
+      }
+
+      return updated;
     });
 
     // Convert numeric fields back to numbers
     return {
       ...result,
-      total_amount: parseFloat(result.total_amount)
+      total_amount: parseFloat(result.total_amount),
+      discount_amount: parseFloat(result.discount_amount),
+      paid_amount: parseFloat(result.paid_amount),
+      refunded_amount: parseFloat(result.refunded_amount)
     };
   } catch (error) {
     console.error('Failed to update transaction status:', error);
@@ -150,7 +200,10 @@ export async function addTransactionNotes(id: number, notes: string): Promise<Tr
     // Convert numeric fields back to numbers
     return {
       ...result[0],
-      total_amount: parseFloat(result[0].total_amount)
+      total_amount: parseFloat(result[0].total_amount),
+      discount_amount: parseFloat(result[0].discount_amount),
+      paid_amount: parseFloat(result[0].paid_amount),
+      refunded_amount: parseFloat(result[0].refunded_amount)
     };
   } catch (error) {
     console.error('Failed to add transaction notes:', error);
@@ -0,0 +1,89 @@
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { type CreateUserInput, type UpdateUserInput, type User } from '../schema';
+import { hashPassword, toPublicUser } from './auth';
+import { eq } from 'drizzle-orm';
+
+export async function createUser(input: CreateUserInput): Promise<User> {
+  try {
+    const existing = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.username, input.username))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Username ${input.username} sudah digunakan`);
+    }
+
+    const result = await db.insert(usersTable)
+      .values({
+        username: input.username,
+        full_name: input.full_name,
+        password_hash: await hashPassword(input.password),
+        role: input.role
+      })
+      .returning()
+      .execute();
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('User creation failed:', error);
+    throw error;
+  }
+}
+
+export async function getUsers(): Promise<User[]> {
+  try {
+    const results = await db.select()
+      .from(usersTable)
+      .orderBy(usersTable.username)
+      .execute();
+
+    return results.map(toPublicUser);
+  } catch (error) {
+    console.error('Failed to fetch users:', error);
+    throw error;
+  }
+}
+
+export async function updateUser(input: UpdateUserInput): Promise<User> {
+  try {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, input.id))
+        .execute();
+
+      if (existing.length === 0) {
+        throw new Error('User not found');
+      }
+
+      const updateData: Partial<typeof usersTable.$inferInsert> = {
+        updated_at: new Date()
+      };
+
+      if (input.full_name !== undefined) updateData.full_name = input.full_name;
+      if (input.role !== undefined) updateData.role = input.role;
+      if (input.is_active !== undefined) updateData.is_active = input.is_active;
+      if (input.password !== undefined) updateData.password_hash = await hashPassword(input.password);
+
+      const result = await tx.update(usersTable)
+        .set(updateData)
+        .where(eq(usersTable.id, input.id))
+        .returning()
+        .execute();
+
+      // A password change or deactivation ends every open session of that user
+      if (input.password !== undefined || input.is_active === false) {
+        await tx.delete(sessionsTable)
+          .where(eq(sessionsTable.user_id, input.id))
+          .execute();
+      }
+
+      return toPublicUser(result[0]);
+    });
+  } catch (error) {
+    console.error('User update failed:', error);
+    throw error;
+  }
+}
@@ -1,6 +1,7 @@
 import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
+import { ensureExtensions } from '../db/extensions';
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
 
 export const resetDB = async () => {
@@ -10,6 +11,7 @@ export const resetDB = async () => {
 };
 
 export const createDB = async () => {
+  await ensureExtensions();
   const migrationStatements = await generateMigration(
     generateDrizzleJson({}),
     generateDrizzleJson({ ...schema })
@@ -1,5 +1,5 @@
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
@@ -10,119 +10,476 @@ import {
   createPatientInputSchema,
   updatePatientInputSchema,
   patientSearchInputSchema,
+  patientSuggestionInputSchema,
+  duplicatePatientSearchInputSchema,
+  mergePatientsInputSchema,
+  patientExportInputSchema,
+  patientImportInputSchema,
   createMedicineInputSchema,
   updateMedicineInputSchema,
   medicineSearchInputSchema,
+  medicineExportInputSchema,
   createStockMovementInputSchema,
+  stockMovementSearchInputSchema,
+  createSupplierInputSchema,
+  updateSupplierInputSchema,
+  supplierSearchInputSchema,
+  createPurchaseOrderInputSchema,
+  purchaseOrderSearchInputSchema,
+  receiveGoodsInputSchema,
+  reorderSuggestionInputSchema,
+  startStockTakeInputSchema,
+  saveStockTakeCountsInputSchema,
+  stockTakeSearchInputSchema,
   createServiceInputSchema,
+  serviceListInputSchema,
   updateServiceInputSchema,
+  createServicePackageInputSchema,
+  updateServicePackageInputSchema,
+  createPromotionInputSchema,
+  updatePromotionInputSchema,
+  promotionPreviewInputSchema,
+  promotionSearchInputSchema,
   createTransactionInputSchema,
+  createPaymentInputSchema,
+  createRefundInputSchema,
+  openShiftInputSchema,
+  closeShiftInputSchema,
+  shiftSearchInputSchema,
   transactionSearchInputSchema,
+  transactionExportInputSchema,
+  stockMovementExportInputSchema,
+  receiptFileInputSchema,
   createPatientVisitInputSchema,
+  saveProcedureRecordInputSchema,
+  dueFollowUpsInputSchema,
   updateSettingsInputSchema,
-  reportInputSchema
+  reportInputSchema,
+  grossMarginInputSchema,
+  loginInputSchema,
+  createUserInputSchema,
+  updateUserInputSchema,
+  auditLogSearchInputSchema,
+  createAppointmentInputSchema,
+  rescheduleAppointmentInputSchema,
+  appointmentSearchInputSchema,
+  createGuardianInputSchema,
+  updateGuardianInputSchema,
+  guardianSearchInputSchema,
+  linkGuardianInputSchema,
+  type UserRole,
+  type AuditEntityType
 } from './schema';
 
 // Import handlers
 import { createPatient } from './handlers/create_patient';
-import { getPatients, getPatientById } from './handlers/get_patients';
+import { getPatients, suggestPatients, getPatientById, exportPatientsCsv } from './handlers/get_patients';
+import { previewPatientImport, importPatients } from './handlers/patient_import';
+import { backfillMedicalRecordNumbers } from './handlers/medical_record_numbers';
+import { findDuplicatePatients, mergePatients } from './handlers/patient_merges';
 import { updatePatient } from './handlers/update_patient';
 
+import {
+  createGuardian,
+  updateGuardian,
+  getGuardians,
+  getPatientGuardians,
+  linkGuardianToPatient,
+  unlinkGuardianFromPatient
+} from './handlers/guardians';
+
 import { createMedicine } from './handlers/create_medicine';
-import { getMedicines, getMedicineById, getLowStockMedicines, getExpiredMedicines } from './handlers/get_medicines';
+import { getMedicines, getMedicineById, getLowStockMedicines, getExpiredMedicines, exportMedicinesCsv } from './handlers/get_medicines';
 import { updateMedicine } from './handlers/update_medicine';
 
-import { createStockMovement, getStockMovements, adjustStock } from './handlers/stock_management';
+import { createStockMovement, getStockMovements, exportStockMovementsCsv, adjustStock } from './handlers/stock_management';
+import { getMedicineBatches } from './handlers/medicine_batches';
+import { createSupplier, updateSupplier, getSuppliers } from './handlers/suppliers';
+import {
+  createPurchaseOrder,
+  getPurchaseOrders,
+  getPurchaseOrderById,
+  cancelPurchaseOrder,
+  receiveGoods,
+  getGoodsReceipts
+} from './handlers/purchase_orders';
+import { getReorderSuggestions } from './handlers/reorder_suggestions';
+import {
+  startStockTake,
+  saveStockTakeCounts,
+  approveStockTake,
+  cancelStockTake,
+  getStockTakes,
+  getStockTakeById
+} from './handlers/stock_takes';
 
 import { createService } from './handlers/create_service';
 import { getServices, getServiceById } from './handlers/get_services';
 import { updateService } from './handlers/update_service';
+import { createServicePackage, updateServicePackage, getServicePackages } from './handlers/service_packages';
+import { createPromotion, updatePromotion, getPromotions, previewPromotion } from './handlers/promotions';
 
 import { createTransaction } from './handlers/create_transaction';
-import { getTransactions, getTransactionById, getTodayTransactions, getPendingTransactions } from './handlers/get_transactions';
+import { getTransactions, getTransactionById, getTodayTransactions, getPendingTransactions, exportTransactionsCsv } from './handlers/get_transactions';
 import { updateTransactionStatus, addTransactionNotes } from './handlers/update_transaction';
+import { addPayment, getPayments } from './handlers/payments';
+import { createRefund, getRefunds, getRefundableItems } from './handlers/refunds';
+import { openShift, closeShift, getCurrentShift, getShifts, getShiftById } from './handlers/cashier_shifts';
 
-import { createPatientVisit, getPatientVisits, getVisitById, updatePatientVisit } from './handlers/patient_visits';
+import {
+  createPatientVisit,
+  getPatientVisits,
+  getVisitById,
+  updatePatientVisit,
+  getProcedureRecord,
+  saveProcedureRecord
+} from './handlers/patient_visits';
 
-import { getDashboardStats, getDailyRevenue, getMonthlyRevenue, getTopServices } from './handlers/dashboard';
+import { getDueFollowUps, cancelFollowUp } from './handlers/follow_ups';
+
+import {
+  getAppointments,
+  getAppointmentSlots,
+  createAppointment,
+  rescheduleAppointment,
+  cancelAppointment,
+  markAppointmentNoShow
+} from './handlers/appointments';
+
+import { getDashboardStats, getDailyRevenue, getMonthlyRevenue, getGrossMargin, getTopServices } from './handlers/dashboard';
 
 import { getSettings, getSettingByKey, updateSetting, initializeDefaultSettings } from './handlers/settings';
 
-import { generateSalesReport, generateInventoryReport, generatePatientReport, generateReceiptData } from './handlers/reports';
+import {
+  generateSalesReport,
+  generateInventoryReport,
+  generatePatientReport,
+  generateReceiptData,
+  generateReceiptFile,
+  generatePatientCard,
+  generateShiftReport,
+  generateStockTakeReport
+} from './handlers/reports';
+
+import {
+  archivePatient,
+  restorePatient,
+  deletePatient,
+  archiveMedicine,
+  restoreMedicine,
+  deleteMedicine,
+  archiveService,
+  restoreService,
+  deleteService,
+  deleteTransaction
+} from './handlers/delete_records';
+
+import { login, logout, getSessionUser, getAuthStatus, setupOwner } from './handlers/auth';
+import { createUser, getUsers, updateUser } from './handlers/users';
+import { loadAuditSnapshot, recordAuditLog, getAuditLog } from './handlers/audit_log';
+
+// Resolve the logged-in user from the "Authorization: Bearer <token>" header
+export async function createContext({ req }: CreateHTTPContextOptions) {
+  const header = req.headers['authorization'];
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+  const user = token ? await getSessionUser(token) : null;
+  return { token, user };
+}
 
-import { deletePatient, deleteMedicine, deleteService, deleteTransaction } from './handlers/delete_records';
+type Context = Awaited<ReturnType<typeof createContext>>;
 
-const t = initTRPC.create({
+// Which entity a mutation touches, so the audit log can snapshot it before and after.
+// The entity id is read from the input (a bare id or `input.id`) unless entityId says
+// otherwise; for creates it falls back to the `id` of the returned row.
+interface Meta {
+  audit?: {
+    entity: AuditEntityType;
+    entityId?: (input: unknown) => number | string | undefined;
+  };
+}
+
+const idFromInput = (input: unknown): number | undefined => {
+  if (typeof input === 'number') return input;
+  const id = (input as { id?: unknown } | null)?.id;
+  return typeof id === 'number' ? id : undefined;
+};
+
+const t = initTRPC.context<Context>().meta<Meta>().create({
   transformer: superjson,
 });
 
 const publicProcedure = t.procedure;
 const router = t.router;
 
+// Record every successful mutation with the acting user and a before/after diff
+const auditMiddleware = t.middleware(async ({ ctx, meta, path, type, getRawInput, next }) => {
+  if (type !== 'mutation') {
+    return next();
+  }
+
+  const audit = meta?.audit;
+  const rawInput = await getRawInput();
+  const inputEntityId = audit ? (audit.entityId ?? idFromInput)(rawInput) : undefined;
+  const before = audit && inputEntityId !== undefined
+    ? await loadAuditSnapshot(audit.entity, inputEntityId)
+    : null;
+
+  const result = await next();
+
+  if (result.ok) {
+    try {
+      const entityId = inputEntityId ?? idFromInput(result.data);
+      const after = audit && entityId !== undefined
+        ? await loadAuditSnapshot(audit.entity, entityId)
+        : null;
+
+      await recordAuditLog({
+        user_id: ctx.user?.id ?? null,
+        procedure: path,
+        entity_type: audit?.entity ?? null,
+        entity_id: entityId ?? null,
+        before,
+        after
+      });
+    } catch (error) {
+      // The mutation itself already succeeded; a failed audit write must not hide that
+      console.error('Failed to audit mutation:', path, error);
+    }
+  }
+
+  return result;
+});
+
+// Any logged-in staff member
+const protectedProcedure = publicProcedure.use(({ ctx, next }) => {
+  if (!ctx.user || !ctx.token) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Silakan login terlebih dahulu' });
+  }
+  return next({ ctx: { user: ctx.user, token: ctx.token } });
+}).use(auditMiddleware);
+
+// Restrict a procedure to the given roles; the owner may always call it
+const roleProcedure = (...roles: UserRole[]) => protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.role !== 'owner' && !roles.includes(ctx.user.role)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Anda tidak memiliki akses untuk tindakan ini' });
+  }
+  return next();
+});
+
+const ownerProcedure = roleProcedure();
+const frontDeskProcedure = roleProcedure('dokter', 'kasir');
+const cashierProcedure = roleProcedure('kasir');
+const clinicalProcedure = roleProcedure('dokter');
+const warehouseProcedure = roleProcedure('gudang');
+
 const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
 
+  // Authentication
+  getAuthStatus: publicProcedure
+    .query(() => getAuthStatus()),
+
+  setupOwner: publicProcedure
+    .input(createUserInputSchema.omit({ role: true }))
+    .mutation(({ input }) => setupOwner(input)),
+
+  login: publicProcedure
+    .input(loginInputSchema)
+    .mutation(({ input }) => login(input)),
+
+  logout: protectedProcedure
+    .mutation(({ ctx }) => logout(ctx.token)),
+
+  getCurrentUser: publicProcedure
+    .query(({ ctx }) => ctx.user),
+
+  // User management
+  createUser: ownerProcedure
+    .meta({ audit: { entity: 'user' } })
+    .input(createUserInputSchema)
+    .mutation(({ input }) => createUser(input)),
+
+  getUsers: ownerProcedure
+    .query(() => getUsers()),
+
+  updateUser: ownerProcedure
+    .meta({ audit: { entity: 'user' } })
+    .input(updateUserInputSchema)
+    .mutation(({ input }) => updateUser(input)),
+
+  // Audit log
+  getAuditLog: ownerProcedure
+    .input(auditLogSearchInputSchema.optional())
+    .query(({ input }) => getAuditLog(input)),
+
   // Patient management
-  createPatient: publicProcedure
+  createPatient: frontDeskProcedure
+    .meta({ audit: { entity: 'patient' } })
     .input(createPatientInputSchema)
     .mutation(({ input }) => createPatient(input)),
     
-  getPatients: publicProcedure
+  getPatients: frontDeskProcedure
     .input(patientSearchInputSchema.optional())
     .query(({ input }) => getPatients(input)),
     
-  getPatientById: publicProcedure
+  suggestPatients: frontDeskProcedure
+    .input(patientSuggestionInputSchema)
+    .query(({ input }) => suggestPatients(input)),
+    
+  previewPatientImport: frontDeskProcedure
+    .input(patientImportInputSchema)
+    .mutation(({ input }) => previewPatientImport(input)),
+    
+  importPatients: frontDeskProcedure
+    .meta({ audit: { entity: 'patient' } })
+    .input(patientImportInputSchema)
+    .mutation(({ input }) => importPatients(input)),
+    
+  exportPatientsCsv: frontDeskProcedure
+    .input(patientExportInputSchema)
+    .query(({ input }) => exportPatientsCsv(input)),
+    
+  getPatientById: frontDeskProcedure
     .input(z.number())
     .query(({ input }) => getPatientById(input)),
     
-  updatePatient: publicProcedure
+  generatePatientCard: frontDeskProcedure
+    .input(z.number())
+    .query(({ input }) => generatePatientCard(input)),
+    
+  findDuplicatePatients: frontDeskProcedure
+    .input(duplicatePatientSearchInputSchema)
+    .query(({ input }) => findDuplicatePatients(input)),
+    
+  mergePatients: ownerProcedure
+    .meta({ audit: { entity: 'patient', entityId: (input) => (input as { survivor_id: number }).survivor_id } })
+    .input(mergePatientsInputSchema)
+    .mutation(({ input, ctx }) => mergePatients(input, ctx.user.id)),
+    
+  // One-off numbering of patients registered before medical record numbers
+  backfillMedicalRecordNumbers: ownerProcedure
+    .meta({ audit: { entity: 'patient' } })
+    .mutation(() => backfillMedicalRecordNumbers()),
+    
+  updatePatient: frontDeskProcedure
+    .meta({ audit: { entity: 'patient' } })
     .input(updatePatientInputSchema)
     .mutation(({ input }) => updatePatient(input)),
     
-  deletePatient: publicProcedure
+  archivePatient: ownerProcedure
+    .meta({ audit: { entity: 'patient' } })
+    .input(z.number())
+    .mutation(({ input, ctx }) => archivePatient(input, ctx.user.id)),
+
+  restorePatient: ownerProcedure
+    .meta({ audit: { entity: 'patient' } })
+    .input(z.number())
+    .mutation(({ input }) => restorePatient(input)),
+
+  deletePatient: ownerProcedure
+    .meta({ audit: { entity: 'patient' } })
     .input(z.number())
     .mutation(({ input }) => deletePatient(input)),
 
+  // Guardians
+  createGuardian: frontDeskProcedure
+    .meta({ audit: { entity: 'guardian' } })
+    .input(createGuardianInputSchema)
+    .mutation(({ input }) => createGuardian(input)),
+
+  updateGuardian: frontDeskProcedure
+    .meta({ audit: { entity: 'guardian' } })
+    .input(updateGuardianInputSchema)
+    .mutation(({ input }) => updateGuardian(input)),
+
+  getGuardians: frontDeskProcedure
+    .input(guardianSearchInputSchema.optional())
+    .query(({ input }) => getGuardians(input)),
+
+  getPatientGuardians: frontDeskProcedure
+    .input(z.number())
+    .query(({ input }) => getPatientGuardians(input)),
+
+  linkGuardianToPatient: frontDeskProcedure
+    .meta({ audit: { entity: 'patient', entityId: (input) => (input as { patient_id: number }).patient_id } })
+    .input(linkGuardianInputSchema)
+    .mutation(({ input }) => linkGuardianToPatient(input)),
+
+  unlinkGuardianFromPatient: frontDeskProcedure
+    .meta({ audit: { entity: 'patient', entityId: (input) => (input as { patient_id: number }).patient_id } })
+    .input(z.object({
+      patient_id: z.number(),
+      guardian_id: z.number()
+    }))
+    .mutation(({ input }) => unlinkGuardianFromPatient(input.patient_id, input.guardian_id)),
+
   // Medicine/Inventory management
-  createMedicine: publicProcedure
+  createMedicine: warehouseProcedure
+    .meta({ audit: { entity: 'medicine' } })
     .input(createMedicineInputSchema)
     .mutation(({ input }) => createMedicine(input)),
     
-  getMedicines: publicProcedure
+  getMedicines: protectedProcedure
     .input(medicineSearchInputSchema.optional())
     .query(({ input }) => getMedicines(input)),
     
-  getMedicineById: publicProcedure
+  exportMedicinesCsv: protectedProcedure
+    .input(medicineExportInputSchema)
+    .query(({ input }) => exportMedicinesCsv(input)),
+    
+  getMedicineById: protectedProcedure
     .input(z.number())
     .query(({ input }) => getMedicineById(input)),
     
-  updateMedicine: publicProcedure
+  updateMedicine: warehouseProcedure
+    .meta({ audit: { entity: 'medicine' } })
     .input(updateMedicineInputSchema)
     .mutation(({ input }) => updateMedicine(input)),
     
-  deleteMedicine: publicProcedure
+  archiveMedicine: ownerProcedure
+    .meta({ audit: { entity: 'medicine' } })
+    .input(z.number())
+    .mutation(({ input, ctx }) => archiveMedicine(input, ctx.user.id)),
+
+  restoreMedicine: ownerProcedure
+    .meta({ audit: { entity: 'medicine' } })
+    .input(z.number())
+    .mutation(({ input }) => restoreMedicine(input)),
+
+  deleteMedicine: ownerProcedure
+    .meta({ audit: { entity: 'medicine' } })
     .input(z.number())
     .mutation(({ input }) => deleteMedicine(input)),
     
-  getLowStockMedicines: publicProcedure
+  getLowStockMedicines: protectedProcedure
     .query(() => getLowStockMedicines()),
     
-  getExpiredMedicines: publicProcedure
+  getExpiredMedicines: protectedProcedure
     .query(() => getExpiredMedicines()),
 
   // Stock management
-  createStockMovement: publicProcedure
+  createStockMovement: warehouseProcedure
+    .meta({ audit: { entity: 'medicine', entityId: (input) => (input as { medicine_id: number }).medicine_id } })
     .input(createStockMovementInputSchema)
     .mutation(({ input }) => createStockMovement(input)),
     
-  getStockMovements: publicProcedure
-    .input(z.number().optional())
+  getStockMovements: warehouseProcedure
+    .input(stockMovementSearchInputSchema.optional())
     .query(({ input }) => getStockMovements(input)),
     
-  adjustStock: publicProcedure
+  exportStockMovementsCsv: warehouseProcedure
+    .input(stockMovementExportInputSchema)
+    .query(({ input }) => exportStockMovementsCsv(input)),
+
+  getMedicineBatches: warehouseProcedure
+    .input(z.number())
+    .query(({ input }) => getMedicineBatches(input)),
+    
+  adjustStock: warehouseProcedure
+    .meta({ audit: { entity: 'medicine', entityId: (input) => (input as { medicineId: number }).medicineId } })
     .input(z.object({
       medicineId: z.number(),
       newQuantity: z.number().int().nonnegative(),
@@ -130,78 +487,258 @@ const appRouter = router({
     }))
     .mutation(({ input }) => adjustStock(input.medicineId, input.newQuantity, input.notes)),
 
+  // Purchasing
+  createSupplier: warehouseProcedure
+    .meta({ audit: { entity: 'supplier' } })
+    .input(createSupplierInputSchema)
+    .mutation(({ input }) => createSupplier(input)),
+
+  updateSupplier: warehouseProcedure
+    .meta({ audit: { entity: 'supplier' } })
+    .input(updateSupplierInputSchema)
+    .mutation(({ input }) => updateSupplier(input)),
+
+  getSuppliers: warehouseProcedure
+    .input(supplierSearchInputSchema.optional())
+    .query(({ input }) => getSuppliers(input)),
+
+  createPurchaseOrder: warehouseProcedure
+    .meta({ audit: { entity: 'purchase_order' } })
+    .input(createPurchaseOrderInputSchema)
+    .mutation(({ input }) => createPurchaseOrder(input)),
+
+  getPurchaseOrders: warehouseProcedure
+    .input(purchaseOrderSearchInputSchema)
+    .query(({ input }) => getPurchaseOrders(input)),
+
+  getPurchaseOrderById: warehouseProcedure
+    .input(z.number())
+    .query(({ input }) => getPurchaseOrderById(input)),
+
+  cancelPurchaseOrder: warehouseProcedure
+    .meta({ audit: { entity: 'purchase_order' } })
+    .input(z.number())
+    .mutation(({ input }) => cancelPurchaseOrder(input)),
+
+  receiveGoods: warehouseProcedure
+    .meta({ audit: { entity: 'purchase_order', entityId: (input) => (input as { purchase_order_id: number }).purchase_order_id } })
+    .input(receiveGoodsInputSchema)
+    .mutation(({ input }) => receiveGoods(input)),
+
+  getGoodsReceipts: warehouseProcedure
+    .input(z.number())
+    .query(({ input }) => getGoodsReceipts(input)),
+
+  getReorderSuggestions: warehouseProcedure
+    .input(reorderSuggestionInputSchema)
+    .query(({ input }) => getReorderSuggestions(input)),
+
+  // Stock opname; the counts are posted to stock only when the owner approves them
+  startStockTake: warehouseProcedure
+    .meta({ audit: { entity: 'stock_take' } })
+    .input(startStockTakeInputSchema)
+    .mutation(({ input, ctx }) => startStockTake(input, ctx.user.id)),
+
+  saveStockTakeCounts: warehouseProcedure
+    .meta({ audit: { entity: 'stock_take', entityId: (input) => (input as { stock_take_id: number }).stock_take_id } })
+    .input(saveStockTakeCountsInputSchema)
+    .mutation(({ input }) => saveStockTakeCounts(input)),
+
+  approveStockTake: ownerProcedure
+    .meta({ audit: { entity: 'stock_take' } })
+    .input(z.number())
+    .mutation(({ input, ctx }) => approveStockTake(input, ctx.user.id)),
+
+  cancelStockTake: warehouseProcedure
+    .meta({ audit: { entity: 'stock_take' } })
+    .input(z.number())
+    .mutation(({ input }) => cancelStockTake(input)),
+
+  getStockTakes: warehouseProcedure
+    .input(stockTakeSearchInputSchema.optional())
+    .query(({ input }) => getStockTakes(input)),
+
+  getStockTakeById: warehouseProcedure
+    .input(z.number())
+    .query(({ input }) => getStockTakeById(input)),
+
+  generateStockTakeReport: warehouseProcedure
+    .input(z.number())
+    .query(({ input }) => generateStockTakeReport(input)),
+
   // Service management
-  createService: publicProcedure
+  createService: ownerProcedure
+    .meta({ audit: { entity: 'service' } })
     .input(createServiceInputSchema)
     .mutation(({ input }) => createService(input)),
     
-  getServices: publicProcedure
-    .input(z.boolean().default(false))
+  getServices: protectedProcedure
+    .input(serviceListInputSchema.optional())
     .query(({ input }) => getServices(input)),
     
-  getServiceById: publicProcedure
+  getServiceById: protectedProcedure
     .input(z.number())
     .query(({ input }) => getServiceById(input)),
     
-  updateService: publicProcedure
+  updateService: ownerProcedure
+    .meta({ audit: { entity: 'service' } })
     .input(updateServiceInputSchema)
     .mutation(({ input }) => updateService(input)),
     
-  deleteService: publicProcedure
+  archiveService: ownerProcedure
+    .meta({ audit: { entity: 'service' } })
+    .input(z.number())
+    .mutation(({ input, ctx }) => archiveService(input, ctx.user.id)),
+
+  restoreService: ownerProcedure
+    .meta({ audit: { entity: 'service' } })
+    .input(z.number())
+    .mutation(({ input }) => restoreService(input)),
+
+  deleteService: ownerProcedure
+    .meta({ audit: { entity: 'service' } })
     .input(z.number())
     .mutation(({ input }) => deleteService(input)),
 
+  // Service packages
+  createServicePackage: ownerProcedure
+    .meta({ audit: { entity: 'service_package' } })
+    .input(createServicePackageInputSchema)
+    .mutation(({ input }) => createServicePackage(input)),
+
+  updateServicePackage: ownerProcedure
+    .meta({ audit: { entity: 'service_package' } })
+    .input(updateServicePackageInputSchema)
+    .mutation(({ input }) => updateServicePackage(input)),
+
+  getServicePackages: protectedProcedure
+    .input(z.boolean().default(false))
+    .query(({ input }) => getServicePackages(input)),
+
+  // Promotions
+  createPromotion: ownerProcedure
+    .meta({ audit: { entity: 'promotion' } })
+    .input(createPromotionInputSchema)
+    .mutation(({ input }) => createPromotion(input)),
+
+  updatePromotion: ownerProcedure
+    .meta({ audit: { entity: 'promotion' } })
+    .input(updatePromotionInputSchema)
+    .mutation(({ input }) => updatePromotion(input)),
+
+  getPromotions: ownerProcedure
+    .input(promotionSearchInputSchema.optional())
+    .query(({ input }) => getPromotions(input)),
+
+  previewPromotion: cashierProcedure
+    .input(promotionPreviewInputSchema)
+    .query(({ input }) => previewPromotion(input)),
+
+  // Cashier shifts
+  openShift: cashierProcedure
+    .meta({ audit: { entity: 'cashier_shift' } })
+    .input(openShiftInputSchema)
+    .mutation(({ input, ctx }) => openShift(input, ctx.user.id)),
+
+  closeShift: cashierProcedure
+    .meta({ audit: { entity: 'cashier_shift' } })
+    .input(closeShiftInputSchema)
+    .mutation(({ input, ctx }) => closeShift(input, ctx.user.id)),
+
+  getCurrentShift: cashierProcedure
+    .query(() => getCurrentShift()),
+
+  getShifts: cashierProcedure
+    .input(shiftSearchInputSchema.optional())
+    .query(({ input }) => getShifts(input)),
+
+  getShiftById: cashierProcedure
+    .input(z.number())
+    .query(({ input }) => getShiftById(input)),
+
   // Transaction/Cashier system
-  createTransaction: publicProcedure
+  createTransaction: cashierProcedure
+    .meta({ audit: { entity: 'transaction' } })
     .input(createTransactionInputSchema)
     .mutation(({ input }) => createTransaction(input)),
     
-  getTransactions: publicProcedure
+  getTransactions: frontDeskProcedure
     .input(transactionSearchInputSchema.optional())
     .query(({ input }) => getTransactions(input)),
     
-  getTransactionById: publicProcedure
+  exportTransactionsCsv: frontDeskProcedure
+    .input(transactionExportInputSchema)
+    .query(({ input }) => exportTransactionsCsv(input)),
+    
+  getTransactionById: frontDeskProcedure
     .input(z.number())
     .query(({ input }) => getTransactionById(input)),
     
-  getTodayTransactions: publicProcedure
+  getTodayTransactions: frontDeskProcedure
     .query(() => getTodayTransactions()),
     
-  getPendingTransactions: publicProcedure
+  getPendingTransactions: frontDeskProcedure
     .query(() => getPendingTransactions()),
     
-  updateTransactionStatus: publicProcedure
+  updateTransactionStatus: cashierProcedure
+    .meta({ audit: { entity: 'transaction' } })
     .input(z.object({
       id: z.number(),
       status: z.enum(['pending', 'paid', 'cancelled'])
     }))
     .mutation(({ input }) => updateTransactionStatus(input.id, input.status)),
+
+  addPayment: cashierProcedure
+    .meta({ audit: { entity: 'transaction', entityId: (input) => (input as { transaction_id: number }).transaction_id } })
+    .input(createPaymentInputSchema)
+    .mutation(({ input }) => addPayment(input)),
+
+  getPayments: frontDeskProcedure
+    .input(z.number())
+    .query(({ input }) => getPayments(input)),
+
+  createRefund: cashierProcedure
+    .meta({ audit: { entity: 'transaction', entityId: (input) => (input as { transaction_id: number }).transaction_id } })
+    .input(createRefundInputSchema)
+    .mutation(({ input }) => createRefund(input)),
+
+  getRefunds: frontDeskProcedure
+    .input(z.number())
+    .query(({ input }) => getRefunds(input)),
+
+  getRefundableItems: cashierProcedure
+    .input(z.number())
+    .query(({ input }) => getRefundableItems(input)),
     
-  addTransactionNotes: publicProcedure
+  addTransactionNotes: cashierProcedure
+    .meta({ audit: { entity: 'transaction' } })
     .input(z.object({
       id: z.number(),
       notes: z.string()
     }))
     .mutation(({ input }) => addTransactionNotes(input.id, input.notes)),
     
-  deleteTransaction: publicProcedure
+  deleteTransaction: ownerProcedure
+    .meta({ audit: { entity: 'transaction' } })
     .input(z.number())
     .mutation(({ input }) => deleteTransaction(input)),
 
   // Patient visits
-  createPatientVisit: publicProcedure
+  createPatientVisit: clinicalProcedure
+    .meta({ audit: { entity: 'patient_visit' } })
     .input(createPatientVisitInputSchema)
     .mutation(({ input }) => createPatientVisit(input)),
     
-  getPatientVisits: publicProcedure
+  getPatientVisits: frontDeskProcedure
     .input(z.number())
     .query(({ input }) => getPatientVisits(input)),
     
-  getVisitById: publicProcedure
+  getVisitById: frontDeskProcedure
     .input(z.number())
     .query(({ input }) => getVisitById(input)),
     
-  updatePatientVisit: publicProcedure
+  updatePatientVisit: clinicalProcedure
+    .meta({ audit: { entity: 'patient_visit' } })
     .input(z.object({
       id: z.number(),
       diagnosis: z.string().optional(),
@@ -210,56 +747,117 @@ const appRouter = router({
     }))
     .mutation(({ input }) => updatePatientVisit(input.id, input.diagnosis, input.treatment, input.notes)),
 
+  getProcedureRecord: frontDeskProcedure
+    .input(z.number())
+    .query(({ input }) => getProcedureRecord(input)),
+
+  saveProcedureRecord: clinicalProcedure
+    .meta({ audit: { entity: 'patient_visit', entityId: (input) => (input as { visit_id: number }).visit_id } })
+    .input(saveProcedureRecordInputSchema)
+    .mutation(({ input }) => saveProcedureRecord(input)),
+
+  // Post-operative follow-ups
+  getDueFollowUps: frontDeskProcedure
+    .input(dueFollowUpsInputSchema)
+    .query(({ input }) => getDueFollowUps(input)),
+
+  cancelFollowUp: frontDeskProcedure
+    .meta({ audit: { entity: 'follow_up' } })
+    .input(z.number())
+    .mutation(({ input }) => cancelFollowUp(input)),
+
+  // Appointments
+  getAppointments: frontDeskProcedure
+    .input(appointmentSearchInputSchema)
+    .query(({ input }) => getAppointments(input)),
+
+  getAppointmentSlots: frontDeskProcedure
+    .input(z.coerce.date())
+    .query(({ input }) => getAppointmentSlots(input)),
+
+  createAppointment: frontDeskProcedure
+    .meta({ audit: { entity: 'appointment' } })
+    .input(createAppointmentInputSchema)
+    .mutation(({ input }) => createAppointment(input)),
+
+  rescheduleAppointment: frontDeskProcedure
+    .meta({ audit: { entity: 'appointment' } })
+    .input(rescheduleAppointmentInputSchema)
+    .mutation(({ input }) => rescheduleAppointment(input)),
+
+  cancelAppointment: frontDeskProcedure
+    .meta({ audit: { entity: 'appointment' } })
+    .input(z.number())
+    .mutation(({ input }) => cancelAppointment(input)),
+
+  markAppointmentNoShow: frontDeskProcedure
+    .meta({ audit: { entity: 'appointment' } })
+    .input(z.number())
+    .mutation(({ input }) => markAppointmentNoShow(input)),
+
   // Dashboard
-  getDashboardStats: publicProcedure
+  getDashboardStats: protectedProcedure
     .query(() => getDashboardStats()),
     
-  getDailyRevenue: publicProcedure
+  getDailyRevenue: protectedProcedure
     .input(z.coerce.date().optional())
     .query(({ input }) => getDailyRevenue(input)),
     
-  getMonthlyRevenue: publicProcedure
+  getMonthlyRevenue: protectedProcedure
     .input(z.object({
       year: z.number().int(),
       month: z.number().int().min(1).max(12)
     }))
     .query(({ input }) => getMonthlyRevenue(input.year, input.month)),
+
+  getGrossMargin: ownerProcedure
+    .input(grossMarginInputSchema)
+    .query(({ input }) => getGrossMargin(input)),
     
-  getTopServices: publicProcedure
+  getTopServices: protectedProcedure
     .input(z.number().int().positive().default(5))
     .query(({ input }) => getTopServices(input)),
 
   // Settings/Branding
-  getSettings: publicProcedure
+  getSettings: protectedProcedure
     .query(() => getSettings()),
     
-  getSettingByKey: publicProcedure
+  getSettingByKey: protectedProcedure
     .input(z.string())
     .query(({ input }) => getSettingByKey(input)),
     
-  updateSetting: publicProcedure
+  updateSetting: ownerProcedure
+    .meta({ audit: { entity: 'setting', entityId: (input) => (input as { key: string }).key } })
     .input(updateSettingsInputSchema)
     .mutation(({ input }) => updateSetting(input)),
     
-  initializeDefaultSettings: publicProcedure
+  initializeDefaultSettings: ownerProcedure
     .mutation(() => initializeDefaultSettings()),
 
   // Reports
-  generateSalesReport: publicProcedure
+  generateSalesReport: ownerProcedure
     .input(reportInputSchema)
     .mutation(({ input }) => generateSalesReport(input)),
     
-  generateInventoryReport: publicProcedure
+  generateInventoryReport: ownerProcedure
     .input(reportInputSchema)
     .mutation(({ input }) => generateInventoryReport(input)),
     
-  generatePatientReport: publicProcedure
+  generatePatientReport: ownerProcedure
     .input(reportInputSchema)
     .mutation(({ input }) => generatePatientReport(input)),
     
-  generateReceiptData: publicProcedure
+  generateReceiptData: cashierProcedure
     .input(z.number())
     .query(({ input }) => generateReceiptData(input)),
+
+  generateReceiptFile: cashierProcedure
+    .input(receiptFileInputSchema)
+    .query(({ input }) => generateReceiptFile(input)),
+
+  generateShiftReport: cashierProcedure
+    .input(z.number())
+    .query(({ input }) => generateShiftReport(input)),
 });
 
 export type AppRouter = typeof appRouter;
@@ -283,9 +881,7 @@ async function start() {
       })(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   
   server.listen(port);
@@ -1,8 +1,36 @@
 import { z } from 'zod';
 
+// Paging shared by the list procedures. A page is picked by offset or by the
+// opaque nextCursor of the previous page; sorting is limited to whitelisted
+// columns, with the ID as tie-breaker so pages never overlap.
+export const sortDirectionSchema = z.enum(['asc', 'desc']);
+
+export type SortDirection = z.infer<typeof sortDirectionSchema>;
+
+const paginationInputSchema = (defaultLimit: number) => z.object({
+  limit: z.number().int().positive().max(200).default(defaultLimit),
+  offset: z.number().int().nonnegative().default(0),
+  cursor: z.string().nullable().optional() // Takes precedence over offset
+});
+
+export const paginatedSchema = <T extends z.ZodTypeAny>(item: T) => z.object({
+  items: z.array(item),
+  total: z.number().int(), // Matching rows across all pages
+  hasMore: z.boolean(),
+  nextCursor: z.string().nullable()
+});
+
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
 // Patient schema
 export const patientSchema = z.object({
   id: z.number(),
+  medical_record_number: z.string().nullable(),
   name: z.string(),
   date_of_birth: z.coerce.date(),
   gender: z.enum(['Laki-laki', 'Perempuan']),
@@ -10,6 +38,8 @@ export const patientSchema = z.object({
   address: z.string().nullable(),
   emergency_contact: z.string().nullable(),
   medical_notes: z.string().nullable(),
+  archived_at: z.coerce.date().nullable(), // set when archived; hidden from default lists
+  archived_by: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -43,6 +73,95 @@ export const updatePatientInputSchema = z.object({
 
 export type UpdatePatientInput = z.infer<typeof updatePatientInputSchema>;
 
+// Bulk patient import from a CSV or XLSX file
+export const patientImportInputSchema = z.object({
+  filename: z.string().min(1),
+  content_base64: z.string().min(1)
+});
+
+export type PatientImportInput = z.infer<typeof patientImportInputSchema>;
+
+export const patientImportRowStatusSchema = z.enum(['valid', 'invalid', 'duplicate']);
+
+export type PatientImportRowStatus = z.infer<typeof patientImportRowStatusSchema>;
+
+export const patientImportRowSchema = z.object({
+  row_number: z.number().int(), // Spreadsheet row; the header is row 1
+  name: z.string(),
+  status: patientImportRowStatusSchema,
+  errors: z.array(z.string()),
+  patient: createPatientInputSchema.nullable(), // Mapped values when the row passed validation
+  duplicate_of: z.number().nullable() // Existing patient with the same name, date of birth and phone
+});
+
+export type PatientImportRow = z.infer<typeof patientImportRowSchema>;
+
+export const patientImportResultSchema = z.object({
+  columns: z.array(z.string()), // Patient fields recognised in the header
+  rows: z.array(patientImportRowSchema),
+  valid_count: z.number().int(),
+  invalid_count: z.number().int(),
+  duplicate_count: z.number().int(),
+  imported_count: z.number().int() // Always 0 for a preview
+});
+
+export type PatientImportResult = z.infer<typeof patientImportResultSchema>;
+
+// Guardian (parent) schema
+export const guardianSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  relationship: z.string(),
+  nik: z.string().nullable(),
+  phone: z.string().nullable(),
+  address: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Guardian = z.infer<typeof guardianSchema>;
+
+// A guardian as linked to one patient
+export const patientGuardianSchema = guardianSchema.extend({
+  is_primary: z.boolean()
+});
+
+export type PatientGuardian = z.infer<typeof patientGuardianSchema>;
+
+const nikSchema = z.string().regex(/^\d{16}$/, "NIK harus 16 digit angka");
+
+// Input schema for creating guardians
+export const createGuardianInputSchema = z.object({
+  name: z.string().min(1, "Nama wali harus diisi"),
+  relationship: z.string().min(1, "Hubungan dengan pasien harus diisi"),
+  nik: nikSchema.nullable(),
+  phone: z.string().nullable(),
+  address: z.string().nullable()
+});
+
+export type CreateGuardianInput = z.infer<typeof createGuardianInputSchema>;
+
+// Input schema for updating guardians
+export const updateGuardianInputSchema = z.object({
+  id: z.number(),
+  name: z.string().min(1, "Nama wali harus diisi").optional(),
+  relationship: z.string().min(1, "Hubungan dengan pasien harus diisi").optional(),
+  nik: nikSchema.nullable().optional(),
+  phone: z.string().nullable().optional(),
+  address: z.string().nullable().optional()
+});
+
+export type UpdateGuardianInput = z.infer<typeof updateGuardianInputSchema>;
+
+// Input schema for linking a guardian to a patient
+export const linkGuardianInputSchema = z.object({
+  patient_id: z.number(),
+  guardian_id: z.number(),
+  is_primary: z.boolean().default(false)
+});
+
+export type LinkGuardianInput = z.infer<typeof linkGuardianInputSchema>;
+
 // Medicine schema
 export const medicineSchema = z.object({
   id: z.number(),
@@ -50,10 +169,13 @@ export const medicineSchema = z.object({
   description: z.string().nullable(),
   unit: z.string(), // e.g., "tablet", "botol", "strip"
   price_per_unit: z.number(),
+  average_cost: z.number().nullable(), // Moving-average purchase cost per unit
   stock_quantity: z.number().int(),
   minimum_stock: z.number().int(),
   expiry_date: z.coerce.date().nullable(),
   supplier: z.string().nullable(),
+  archived_at: z.coerce.date().nullable(),
+  archived_by: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -89,13 +211,29 @@ export const updateMedicineInputSchema = z.object({
 
 export type UpdateMedicineInput = z.infer<typeof updateMedicineInputSchema>;
 
+// Medicine batch schema (one delivered lot)
+export const medicineBatchSchema = z.object({
+  id: z.number(),
+  medicine_id: z.number(),
+  lot_number: z.string().nullable(),
+  expiry_date: z.coerce.date().nullable(),
+  quantity: z.number().int(), // Remaining units
+  purchase_price: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type MedicineBatch = z.infer<typeof medicineBatchSchema>;
+
 // Stock movement schema
 export const stockMovementSchema = z.object({
   id: z.number(),
   medicine_id: z.number(),
   movement_type: z.enum(['masuk', 'keluar']),
   quantity: z.number().int(),
-  reference_id: z.number().nullable(), // reference to transaction if it's an outgoing movement
+  reference_id: z.number().nullable(), // The transaction, goods receipt or stock take, by reference_type
+  reference_type: z.enum(['transaction', 'goods_receipt', 'stock_take']).nullable(),
+  unit_cost: z.number().nullable(), // Purchase cost per unit of a stock-in
   notes: z.string().nullable(),
   created_at: z.coerce.date()
 });
@@ -108,11 +246,265 @@ export const createStockMovementInputSchema = z.object({
   movement_type: z.enum(['masuk', 'keluar']),
   quantity: z.number().int().positive("Jumlah harus lebih dari 0"),
   reference_id: z.number().nullable(),
-  notes: z.string().nullable()
+  notes: z.string().nullable(),
+  // Batch details of an incoming delivery
+  lot_number: z.string().nullable().optional(),
+  expiry_date: z.coerce.date().nullable().optional(),
+  purchase_price: z.number().nonnegative("Harga beli tidak boleh negatif").nullable().optional()
 });
 
 export type CreateStockMovementInput = z.infer<typeof createStockMovementInputSchema>;
 
+// Newest movements first
+export const stockMovementSearchInputSchema = paginationInputSchema(50).extend({
+  medicine_id: z.number().optional()
+});
+
+export type StockMovementSearchInput = z.infer<typeof stockMovementSearchInputSchema>;
+
+// Supplier schema
+export const supplierSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  contact_person: z.string().nullable(),
+  phone: z.string().nullable(),
+  address: z.string().nullable(),
+  notes: z.string().nullable(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Supplier = z.infer<typeof supplierSchema>;
+
+export const createSupplierInputSchema = z.object({
+  name: z.string().trim().min(1, "Nama supplier wajib diisi"),
+  contact_person: z.string().nullable(),
+  phone: z.string().nullable(),
+  address: z.string().nullable(),
+  notes: z.string().nullable(),
+  is_active: z.boolean().default(true)
+});
+
+export type CreateSupplierInput = z.infer<typeof createSupplierInputSchema>;
+
+export const updateSupplierInputSchema = createSupplierInputSchema.partial().extend({
+  id: z.number()
+});
+
+export type UpdateSupplierInput = z.infer<typeof updateSupplierInputSchema>;
+
+// By name
+export const supplierSearchInputSchema = paginationInputSchema(50).extend({
+  active_only: z.boolean().default(false)
+});
+
+export type SupplierSearchInput = z.infer<typeof supplierSearchInputSchema>;
+
+// Purchase order schemas
+export const purchaseOrderStatusSchema = z.enum(['ordered', 'partially_received', 'received', 'cancelled']);
+
+export type PurchaseOrderStatus = z.infer<typeof purchaseOrderStatusSchema>;
+
+export const purchaseOrderItemSchema = z.object({
+  id: z.number(),
+  medicine_id: z.number(),
+  medicine_name: z.string(),
+  unit: z.string(),
+  quantity_ordered: z.number().int(),
+  quantity_received: z.number().int(),
+  expected_price: z.number()
+});
+
+export type PurchaseOrderItem = z.infer<typeof purchaseOrderItemSchema>;
+
+export const purchaseOrderSchema = z.object({
+  id: z.number(),
+  supplier_id: z.number(),
+  supplier_name: z.string(),
+  status: purchaseOrderStatusSchema,
+  order_date: z.coerce.date(),
+  expected_date: z.coerce.date().nullable(),
+  notes: z.string().nullable(),
+  expected_total: z.number(), // Ordered quantities at the expected prices
+  received_cost: z.number(), // What the goods received so far cost
+  items: z.array(purchaseOrderItemSchema),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type PurchaseOrder = z.infer<typeof purchaseOrderSchema>;
+
+export const createPurchaseOrderInputSchema = z.object({
+  supplier_id: z.number(),
+  order_date: z.coerce.date(),
+  expected_date: z.coerce.date().nullable(),
+  notes: z.string().nullable(),
+  items: z.array(z.object({
+    medicine_id: z.number(),
+    quantity: z.number().int().positive("Jumlah pesanan harus lebih dari 0"),
+    expected_price: z.number().nonnegative("Harga tidak boleh negatif")
+  })).min(1, "Pesanan harus berisi minimal satu obat")
+});
+
+export type CreatePurchaseOrderInput = z.infer<typeof createPurchaseOrderInputSchema>;
+
+export const purchaseOrderSearchInputSchema = paginationInputSchema(50).extend({
+  supplier_id: z.number().optional(),
+  status: purchaseOrderStatusSchema.optional(),
+  sort_by: z.enum(['order_date', 'created_at']).default('order_date'),
+  sort_direction: sortDirectionSchema.default('desc')
+});
+
+export type PurchaseOrderSearchInput = z.infer<typeof purchaseOrderSearchInputSchema>;
+
+// Goods receipt schemas
+export const goodsReceiptItemSchema = z.object({
+  id: z.number(),
+  purchase_order_item_id: z.number(),
+  medicine_id: z.number(),
+  medicine_name: z.string(),
+  quantity: z.number().int(),
+  unit_cost: z.number(),
+  lot_number: z.string().nullable(),
+  expiry_date: z.coerce.date().nullable(),
+  stock_movement_id: z.number()
+});
+
+export type GoodsReceiptItem = z.infer<typeof goodsReceiptItemSchema>;
+
+export const goodsReceiptSchema = z.object({
+  id: z.number(),
+  purchase_order_id: z.number(),
+  invoice_number: z.string().nullable(),
+  total_cost: z.number(),
+  notes: z.string().nullable(),
+  received_at: z.coerce.date(),
+  items: z.array(goodsReceiptItemSchema)
+});
+
+export type GoodsReceipt = z.infer<typeof goodsReceiptSchema>;
+
+// Input schema for receiving a delivery; lines may cover part of what was ordered
+export const receiveGoodsInputSchema = z.object({
+  purchase_order_id: z.number(),
+  invoice_number: z.string().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  items: z.array(z.object({
+    purchase_order_item_id: z.number(),
+    quantity: z.number().int().positive("Jumlah diterima harus lebih dari 0"),
+    unit_cost: z.number().nonnegative("Harga beli tidak boleh negatif").optional(), // Defaults to the expected price
+    lot_number: z.string().nullable().optional(),
+    expiry_date: z.coerce.date().nullable().optional()
+  })).min(1, "Penerimaan harus berisi minimal satu obat")
+});
+
+export type ReceiveGoodsInput = z.infer<typeof receiveGoodsInputSchema>;
+
+// Reorder suggestion schemas
+export const reorderSuggestionInputSchema = z.object({
+  lookback_days: z.number().int().positive().default(30), // Window the consumption rate is measured over
+  cover_days: z.number().int().positive().default(30) // How many days of consumption a reorder should buy
+});
+
+export type ReorderSuggestionInput = z.infer<typeof reorderSuggestionInputSchema>;
+
+export const reorderSuggestionItemSchema = z.object({
+  medicine_id: z.number(),
+  medicine_name: z.string(),
+  unit: z.string(),
+  stock_quantity: z.number().int(),
+  minimum_stock: z.number().int(),
+  on_order: z.number().int(), // Ordered from suppliers but not received yet
+  average_daily_usage: z.number(),
+  days_of_cover: z.number().nullable(), // null when nothing was used in the window
+  suggested_quantity: z.number().int(),
+  expected_price: z.number().nullable() // Last ordered price, else the moving-average cost
+});
+
+export type ReorderSuggestionItem = z.infer<typeof reorderSuggestionItemSchema>;
+
+export const reorderSuggestionGroupSchema = z.object({
+  supplier_id: z.number().nullable(), // null when no supplier could be matched
+  supplier_name: z.string().nullable(),
+  estimated_total: z.number(),
+  items: z.array(reorderSuggestionItemSchema)
+});
+
+export type ReorderSuggestionGroup = z.infer<typeof reorderSuggestionGroupSchema>;
+
+export const reorderSuggestionsSchema = z.object({
+  threshold_days: z.number().int(),
+  lookback_days: z.number().int(),
+  cover_days: z.number().int(),
+  groups: z.array(reorderSuggestionGroupSchema)
+});
+
+export type ReorderSuggestions = z.infer<typeof reorderSuggestionsSchema>;
+
+// Stock opname (stock take) schemas
+export const stockTakeStatusSchema = z.enum(['counting', 'approved', 'cancelled']);
+
+export type StockTakeStatus = z.infer<typeof stockTakeStatusSchema>;
+
+export const stockTakeItemSchema = z.object({
+  id: z.number(),
+  medicine_id: z.number(),
+  medicine_name: z.string(),
+  unit: z.string(),
+  location: z.string().nullable(),
+  expected_quantity: z.number().int(),
+  counted_quantity: z.number().int().nullable(),
+  variance: z.number().int().nullable(), // Counted less expected; null until counted
+  unit_value: z.number(),
+  variance_value: z.number().nullable()
+});
+
+export type StockTakeItem = z.infer<typeof stockTakeItemSchema>;
+
+export const stockTakeSchema = z.object({
+  id: z.number(),
+  status: stockTakeStatusSchema,
+  notes: z.string().nullable(),
+  started_by: z.number(),
+  started_by_name: z.string(),
+  started_at: z.coerce.date(),
+  approved_by: z.number().nullable(),
+  approved_by_name: z.string().nullable(),
+  approved_at: z.coerce.date().nullable(),
+  total_items: z.number().int(),
+  counted_items: z.number().int(),
+  items_with_variance: z.number().int(),
+  shortage_value: z.number(), // Value of the units missing from the shelf, as a positive amount
+  surplus_value: z.number(),
+  items: z.array(stockTakeItemSchema)
+});
+
+export type StockTake = z.infer<typeof stockTakeSchema>;
+
+export const startStockTakeInputSchema = z.object({
+  notes: z.string().nullable().optional()
+});
+
+export type StartStockTakeInput = z.infer<typeof startStockTakeInputSchema>;
+
+// Latest started first
+export const stockTakeSearchInputSchema = paginationInputSchema(20);
+
+export type StockTakeSearchInput = z.infer<typeof stockTakeSearchInputSchema>;
+
+// Counts can be saved shelf by shelf; a null quantity clears an earlier count
+export const saveStockTakeCountsInputSchema = z.object({
+  stock_take_id: z.number(),
+  counts: z.array(z.object({
+    item_id: z.number(),
+    counted_quantity: z.number().int().nonnegative("Jumlah dihitung tidak boleh negatif").nullable(),
+    location: z.string().nullable().optional()
+  })).min(1)
+});
+
+export type SaveStockTakeCountsInput = z.infer<typeof saveStockTakeCountsInputSchema>;
+
 // Service schema
 export const serviceSchema = z.object({
   id: z.number(),
@@ -120,18 +512,25 @@ export const serviceSchema = z.object({
   description: z.string().nullable(),
   price: z.number(),
   is_active: z.boolean(),
+  follow_up_days: z.array(z.number().int()),
+  archived_at: z.coerce.date().nullable(),
+  archived_by: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 
 export type Service = z.infer<typeof serviceSchema>;
 
+// Days after the procedure on which the patient should come back for a control visit
+const followUpDaysSchema = z.array(z.number().int().positive("Hari kontrol harus lebih dari 0"));
+
 // Input schema for creating services
 export const createServiceInputSchema = z.object({
   name: z.string().min(1, "Nama layanan harus diisi"),
   description: z.string().nullable(),
   price: z.number().positive("Harga harus lebih dari 0"),
-  is_active: z.boolean().default(true)
+  is_active: z.boolean().default(true),
+  follow_up_days: followUpDaysSchema.default([])
 });
 
 export type CreateServiceInput = z.infer<typeof createServiceInputSchema>;
@@ -142,18 +541,181 @@ export const updateServiceInputSchema = z.object({
   name: z.string().min(1, "Nama layanan harus diisi").optional(),
   description: z.string().nullable().optional(),
   price: z.number().positive("Harga harus lebih dari 0").optional(),
-  is_active: z.boolean().optional()
+  is_active: z.boolean().optional(),
+  follow_up_days: followUpDaysSchema.optional()
 });
 
 export type UpdateServiceInput = z.infer<typeof updateServiceInputSchema>;
 
+// Service package schemas
+export const packageItemTypeSchema = z.enum(['service', 'medicine']);
+
+export type PackageItemType = z.infer<typeof packageItemTypeSchema>;
+
+export const servicePackageItemSchema = z.object({
+  item_type: packageItemTypeSchema,
+  item_id: z.number(), // Service or medicine ID by item_type
+  name: z.string(),
+  quantity: z.number().int(),
+  price: z.number(), // Current list price per unit
+  available: z.boolean() // False once the service is inactive or archived, or the medicine archived
+});
+
+export type ServicePackageItem = z.infer<typeof servicePackageItemSchema>;
+
+export const servicePackageSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  price: z.number(),
+  is_active: z.boolean(),
+  items: z.array(servicePackageItemSchema),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ServicePackage = z.infer<typeof servicePackageSchema>;
+
+const servicePackageItemsInputSchema = z.array(z.object({
+  item_type: packageItemTypeSchema,
+  item_id: z.number(),
+  quantity: z.number().int().positive("Jumlah harus lebih dari 0")
+})).min(1, "Paket harus berisi minimal satu layanan atau obat");
+
+// Input schema for creating service packages
+export const createServicePackageInputSchema = z.object({
+  name: z.string().trim().min(1, "Nama paket harus diisi"),
+  description: z.string().nullable(),
+  price: z.number().positive("Harga harus lebih dari 0"),
+  is_active: z.boolean().default(true),
+  items: servicePackageItemsInputSchema
+});
+
+export type CreateServicePackageInput = z.infer<typeof createServicePackageInputSchema>;
+
+// Input schema for updating service packages; items replace the package contents
+export const updateServicePackageInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1, "Nama paket harus diisi").optional(),
+  description: z.string().nullable().optional(),
+  price: z.number().positive("Harga harus lebih dari 0").optional(),
+  is_active: z.boolean().optional(),
+  items: servicePackageItemsInputSchema.optional()
+});
+
+export type UpdateServicePackageInput = z.infer<typeof updateServicePackageInputSchema>;
+
+// Promotion schemas
+export const promotionDiscountTypeSchema = z.enum(['percentage', 'fixed']);
+
+export type PromotionDiscountType = z.infer<typeof promotionDiscountTypeSchema>;
+
+export const promotionScopeSchema = z.enum(['service', 'bill']);
+
+export type PromotionScope = z.infer<typeof promotionScopeSchema>;
+
+export const promotionSchema = z.object({
+  id: z.number(),
+  code: z.string(),
+  name: z.string(),
+  discount_type: promotionDiscountTypeSchema,
+  discount_value: z.number(),
+  scope: promotionScopeSchema,
+  service_id: z.number().nullable(),
+  valid_from: z.coerce.date(),
+  valid_until: z.coerce.date(),
+  usage_limit: z.number().int().nullable(),
+  usage_count: z.number().int(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Promotion = z.infer<typeof promotionSchema>;
+
+// Input schema for creating promotions; a fixed discount on a service is per unit
+export const createPromotionInputSchema = z.object({
+  code: z.string().trim().min(3, "Kode promo minimal 3 karakter").regex(/^[A-Za-z0-9_-]+$/, "Kode promo hanya boleh huruf, angka, garis bawah dan strip"),
+  name: z.string().trim().min(1, "Nama promo harus diisi"),
+  discount_type: promotionDiscountTypeSchema,
+  discount_value: z.number().positive("Nilai diskon harus lebih dari 0"),
+  scope: promotionScopeSchema,
+  service_id: z.number().nullable(),
+  valid_from: z.coerce.date(),
+  valid_until: z.coerce.date(),
+  usage_limit: z.number().int().positive("Kuota pemakaian harus lebih dari 0").nullable(),
+  is_active: z.boolean().default(true)
+}).refine(input => input.discount_type !== 'percentage' || input.discount_value <= 100, {
+  message: 'Diskon persentase maksimal 100%',
+  path: ['discount_value']
+}).refine(input => input.scope !== 'service' || input.service_id !== null, {
+  message: 'Pilih layanan untuk promo per layanan',
+  path: ['service_id']
+}).refine(input => input.valid_until >= input.valid_from, {
+  message: 'Tanggal berakhir tidak boleh sebelum tanggal mulai',
+  path: ['valid_until']
+});
+
+export type CreatePromotionInput = z.infer<typeof createPromotionInputSchema>;
+
+// Input schema for updating promotions; the code, type and scope are fixed once created
+export const updatePromotionInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1, "Nama promo harus diisi").optional(),
+  discount_value: z.number().positive("Nilai diskon harus lebih dari 0").optional(),
+  valid_from: z.coerce.date().optional(),
+  valid_until: z.coerce.date().optional(),
+  usage_limit: z.number().int().positive("Kuota pemakaian harus lebih dari 0").nullable().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdatePromotionInput = z.infer<typeof updatePromotionInputSchema>;
+
+// Newest first
+export const promotionSearchInputSchema = paginationInputSchema(50);
+
+export type PromotionSearchInput = z.infer<typeof promotionSearchInputSchema>;
+
+// Discount a promo code would give on a cart, checked before checkout
+export const promotionPreviewInputSchema = z.object({
+  promo_code: z.string().trim().min(1, "Kode promo harus diisi"),
+  services: z.array(z.object({
+    service_id: z.number(),
+    quantity: z.number().int().positive()
+  })),
+  medicines: z.array(z.object({
+    medicine_id: z.number(),
+    quantity: z.number().int().positive()
+  })).optional(),
+  packages: z.array(z.object({
+    package_id: z.number(),
+    quantity: z.number().int().positive()
+  })).optional()
+});
+
+export type PromotionPreviewInput = z.infer<typeof promotionPreviewInputSchema>;
+
+export const promotionPreviewSchema = z.object({
+  promotion: promotionSchema,
+  subtotal: z.number(),
+  discount_amount: z.number(),
+  total_amount: z.number()
+});
+
+export type PromotionPreview = z.infer<typeof promotionPreviewSchema>;
+
 // Transaction schema
 export const transactionSchema = z.object({
   id: z.number(),
   patient_id: z.number(),
   total_amount: z.number(),
+  discount_amount: z.number(),
+  promotion_id: z.number().nullable(),
   payment_method: z.enum(['tunai', 'transfer', 'kartu']),
-  payment_status: z.enum(['pending', 'paid', 'cancelled']),
+  payment_status: z.enum(['pending', 'partially_paid', 'paid', 'cancelled']),
+  paid_amount: z.number(),
+  refunded_amount: z.number(),
+  shift_id: z.number().nullable(),
   notes: z.string().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
@@ -166,7 +728,13 @@ export const createTransactionInputSchema = z.object({
   patient_id: z.number(),
   payment_method: z.enum(['tunai', 'transfer', 'kartu']),
   payment_status: z.enum(['pending', 'paid', 'cancelled']).default('pending'),
+  // Money taken at checkout, e.g. a down payment (DP); when given, the status follows the amount paid
+  payments: z.array(z.object({
+    amount: z.number().positive("Jumlah pembayaran harus lebih dari 0"),
+    payment_method: z.enum(['tunai', 'transfer', 'kartu'])
+  })).optional(),
   notes: z.string().nullable(),
+  promo_code: z.string().trim().min(1).optional(), // discounts the lines the promotion covers
   services: z.array(z.object({
     service_id: z.number(),
     quantity: z.number().int().positive()
@@ -174,18 +742,171 @@ export const createTransactionInputSchema = z.object({
   medicines: z.array(z.object({
     medicine_id: z.number(),
     quantity: z.number().int().positive()
-  })).optional()
+  })).optional(),
+  packages: z.array(z.object({
+    package_id: z.number(),
+    quantity: z.number().int().positive()
+  })).optional(), // expanded into their services and medicines at the bundle price
+  appointment_id: z.number().optional() // set when the transaction settles a booked appointment
 });
 
 export type CreateTransactionInput = z.infer<typeof createTransactionInputSchema>;
 
+// Payment schema (one installment towards a transaction)
+export const paymentSchema = z.object({
+  id: z.number(),
+  transaction_id: z.number(),
+  amount: z.number(),
+  payment_method: z.enum(['tunai', 'transfer', 'kartu']),
+  shift_id: z.number().nullable(),
+  notes: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type Payment = z.infer<typeof paymentSchema>;
+
+// Input schema for recording a payment
+export const createPaymentInputSchema = z.object({
+  transaction_id: z.number(),
+  amount: z.number().positive("Jumlah pembayaran harus lebih dari 0"),
+  payment_method: z.enum(['tunai', 'transfer', 'kartu']),
+  notes: z.string().nullable().optional()
+});
+
+export type CreatePaymentInput = z.infer<typeof createPaymentInputSchema>;
+
+// Refund (credit note) schemas
+export const refundItemTypeSchema = z.enum(['service', 'medicine']);
+
+export type RefundItemType = z.infer<typeof refundItemTypeSchema>;
+
+export const refundItemSchema = z.object({
+  id: z.number(),
+  refund_id: z.number(),
+  item_type: refundItemTypeSchema,
+  transaction_item_id: z.number(),
+  quantity: z.number().int(),
+  amount: z.number()
+});
+
+export type RefundItem = z.infer<typeof refundItemSchema>;
+
+export const refundSchema = z.object({
+  id: z.number(),
+  transaction_id: z.number(),
+  amount: z.number(),
+  refund_method: z.enum(['tunai', 'transfer', 'kartu']),
+  reason: z.string(),
+  shift_id: z.number().nullable(),
+  created_at: z.coerce.date(),
+  items: z.array(refundItemSchema)
+});
+
+export type Refund = z.infer<typeof refundSchema>;
+
+// A transaction line with what is left to refund
+export const refundableItemSchema = z.object({
+  item_type: refundItemTypeSchema,
+  transaction_item_id: z.number(),
+  name: z.string(),
+  quantity: z.number().int(),
+  refunded_quantity: z.number().int(),
+  price_per_unit: z.number(),
+  total_price: z.number() // After the line's discount; refunds are valued from this
+});
+
+export type RefundableItem = z.infer<typeof refundableItemSchema>;
+
+// Input schema for refunding a transaction; without items everything not yet refunded is returned
+export const createRefundInputSchema = z.object({
+  transaction_id: z.number(),
+  refund_method: z.enum(['tunai', 'transfer', 'kartu']),
+  reason: z.string().trim().min(1, "Alasan refund wajib diisi"),
+  items: z.array(z.object({
+    item_type: refundItemTypeSchema,
+    transaction_item_id: z.number(),
+    quantity: z.number().int().positive()
+  })).min(1).optional()
+});
+
+export type CreateRefundInput = z.infer<typeof createRefundInputSchema>;
+
+// Cashier shift schemas
+export const shiftStatusSchema = z.enum(['open', 'closed']);
+
+export type ShiftStatus = z.infer<typeof shiftStatusSchema>;
+
+export const shiftCashCountSchema = z.object({
+  denomination: z.number().int().positive(), // Banknote or coin value in rupiah
+  quantity: z.number().int().nonnegative()
+});
+
+export type ShiftCashCount = z.infer<typeof shiftCashCountSchema>;
+
+// Money a drawer should hold per payment method against what was counted at closing
+export const shiftReconciliationSchema = z.object({
+  payment_method: z.enum(['tunai', 'transfer', 'kartu']),
+  expected_amount: z.number(), // Opening float (cash only) + payments received - refunds paid back
+  counted_amount: z.number().nullable(), // Null while the shift is open
+  difference: z.number().nullable() // Counted - expected; negative means money is missing
+});
+
+export type ShiftReconciliation = z.infer<typeof shiftReconciliationSchema>;
+
+export const cashierShiftSchema = z.object({
+  id: z.number(),
+  status: shiftStatusSchema,
+  opening_float: z.number(),
+  opened_by: z.number(),
+  opened_by_name: z.string(),
+  opened_at: z.coerce.date(),
+  closed_by: z.number().nullable(),
+  closed_by_name: z.string().nullable(),
+  closed_at: z.coerce.date().nullable(),
+  closing_notes: z.string().nullable(),
+  transaction_count: z.number().int(),
+  refund_count: z.number().int(),
+  cash_counts: z.array(shiftCashCountSchema),
+  reconciliation: z.array(shiftReconciliationSchema)
+});
+
+export type CashierShift = z.infer<typeof cashierShiftSchema>;
+
+export const openShiftInputSchema = z.object({
+  opening_float: z.number().nonnegative("Modal awal tidak boleh negatif")
+});
+
+export type OpenShiftInput = z.infer<typeof openShiftInputSchema>;
+
+// Input schema for closing a shift: the cash counted per denomination and the non-cash totals
+// from the card terminal settlement and the bank statement
+export const closeShiftInputSchema = z.object({
+  id: z.number(),
+  cash_counts: z.array(shiftCashCountSchema),
+  non_cash_counts: z.array(z.object({
+    payment_method: z.enum(['transfer', 'kartu']),
+    amount: z.number().nonnegative()
+  })).default([]), // Methods left out count as nothing received
+  closing_notes: z.string().nullable().optional()
+});
+
+export type CloseShiftInput = z.infer<typeof closeShiftInputSchema>;
+
+// Latest opened first
+export const shiftSearchInputSchema = paginationInputSchema(20);
+
+export type ShiftSearchInput = z.infer<typeof shiftSearchInputSchema>;
+
 // Transaction item schema for services
 export const transactionServiceSchema = z.object({
   id: z.number(),
   transaction_id: z.number(),
+  transaction_package_id: z.number().nullable(),
   service_id: z.number(),
   quantity: z.number().int(),
+  refunded_quantity: z.number().int(),
   price_per_unit: z.number(),
+  discount_amount: z.number(),
   total_price: z.number(),
   created_at: z.coerce.date()
 });
@@ -196,15 +917,24 @@ export type TransactionService = z.infer<typeof transactionServiceSchema>;
 export const transactionMedicineSchema = z.object({
   id: z.number(),
   transaction_id: z.number(),
+  transaction_package_id: z.number().nullable(),
   medicine_id: z.number(),
   quantity: z.number().int(),
+  refunded_quantity: z.number().int(),
   price_per_unit: z.number(),
+  discount_amount: z.number(),
   total_price: z.number(),
+  unit_cost: z.number().nullable(), // Cost of goods per unit at the moment of sale
   created_at: z.coerce.date()
 });
 
 export type TransactionMedicine = z.infer<typeof transactionMedicineSchema>;
 
+// Wound condition recorded on a post-operative control visit
+export const woundHealingStatusSchema = z.enum(['baik', 'bengkak', 'infeksi', 'perdarahan', 'jahitan_terbuka']);
+
+export type WoundHealingStatus = z.infer<typeof woundHealingStatusSchema>;
+
 // Patient visit schema
 export const patientVisitSchema = z.object({
   id: z.number(),
@@ -214,6 +944,7 @@ export const patientVisitSchema = z.object({
   diagnosis: z.string().nullable(),
   treatment: z.string().nullable(),
   notes: z.string().nullable(),
+  wound_healing_status: woundHealingStatusSchema.nullable(),
   created_at: z.coerce.date()
 });
 
@@ -226,11 +957,104 @@ export const createPatientVisitInputSchema = z.object({
   visit_date: z.coerce.date().default(new Date()),
   diagnosis: z.string().nullable(),
   treatment: z.string().nullable(),
-  notes: z.string().nullable()
+  notes: z.string().nullable(),
+  wound_healing_status: woundHealingStatusSchema.nullable().optional(),
+  follow_up_id: z.number().optional() // The scheduled control visit this visit fulfils
 });
 
 export type CreatePatientVisitInput = z.infer<typeof createPatientVisitInputSchema>;
 
+// Circumcision procedure record schemas
+export const circumcisionMethodSchema = z.enum(['konvensional', 'klamp', 'laser_electrocautery', 'stapler']);
+
+export type CircumcisionMethod = z.infer<typeof circumcisionMethodSchema>;
+
+export const anesthesiaTypeSchema = z.enum(['lokal', 'blok_penis', 'topikal', 'umum']);
+
+export type AnesthesiaType = z.infer<typeof anesthesiaTypeSchema>;
+
+export const procedureRecordSchema = z.object({
+  id: z.number(),
+  visit_id: z.number(),
+  method: circumcisionMethodSchema,
+  anesthesia_type: anesthesiaTypeSchema,
+  anesthesia_dose: z.string().nullable(),
+  operator_name: z.string(),
+  assistant_name: z.string().nullable(),
+  start_time: z.coerce.date(),
+  end_time: z.coerce.date(),
+  blood_loss_ml: z.number().int().nullable(),
+  complications: z.string().nullable(),
+  post_op_instructions: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type ProcedureRecord = z.infer<typeof procedureRecordSchema>;
+
+// Input schema for creating or replacing the procedure record of a visit
+export const saveProcedureRecordInputSchema = z.object({
+  visit_id: z.number(),
+  method: circumcisionMethodSchema,
+  anesthesia_type: anesthesiaTypeSchema,
+  anesthesia_dose: z.string().nullable(),
+  operator_name: z.string().trim().min(1, 'Nama operator wajib diisi'),
+  assistant_name: z.string().nullable(),
+  start_time: z.coerce.date(),
+  end_time: z.coerce.date(),
+  blood_loss_ml: z.number().int().nonnegative('Jumlah perdarahan tidak boleh negatif').nullable(),
+  complications: z.string().nullable(),
+  post_op_instructions: z.string().nullable()
+}).refine(input => input.end_time > input.start_time, {
+  message: 'Waktu selesai harus setelah waktu mulai',
+  path: ['end_time']
+});
+
+export type SaveProcedureRecordInput = z.infer<typeof saveProcedureRecordInputSchema>;
+
+export const patientVisitWithProcedureSchema = patientVisitSchema.extend({
+  procedure: procedureRecordSchema.nullable()
+});
+
+export type PatientVisitWithProcedure = z.infer<typeof patientVisitWithProcedureSchema>;
+
+// Post-operative follow-up schemas
+export const followUpStatusSchema = z.enum(['pending', 'completed', 'cancelled']);
+
+export type FollowUpStatus = z.infer<typeof followUpStatusSchema>;
+
+export const followUpSchema = z.object({
+  id: z.number(),
+  patient_id: z.number(),
+  transaction_id: z.number(),
+  service_id: z.number(),
+  day_offset: z.number().int(),
+  due_date: z.coerce.date(),
+  status: followUpStatusSchema,
+  visit_id: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type FollowUp = z.infer<typeof followUpSchema>;
+
+export const followUpWithDetailsSchema = followUpSchema.extend({
+  patient_name: z.string(),
+  patient_phone: z.string().nullable(),
+  service_name: z.string(),
+  is_missed: z.boolean() // Still pending after its due date
+});
+
+export type FollowUpWithDetails = z.infer<typeof followUpWithDetailsSchema>;
+
+export const dueFollowUpsInputSchema = z.object({
+  as_of: z.coerce.date().optional(), // Defaults to today
+  patient_id: z.number().optional(),
+  include_upcoming: z.boolean().default(false)
+});
+
+export type DueFollowUpsInput = z.infer<typeof dueFollowUpsInputSchema>;
+
 // Settings schema for customizable branding
 export const settingsSchema = z.object({
   id: z.number(),
@@ -263,32 +1087,145 @@ export const dashboardStatsSchema = z.object({
 
 export type DashboardStats = z.infer<typeof dashboardStatsSchema>;
 
+// Revenue against the cost of the medicines sold, both net of refunds
+export const grossMarginSchema = z.object({
+  revenue: z.number(),
+  cost_of_goods: z.number(),
+  gross_margin: z.number(),
+  margin_percent: z.number().nullable() // null when there was no revenue
+});
+
+export type GrossMargin = z.infer<typeof grossMarginSchema>;
+
+export const grossMarginInputSchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date()
+});
+
+export type GrossMarginInput = z.infer<typeof grossMarginInputSchema>;
+
+// Why a record cannot be hard-deleted; the client explains it and offers archiving instead
+export const deleteBlockReasonSchema = z.enum([
+  'NOT_FOUND',
+  'HAS_TRANSACTIONS',
+  'HAS_VISITS',
+  'HAS_APPOINTMENTS',
+  'HAS_PURCHASE_ORDERS',
+  'HAS_STOCK_TAKES',
+  'HAS_SERVICE_PACKAGES',
+  'HAS_PROMOTIONS',
+  'HAS_PAYMENTS'
+]);
+
+export type DeleteBlockReason = z.infer<typeof deleteBlockReasonSchema>;
+
+export const deleteResultSchema = z.object({
+  deleted: z.boolean(),
+  reason: deleteBlockReasonSchema.nullable() // null once deleted
+});
+
+export type DeleteResult = z.infer<typeof deleteResultSchema>;
+
+// By name
+export const serviceListInputSchema = paginationInputSchema(50).extend({
+  active_only: z.boolean().default(false),
+  include_archived: z.boolean().optional()
+});
+
+export type ServiceListInput = z.infer<typeof serviceListInputSchema>;
+
 // Search and filter schemas
-export const patientSearchInputSchema = z.object({
-  query: z.string().optional(),
-  limit: z.number().int().positive().default(10),
-  offset: z.number().int().nonnegative().default(0)
+export const patientSearchInputSchema = paginationInputSchema(10).extend({
+  query: z.string().optional(), // No. RM, or fuzzy over name, phone, address and emergency contact, or a linked guardian's name, NIK or phone
+  gender: z.enum(['Laki-laki', 'Perempuan']).optional(),
+  age_min: z.number().int().nonnegative().optional(), // age in whole years, inclusive
+  age_max: z.number().int().nonnegative().optional(),
+  include_archived: z.boolean().optional(), // archived records are left out unless asked for
+  // Relevance puts the best match first (direction is ignored) and falls back to registration order without a query
+  sort_by: z.enum(['relevance', 'name', 'date_of_birth', 'created_at']).default('relevance'),
+  sort_direction: sortDirectionSchema.default('asc')
 });
 
 export type PatientSearchInput = z.infer<typeof patientSearchInputSchema>;
 
-export const medicineSearchInputSchema = z.object({
+// Typeahead for patient pickers: best matches only, no total count
+export const patientSuggestionInputSchema = z.object({
+  query: z.string().trim().min(1),
+  limit: z.number().int().positive().max(20).default(8)
+});
+
+export type PatientSuggestionInput = z.infer<typeof patientSuggestionInputSchema>;
+
+export const medicalRecordBackfillResultSchema = z.object({
+  assigned_count: z.number().int()
+});
+
+export type MedicalRecordBackfillResult = z.infer<typeof medicalRecordBackfillResultSchema>;
+
+export const duplicatePatientSearchInputSchema = z.object({
+  min_similarity: z.number().min(0.3).max(1).default(0.5), // trigram similarity of the two names
+  limit: z.number().int().positive().max(200).default(50)
+});
+
+export type DuplicatePatientSearchInput = z.infer<typeof duplicatePatientSearchInputSchema>;
+
+// Two records that look like the same person; `patient` is the older one
+export const duplicatePatientPairSchema = z.object({
+  patient: patientSchema,
+  duplicate: patientSchema,
+  name_similarity: z.number(),
+  same_date_of_birth: z.boolean(),
+  same_phone: z.boolean()
+});
+
+export type DuplicatePatientPair = z.infer<typeof duplicatePatientPairSchema>;
+
+export const mergePatientsInputSchema = z.object({
+  survivor_id: z.number().int(),
+  duplicate_id: z.number().int()
+});
+
+export type MergePatientsInput = z.infer<typeof mergePatientsInputSchema>;
+
+export const patientMergeResultSchema = z.object({
+  patient: patientSchema,
+  moved_records: z.object({
+    transactions: z.number().int(),
+    visits: z.number().int(),
+    follow_ups: z.number().int(),
+    appointments: z.number().int(),
+    guardians: z.number().int()
+  })
+});
+
+export type PatientMergeResult = z.infer<typeof patientMergeResultSchema>;
+
+export const guardianSearchInputSchema = paginationInputSchema(10).extend({
+  query: z.string().optional(),
+  sort_by: z.enum(['name', 'created_at']).default('name'),
+  sort_direction: sortDirectionSchema.default('asc')
+});
+
+export type GuardianSearchInput = z.infer<typeof guardianSearchInputSchema>;
+
+export const medicineSearchInputSchema = paginationInputSchema(10).extend({
   query: z.string().optional(),
   low_stock_only: z.boolean().default(false),
   expired_only: z.boolean().default(false),
-  limit: z.number().int().positive().default(10),
-  offset: z.number().int().nonnegative().default(0)
+  include_archived: z.boolean().optional(),
+  sort_by: z.enum(['name', 'stock_quantity', 'price_per_unit', 'expiry_date', 'created_at']).default('name'),
+  sort_direction: sortDirectionSchema.default('asc')
 });
 
 export type MedicineSearchInput = z.infer<typeof medicineSearchInputSchema>;
 
-export const transactionSearchInputSchema = z.object({
+export const transactionSearchInputSchema = paginationInputSchema(10).extend({
   patient_id: z.number().optional(),
-  payment_status: z.enum(['pending', 'paid', 'cancelled']).optional(),
+  payment_status: z.enum(['pending', 'partially_paid', 'paid', 'cancelled']).optional(),
   start_date: z.coerce.date().optional(),
   end_date: z.coerce.date().optional(),
-  limit: z.number().int().positive().default(10),
-  offset: z.number().int().nonnegative().default(0)
+  sort_by: z.enum(['created_at', 'total_amount']).default('created_at'),
+  sort_direction: sortDirectionSchema.default('desc')
 });
 
 export type TransactionSearchInput = z.infer<typeof transactionSearchInputSchema>;
@@ -301,4 +1238,277 @@ export const reportInputSchema = z.object({
   format: z.enum(['pdf', 'excel']).default('pdf')
 });
 
-export type ReportInput = z.infer<typeof reportInputSchema>;
\ No newline at end of file
+export type ReportInput = z.infer<typeof reportInputSchema>;
+
+// Generated report file, base64-encoded for transport over JSON
+export const reportFileSchema = z.object({
+  filename: z.string(),
+  mime_type: z.string(),
+  content_base64: z.string()
+});
+
+export type ReportFile = z.infer<typeof reportFileSchema>;
+
+// Receipt contract: what the server prints and what the cashier screen shows
+export const receiptPaperWidthSchema = z.enum(['58', '80']); // Thermal roll width in mm
+
+export type ReceiptPaperWidth = z.infer<typeof receiptPaperWidthSchema>;
+
+export const receiptItemSchema = z.object({
+  type: z.enum(['service', 'medicine', 'package']),
+  name: z.string(),
+  quantity: z.number().int(),
+  unit: z.string(),
+  price_per_unit: z.number(),
+  discount_amount: z.number(),
+  total_price: z.number()
+});
+
+export type ReceiptItem = z.infer<typeof receiptItemSchema>;
+
+export const receiptSchema = z.object({
+  clinic_info: z.object({
+    name: z.string(),
+    address: z.string(),
+    phone: z.string()
+  }),
+  transaction: z.object({
+    id: z.number(),
+    total_amount: z.number(),
+    payment_method: z.enum(['tunai', 'transfer', 'kartu']),
+    payment_status: z.enum(['pending', 'partially_paid', 'paid', 'cancelled']),
+    paid_amount: z.number(),
+    remaining_amount: z.number(),
+    discount_amount: z.number(),
+    promo_code: z.string().nullable(),
+    notes: z.string().nullable(),
+    created_at: z.coerce.date()
+  }),
+  payments: z.array(z.object({
+    amount: z.number(),
+    payment_method: z.enum(['tunai', 'transfer', 'kartu']),
+    created_at: z.coerce.date()
+  })),
+  patient: z.object({
+    medical_record_number: z.string().nullable(),
+    name: z.string(),
+    phone: z.string().nullable()
+  }),
+  guardian: z.object({
+    name: z.string(),
+    relationship: z.string(),
+    phone: z.string().nullable()
+  }).nullable(),
+  items: z.array(receiptItemSchema),
+  footer_message: z.string()
+});
+
+export type Receipt = z.infer<typeof receiptSchema>;
+
+export const receiptFileInputSchema = z.object({
+  transaction_id: z.number(),
+  format: z.enum(['escpos', 'html', 'pdf']),
+  paper_width: receiptPaperWidthSchema.optional() // Defaults to the receipt_paper_width setting
+});
+
+export type ReceiptFileInput = z.infer<typeof receiptFileInputSchema>;
+
+// CSV export schemas: the list filters without pagination or sorting, plus output formatting
+const csvExportOptionsSchema = z.object({
+  indonesian_format: z.boolean().default(false) // dd/mm/yyyy dates, 1.234,5 numbers, ';' separator
+});
+
+export const patientExportInputSchema = patientSearchInputSchema
+  .omit({ limit: true, offset: true, cursor: true, sort_by: true, sort_direction: true })
+  .merge(csvExportOptionsSchema);
+
+export type PatientExportInput = z.infer<typeof patientExportInputSchema>;
+
+export const medicineExportInputSchema = medicineSearchInputSchema
+  .omit({ limit: true, offset: true, cursor: true, sort_by: true, sort_direction: true })
+  .merge(csvExportOptionsSchema);
+
+export type MedicineExportInput = z.infer<typeof medicineExportInputSchema>;
+
+export const transactionExportInputSchema = transactionSearchInputSchema
+  .omit({ limit: true, offset: true, cursor: true, sort_by: true, sort_direction: true })
+  .merge(csvExportOptionsSchema);
+
+export type TransactionExportInput = z.infer<typeof transactionExportInputSchema>;
+
+export const stockMovementExportInputSchema = z.object({
+  medicine_id: z.number().optional()
+}).merge(csvExportOptionsSchema);
+
+export type StockMovementExportInput = z.infer<typeof stockMovementExportInputSchema>;
+
+// Appointment schemas
+export const appointmentStatusSchema = z.enum(['scheduled', 'completed', 'cancelled', 'no_show']);
+
+export type AppointmentStatus = z.infer<typeof appointmentStatusSchema>;
+
+export const appointmentSchema = z.object({
+  id: z.number(),
+  patient_id: z.number(),
+  service_id: z.number(),
+  start_time: z.coerce.date(),
+  end_time: z.coerce.date(),
+  status: appointmentStatusSchema,
+  notes: z.string().nullable(),
+  transaction_id: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Appointment = z.infer<typeof appointmentSchema>;
+
+export const appointmentWithDetailsSchema = appointmentSchema.extend({
+  patient_name: z.string(),
+  patient_phone: z.string().nullable(),
+  service_name: z.string()
+});
+
+export type AppointmentWithDetails = z.infer<typeof appointmentWithDetailsSchema>;
+
+export const createAppointmentInputSchema = z.object({
+  patient_id: z.number(),
+  service_id: z.number(),
+  start_time: z.coerce.date(),
+  notes: z.string().nullable()
+});
+
+export type CreateAppointmentInput = z.infer<typeof createAppointmentInputSchema>;
+
+export const rescheduleAppointmentInputSchema = z.object({
+  id: z.number(),
+  start_time: z.coerce.date()
+});
+
+export type RescheduleAppointmentInput = z.infer<typeof rescheduleAppointmentInputSchema>;
+
+export const appointmentSearchInputSchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  status: appointmentStatusSchema.optional(),
+  patient_id: z.number().optional()
+});
+
+export type AppointmentSearchInput = z.infer<typeof appointmentSearchInputSchema>;
+
+// A bookable slot within opening hours
+export const appointmentSlotSchema = z.object({
+  start_time: z.coerce.date(),
+  end_time: z.coerce.date(),
+  available: z.boolean(),
+  appointment_id: z.number().nullable()
+});
+
+export type AppointmentSlot = z.infer<typeof appointmentSlotSchema>;
+
+// User roles
+export const userRoleSchema = z.enum(['owner', 'dokter', 'kasir', 'gudang']);
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+
+// User schema (password hash is never exposed)
+export const userSchema = z.object({
+  id: z.number(),
+  username: z.string(),
+  full_name: z.string(),
+  role: userRoleSchema,
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type User = z.infer<typeof userSchema>;
+
+// Input schema for creating users
+export const createUserInputSchema = z.object({
+  username: z.string().min(3, "Username minimal 3 karakter").regex(/^[a-z0-9._-]+$/, "Username hanya boleh huruf kecil, angka, titik, garis bawah dan strip"),
+  full_name: z.string().min(1, "Nama lengkap harus diisi"),
+  password: z.string().min(8, "Password minimal 8 karakter"),
+  role: userRoleSchema
+});
+
+export type CreateUserInput = z.infer<typeof createUserInputSchema>;
+
+// Input schema for updating users
+export const updateUserInputSchema = z.object({
+  id: z.number(),
+  full_name: z.string().min(1, "Nama lengkap harus diisi").optional(),
+  password: z.string().min(8, "Password minimal 8 karakter").optional(),
+  role: userRoleSchema.optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateUserInput = z.infer<typeof updateUserInputSchema>;
+
+// Login schemas
+export const loginInputSchema = z.object({
+  username: z.string().min(1, "Username harus diisi"),
+  password: z.string().min(1, "Password harus diisi")
+});
+
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
+export const authSessionSchema = z.object({
+  token: z.string(),
+  expires_at: z.coerce.date(),
+  user: userSchema
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+export const authStatusSchema = z.object({
+  needs_setup: z.boolean()
+});
+
+export type AuthStatus = z.infer<typeof authStatusSchema>;
+
+// Audit log schemas
+export const auditEntityTypeSchema = z.enum([
+  'patient',
+  'guardian',
+  'medicine',
+  'supplier',
+  'purchase_order',
+  'stock_take',
+  'service',
+  'service_package',
+  'promotion',
+  'transaction',
+  'cashier_shift',
+  'patient_visit',
+  'follow_up',
+  'appointment',
+  'setting',
+  'user'
+]);
+
+export type AuditEntityType = z.infer<typeof auditEntityTypeSchema>;
+
+export const auditLogEntrySchema = z.object({
+  id: z.number(),
+  user_id: z.number().nullable(),
+  username: z.string().nullable(),
+  procedure: z.string(),
+  entity_type: z.string().nullable(),
+  entity_id: z.string().nullable(),
+  before: z.record(z.unknown()).nullable(),
+  after: z.record(z.unknown()).nullable(),
+  created_at: z.coerce.date()
+});
+
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
+
+export const auditLogSearchInputSchema = paginationInputSchema(50).extend({
+  entity_type: auditEntityTypeSchema.optional(),
+  entity_id: z.string().optional(),
+  user_id: z.number().optional(),
+  start_date: z.coerce.date().optional(),
+  end_date: z.coerce.date().optional(),
+  sort_direction: sortDirectionSchema.default('desc') // Always by time
+});
+
+export type AuditLogSearchInput = z.infer<typeof auditLogSearchInputSchema>;
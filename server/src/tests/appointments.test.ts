@@ -0,0 +1,259 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { appointmentsTable, patientsTable, servicesTable, settingsTable } from '../db/schema';
+import {
+  getAppointments,
+  getAppointmentSlots,
+  createAppointment,
+  rescheduleAppointment,
+  cancelAppointment,
+  markAppointmentNoShow
+} from '../handlers/appointments';
+
+describe('Appointment Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let patientId: number;
+  let serviceId: number;
+
+  beforeEach(async () => {
+    const patient = await db.insert(patientsTable)
+      .values({
+        name: 'Ahmad',
+        date_of_birth: '2015-03-10',
+        gender: 'Laki-laki',
+        phone: '081234567890'
+      })
+      .returning()
+      .execute();
+    patientId = patient[0].id;
+
+    const service = await db.insert(servicesTable)
+      .values({
+        name: 'Khitan Klamp',
+        description: null,
+        price: '1500000.00'
+      })
+      .returning()
+      .execute();
+    serviceId = service[0].id;
+  });
+
+  describe('createAppointment', () => {
+    it('should book a slot using the default slot length', async () => {
+      const result = await createAppointment({
+        patient_id: patientId,
+        service_id: serviceId,
+        start_time: new Date('2024-03-01T09:00:00'),
+        notes: 'Puasa 2 jam sebelumnya'
+      });
+
+      expect(result.id).toBeDefined();
+      expect(result.status).toEqual('scheduled');
+      expect(result.end_time).toEqual(new Date('2024-03-01T09:30:00'));
+      expect(result.transaction_id).toBeNull();
+    });
+
+    it('should use the slot length from settings', async () => {
+      await db.insert(settingsTable)
+        .values({ key: 'appointment_slot_minutes', value: '60', description: null })
+        .execute();
+
+      const result = await createAppointment({
+        patient_id: patientId,
+        service_id: serviceId,
+        start_time: new Date('2024-03-01T09:00:00'),
+        notes: null
+      });
+
+      expect(result.end_time).toEqual(new Date('2024-03-01T10:00:00'));
+    });
+
+    it('should reject double bookings', async () => {
+      await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T09:00:00'), notes: null });
+
+      await expect(createAppointment({
+        patient_id: patientId,
+        service_id: serviceId,
+        start_time: new Date('2024-03-01T09:15:00'),
+        notes: null
+      })).rejects.toThrow(/bentrok/i);
+    });
+
+    it('should let only one of several simultaneous bookings take the slot', async () => {
+      const results = await Promise.allSettled([0, 1, 2, 3, 4].map(() =>
+        createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T09:00:00'), notes: null })
+      ));
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(await db.select().from(appointmentsTable).execute()).toHaveLength(1);
+    });
+
+    it('should allow booking a slot freed by a cancellation', async () => {
+      const first = await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T09:00:00'), notes: null });
+      await cancelAppointment(first.id);
+
+      const second = await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T09:00:00'), notes: null });
+
+      expect(second.status).toEqual('scheduled');
+    });
+
+    it('should reject bookings outside opening hours', async () => {
+      await db.insert(settingsTable)
+        .values([
+          { key: 'opening_time', value: '09:00', description: null },
+          { key: 'closing_time', value: '12:00', description: null }
+        ])
+        .execute();
+
+      await expect(createAppointment({
+        patient_id: patientId,
+        service_id: serviceId,
+        start_time: new Date('2024-03-01T08:30:00'),
+        notes: null
+      })).rejects.toThrow(/jam buka/i);
+
+      await expect(createAppointment({
+        patient_id: patientId,
+        service_id: serviceId,
+        start_time: new Date('2024-03-01T11:45:00'),
+        notes: null
+      })).rejects.toThrow(/jam buka/i);
+    });
+
+    it('should throw for unknown patients', async () => {
+      await expect(createAppointment({
+        patient_id: 999,
+        service_id: serviceId,
+        start_time: new Date('2024-03-01T09:00:00'),
+        notes: null
+      })).rejects.toThrow(/Patient with ID 999 not found/);
+    });
+  });
+
+  describe('rescheduleAppointment', () => {
+    it('should move the appointment and keep its length', async () => {
+      const appointment = await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T09:00:00'), notes: null });
+
+      const result = await rescheduleAppointment({ id: appointment.id, start_time: new Date('2024-03-02T13:00:00') });
+
+      expect(result.start_time).toEqual(new Date('2024-03-02T13:00:00'));
+      expect(result.end_time).toEqual(new Date('2024-03-02T13:30:00'));
+    });
+
+    it('should not conflict with itself', async () => {
+      const appointment = await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T09:00:00'), notes: null });
+
+      const result = await rescheduleAppointment({ id: appointment.id, start_time: new Date('2024-03-01T09:15:00') });
+
+      expect(result.start_time).toEqual(new Date('2024-03-01T09:15:00'));
+    });
+
+    it('should reject moving onto another booking', async () => {
+      await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T09:00:00'), notes: null });
+      const other = await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T10:00:00'), notes: null });
+
+      await expect(rescheduleAppointment({ id: other.id, start_time: new Date('2024-03-01T09:00:00') })).rejects.toThrow(/bentrok/i);
+    });
+
+    it('should only reschedule scheduled appointments', async () => {
+      const appointment = await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T09:00:00'), notes: null });
+      await markAppointmentNoShow(appointment.id);
+
+      await expect(rescheduleAppointment({ id: appointment.id, start_time: new Date('2024-03-02T09:00:00') })).rejects.toThrow(/terjadwal/i);
+    });
+  });
+
+  describe('cancelAppointment / markAppointmentNoShow', () => {
+    it('should update the status', async () => {
+      const first = await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T09:00:00'), notes: null });
+      const second = await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T10:00:00'), notes: null });
+
+      expect((await cancelAppointment(first.id)).status).toEqual('cancelled');
+      expect((await markAppointmentNoShow(second.id)).status).toEqual('no_show');
+    });
+
+    it('should not reopen closed appointments', async () => {
+      const appointment = await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T09:00:00'), notes: null });
+      await cancelAppointment(appointment.id);
+
+      await expect(markAppointmentNoShow(appointment.id)).rejects.toThrow(/terjadwal/i);
+    });
+
+    it('should throw for unknown appointments', async () => {
+      await expect(cancelAppointment(999)).rejects.toThrow(/Appointment with ID 999 not found/);
+    });
+  });
+
+  describe('getAppointments', () => {
+    it('should return appointments in range with patient and service names', async () => {
+      await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T10:00:00'), notes: null });
+      await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T09:00:00'), notes: null });
+      await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-05T09:00:00'), notes: null });
+
+      const result = await getAppointments({
+        start_date: new Date('2024-03-01T00:00:00'),
+        end_date: new Date('2024-03-01T23:59:59')
+      });
+
+      expect(result).toHaveLength(2);
+      expect(result[0].start_time).toEqual(new Date('2024-03-01T09:00:00'));
+      expect(result[0].patient_name).toEqual('Ahmad');
+      expect(result[0].service_name).toEqual('Khitan Klamp');
+    });
+
+    it('should filter by status', async () => {
+      const appointment = await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T09:00:00'), notes: null });
+      await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T10:00:00'), notes: null });
+      await cancelAppointment(appointment.id);
+
+      const result = await getAppointments({
+        start_date: new Date('2024-03-01T00:00:00'),
+        end_date: new Date('2024-03-01T23:59:59'),
+        status: 'scheduled'
+      });
+
+      expect(result).toHaveLength(1);
+      expect(result[0].start_time).toEqual(new Date('2024-03-01T10:00:00'));
+    });
+  });
+
+  describe('getAppointmentSlots', () => {
+    it('should list slots within opening hours and mark booked ones', async () => {
+      await db.insert(settingsTable)
+        .values([
+          { key: 'opening_time', value: '09:00', description: null },
+          { key: 'closing_time', value: '11:00', description: null }
+        ])
+        .execute();
+      const appointment = await createAppointment({ patient_id: patientId, service_id: serviceId, start_time: new Date('2024-03-01T09:30:00'), notes: null });
+
+      const slots = await getAppointmentSlots(new Date('2024-03-01T00:00:00'));
+
+      expect(slots).toHaveLength(4);
+      expect(slots[0].start_time).toEqual(new Date('2024-03-01T09:00:00'));
+      expect(slots[0].available).toBe(true);
+      expect(slots[1].available).toBe(false);
+      expect(slots[1].appointment_id).toEqual(appointment.id);
+      expect(slots[3].end_time).toEqual(new Date('2024-03-01T11:00:00'));
+    });
+
+    it('should ignore cancelled appointments', async () => {
+      await db.insert(appointmentsTable)
+        .values({
+          patient_id: patientId,
+          service_id: serviceId,
+          start_time: new Date('2024-03-01T08:00:00'),
+          end_time: new Date('2024-03-01T08:30:00'),
+          status: 'cancelled'
+        })
+        .execute();
+
+      const slots = await getAppointmentSlots(new Date('2024-03-01T00:00:00'));
+
+      expect(slots.every(slot => slot.available)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { auditLogTable, patientsTable, settingsTable, usersTable } from '../db/schema';
+import { loadAuditSnapshot, diffSnapshots, recordAuditLog, getAuditLog } from '../handlers/audit_log';
+import { eq } from 'drizzle-orm';
+
+const createTestUser = async (username: string) => {
+  const result = await db.insert(usersTable)
+    .values({
+      username,
+      full_name: `User ${username}`,
+      password_hash: 'scrypt:salt:hash',
+      role: 'kasir'
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const createTestPatient = async () => {
+  const result = await db.insert(patientsTable)
+    .values({
+      name: 'Ahmad',
+      date_of_birth: '2015-03-10',
+      gender: 'Laki-laki',
+      phone: '081234567890',
+      address: null,
+      emergency_contact: null,
+      medical_notes: null
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('Audit Log Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('loadAuditSnapshot', () => {
+    it('should load an entity as plain JSON', async () => {
+      const patient = await createTestPatient();
+
+      const snapshot = await loadAuditSnapshot('patient', patient.id);
+
+      expect(snapshot).not.toBeNull();
+      expect(snapshot!['name']).toEqual('Ahmad');
+      expect(typeof snapshot!['created_at']).toBe('string');
+    });
+
+    it('should load settings by key', async () => {
+      await db.insert(settingsTable)
+        .values({ key: 'clinic_name', value: 'Klinik A', description: null })
+        .execute();
+
+      const snapshot = await loadAuditSnapshot('setting', 'clinic_name');
+
+      expect(snapshot!['value']).toEqual('Klinik A');
+    });
+
+    it('should never include password hashes for users', async () => {
+      const user = await createTestUser('kasir1');
+
+      const snapshot = await loadAuditSnapshot('user', user.id);
+
+      expect(snapshot!['username']).toEqual('kasir1');
+      expect(snapshot!['password_hash']).toBeUndefined();
+    });
+
+    it('should return null for missing entities', async () => {
+      expect(await loadAuditSnapshot('patient', 999)).toBeNull();
+    });
+  });
+
+  describe('diffSnapshots', () => {
+    it('should keep only changed fields', () => {
+      const diff = diffSnapshots(
+        { id: 1, name: 'Ahmad', phone: '0811', updated_at: '2024-01-01' },
+        { id: 1, name: 'Ahmad', phone: '0822', updated_at: '2024-02-01' }
+      );
+
+      expect(diff.before).toEqual({ phone: '0811' });
+      expect(diff.after).toEqual({ phone: '0822' });
+    });
+
+    it('should keep full snapshots for creates and deletes', () => {
+      const created = diffSnapshots(null, { id: 1, name: 'Ahmad' });
+      expect(created.before).toBeNull();
+      expect(created.after).toEqual({ id: 1, name: 'Ahmad' });
+
+      const deleted = diffSnapshots({ id: 1, name: 'Ahmad' }, null);
+      expect(deleted.before).toEqual({ id: 1, name: 'Ahmad' });
+      expect(deleted.after).toBeNull();
+    });
+  });
+
+  describe('recordAuditLog', () => {
+    it('should store the diff with actor and procedure', async () => {
+      const user = await createTestUser('kasir1');
+
+      await recordAuditLog({
+        user_id: user.id,
+        procedure: 'updateService',
+        entity_type: 'service',
+        entity_id: 3,
+        before: { id: 3, price: '100000.00' },
+        after: { id: 3, price: '120000.00' }
+      });
+
+      const rows = await db.select().from(auditLogTable).execute();
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0].user_id).toEqual(user.id);
+      expect(rows[0].procedure).toEqual('updateService');
+      expect(rows[0].entity_type).toEqual('service');
+      expect(rows[0].entity_id).toEqual('3');
+      expect(rows[0].before).toEqual({ price: '100000.00' });
+      expect(rows[0].after).toEqual({ price: '120000.00' });
+    });
+  });
+
+  describe('getAuditLog', () => {
+    beforeEach(async () => {
+      const kasir = await createTestUser('kasir1');
+      const owner = await createTestUser('owner1');
+
+      await db.insert(auditLogTable)
+        .values([
+          { user_id: kasir.id, procedure: 'createPatient', entity_type: 'patient', entity_id: '1', after: { id: 1 }, created_at: new Date('2024-01-10T10:00:00Z') },
+          { user_id: kasir.id, procedure: 'updateTransactionStatus', entity_type: 'transaction', entity_id: '7', before: { payment_status: 'paid' }, after: { payment_status: 'cancelled' }, created_at: new Date('2024-01-15T10:00:00Z') },
+          { user_id: owner.id, procedure: 'updateSetting', entity_type: 'setting', entity_id: 'clinic_name', created_at: new Date('2024-01-20T10:00:00Z') }
+        ])
+        .execute();
+    });
+
+    it('should return newest entries first with usernames', async () => {
+      const result = await getAuditLog();
+
+      expect(result.items).toHaveLength(3);
+      expect(result.items[0].procedure).toEqual('updateSetting');
+      expect(result.items[0].username).toEqual('owner1');
+      expect(result.items[2].procedure).toEqual('createPatient');
+    });
+
+    it('should filter by entity', async () => {
+      const result = await getAuditLog({ entity_type: 'transaction', entity_id: '7', limit: 50, offset: 0, sort_direction: 'desc' });
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].before).toEqual({ payment_status: 'paid' });
+      expect(result.items[0].after).toEqual({ payment_status: 'cancelled' });
+    });
+
+    it('should filter by user', async () => {
+      const owner = await db.select().from(usersTable).where(eq(usersTable.username, 'owner1')).execute();
+
+      const result = await getAuditLog({ user_id: owner[0].id, limit: 50, offset: 0, sort_direction: 'desc' });
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].entity_type).toEqual('setting');
+    });
+
+    it('should filter by date range', async () => {
+      const result = await getAuditLog({
+        start_date: new Date('2024-01-12T00:00:00Z'),
+        end_date: new Date('2024-01-18T00:00:00Z'),
+        limit: 50,
+        offset: 0,
+        sort_direction: 'desc'
+      });
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].procedure).toEqual('updateTransactionStatus');
+    });
+
+    it('should apply pagination', async () => {
+      const result = await getAuditLog({ limit: 2, offset: 2, sort_direction: 'desc' });
+
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].procedure).toEqual('createPatient');
+      expect(result.total).toEqual(3);
+      expect(result.hasMore).toBe(false);
+
+      const oldestFirst = await getAuditLog({ limit: 2, offset: 0, sort_direction: 'asc' });
+      expect(oldestFirst.items.map(entry => entry.procedure)).toEqual(['createPatient', 'updateTransactionStatus']);
+      expect(oldestFirst.hasMore).toBe(true);
+    });
+  });
+});
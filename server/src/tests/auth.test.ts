@@ -0,0 +1,226 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable, auditLogTable } from '../db/schema';
+import { type LoginInput } from '../schema';
+import {
+  hashPassword,
+  verifyPassword,
+  login,
+  logout,
+  getSessionUser,
+  getAuthStatus,
+  setupOwner
+} from '../handlers/auth';
+import { asc, eq } from 'drizzle-orm';
+
+const createTestUser = async (overrides: Partial<typeof usersTable.$inferInsert> = {}) => {
+  const result = await db.insert(usersTable)
+    .values({
+      username: 'kasir1',
+      full_name: 'Kasir Satu',
+      password_hash: await hashPassword('rahasia123'),
+      role: 'kasir',
+      ...overrides
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+const auditEntries = () =>
+  db.select().from(auditLogTable).orderBy(asc(auditLogTable.id)).execute();
+
+const testLogin: LoginInput = {
+  username: 'kasir1',
+  password: 'rahasia123'
+};
+
+describe('Auth Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('hashPassword / verifyPassword', () => {
+    it('should verify the original password only', async () => {
+      const hash = await hashPassword('rahasia123');
+
+      expect(hash).not.toContain('rahasia123');
+      expect(await verifyPassword('rahasia123', hash)).toBe(true);
+      expect(await verifyPassword('salah', hash)).toBe(false);
+    });
+
+    it('should produce different hashes for the same password', async () => {
+      const first = await hashPassword('rahasia123');
+      const second = await hashPassword('rahasia123');
+      expect(first).not.toEqual(second);
+    });
+
+    it('should reject malformed hashes', async () => {
+      expect(await verifyPassword('rahasia123', 'plain-text')).toBe(false);
+    });
+  });
+
+  describe('login', () => {
+    it('should create a session for valid credentials', async () => {
+      const user = await createTestUser();
+
+      const result = await login(testLogin);
+
+      expect(result.token).toHaveLength(64);
+      expect(result.expires_at.getTime()).toBeGreaterThan(Date.now());
+      expect(result.user.id).toEqual(user.id);
+      expect(result.user.role).toEqual('kasir');
+      expect((result.user as Record<string, unknown>)['password_hash']).toBeUndefined();
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, user.id))
+        .execute();
+
+      expect(sessions).toHaveLength(1);
+      // Only the hash of the token is stored
+      expect(sessions[0].token_hash).not.toEqual(result.token);
+    });
+
+    it('should reject a wrong password', async () => {
+      await createTestUser();
+      await expect(login({ ...testLogin, password: 'salah' })).rejects.toThrow(/username atau password salah/i);
+    });
+
+    it('should reject an unknown username', async () => {
+      await expect(login(testLogin)).rejects.toThrow(/username atau password salah/i);
+    });
+
+    it('should reject inactive users', async () => {
+      await createTestUser({ is_active: false });
+      await expect(login(testLogin)).rejects.toThrow(/tidak aktif/i);
+    });
+
+    it('should audit successful and failed attempts without the password', async () => {
+      const user = await createTestUser();
+
+      await login(testLogin);
+      await expect(login({ ...testLogin, password: 'salah' })).rejects.toThrow();
+      await expect(login({ ...testLogin, username: 'tamu' })).rejects.toThrow();
+
+      const entries = await auditEntries();
+      expect(entries.map(entry => [entry.procedure, entry.user_id, entry.entity_id])).toEqual([
+        ['login', user.id, String(user.id)],
+        ['login', null, String(user.id)],
+        ['login', null, null]
+      ]);
+      expect(entries[0].after).toEqual({ username: 'kasir1', success: true });
+      expect(entries[1].after).toEqual({ username: 'kasir1', success: false, reason: 'Username atau password salah' });
+      expect(entries[2].after).toMatchObject({ username: 'tamu', success: false });
+      expect(JSON.stringify(entries)).not.toContain('rahasia123');
+    });
+  });
+
+  describe('getSessionUser', () => {
+    it('should resolve the user of a valid token', async () => {
+      const user = await createTestUser();
+      const session = await login(testLogin);
+
+      const result = await getSessionUser(session.token);
+
+      expect(result).not.toBeNull();
+      expect(result!.id).toEqual(user.id);
+      expect(result!.username).toEqual('kasir1');
+    });
+
+    it('should return null for unknown tokens', async () => {
+      expect(await getSessionUser('unknown-token')).toBeNull();
+    });
+
+    it('should return null for expired sessions', async () => {
+      await createTestUser();
+      const session = await login(testLogin);
+
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .execute();
+
+      expect(await getSessionUser(session.token)).toBeNull();
+    });
+
+    it('should return null when the user was deactivated', async () => {
+      const user = await createTestUser();
+      const session = await login(testLogin);
+
+      await db.update(usersTable)
+        .set({ is_active: false })
+        .where(eq(usersTable.id, user.id))
+        .execute();
+
+      expect(await getSessionUser(session.token)).toBeNull();
+    });
+  });
+
+  describe('logout', () => {
+    it('should invalidate the session', async () => {
+      await createTestUser();
+      const session = await login(testLogin);
+
+      expect(await logout(session.token)).toBe(true);
+      expect(await getSessionUser(session.token)).toBeNull();
+    });
+
+    it('should return false for unknown tokens', async () => {
+      expect(await logout('unknown-token')).toBe(false);
+    });
+  });
+
+  describe('setupOwner', () => {
+    it('should report that setup is needed when no users exist', async () => {
+      const status = await getAuthStatus();
+      expect(status.needs_setup).toBe(true);
+    });
+
+    it('should create the first owner and log them in', async () => {
+      const result = await setupOwner({
+        username: 'pemilik',
+        full_name: 'Pak Nopi',
+        password: 'rahasia123'
+      });
+
+      expect(result.user.role).toEqual('owner');
+      expect(result.user.username).toEqual('pemilik');
+      expect(result.token).toBeDefined();
+
+      const status = await getAuthStatus();
+      expect(status.needs_setup).toBe(false);
+    });
+
+    it('should refuse once a user exists', async () => {
+      await createTestUser();
+
+      await expect(setupOwner({
+        username: 'pemilik',
+        full_name: 'Pak Nopi',
+        password: 'rahasia123'
+      })).rejects.toThrow(/sudah dibuat/i);
+    });
+
+    it('should create only one owner from simultaneous setups', async () => {
+      const results = await Promise.allSettled(['pemilik1', 'pemilik2', 'pemilik3'].map(username =>
+        setupOwner({ username, full_name: 'Pak Nopi', password: 'rahasia123' })
+      ));
+
+      expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+      expect(await db.select().from(usersTable).execute()).toHaveLength(1);
+    });
+
+    it('should audit the owner setup and refused attempts', async () => {
+      const result = await setupOwner({ username: 'pemilik', full_name: 'Pak Nopi', password: 'rahasia123' });
+      await expect(setupOwner({ username: 'penyusup', full_name: 'X', password: 'rahasia123' })).rejects.toThrow();
+
+      const entries = await auditEntries();
+      expect(entries.map(entry => [entry.procedure, entry.user_id])).toEqual([
+        ['setupOwner', result.user.id],
+        ['login', result.user.id],
+        ['setupOwner', null]
+      ]);
+      expect(entries[2].after).toEqual({ username: 'penyusup', success: false, reason: 'Akun pemilik sudah dibuat' });
+    });
+  });
+});
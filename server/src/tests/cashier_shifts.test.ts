@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { medicinesTable, patientsTable, paymentsTable, servicesTable, usersTable } from '../db/schema';
+import {
+  closeShift,
+  getCurrentShift,
+  getShiftById,
+  getShifts,
+  openShift
+} from '../handlers/cashier_shifts';
+import { createTransaction } from '../handlers/create_transaction';
+import { addPayment } from '../handlers/payments';
+import { createRefund, getRefundableItems } from '../handlers/refunds';
+import { generateShiftReport } from '../handlers/reports';
+import { eq } from 'drizzle-orm';
+
+describe('Cashier shifts', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let cashierId: number;
+  let patientId: number;
+  let serviceId: number;
+  let medicineId: number;
+
+  beforeEach(async () => {
+    const user = await db.insert(usersTable)
+      .values({ username: 'kasir', full_name: 'Siti Kasir', password_hash: 'x', role: 'kasir' })
+      .returning()
+      .execute();
+    const patient = await db.insert(patientsTable)
+      .values({ name: 'Ahmad', date_of_birth: '2015-03-15', gender: 'Laki-laki' })
+      .returning()
+      .execute();
+    const service = await db.insert(servicesTable)
+      .values({ name: 'Khitan Laser', price: '150000.00' })
+      .returning()
+      .execute();
+    const medicine = await db.insert(medicinesTable)
+      .values({ name: 'Paracetamol', unit: 'tablet', price_per_unit: '5000.00', stock_quantity: 100, minimum_stock: 5 })
+      .returning()
+      .execute();
+    cashierId = user[0].id;
+    patientId = patient[0].id;
+    serviceId = service[0].id;
+    medicineId = medicine[0].id;
+  });
+
+  const sale = (paymentMethod: 'tunai' | 'transfer' | 'kartu', medicineQuantity = 0, paid = true) =>
+    createTransaction({
+      patient_id: patientId,
+      services: [{ service_id: serviceId, quantity: 1 }],
+      medicines: medicineQuantity > 0 ? [{ medicine_id: medicineId, quantity: medicineQuantity }] : [],
+      payment_method: paymentMethod,
+      payment_status: paid ? 'paid' : 'pending',
+      notes: null
+    });
+
+  it('should block sales until a shift is opened and allow one open shift at a time', async () => {
+    await expect(sale('tunai')).rejects.toThrow(/Shift kasir belum dibuka/);
+    expect(await getCurrentShift()).toBeNull();
+
+    const shift = await openShift({ opening_float: 200000 }, cashierId);
+    expect(shift.status).toEqual('open');
+    expect(shift.opening_float).toEqual(200000);
+    expect(shift.opened_by_name).toEqual('Siti Kasir');
+
+    await expect(openShift({ opening_float: 0 }, cashierId)).rejects.toThrow(`Shift kasir #${shift.id} masih terbuka`);
+
+    const transaction = await sale('tunai');
+    expect(transaction.shift_id).toEqual(shift.id);
+  });
+
+  it('should show what the drawer should hold while the shift is open', async () => {
+    await openShift({ opening_float: 200000 }, cashierId);
+    await sale('tunai');
+    await sale('kartu');
+
+    const current = await getCurrentShift();
+    expect(current!.transaction_count).toEqual(2);
+    expect(current!.reconciliation).toEqual([
+      { payment_method: 'tunai', expected_amount: 350000, counted_amount: null, difference: null },
+      { payment_method: 'transfer', expected_amount: 0, counted_amount: null, difference: null },
+      { payment_method: 'kartu', expected_amount: 150000, counted_amount: null, difference: null }
+    ]);
+  });
+
+  it('should reconcile the counted cash per payment method at closing', async () => {
+    const shift = await openShift({ opening_float: 200000 }, cashierId);
+
+    // 150.000 + 10 x 5.000 in cash, 150.000 by transfer, and 4 tablets paid back in cash
+    const cashSale = await sale('tunai', 10);
+    await sale('transfer');
+    const medicineLine = (await getRefundableItems(cashSale.id)).find(item => item.item_type === 'medicine')!;
+    const refund = await createRefund({
+      transaction_id: cashSale.id,
+      refund_method: 'tunai',
+      reason: 'Obat tidak dipakai',
+      items: [{ item_type: 'medicine', transaction_item_id: medicineLine.transaction_item_id, quantity: 4 }]
+    });
+    expect(refund.shift_id).toEqual(shift.id);
+
+    const closed = await closeShift({
+      id: shift.id,
+      cash_counts: [
+        { denomination: 100000, quantity: 3 },
+        { denomination: 50000, quantity: 1 },
+        { denomination: 20000, quantity: 1 },
+        { denomination: 5000, quantity: 1 },
+        { denomination: 2000, quantity: 2 },
+        { denomination: 1000, quantity: 0 }
+      ],
+      non_cash_counts: [{ payment_method: 'transfer', amount: 150000 }],
+      closing_notes: 'Kurang seribu'
+    }, cashierId);
+
+    expect(closed.status).toEqual('closed');
+    expect(closed.closed_by_name).toEqual('Siti Kasir');
+    expect(closed.transaction_count).toEqual(2);
+    expect(closed.refund_count).toEqual(1);
+    expect(closed.cash_counts).toHaveLength(5);
+    expect(closed.reconciliation).toEqual([
+      { payment_method: 'tunai', expected_amount: 380000, counted_amount: 379000, difference: -1000 },
+      { payment_method: 'transfer', expected_amount: 150000, counted_amount: 150000, difference: 0 },
+      { payment_method: 'kartu', expected_amount: 0, counted_amount: 0, difference: 0 }
+    ]);
+
+    await expect(closeShift({ id: shift.id, cash_counts: [], non_cash_counts: [] }, cashierId))
+      .rejects.toThrow(/sudah ditutup/);
+    await expect(closeShift({ id: 99999, cash_counts: [], non_cash_counts: [] }, cashierId))
+      .rejects.toThrow('Cashier shift with ID 99999 not found');
+    await expect(sale('tunai')).rejects.toThrow(/Shift kasir belum dibuka/);
+  });
+
+  it('should book an installment into the shift open when it is paid', async () => {
+    const first = await openShift({ opening_float: 0 }, cashierId);
+    const transaction = await sale('tunai', 0, false);
+    const paidSale = await sale('tunai');
+    await closeShift({ id: first.id, cash_counts: [], non_cash_counts: [] }, cashierId);
+
+    // Money taken or paid back with no shift open would belong to no drawer
+    await expect(addPayment({ transaction_id: transaction.id, amount: 150000, payment_method: 'tunai' }))
+      .rejects.toThrow(/Shift kasir belum dibuka/);
+    await expect(createRefund({ transaction_id: paidSale.id, refund_method: 'tunai', reason: 'Batal' }))
+      .rejects.toThrow(/Shift kasir belum dibuka/);
+
+    const second = await openShift({ opening_float: 100000 }, cashierId);
+    await addPayment({ transaction_id: transaction.id, amount: 150000, payment_method: 'tunai' });
+
+    const payments = await db.select().from(paymentsTable).where(eq(paymentsTable.transaction_id, transaction.id)).execute();
+    expect(payments[0].shift_id).toEqual(second.id);
+
+    expect((await getShiftById(first.id)).reconciliation[0].expected_amount).toEqual(150000);
+    expect((await getCurrentShift())!.reconciliation[0].expected_amount).toEqual(250000);
+    expect((await getShifts()).items.map(shift => shift.id)).toEqual([second.id, first.id]);
+  });
+
+  it('should print the shift closing report', async () => {
+    const shift = await openShift({ opening_float: 200000 }, cashierId);
+    await sale('tunai');
+    await closeShift({ id: shift.id, cash_counts: [{ denomination: 50000, quantity: 7 }], non_cash_counts: [] }, cashierId);
+
+    const report = await generateShiftReport(shift.id);
+
+    expect(report.mime_type).toEqual('application/pdf');
+    expect(report.filename).toStartWith(`tutup-kasir-${shift.id}-`);
+    const content = Buffer.from(report.content_base64, 'base64').toString('latin1');
+    expect(content.startsWith('%PDF')).toBe(true);
+    expect(content).toContain('Laporan Tutup Kasir');
+    expect(content).toContain('Siti Kasir');
+  });
+});
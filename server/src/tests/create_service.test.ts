@@ -11,7 +11,8 @@ const testInput: CreateServiceInput = {
   name: 'Konsultasi Dokter Umum',
   description: 'Pemeriksaan dan konsultasi dengan dokter umum',
   price: 50000,
-  is_active: true
+  is_active: true,
+  follow_up_days: []
 };
 
 // Minimal test input
@@ -19,7 +20,8 @@ const minimalInput: CreateServiceInput = {
   name: 'Layanan Minimal',
   description: null,
   price: 25000,
-  is_active: true
+  is_active: true,
+  follow_up_days: []
 };
 
 describe('createService', () => {
@@ -76,7 +78,8 @@ describe('createService', () => {
       name: 'Layanan Premium',
       description: 'Layanan dengan harga tinggi',
       price: 999999.99,
-      is_active: true
+      is_active: true,
+      follow_up_days: []
     };
 
     const result = await createService(expensiveService);
@@ -98,7 +101,8 @@ describe('createService', () => {
       name: 'Layanan Tidak Aktif',
       description: 'Layanan yang tidak aktif',
       price: 75000,
-      is_active: false
+      is_active: false,
+      follow_up_days: []
     };
 
     const result = await createService(inactiveService);
@@ -119,7 +123,8 @@ describe('createService', () => {
       name: 'Layanan Default',
       description: null,
       price: 30000,
-      is_active: true // Zod schema has default(true)
+      is_active: true, // Zod schema has default(true)
+      follow_up_days: []
     };
 
     const result = await createService(serviceWithDefault);
@@ -131,14 +136,16 @@ describe('createService', () => {
       name: 'Layanan 1',
       description: 'Deskripsi layanan 1',
       price: 40000,
-      is_active: true
+      is_active: true,
+      follow_up_days: []
     };
 
     const service2Input: CreateServiceInput = {
       name: 'Layanan 2',
       description: 'Deskripsi layanan 2',
       price: 60000,
-      is_active: true
+      is_active: true,
+      follow_up_days: []
     };
 
     const result1 = await createService(service1Input);
@@ -157,4 +164,13 @@ describe('createService', () => {
     expect(allServices.map(s => s.name)).toContain('Layanan 1');
     expect(allServices.map(s => s.name)).toContain('Layanan 2');
   });
-});
\ No newline at end of file
+
+  it('should store follow-up rules', async () => {
+    const result = await createService({ ...testInput, name: 'Khitan Klamp', follow_up_days: [3, 7] });
+
+    expect(result.follow_up_days).toEqual([3, 7]);
+
+    const minimal = await createService(minimalInput);
+    expect(minimal.follow_up_days).toEqual([]);
+  });
+});
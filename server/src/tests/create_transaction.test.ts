@@ -9,14 +9,19 @@ import {
   transactionServicesTable,
   transactionMedicinesTable,
   stockMovementsTable,
-  patientVisitsTable
+  patientVisitsTable,
+  appointmentsTable,
+  followUpsTable
 } from '../db/schema';
 import { type CreateTransactionInput } from '../schema';
 import { createTransaction } from '../handlers/create_transaction';
+import { openShift } from '../handlers/cashier_shifts';
+import { followUpDueDate } from '../handlers/follow_ups';
 import { eq } from 'drizzle-orm';
 
 describe('createTransaction', () => {
   beforeEach(createDB);
+  beforeEach(() => openShift({ opening_float: 0 }, 1)); // Sales need an open cashier shift
   afterEach(resetDB);
 
   let testPatientId: number;
@@ -327,4 +332,95 @@ describe('createTransaction', () => {
 
     expect(result.payment_status).toEqual('pending');
   });
-});
\ No newline at end of file
+
+  it('should complete the appointment it settles', async () => {
+    const appointment = await db.insert(appointmentsTable)
+      .values({
+        patient_id: testPatientId,
+        service_id: testServiceId,
+        start_time: new Date('2024-03-01T09:00:00'),
+        end_time: new Date('2024-03-01T09:30:00')
+      })
+      .returning()
+      .execute();
+
+    const result = await createTransaction({
+      patient_id: testPatientId,
+      payment_method: 'tunai',
+      payment_status: 'paid',
+      notes: null,
+      services: [{ service_id: testServiceId, quantity: 1 }],
+      appointment_id: appointment[0].id
+    });
+
+    const updated = await db.select()
+      .from(appointmentsTable)
+      .where(eq(appointmentsTable.id, appointment[0].id))
+      .execute();
+
+    expect(updated[0].status).toEqual('completed');
+    expect(updated[0].transaction_id).toEqual(result.id);
+  });
+
+  it('should reject appointments that are no longer scheduled', async () => {
+    const appointment = await db.insert(appointmentsTable)
+      .values({
+        patient_id: testPatientId,
+        service_id: testServiceId,
+        start_time: new Date('2024-03-01T09:00:00'),
+        end_time: new Date('2024-03-01T09:30:00'),
+        status: 'cancelled'
+      })
+      .returning()
+      .execute();
+
+    const input: CreateTransactionInput = {
+      patient_id: testPatientId,
+      payment_method: 'tunai',
+      payment_status: 'paid',
+      notes: null,
+      services: [{ service_id: testServiceId, quantity: 1 }],
+      appointment_id: appointment[0].id
+    };
+
+    await expect(createTransaction(input)).rejects.toThrow(/sudah diproses atau dibatalkan/i);
+
+    const transactions = await db.select().from(transactionsTable).execute();
+    expect(transactions).toHaveLength(0);
+  });
+
+  it('should schedule follow-ups from the service rules', async () => {
+    const procedure = await db.insert(servicesTable)
+      .values({
+        name: 'Khitan Klamp',
+        description: null,
+        price: '1500000.00',
+        follow_up_days: [3, 7]
+      })
+      .returning()
+      .execute();
+
+    const result = await createTransaction({
+      patient_id: testPatientId,
+      payment_method: 'tunai',
+      payment_status: 'paid',
+      notes: null,
+      services: [
+        { service_id: procedure[0].id, quantity: 1 },
+        { service_id: testServiceId, quantity: 1 }
+      ]
+    });
+
+    const followUps = await db.select()
+      .from(followUpsTable)
+      .orderBy(followUpsTable.day_offset)
+      .execute();
+
+    expect(followUps).toHaveLength(2);
+    expect(followUps[0].transaction_id).toEqual(result.id);
+    expect(followUps[0].service_id).toEqual(procedure[0].id);
+    expect(followUps[0].status).toEqual('pending');
+    expect(followUps[0].due_date).toEqual(followUpDueDate(result.created_at, 3));
+    expect(followUps[1].due_date).toEqual(followUpDueDate(result.created_at, 7));
+  });
+});
@@ -9,10 +9,29 @@ import {
   transactionServicesTable,
   transactionMedicinesTable,
   patientVisitsTable,
-  stockMovementsTable
+  stockMovementsTable,
+  appointmentsTable,
+  servicePackagesTable,
+  servicePackageItemsTable,
+  transactionPackagesTable
 } from '../db/schema';
 import { eq } from 'drizzle-orm';
-import { deletePatient, deleteMedicine, deleteService, deleteTransaction } from '../handlers/delete_records';
+import {
+  archivePatient,
+  restorePatient,
+  deletePatient,
+  archiveMedicine,
+  restoreMedicine,
+  deleteMedicine,
+  archiveService,
+  restoreService,
+  deleteService,
+  deleteTransaction
+} from '../handlers/delete_records';
+import { getPatients, suggestPatients } from '../handlers/get_patients';
+import { getMedicines, getLowStockMedicines } from '../handlers/get_medicines';
+import { getServices } from '../handlers/get_services';
+import { createAppointment } from '../handlers/appointments';
 
 describe('deletePatient', () => {
   beforeEach(createDB);
@@ -37,7 +56,7 @@ describe('deletePatient', () => {
 
     // Delete should succeed
     const result = await deletePatient(patientId);
-    expect(result).toBe(true);
+    expect(result).toEqual({ deleted: true, reason: null });
 
     // Verify patient was deleted
     const patients = await db.select()
@@ -78,7 +97,7 @@ describe('deletePatient', () => {
 
     // Delete should fail
     const result = await deletePatient(patientId);
-    expect(result).toBe(false);
+    expect(result).toEqual({ deleted: false, reason: 'HAS_TRANSACTIONS' });
 
     // Verify patient still exists
     const patients = await db.select()
@@ -119,7 +138,7 @@ describe('deletePatient', () => {
 
     // Delete should fail
     const result = await deletePatient(patientId);
-    expect(result).toBe(false);
+    expect(result).toEqual({ deleted: false, reason: 'HAS_VISITS' });
 
     // Verify patient still exists
     const patients = await db.select()
@@ -130,9 +149,40 @@ describe('deletePatient', () => {
     expect(patients).toHaveLength(1);
   });
 
-  it('should return false for non-existent patient', async () => {
+  it('should not delete patient with appointments', async () => {
+    const patientResult = await db.insert(patientsTable)
+      .values({
+        name: 'Test Patient',
+        date_of_birth: '1990-01-01',
+        gender: 'Laki-laki'
+      })
+      .returning()
+      .execute();
+
+    const serviceResult = await db.insert(servicesTable)
+      .values({
+        name: 'Test Service',
+        price: '50000.00'
+      })
+      .returning()
+      .execute();
+
+    await db.insert(appointmentsTable)
+      .values({
+        patient_id: patientResult[0].id,
+        service_id: serviceResult[0].id,
+        start_time: new Date('2024-03-01T09:00:00'),
+        end_time: new Date('2024-03-01T09:30:00')
+      })
+      .execute();
+
+    const result = await deletePatient(patientResult[0].id);
+    expect(result).toEqual({ deleted: false, reason: 'HAS_APPOINTMENTS' });
+  });
+
+  it('should report a non-existent patient as not found', async () => {
     const result = await deletePatient(999);
-    expect(result).toBe(false);
+    expect(result).toEqual({ deleted: false, reason: 'NOT_FOUND' });
   });
 });
 
@@ -160,7 +210,7 @@ describe('deleteMedicine', () => {
 
     // Delete should succeed
     const result = await deleteMedicine(medicineId);
-    expect(result).toBe(true);
+    expect(result).toEqual({ deleted: true, reason: null });
 
     // Verify medicine was deleted
     const medicines = await db.select()
@@ -201,7 +251,7 @@ describe('deleteMedicine', () => {
 
     // Delete should succeed
     const result = await deleteMedicine(medicineId);
-    expect(result).toBe(true);
+    expect(result).toEqual({ deleted: true, reason: null });
 
     // Verify medicine was deleted
     const medicines = await db.select()
@@ -277,7 +327,7 @@ describe('deleteMedicine', () => {
 
     // Delete should fail
     const result = await deleteMedicine(medicineId);
-    expect(result).toBe(false);
+    expect(result).toEqual({ deleted: false, reason: 'HAS_TRANSACTIONS' });
 
     // Verify medicine still exists
     const medicines = await db.select()
@@ -288,9 +338,9 @@ describe('deleteMedicine', () => {
     expect(medicines).toHaveLength(1);
   });
 
-  it('should return false for non-existent medicine', async () => {
+  it('should report a non-existent medicine as not found', async () => {
     const result = await deleteMedicine(999);
-    expect(result).toBe(false);
+    expect(result).toEqual({ deleted: false, reason: 'NOT_FOUND' });
   });
 });
 
@@ -314,7 +364,7 @@ describe('deleteService', () => {
 
     // Delete should succeed
     const result = await deleteService(serviceId);
-    expect(result).toBe(true);
+    expect(result).toEqual({ deleted: true, reason: null });
 
     // Verify service was deleted
     const services = await db.select()
@@ -325,7 +375,7 @@ describe('deleteService', () => {
     expect(services).toHaveLength(0);
   });
 
-  it('should deactivate service used in transactions', async () => {
+  it('should not delete service used in transactions', async () => {
     // Create test patient
     const patientResult = await db.insert(patientsTable)
       .values({
@@ -376,23 +426,23 @@ describe('deleteService', () => {
       })
       .execute();
 
-    // Delete should succeed (deactivate)
+    // Delete should fail
     const result = await deleteService(serviceId);
-    expect(result).toBe(true);
+    expect(result).toEqual({ deleted: false, reason: 'HAS_TRANSACTIONS' });
 
-    // Verify service was deactivated, not deleted
+    // Verify service was left as it was
     const services = await db.select()
       .from(servicesTable)
       .where(eq(servicesTable.id, serviceId))
       .execute();
     
     expect(services).toHaveLength(1);
-    expect(services[0].is_active).toBe(false);
+    expect(services[0].is_active).toBe(true);
   });
 
-  it('should return false for non-existent service', async () => {
+  it('should report a non-existent service as not found', async () => {
     const result = await deleteService(999);
-    expect(result).toBe(false);
+    expect(result).toEqual({ deleted: false, reason: 'NOT_FOUND' });
   });
 });
 
@@ -491,7 +541,7 @@ describe('deleteTransaction', () => {
 
     // Delete should succeed
     const result = await deleteTransaction(transactionId);
-    expect(result).toBe(true);
+    expect(result).toEqual({ deleted: true, reason: null });
 
     // Verify transaction was deleted
     const transactions = await db.select()
@@ -558,7 +608,7 @@ describe('deleteTransaction', () => {
 
     // Delete should succeed
     const result = await deleteTransaction(transactionId);
-    expect(result).toBe(true);
+    expect(result).toEqual({ deleted: true, reason: null });
 
     // Verify transaction was deleted
     const transactions = await db.select()
@@ -569,6 +619,48 @@ describe('deleteTransaction', () => {
     expect(transactions).toHaveLength(0);
   });
 
+  it('should delete the packages sold in the transaction', async () => {
+    const patientResult = await db.insert(patientsTable)
+      .values({ name: 'Test Patient', date_of_birth: '1990-01-01', gender: 'Laki-laki' })
+      .returning()
+      .execute();
+    const packageResult = await db.insert(servicePackagesTable)
+      .values({ name: 'Paket Klamp', price: '100.00' })
+      .returning()
+      .execute();
+    const transactionResult = await db.insert(transactionsTable)
+      .values({
+        patient_id: patientResult[0].id,
+        total_amount: '100.00',
+        payment_method: 'tunai',
+        payment_status: 'cancelled',
+        notes: null
+      })
+      .returning()
+      .execute();
+    const transactionId = transactionResult[0].id;
+
+    await db.insert(transactionPackagesTable)
+      .values({
+        transaction_id: transactionId,
+        package_id: packageResult[0].id,
+        quantity: 1,
+        price_per_unit: '100.00',
+        total_price: '100.00'
+      })
+      .execute();
+
+    const result = await deleteTransaction(transactionId);
+    expect(result).toEqual({ deleted: true, reason: null });
+
+    const packages = await db.select()
+      .from(transactionPackagesTable)
+      .where(eq(transactionPackagesTable.transaction_id, transactionId))
+      .execute();
+
+    expect(packages).toHaveLength(0);
+  });
+
   it('should not delete paid transaction', async () => {
     // Create test patient
     const patientResult = await db.insert(patientsTable)
@@ -600,7 +692,7 @@ describe('deleteTransaction', () => {
 
     // Delete should fail
     const result = await deleteTransaction(transactionId);
-    expect(result).toBe(false);
+    expect(result).toEqual({ deleted: false, reason: 'HAS_PAYMENTS' });
 
     // Verify transaction still exists
     const transactions = await db.select()
@@ -611,8 +703,115 @@ describe('deleteTransaction', () => {
     expect(transactions).toHaveLength(1);
   });
 
-  it('should return false for non-existent transaction', async () => {
+  it('should report a non-existent transaction as not found', async () => {
     const result = await deleteTransaction(999);
-    expect(result).toBe(false);
+    expect(result).toEqual({ deleted: false, reason: 'NOT_FOUND' });
+  });
+});
+
+describe('archiving', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should hide an archived patient from lists until restored', async () => {
+    const patients = await db.insert(patientsTable).values([
+      { name: 'Andi Pratama', date_of_birth: '2015-01-01', gender: 'Laki-laki' },
+      { name: 'Andi Saputra', date_of_birth: '2016-02-02', gender: 'Laki-laki' }
+    ]).returning().execute();
+
+    const archived = await archivePatient(patients[0].id, 7);
+    expect(archived.archived_at).toBeInstanceOf(Date);
+    expect(archived.archived_by).toEqual(7);
+    await expect(archivePatient(patients[0].id)).rejects.toThrow('Pasien Andi Pratama sudah diarsipkan');
+
+    const listed = await getPatients({ limit: 10, offset: 0, sort_by: 'name', sort_direction: 'asc' });
+    expect(listed.items.map(patient => patient.name)).toEqual(['Andi Saputra']);
+    expect(listed.total).toEqual(1);
+
+    const withArchived = await getPatients({ include_archived: true, limit: 10, offset: 0, sort_by: 'name', sort_direction: 'asc' });
+    expect(withArchived.items.map(patient => patient.name)).toEqual(['Andi Pratama', 'Andi Saputra']);
+
+    const suggested = await suggestPatients({ query: 'Andi', limit: 8 });
+    expect(suggested.map(patient => patient.name)).toEqual(['Andi Saputra']);
+
+    const restored = await restorePatient(patients[0].id);
+    expect(restored.archived_at).toBeNull();
+    expect(restored.archived_by).toBeNull();
+    expect((await getPatients({ limit: 10, offset: 0, sort_by: 'name', sort_direction: 'asc' })).total).toEqual(2);
+    await expect(restorePatient(patients[0].id)).rejects.toThrow('Pasien Andi Pratama tidak sedang diarsipkan');
+    await expect(restorePatient(999)).rejects.toThrow('Patient with ID 999 not found');
   });
-});
\ No newline at end of file
+
+  it('should not book an appointment for an archived patient', async () => {
+    const patient = await db.insert(patientsTable)
+      .values({ name: 'Andi', date_of_birth: '2015-01-01', gender: 'Laki-laki' })
+      .returning()
+      .execute();
+    const service = await db.insert(servicesTable)
+      .values({ name: 'Sunat Laser', price: '1500000.00' })
+      .returning()
+      .execute();
+    await archivePatient(patient[0].id);
+
+    await expect(createAppointment({
+      patient_id: patient[0].id,
+      service_id: service[0].id,
+      start_time: new Date('2030-01-08T09:00:00'),
+      notes: null
+    })).rejects.toThrow('Pasien Andi sudah diarsipkan');
+  });
+
+  it('should hide archived medicines and services from lists and stock alerts', async () => {
+    const medicines = await db.insert(medicinesTable).values([
+      { name: 'Amoxicillin', unit: 'tablet', price_per_unit: '1000.00', stock_quantity: 2, minimum_stock: 10 },
+      { name: 'Paracetamol', unit: 'tablet', price_per_unit: '500.00', stock_quantity: 5, minimum_stock: 10 }
+    ]).returning().execute();
+    const services = await db.insert(servicesTable).values([
+      { name: 'Sunat Klamp', price: '1000000.00' },
+      { name: 'Sunat Laser', price: '1500000.00' }
+    ]).returning().execute();
+
+    const medicine = await archiveMedicine(medicines[0].id, 3);
+    expect(medicine.price_per_unit).toEqual(1000);
+    expect(medicine.archived_by).toEqual(3);
+    await archiveService(services[0].id, 3);
+
+    const listed = await getMedicines({ low_stock_only: false, expired_only: false, limit: 10, offset: 0, sort_by: 'name', sort_direction: 'asc' });
+    expect(listed.items.map(item => item.name)).toEqual(['Paracetamol']);
+    const withArchived = await getMedicines({ include_archived: true, low_stock_only: false, expired_only: false, limit: 10, offset: 0, sort_by: 'name', sort_direction: 'asc' });
+    expect(withArchived.total).toEqual(2);
+    expect((await getLowStockMedicines()).map(item => item.name)).toEqual(['Paracetamol']);
+
+    expect((await getServices()).items.map(item => item.name)).toEqual(['Sunat Laser']);
+    expect((await getServices({ limit: 50, offset: 0, active_only: false, include_archived: true })).items.map(item => item.name).sort()).toEqual(['Sunat Klamp', 'Sunat Laser']);
+
+    await restoreMedicine(medicines[0].id);
+    await restoreService(services[0].id);
+    expect((await getLowStockMedicines()).map(item => item.name)).toEqual(['Amoxicillin', 'Paracetamol']);
+    expect((await getServices()).items.map(item => item.name).sort()).toEqual(['Sunat Klamp', 'Sunat Laser']);
+  });
+
+  it('should report records bundled in a service package as blocked', async () => {
+    const medicine = await db.insert(medicinesTable)
+      .values({ name: 'Paracetamol', unit: 'tablet', price_per_unit: '500.00', stock_quantity: 50, minimum_stock: 10 })
+      .returning()
+      .execute();
+    const service = await db.insert(servicesTable)
+      .values({ name: 'Sunat Laser', price: '1500000.00' })
+      .returning()
+      .execute();
+    const servicePackage = await db.insert(servicePackagesTable)
+      .values({ name: 'Paket Sunat', price: '1600000.00' })
+      .returning()
+      .execute();
+    await db.insert(servicePackageItemsTable).values([
+      { package_id: servicePackage[0].id, item_type: 'service', item_id: service[0].id, quantity: 1 },
+      { package_id: servicePackage[0].id, item_type: 'medicine', item_id: medicine[0].id, quantity: 10 }
+    ]).execute();
+
+    expect(await deleteMedicine(medicine[0].id)).toEqual({ deleted: false, reason: 'HAS_SERVICE_PACKAGES' });
+    expect(await deleteService(service[0].id)).toEqual({ deleted: false, reason: 'HAS_SERVICE_PACKAGES' });
+    expect(await db.select().from(medicinesTable).execute()).toHaveLength(1);
+    expect(await db.select().from(servicesTable).execute()).toHaveLength(1);
+  });
+});
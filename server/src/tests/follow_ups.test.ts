@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { patientsTable, servicesTable, transactionsTable, followUpsTable } from '../db/schema';
+import { getDueFollowUps, cancelFollowUp, followUpDueDate } from '../handlers/follow_ups';
+
+describe('Follow-up Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let patientId: number;
+  let serviceId: number;
+  let transactionId: number;
+
+  beforeEach(async () => {
+    const patient = await db.insert(patientsTable)
+      .values({
+        name: 'Ahmad',
+        date_of_birth: '2015-03-10',
+        gender: 'Laki-laki',
+        phone: '081234567890'
+      })
+      .returning()
+      .execute();
+    patientId = patient[0].id;
+
+    const service = await db.insert(servicesTable)
+      .values({
+        name: 'Khitan Klamp',
+        description: null,
+        price: '1500000.00',
+        follow_up_days: [3, 7]
+      })
+      .returning()
+      .execute();
+    serviceId = service[0].id;
+
+    const transaction = await db.insert(transactionsTable)
+      .values({
+        patient_id: patientId,
+        total_amount: '1500000.00',
+        payment_method: 'tunai',
+        payment_status: 'paid'
+      })
+      .returning()
+      .execute();
+    transactionId = transaction[0].id;
+  });
+
+  const createFollowUp = async (dueDate: string, dayOffset: number) => {
+    const result = await db.insert(followUpsTable)
+      .values({
+        patient_id: patientId,
+        transaction_id: transactionId,
+        service_id: serviceId,
+        day_offset: dayOffset,
+        due_date: dueDate
+      })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  describe('followUpDueDate', () => {
+    it('should count calendar days from the procedure day', () => {
+      expect(followUpDueDate(new Date('2024-02-27T15:00:00'), 3)).toEqual('2024-03-01');
+      expect(followUpDueDate(new Date('2024-12-28T09:00:00'), 7)).toEqual('2025-01-04');
+    });
+  });
+
+  describe('getDueFollowUps', () => {
+    it('should return pending follow-ups due by the given day and flag missed ones', async () => {
+      await createFollowUp('2024-03-04', 3);
+      await createFollowUp('2024-03-08', 7);
+      await createFollowUp('2024-03-20', 21);
+
+      const result = await getDueFollowUps({ as_of: new Date('2024-03-08T10:00:00'), include_upcoming: false });
+
+      expect(result).toHaveLength(2);
+      expect(result[0].day_offset).toEqual(3);
+      expect(result[0].is_missed).toBe(true);
+      expect(result[0].due_date).toBeInstanceOf(Date);
+      expect(result[1].day_offset).toEqual(7);
+      expect(result[1].is_missed).toBe(false);
+      expect(result[1].patient_name).toEqual('Ahmad');
+      expect(result[1].patient_phone).toEqual('081234567890');
+      expect(result[1].service_name).toEqual('Khitan Klamp');
+    });
+
+    it('should include upcoming follow-ups of a patient on request', async () => {
+      await createFollowUp('2024-03-04', 3);
+      await createFollowUp('2024-03-20', 21);
+
+      const result = await getDueFollowUps({
+        as_of: new Date('2024-03-01T10:00:00'),
+        patient_id: patientId,
+        include_upcoming: true
+      });
+
+      expect(result).toHaveLength(2);
+      expect(result.every(followUp => !followUp.is_missed)).toBe(true);
+      expect(await getDueFollowUps({ as_of: new Date('2024-03-01T10:00:00'), patient_id: 999, include_upcoming: true })).toHaveLength(0);
+    });
+
+    it('should skip completed and cancelled follow-ups', async () => {
+      const followUp = await createFollowUp('2024-03-04', 3);
+      await cancelFollowUp(followUp.id);
+
+      const result = await getDueFollowUps({ as_of: new Date('2024-03-08T10:00:00'), include_upcoming: false });
+
+      expect(result).toHaveLength(0);
+    });
+  });
+
+  describe('cancelFollowUp', () => {
+    it('should cancel a pending follow-up once', async () => {
+      const followUp = await createFollowUp('2024-03-04', 3);
+
+      const result = await cancelFollowUp(followUp.id);
+
+      expect(result.status).toEqual('cancelled');
+      await expect(cancelFollowUp(followUp.id)).rejects.toThrow(/belum dilakukan/i);
+    });
+
+    it('should throw for unknown follow-ups', async () => {
+      await expect(cancelFollowUp(999)).rejects.toThrow(/Follow-up with ID 999 not found/);
+    });
+  });
+});
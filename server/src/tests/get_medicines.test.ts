@@ -3,7 +3,7 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { medicinesTable } from '../db/schema';
 import { type MedicineSearchInput, type CreateMedicineInput } from '../schema';
-import { getMedicines, getMedicineById, getLowStockMedicines, getExpiredMedicines } from '../handlers/get_medicines';
+import { getMedicines, getMedicineById, getLowStockMedicines, getExpiredMedicines, exportMedicinesCsv } from '../handlers/get_medicines';
 
 describe('getMedicines', () => {
   beforeEach(createDB);
@@ -47,11 +47,11 @@ describe('getMedicines', () => {
 
     const results = await getMedicines();
 
-    expect(results).toHaveLength(2);
-    expect(results[0].name).toEqual('Medicine A');
-    expect(results[1].name).toEqual('Medicine B');
-    expect(typeof results[0].price_per_unit).toBe('number');
-    expect(results[0].price_per_unit).toBe(5000);
+    expect(results.items).toHaveLength(2);
+    expect(results.items[0].name).toEqual('Medicine A');
+    expect(results.items[1].name).toEqual('Medicine B');
+    expect(typeof results.items[0].price_per_unit).toBe('number');
+    expect(results.items[0].price_per_unit).toBe(5000);
   });
 
   it('should search medicines by name', async () => {
@@ -64,18 +64,20 @@ describe('getMedicines', () => {
       limit: 10,
       offset: 0,
       low_stock_only: false,
-      expired_only: false
+      expired_only: false,
+      sort_by: 'name',
+      sort_direction: 'asc'
     };
 
     const results = await getMedicines(input);
 
     // Should match both medicines containing "para"
-    expect(results).toHaveLength(2);
-    const names = results.map(r => r.name).sort();
+    expect(results.items).toHaveLength(2);
+    const names = results.items.map(r => r.name).sort();
     expect(names).toEqual(['Paracetamol', 'Paracetamol Extra']);
     
     // Verify no Ibuprofen in results
-    expect(results.some(r => r.name === 'Ibuprofen')).toBe(false);
+    expect(results.items.some(r => r.name === 'Ibuprofen')).toBe(false);
   });
 
   it('should filter low stock medicines', async () => {
@@ -94,15 +96,17 @@ describe('getMedicines', () => {
       low_stock_only: true,
       limit: 10,
       offset: 0,
-      expired_only: false
+      expired_only: false,
+      sort_by: 'name',
+      sort_direction: 'asc'
     };
 
     const results = await getMedicines(input);
 
-    expect(results).toHaveLength(1);
-    expect(results[0].name).toEqual('Low Stock Medicine');
-    expect(results[0].stock_quantity).toBe(5);
-    expect(results[0].minimum_stock).toBe(10);
+    expect(results.items).toHaveLength(1);
+    expect(results.items[0].name).toEqual('Low Stock Medicine');
+    expect(results.items[0].stock_quantity).toBe(5);
+    expect(results.items[0].minimum_stock).toBe(10);
   });
 
   it('should filter expired medicines', async () => {
@@ -125,13 +129,15 @@ describe('getMedicines', () => {
       expired_only: true,
       limit: 10,
       offset: 0,
-      low_stock_only: false
+      low_stock_only: false,
+      sort_by: 'name',
+      sort_direction: 'asc'
     };
 
     const results = await getMedicines(input);
 
-    expect(results).toHaveLength(1);
-    expect(results[0].name).toEqual('Expired Medicine');
+    expect(results.items).toHaveLength(1);
+    expect(results.items[0].name).toEqual('Expired Medicine');
   });
 
   it('should apply pagination', async () => {
@@ -143,14 +149,39 @@ describe('getMedicines', () => {
       limit: 2,
       offset: 1,
       low_stock_only: false,
-      expired_only: false
+      expired_only: false,
+      sort_by: 'name',
+      sort_direction: 'asc'
     };
 
     const results = await getMedicines(input);
 
-    expect(results).toHaveLength(2);
-    expect(results[0].name).toEqual('Medicine 2');
-    expect(results[1].name).toEqual('Medicine 3');
+    expect(results.items).toHaveLength(2);
+    expect(results.items[0].name).toEqual('Medicine 2');
+    expect(results.items[1].name).toEqual('Medicine 3');
+  });
+
+  it('should walk every page by cursor once, with ties and blank sort keys', async () => {
+    await createTestMedicine({ name: 'Medicine 1', expiry_date: new Date('2030-01-31') });
+    await createTestMedicine({ name: 'Medicine 2', expiry_date: undefined });
+    await createTestMedicine({ name: 'Medicine 3', expiry_date: new Date('2030-01-31') });
+    await createTestMedicine({ name: 'Medicine 4', expiry_date: new Date('2029-06-30') });
+    await createTestMedicine({ name: 'Medicine 5', expiry_date: undefined });
+
+    for (const sort_direction of ['asc', 'desc'] as const) {
+      const base: MedicineSearchInput = { limit: 2, offset: 0, low_stock_only: false, expired_only: false, sort_by: 'expiry_date', sort_direction };
+      const all = await getMedicines({ ...base, limit: 10 });
+
+      const walked: string[] = [];
+      let cursor: string | null = null;
+      do {
+        const page = await getMedicines({ ...base, cursor });
+        walked.push(...page.items.map(medicine => medicine.name));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      expect(walked).toEqual(all.items.map(medicine => medicine.name));
+    }
   });
 
   it('should combine multiple filters', async () => {
@@ -175,13 +206,15 @@ describe('getMedicines', () => {
       low_stock_only: true,
       expired_only: true,
       limit: 10,
-      offset: 0
+      offset: 0,
+      sort_by: 'name',
+      sort_direction: 'asc'
     };
 
     const results = await getMedicines(input);
 
-    expect(results).toHaveLength(1);
-    expect(results[0].name).toEqual('Expired Low Stock Paracetamol');
+    expect(results.items).toHaveLength(1);
+    expect(results.items[0].name).toEqual('Expired Low Stock Paracetamol');
   });
 });
 
@@ -384,4 +417,25 @@ describe('getExpiredMedicines', () => {
 
     expect(results).toHaveLength(0);
   });
-});
\ No newline at end of file
+});
+
+describe('exportMedicinesCsv', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should export medicines matching the stock filters', async () => {
+    await db.insert(medicinesTable)
+      .values([
+        { name: 'Amoxicillin', unit: 'tablet', price_per_unit: '1500.00', stock_quantity: 5, minimum_stock: 10, expiry_date: '2026-06-30', supplier: 'PT Farma' },
+        { name: 'Paracetamol', unit: 'tablet', price_per_unit: '500.00', stock_quantity: 100, minimum_stock: 10 }
+      ])
+      .execute();
+
+    const result = await exportMedicinesCsv({ low_stock_only: true, expired_only: false, indonesian_format: false });
+    const lines = Buffer.from(result.content_base64, 'base64').toString('utf8').trimEnd().split('\r\n');
+
+    expect(result.filename).toMatch(/^obat-.*\.csv$/);
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toContain(',Amoxicillin,tablet,5,10,1500,2026-06-30,PT Farma,');
+  });
+});
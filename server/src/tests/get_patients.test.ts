@@ -1,9 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { patientsTable } from '../db/schema';
+import { patientsTable, guardiansTable, patientGuardiansTable } from '../db/schema';
 import { type PatientSearchInput, type CreatePatientInput } from '../schema';
-import { getPatients, getPatientById } from '../handlers/get_patients';
+import { getPatients, suggestPatients, getPatientById, exportPatientsCsv } from '../handlers/get_patients';
 
 // Test data setup - using string dates for database insertion
 const testPatientsForDB = [
@@ -42,7 +42,7 @@ describe('getPatients', () => {
 
   it('should return empty array when no patients exist', async () => {
     const result = await getPatients();
-    expect(result).toEqual([]);
+    expect(result.items).toEqual([]);
   });
 
   it('should return all patients when no input provided', async () => {
@@ -51,17 +51,17 @@ describe('getPatients', () => {
 
     const result = await getPatients();
 
-    expect(result).toHaveLength(3);
-    expect(result[0].name).toEqual('John Doe');
-    expect(result[0].gender).toEqual('Laki-laki');
-    expect(result[0].phone).toEqual('+6281234567890');
-    expect(result[0].date_of_birth).toBeInstanceOf(Date);
-    expect(result[0].created_at).toBeInstanceOf(Date);
-    expect(result[0].updated_at).toBeInstanceOf(Date);
-    expect(result[0].id).toBeDefined();
-
-    expect(result[1].name).toEqual('Jane Smith');
-    expect(result[2].name).toEqual('Ahmad Rizki');
+    expect(result.items).toHaveLength(3);
+    expect(result.items[0].name).toEqual('John Doe');
+    expect(result.items[0].gender).toEqual('Laki-laki');
+    expect(result.items[0].phone).toEqual('+6281234567890');
+    expect(result.items[0].date_of_birth).toBeInstanceOf(Date);
+    expect(result.items[0].created_at).toBeInstanceOf(Date);
+    expect(result.items[0].updated_at).toBeInstanceOf(Date);
+    expect(result.items[0].id).toBeDefined();
+
+    expect(result.items[1].name).toEqual('Jane Smith');
+    expect(result.items[2].name).toEqual('Ahmad Rizki');
   });
 
   it('should apply default pagination when no input provided', async () => {
@@ -81,8 +81,8 @@ describe('getPatients', () => {
     const result = await getPatients();
 
     // Should return default limit of 10
-    expect(result).toHaveLength(10);
-    expect(result[0].name).toEqual('Patient 1');
+    expect(result.items).toHaveLength(10);
+    expect(result.items[0].name).toEqual('Patient 1');
   });
 
   it('should apply custom pagination', async () => {
@@ -91,14 +91,16 @@ describe('getPatients', () => {
 
     const searchInput: PatientSearchInput = {
       limit: 2,
-      offset: 1
+      offset: 1,
+      sort_by: 'created_at',
+      sort_direction: 'asc'
     };
 
     const result = await getPatients(searchInput);
 
-    expect(result).toHaveLength(2);
-    expect(result[0].name).toEqual('Jane Smith');
-    expect(result[1].name).toEqual('Ahmad Rizki');
+    expect(result.items).toHaveLength(2);
+    expect(result.items[0].name).toEqual('Jane Smith');
+    expect(result.items[1].name).toEqual('Ahmad Rizki');
   });
 
   it('should search patients by name (case insensitive)', async () => {
@@ -108,14 +110,16 @@ describe('getPatients', () => {
     const searchInput: PatientSearchInput = {
       query: 'john',
       limit: 10,
-      offset: 0
+      offset: 0,
+      sort_by: 'created_at',
+      sort_direction: 'asc'
     };
 
     const result = await getPatients(searchInput);
 
-    expect(result).toHaveLength(1);
-    expect(result[0].name).toEqual('John Doe');
-    expect(result[0].gender).toEqual('Laki-laki');
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].name).toEqual('John Doe');
+    expect(result.items[0].gender).toEqual('Laki-laki');
   });
 
   it('should search patients by partial name match', async () => {
@@ -125,13 +129,34 @@ describe('getPatients', () => {
     const searchInput: PatientSearchInput = {
       query: 'ah',
       limit: 10,
-      offset: 0
+      offset: 0,
+      sort_by: 'created_at',
+      sort_direction: 'asc'
     };
 
     const result = await getPatients(searchInput);
 
-    expect(result).toHaveLength(1);
-    expect(result[0].name).toEqual('Ahmad Rizki');
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].name).toEqual('Ahmad Rizki');
+  });
+
+  it('should find patients through their guardian', async () => {
+    const patients = await db.insert(patientsTable).values(testPatientsForDB).returning().execute();
+    const guardian = await db.insert(guardiansTable)
+      .values({ name: 'Budi Santoso', relationship: 'Ayah', nik: '3201010101800001', phone: '081211112222' })
+      .returning()
+      .execute();
+    await db.insert(patientGuardiansTable)
+      .values({ patient_id: patients[0].id, guardian_id: guardian[0].id, is_primary: true })
+      .execute();
+
+    const byName = await getPatients({ query: 'budi', limit: 10, offset: 0, sort_by: 'created_at', sort_direction: 'asc' });
+    expect(byName.items).toHaveLength(1);
+    expect(byName.items[0].name).toEqual('John Doe');
+
+    const byNik = await getPatients({ query: '3201010101800001', limit: 10, offset: 0, sort_by: 'created_at', sort_direction: 'asc' });
+    expect(byNik.items).toHaveLength(1);
+    expect(byNik.items[0].id).toEqual(patients[0].id);
   });
 
   it('should return empty array when search query has no matches', async () => {
@@ -141,12 +166,14 @@ describe('getPatients', () => {
     const searchInput: PatientSearchInput = {
       query: 'nonexistent',
       limit: 10,
-      offset: 0
+      offset: 0,
+      sort_by: 'created_at',
+      sort_direction: 'asc'
     };
 
     const result = await getPatients(searchInput);
 
-    expect(result).toEqual([]);
+    expect(result.items).toEqual([]);
   });
 
   it('should handle empty search query by returning all patients', async () => {
@@ -156,12 +183,14 @@ describe('getPatients', () => {
     const searchInput: PatientSearchInput = {
       query: '',
       limit: 10,
-      offset: 0
+      offset: 0,
+      sort_by: 'created_at',
+      sort_direction: 'asc'
     };
 
     const result = await getPatients(searchInput);
 
-    expect(result).toHaveLength(3);
+    expect(result.items).toHaveLength(3);
   });
 
   it('should handle whitespace-only search query by returning all patients', async () => {
@@ -171,12 +200,14 @@ describe('getPatients', () => {
     const searchInput: PatientSearchInput = {
       query: '   ',
       limit: 10,
-      offset: 0
+      offset: 0,
+      sort_by: 'created_at',
+      sort_direction: 'asc'
     };
 
     const result = await getPatients(searchInput);
 
-    expect(result).toHaveLength(3);
+    expect(result.items).toHaveLength(3);
   });
 
   it('should combine search and pagination correctly', async () => {
@@ -193,15 +224,62 @@ describe('getPatients', () => {
     const searchInput: PatientSearchInput = {
       query: 'john',
       limit: 2,
-      offset: 1
+      offset: 1,
+      sort_by: 'created_at',
+      sort_direction: 'asc'
     };
 
     const result = await getPatients(searchInput);
 
-    expect(result).toHaveLength(2);
+    expect(result.items).toHaveLength(2);
     // Should return the second and third John matches
-    expect(result[0].name).toEqual('John Smith');
-    expect(result[1].name).toEqual('Johnny Walker');
+    expect(result.items[0].name).toEqual('John Smith');
+    expect(result.items[1].name).toEqual('Johnny Walker');
+  });
+
+  it('should report the total and page on with the cursor', async () => {
+    await db.insert(patientsTable).values(testPatientsForDB).execute();
+
+    const first = await getPatients({ limit: 2, offset: 0, sort_by: 'name', sort_direction: 'asc' });
+    expect(first.items.map(patient => patient.name)).toEqual(['Ahmad Rizki', 'Jane Smith']);
+    expect(first.total).toEqual(3);
+    expect(first.hasMore).toBe(true);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await getPatients({ limit: 2, offset: 0, cursor: first.nextCursor, sort_by: 'name', sort_direction: 'asc' });
+    expect(second.items.map(patient => patient.name)).toEqual(['John Doe']);
+    expect(second.total).toEqual(3);
+    expect(second.hasMore).toBe(false);
+    expect(second.nextCursor).toBeNull();
+
+    const byAge = await getPatients({ limit: 10, offset: 0, sort_by: 'date_of_birth', sort_direction: 'desc' });
+    expect(byAge.items.map(patient => patient.name)).toEqual(['Jane Smith', 'John Doe', 'Ahmad Rizki']);
+
+    await expect(getPatients({ limit: 2, offset: 0, cursor: 'bukan-cursor', sort_by: 'name', sort_direction: 'asc' }))
+      .rejects.toMatchObject({ code: 'BAD_REQUEST', message: 'Cursor halaman tidak valid' });
+  });
+
+  it('should continue after the last row served even when rows are added in front', async () => {
+    await db.insert(patientsTable).values(testPatientsForDB).execute();
+
+    const first = await getPatients({ limit: 2, offset: 0, sort_by: 'name', sort_direction: 'asc' });
+    await db.insert(patientsTable)
+      .values({ ...testPatientsForDB[0], name: 'Abdul Karim' })
+      .execute();
+
+    const second = await getPatients({ limit: 2, offset: 0, cursor: first.nextCursor, sort_by: 'name', sort_direction: 'asc' });
+    expect(second.items.map(patient => patient.name)).toEqual(['John Doe']);
+    expect(second.total).toEqual(4);
+
+    // Registration time keeps its microseconds in the cursor, so one row per page still reaches every row
+    const names: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await getPatients({ limit: 1, offset: 0, cursor, sort_by: 'created_at', sort_direction: 'desc' });
+      names.push(...page.items.map(patient => patient.name));
+      cursor = page.nextCursor;
+    } while (cursor);
+    expect(names).toEqual(['Abdul Karim', 'Ahmad Rizki', 'Jane Smith', 'John Doe']);
   });
 
   it('should handle patients with null values correctly', async () => {
@@ -210,12 +288,80 @@ describe('getPatients', () => {
 
     const result = await getPatients();
 
-    expect(result).toHaveLength(1);
-    expect(result[0].name).toEqual('Ahmad Rizki');
-    expect(result[0].phone).toBeNull();
-    expect(result[0].address).toBeNull();
-    expect(result[0].emergency_contact).toBeNull();
-    expect(result[0].medical_notes).toBeNull();
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].name).toEqual('Ahmad Rizki');
+    expect(result.items[0].phone).toBeNull();
+    expect(result.items[0].address).toBeNull();
+    expect(result.items[0].emergency_contact).toBeNull();
+    expect(result.items[0].medical_notes).toBeNull();
+  });
+
+  it('should find patients despite typos and rank the closest name first', async () => {
+    await db.insert(patientsTable).values([
+      { name: 'Muhammad Rizki', date_of_birth: '2015-01-10', gender: 'Laki-laki', address: 'Jl. Melati No. 5, Bogor' },
+      { name: 'Dimas Saputra', date_of_birth: '2016-02-11', gender: 'Laki-laki', address: 'Perum Muhammadiyah Blok C' },
+      { name: 'Siti Aminah', date_of_birth: '2014-03-12', gender: 'Perempuan' }
+    ]).execute();
+
+    const result = await getPatients({ query: 'Muhamad', limit: 10, offset: 0, sort_by: 'relevance', sort_direction: 'asc' });
+    expect(result.items.map(patient => patient.name)).toEqual(['Muhammad Rizki', 'Dimas Saputra']);
+
+    const byAddress = await getPatients({ query: 'melatti', limit: 10, offset: 0, sort_by: 'relevance', sort_direction: 'asc' });
+    expect(byAddress.items.map(patient => patient.name)).toEqual(['Muhammad Rizki']);
+  });
+
+  it('should match phone numbers however they are written', async () => {
+    await db.insert(patientsTable).values(testPatientsForDB).execute();
+
+    const local = await getPatients({ query: '0812-3456-7892', limit: 10, offset: 0, sort_by: 'relevance', sort_direction: 'asc' });
+    expect(local.items.map(patient => patient.name)).toEqual(['Jane Smith']);
+
+    // John's emergency contact ends in ...891, as does nobody's own phone
+    const emergency = await getPatients({ query: '7891', limit: 10, offset: 0, sort_by: 'relevance', sort_direction: 'asc' });
+    expect(emergency.items.map(patient => patient.name)).toEqual(['John Doe']);
+  });
+
+  it('should filter by gender and age range', async () => {
+    const yearsAgo = (years: number) => {
+      const date = new Date();
+      date.setFullYear(date.getFullYear() - years, date.getMonth(), date.getDate() - 1);
+      return date.toISOString().split('T')[0];
+    };
+    await db.insert(patientsTable).values([
+      { name: 'Bayi', date_of_birth: yearsAgo(1), gender: 'Laki-laki' },
+      { name: 'Anak', date_of_birth: yearsAgo(8), gender: 'Laki-laki' },
+      { name: 'Kakak', date_of_birth: yearsAgo(12), gender: 'Perempuan' },
+      { name: 'Remaja', date_of_birth: yearsAgo(15), gender: 'Laki-laki' }
+    ]).execute();
+
+    const boys = await getPatients({ gender: 'Laki-laki', age_min: 5, age_max: 12, limit: 10, offset: 0, sort_by: 'name', sort_direction: 'asc' });
+    expect(boys.items.map(patient => patient.name)).toEqual(['Anak']);
+
+    const upToTwelve = await getPatients({ age_max: 12, limit: 10, offset: 0, sort_by: 'name', sort_direction: 'asc' });
+    expect(upToTwelve.items.map(patient => patient.name)).toEqual(['Anak', 'Bayi', 'Kakak']);
+    expect(upToTwelve.total).toEqual(3);
+  });
+});
+
+describe('suggestPatients', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return the best matches first, up to the limit', async () => {
+    await db.insert(patientsTable).values([
+      ...testPatientsForDB,
+      { name: 'Johan Pratama', date_of_birth: '2012-05-05', gender: 'Laki-laki' as const },
+      { name: 'Ahmad Johnson', date_of_birth: '2011-06-06', gender: 'Laki-laki' as const }
+    ]).execute();
+
+    const result = await suggestPatients({ query: 'joh', limit: 8 });
+    expect(result.map(patient => patient.name)).toEqual(['Johan Pratama', 'John Doe', 'Ahmad Johnson']);
+    expect(result[0].date_of_birth).toBeInstanceOf(Date);
+
+    const limited = await suggestPatients({ query: 'joh', limit: 1 });
+    expect(limited).toHaveLength(1);
+
+    expect(await suggestPatients({ query: 'tidak ada', limit: 8 })).toEqual([]);
   });
 });
 
@@ -301,4 +447,34 @@ describe('getPatientById', () => {
     const result = await getPatientById(-1);
     expect(result).toBeNull();
   });
-});
\ No newline at end of file
+});
+
+describe('exportPatientsCsv', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const decode = (content: string) =>
+    Buffer.from(content, 'base64').toString('utf8').replace(/^\uFEFF/, '').trimEnd().split('\r\n');
+
+  it('should export all matching patients sorted by name', async () => {
+    await db.insert(patientsTable).values(testPatientsForDB).execute();
+
+    const result = await exportPatientsCsv({ indonesian_format: false });
+    const lines = decode(result.content_base64);
+
+    expect(result.filename).toMatch(/^pasien-.*\.csv$/);
+    expect(lines).toHaveLength(4);
+    expect(lines[1]).toContain(',Ahmad Rizki,1978-12-10,Laki-laki,,,,,');
+    expect(lines[2]).toContain(',Jane Smith,1990-07-22,Perempuan,+6281234567892,"Jl. Sudirman No. 456, Bandung",');
+  });
+
+  it('should apply the search filter and Indonesian dates', async () => {
+    await db.insert(patientsTable).values(testPatientsForDB).execute();
+
+    const result = await exportPatientsCsv({ query: 'john', indonesian_format: true });
+    const lines = decode(result.content_base64);
+
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toContain(';John Doe;15/03/1985;Laki-laki;');
+  });
+});
@@ -10,7 +10,7 @@ describe('getServices', () => {
 
   it('should return empty array when no services exist', async () => {
     const result = await getServices();
-    expect(result).toEqual([]);
+    expect(result).toEqual({ items: [], total: 0, hasMore: false, nextCursor: null });
   });
 
   it('should return all services when activeOnly is false', async () => {
@@ -30,7 +30,7 @@ describe('getServices', () => {
       }
     ]).execute();
 
-    const result = await getServices(false);
+    const { items: result } = await getServices({ limit: 50, offset: 0, active_only: false });
 
     expect(result).toHaveLength(2);
     expect(result[0].name).toEqual('Active Service');
@@ -66,7 +66,7 @@ describe('getServices', () => {
       }
     ]).execute();
 
-    const result = await getServices(true);
+    const { items: result } = await getServices({ limit: 50, offset: 0, active_only: true });
 
     expect(result).toHaveLength(2);
     expect(result.every(service => service.is_active)).toBe(true);
@@ -84,7 +84,7 @@ describe('getServices', () => {
       is_active: true
     }).execute();
 
-    const result = await getServices();
+    const { items: result } = await getServices();
 
     expect(result).toHaveLength(1);
     expect(result[0].price).toEqual(123.45);
@@ -99,7 +99,7 @@ describe('getServices', () => {
       is_active: true
     }).execute();
 
-    const result = await getServices();
+    const { items: result } = await getServices();
 
     expect(result).toHaveLength(1);
     expect(result[0].name).toEqual('Service Without Description');
@@ -115,7 +115,7 @@ describe('getServices', () => {
       is_active: true
     }).execute();
 
-    const result = await getServices();
+    const { items: result } = await getServices();
 
     expect(result).toHaveLength(1);
     const service = result[0];
@@ -127,6 +127,23 @@ describe('getServices', () => {
     expect(service.created_at).toBeInstanceOf(Date);
     expect(service.updated_at).toBeInstanceOf(Date);
   });
+
+  it('should page through services by name', async () => {
+    await db.insert(servicesTable).values([
+      { name: 'Sunat Laser', description: null, price: '1200000.00' },
+      { name: 'Kontrol', description: null, price: '100000.00' },
+      { name: 'Sunat Klamp', description: null, price: '1500000.00' }
+    ]).execute();
+
+    const first = await getServices({ limit: 2, offset: 0, active_only: false });
+    expect(first.items.map(service => service.name)).toEqual(['Kontrol', 'Sunat Klamp']);
+    expect(first.total).toEqual(3);
+    expect(first.hasMore).toBe(true);
+
+    const second = await getServices({ limit: 2, offset: 0, cursor: first.nextCursor, active_only: false });
+    expect(second.items.map(service => service.name)).toEqual(['Sunat Laser']);
+    expect(second.hasMore).toBe(false);
+  });
 });
 
 describe('getServiceById', () => {
@@ -8,7 +8,8 @@ import {
   getTransactions, 
   getTransactionById, 
   getTodayTransactions, 
-  getPendingTransactions 
+  getPendingTransactions,
+  exportTransactionsCsv
 } from '../handlers/get_transactions';
 
 describe('Transaction Handlers', () => {
@@ -59,10 +60,10 @@ describe('Transaction Handlers', () => {
 
       const result = await getTransactions();
 
-      expect(result).toHaveLength(2);
-      expect(result[0].total_amount).toBe(200000); // Should be newest first
-      expect(result[1].total_amount).toBe(100000);
-      expect(typeof result[0].total_amount).toBe('number');
+      expect(result.items).toHaveLength(2);
+      expect(result.items[0].total_amount).toBe(200000); // Should be newest first
+      expect(result.items[1].total_amount).toBe(100000);
+      expect(typeof result.items[0].total_amount).toBe('number');
     });
 
     it('should filter transactions by patient_id', async () => {
@@ -75,13 +76,15 @@ describe('Transaction Handlers', () => {
       const input: TransactionSearchInput = {
         patient_id: patientId1,
         limit: 10,
-        offset: 0
+        offset: 0,
+        sort_by: 'created_at',
+        sort_direction: 'desc'
       };
 
       const result = await getTransactions(input);
 
-      expect(result).toHaveLength(1);
-      expect(result[0].patient_id).toBe(patientId1);
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].patient_id).toBe(patientId1);
     });
 
     it('should filter transactions by payment_status', async () => {
@@ -93,13 +96,15 @@ describe('Transaction Handlers', () => {
       const input: TransactionSearchInput = {
         payment_status: 'pending',
         limit: 10,
-        offset: 0
+        offset: 0,
+        sort_by: 'created_at',
+        sort_direction: 'desc'
       };
 
       const result = await getTransactions(input);
 
-      expect(result).toHaveLength(1);
-      expect(result[0].payment_status).toBe('pending');
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].payment_status).toBe('pending');
     });
 
     it('should filter transactions by date range', async () => {
@@ -135,13 +140,15 @@ describe('Transaction Handlers', () => {
         start_date: today,
         end_date: tomorrow,
         limit: 10,
-        offset: 0
+        offset: 0,
+        sort_by: 'created_at',
+        sort_direction: 'desc'
       };
 
       const result = await getTransactions(input);
 
-      expect(result).toHaveLength(2);
-      result.forEach(transaction => {
+      expect(result.items).toHaveLength(2);
+      result.items.forEach(transaction => {
         expect(transaction.created_at >= today).toBe(true);
         expect(transaction.created_at <= tomorrow).toBe(true);
       });
@@ -157,15 +164,17 @@ describe('Transaction Handlers', () => {
 
       const input: TransactionSearchInput = {
         limit: 2,
-        offset: 1
+        offset: 1,
+        sort_by: 'created_at',
+        sort_direction: 'desc'
       };
 
       const result = await getTransactions(input);
 
-      expect(result).toHaveLength(2);
+      expect(result.items).toHaveLength(2);
       // Should skip the first (newest) transaction
-      expect(result[0].total_amount).toBe(130000);
-      expect(result[1].total_amount).toBe(120000);
+      expect(result.items[0].total_amount).toBe(130000);
+      expect(result.items[1].total_amount).toBe(120000);
     });
 
     it('should handle multiple filters simultaneously', async () => {
@@ -213,15 +222,17 @@ describe('Transaction Handlers', () => {
         payment_status: 'pending',
         start_date: today,
         limit: 10,
-        offset: 0
+        offset: 0,
+        sort_by: 'created_at',
+        sort_direction: 'desc'
       };
 
       const result = await getTransactions(input);
 
-      expect(result).toHaveLength(1);
-      expect(result[0].patient_id).toBe(patientId1);
-      expect(result[0].payment_status).toBe('pending');
-      expect(result[0].created_at >= today).toBe(true);
+      expect(result.items).toHaveLength(1);
+      expect(result.items[0].patient_id).toBe(patientId1);
+      expect(result.items[0].payment_status).toBe('pending');
+      expect(result.items[0].created_at >= today).toBe(true);
     });
 
     it('should return empty array when no transactions match filters', async () => {
@@ -231,12 +242,14 @@ describe('Transaction Handlers', () => {
       const input: TransactionSearchInput = {
         payment_status: 'cancelled',
         limit: 10,
-        offset: 0
+        offset: 0,
+        sort_by: 'created_at',
+        sort_direction: 'desc'
       };
 
       const result = await getTransactions(input);
 
-      expect(result).toHaveLength(0);
+      expect(result.items).toHaveLength(0);
     });
   });
 
@@ -460,4 +473,38 @@ describe('Transaction Handlers', () => {
       expect(result[2].total_amount).toBe(100000); // Oldest
     });
   });
-});
\ No newline at end of file
+
+  describe('exportTransactionsCsv', () => {
+    const decode = (content: string) =>
+      Buffer.from(content, 'base64').toString('utf8').replace(/^\uFEFF/, '').trimEnd().split('\r\n');
+
+    it('should export every matching transaction without the pagination cap', async () => {
+      const patientId = await createTestPatient();
+      for (let i = 0; i < 12; i++) {
+        await createTestTransaction(patientId);
+      }
+      await createTestTransaction(patientId, { payment_status: 'pending' });
+
+      const result = await exportTransactionsCsv({ payment_status: 'paid', indonesian_format: false });
+
+      expect(result.filename).toMatch(/^transaksi-\d{4}-\d{2}-\d{2}\.csv$/);
+      expect(result.mime_type).toEqual('text/csv');
+
+      const lines = decode(result.content_base64);
+      expect(lines).toHaveLength(13); // Header plus 12 paid transactions
+      expect(lines[0]).toEqual('ID,Tanggal,Pasien,Total,Metode Pembayaran,Status,Catatan');
+      expect(lines[1]).toContain(',Test Patient,150000,tunai,paid,Test transaction');
+    });
+
+    it('should use Indonesian separators and number formatting on request', async () => {
+      const patientId = await createTestPatient();
+      await createTestTransaction(patientId, { total_amount: '1500000.50', notes: 'Lunas; via kasir' });
+
+      const result = await exportTransactionsCsv({ indonesian_format: true });
+      const lines = decode(result.content_base64);
+
+      expect(lines[0]).toEqual('ID;Tanggal;Pasien;Total;Metode Pembayaran;Status;Catatan');
+      expect(lines[1]).toContain(';Test Patient;1.500.000,5;tunai;paid;"Lunas; via kasir"');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { patientsTable, patientGuardiansTable } from '../db/schema';
+import {
+  createGuardian,
+  updateGuardian,
+  getGuardians,
+  getPatientGuardians,
+  linkGuardianToPatient,
+  unlinkGuardianFromPatient
+} from '../handlers/guardians';
+import { type CreateGuardianInput } from '../schema';
+
+const fatherInput: CreateGuardianInput = {
+  name: 'Budi Santoso',
+  relationship: 'Ayah',
+  nik: '3201010101800001',
+  phone: '081211112222',
+  address: 'Jl. Melati 1'
+};
+
+const createPatient = async (name: string) => {
+  const result = await db.insert(patientsTable)
+    .values({
+      name,
+      date_of_birth: '2016-05-01',
+      gender: 'Laki-laki'
+    })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('Guardian Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('createGuardian / updateGuardian', () => {
+    it('should create a guardian', async () => {
+      const result = await createGuardian(fatherInput);
+
+      expect(result.id).toBeDefined();
+      expect(result.name).toEqual('Budi Santoso');
+      expect(result.relationship).toEqual('Ayah');
+      expect(result.nik).toEqual('3201010101800001');
+    });
+
+    it('should update only the given fields', async () => {
+      const guardian = await createGuardian(fatherInput);
+
+      const result = await updateGuardian({ id: guardian.id, phone: '089900001111' });
+
+      expect(result.phone).toEqual('089900001111');
+      expect(result.name).toEqual('Budi Santoso');
+    });
+
+    it('should throw for unknown guardians', async () => {
+      await expect(updateGuardian({ id: 999, name: 'X' })).rejects.toThrow(/Guardian with ID 999 not found/);
+    });
+  });
+
+  describe('getGuardians', () => {
+    it('should search by name, NIK and phone', async () => {
+      await createGuardian(fatherInput);
+      await createGuardian({ name: 'Siti Aminah', relationship: 'Ibu', nik: null, phone: '085677778888', address: null });
+
+      expect((await getGuardians({ query: 'siti', limit: 10, offset: 0, sort_by: 'name', sort_direction: 'asc' })).items).toHaveLength(1);
+      expect((await getGuardians({ query: '32010101', limit: 10, offset: 0, sort_by: 'name', sort_direction: 'asc' })).items[0].name).toEqual('Budi Santoso');
+      expect((await getGuardians({ query: '7777', limit: 10, offset: 0, sort_by: 'name', sort_direction: 'asc' })).items[0].name).toEqual('Siti Aminah');
+      expect((await getGuardians()).items).toHaveLength(2);
+    });
+  });
+
+  describe('linkGuardianToPatient', () => {
+    it('should share one guardian between siblings', async () => {
+      const guardian = await createGuardian(fatherInput);
+      const older = await createPatient('Ahmad');
+      const younger = await createPatient('Rizki');
+
+      await linkGuardianToPatient({ patient_id: older.id, guardian_id: guardian.id, is_primary: true });
+      await linkGuardianToPatient({ patient_id: younger.id, guardian_id: guardian.id, is_primary: true });
+
+      expect((await getPatientGuardians(older.id))[0].name).toEqual('Budi Santoso');
+      expect((await getPatientGuardians(younger.id))[0].name).toEqual('Budi Santoso');
+    });
+
+    it('should keep a single primary guardian per patient', async () => {
+      const father = await createGuardian(fatherInput);
+      const mother = await createGuardian({ name: 'Siti Aminah', relationship: 'Ibu', nik: null, phone: null, address: null });
+      const patient = await createPatient('Ahmad');
+
+      await linkGuardianToPatient({ patient_id: patient.id, guardian_id: father.id, is_primary: true });
+      const result = await linkGuardianToPatient({ patient_id: patient.id, guardian_id: mother.id, is_primary: true });
+
+      expect(result).toHaveLength(2);
+      expect(result[0].name).toEqual('Siti Aminah');
+      expect(result[0].is_primary).toBe(true);
+      expect(result[1].is_primary).toBe(false);
+    });
+
+    it('should not duplicate an existing link', async () => {
+      const guardian = await createGuardian(fatherInput);
+      const patient = await createPatient('Ahmad');
+
+      await linkGuardianToPatient({ patient_id: patient.id, guardian_id: guardian.id, is_primary: false });
+      await linkGuardianToPatient({ patient_id: patient.id, guardian_id: guardian.id, is_primary: true });
+
+      const links = await db.select().from(patientGuardiansTable).execute();
+      expect(links).toHaveLength(1);
+      expect(links[0].is_primary).toBe(true);
+    });
+
+    it('should throw for unknown patients or guardians', async () => {
+      const guardian = await createGuardian(fatherInput);
+      const patient = await createPatient('Ahmad');
+
+      await expect(linkGuardianToPatient({ patient_id: 999, guardian_id: guardian.id, is_primary: false })).rejects.toThrow(/Patient with ID 999 not found/);
+      await expect(linkGuardianToPatient({ patient_id: patient.id, guardian_id: 999, is_primary: false })).rejects.toThrow(/Guardian with ID 999 not found/);
+    });
+  });
+
+  describe('unlinkGuardianFromPatient', () => {
+    it('should remove only the link', async () => {
+      const guardian = await createGuardian(fatherInput);
+      const patient = await createPatient('Ahmad');
+      await linkGuardianToPatient({ patient_id: patient.id, guardian_id: guardian.id, is_primary: true });
+
+      const result = await unlinkGuardianFromPatient(patient.id, guardian.id);
+
+      expect(result).toHaveLength(0);
+      expect((await getGuardians()).items).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { patientsTable, settingsTable } from '../db/schema';
+import { type CreatePatientInput } from '../schema';
+import { createPatient } from '../handlers/create_patient';
+import { importPatients } from '../handlers/patient_import';
+import { backfillMedicalRecordNumbers } from '../handlers/medical_record_numbers';
+import { getPatients } from '../handlers/get_patients';
+import { generatePatientCard } from '../handlers/reports';
+import { asc } from 'drizzle-orm';
+
+const patientInput = (name: string): CreatePatientInput => ({
+  name,
+  date_of_birth: new Date('2015-04-01'),
+  gender: 'Laki-laki',
+  phone: null,
+  address: null,
+  emergency_contact: null,
+  medical_notes: null
+});
+
+const year = new Date().getFullYear();
+
+describe('Medical record numbers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should number new patients in sequence with the default format', async () => {
+    const first = await createPatient(patientInput('Andi'));
+    const second = await createPatient(patientInput('Budi'));
+
+    expect(first.medical_record_number).toEqual(`RK-${year}-00001`);
+    expect(second.medical_record_number).toEqual(`RK-${year}-00002`);
+  });
+
+  it('should follow the configured format and skip numbers already taken', async () => {
+    await db.insert(settingsTable).values({ key: 'medical_record_format', value: 'RM/{YY}/{seq:3}' }).execute();
+    // A patient numbered by hand with what would be the first number
+    await db.insert(patientsTable)
+      .values({ medical_record_number: `RM/${String(year).slice(-2)}/001`, name: 'Lama', date_of_birth: '2014-01-01', gender: 'Perempuan' })
+      .execute();
+
+    const patient = await createPatient(patientInput('Citra'));
+
+    expect(patient.medical_record_number).toEqual(`RM/${String(year).slice(-2)}/002`);
+  });
+
+  it('should number imported patients in file order', async () => {
+    await createPatient(patientInput('Andi'));
+    const csv = 'nama,tanggal_lahir,jenis_kelamin\nBudi,2015-01-01,L\nCitra,2016-02-02,P\n';
+
+    await importPatients({ filename: 'pasien.csv', content_base64: Buffer.from(csv).toString('base64') });
+
+    const patients = await db.select().from(patientsTable).orderBy(asc(patientsTable.id)).execute();
+    expect(patients.map(patient => patient.medical_record_number)).toEqual([
+      `RK-${year}-00001`,
+      `RK-${year}-00002`,
+      `RK-${year}-00003`
+    ]);
+  });
+
+  it('should backfill earlier patients by the year they registered', async () => {
+    await db.insert(patientsTable).values([
+      { name: 'Lama 2024', date_of_birth: '2010-01-01', gender: 'Laki-laki', created_at: new Date('2024-03-01T09:00:00') },
+      { name: 'Lama 2023', date_of_birth: '2010-01-01', gender: 'Laki-laki', created_at: new Date('2023-05-01T09:00:00') },
+      { name: 'Lama 2024 Juga', date_of_birth: '2010-01-01', gender: 'Perempuan', created_at: new Date('2024-06-01T09:00:00') }
+    ]).execute();
+    const registered = await createPatient(patientInput('Baru'));
+
+    const result = await backfillMedicalRecordNumbers();
+    expect(result.assigned_count).toEqual(3);
+
+    const patients = await db.select().from(patientsTable).orderBy(asc(patientsTable.id)).execute();
+    expect(patients.map(patient => patient.medical_record_number)).toEqual([
+      'RK-2024-00001',
+      'RK-2023-00001',
+      'RK-2024-00002',
+      registered.medical_record_number
+    ]);
+
+    // Nothing left to number
+    expect((await backfillMedicalRecordNumbers()).assigned_count).toEqual(0);
+  });
+
+  it('should find a patient by medical record number and print their card', async () => {
+    await createPatient(patientInput('Andi'));
+    const budi = await createPatient(patientInput('Budi'));
+
+    const found = await getPatients({ query: `rk-${year}-00002`, limit: 10, offset: 0, sort_by: 'relevance', sort_direction: 'asc' });
+    expect(found.items.map(patient => patient.name)).toEqual(['Budi']);
+
+    const card = await generatePatientCard(budi.id);
+    expect(card.filename).toEqual(`kartu-pasien-RK-${year}-00002.pdf`);
+    expect(card.mime_type).toEqual('application/pdf');
+    const pdf = Buffer.from(card.content_base64, 'base64').toString('latin1');
+    expect(pdf.startsWith('%PDF')).toBe(true);
+    expect(pdf).toContain(`RK-${year}-00002`);
+  });
+
+  it('should not print a card before the patient has a number', async () => {
+    const legacy = await db.insert(patientsTable)
+      .values({ name: 'Lama', date_of_birth: '2010-01-01', gender: 'Laki-laki' })
+      .returning()
+      .execute();
+
+    await expect(generatePatientCard(legacy[0].id)).rejects.toThrow('Pasien belum memiliki No. RM');
+    await expect(generatePatientCard(9999)).rejects.toThrow('Patient with ID 9999 not found');
+  });
+});
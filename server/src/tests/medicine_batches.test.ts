@@ -0,0 +1,297 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  medicinesTable,
+  medicineBatchesTable,
+  patientsTable,
+  servicesTable,
+  stockMovementBatchesTable,
+  stockMovementsTable
+} from '../db/schema';
+import { expiryCutoff, getMedicineBatches } from '../handlers/medicine_batches';
+import { createStockMovement, adjustStock } from '../handlers/stock_management';
+import { createTransaction } from '../handlers/create_transaction';
+import { openShift } from '../handlers/cashier_shifts';
+import { updateTransactionStatus } from '../handlers/update_transaction';
+import { createMedicine } from '../handlers/create_medicine';
+import { getExpiredMedicines } from '../handlers/get_medicines';
+import { getDashboardStats } from '../handlers/dashboard';
+import { eq } from 'drizzle-orm';
+
+const daysFromToday = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+describe('Medicine Batches', () => {
+  beforeEach(createDB);
+  beforeEach(() => openShift({ opening_float: 0 }, 1)); // Sales need an open cashier shift
+  afterEach(resetDB);
+
+  let medicineId: number;
+
+  // An empty medicine stocked with two deliveries: the later delivery expires first
+  beforeEach(async () => {
+    const medicine = await db.insert(medicinesTable)
+      .values({
+        name: 'Amoxicillin',
+        unit: 'tablet',
+        price_per_unit: '1500.00',
+        stock_quantity: 0,
+        minimum_stock: 5
+      })
+      .returning()
+      .execute();
+    medicineId = medicine[0].id;
+
+    await createStockMovement({
+      medicine_id: medicineId,
+      movement_type: 'masuk',
+      quantity: 10,
+      reference_id: null,
+      notes: 'Pembelian',
+      lot_number: 'LOT-B',
+      expiry_date: new Date(daysFromToday(200)),
+      purchase_price: 1000
+    });
+    await createStockMovement({
+      medicine_id: medicineId,
+      movement_type: 'masuk',
+      quantity: 5,
+      reference_id: null,
+      notes: 'Pembelian',
+      lot_number: 'LOT-A',
+      expiry_date: new Date(daysFromToday(100)),
+      purchase_price: 1100
+    });
+  });
+
+  it('should record deliveries as batches and keep the medicine totals in sync', async () => {
+    const batches = await getMedicineBatches(medicineId);
+
+    expect(batches.map(batch => batch.lot_number)).toEqual(['LOT-A', 'LOT-B']);
+    expect(batches[0].quantity).toEqual(5);
+    expect(batches[0].purchase_price).toEqual(1100);
+    expect(batches[0].expiry_date).toEqual(new Date(daysFromToday(100)));
+
+    const medicine = await db.select().from(medicinesTable).where(eq(medicinesTable.id, medicineId)).execute();
+    expect(medicine[0].stock_quantity).toEqual(15);
+    expect(medicine[0].expiry_date).toEqual(daysFromToday(100));
+  });
+
+  it('should top up an existing batch with the same lot', async () => {
+    await createStockMovement({
+      medicine_id: medicineId,
+      movement_type: 'masuk',
+      quantity: 3,
+      reference_id: null,
+      notes: null,
+      lot_number: 'LOT-A',
+      expiry_date: new Date(daysFromToday(100))
+    });
+
+    const batches = await getMedicineBatches(medicineId);
+    expect(batches).toHaveLength(2);
+    expect(batches[0].quantity).toEqual(8);
+  });
+
+  it('should dispense transaction medicines first expired first out and restore them on cancellation', async () => {
+    const patient = await db.insert(patientsTable)
+      .values({ name: 'Ahmad', date_of_birth: '2015-03-15', gender: 'Laki-laki' })
+      .returning()
+      .execute();
+    const service = await db.insert(servicesTable)
+      .values({ name: 'Khitan', price: '500000.00' })
+      .returning()
+      .execute();
+
+    const transaction = await createTransaction({
+      patient_id: patient[0].id,
+      services: [{ service_id: service[0].id, quantity: 1 }],
+      medicines: [{ medicine_id: medicineId, quantity: 7 }],
+      payment_method: 'tunai',
+      payment_status: 'pending',
+      notes: null
+    });
+
+    let batches = await getMedicineBatches(medicineId);
+    expect(batches.map(batch => [batch.lot_number, batch.quantity])).toEqual([['LOT-B', 8]]);
+
+    const movement = await db.select()
+      .from(stockMovementsTable)
+      .where(eq(stockMovementsTable.reference_id, transaction.id))
+      .execute();
+    const allocations = await db.select()
+      .from(stockMovementBatchesTable)
+      .where(eq(stockMovementBatchesTable.movement_id, movement[0].id))
+      .execute();
+    expect(allocations.map(allocation => allocation.quantity)).toEqual([5, 2]);
+
+    await updateTransactionStatus(transaction.id, 'cancelled');
+
+    batches = await getMedicineBatches(medicineId);
+    expect(batches.map(batch => [batch.lot_number, batch.quantity])).toEqual([['LOT-A', 5], ['LOT-B', 10]]);
+
+    const medicine = await db.select().from(medicinesTable).where(eq(medicinesTable.id, medicineId)).execute();
+    expect(medicine[0].stock_quantity).toEqual(15);
+  });
+
+  it('should never dispense expired batches and reject a sale the unexpired stock cannot cover', async () => {
+    // A lot that expired three days ago is still on the shelf
+    await db.insert(medicineBatchesTable)
+      .values({ medicine_id: medicineId, lot_number: 'LOT-X', expiry_date: daysFromToday(-3), quantity: 4 })
+      .execute();
+    await db.update(medicinesTable).set({ stock_quantity: 19 }).where(eq(medicinesTable.id, medicineId)).execute();
+
+    const patient = await db.insert(patientsTable)
+      .values({ name: 'Ahmad', date_of_birth: '2015-03-15', gender: 'Laki-laki' })
+      .returning()
+      .execute();
+    const sale = (quantity: number) => createTransaction({
+      patient_id: patient[0].id,
+      services: [],
+      medicines: [{ medicine_id: medicineId, quantity }],
+      payment_method: 'tunai',
+      payment_status: 'pending',
+      notes: null
+    });
+
+    await sale(7);
+
+    const batches = await getMedicineBatches(medicineId);
+    expect(batches.map(batch => [batch.lot_number, batch.quantity])).toEqual([['LOT-X', 4], ['LOT-B', 8]]);
+
+    // 12 units are on hand, but only the 8 unexpired ones can be sold
+    await expect(sale(9)).rejects.toThrow('Insufficient stock for Amoxicillin. Available: 8, Required: 9');
+
+    const medicine = await db.select().from(medicinesTable).where(eq(medicinesTable.id, medicineId)).execute();
+    expect(medicine[0].stock_quantity).toEqual(12);
+  });
+
+  it('should take stock corrections from the first-expiring batch', async () => {
+    await adjustStock(medicineId, 12, 'Stok opname');
+
+    const batches = await getMedicineBatches(medicineId);
+    expect(batches.map(batch => [batch.lot_number, batch.quantity])).toEqual([['LOT-A', 2], ['LOT-B', 10]]);
+  });
+
+  it('should turn untracked stock into an opening batch on the first movement', async () => {
+    const legacy = await db.insert(medicinesTable)
+      .values({
+        name: 'Paracetamol',
+        unit: 'tablet',
+        price_per_unit: '500.00',
+        stock_quantity: 20,
+        minimum_stock: 5,
+        expiry_date: daysFromToday(30)
+      })
+      .returning()
+      .execute();
+
+    await createStockMovement({
+      medicine_id: legacy[0].id,
+      movement_type: 'keluar',
+      quantity: 4,
+      reference_id: null,
+      notes: null
+    });
+
+    const batches = await getMedicineBatches(legacy[0].id);
+    expect(batches).toHaveLength(1);
+    expect(batches[0].lot_number).toBeNull();
+    expect(batches[0].quantity).toEqual(16);
+    expect(batches[0].expiry_date).toEqual(new Date(daysFromToday(30)));
+  });
+
+  it('should create the opening batch of a new medicine', async () => {
+    const medicine = await createMedicine({
+      name: 'Betadine',
+      description: null,
+      unit: 'botol',
+      price_per_unit: 25000,
+      stock_quantity: 6,
+      minimum_stock: 2,
+      expiry_date: new Date('2027-01-31'),
+      supplier: null
+    });
+
+    const batches = await db.select()
+      .from(medicineBatchesTable)
+      .where(eq(medicineBatchesTable.medicine_id, medicine.id))
+      .execute();
+    expect(batches).toHaveLength(1);
+    expect(batches[0].quantity).toEqual(6);
+    expect(batches[0].expiry_date).toEqual('2027-01-31');
+  });
+
+  it('should count expired medicines from batches that still have stock', async () => {
+    // An expired batch that was used up does not count
+    await createStockMovement({
+      medicine_id: medicineId,
+      movement_type: 'masuk',
+      quantity: 2,
+      reference_id: null,
+      notes: null,
+      lot_number: 'LOT-OLD',
+      expiry_date: new Date(daysFromToday(-10))
+    });
+    await createStockMovement({
+      medicine_id: medicineId,
+      movement_type: 'keluar',
+      quantity: 2,
+      reference_id: null,
+      notes: null
+    });
+
+    expect(await getExpiredMedicines()).toHaveLength(0);
+    expect((await getDashboardStats()).expired_medicines).toEqual(0);
+
+    // One expired lot left in stock makes the medicine expired
+    await createStockMovement({
+      medicine_id: medicineId,
+      movement_type: 'masuk',
+      quantity: 1,
+      reference_id: null,
+      notes: null,
+      lot_number: 'LOT-OLDER',
+      expiry_date: new Date(daysFromToday(-20))
+    });
+
+    const expired = await getExpiredMedicines();
+    expect(expired).toHaveLength(1);
+    expect(expired[0].id).toEqual(medicineId);
+    expect(expired[0].expiry_date).toEqual(new Date(daysFromToday(-20)));
+    expect((await getDashboardStats()).expired_medicines).toEqual(1);
+  });
+
+  it('should treat a batch expiring today as expired everywhere', async () => {
+    await db.insert(medicineBatchesTable)
+      .values({ medicine_id: medicineId, lot_number: 'LOT-HARI-INI', expiry_date: expiryCutoff(), quantity: 3 })
+      .execute();
+    await db.update(medicinesTable).set({ stock_quantity: 18 }).where(eq(medicinesTable.id, medicineId)).execute();
+
+    // Not dispensed: the first-expiring lot a sale may take is LOT-A
+    const patient = await db.insert(patientsTable)
+      .values({ name: 'Ahmad', date_of_birth: '2015-03-15', gender: 'Laki-laki' })
+      .returning()
+      .execute();
+    await createTransaction({
+      patient_id: patient[0].id,
+      services: [],
+      medicines: [{ medicine_id: medicineId, quantity: 2 }],
+      payment_method: 'tunai',
+      payment_status: 'pending',
+      notes: null
+    });
+
+    const batches = await getMedicineBatches(medicineId);
+    expect(batches.map(batch => [batch.lot_number, batch.quantity]))
+      .toEqual([['LOT-HARI-INI', 3], ['LOT-A', 3], ['LOT-B', 10]]);
+
+    // And reported as expired by both the list and the dashboard
+    expect((await getExpiredMedicines()).map(medicine => medicine.id)).toEqual([medicineId]);
+    expect((await getDashboardStats()).expired_medicines).toEqual(1);
+  });
+});
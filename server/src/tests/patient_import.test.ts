@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { patientsTable } from '../db/schema';
+import { previewPatientImport, importPatients } from '../handlers/patient_import';
+import { renderWorkbook } from '../documents/xlsx';
+
+const csvInput = (lines: string[]) => ({
+  filename: 'pasien.csv',
+  content_base64: Buffer.from(lines.join('\n')).toString('base64')
+});
+
+describe('Patient Import Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('previewPatientImport', () => {
+    it('should map Indonesian headers and validate each row', async () => {
+      const result = await previewPatientImport(csvInput([
+        'Nama;Tanggal Lahir;Jenis Kelamin;No HP;Alamat',
+        'Ahmad Fauzi;15/03/2015;L;081234567890;"Jl. Melati 5; Bogor"',
+        ';01/01/2016;P;;',
+        'Budi;31/02/2016;X;;'
+      ]));
+
+      expect(result.columns).toEqual(['name', 'date_of_birth', 'gender', 'phone', 'address']);
+      expect(result.valid_count).toEqual(1);
+      expect(result.invalid_count).toEqual(2);
+      expect(result.imported_count).toEqual(0);
+
+      expect(result.rows[0].row_number).toEqual(2);
+      expect(result.rows[0].status).toEqual('valid');
+      expect(result.rows[0].patient?.gender).toEqual('Laki-laki');
+      expect(result.rows[0].patient?.date_of_birth).toEqual(new Date('2015-03-15'));
+      expect(result.rows[0].patient?.address).toEqual('Jl. Melati 5; Bogor');
+      expect(result.rows[0].patient?.emergency_contact).toBeNull();
+
+      expect(result.rows[1].errors).toEqual(['Nama pasien harus diisi']);
+      expect(result.rows[2].errors).toHaveLength(2);
+      expect(result.rows[2].errors[0]).toMatch(/Tanggal lahir tidak valid/);
+      expect(result.rows[2].errors[1]).toMatch(/Jenis kelamin/);
+
+      // Nothing is written by a preview
+      expect(await db.select().from(patientsTable).execute()).toHaveLength(0);
+    });
+
+    it('should flag duplicates of registered patients and of earlier rows', async () => {
+      const existing = await db.insert(patientsTable)
+        .values({ name: 'Ahmad Fauzi', date_of_birth: '2015-03-15', gender: 'Laki-laki', phone: '0812-3456-7890' })
+        .returning()
+        .execute();
+
+      const result = await previewPatientImport(csvInput([
+        'name,date_of_birth,gender,phone',
+        'ahmad fauzi,2015-03-15,Laki-laki,081234567890',
+        'Rizki,2016-07-01,Laki-laki,0813',
+        'Rizki,2016-07-01,Laki-laki,0813',
+        'Rizki,2016-07-01,Laki-laki,0899'
+      ]));
+
+      expect(result.rows.map(row => row.status)).toEqual(['duplicate', 'valid', 'duplicate', 'valid']);
+      expect(result.rows[0].duplicate_of).toEqual(existing[0].id);
+      expect(result.rows[2].errors).toEqual(['Sama dengan baris 3']);
+      expect(result.duplicate_count).toEqual(2);
+    });
+
+    it('should read the first sheet of an XLSX file', async () => {
+      const workbook = renderWorkbook([{
+        title: 'Pasien',
+        columns: [{ header: 'Nama' }, { header: 'Tanggal Lahir' }, { header: 'Jenis Kelamin' }, { header: 'Telepon' }],
+        rows: [
+          ['Siti Aminah', 42370, 'Perempuan', '0812'], // Excel serial for 2016-01-01
+          ['Dewi', '02/05/2017', 'P', null]
+        ]
+      }]);
+
+      const result = await previewPatientImport({
+        filename: 'Data Pasien.XLSX',
+        content_base64: workbook.toString('base64')
+      });
+
+      expect(result.valid_count).toEqual(2);
+      expect(result.rows[0].patient?.date_of_birth).toEqual(new Date('2016-01-01'));
+      expect(result.rows[1].patient?.date_of_birth).toEqual(new Date('2017-05-02'));
+      expect(result.rows[1].patient?.phone).toBeNull();
+    });
+
+    it('should reject files without the required columns or in other formats', async () => {
+      await expect(previewPatientImport(csvInput(['Nama,Alamat', 'Ahmad,Bogor'])))
+        .rejects.toThrow('Kolom wajib tidak ditemukan: tanggal lahir, jenis kelamin');
+      await expect(previewPatientImport({ filename: 'pasien.txt', content_base64: 'YQ==' }))
+        .rejects.toThrow(/CSV atau XLSX/);
+    });
+  });
+
+  describe('importPatients', () => {
+    it('should insert only the valid rows', async () => {
+      const result = await importPatients(csvInput([
+        'Nama,Tanggal Lahir,Jenis Kelamin',
+        'Ahmad,2015-03-15,L',
+        'Budi,bukan tanggal,L',
+        'Citra,2016-04-20,P'
+      ]));
+
+      expect(result.imported_count).toEqual(2);
+
+      const patients = await db.select().from(patientsTable).orderBy(patientsTable.name).execute();
+      expect(patients.map(patient => patient.name)).toEqual(['Ahmad', 'Citra']);
+      expect(patients[1].date_of_birth).toEqual('2016-04-20');
+      expect(patients[1].gender).toEqual('Perempuan');
+    });
+
+    it('should refuse a file without valid rows', async () => {
+      await expect(importPatients(csvInput(['Nama,Tanggal Lahir,Jenis Kelamin', 'Budi,,L'])))
+        .rejects.toThrow('Tidak ada baris valid untuk diimpor');
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  patientsTable,
+  guardiansTable,
+  patientGuardiansTable,
+  patientMergesTable,
+  transactionsTable,
+  patientVisitsTable,
+  followUpsTable,
+  appointmentsTable
+} from '../db/schema';
+import { findDuplicatePatients, mergePatients } from '../handlers/patient_merges';
+import { loadAuditSnapshot } from '../handlers/audit_log';
+import { eq } from 'drizzle-orm';
+
+describe('Duplicate patients', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should pair similar names that share a date of birth or phone', async () => {
+    await db.insert(patientsTable).values([
+      { name: 'Muhammad Rizki', date_of_birth: '2015-01-10', gender: 'Laki-laki', phone: '+62 812-1111-2222' },
+      { name: 'Muhamad Rizki', date_of_birth: '2015-01-10', gender: 'Laki-laki', phone: null },
+      { name: 'Muhammad Rizky', date_of_birth: '2016-07-07', gender: 'Laki-laki', phone: '081211112222' },
+      // Same name, but nothing else in common: a different child
+      { name: 'Muhammad Rizki', date_of_birth: '2012-03-03', gender: 'Laki-laki', phone: '085700000000' },
+      { name: 'Siti Aminah', date_of_birth: '2015-01-10', gender: 'Perempuan', phone: null }
+    ]).execute();
+
+    const pairs = await findDuplicatePatients({ min_similarity: 0.5, limit: 50 });
+
+    expect(pairs.map(pair => [pair.patient.name, pair.duplicate.name])).toEqual([
+      ['Muhammad Rizki', 'Muhamad Rizki'],
+      ['Muhammad Rizki', 'Muhammad Rizky']
+    ]);
+    expect(pairs[0]).toMatchObject({ same_date_of_birth: true, same_phone: false });
+    expect(pairs[1]).toMatchObject({ same_date_of_birth: false, same_phone: true });
+    expect(pairs[0].name_similarity).toBeGreaterThan(pairs[1].name_similarity);
+    expect(pairs[0].patient.date_of_birth).toBeInstanceOf(Date);
+
+    const strict = await findDuplicatePatients({ min_similarity: 0.9, limit: 50 });
+    expect(strict).toHaveLength(0);
+  });
+});
+
+describe('mergePatients', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let survivorId: number;
+  let duplicateId: number;
+  let sharedGuardianId: number;
+  let otherGuardianId: number;
+
+  beforeEach(async () => {
+    const patients = await db.insert(patientsTable).values([
+      { medical_record_number: 'RK-2025-00001', name: 'Muhammad Rizki', date_of_birth: '2015-01-10', gender: 'Laki-laki', phone: null },
+      { medical_record_number: 'RK-2025-00007', name: 'Muhamad Rizki', date_of_birth: '2015-01-10', gender: 'Laki-laki', phone: '081211112222', address: 'Jl. Melati 5' }
+    ]).returning().execute();
+    survivorId = patients[0].id;
+    duplicateId = patients[1].id;
+
+    const guardians = await db.insert(guardiansTable).values([
+      { name: 'Budi', relationship: 'Ayah' },
+      { name: 'Ani', relationship: 'Ibu' }
+    ]).returning().execute();
+    sharedGuardianId = guardians[0].id;
+    otherGuardianId = guardians[1].id;
+    await db.insert(patientGuardiansTable).values([
+      { patient_id: survivorId, guardian_id: sharedGuardianId, is_primary: true },
+      { patient_id: duplicateId, guardian_id: sharedGuardianId, is_primary: true },
+      { patient_id: duplicateId, guardian_id: otherGuardianId, is_primary: false }
+    ]).execute();
+
+    const transaction = await db.insert(transactionsTable)
+      .values({ patient_id: duplicateId, total_amount: '150000.00', payment_method: 'tunai' })
+      .returning()
+      .execute();
+    await db.insert(patientVisitsTable).values({ patient_id: duplicateId, transaction_id: transaction[0].id }).execute();
+    await db.insert(followUpsTable)
+      .values({ patient_id: duplicateId, transaction_id: transaction[0].id, service_id: 1, day_offset: 7, due_date: '2030-01-08' })
+      .execute();
+    await db.insert(appointmentsTable).values([
+      { patient_id: duplicateId, service_id: 1, start_time: new Date('2030-01-08T09:00:00'), end_time: new Date('2030-01-08T09:30:00') },
+      { patient_id: survivorId, service_id: 1, start_time: new Date('2030-01-09T09:00:00'), end_time: new Date('2030-01-09T09:30:00') }
+    ]).execute();
+  });
+
+  it('should move everything to the survivor and delete the duplicate', async () => {
+    const result = await mergePatients({ survivor_id: survivorId, duplicate_id: duplicateId }, 42);
+
+    expect(result.moved_records).toEqual({ transactions: 1, visits: 1, follow_ups: 1, appointments: 1, guardians: 1 });
+    // Blank details are filled from the duplicate; the survivor's own number stays
+    expect(result.patient).toMatchObject({
+      id: survivorId,
+      medical_record_number: 'RK-2025-00001',
+      name: 'Muhammad Rizki',
+      phone: '081211112222',
+      address: 'Jl. Melati 5'
+    });
+
+    expect(await db.select().from(patientsTable).where(eq(patientsTable.id, duplicateId)).execute()).toHaveLength(0);
+    for (const table of [transactionsTable, patientVisitsTable, followUpsTable, appointmentsTable]) {
+      const rows = await db.select({ patient_id: table.patient_id }).from(table).execute();
+      expect(rows.every(row => row.patient_id === survivorId)).toBe(true);
+    }
+
+    const links = await db.select().from(patientGuardiansTable).execute();
+    expect(links.map(link => [link.guardian_id, link.is_primary]).sort()).toEqual([
+      [sharedGuardianId, true],
+      [otherGuardianId, false]
+    ].sort());
+    expect(links.every(link => link.patient_id === survivorId)).toBe(true);
+
+    const merges = await db.select().from(patientMergesTable).execute();
+    expect(merges).toHaveLength(1);
+    expect(merges[0]).toMatchObject({ survivor_id: survivorId, merged_patient_id: duplicateId, merged_by: 42 });
+    expect(merges[0].merged_patient).toMatchObject({ name: 'Muhamad Rizki', medical_record_number: 'RK-2025-00007' });
+
+    const snapshot = await loadAuditSnapshot('patient', survivorId);
+    expect(snapshot?.['merged_patient_ids']).toEqual([duplicateId]);
+  });
+
+  it('should keep the medical notes of both records', async () => {
+    await db.update(patientsTable).set({ medical_notes: 'Alergi penisilin' }).where(eq(patientsTable.id, survivorId)).execute();
+    await db.update(patientsTable).set({ medical_notes: 'Riwayat hemofilia' }).where(eq(patientsTable.id, duplicateId)).execute();
+
+    const result = await mergePatients({ survivor_id: survivorId, duplicate_id: duplicateId });
+
+    expect(result.patient.medical_notes).toEqual('Alergi penisilin\n\nRiwayat hemofilia');
+  });
+
+  it('should reject merging a patient into itself, a missing one or an archived one, changing nothing', async () => {
+    await expect(mergePatients({ survivor_id: survivorId, duplicate_id: survivorId }))
+      .rejects.toThrow('Pasien tidak dapat digabung dengan dirinya sendiri');
+    await expect(mergePatients({ survivor_id: 9999, duplicate_id: duplicateId }))
+      .rejects.toThrow('Patient with ID 9999 not found');
+
+    await db.update(patientsTable).set({ archived_at: new Date() }).where(eq(patientsTable.id, survivorId)).execute();
+    await expect(mergePatients({ survivor_id: survivorId, duplicate_id: duplicateId }))
+      .rejects.toThrow('Pasien Muhammad Rizki sudah diarsipkan');
+
+    const transactions = await db.select().from(transactionsTable).execute();
+    expect(transactions[0].patient_id).toEqual(duplicateId);
+    expect(await db.select().from(patientMergesTable).execute()).toHaveLength(0);
+  });
+});
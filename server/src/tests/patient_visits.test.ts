@@ -1,13 +1,15 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { patientsTable, transactionsTable, patientVisitsTable } from '../db/schema';
-import { type CreatePatientVisitInput } from '../schema';
+import { patientsTable, transactionsTable, patientVisitsTable, servicesTable, followUpsTable } from '../db/schema';
+import { type CreatePatientVisitInput, type SaveProcedureRecordInput, saveProcedureRecordInputSchema } from '../schema';
 import { 
   createPatientVisit, 
   getPatientVisits, 
   getVisitById, 
-  updatePatientVisit 
+  updatePatientVisit,
+  getProcedureRecord,
+  saveProcedureRecord
 } from '../handlers/patient_visits';
 import { eq } from 'drizzle-orm';
 
@@ -39,6 +41,20 @@ const testVisitInput: CreatePatientVisitInput = {
   notes: 'Patient advised to drink more fluids'
 };
 
+const testProcedureInput: SaveProcedureRecordInput = {
+  visit_id: 0, // Will be set after visit creation
+  method: 'klamp',
+  anesthesia_type: 'lokal',
+  anesthesia_dose: 'Lidocaine 2% 4 ml',
+  operator_name: 'dr. Andi',
+  assistant_name: 'Rina',
+  start_time: new Date('2024-01-15T10:00:00Z'),
+  end_time: new Date('2024-01-15T10:20:00Z'),
+  blood_loss_ml: 5,
+  complications: null,
+  post_op_instructions: 'Klamp dilepas hari ke-5, jaga tetap kering'
+};
+
 describe('Patient Visits Handler', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -155,6 +171,83 @@ describe('Patient Visits Handler', () => {
       expect(visits[0].notes).toEqual('Patient advised to drink more fluids');
     });
 
+    it('should complete the follow-up it fulfils and record wound healing', async () => {
+      const patientResult = await db.insert(patientsTable)
+        .values(testPatient)
+        .returning()
+        .execute();
+      const patient = patientResult[0];
+      const serviceResult = await db.insert(servicesTable)
+        .values({ name: 'Khitan Klamp', description: null, price: '1500000.00', follow_up_days: [3] })
+        .returning()
+        .execute();
+      const transactionResult = await db.insert(transactionsTable)
+        .values({ ...testTransaction, patient_id: patient.id })
+        .returning()
+        .execute();
+      const followUpResult = await db.insert(followUpsTable)
+        .values({
+          patient_id: patient.id,
+          transaction_id: transactionResult[0].id,
+          service_id: serviceResult[0].id,
+          day_offset: 3,
+          due_date: '2024-01-18'
+        })
+        .returning()
+        .execute();
+
+      const result = await createPatientVisit({
+        ...testVisitInput,
+        patient_id: patient.id,
+        wound_healing_status: 'bengkak',
+        follow_up_id: followUpResult[0].id
+      });
+
+      expect(result.wound_healing_status).toEqual('bengkak');
+
+      const followUps = await db.select().from(followUpsTable).execute();
+      expect(followUps[0].status).toEqual('completed');
+      expect(followUps[0].visit_id).toEqual(result.id);
+
+      await expect(createPatientVisit({ ...testVisitInput, patient_id: patient.id, follow_up_id: followUpResult[0].id }))
+        .rejects.toThrow(/sudah dilakukan atau dibatalkan/i);
+    });
+
+    it('should reject follow-ups of another patient', async () => {
+      const patientResult = await db.insert(patientsTable)
+        .values(testPatient)
+        .returning()
+        .execute();
+      const otherResult = await db.insert(patientsTable)
+        .values({ ...testPatient, name: 'Jane Doe' })
+        .returning()
+        .execute();
+      const serviceResult = await db.insert(servicesTable)
+        .values({ name: 'Khitan Klamp', description: null, price: '1500000.00' })
+        .returning()
+        .execute();
+      const transactionResult = await db.insert(transactionsTable)
+        .values({ ...testTransaction, patient_id: otherResult[0].id })
+        .returning()
+        .execute();
+      const followUpResult = await db.insert(followUpsTable)
+        .values({
+          patient_id: otherResult[0].id,
+          transaction_id: transactionResult[0].id,
+          service_id: serviceResult[0].id,
+          day_offset: 3,
+          due_date: '2024-01-18'
+        })
+        .returning()
+        .execute();
+
+      await expect(createPatientVisit({ ...testVisitInput, patient_id: patientResult[0].id, follow_up_id: followUpResult[0].id }))
+        .rejects.toThrow(/bukan milik pasien ini/i);
+
+      const visits = await db.select().from(patientVisitsTable).execute();
+      expect(visits).toHaveLength(0);
+    });
+
     it('should throw error when patient does not exist', async () => {
       const input = {
         ...testVisitInput,
@@ -409,4 +502,71 @@ describe('Patient Visits Handler', () => {
         .rejects.toThrow(/Patient visit with ID 999 not found/i);
     });
   });
-});
\ No newline at end of file
+
+  describe('saveProcedureRecord', () => {
+    it('should create and then replace the procedure record of a visit', async () => {
+      const patientResult = await db.insert(patientsTable)
+        .values(testPatient)
+        .returning()
+        .execute();
+      const visit = await createPatientVisit({ ...testVisitInput, patient_id: patientResult[0].id });
+
+      const created = await saveProcedureRecord({ ...testProcedureInput, visit_id: visit.id });
+
+      expect(created.id).toBeDefined();
+      expect(created.method).toEqual('klamp');
+      expect(created.blood_loss_ml).toEqual(5);
+
+      const updated = await saveProcedureRecord({
+        ...testProcedureInput,
+        visit_id: visit.id,
+        method: 'laser_electrocautery',
+        complications: 'Perdarahan ringan, ditangani dengan tekanan'
+      });
+
+      expect(updated.id).toEqual(created.id);
+      expect(updated.method).toEqual('laser_electrocautery');
+
+      const record = await getProcedureRecord(visit.id);
+      expect(record!.complications).toEqual('Perdarahan ringan, ditangani dengan tekanan');
+    });
+
+    it('should be returned with the patient visits', async () => {
+      const patientResult = await db.insert(patientsTable)
+        .values(testPatient)
+        .returning()
+        .execute();
+      const patient = patientResult[0];
+      const visit = await createPatientVisit({ ...testVisitInput, patient_id: patient.id });
+      await createPatientVisit({ ...testVisitInput, patient_id: patient.id, visit_date: new Date('2024-01-20T10:00:00Z') });
+      await saveProcedureRecord({ ...testProcedureInput, visit_id: visit.id });
+
+      const result = await getPatientVisits(patient.id);
+
+      expect(result[0].procedure).toBeNull();
+      expect(result[1].procedure!.operator_name).toEqual('dr. Andi');
+    });
+
+    it('should throw error when visit does not exist', async () => {
+      expect(saveProcedureRecord({ ...testProcedureInput, visit_id: 999 }))
+        .rejects.toThrow(/Patient visit with ID 999 not found/i);
+    });
+
+    it('should reject an end time before the start time', () => {
+      const result = saveProcedureRecordInputSchema.safeParse({
+        ...testProcedureInput,
+        visit_id: 1,
+        end_time: new Date('2024-01-15T09:50:00Z')
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error!.issues[0].message).toEqual('Waktu selesai harus setelah waktu mulai');
+    });
+
+    it('should reject unknown methods', () => {
+      const result = saveProcedureRecordInputSchema.safeParse({ ...testProcedureInput, visit_id: 1, method: 'gunting' });
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
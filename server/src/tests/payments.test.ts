@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { patientsTable, servicesTable, transactionsTable } from '../db/schema';
+import { addPayment, getPayments } from '../handlers/payments';
+import { createTransaction } from '../handlers/create_transaction';
+import { openShift } from '../handlers/cashier_shifts';
+import { updateTransactionStatus } from '../handlers/update_transaction';
+import { getPendingTransactions } from '../handlers/get_transactions';
+import { generateReceiptData } from '../handlers/reports';
+import { deleteTransaction } from '../handlers/delete_records';
+
+describe('Payments', () => {
+  beforeEach(createDB);
+  beforeEach(() => openShift({ opening_float: 0 }, 1)); // Sales need an open cashier shift
+  afterEach(resetDB);
+
+  let patientId: number;
+  let serviceId: number;
+
+  beforeEach(async () => {
+    const patient = await db.insert(patientsTable)
+      .values({ name: 'Ahmad', date_of_birth: '2015-03-15', gender: 'Laki-laki' })
+      .returning()
+      .execute();
+    const service = await db.insert(servicesTable)
+      .values({ name: 'Khitan Laser', price: '1000000.00' })
+      .returning()
+      .execute();
+    patientId = patient[0].id;
+    serviceId = service[0].id;
+  });
+
+  const checkout = (payments?: { amount: number; payment_method: 'tunai' | 'transfer' | 'kartu' }[]) =>
+    createTransaction({
+      patient_id: patientId,
+      services: [{ service_id: serviceId, quantity: 1 }],
+      payment_method: 'tunai',
+      payment_status: 'pending',
+      payments,
+      notes: null
+    });
+
+  it('should mark a transaction partially paid after a down payment', async () => {
+    const transaction = await checkout([{ amount: 300000, payment_method: 'tunai' }]);
+
+    expect(transaction.payment_status).toEqual('partially_paid');
+    expect(transaction.paid_amount).toEqual(300000);
+
+    const payments = await getPayments(transaction.id);
+    expect(payments).toHaveLength(1);
+    expect(payments[0].amount).toEqual(300000);
+    expect(payments[0].payment_method).toEqual('tunai');
+  });
+
+  it('should settle a transaction paid with mixed methods', async () => {
+    const transaction = await checkout([{ amount: 300000, payment_method: 'tunai' }]);
+
+    const partial = await addPayment({ transaction_id: transaction.id, amount: 500000, payment_method: 'transfer' });
+    expect(partial.payment_status).toEqual('partially_paid');
+    expect(partial.paid_amount).toEqual(800000);
+
+    const settled = await addPayment({ transaction_id: transaction.id, amount: 200000, payment_method: 'kartu', notes: 'EDC BCA' });
+    expect(settled.payment_status).toEqual('paid');
+    expect(settled.paid_amount).toEqual(1000000);
+
+    const payments = await getPayments(transaction.id);
+    expect(payments.map(payment => payment.payment_method)).toEqual(['tunai', 'transfer', 'kartu']);
+    expect(payments[2].notes).toEqual('EDC BCA');
+  });
+
+  it('should reject payments above the remaining balance', async () => {
+    const transaction = await checkout([{ amount: 900000, payment_method: 'tunai' }]);
+
+    await expect(addPayment({ transaction_id: transaction.id, amount: 100001, payment_method: 'tunai' }))
+      .rejects.toThrow(/melebihi sisa tagihan/);
+    await expect(checkout([{ amount: 1200000, payment_method: 'tunai' }]))
+      .rejects.toThrow(/melebihi sisa tagihan/);
+  });
+
+  it('should reject payments for settled or cancelled transactions', async () => {
+    const paid = await checkout([{ amount: 1000000, payment_method: 'tunai' }]);
+    await expect(addPayment({ transaction_id: paid.id, amount: 1000, payment_method: 'tunai' }))
+      .rejects.toThrow('Transaksi sudah lunas');
+
+    const cancelled = await checkout();
+    await updateTransactionStatus(cancelled.id, 'cancelled');
+    await expect(addPayment({ transaction_id: cancelled.id, amount: 1000, payment_method: 'tunai' }))
+      .rejects.toThrow('Transaksi sudah dibatalkan');
+
+    await expect(addPayment({ transaction_id: 99999, amount: 1000, payment_method: 'tunai' }))
+      .rejects.toThrow('Transaction with ID 99999 not found');
+  });
+
+  it('should record the full amount when a transaction is created or marked as paid', async () => {
+    const created = await createTransaction({
+      patient_id: patientId,
+      services: [{ service_id: serviceId, quantity: 1 }],
+      payment_method: 'transfer',
+      payment_status: 'paid',
+      notes: null
+    });
+    expect(created.paid_amount).toEqual(1000000);
+    expect((await getPayments(created.id))[0].payment_method).toEqual('transfer');
+
+    const transaction = await checkout([{ amount: 400000, payment_method: 'transfer' }]);
+    const settled = await updateTransactionStatus(transaction.id, 'paid');
+
+    expect(settled.payment_status).toEqual('paid');
+    expect(settled.paid_amount).toEqual(1000000);
+    const payments = await getPayments(transaction.id);
+    expect(payments.map(payment => payment.amount)).toEqual([400000, 600000]);
+    expect(payments[1].payment_method).toEqual('tunai');
+  });
+
+  it('should stay partially paid rather than pending once money was received', async () => {
+    const transaction = await checkout([{ amount: 400000, payment_method: 'tunai' }]);
+
+    const result = await updateTransactionStatus(transaction.id, 'pending');
+
+    expect(result.payment_status).toEqual('partially_paid');
+    expect(result.paid_amount).toEqual(400000);
+  });
+
+  it('should list partially paid transactions as pending', async () => {
+    await checkout([{ amount: 400000, payment_method: 'tunai' }]);
+    await checkout();
+    await checkout([{ amount: 1000000, payment_method: 'tunai' }]);
+
+    const pending = await getPendingTransactions();
+    expect(pending.map(transaction => transaction.payment_status).sort()).toEqual(['partially_paid', 'pending']);
+  });
+
+  it('should not delete a transaction that received a payment', async () => {
+    const transaction = await checkout([{ amount: 400000, payment_method: 'tunai' }]);
+
+    expect(await deleteTransaction(transaction.id)).toEqual({ deleted: false, reason: 'HAS_PAYMENTS' });
+  });
+
+  it('should show payments and the remaining balance on the receipt', async () => {
+    const transaction = await checkout([{ amount: 300000, payment_method: 'tunai' }]);
+    await addPayment({ transaction_id: transaction.id, amount: 200000, payment_method: 'transfer' });
+
+    const receipt = await generateReceiptData(transaction.id);
+
+    expect(receipt.transaction.payment_status).toEqual('partially_paid');
+    expect(receipt.transaction.paid_amount).toEqual(500000);
+    expect(receipt.transaction.remaining_amount).toEqual(500000);
+    expect(receipt.payments.map(payment => payment.payment_method)).toEqual(['tunai', 'transfer']);
+  });
+
+  it('should owe nothing on transactions marked paid before payments were recorded', async () => {
+    const legacy = await db.insert(transactionsTable)
+      .values({ patient_id: patientId, total_amount: '250000', payment_method: 'tunai', payment_status: 'paid' })
+      .returning()
+      .execute();
+
+    const receipt = await generateReceiptData(legacy[0].id);
+    expect(receipt.transaction.remaining_amount).toEqual(0);
+    expect(receipt.payments).toHaveLength(0);
+  });
+});
@@ -0,0 +1,288 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { medicinesTable, patientsTable, servicesTable, transactionServicesTable, transactionMedicinesTable } from '../db/schema';
+import {
+  computeLineDiscounts,
+  createPromotion,
+  getPromotions,
+  previewPromotion,
+  updatePromotion
+} from '../handlers/promotions';
+import { createTransaction } from '../handlers/create_transaction';
+import { openShift } from '../handlers/cashier_shifts';
+import { createRefund, getRefundableItems } from '../handlers/refunds';
+import { updateTransactionStatus } from '../handlers/update_transaction';
+import { deleteTransaction } from '../handlers/delete_records';
+import { generateReceiptData, getSalesReportData } from '../handlers/reports';
+import { receiptLines } from '../documents/receipt';
+import { type CreatePromotionInput } from '../schema';
+import { eq } from 'drizzle-orm';
+
+const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+const nextMonth = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+
+describe('Promotions', () => {
+  beforeEach(createDB);
+  beforeEach(() => openShift({ opening_float: 0 }, 1)); // Sales need an open cashier shift
+  afterEach(resetDB);
+
+  let patientId: number;
+  let laserId: number;
+  let klampId: number;
+  let medicineId: number;
+
+  beforeEach(async () => {
+    const patient = await db.insert(patientsTable)
+      .values({ name: 'Ahmad', date_of_birth: '2015-03-15', gender: 'Laki-laki' })
+      .returning()
+      .execute();
+    const services = await db.insert(servicesTable)
+      .values([
+        { name: 'Khitan Laser', price: '1000000.00' },
+        { name: 'Khitan Klamp', price: '1500000.00' }
+      ])
+      .returning()
+      .execute();
+    const medicine = await db.insert(medicinesTable)
+      .values({ name: 'Paracetamol', unit: 'tablet', price_per_unit: '5000.00', stock_quantity: 100, minimum_stock: 5 })
+      .returning()
+      .execute();
+    patientId = patient[0].id;
+    laserId = services[0].id;
+    klampId = services[1].id;
+    medicineId = medicine[0].id;
+  });
+
+  const promotion = (overrides: Partial<CreatePromotionInput> = {}) =>
+    createPromotion({
+      code: 'libursekolah',
+      name: 'Libur Sekolah',
+      discount_type: 'percentage',
+      discount_value: 10,
+      scope: 'bill',
+      service_id: null,
+      valid_from: yesterday,
+      valid_until: nextMonth,
+      usage_limit: null,
+      is_active: true,
+      ...overrides
+    });
+
+  const checkout = (promoCode?: string) =>
+    createTransaction({
+      patient_id: patientId,
+      services: [{ service_id: laserId, quantity: 1 }, { service_id: klampId, quantity: 1 }],
+      medicines: [{ medicine_id: medicineId, quantity: 10 }],
+      payment_method: 'tunai',
+      payment_status: 'paid',
+      promo_code: promoCode,
+      notes: null
+    });
+
+  it('should store codes in upper case and reject duplicates', async () => {
+    const created = await promotion();
+
+    expect(created.code).toEqual('LIBURSEKOLAH');
+    expect(created.discount_value).toEqual(10);
+    expect(created.usage_count).toEqual(0);
+    expect(created.valid_from).toBeInstanceOf(Date);
+    await expect(promotion({ code: 'LiburSekolah' })).rejects.toThrow(/sudah digunakan/);
+    await expect(promotion({ code: 'LASER', scope: 'service', service_id: 99999 }))
+      .rejects.toThrow('Service with ID 99999 not found');
+  });
+
+  it('should discount every line of the bill by a percentage', async () => {
+    const created = await promotion();
+    const transaction = await checkout('libursekolah');
+
+    expect(transaction.discount_amount).toEqual(255000);
+    expect(transaction.total_amount).toEqual(2295000);
+    expect(transaction.paid_amount).toEqual(2295000);
+    expect(transaction.promotion_id).toEqual(created.id);
+
+    const services = await db.select().from(transactionServicesTable).orderBy(transactionServicesTable.id).execute();
+    expect(services.map(line => [parseFloat(line.discount_amount), parseFloat(line.total_price)]))
+      .toEqual([[100000, 900000], [150000, 1350000]]);
+    const medicines = await db.select().from(transactionMedicinesTable).execute();
+    expect(parseFloat(medicines[0].discount_amount)).toEqual(5000);
+
+    expect((await getPromotions()).items[0].usage_count).toEqual(1);
+  });
+
+  it('should discount a fixed amount per unit of one service only', async () => {
+    await promotion({ code: 'LASER100', discount_type: 'fixed', discount_value: 100000, scope: 'service', service_id: laserId });
+    const transaction = await createTransaction({
+      patient_id: patientId,
+      services: [{ service_id: laserId, quantity: 2 }, { service_id: klampId, quantity: 1 }],
+      payment_method: 'tunai',
+      payment_status: 'pending',
+      promo_code: 'LASER100',
+      notes: null
+    });
+
+    expect(transaction.discount_amount).toEqual(200000);
+    expect(transaction.total_amount).toEqual(3300000);
+
+    await expect(createTransaction({
+      patient_id: patientId,
+      services: [{ service_id: klampId, quantity: 1 }],
+      payment_method: 'tunai',
+      payment_status: 'pending',
+      promo_code: 'LASER100',
+      notes: null
+    })).rejects.toThrow(/tidak berlaku untuk layanan yang dipilih/);
+  });
+
+  it('should spread a fixed bill discount over the lines', () => {
+    const discounts = computeLineDiscounts(
+      { discount_type: 'fixed', discount_value: '100000', scope: 'bill', service_id: null },
+      [
+        { service_id: 1, quantity: 1, gross: 1000000 },
+        { service_id: 2, quantity: 1, gross: 1500000 },
+        { service_id: null, quantity: 3, gross: 1000 }
+      ]
+    );
+    expect(discounts).toEqual([39984.01, 59976.01, 39.98]);
+    expect(discounts.reduce((total, discount) => total + discount, 0)).toBeCloseTo(100000, 2);
+
+    // Never more than the bill itself
+    expect(computeLineDiscounts(
+      { discount_type: 'fixed', discount_value: '50000', scope: 'bill', service_id: null },
+      [{ service_id: null, quantity: 2, gross: 10000 }]
+    )).toEqual([10000]);
+  });
+
+  it('should reject codes that are unknown, expired, inactive or used up', async () => {
+    await expect(checkout('TIDAKADA')).rejects.toThrow(/tidak ditemukan/);
+
+    await promotion({ code: 'LAMA', valid_from: new Date('2020-01-01'), valid_until: new Date('2020-01-31') });
+    await expect(checkout('LAMA')).rejects.toThrow(/sudah tidak berlaku/);
+
+    const inactive = await promotion({ code: 'NONAKTIF' });
+    await updatePromotion({ id: inactive.id, is_active: false });
+    await expect(checkout('NONAKTIF')).rejects.toThrow(/sudah tidak berlaku/);
+
+    await promotion({ code: 'SEKALI', usage_limit: 1 });
+    await checkout('SEKALI');
+    await expect(checkout('SEKALI')).rejects.toThrow(/Kuota kode promo SEKALI sudah habis/);
+  });
+
+  it('should give the use back when the sale is cancelled, deleted or refunded in full', async () => {
+    await promotion({ code: 'SEKALI', usage_limit: 1 });
+    const usageCount = async () => (await getPromotions()).items[0].usage_count;
+    const pendingCheckout = () => createTransaction({
+      patient_id: patientId,
+      services: [{ service_id: laserId, quantity: 1 }],
+      payment_method: 'tunai',
+      payment_status: 'pending',
+      promo_code: 'SEKALI',
+      notes: null
+    });
+
+    const cancelled = await pendingCheckout();
+    await updateTransactionStatus(cancelled.id, 'cancelled');
+    expect(await usageCount()).toEqual(0);
+
+    // Reactivating takes the use again, and only while the quota allows it
+    await updateTransactionStatus(cancelled.id, 'pending');
+    expect(await usageCount()).toEqual(1);
+    await updateTransactionStatus(cancelled.id, 'cancelled');
+    const other = await pendingCheckout();
+    await expect(updateTransactionStatus(cancelled.id, 'pending')).rejects.toThrow(/Kuota kode promo SEKALI sudah habis/);
+
+    expect((await deleteTransaction(other.id)).deleted).toBe(true);
+    expect(await usageCount()).toEqual(0);
+    expect((await deleteTransaction(cancelled.id)).deleted).toBe(true);
+    expect(await usageCount()).toEqual(0);
+
+    const paid = await checkout('SEKALI');
+    const medicineLine = (await getRefundableItems(paid.id)).find(item => item.item_type === 'medicine')!;
+    await createRefund({
+      transaction_id: paid.id,
+      refund_method: 'tunai',
+      reason: 'Obat tidak dipakai',
+      items: [{ item_type: 'medicine', transaction_item_id: medicineLine.transaction_item_id, quantity: 10 }]
+    });
+    expect(await usageCount()).toEqual(1);
+
+    await createRefund({ transaction_id: paid.id, refund_method: 'tunai', reason: 'Tindakan dibatalkan' });
+    expect(await usageCount()).toEqual(0);
+  });
+
+  it('should validate updates against the promotion type', async () => {
+    const created = await promotion();
+
+    await expect(updatePromotion({ id: created.id, discount_value: 150 })).rejects.toThrow('Diskon persentase maksimal 100%');
+    await expect(updatePromotion({ id: created.id, valid_until: new Date('2020-01-01') }))
+      .rejects.toThrow(/tidak boleh sebelum/);
+    await expect(updatePromotion({ id: 99999, name: 'x' })).rejects.toThrow('Promotion with ID 99999 not found');
+
+    const updated = await updatePromotion({ id: created.id, discount_value: 15, usage_limit: 50 });
+    expect(updated.discount_value).toEqual(15);
+    expect(updated.usage_limit).toEqual(50);
+  });
+
+  it('should preview the discount without redeeming the code', async () => {
+    await promotion({ usage_limit: 1 });
+
+    const preview = await previewPromotion({
+      promo_code: 'libursekolah',
+      services: [{ service_id: laserId, quantity: 1 }],
+      medicines: [{ medicine_id: medicineId, quantity: 2 }]
+    });
+
+    expect(preview.subtotal).toEqual(1010000);
+    expect(preview.discount_amount).toEqual(101000);
+    expect(preview.total_amount).toEqual(909000);
+    expect((await getPromotions()).items[0].usage_count).toEqual(0);
+  });
+
+  it('should show discounts on the receipt and refund at the discounted price', async () => {
+    await promotion();
+    const transaction = await checkout('LIBURSEKOLAH');
+
+    const receipt = await generateReceiptData(transaction.id);
+    expect(receipt.transaction.discount_amount).toEqual(255000);
+    expect(receipt.transaction.promo_code).toEqual('LIBURSEKOLAH');
+    expect(receipt.items[0].discount_amount).toEqual(100000);
+    expect(receipt.items[0].total_price).toEqual(900000);
+
+    const text = receiptLines(receipt, '80').map(line => line.text);
+    expect(text.some(line => line.startsWith('Diskon (LIBURSEKOLAH)'))).toBe(true);
+    expect(text.some(line => line.startsWith('Subtotal'))).toBe(true);
+
+    const medicineLine = (await getRefundableItems(transaction.id)).find(item => item.item_type === 'medicine')!;
+    const refund = await createRefund({
+      transaction_id: transaction.id,
+      refund_method: 'tunai',
+      reason: 'Obat tidak dipakai',
+      items: [{ item_type: 'medicine', transaction_item_id: medicineLine.transaction_item_id, quantity: 5 }]
+    });
+    expect(refund.amount).toEqual(22500);
+  });
+
+  it('should report discounts per promotion in the sales report', async () => {
+    await promotion();
+    await checkout('LIBURSEKOLAH');
+    await checkout('LIBURSEKOLAH');
+    await checkout();
+
+    const report = await getSalesReportData({
+      type: 'sales',
+      start_date: new Date('2020-01-01'),
+      end_date: new Date('2030-12-31'),
+      format: 'pdf'
+    });
+
+    expect(report.summary.total_discount).toEqual(510000);
+    expect(report.discounts).toEqual([
+      { code: 'LIBURSEKOLAH', name: 'Libur Sekolah', transaction_count: 2, total_discount: 510000 }
+    ]);
+    const laser = report.service_revenue.find(item => item.service_name === 'Khitan Laser')!;
+    expect(laser.total_revenue).toEqual(2800000);
+
+    const medicine = await db.select().from(medicinesTable).where(eq(medicinesTable.id, medicineId)).execute();
+    expect(medicine[0].stock_quantity).toEqual(70);
+  });
+});
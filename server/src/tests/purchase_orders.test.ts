@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { medicineBatchesTable, medicinesTable, patientsTable, servicesTable, stockMovementsTable } from '../db/schema';
+import { createSupplier, getSuppliers, updateSupplier } from '../handlers/suppliers';
+import {
+  cancelPurchaseOrder,
+  createPurchaseOrder,
+  getGoodsReceipts,
+  getPurchaseOrderById,
+  getPurchaseOrders,
+  receiveGoods
+} from '../handlers/purchase_orders';
+import { openShift } from '../handlers/cashier_shifts';
+import { createTransaction } from '../handlers/create_transaction';
+import { updateTransactionStatus } from '../handlers/update_transaction';
+import { eq } from 'drizzle-orm';
+
+describe('Purchase orders', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let supplierId: number;
+  let paracetamolId: number;
+  let amoxicillinId: number;
+
+  beforeEach(async () => {
+    const supplier = await createSupplier({
+      name: 'PT Kimia Farma',
+      contact_person: 'Budi',
+      phone: '021-555123',
+      address: null,
+      notes: null,
+      is_active: true
+    });
+    const medicines = await db.insert(medicinesTable)
+      .values([
+        { name: 'Paracetamol', unit: 'tablet', price_per_unit: '5000.00', stock_quantity: 0, minimum_stock: 10 },
+        { name: 'Amoxicillin', unit: 'kapsul', price_per_unit: '8000.00', stock_quantity: 0, minimum_stock: 10 }
+      ])
+      .returning()
+      .execute();
+    supplierId = supplier.id;
+    paracetamolId = medicines[0].id;
+    amoxicillinId = medicines[1].id;
+  });
+
+  const order = () => createPurchaseOrder({
+    supplier_id: supplierId,
+    order_date: new Date('2026-10-01'),
+    expected_date: new Date('2026-10-05'),
+    notes: null,
+    items: [
+      { medicine_id: paracetamolId, quantity: 100, expected_price: 1500 },
+      { medicine_id: amoxicillinId, quantity: 50, expected_price: 3000 }
+    ]
+  });
+
+  it('should manage suppliers', async () => {
+    const other = await createSupplier({ name: 'CV Apotek Sehat', contact_person: null, phone: null, address: null, notes: null, is_active: true });
+    await updateSupplier({ id: other.id, is_active: false });
+
+    expect((await getSuppliers()).items.map(supplier => supplier.name)).toEqual(['CV Apotek Sehat', 'PT Kimia Farma']);
+    expect((await getSuppliers({ limit: 50, offset: 0, active_only: true })).items.map(supplier => supplier.name)).toEqual(['PT Kimia Farma']);
+    await expect(updateSupplier({ id: 99999, name: 'X' })).rejects.toThrow('Supplier with ID 99999 not found');
+    await expect(createPurchaseOrder({
+      supplier_id: other.id,
+      order_date: new Date('2026-10-01'),
+      expected_date: null,
+      notes: null,
+      items: [{ medicine_id: paracetamolId, quantity: 1, expected_price: 1500 }]
+    })).rejects.toThrow(/tidak aktif/);
+  });
+
+  it('should create an order with its lines and expected total', async () => {
+    const purchaseOrder = await order();
+
+    expect(purchaseOrder.status).toEqual('ordered');
+    expect(purchaseOrder.supplier_name).toEqual('PT Kimia Farma');
+    expect(purchaseOrder.expected_total).toEqual(300000);
+    expect(purchaseOrder.received_cost).toEqual(0);
+    expect(purchaseOrder.items.map(item => [item.medicine_name, item.quantity_ordered, item.quantity_received])).toEqual([
+      ['Paracetamol', 100, 0],
+      ['Amoxicillin', 50, 0]
+    ]);
+
+    await expect(createPurchaseOrder({
+      supplier_id: supplierId,
+      order_date: new Date('2026-10-01'),
+      expected_date: null,
+      notes: null,
+      items: [{ medicine_id: 99999, quantity: 1, expected_price: 1 }]
+    })).rejects.toThrow('Medicine with ID 99999 not found');
+  });
+
+  it('should put received goods into stock at the price paid and track partial deliveries', async () => {
+    const purchaseOrder = await order();
+    const [paracetamolLine, amoxicillinLine] = purchaseOrder.items;
+
+    const receipt = await receiveGoods({
+      purchase_order_id: purchaseOrder.id,
+      invoice_number: 'INV-001',
+      items: [
+        { purchase_order_item_id: paracetamolLine.id, quantity: 60, unit_cost: 1400, lot_number: 'P-01', expiry_date: new Date('2027-06-30') },
+        { purchase_order_item_id: amoxicillinLine.id, quantity: 50 }
+      ]
+    });
+
+    expect(receipt.total_cost).toEqual(60 * 1400 + 50 * 3000);
+    expect(receipt.items.map(item => [item.medicine_name, item.quantity, item.unit_cost])).toEqual([
+      ['Paracetamol', 60, 1400],
+      ['Amoxicillin', 50, 3000]
+    ]);
+
+    const movements = await db.select().from(stockMovementsTable).where(eq(stockMovementsTable.medicine_id, paracetamolId)).execute();
+    expect(movements).toHaveLength(1);
+    expect(movements[0].movement_type).toEqual('masuk');
+    expect(movements[0].reference_id).toEqual(receipt.id);
+    expect(movements[0].reference_type).toEqual('goods_receipt');
+
+    const batches = await db.select().from(medicineBatchesTable).where(eq(medicineBatchesTable.medicine_id, paracetamolId)).execute();
+    expect(batches).toHaveLength(1);
+    expect(batches[0].lot_number).toEqual('P-01');
+    expect(batches[0].expiry_date).toEqual('2027-06-30');
+    expect(parseFloat(batches[0].purchase_price!)).toEqual(1400);
+
+    const medicine = await db.select().from(medicinesTable).where(eq(medicinesTable.id, paracetamolId)).execute();
+    expect(medicine[0].stock_quantity).toEqual(60);
+
+    let updated = await getPurchaseOrderById(purchaseOrder.id);
+    expect(updated.status).toEqual('partially_received');
+    expect(updated.received_cost).toEqual(234000);
+    expect(updated.items.map(item => item.quantity_received)).toEqual([60, 50]);
+
+    await expect(receiveGoods({
+      purchase_order_id: purchaseOrder.id,
+      items: [{ purchase_order_item_id: paracetamolLine.id, quantity: 41 }]
+    })).rejects.toThrow('Jumlah diterima melebihi sisa pesanan (sisa 40)');
+    await expect(cancelPurchaseOrder(purchaseOrder.id)).rejects.toThrow(/sudah menerima barang/);
+
+    await receiveGoods({
+      purchase_order_id: purchaseOrder.id,
+      items: [{ purchase_order_item_id: paracetamolLine.id, quantity: 40 }]
+    });
+
+    updated = await getPurchaseOrderById(purchaseOrder.id);
+    expect(updated.status).toEqual('received');
+    expect(await getGoodsReceipts(purchaseOrder.id)).toHaveLength(2);
+    expect((await getPurchaseOrders({ status: 'received', limit: 50, offset: 0, sort_by: 'order_date', sort_direction: 'desc' })).items.map(item => item.id)).toEqual([purchaseOrder.id]);
+    await expect(receiveGoods({
+      purchase_order_id: purchaseOrder.id,
+      items: [{ purchase_order_item_id: paracetamolLine.id, quantity: 1 }]
+    })).rejects.toThrow(/sudah diterima seluruhnya/);
+  });
+
+  it('should reject lines from another order and receipts on cancelled orders', async () => {
+    const first = await order();
+    const second = await order();
+
+    await expect(receiveGoods({
+      purchase_order_id: first.id,
+      items: [{ purchase_order_item_id: second.items[0].id, quantity: 1 }]
+    })).rejects.toThrow(`Purchase order item with ID ${second.items[0].id} not found on order #${first.id}`);
+
+    const cancelled = await cancelPurchaseOrder(second.id);
+    expect(cancelled.status).toEqual('cancelled');
+    await expect(receiveGoods({
+      purchase_order_id: second.id,
+      items: [{ purchase_order_item_id: second.items[0].id, quantity: 1 }]
+    })).rejects.toThrow(/sudah dibatalkan/);
+  });
+
+  it('should not confuse a goods receipt with a transaction of the same id', async () => {
+    const purchaseOrder = await order();
+    const receipt = await receiveGoods({
+      purchase_order_id: purchaseOrder.id,
+      items: [{ purchase_order_item_id: purchaseOrder.items[0].id, quantity: 100 }]
+    });
+
+    await openShift({ opening_float: 0 }, 1);
+    const patient = await db.insert(patientsTable)
+      .values({ name: 'Ahmad', date_of_birth: '2015-03-15', gender: 'Laki-laki' })
+      .returning()
+      .execute();
+    const service = await db.insert(servicesTable)
+      .values({ name: 'Khitan Laser', price: '150000.00' })
+      .returning()
+      .execute();
+    const transaction = await createTransaction({
+      patient_id: patient[0].id,
+      services: [{ service_id: service[0].id, quantity: 1 }],
+      medicines: [{ medicine_id: paracetamolId, quantity: 10 }],
+      payment_method: 'tunai',
+      payment_status: 'pending',
+      notes: null
+    });
+    expect(transaction.id).toEqual(receipt.id);
+
+    // Cancelling returns the 10 dispensed tablets, not the 100 received
+    await updateTransactionStatus(transaction.id, 'cancelled');
+
+    const medicine = await db.select().from(medicinesTable).where(eq(medicinesTable.id, paracetamolId)).execute();
+    expect(medicine[0].stock_quantity).toEqual(100);
+  });
+});
@@ -0,0 +1,273 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { followUpsTable, medicinesTable, patientsTable, servicesTable, stockMovementsTable, transactionMedicinesTable } from '../db/schema';
+import { createRefund, getRefunds, getRefundableItems } from '../handlers/refunds';
+import { createTransaction } from '../handlers/create_transaction';
+import { openShift } from '../handlers/cashier_shifts';
+import { updateTransactionStatus } from '../handlers/update_transaction';
+import { getTransactionById } from '../handlers/get_transactions';
+import { getMedicineBatches } from '../handlers/medicine_batches';
+import { createStockMovement } from '../handlers/stock_management';
+import { getDailyRevenue, getGrossMargin } from '../handlers/dashboard';
+import { getSalesReportData } from '../handlers/reports';
+import { eq } from 'drizzle-orm';
+
+describe('Refunds', () => {
+  beforeEach(createDB);
+  beforeEach(() => openShift({ opening_float: 0 }, 1)); // Sales need an open cashier shift
+  afterEach(resetDB);
+
+  let patientId: number;
+  let serviceId: number;
+  let medicineId: number;
+
+  beforeEach(async () => {
+    const patient = await db.insert(patientsTable)
+      .values({ name: 'Ahmad', date_of_birth: '2015-03-15', gender: 'Laki-laki' })
+      .returning()
+      .execute();
+    const service = await db.insert(servicesTable)
+      .values({ name: 'Khitan Klamp', price: '1000000.00', follow_up_days: [3] })
+      .returning()
+      .execute();
+    const medicine = await db.insert(medicinesTable)
+      .values({ name: 'Amoxicillin', unit: 'tablet', price_per_unit: '2000.00', stock_quantity: 0, minimum_stock: 5 })
+      .returning()
+      .execute();
+    patientId = patient[0].id;
+    serviceId = service[0].id;
+    medicineId = medicine[0].id;
+
+    await createStockMovement({
+      medicine_id: medicineId,
+      movement_type: 'masuk',
+      quantity: 20,
+      reference_id: null,
+      notes: null,
+      lot_number: 'LOT-A',
+      expiry_date: new Date('2030-01-31'),
+      purchase_price: 1200
+    });
+  });
+
+  const paidTransaction = () =>
+    createTransaction({
+      patient_id: patientId,
+      services: [{ service_id: serviceId, quantity: 1 }],
+      medicines: [{ medicine_id: medicineId, quantity: 10 }],
+      payment_method: 'tunai',
+      payment_status: 'paid',
+      notes: null
+    });
+
+  const medicineStock = async () =>
+    (await db.select().from(medicinesTable).where(eq(medicinesTable.id, medicineId)).execute())[0].stock_quantity;
+
+  it('should refund a medicine line and return only those units to stock', async () => {
+    const transaction = await paidTransaction();
+    const items = await getRefundableItems(transaction.id);
+    const medicineLine = items.find(item => item.item_type === 'medicine')!;
+
+    const refund = await createRefund({
+      transaction_id: transaction.id,
+      refund_method: 'tunai',
+      reason: 'Obat tidak jadi dipakai',
+      items: [{ item_type: 'medicine', transaction_item_id: medicineLine.transaction_item_id, quantity: 4 }]
+    });
+
+    expect(refund.amount).toEqual(8000);
+    expect(refund.items).toHaveLength(1);
+    expect(refund.items[0].quantity).toEqual(4);
+    expect(await medicineStock()).toEqual(14);
+    expect((await getMedicineBatches(medicineId))[0].quantity).toEqual(14);
+
+    const updated = await getTransactionById(transaction.id);
+    expect(updated!.payment_status).toEqual('paid');
+    expect(updated!.refunded_amount).toEqual(8000);
+
+    const lines = await getRefundableItems(transaction.id);
+    expect(lines.find(item => item.item_type === 'medicine')!.refunded_quantity).toEqual(4);
+
+    const movements = await db.select()
+      .from(stockMovementsTable)
+      .where(eq(stockMovementsTable.reference_id, transaction.id))
+      .execute();
+    expect(movements.find(movement => movement.movement_type === 'masuk')?.notes).toContain(`Refund #${refund.id}`);
+  });
+
+  it('should refund everything not yet refunded and cancel pending control visits', async () => {
+    const transaction = await paidTransaction();
+    const medicineLine = (await getRefundableItems(transaction.id)).find(item => item.item_type === 'medicine')!;
+    await createRefund({
+      transaction_id: transaction.id,
+      refund_method: 'tunai',
+      reason: 'Sebagian obat dikembalikan',
+      items: [{ item_type: 'medicine', transaction_item_id: medicineLine.transaction_item_id, quantity: 4 }]
+    });
+
+    const refund = await createRefund({ transaction_id: transaction.id, refund_method: 'transfer', reason: 'Tindakan dibatalkan' });
+
+    expect(refund.amount).toEqual(1012000);
+    expect(refund.items.map(item => [item.item_type, item.quantity])).toEqual([['service', 1], ['medicine', 6]]);
+    expect(await medicineStock()).toEqual(20);
+
+    const followUps = await db.select().from(followUpsTable).execute();
+    expect(followUps.map(followUp => followUp.status)).toEqual(['cancelled']);
+
+    expect((await getRefunds(transaction.id)).map(item => item.amount)).toEqual([8000, 1012000]);
+    await expect(createRefund({ transaction_id: transaction.id, refund_method: 'tunai', reason: 'Lagi' }))
+      .rejects.toThrow('Tidak ada pembayaran yang dapat direfund');
+  });
+
+  it('should reject refunds beyond what was sold or paid', async () => {
+    const transaction = await paidTransaction();
+    const medicineLine = (await getRefundableItems(transaction.id)).find(item => item.item_type === 'medicine')!;
+
+    await expect(createRefund({
+      transaction_id: transaction.id,
+      refund_method: 'tunai',
+      reason: 'Salah input',
+      items: [{ item_type: 'medicine', transaction_item_id: medicineLine.transaction_item_id, quantity: 11 }]
+    })).rejects.toThrow(/melebihi jumlah yang belum direfund/);
+
+    await expect(createRefund({
+      transaction_id: transaction.id,
+      refund_method: 'tunai',
+      reason: 'Salah input',
+      items: [{ item_type: 'service', transaction_item_id: medicineLine.transaction_item_id + 999, quantity: 1 }]
+    })).rejects.toThrow(/tidak ditemukan/);
+
+    // A down payment only covers refunds up to the amount received
+    const partial = await createTransaction({
+      patient_id: patientId,
+      services: [{ service_id: serviceId, quantity: 1 }],
+      payment_method: 'tunai',
+      payment_status: 'pending',
+      payments: [{ amount: 200000, payment_method: 'tunai' }],
+      notes: null
+    });
+    const serviceLine = (await getRefundableItems(partial.id))[0];
+    await expect(createRefund({
+      transaction_id: partial.id,
+      refund_method: 'tunai',
+      reason: 'Batal',
+      items: [{ item_type: 'service', transaction_item_id: serviceLine.transaction_item_id, quantity: 1 }]
+    })).rejects.toThrow(/melebihi pembayaran yang diterima/);
+
+    await expect(createRefund({ transaction_id: 99999, refund_method: 'tunai', reason: 'x' }))
+      .rejects.toThrow('Transaction with ID 99999 not found');
+  });
+
+  it('should require refunds instead of cancelling or reopening money received', async () => {
+    const paid = await paidTransaction();
+    await expect(updateTransactionStatus(paid.id, 'cancelled')).rejects.toThrow(/gunakan refund/);
+    await expect(updateTransactionStatus(paid.id, 'pending')).rejects.toThrow(/gunakan refund/);
+
+    const partial = await createTransaction({
+      patient_id: patientId,
+      services: [{ service_id: serviceId, quantity: 1 }],
+      payment_method: 'tunai',
+      payment_status: 'pending',
+      payments: [{ amount: 200000, payment_method: 'tunai' }],
+      notes: null
+    });
+    await expect(updateTransactionStatus(partial.id, 'cancelled')).rejects.toThrow(/refund/);
+
+    // Refunding the down payment closes the transaction
+    await createRefund({ transaction_id: partial.id, refund_method: 'tunai', reason: 'Pasien batal' });
+    const closed = await getTransactionById(partial.id);
+    expect(closed!.payment_status).toEqual('cancelled');
+    expect(closed!.refunded_amount).toEqual(200000);
+    await expect(updateTransactionStatus(partial.id, 'pending')).rejects.toThrow(/sudah direfund/);
+  });
+
+  it('should count refunds as negative revenue', async () => {
+    const transaction = await paidTransaction();
+    await createRefund({ transaction_id: transaction.id, refund_method: 'tunai', reason: 'Tindakan dibatalkan' });
+
+    expect(await getDailyRevenue()).toEqual(0);
+
+    const report = await getSalesReportData({
+      type: 'sales',
+      start_date: new Date('2020-01-01'),
+      end_date: new Date('2030-12-31'),
+      format: 'pdf'
+    });
+    expect(report.summary.total_revenue).toEqual(1020000);
+    expect(report.summary.total_refunds).toEqual(-1020000);
+    expect(report.summary.net_revenue).toEqual(0);
+    expect(report.refunds).toHaveLength(1);
+    expect(report.refunds[0].amount).toEqual(-1020000);
+    expect(report.refunds[0].reason).toEqual('Tindakan dibatalkan');
+  });
+
+  it('should leave revenue alone when refunding a transaction that is not paid in full', async () => {
+    await paidTransaction();
+    const partial = await createTransaction({
+      patient_id: patientId,
+      services: [{ service_id: serviceId, quantity: 1 }],
+      medicines: [{ medicine_id: medicineId, quantity: 5 }],
+      payment_method: 'tunai',
+      payment_status: 'pending',
+      payments: [{ amount: 200000, payment_method: 'tunai' }],
+      notes: null
+    });
+    const medicineLine = (await getRefundableItems(partial.id)).find(item => item.item_type === 'medicine')!;
+    await createRefund({
+      transaction_id: partial.id,
+      refund_method: 'tunai',
+      reason: 'Obat tidak jadi dipakai',
+      items: [{ item_type: 'medicine', transaction_item_id: medicineLine.transaction_item_id, quantity: 2 }]
+    });
+    expect((await getTransactionById(partial.id))!.payment_status).toEqual('partially_paid');
+
+    // The down payment was never counted as revenue, so handing part of it back takes nothing off
+    expect(await getDailyRevenue()).toEqual(1020000);
+    const margin = await getGrossMargin({ start_date: new Date('2020-01-01'), end_date: new Date('2030-12-31') });
+    expect(margin).toEqual({ revenue: 1020000, cost_of_goods: 12000, gross_margin: 1008000, margin_percent: 98.8 });
+
+    const report = await getSalesReportData({
+      type: 'sales',
+      start_date: new Date('2020-01-01'),
+      end_date: new Date('2030-12-31'),
+      format: 'pdf'
+    });
+    expect(report.summary.total_refunds).toEqual(0);
+    expect(report.summary.net_revenue).toEqual(1020000);
+    expect(report.summary.cost_of_goods).toEqual(12000);
+    expect(report.refunds).toHaveLength(0);
+  });
+
+  it('should take refunded medicine units off the cost of goods sold', async () => {
+    const transaction = await paidTransaction();
+
+    const lines = await db.select()
+      .from(transactionMedicinesTable)
+      .where(eq(transactionMedicinesTable.transaction_id, transaction.id))
+      .execute();
+    expect(parseFloat(lines[0].unit_cost!)).toEqual(1200);
+
+    const medicineLine = (await getRefundableItems(transaction.id)).find(item => item.item_type === 'medicine')!;
+    await createRefund({
+      transaction_id: transaction.id,
+      refund_method: 'tunai',
+      reason: 'Obat tidak jadi dipakai',
+      items: [{ item_type: 'medicine', transaction_item_id: medicineLine.transaction_item_id, quantity: 4 }]
+    });
+
+    // 1.020.000 sold less 8.000 refunded, against 6 tablets at 1.200
+    const margin = await getGrossMargin({ start_date: new Date('2020-01-01'), end_date: new Date('2030-12-31') });
+    expect(margin).toEqual({ revenue: 1012000, cost_of_goods: 7200, gross_margin: 1004800, margin_percent: 99.3 });
+
+    const report = await getSalesReportData({
+      type: 'sales',
+      start_date: new Date('2020-01-01'),
+      end_date: new Date('2030-12-31'),
+      format: 'pdf'
+    });
+    expect(report.summary.cost_of_goods).toEqual(7200);
+    expect(report.summary.gross_margin).toEqual(1004800);
+    expect(report.medicine_revenue[0]).toMatchObject({ total_revenue: 20000, cost_of_goods: 12000, gross_margin: 8000 });
+  });
+});
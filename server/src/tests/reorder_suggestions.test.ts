@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { medicinesTable, patientsTable, settingsTable, stockMovementsTable, transactionsTable } from '../db/schema';
+import { getReorderSuggestions } from '../handlers/reorder_suggestions';
+import { createStockMovement } from '../handlers/stock_management';
+import { createSupplier } from '../handlers/suppliers';
+import { createPurchaseOrder } from '../handlers/purchase_orders';
+
+describe('Reorder suggestions', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let sehatId: number;
+  let farmaId: number;
+  let paracetamolId: number;
+
+  beforeEach(async () => {
+    const sehat = await createSupplier({ name: 'CV Sehat', contact_person: null, phone: null, address: null, notes: null, is_active: true });
+    const farma = await createSupplier({ name: 'PT Farma', contact_person: null, phone: null, address: null, notes: null, is_active: true });
+    const medicines = await db.insert(medicinesTable)
+      .values([
+        { name: 'Paracetamol', unit: 'tablet', price_per_unit: '1000.00', stock_quantity: 10, minimum_stock: 5 },
+        { name: 'Amoxicillin', unit: 'kapsul', price_per_unit: '2000.00', stock_quantity: 3, minimum_stock: 5, supplier: 'cv sehat', average_cost: '1500.00' },
+        { name: 'Betadine', unit: 'botol', price_per_unit: '25000.00', stock_quantity: 100, minimum_stock: 5 },
+        { name: 'Salep Kulit', unit: 'tube', price_per_unit: '15000.00', stock_quantity: 1, minimum_stock: 2 }
+      ])
+      .returning()
+      .execute();
+    sehatId = sehat.id;
+    farmaId = farma.id;
+    paracetamolId = medicines[0].id;
+
+    const patient = await db.insert(patientsTable)
+      .values({ name: 'Ahmad', date_of_birth: '2015-03-15', gender: 'Laki-laki' })
+      .returning()
+      .execute();
+    const transactions = await db.insert(transactionsTable)
+      .values([
+        { patient_id: patient[0].id, total_amount: '64000.00', payment_method: 'tunai', payment_status: 'paid' },
+        { patient_id: patient[0].id, total_amount: '30000.00', payment_method: 'tunai', payment_status: 'cancelled' }
+      ])
+      .returning()
+      .execute();
+
+    // 64 tablets sold in the last 30 days and 4 refunded leaves 10, two a day: five days of cover
+    await db.insert(stockMovementsTable)
+      .values([
+        { medicine_id: paracetamolId, movement_type: 'keluar', quantity: 64, reference_type: 'transaction', reference_id: transactions[0].id },
+        { medicine_id: paracetamolId, movement_type: 'masuk', quantity: 4, reference_type: 'transaction', reference_id: transactions[0].id },
+        // A cancelled sale, a write-off and an opname shortage are not usage
+        { medicine_id: paracetamolId, movement_type: 'keluar', quantity: 30, reference_type: 'transaction', reference_id: transactions[1].id },
+        { medicine_id: medicines[2].id, movement_type: 'keluar', quantity: 90, reference_type: 'stock_take', reference_id: 1 }
+      ])
+      .execute();
+    await createStockMovement({ medicine_id: medicines[2].id, movement_type: 'keluar', quantity: 40, reference_id: null, notes: 'Botol pecah' });
+
+    await createPurchaseOrder({
+      supplier_id: farmaId,
+      order_date: new Date(),
+      expected_date: null,
+      notes: null,
+      items: [{ medicine_id: paracetamolId, quantity: 20, expected_price: 500 }]
+    });
+  });
+
+  it('should group medicines running out by supplier, net of what is on order', async () => {
+    const result = await getReorderSuggestions({ lookback_days: 30, cover_days: 30 });
+
+    expect(result.threshold_days).toEqual(7);
+    expect(result.groups.map(group => group.supplier_name)).toEqual(['CV Sehat', 'PT Farma', null]);
+
+    const [sehat, farma, unmatched] = result.groups;
+    expect(sehat.supplier_id).toEqual(sehatId);
+    expect(sehat.items).toHaveLength(1);
+    expect(sehat.items[0]).toMatchObject({ medicine_name: 'Amoxicillin', days_of_cover: null, suggested_quantity: 2, expected_price: 1500 });
+    expect(sehat.estimated_total).toEqual(3000);
+
+    // 60 for thirty days plus the minimum of 5, less the 10 on hand and 20 on order
+    expect(farma.supplier_id).toEqual(farmaId);
+    expect(farma.items[0]).toMatchObject({
+      medicine_id: paracetamolId,
+      on_order: 20,
+      average_daily_usage: 2,
+      days_of_cover: 5,
+      suggested_quantity: 35,
+      expected_price: 500
+    });
+
+    expect(unmatched.supplier_id).toBeNull();
+    expect(unmatched.items[0]).toMatchObject({ medicine_name: 'Salep Kulit', suggested_quantity: 1, expected_price: null });
+  });
+
+  it('should flag running out against the configured threshold', async () => {
+    await db.insert(settingsTable)
+      .values({ key: 'low_stock_threshold_days', value: '3' })
+      .execute();
+
+    const result = await getReorderSuggestions({ lookback_days: 30, cover_days: 30 });
+
+    expect(result.threshold_days).toEqual(3);
+    const names = result.groups.flatMap(group => group.items.map(item => item.medicine_name));
+    expect(names).toEqual(['Amoxicillin', 'Salep Kulit']);
+  });
+});
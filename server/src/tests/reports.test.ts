@@ -10,21 +10,28 @@ import {
   transactionMedicinesTable,
   patientVisitsTable,
   stockMovementsTable,
-  settingsTable
+  settingsTable,
+  paymentsTable,
+  guardiansTable,
+  patientGuardiansTable
 } from '../db/schema';
 import { type ReportInput } from '../schema';
 import {
+  getSalesReportData,
+  getInventoryReportData,
+  getPatientReportData,
   generateSalesReport,
   generateInventoryReport,
   generatePatientReport,
-  generateReceiptData
+  generateReceiptData,
+  generateReceiptFile
 } from '../handlers/reports';
 
 describe('Reports Handlers', () => {
   beforeEach(createDB);
   afterEach(resetDB);
 
-  describe('generateSalesReport', () => {
+  describe('getSalesReportData', () => {
     it('should generate sales report with transaction data', async () => {
       // Create test patient
       const patient = await db.insert(patientsTable)
@@ -100,6 +107,14 @@ describe('Reports Handlers', () => {
         })
         .execute();
 
+      // Settled partly in cash and partly by transfer
+      await db.insert(paymentsTable)
+        .values([
+          { transaction_id: transaction[0].id, amount: '50000', payment_method: 'tunai' },
+          { transaction_id: transaction[0].id, amount: '25000', payment_method: 'transfer' }
+        ])
+        .execute();
+
       // Use a wider date range that will definitely include our test data
       const reportInput: ReportInput = {
         type: 'sales',
@@ -108,22 +123,20 @@ describe('Reports Handlers', () => {
         format: 'pdf'
       };
 
-      const result = await generateSalesReport(reportInput);
-      expect(result).toBeInstanceOf(Buffer);
-
-      const reportData = JSON.parse(result.toString());
+      const reportData = await getSalesReportData(reportInput);
       expect(reportData.summary.total_transactions).toBe(1);
       expect(reportData.summary.total_revenue).toBe(75000);
       expect(reportData.service_revenue).toHaveLength(1);
       expect(reportData.service_revenue[0].service_name).toBe('Test Service');
       expect(reportData.medicine_revenue).toHaveLength(1);
       expect(reportData.medicine_revenue[0].medicine_name).toBe('Test Medicine');
-      expect(reportData.payment_methods).toHaveLength(1);
-      expect(reportData.payment_methods[0].payment_method).toBe('tunai');
+      expect(reportData.payment_methods).toEqual([
+        { payment_method: 'tunai', count: 1, total_amount: 50000 },
+        { payment_method: 'transfer', count: 1, total_amount: 25000 }
+      ]);
     });
 
-    it('should return excel format when requested', async () => {
-      // Use a wider date range that will definitely include our test data
+    it('should echo the requested period', async () => {
       const reportInput: ReportInput = {
         type: 'sales',
         start_date: new Date('2020-01-01'),
@@ -131,12 +144,9 @@ describe('Reports Handlers', () => {
         format: 'excel'
       };
 
-      const result = await generateSalesReport(reportInput);
-      expect(typeof result).toBe('string');
-
-      const reportData = JSON.parse(result as string);
-      expect(reportData.period.start_date).toEqual(reportInput.start_date.toISOString());
-      expect(reportData.period.end_date).toEqual(reportInput.end_date.toISOString());
+      const reportData = await getSalesReportData(reportInput);
+      expect(reportData.period.start_date).toEqual(reportInput.start_date);
+      expect(reportData.period.end_date).toEqual(reportInput.end_date);
     });
 
     it('should handle empty data gracefully', async () => {
@@ -147,18 +157,45 @@ describe('Reports Handlers', () => {
         format: 'pdf'
       };
 
-      const result = await generateSalesReport(reportInput);
-      expect(result).toBeInstanceOf(Buffer);
-
-      const reportData = JSON.parse(result.toString());
+      const reportData = await getSalesReportData(reportInput);
       expect(reportData.summary.total_transactions).toBe(0);
       expect(reportData.summary.total_revenue).toBe(0);
       expect(reportData.service_revenue).toHaveLength(0);
       expect(reportData.medicine_revenue).toHaveLength(0);
+      expect(reportData.receivables).toHaveLength(0);
+      expect(reportData.summary.total_outstanding).toBe(0);
+    });
+
+    it('should list outstanding receivables of the period', async () => {
+      const patient = await db.insert(patientsTable)
+        .values({ name: 'Budi', date_of_birth: '2014-05-01', gender: 'Laki-laki' })
+        .returning()
+        .execute();
+
+      await db.insert(transactionsTable)
+        .values([
+          { patient_id: patient[0].id, total_amount: '800000', paid_amount: '300000', payment_method: 'tunai', payment_status: 'partially_paid' },
+          { patient_id: patient[0].id, total_amount: '150000', payment_method: 'tunai', payment_status: 'pending' },
+          { patient_id: patient[0].id, total_amount: '500000', paid_amount: '500000', payment_method: 'tunai', payment_status: 'paid' },
+          { patient_id: patient[0].id, total_amount: '200000', payment_method: 'tunai', payment_status: 'cancelled' }
+        ])
+        .execute();
+
+      const reportData = await getSalesReportData({
+        type: 'sales',
+        start_date: new Date('2020-01-01'),
+        end_date: new Date('2030-12-31'),
+        format: 'pdf'
+      });
+
+      expect(reportData.receivables.map(item => item.outstanding_amount)).toEqual([500000, 150000]);
+      expect(reportData.receivables[0].patient_name).toBe('Budi');
+      expect(reportData.receivables[0].paid_amount).toBe(300000);
+      expect(reportData.summary.total_outstanding).toBe(650000);
     });
   });
 
-  describe('generateInventoryReport', () => {
+  describe('getInventoryReportData', () => {
     it('should generate inventory report with stock data', async () => {
       // Create test medicines
       const medicine1 = await db.insert(medicinesTable)
@@ -216,22 +253,19 @@ describe('Reports Handlers', () => {
         format: 'pdf'
       };
 
-      const result = await generateInventoryReport(reportInput);
-      expect(result).toBeInstanceOf(Buffer);
-
-      const reportData = JSON.parse(result.toString());
+      const reportData = await getInventoryReportData(reportInput);
       expect(reportData.summary.total_medicines).toBe(2);
       expect(reportData.summary.low_stock_count).toBe(1);
       expect(reportData.summary.expired_count).toBe(1);
       expect(reportData.current_stock).toHaveLength(2);
       
       // Check stock calculations
-      const stockA = reportData.current_stock.find((item: any) => item.name === 'Medicine A');
+      const stockA = reportData.current_stock.find(item => item.name === 'Medicine A')!;
       expect(stockA.stock_value).toBe(250000); // 50 * 5000
       expect(stockA.is_low_stock).toBe(false);
       expect(stockA.is_expired).toBe(false);
 
-      const stockB = reportData.current_stock.find((item: any) => item.name === 'Medicine B');
+      const stockB = reportData.current_stock.find(item => item.name === 'Medicine B')!;
       expect(stockB.is_low_stock).toBe(true);
       expect(stockB.is_expired).toBe(true);
 
@@ -262,14 +296,13 @@ describe('Reports Handlers', () => {
         format: 'pdf'
       };
 
-      const result = await generateInventoryReport(reportInput);
-      const reportData = JSON.parse(result.toString());
+      const reportData = await getInventoryReportData(reportInput);
       
       expect(reportData.summary.total_stock_value).toBe(1000000); // 10 * 100000
     });
   });
 
-  describe('generatePatientReport', () => {
+  describe('getPatientReportData', () => {
     it('should generate patient report with demographic data', async () => {
       // Create test patients
       const patient1 = await db.insert(patientsTable)
@@ -337,19 +370,16 @@ describe('Reports Handlers', () => {
         format: 'pdf'
       };
 
-      const result = await generatePatientReport(reportInput);
-      expect(result).toBeInstanceOf(Buffer);
-
-      const reportData = JSON.parse(result.toString());
+      const reportData = await getPatientReportData(reportInput);
       expect(reportData.summary.new_patients).toBe(2);
       expect(reportData.summary.total_visits).toBe(3);
       
       expect(reportData.visit_frequency).toHaveLength(2);
-      const patientAVisits = reportData.visit_frequency.find((item: any) => item.patient_name === 'Patient A');
+      const patientAVisits = reportData.visit_frequency.find(item => item.patient_name === 'Patient A')!;
       expect(patientAVisits.visit_count).toBe(2);
 
       expect(reportData.common_diagnoses).toHaveLength(2);
-      const commonCold = reportData.common_diagnoses.find((item: any) => item.diagnosis === 'Common Cold');
+      const commonCold = reportData.common_diagnoses.find(item => item.diagnosis === 'Common Cold')!;
       expect(commonCold.count).toBe(2);
 
       expect(reportData.demographics.gender_distribution).toHaveLength(2);
@@ -357,6 +387,57 @@ describe('Reports Handlers', () => {
     });
   });
 
+  describe('report files', () => {
+    const reportInput: ReportInput = {
+      type: 'sales',
+      start_date: new Date('2024-03-01T00:00:00'),
+      end_date: new Date('2024-03-31T23:59:59'),
+      format: 'pdf'
+    };
+
+    it('should render a PDF with the clinic letterhead', async () => {
+      await db.insert(settingsTable)
+        .values([
+          { key: 'clinic_name', value: 'Klinik Khitan Sehat' },
+          { key: 'address', value: 'Jl. Merdeka 1' }
+        ])
+        .execute();
+
+      const result = await generateSalesReport(reportInput);
+
+      expect(result.filename).toEqual('laporan-penjualan-2024-03-01_2024-03-31.pdf');
+      expect(result.mime_type).toEqual('application/pdf');
+
+      const content = Buffer.from(result.content_base64, 'base64').toString('latin1');
+      expect(content.startsWith('%PDF-')).toBe(true);
+      expect(content).toContain('(Klinik Khitan Sehat)');
+      expect(content).toContain('Jl. Merdeka 1');
+      expect(content).toContain('(Pendapatan per Layanan)');
+      expect(content.trimEnd().endsWith('%%EOF')).toBe(true);
+    });
+
+    it('should render an XLSX workbook with one sheet per section', async () => {
+      const result = await generateInventoryReport({ ...reportInput, type: 'inventory', format: 'excel' });
+
+      expect(result.filename).toEqual('laporan-inventori-2024-03-01_2024-03-31.xlsx');
+      expect(result.mime_type).toEqual('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+
+      const content = Buffer.from(result.content_base64, 'base64');
+      expect(content.subarray(0, 2).toString()).toEqual('PK');
+      // Cover sheet plus five sections
+      expect(content.toString('latin1')).toContain('xl/worksheets/sheet6.xml');
+      expect(content.toString('latin1')).not.toContain('xl/worksheets/sheet7.xml');
+    });
+
+    it('should render patient reports in both formats', async () => {
+      const pdf = await generatePatientReport({ ...reportInput, type: 'patients' });
+      const xlsx = await generatePatientReport({ ...reportInput, type: 'patients', format: 'excel' });
+
+      expect(pdf.filename.endsWith('.pdf')).toBe(true);
+      expect(xlsx.filename.endsWith('.xlsx')).toBe(true);
+    });
+  });
+
   describe('generateReceiptData', () => {
     it('should generate receipt data for transaction', async () => {
       // Create clinic settings
@@ -368,12 +449,12 @@ describe('Reports Handlers', () => {
             description: 'Clinic name'
           },
           {
-            key: 'clinic_address',
+            key: 'address',
             value: 'Test Address',
             description: 'Clinic address'
           },
           {
-            key: 'clinic_phone',
+            key: 'phone',
             value: '021-1234567',
             description: 'Clinic phone'
           }
@@ -467,12 +548,12 @@ describe('Reports Handlers', () => {
 
       expect(result.items).toHaveLength(2);
       
-      const serviceItem = result.items.find((item: any) => item.type === 'service');
+      const serviceItem = result.items.find(item => item.type === 'service')!;
       expect(serviceItem.name).toBe('Circumcision Service');
       expect(serviceItem.quantity).toBe(1);
       expect(serviceItem.total_price).toBe(500000);
 
-      const medicineItem = result.items.find((item: any) => item.type === 'medicine');
+      const medicineItem = result.items.find(item => item.type === 'medicine')!;
       expect(medicineItem.name).toBe('Antibiotics');
       expect(medicineItem.quantity).toBe(5);
       expect(medicineItem.unit).toBe('tablet');
@@ -514,6 +595,140 @@ describe('Reports Handlers', () => {
       const result = await generateReceiptData(transaction[0].id);
       expect(result.clinic_info.name).toBe('Rumah Khitan Super Modern Pak Nopi');
       expect(result.items).toHaveLength(0); // No service/medicine items
+      expect(result.guardian).toBeNull();
+    });
+
+    it('should include the primary guardian', async () => {
+      const patient = await db.insert(patientsTable)
+        .values({
+          name: 'Ahmad',
+          date_of_birth: '2016-01-01',
+          gender: 'Laki-laki'
+        })
+        .returning()
+        .execute();
+
+      const guardians = await db.insert(guardiansTable)
+        .values([
+          { name: 'Siti Aminah', relationship: 'Ibu' },
+          { name: 'Budi Santoso', relationship: 'Ayah', phone: '081211112222' }
+        ])
+        .returning()
+        .execute();
+
+      await db.insert(patientGuardiansTable)
+        .values([
+          { patient_id: patient[0].id, guardian_id: guardians[0].id, is_primary: false },
+          { patient_id: patient[0].id, guardian_id: guardians[1].id, is_primary: true }
+        ])
+        .execute();
+
+      const transaction = await db.insert(transactionsTable)
+        .values({
+          patient_id: patient[0].id,
+          total_amount: '100000',
+          payment_method: 'tunai',
+          payment_status: 'paid'
+        })
+        .returning()
+        .execute();
+
+      const result = await generateReceiptData(transaction[0].id);
+
+      expect(result.patient.name).toBe('Ahmad');
+      expect(result.guardian).toEqual({ name: 'Budi Santoso', relationship: 'Ayah', phone: '081211112222' });
+    });
+
+    it('should use the receipt footer from settings', async () => {
+      await db.insert(settingsTable)
+        .values({ key: 'receipt_footer', value: 'Semoga lekas sembuh', description: 'Footer struk pembayaran' })
+        .execute();
+      const patient = await db.insert(patientsTable)
+        .values({ name: 'Ahmad', date_of_birth: '2016-01-01', gender: 'Laki-laki' })
+        .returning()
+        .execute();
+      const transaction = await db.insert(transactionsTable)
+        .values({ patient_id: patient[0].id, total_amount: '100000', payment_method: 'tunai', payment_status: 'paid' })
+        .returning()
+        .execute();
+
+      const result = await generateReceiptData(transaction[0].id);
+      expect(result.footer_message).toBe('Semoga lekas sembuh');
+    });
+  });
+
+  describe('generateReceiptFile', () => {
+    let transactionId: number;
+
+    beforeEach(async () => {
+      await db.insert(settingsTable)
+        .values({ key: 'clinic_name', value: 'Klinik Khitan Sehat', description: 'Nama klinik' })
+        .execute();
+      const patient = await db.insert(patientsTable)
+        .values({ name: 'Muhammad Rizki Pratama', date_of_birth: '2016-01-01', gender: 'Laki-laki' })
+        .returning()
+        .execute();
+      const service = await db.insert(servicesTable)
+        .values({ name: 'Khitan Metode Klamp dengan Anestesi Lokal', price: '1500000' })
+        .returning()
+        .execute();
+      const transaction = await db.insert(transactionsTable)
+        .values({ patient_id: patient[0].id, total_amount: '1500000', payment_method: 'transfer', payment_status: 'paid' })
+        .returning()
+        .execute();
+      await db.insert(transactionServicesTable)
+        .values({
+          transaction_id: transaction[0].id,
+          service_id: service[0].id,
+          quantity: 1,
+          price_per_unit: '1500000',
+          total_price: '1500000'
+        })
+        .execute();
+      transactionId = transaction[0].id;
+    });
+
+    it('should produce an ESC/POS stream that fits the paper width from settings', async () => {
+      await db.insert(settingsTable)
+        .values({ key: 'receipt_paper_width', value: '58', description: 'Lebar kertas' })
+        .execute();
+
+      const file = await generateReceiptFile({ transaction_id: transactionId, format: 'escpos' });
+      const bytes = Buffer.from(file.content_base64, 'base64');
+
+      expect(file.filename).toBe(`struk-${transactionId}-58mm.bin`);
+      expect(file.mime_type).toBe('application/octet-stream');
+      expect([...bytes.subarray(0, 2)]).toEqual([0x1b, 0x40]); // ESC @
+      expect([...bytes.subarray(-4)]).toEqual([0x1d, 0x56, 0x42, 0]); // GS V: cut
+
+      // Text lines without the control sequences that precede them
+      const lines = bytes.toString('latin1').split('\n').map(line => line.replace(/^(\x1b@|\x1b[aEd].|\x1d!.)+/, ''));
+      expect(lines).toContain('Klinik Khitan Sehat');
+      expect(lines.some(line => line.startsWith('TOTAL') && line.endsWith('Rp 1.500.000'))).toBe(true);
+      expect(lines.every(line => line.length <= 32)).toBe(true);
+    });
+
+    it('should render HTML and PDF fallbacks for the requested width', async () => {
+      const html = await generateReceiptFile({ transaction_id: transactionId, format: 'html', paper_width: '80' });
+      const page = Buffer.from(html.content_base64, 'base64').toString('utf8');
+
+      expect(html.mime_type).toBe('text/html');
+      expect(page).toContain('size: 80mm auto');
+      expect(page).toContain('Khitan Metode Klamp dengan Anestesi Lokal');
+      expect(page).toContain('Transfer');
+
+      const pdf = await generateReceiptFile({ transaction_id: transactionId, format: 'pdf', paper_width: '80' });
+      const document = Buffer.from(pdf.content_base64, 'base64').toString('latin1');
+
+      expect(pdf.filename).toBe(`struk-${transactionId}-80mm.pdf`);
+      expect(document.startsWith('%PDF-1.4')).toBe(true);
+      expect(document).toContain('/MediaBox [0 0 226.77');
+      expect(document).toContain('(Klinik Khitan Sehat)');
+    });
+
+    it('should throw error for non-existent transaction', async () => {
+      await expect(generateReceiptFile({ transaction_id: 99999, format: 'pdf' }))
+        .rejects.toThrow('Transaction with ID 99999 not found');
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  followUpsTable,
+  medicinesTable,
+  patientsTable,
+  servicesTable,
+  transactionMedicinesTable,
+  transactionPackagesTable,
+  transactionServicesTable
+} from '../db/schema';
+import { createServicePackage, getServicePackages, updateServicePackage } from '../handlers/service_packages';
+import { archiveMedicine } from '../handlers/delete_records';
+import { createTransaction } from '../handlers/create_transaction';
+import { openShift } from '../handlers/cashier_shifts';
+import { createPromotion } from '../handlers/promotions';
+import { getTopServices } from '../handlers/dashboard';
+import { generateReceiptData } from '../handlers/reports';
+import { eq } from 'drizzle-orm';
+
+describe('Service packages', () => {
+  beforeEach(createDB);
+  beforeEach(() => openShift({ opening_float: 0 }, 1)); // Sales need an open cashier shift
+  afterEach(resetDB);
+
+  let patientId: number;
+  let klampId: number;
+  let controlId: number;
+  let medicineId: number;
+
+  beforeEach(async () => {
+    const patient = await db.insert(patientsTable)
+      .values({ name: 'Ahmad', date_of_birth: '2015-03-15', gender: 'Laki-laki' })
+      .returning()
+      .execute();
+    const services = await db.insert(servicesTable)
+      .values([
+        { name: 'Khitan Klamp', price: '1500000.00', follow_up_days: [3] },
+        { name: 'Kontrol', price: '100000.00' }
+      ])
+      .returning()
+      .execute();
+    const medicine = await db.insert(medicinesTable)
+      .values({ name: 'Paracetamol', unit: 'tablet', price_per_unit: '5000.00', stock_quantity: 25, minimum_stock: 5 })
+      .returning()
+      .execute();
+    patientId = patient[0].id;
+    klampId = services[0].id;
+    controlId = services[1].id;
+    medicineId = medicine[0].id;
+  });
+
+  // List value 1.500.000 + 2 x 100.000 + 10 x 5.000 = 1.750.000, sold for 1.400.000
+  const klampPackage = () =>
+    createServicePackage({
+      name: 'Paket Klamp + obat + kontrol 2x',
+      description: null,
+      price: 1400000,
+      is_active: true,
+      items: [
+        { item_type: 'service', item_id: klampId, quantity: 1 },
+        { item_type: 'medicine', item_id: medicineId, quantity: 10 },
+        { item_type: 'service', item_id: controlId, quantity: 2 }
+      ]
+    });
+
+  const checkout = (packageId: number, quantity = 1, extra: { promo_code?: string } = {}) =>
+    createTransaction({
+      patient_id: patientId,
+      services: [],
+      packages: [{ package_id: packageId, quantity }],
+      payment_method: 'tunai',
+      payment_status: 'paid',
+      notes: null,
+      ...extra
+    });
+
+  it('should create a package with its services and medicines', async () => {
+    const created = await klampPackage();
+
+    expect(created.price).toEqual(1400000);
+    expect(created.items.map(item => [item.item_type, item.name, item.quantity])).toEqual([
+      ['service', 'Khitan Klamp', 1],
+      ['service', 'Kontrol', 2],
+      ['medicine', 'Paracetamol', 10]
+    ]);
+    expect(created.items[2].price).toEqual(5000);
+
+    await expect(createServicePackage({
+      name: 'Rusak',
+      description: null,
+      price: 1000,
+      is_active: true,
+      items: [{ item_type: 'medicine', item_id: 99999, quantity: 1 }]
+    })).rejects.toThrow('Medicine with ID 99999 not found');
+  });
+
+  it('should replace the contents when updating a package', async () => {
+    const created = await klampPackage();
+
+    const updated = await updateServicePackage({
+      id: created.id,
+      price: 1450000,
+      items: [{ item_type: 'service', item_id: klampId, quantity: 1 }]
+    });
+
+    expect(updated.price).toEqual(1450000);
+    expect(updated.items).toHaveLength(1);
+    expect((await getServicePackages())[0].items).toHaveLength(1);
+
+    await updateServicePackage({ id: created.id, is_active: false });
+    expect(await getServicePackages(true)).toHaveLength(0);
+    await expect(checkout(created.id)).rejects.toThrow(/tidak aktif/);
+    await expect(updateServicePackage({ id: 99999, name: 'x' })).rejects.toThrow('Service package with ID 99999 not found');
+  });
+
+  it('should not sell a package once one of its components is inactive or archived', async () => {
+    const created = await klampPackage();
+    expect(created.items.every(item => item.available)).toBe(true);
+
+    await db.update(servicesTable).set({ is_active: false }).where(eq(servicesTable.id, controlId)).execute();
+    expect((await getServicePackages())[0].items.map(item => item.available)).toEqual([true, false, true]);
+    expect(await getServicePackages(true)).toHaveLength(0);
+    await expect(checkout(created.id)).rejects.toThrow('Paket Klamp + obat + kontrol 2x berisi Kontrol yang sudah tidak aktif atau diarsipkan');
+
+    await db.update(servicesTable).set({ is_active: true }).where(eq(servicesTable.id, controlId)).execute();
+    await archiveMedicine(medicineId, 1);
+    expect(await getServicePackages(true)).toHaveLength(0);
+    await expect(checkout(created.id)).rejects.toThrow(/berisi Paracetamol/);
+  });
+
+  it('should expand a package into its lines at the bundle price and deduct stock', async () => {
+    const created = await klampPackage();
+    const transaction = await checkout(created.id, 2);
+
+    expect(transaction.total_amount).toEqual(2800000);
+    expect(transaction.payment_status).toEqual('paid');
+
+    const packages = await db.select().from(transactionPackagesTable).execute();
+    expect(packages).toHaveLength(1);
+    expect(packages[0].quantity).toEqual(2);
+    expect(parseFloat(packages[0].total_price)).toEqual(2800000);
+
+    const services = await db.select().from(transactionServicesTable).orderBy(transactionServicesTable.id).execute();
+    expect(services.map(line => [line.service_id, line.quantity, parseFloat(line.total_price)])).toEqual([
+      [klampId, 2, 2400000],
+      [controlId, 4, 320000]
+    ]);
+    expect(services.every(line => line.transaction_package_id === packages[0].id)).toBe(true);
+
+    const medicines = await db.select().from(transactionMedicinesTable).execute();
+    expect(medicines[0].quantity).toEqual(20);
+    expect(parseFloat(medicines[0].total_price)).toEqual(80000);
+
+    const medicine = await db.select().from(medicinesTable).where(eq(medicinesTable.id, medicineId)).execute();
+    expect(medicine[0].stock_quantity).toEqual(5);
+
+    // Control visits follow the rules of the services inside the package
+    const followUps = await db.select().from(followUpsTable).execute();
+    expect(followUps.map(followUp => followUp.service_id)).toEqual([klampId]);
+
+    await expect(checkout(created.id)).rejects.toThrow('Insufficient stock for Paracetamol. Available: 5, Required: 10');
+  });
+
+  it('should report package sales apart from services sold on their own', async () => {
+    const created = await klampPackage();
+    await checkout(created.id);
+    await createTransaction({
+      patient_id: patientId,
+      services: [{ service_id: klampId, quantity: 1 }],
+      payment_method: 'tunai',
+      payment_status: 'paid',
+      notes: null
+    });
+
+    const top = await getTopServices();
+
+    expect(top).toContainEqual({ type: 'package', service_name: 'Paket Klamp + obat + kontrol 2x', total_usage: 1, total_revenue: 1400000 });
+    expect(top).toContainEqual({ type: 'service', service_name: 'Khitan Klamp', total_usage: 1, total_revenue: 1500000 });
+    expect(top.find(item => item.service_name === 'Kontrol')).toBeUndefined();
+  });
+
+  it('should print a package as one receipt line, discounted by a bill promotion', async () => {
+    const created = await klampPackage();
+    await createPromotion({
+      code: 'HEMAT10',
+      name: 'Hemat 10%',
+      discount_type: 'percentage',
+      discount_value: 10,
+      scope: 'bill',
+      service_id: null,
+      valid_from: new Date(Date.now() - 24 * 60 * 60 * 1000),
+      valid_until: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      usage_limit: null,
+      is_active: true
+    });
+
+    const transaction = await checkout(created.id, 1, { promo_code: 'HEMAT10' });
+    expect(transaction.total_amount).toEqual(1260000);
+
+    const receipt = await generateReceiptData(transaction.id);
+    expect(receipt.items).toHaveLength(1);
+    expect(receipt.items[0]).toEqual({
+      type: 'package',
+      name: 'Paket Klamp + obat + kontrol 2x',
+      quantity: 1,
+      unit: 'paket',
+      price_per_unit: 1400000,
+      discount_amount: 140000,
+      total_price: 1260000
+    });
+  });
+});
@@ -98,6 +98,37 @@ describe('Settings Handlers', () => {
       expect(saved[0].description).toBe('New setting description');
     });
 
+    it('should reject a medical record format that cannot number patients', async () => {
+      await expect(updateSetting({ key: 'medical_record_format', value: 'RK-{YYYY}', description: null }))
+        .rejects.toThrow('Format No. RM harus memuat tepat satu {seq}');
+      await expect(updateSetting({ key: 'medical_record_format', value: 'RK-{DD}-{seq}', description: null }))
+        .rejects.toThrow('Format No. RM tidak mengenal {DD}');
+
+      const saved = await updateSetting({ key: 'medical_record_format', value: 'RM{YY}{MM}{seq:4}', description: null });
+      expect(saved.value).toBe('RM{YY}{MM}{seq:4}');
+    });
+
+    it('should reject opening hours and slot lengths the schedule cannot use', async () => {
+      for (const value of ['8.00', 'abc', '8:00', '24:00']) {
+        await expect(updateSetting({ key: 'opening_time', value, description: null }))
+          .rejects.toThrow('harus berformat HH:MM');
+      }
+      await expect(updateSetting({ key: 'closing_time', value: '07:30', description: null }))
+        .rejects.toThrow('Jam tutup (07:30) harus setelah jam buka (08:00)');
+      for (const value of ['0', '-15', '7.5', 'abc']) {
+        await expect(updateSetting({ key: 'appointment_slot_minutes', value, description: null }))
+          .rejects.toThrow('bilangan bulat menit');
+      }
+
+      await updateSetting({ key: 'closing_time', value: '21:00', description: null });
+      const saved = await updateSetting({ key: 'opening_time', value: '19:30', description: null });
+      expect(saved.value).toBe('19:30');
+      expect((await updateSetting({ key: 'appointment_slot_minutes', value: '45', description: null })).value).toBe('45');
+
+      await expect(updateSetting({ key: 'closing_time', value: '19:00', description: null }))
+        .rejects.toThrow('harus setelah jam buka (19:30)');
+    });
+
     it('should update existing setting when key exists', async () => {
       // Insert existing setting
       const existing = await db.insert(settingsTable)
@@ -195,27 +226,33 @@ describe('Settings Handlers', () => {
       expect(expiryWarning).toBeDefined();
       expect(expiryWarning?.value).toBe('30');
       expect(expiryWarning?.description).toBe('Peringatan obat kedaluwarsa (hari)');
+
+      const slotMinutes = settings.find(s => s.key === 'appointment_slot_minutes');
+      expect(slotMinutes).toBeDefined();
+      expect(slotMinutes?.value).toBe('30');
+
+      const medicalRecordFormat = settings.find(s => s.key === 'medical_record_format');
+      expect(medicalRecordFormat?.value).toBe('RK-{YYYY}-{seq:5}');
     });
 
-    it('should not create default settings when some already exist', async () => {
-      // Insert one setting first
+    it('should add only the missing defaults when some settings already exist', async () => {
       await db.insert(settingsTable)
-        .values({
-          key: 'existing_setting',
-          value: 'existing value',
-          description: 'Existing setting',
-          updated_at: new Date()
-        })
+        .values([
+          { key: 'existing_setting', value: 'existing value', description: 'Existing setting', updated_at: new Date() },
+          { key: 'clinic_name', value: 'Klinik Lama', description: 'Nama klinik', updated_at: new Date() }
+        ])
         .execute();
 
       await initializeDefaultSettings();
 
       const settings = await getSettings();
-      
-      // Should only have the one existing setting, no defaults added
-      expect(settings).toHaveLength(1);
-      expect(settings[0].key).toBe('existing_setting');
-      expect(settings[0].value).toBe('existing value');
+
+      // The twelve defaults plus the unrelated setting, with the configured clinic name kept
+      expect(settings).toHaveLength(13);
+      expect(settings.find(s => s.key === 'existing_setting')?.value).toBe('existing value');
+      expect(settings.find(s => s.key === 'clinic_name')?.value).toBe('Klinik Lama');
+      expect(settings.find(s => s.key === 'opening_time')?.value).toBe('08:00');
+      expect(settings.find(s => s.key === 'medical_record_format')?.value).toBe('RK-{YYYY}-{seq:5}');
     });
 
     it('should be idempotent - running twice should not create duplicates', async () => {
@@ -224,8 +261,8 @@ describe('Settings Handlers', () => {
 
       const settings = await getSettings();
       
-      // Should still only have the default settings count (7)
-      expect(settings).toHaveLength(7);
+      // Should still only have the default settings count (12)
+      expect(settings).toHaveLength(12);
       
       // Verify no duplicates by checking unique keys
       const keys = settings.map(s => s.key);
@@ -3,7 +3,7 @@ import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { medicinesTable, stockMovementsTable } from '../db/schema';
 import { type CreateStockMovementInput } from '../schema';
-import { createStockMovement, getStockMovements, adjustStock } from '../handlers/stock_management';
+import { createStockMovement, getStockMovements, exportStockMovementsCsv, adjustStock } from '../handlers/stock_management';
 import { eq, desc } from 'drizzle-orm';
 
 // Test data
@@ -149,6 +149,25 @@ describe('Stock Management', () => {
 
       expect(medicine[0].stock_quantity).toBe(0);
     });
+
+    it('should keep a moving-average cost across deliveries at different prices', async () => {
+      const first = await createStockMovement({ ...stockInInput, purchase_price: 8 });
+      expect(first.unit_cost).toBe(8);
+
+      // 150 units at 8.00 and 50 more at 12.00
+      await createStockMovement({ ...stockInInput, purchase_price: 12 });
+      // Stock leaving the shelf does not change what the rest cost
+      const out = await createStockMovement(stockOutInput);
+      expect(out.unit_cost).toBeNull();
+
+      const medicine = await db.select()
+        .from(medicinesTable)
+        .where(eq(medicinesTable.id, medicineId))
+        .execute();
+
+      expect(medicine[0].stock_quantity).toBe(175);
+      expect(parseFloat(medicine[0].average_cost!)).toBe(9);
+    });
   });
 
   describe('getStockMovements', () => {
@@ -177,9 +196,10 @@ describe('Stock Management', () => {
     });
 
     it('should return all stock movements when no filter is applied', async () => {
-      const movements = await getStockMovements();
+      const { items: movements, total } = await getStockMovements();
 
       expect(movements).toHaveLength(3);
+      expect(total).toEqual(3);
       
       // Verify they are ordered by created_at descending
       for (let i = 0; i < movements.length - 1; i++) {
@@ -188,7 +208,7 @@ describe('Stock Management', () => {
     });
 
     it('should return filtered stock movements for specific medicine', async () => {
-      const movements = await getStockMovements(medicineId);
+      const { items: movements } = await getStockMovements({ limit: 50, offset: 0, medicine_id: medicineId });
 
       expect(movements).toHaveLength(2);
       movements.forEach(movement => {
@@ -211,16 +231,47 @@ describe('Stock Management', () => {
         .returning()
         .execute();
 
-      const movements = await getStockMovements(emptyMedicine[0].id);
+      const { items: movements } = await getStockMovements({ limit: 50, offset: 0, medicine_id: emptyMedicine[0].id });
 
       expect(movements).toHaveLength(0);
     });
 
     it('should handle non-existent medicine ID gracefully', async () => {
-      const movements = await getStockMovements(999);
+      const { items: movements } = await getStockMovements({ limit: 50, offset: 0, medicine_id: 999 });
 
       expect(movements).toHaveLength(0);
     });
+
+    it('should page through the movements newest first', async () => {
+      const all = await getStockMovements();
+      const first = await getStockMovements({ limit: 2, offset: 0 });
+      expect(first.hasMore).toBe(true);
+
+      const second = await getStockMovements({ limit: 2, offset: 0, cursor: first.nextCursor });
+      expect(second.hasMore).toBe(false);
+      expect([...first.items, ...second.items].map(movement => movement.id)).toEqual(all.items.map(movement => movement.id));
+    });
+  });
+
+  describe('exportStockMovementsCsv', () => {
+    it('should export movements of the selected medicine with its name', async () => {
+      await createStockMovement(stockInInput);
+      await createStockMovement(stockOutInput);
+
+      const other = await db.insert(medicinesTable)
+        .values({ ...testMedicine, name: 'Other Medicine' })
+        .returning()
+        .execute();
+      await createStockMovement({ ...stockInInput, medicine_id: other[0].id });
+
+      const result = await exportStockMovementsCsv({ medicine_id: medicineId, indonesian_format: false });
+      const lines = Buffer.from(result.content_base64, 'base64').toString('utf8').trimEnd().split('\r\n');
+
+      expect(result.filename).toMatch(/^pergerakan-stok-.*\.csv$/);
+      expect(lines).toHaveLength(3);
+      expect(lines[1]).toContain(',Test Medicine,tablet,keluar,25,123,Sale transaction');
+      expect(lines[2]).toContain(',Test Medicine,tablet,masuk,50,,Stock replenishment');
+    });
   });
 
   describe('adjustStock', () => {
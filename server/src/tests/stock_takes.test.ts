@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { medicineBatchesTable, medicinesTable, stockMovementsTable, usersTable } from '../db/schema';
+import {
+  approveStockTake,
+  cancelStockTake,
+  getStockTakeById,
+  getStockTakes,
+  saveStockTakeCounts,
+  startStockTake
+} from '../handlers/stock_takes';
+import { createStockMovement } from '../handlers/stock_management';
+import { generateStockTakeReport } from '../handlers/reports';
+import { eq } from 'drizzle-orm';
+
+describe('Stock takes', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  let userId: number;
+  let paracetamolId: number;
+  let amoxicillinId: number;
+  let betadineId: number;
+
+  beforeEach(async () => {
+    const user = await db.insert(usersTable)
+      .values({ username: 'gudang', full_name: 'Rina Gudang', password_hash: 'x', role: 'gudang' })
+      .returning()
+      .execute();
+    const medicines = await db.insert(medicinesTable)
+      .values([
+        { name: 'Paracetamol', unit: 'tablet', price_per_unit: '5000.00', average_cost: '3000.00', stock_quantity: 100, minimum_stock: 10 },
+        { name: 'Amoxicillin', unit: 'kapsul', price_per_unit: '8000.00', stock_quantity: 50, minimum_stock: 10 },
+        { name: 'Betadine', unit: 'botol', price_per_unit: '25000.00', stock_quantity: 10, minimum_stock: 2 },
+        { name: 'Salep Lama', unit: 'tube', price_per_unit: '15000.00', stock_quantity: 4, minimum_stock: 0, archived_at: new Date() }
+      ])
+      .returning()
+      .execute();
+    userId = user[0].id;
+    paracetamolId = medicines[0].id;
+    amoxicillinId = medicines[1].id;
+    betadineId = medicines[2].id;
+
+    // Amoxicillin has no average cost yet, only the prices of its deliveries
+    await db.insert(medicineBatchesTable)
+      .values([
+        { medicine_id: amoxicillinId, lot_number: 'AMX-1', quantity: 20, purchase_price: '5500.00' },
+        { medicine_id: amoxicillinId, lot_number: 'AMX-2', quantity: 30, purchase_price: '6000.00' }
+      ])
+      .execute();
+  });
+
+  const stockOf = async (medicineId: number) =>
+    (await db.select().from(medicinesTable).where(eq(medicinesTable.id, medicineId)).execute())[0].stock_quantity;
+
+  const itemFor = (stockTake: Awaited<ReturnType<typeof startStockTake>>, medicineId: number) =>
+    stockTake.items.find(item => item.medicine_id === medicineId)!;
+
+  it('should freeze the stock of every stocked medicine and allow one session at a time', async () => {
+    const stockTake = await startStockTake({ notes: 'Opname akhir bulan' }, userId);
+
+    expect(stockTake.status).toEqual('counting');
+    expect(stockTake.started_by_name).toEqual('Rina Gudang');
+    expect(stockTake.total_items).toEqual(3); // Not the archived Salep Lama
+    expect(stockTake.counted_items).toEqual(0);
+    expect(itemFor(stockTake, paracetamolId).expected_quantity).toEqual(100);
+
+    // Valued at cost: the average cost, else the latest purchase price, else nothing known
+    expect(itemFor(stockTake, paracetamolId).unit_value).toEqual(3000);
+    expect(itemFor(stockTake, amoxicillinId).unit_value).toEqual(6000);
+    expect(itemFor(stockTake, betadineId).unit_value).toEqual(0);
+
+    await expect(startStockTake({}, userId)).rejects.toThrow(`Stock opname #${stockTake.id} masih berjalan`);
+  });
+
+  it('should show variances and their value while counting', async () => {
+    const stockTake = await startStockTake({}, userId);
+
+    const counted = await saveStockTakeCounts({
+      stock_take_id: stockTake.id,
+      counts: [
+        { item_id: itemFor(stockTake, paracetamolId).id, counted_quantity: 97, location: 'Rak A' },
+        { item_id: itemFor(stockTake, amoxicillinId).id, counted_quantity: 52, location: 'Rak B' }
+      ]
+    });
+
+    expect(counted.counted_items).toEqual(2);
+    expect(counted.items_with_variance).toEqual(2);
+    expect(counted.shortage_value).toEqual(9000);
+    expect(counted.surplus_value).toEqual(12000);
+    expect(itemFor(counted, paracetamolId)).toMatchObject({ location: 'Rak A', variance: -3, variance_value: -9000 });
+    expect(itemFor(counted, betadineId)).toMatchObject({ counted_quantity: null, variance: null, variance_value: null });
+
+    await expect(approveStockTake(stockTake.id, userId)).rejects.toThrow('Masih ada 1 obat yang belum dihitung');
+  });
+
+  it('should post every variance on approval against the stock at that moment', async () => {
+    const stockTake = await startStockTake({}, userId);
+
+    // Ten tablets leave the shelf after the snapshot was taken
+    await createStockMovement({ medicine_id: paracetamolId, movement_type: 'keluar', quantity: 10, reference_id: null, notes: null });
+
+    await saveStockTakeCounts({
+      stock_take_id: stockTake.id,
+      counts: [
+        { item_id: itemFor(stockTake, paracetamolId).id, counted_quantity: 97 },
+        { item_id: itemFor(stockTake, amoxicillinId).id, counted_quantity: 52 },
+        { item_id: itemFor(stockTake, betadineId).id, counted_quantity: 10 }
+      ]
+    });
+
+    const approved = await approveStockTake(stockTake.id, userId);
+    expect(approved.status).toEqual('approved');
+    expect(approved.approved_by_name).toEqual('Rina Gudang');
+
+    expect(await stockOf(paracetamolId)).toEqual(87);
+    expect(await stockOf(amoxicillinId)).toEqual(52);
+    expect(await stockOf(betadineId)).toEqual(10);
+
+    const movements = await db.select().from(stockMovementsTable).where(eq(stockMovementsTable.reference_type, 'stock_take')).execute();
+    expect(movements).toHaveLength(2);
+    expect(movements.find(movement => movement.medicine_id === paracetamolId))
+      .toMatchObject({ movement_type: 'keluar', quantity: 3, reference_id: stockTake.id });
+    expect(movements.find(movement => movement.medicine_id === amoxicillinId))
+      .toMatchObject({ movement_type: 'masuk', quantity: 2, reference_id: stockTake.id });
+
+    await expect(saveStockTakeCounts({
+      stock_take_id: stockTake.id,
+      counts: [{ item_id: itemFor(stockTake, betadineId).id, counted_quantity: 9 }]
+    })).rejects.toThrow(/sudah disetujui/);
+    await expect(cancelStockTake(stockTake.id)).rejects.toThrow(/sudah disetujui/);
+  });
+
+  it('should post nothing when a session is cancelled', async () => {
+    const stockTake = await startStockTake({}, userId);
+    await saveStockTakeCounts({
+      stock_take_id: stockTake.id,
+      counts: [{ item_id: itemFor(stockTake, paracetamolId).id, counted_quantity: 0 }]
+    });
+
+    const cancelled = await cancelStockTake(stockTake.id);
+    expect(cancelled.status).toEqual('cancelled');
+    expect(await stockOf(paracetamolId)).toEqual(100);
+
+    const next = await startStockTake({}, userId);
+    expect((await getStockTakes()).items.map(item => item.id)).toEqual([next.id, stockTake.id]);
+    await expect(getStockTakeById(99999)).rejects.toThrow('Stock take with ID 99999 not found');
+  });
+
+  it('should print the variance report', async () => {
+    const stockTake = await startStockTake({}, userId);
+    await saveStockTakeCounts({
+      stock_take_id: stockTake.id,
+      counts: [{ item_id: itemFor(stockTake, betadineId).id, counted_quantity: 8, location: 'Lemari Obat' }]
+    });
+
+    const report = await generateStockTakeReport(stockTake.id);
+
+    expect(report.mime_type).toEqual('application/pdf');
+    expect(report.filename).toStartWith(`stock-opname-${stockTake.id}-`);
+    const content = Buffer.from(report.content_base64, 'base64').toString('latin1');
+    expect(content.startsWith('%PDF')).toBe(true);
+    expect(content).toContain('Laporan Selisih Stock Opname');
+    expect(content).toContain('Lemari Obat');
+  });
+});
@@ -6,13 +6,17 @@ import {
   transactionsTable, 
   medicinesTable,
   transactionMedicinesTable,
-  stockMovementsTable
+  stockMovementsTable,
+  servicesTable,
+  followUpsTable
 } from '../db/schema';
 import { updateTransactionStatus, addTransactionNotes } from '../handlers/update_transaction';
+import { openShift } from '../handlers/cashier_shifts';
 import { eq } from 'drizzle-orm';
 
 describe('updateTransactionStatus', () => {
   beforeEach(createDB);
+  beforeEach(() => openShift({ opening_float: 0 }, 1)); // Marking a sale paid takes the money into the open shift
   afterEach(resetDB);
 
   it('should update transaction status from pending to paid', async () => {
@@ -82,7 +86,7 @@ describe('updateTransactionStatus', () => {
         price_per_unit: '5000.00',
         stock_quantity: 100,
         minimum_stock: 10,
-        expiry_date: '2025-12-31',
+        expiry_date: '2030-12-31',
         supplier: 'Test Supplier'
       })
       .returning()
@@ -184,7 +188,7 @@ describe('updateTransactionStatus', () => {
         price_per_unit: '5000.00',
         stock_quantity: 100,
         minimum_stock: 10,
-        expiry_date: '2025-12-31',
+        expiry_date: '2030-12-31',
         supplier: 'Test Supplier'
       })
       .returning()
@@ -242,6 +246,37 @@ describe('updateTransactionStatus', () => {
     expect(stockMovements[0].notes).toContain('Reaktivasi transaksi');
   });
 
+  it('should cancel and restore pending follow-ups with the transaction', async () => {
+    const patientResult = await db.insert(patientsTable)
+      .values({ name: 'Test Patient', date_of_birth: '2015-01-01', gender: 'Laki-laki' })
+      .returning()
+      .execute();
+    const serviceResult = await db.insert(servicesTable)
+      .values({ name: 'Khitan Klamp', description: null, price: '1500000.00', follow_up_days: [3, 7] })
+      .returning()
+      .execute();
+    const transactionResult = await db.insert(transactionsTable)
+      .values({ patient_id: patientResult[0].id, total_amount: '1500000.00', payment_method: 'tunai', payment_status: 'pending' })
+      .returning()
+      .execute();
+    await db.insert(followUpsTable)
+      .values([
+        { patient_id: patientResult[0].id, transaction_id: transactionResult[0].id, service_id: serviceResult[0].id, day_offset: 3, due_date: '2024-03-04', status: 'completed' },
+        { patient_id: patientResult[0].id, transaction_id: transactionResult[0].id, service_id: serviceResult[0].id, day_offset: 7, due_date: '2024-03-08' }
+      ])
+      .execute();
+
+    await updateTransactionStatus(transactionResult[0].id, 'cancelled');
+
+    let followUps = await db.select().from(followUpsTable).orderBy(followUpsTable.day_offset).execute();
+    expect(followUps.map(f => f.status)).toEqual(['completed', 'cancelled']);
+
+    await updateTransactionStatus(transactionResult[0].id, 'paid');
+
+    followUps = await db.select().from(followUpsTable).orderBy(followUpsTable.day_offset).execute();
+    expect(followUps.map(f => f.status)).toEqual(['completed', 'pending']);
+  });
+
   it('should throw error when transaction not found', async () => {
     expect(updateTransactionStatus(999, 'paid')).rejects.toThrow(/Transaction not found/i);
   });
@@ -272,7 +307,7 @@ describe('updateTransactionStatus', () => {
         price_per_unit: '5000.00',
         stock_quantity: 1, // Only 1 in stock
         minimum_stock: 10,
-        expiry_date: '2025-12-31',
+        expiry_date: '2030-12-31',
         supplier: 'Test Supplier'
       })
       .returning()
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import { type CreateUserInput } from '../schema';
+import { createUser, getUsers, updateUser } from '../handlers/users';
+import { verifyPassword } from '../handlers/auth';
+import { eq } from 'drizzle-orm';
+
+const testInput: CreateUserInput = {
+  username: 'dokter.andi',
+  full_name: 'dr. Andi',
+  password: 'rahasia123',
+  role: 'dokter'
+};
+
+describe('User Handlers', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  describe('createUser', () => {
+    it('should create a user with a hashed password', async () => {
+      const result = await createUser(testInput);
+
+      expect(result.id).toBeDefined();
+      expect(result.username).toEqual('dokter.andi');
+      expect(result.full_name).toEqual('dr. Andi');
+      expect(result.role).toEqual('dokter');
+      expect(result.is_active).toBe(true);
+      expect(result.created_at).toBeInstanceOf(Date);
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, result.id))
+        .execute();
+
+      expect(users[0].password_hash).not.toEqual('rahasia123');
+      expect(await verifyPassword('rahasia123', users[0].password_hash)).toBe(true);
+    });
+
+    it('should reject duplicate usernames', async () => {
+      await createUser(testInput);
+      await expect(createUser(testInput)).rejects.toThrow(/sudah digunakan/i);
+    });
+  });
+
+  describe('getUsers', () => {
+    it('should return users ordered by username without password hashes', async () => {
+      await createUser({ ...testInput, username: 'zaki', role: 'gudang' });
+      await createUser({ ...testInput, username: 'ani', role: 'kasir' });
+
+      const result = await getUsers();
+
+      expect(result).toHaveLength(2);
+      expect(result[0].username).toEqual('ani');
+      expect(result[1].username).toEqual('zaki');
+      expect((result[0] as Record<string, unknown>)['password_hash']).toBeUndefined();
+    });
+  });
+
+  describe('updateUser', () => {
+    it('should update role and name', async () => {
+      const user = await createUser(testInput);
+
+      const result = await updateUser({ id: user.id, role: 'owner', full_name: 'dr. Andi Sp.B' });
+
+      expect(result.role).toEqual('owner');
+      expect(result.full_name).toEqual('dr. Andi Sp.B');
+      expect(result.updated_at.getTime()).toBeGreaterThanOrEqual(user.updated_at.getTime());
+    });
+
+    it('should change the password and end open sessions', async () => {
+      const user = await createUser(testInput);
+      await db.insert(sessionsTable)
+        .values({ user_id: user.id, token_hash: 'abc', expires_at: new Date(Date.now() + 60000) })
+        .execute();
+
+      await updateUser({ id: user.id, password: 'passwordbaru' });
+
+      const users = await db.select()
+        .from(usersTable)
+        .where(eq(usersTable.id, user.id))
+        .execute();
+      expect(await verifyPassword('passwordbaru', users[0].password_hash)).toBe(true);
+
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, user.id))
+        .execute();
+      expect(sessions).toHaveLength(0);
+    });
+
+    it('should end open sessions when deactivating', async () => {
+      const user = await createUser(testInput);
+      await db.insert(sessionsTable)
+        .values({ user_id: user.id, token_hash: 'abc', expires_at: new Date(Date.now() + 60000) })
+        .execute();
+
+      const result = await updateUser({ id: user.id, is_active: false });
+
+      expect(result.is_active).toBe(false);
+      const sessions = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.user_id, user.id))
+        .execute();
+      expect(sessions).toHaveLength(0);
+    });
+
+    it('should throw for unknown users', async () => {
+      await expect(updateUser({ id: 999, role: 'kasir' })).rejects.toThrow(/not found/i);
+    });
+  });
+});